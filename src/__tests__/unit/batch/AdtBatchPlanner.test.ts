@@ -0,0 +1,249 @@
+/**
+ * Batch planner.
+ *
+ * Pinned by what a bulk read relies on: every operation gets its own answer
+ * back under its own key, no matter how the list was chunked or in which
+ * order the chunks finished; a transient failure is retried on its own, a
+ * permanent one is reported without a retry; and an operation that needs a
+ * second request does not hang the plan.
+ */
+
+import {
+  AdtOperationError,
+  type IAbapConnection,
+} from '@mcp-abap-adt/interfaces';
+import { AxiosError, type AxiosResponse } from 'axios';
+import { AdtBatchPlanner } from '../../../batch/AdtBatchPlanner';
+
+type Answer = { status: number; body: string };
+
+function fakeSystem(answer: (url: string) => Answer) {
+  const batches: string[][] = [];
+  const direct: string[] = [];
+  let inFlight = 0;
+  let maxInFlight = 0;
+  let failNextBatch: Error | undefined;
+
+  const connection = {
+    connect: async () => {},
+    getBaseUrl: async () => 'https://example',
+    getSessionId: () => null,
+    setSessionType: () => {},
+    makeAdtRequest: async (options: { url: string; data?: string }) => {
+      if (options.url !== '/sap/bc/adt/debugger/batch') {
+        const url = options.url.toLowerCase();
+        direct.push(url);
+        const { status, body } = answer(url);
+        const response = { status, statusText: '', headers: {}, data: body };
+        if (status >= 400) {
+          throw new AxiosError(
+            `Request failed with status code ${status}`,
+            undefined,
+            undefined,
+            undefined,
+            response as AxiosResponse,
+          );
+        }
+        return response;
+      }
+
+      inFlight += 1;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight -= 1;
+      if (failNextBatch) {
+        const error = failNextBatch;
+        failNextBatch = undefined;
+        throw error;
+      }
+
+      const urls = [
+        ...String(options.data).matchAll(/^GET (\S+) HTTP\/1\.1/gm),
+      ].map((match) => match[1].toLowerCase());
+      batches.push(urls);
+      const body = urls
+        .map((url) => {
+          const { status, body } = answer(url);
+          return `--resp\r\nContent-Type: application/http\r\n\r\nHTTP/1.1 ${status} X\r\ncontent-type: text/plain\r\n\r\n${body}\r\n`;
+        })
+        .join('');
+      return {
+        status: 200,
+        statusText: 'OK',
+        headers: { 'content-type': 'multipart/mixed; boundary=resp' },
+        data: `${body}--resp--\r\n`,
+      };
+    },
+  };
+
+  return {
+    connection: connection as unknown as IAbapConnection,
+    batches,
+    direct,
+    maxInFlight: () => maxInFlight,
+    failNextBatch: (error: Error) => {
+      failNextBatch = error;
+    },
+  };
+}
+
+const sourceOf = (url: string): Answer => ({
+  status: 200,
+  body: `* source of ${/([^/]+)\/source\/main/.exec(url)?.[1]}`,
+});
+
+const readClass = (name: string) => ({
+  key: name,
+  run: async (client: import('../../../clients/AdtClient').AdtClient) =>
+    (await client.getUtils().readObjectSource('class', name)).data as string,
+});
+
+describe('AdtBatchPlanner', () => {
+  it('chunks the reads and returns each result under its key, in input order', async () => {
+    const system = fakeSystem(sourceOf);
+    const names = ['ZCL_A', 'ZCL_B', 'ZCL_C', 'ZCL_D', 'ZCL_E'];
+
+    const results = await new AdtBatchPlanner(system.connection).execute(
+      names.map(readClass),
+      { chunkSize: 2 },
+    );
+
+    expect(system.batches.map((batch) => batch.length)).toEqual([2, 2, 1]);
+    expect([...results.keys()]).toEqual(names);
+    expect(results.get('ZCL_D')).toEqual({
+      ok: true,
+      value: '* source of zcl_d',
+      attempts: 1,
+    });
+    expect(system.direct).toEqual([]);
+  });
+
+  it('keeps no more batch requests in flight than the concurrency limit', async () => {
+    const system = fakeSystem(sourceOf);
+    const names = Array.from({ length: 12 }, (_, i) => `ZCL_${i}`);
+
+    await new AdtBatchPlanner(system.connection).execute(names.map(readClass), {
+      chunkSize: 2,
+      concurrency: 3,
+    });
+
+    expect(system.batches).toHaveLength(6);
+    expect(system.maxInFlight()).toBe(3);
+  });
+
+  it('retries a part that failed with a server error on its own', async () => {
+    let failures = 0;
+    const system = fakeSystem((url) =>
+      url.includes('zcl_flaky') && failures++ === 0
+        ? { status: 500, body: 'dump' }
+        : sourceOf(url),
+    );
+
+    const results = await new AdtBatchPlanner(system.connection).execute([
+      readClass('ZCL_A'),
+      readClass('ZCL_FLAKY'),
+    ]);
+
+    expect(results.get('ZCL_FLAKY')).toEqual({
+      ok: true,
+      value: '* source of zcl_flaky',
+      attempts: 2,
+    });
+    expect(results.get('ZCL_A')).toMatchObject({ ok: true, attempts: 1 });
+    expect(system.direct).toEqual([
+      '/sap/bc/adt/oo/classes/zcl_flaky/source/main',
+    ]);
+  });
+
+  it('reports a part that was not found without retrying it', async () => {
+    const system = fakeSystem((url) =>
+      url.includes('zcl_gone') ? { status: 404, body: '' } : sourceOf(url),
+    );
+
+    const results = await new AdtBatchPlanner(system.connection).execute([
+      readClass('ZCL_GONE'),
+    ]);
+    const outcome = results.get('ZCL_GONE');
+
+    expect(outcome).toMatchObject({ ok: false, attempts: 1 });
+    expect(
+      outcome?.ok === false && (outcome.error as AxiosError).response?.status,
+    ).toBe(404);
+    expect(system.direct).toEqual([]);
+  });
+
+  it('reports a coded error without a status without retrying it', async () => {
+    const system = fakeSystem(sourceOf);
+    const run = jest.fn(async () => {
+      const error = new AdtOperationError('Class name is not valid');
+      error.code = 'ADT_VALIDATION_FAILED';
+      throw error;
+    });
+
+    const results = await new AdtBatchPlanner(system.connection).execute([
+      { key: 'ZCL_ A', run },
+    ]);
+
+    expect(results.get('ZCL_ A')).toMatchObject({
+      ok: false,
+      attempts: 1,
+      error: { code: 'ADT_VALIDATION_FAILED' },
+    });
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs every operation of a lost batch again individually', async () => {
+    const system = fakeSystem(sourceOf);
+    system.failNextBatch(new Error('socket hang up'));
+
+    const results = await new AdtBatchPlanner(system.connection).execute([
+      readClass('ZCL_A'),
+      readClass('ZCL_B'),
+    ]);
+
+    expect([...results.values()]).toEqual([
+      { ok: true, value: '* source of zcl_a', attempts: 2 },
+      { ok: true, value: '* source of zcl_b', attempts: 2 },
+    ]);
+    expect(system.direct).toHaveLength(2);
+  });
+
+  it('sends the later requests of a multi-step operation directly instead of hanging', async () => {
+    const system = fakeSystem(sourceOf);
+
+    const results = await new AdtBatchPlanner(system.connection).execute([
+      {
+        key: 'pair',
+        run: async (client) => {
+          const first = await client
+            .getUtils()
+            .readObjectSource('class', 'ZCL_A');
+          const second = await client
+            .getUtils()
+            .readObjectSource('interface', 'ZIF_B');
+          return [first.data, second.data];
+        },
+      },
+    ]);
+
+    expect(results.get('pair')).toEqual({
+      ok: true,
+      value: ['* source of zcl_a', '* source of zif_b'],
+      attempts: 1,
+    });
+    expect(system.direct).toEqual([
+      '/sap/bc/adt/oo/interfaces/zif_b/source/main',
+    ]);
+  });
+
+  it('refuses a plan with a duplicate key', async () => {
+    const system = fakeSystem(sourceOf);
+
+    await expect(
+      new AdtBatchPlanner(system.connection).execute([
+        readClass('ZCL_A'),
+        readClass('ZCL_A'),
+      ]),
+    ).rejects.toMatchObject({ code: 'BATCH_PLAN_DUPLICATE_KEY' });
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Bulk runtime reads on AdtRuntimeClientBatch.
+ *
+ * Pinned by what triage scripts rely on: a list read once on its own names
+ * what to fetch, the fetches go out batched, and each result comes back
+ * parsed under the key the caller knows it by — dump ID, record number,
+ * parent object key — with a failure or an unreadable body confined to its
+ * own entry.
+ */
+
+import type { IAbapConnection } from '@mcp-abap-adt/interfaces';
+import { AdtRuntimeClientBatch } from '../../../batch/AdtRuntimeClientBatch';
+
+type Answer = { status: number; body: string; contentType?: string };
+
+function fakeSystem(answer: (url: string) => Answer) {
+  const batches: string[][] = [];
+  const direct: string[] = [];
+
+  const connection = {
+    connect: async () => {},
+    getBaseUrl: async () => 'https://example',
+    getSessionId: () => null,
+    setSessionType: () => {},
+    makeAdtRequest: async (options: { url: string; data?: string }) => {
+      if (options.url !== '/sap/bc/adt/debugger/batch') {
+        direct.push(options.url);
+        const { status, body } = answer(options.url);
+        return { status, statusText: '', headers: {}, data: body };
+      }
+
+      const urls = [
+        ...String(options.data).matchAll(/^GET (\S+) HTTP\/1\.1/gm),
+      ].map((match) => match[1]);
+      batches.push(urls);
+      const body = urls
+        .map((url) => {
+          const { status, body, contentType } = answer(url);
+          return `--resp\r\nContent-Type: application/http\r\n\r\nHTTP/1.1 ${status} X\r\ncontent-type: ${contentType ?? 'application/xml'}\r\n\r\n${body}\r\n`;
+        })
+        .join('');
+      return {
+        status: 200,
+        statusText: 'OK',
+        headers: { 'content-type': 'multipart/mixed; boundary=resp' },
+        data: `${body}--resp--\r\n`,
+      };
+    },
+  };
+
+  return {
+    connection: connection as unknown as IAbapConnection,
+    batches,
+    direct,
+  };
+}
+
+const dump = (error: string) =>
+  `<dump:dump xmlns:dump="http://www.sap.com/adt/categories/dump" error="${error}" exception="CX_SY_ZERODIVIDE" terminatedProgram="ZDIVIDE" author="DEVELOPER" datetime="2026-10-01T08:15:00Z"><dump:chapters><dump:chapter name="kap1" title="What happened?" category="ABAP Developer View" line="12" chapterOrder="2"/><dump:chapter name="kap0" title="Short Text" category="ABAP Developer View" line="1" chapterOrder="1"/></dump:chapters></dump:dump>`;
+
+describe('AdtRuntimeClientBatch bulk reads', () => {
+  it('reads dump headers in one batch, keyed by dump ID', async () => {
+    const system = fakeSystem((url) =>
+      url.endsWith('/D2')
+        ? { status: 200, body: 'no dump here' }
+        : { status: 200, body: dump('COMPUTE_INT_ZERODIVIDE') },
+    );
+
+    const dumps = await new AdtRuntimeClientBatch(
+      system.connection,
+    ).getDumpsById(['D1', 'D2', 'D3']);
+
+    expect(system.batches).toEqual([
+      [
+        '/sap/bc/adt/runtime/dump/D1',
+        '/sap/bc/adt/runtime/dump/D2',
+        '/sap/bc/adt/runtime/dump/D3',
+      ],
+    ]);
+    expect(dumps.get('D1')).toEqual({
+      ok: true,
+      attempts: 1,
+      value: {
+        error: 'COMPUTE_INT_ZERODIVIDE',
+        exception: 'CX_SY_ZERODIVIDE',
+        program: 'ZDIVIDE',
+        user: 'DEVELOPER',
+        datetime: '2026-10-01T08:15:00Z',
+        chapters: [
+          {
+            name: 'kap0',
+            title: 'Short Text',
+            category: 'ABAP Developer View',
+            line: 1,
+          },
+          {
+            name: 'kap1',
+            title: 'What happened?',
+            category: 'ABAP Developer View',
+            line: 12,
+          },
+        ],
+      },
+    });
+    expect(dumps.get('D2')).toMatchObject({
+      ok: false,
+      attempts: 1,
+      error: { code: 'RUNTIME_BATCH_UNREADABLE_RESPONSE' },
+    });
+    expect(dumps.get('D3')).toMatchObject({ ok: true });
+  });
+
+  it('expands a cross trace: records list first, then every record content', async () => {
+    const system = fakeSystem((url) =>
+      url.endsWith('/records')
+        ? {
+            status: 200,
+            body: '<ctrace:records xmlns:ctrace="http://www.sap.com/adt/crosstrace"><ctrace:record recordNumber="1"/><ctrace:record recordNumber="2"/><ctrace:record recordNumber="5"/></ctrace:records>',
+          }
+        : {
+            status: 200,
+            body: `{"record":${/records\/(\d+)\/content/.exec(url)?.[1]}}`,
+            contentType: 'application/json',
+          },
+    );
+
+    const contents = await new AdtRuntimeClientBatch(
+      system.connection,
+    ).getCrossTraceRecordContents('TRACE001', { chunkSize: 2 });
+
+    expect(system.direct).toEqual([
+      '/sap/bc/adt/crosstrace/traces/TRACE001/records',
+    ]);
+    expect(system.batches.map((batch) => batch.length)).toEqual([2, 1]);
+    expect([...contents.keys()]).toEqual([1, 2, 5]);
+    expect(contents.get(5)).toEqual({
+      ok: true,
+      attempts: 1,
+      value: {
+        recordNumber: 5,
+        contentType: 'application/json',
+        content: '{"record":5}',
+      },
+    });
+  });
+
+  it('expands the ranking list of a snapshot into the children of each object', async () => {
+    const system = fakeSystem((url) => {
+      if (url.includes('/rankinglist')) {
+        return {
+          status: 200,
+          body: '<mem:rankingList xmlns:mem="http://www.sap.com/adt/runtime/memory"><mem:object objectKey="K1" name="LT_BIG" type="TABLE"/><mem:object objectKey="K2" name="LO_CACHE" type="OBJECT"/></mem:rankingList>',
+        };
+      }
+      if (url.includes('parentKey=K2')) return { status: 404, body: '' };
+      return {
+        status: 200,
+        body: '<mem:children xmlns:mem="http://www.sap.com/adt/runtime/memory"><mem:object objectKey="K1.1" name="LINE" type="STRUCTURE" boundMemory="1024"/></mem:children>',
+      };
+    });
+
+    const children = await new AdtRuntimeClientBatch(
+      system.connection,
+    ).getSnapshotRankingChildren('SNAP1', {
+      rankingList: { maxNumberOfObjects: 2 },
+    });
+
+    expect(system.direct).toEqual([
+      '/sap/bc/adt/runtime/memory/snapshots/SNAP1/rankinglist?maxNumberOfObjects=2',
+    ]);
+    expect(children.get('K1')).toEqual({
+      ok: true,
+      attempts: 1,
+      value: [
+        {
+          key: 'K1.1',
+          name: 'LINE',
+          type: 'STRUCTURE',
+          attributes: {
+            objectKey: 'K1.1',
+            name: 'LINE',
+            type: 'STRUCTURE',
+            boundMemory: '1024',
+          },
+        },
+      ],
+    });
+    expect(children.get('K2')).toMatchObject({
+      ok: false,
+      attempts: 1,
+      error: { response: { status: 404 } },
+    });
+  });
+
+  it('reads only the parents it is given, without the ranking list', async () => {
+    const system = fakeSystem(() => ({
+      status: 200,
+      body: '<children/>',
+    }));
+
+    const children = await new AdtRuntimeClientBatch(
+      system.connection,
+    ).getSnapshotRankingChildren('SNAP1', { parentKeys: ['K9'] });
+
+    expect(system.direct).toEqual([]);
+    expect(children.get('K9')).toEqual({ ok: true, attempts: 1, value: [] });
+  });
+});
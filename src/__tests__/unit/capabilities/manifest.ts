@@ -1350,6 +1350,10 @@ export const HANDLERS = {
  * wrote down.
  */
 export const NOT_HANDLERS: Record<string, string> = {
+  getRefactoring:
+    "AdtRefactoring — rename, extract method, change package. Drives the server's refactoring steps across whatever objects they affect; has no object of its own.",
+  getSourceIntelligence:
+    "AdtSourceIntelligence — code completion, element info, code insertion on unsaved source. Reads the server's analysis of text; acts on no object.",
   getUtils:
     'AdtUtils — search, where-used, package hierarchy, SQL. Not an object handler and has no capability matrix.',
 };
@@ -0,0 +1,392 @@
+/**
+ * Offline abapGit serializer.
+ *
+ * Pinned by the files abapGit would write — their names, which parts a class
+ * has files for, the DDIC structures in the `.xml` — and, going back, by the
+ * handler calls made: only what differs from the files is written, and what
+ * was written is activated in one group.
+ */
+
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { AdtClient } from '../../../clients/AdtClient';
+import {
+  AdtAbapGitSerializer,
+  readAbapGitFolder,
+  writeAbapGitFolder,
+} from '../../../clients/abapGit/serializer';
+
+const sourceState = (data: string | undefined) =>
+  data === undefined ? undefined : { readResult: { data } };
+
+const metadataState = (attributes: string) => ({
+  metadataResult: {
+    data: `<?xml version="1.0"?><class:abapClass xmlns:class="http://www.sap.com/adt/oo/classes" xmlns:adtcore="http://www.sap.com/adt/core" ${attributes}/>`,
+  },
+});
+
+const sourceHandler = (source?: string) => ({
+  read: jest.fn(async () => sourceState(source)),
+  readMetadata: jest.fn(async () =>
+    metadataState(
+      'adtcore:description="Demo" adtcore:masterLanguage="EN" class:final="true"',
+    ),
+  ),
+  create: jest.fn(async () => ({})),
+  update: jest.fn(async () => ({})),
+});
+
+const CLASS_SOURCE = [
+  'CLASS zcl_demo DEFINITION PUBLIC FINAL CREATE PUBLIC.',
+  'ENDCLASS.',
+  'CLASS zcl_demo IMPLEMENTATION.',
+  'ENDCLASS.',
+].join('\n');
+
+const LOCALS_TEMPLATE = '*"* use this source file for any type of declarations';
+
+const TABLE_SOURCE = [
+  "@EndUserText.label : 'Demo table'",
+  '@AbapCatalog.enhancement.category : #NOT_EXTENSIBLE',
+  '@AbapCatalog.tableCategory : #TRANSPARENT',
+  '@AbapCatalog.deliveryClass : #A',
+  '@AbapCatalog.dataMaintenance : #RESTRICTED',
+  'define table zdemo {',
+  '',
+  '  key client : abap.clnt not null;',
+  '  key id     : sysuuid_x16 not null;',
+  "  @Semantics.amount.currencyCode : 'zdemo.currency'",
+  '  amount     : abap.curr(15,2);',
+  '  currency   : abap.cuky;',
+  '  note       : abap.char(40);',
+  '',
+  '}',
+].join('\n');
+
+function fakeClient(
+  overrides: Record<string, unknown> = {},
+  utils: Record<string, unknown> = {},
+) {
+  const handlers: Record<string, ReturnType<typeof sourceHandler>> = {
+    getClass: sourceHandler(CLASS_SOURCE),
+    getLocalDefinitions: sourceHandler(LOCALS_TEMPLATE),
+    getLocalTypes: sourceHandler('CLASS lcl_helper DEFINITION.\nENDCLASS.'),
+    getLocalMacros: sourceHandler(''),
+    getLocalTestClass: sourceHandler(undefined),
+    getTable: sourceHandler(TABLE_SOURCE),
+    ...(overrides as Record<string, ReturnType<typeof sourceHandler>>),
+  };
+  const utilities = {
+    activateObjectsGroup: jest.fn(async () => ({
+      data: '<chkl:messages xmlns:chkl="http://www.sap.com/abapxml/checklist"/>',
+    })),
+    getPackageContentsList: jest.fn(async () => []),
+    ...utils,
+  };
+  const client = {
+    getUtils: () => utilities,
+    ...Object.fromEntries(
+      Object.entries(handlers).map(([name, handler]) => [name, () => handler]),
+    ),
+  } as unknown as AdtClient;
+  return { client, handlers, utilities };
+}
+
+describe('AdtAbapGitSerializer.serialize()', () => {
+  it('writes a class in abapGit layout, with files only for includes holding code', async () => {
+    const { client } = fakeClient();
+
+    const result = await new AdtAbapGitSerializer(client).serialize([
+      { type: 'CLAS', name: 'zcl_demo' },
+    ]);
+
+    expect(result.files.map((file) => file.path)).toEqual([
+      '.abapgit.xml',
+      'src/zcl_demo.clas.abap',
+      'src/zcl_demo.clas.locals_imp.abap',
+      'src/zcl_demo.clas.xml',
+    ]);
+    expect(result.objects).toEqual([{ type: 'CLAS', name: 'ZCL_DEMO' }]);
+    const xml = result.files[3].content;
+    expect(xml).toContain('serializer="LCL_OBJECT_CLAS"');
+    expect(xml).toContain('<CLSNAME>ZCL_DEMO</CLSNAME>');
+    expect(xml).toContain('<LANGU>E</LANGU>');
+    expect(xml).toContain('<DESCRIPT>Demo</DESCRIPT>');
+    expect(xml).toContain('<CLSFINAL>X</CLSFINAL>');
+    expect(xml).not.toContain('WITH_UNIT_TESTS');
+    expect(result.files[0].content).toContain(
+      '<STARTING_FOLDER>/src/</STARTING_FOLDER>',
+    );
+  });
+
+  it('reads a table source into DD02V and DD03P, and writes the same source back', async () => {
+    const { client, handlers } = fakeClient();
+    const serializer = new AdtAbapGitSerializer(client);
+
+    const { files } = await serializer.serialize(
+      [{ type: 'TABL', name: 'ZDEMO' }],
+      {
+        repositoryFile: false,
+      },
+    );
+
+    expect(files.map((file) => file.path)).toEqual(['src/zdemo.tabl.xml']);
+    const xml = files[0].content;
+    expect(xml).toContain('<TABCLASS>TRANSP</TABCLASS>');
+    expect(xml).toContain('<CLIDEP>X</CLIDEP>');
+    expect(xml).toContain('<CONTFLAG>A</CONTFLAG>');
+    expect(xml).toContain('<EXCLASS>1</EXCLASS>');
+    expect(xml).toContain('<ROLLNAME>SYSUUID_X16</ROLLNAME>');
+    expect(xml).toContain('<REFFIELD>CURRENCY</REFFIELD>');
+
+    // Rebuilding from the file gives the source it was read from.
+    handlers.getTable.read.mockResolvedValue(undefined as never);
+    await serializer.deserialize(files, {
+      packageName: 'ZPKG',
+      activate: false,
+    });
+    expect(handlers.getTable.create).toHaveBeenCalledTimes(1);
+    expect(handlers.getTable.update).toHaveBeenCalledWith(
+      { tableName: 'ZDEMO', transportRequest: undefined },
+      { sourceCode: TABLE_SOURCE, activateOnUpdate: false },
+    );
+  });
+
+  it('refuses a type it has no serializer for, and an object that does not exist', async () => {
+    const { client } = fakeClient({ getClass: sourceHandler(undefined) });
+    const serializer = new AdtAbapGitSerializer(client);
+
+    await expect(
+      serializer.serialize([{ type: 'SICF', name: 'ZX' }]),
+    ).rejects.toMatchObject({ code: 'ABAPGIT_TYPE_UNSUPPORTED' });
+    await expect(
+      serializer.serialize([{ type: 'CLAS', name: 'ZCL_GONE' }]),
+    ).rejects.toMatchObject({ code: 'ABAPGIT_OBJECT_NOT_FOUND' });
+  });
+});
+
+describe('AdtAbapGitSerializer.serializePackage()', () => {
+  it('lists what it cannot serialize instead of failing the package', async () => {
+    const { client } = fakeClient(
+      {
+        getTable: sourceHandler(
+          'define table zbad {\n  key id : abap.char(10);\n  @AbapCatalog.foreignKey.screenCheck : true\n  ref : abap.char(4);\n}',
+        ),
+      },
+      {
+        getPackageContentsList: jest.fn(async () => [
+          { name: 'ZSUB', type: 'DEVC/K', isPackage: true },
+          { name: 'ZCL_DEMO', type: 'CLAS/OC', isPackage: false },
+          { name: 'ZBAD', type: 'TABL/DT', isPackage: false },
+          { name: 'ZSRV', type: 'SRVB/SVB', isPackage: false },
+        ]),
+      },
+    );
+
+    const result = await new AdtAbapGitSerializer(client).serializePackage(
+      'ZPKG',
+    );
+
+    expect(result.objects).toEqual([{ type: 'CLAS', name: 'ZCL_DEMO' }]);
+    expect(result.skipped).toEqual([
+      expect.objectContaining({ type: 'TABL', name: 'ZBAD' }),
+      expect.objectContaining({ type: 'SRVB/SVB', name: 'ZSRV' }),
+    ]);
+  });
+});
+
+describe('AdtAbapGitSerializer.deserialize()', () => {
+  it('leaves an object the files match alone, and activates nothing', async () => {
+    const { client, handlers, utilities } = fakeClient();
+    const serializer = new AdtAbapGitSerializer(client);
+    const { files } = await serializer.serialize([
+      { type: 'CLAS', name: 'ZCL_DEMO' },
+    ]);
+
+    const result = await serializer.deserialize(files, {
+      packageName: 'ZPKG',
+    });
+
+    expect(result.objects).toEqual([
+      { type: 'CLAS', name: 'ZCL_DEMO', action: 'unchanged' },
+    ]);
+    expect(result.skippedFiles).toEqual(['.abapgit.xml']);
+    expect(handlers.getClass.update).not.toHaveBeenCalled();
+    expect(utilities.activateObjectsGroup).not.toHaveBeenCalled();
+  });
+
+  it('writes only the parts that differ and activates them as one group', async () => {
+    const { client, handlers, utilities } = fakeClient();
+    const serializer = new AdtAbapGitSerializer(client);
+    const { files } = await serializer.serialize([
+      { type: 'CLAS', name: 'ZCL_DEMO' },
+    ]);
+    const edited = files
+      .filter((file) => !file.path.endsWith('locals_imp.abap'))
+      .concat({
+        path: 'src/zcl_demo.clas.testclasses.abap',
+        content: 'CLASS ltcl_demo DEFINITION FOR TESTING.\nENDCLASS.',
+      });
+
+    const result = await serializer.deserialize(edited, {
+      packageName: 'ZPKG',
+      transportRequest: 'DEVK900001',
+    });
+
+    expect(result.objects).toEqual([
+      { type: 'CLAS', name: 'ZCL_DEMO', action: 'updated' },
+    ]);
+    expect(handlers.getClass.update).not.toHaveBeenCalled();
+    expect(handlers.getLocalTypes.update).toHaveBeenCalledWith(
+      { className: 'ZCL_DEMO', transportRequest: 'DEVK900001' },
+      { sourceCode: '', activateOnUpdate: false },
+    );
+    expect(handlers.getLocalTestClass.update).toHaveBeenCalledTimes(1);
+    expect(handlers.getLocalDefinitions.update).not.toHaveBeenCalled();
+    expect(utilities.activateObjectsGroup).toHaveBeenCalledWith([
+      { type: 'CLAS/OC', name: 'ZCL_DEMO' },
+    ]);
+    expect(result.activation).toMatchObject({ messages: [] });
+  });
+
+  it('upserts only the messages of a message class that changed', async () => {
+    const messageClass = {
+      read: jest.fn(async () => ({
+        messageClass: {
+          description: 'Demo messages',
+          masterLanguage: 'EN',
+          messages: [
+            { msgno: '001', msgtext: 'Kept' },
+            { msgno: '002', msgtext: 'Old text' },
+          ],
+        },
+      })),
+      create: jest.fn(),
+      update: jest.fn(),
+    };
+    const message = { update: jest.fn(async (_config: unknown) => ({})) };
+    const { client, utilities } = fakeClient({
+      getMessageClass: messageClass,
+      getMessageClassMessage: message,
+    });
+    const serializer = new AdtAbapGitSerializer(client);
+    const { files } = await serializer.serialize(
+      [{ type: 'MSAG', name: 'ZDEMO' }],
+      { repositoryFile: false },
+    );
+    const content = files[0].content
+      .replace('Old text', 'New text')
+      .replace(
+        '\n   </T100>',
+        '\n    <T100>\n     <MSGNR>003</MSGNR>\n     <TEXT>Added</TEXT>\n    </T100>\n   </T100>',
+      );
+
+    const result = await serializer.deserialize(
+      [{ path: files[0].path, content }],
+      { packageName: 'ZPKG' },
+    );
+
+    expect(result.objects).toEqual([
+      { type: 'MSAG', name: 'ZDEMO', action: 'updated' },
+    ]);
+    expect(messageClass.create).not.toHaveBeenCalled();
+    expect(messageClass.update).not.toHaveBeenCalled();
+    expect(message.update.mock.calls.map(([config]) => config)).toEqual([
+      {
+        className: 'ZDEMO',
+        msgno: '002',
+        msgtext: 'New text',
+        transportRequest: undefined,
+      },
+      {
+        className: 'ZDEMO',
+        msgno: '003',
+        msgtext: 'Added',
+        transportRequest: undefined,
+      },
+    ]);
+    expect(utilities.activateObjectsGroup).not.toHaveBeenCalled();
+  });
+
+  it('creates a domain that does not exist, with its fixed values', async () => {
+    const domain = {
+      read: jest.fn(async () => undefined),
+      create: jest.fn(async () => ({})),
+      update: jest.fn(async () => ({})),
+    };
+    const { client, utilities } = fakeClient({ getDomain: domain });
+    const xml = [
+      '<?xml version="1.0" encoding="utf-8"?>',
+      '<abapGit version="v1.0.0" serializer="LCL_OBJECT_DOMA" serializer_version="v1.0.0">',
+      ' <asx:abap xmlns:asx="http://www.sap.com/abapxml" version="1.0">',
+      '  <asx:values>',
+      '   <DD01V>',
+      '    <DOMNAME>ZSTATUS</DOMNAME>',
+      '    <DDLANGUAGE>E</DDLANGUAGE>',
+      '    <DATATYPE>CHAR</DATATYPE>',
+      '    <LENG>000001</LENG>',
+      '    <VALEXI>X</VALEXI>',
+      '    <DDTEXT>Status</DDTEXT>',
+      '   </DD01V>',
+      '   <DD07V_TAB>',
+      '    <DD07V>',
+      '     <DOMVALUE_L>A</DOMVALUE_L>',
+      '     <DDTEXT>Active</DDTEXT>',
+      '    </DD07V>',
+      '   </DD07V_TAB>',
+      '  </asx:values>',
+      ' </asx:abap>',
+      '</abapGit>',
+    ].join('\n');
+
+    const result = await new AdtAbapGitSerializer(client).deserialize(
+      [{ path: 'src/zstatus.doma.xml', content: xml }],
+      { packageName: 'zpkg' },
+    );
+
+    expect(result.objects).toEqual([
+      { type: 'DOMA', name: 'ZSTATUS', action: 'created' },
+    ]);
+    expect(domain.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        domainName: 'ZSTATUS',
+        packageName: 'ZPKG',
+        datatype: 'CHAR',
+        length: 1,
+        fixed_values: [{ low: 'A', text: 'Active' }],
+      }),
+      expect.objectContaining({ activateOnUpdate: false }),
+    );
+    expect(utilities.activateObjectsGroup).toHaveBeenCalledWith([
+      { type: 'DOMA/DD', name: 'ZSTATUS' },
+    ]);
+  });
+
+  it('requires the package new objects go into', async () => {
+    const { client } = fakeClient();
+
+    await expect(
+      new AdtAbapGitSerializer(client).deserialize([], { packageName: '' }),
+    ).rejects.toThrow('Package name is required');
+  });
+});
+
+describe('abapGit folder helpers', () => {
+  it('write files to a folder and read them back with / paths', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'abapgit-'));
+    try {
+      const files = [
+        { path: '.abapgit.xml', content: '<xml/>' },
+        { path: 'src/sub/zif_demo.intf.abap', content: 'INTERFACE zif_demo.' },
+        { path: 'src/zcl_demo.clas.abap', content: 'CLASS zcl_demo.' },
+      ];
+
+      await writeAbapGitFolder(directory, files);
+
+      expect(await readAbapGitFolder(directory)).toEqual(files);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -59,8 +59,24 @@ class MockWebSocketTransport implements IWebSocketTransport {
       await this.messageHandler(message);
     }
   }
+
+  /** The network going away under the client. */
+  async drop(): Promise<void> {
+    this.connected = false;
+    if (this.closeHandler) {
+      await this.closeHandler({ code: 1006, wasClean: false });
+    }
+  }
 }
 
+type DebuggerEvents = {
+  'debugger.paused': { reason: string };
+  'debugger.resumed': undefined;
+};
+
+const sentOperations = (transport: MockWebSocketTransport) =>
+  transport.send.mock.calls.map(([message]) => message.operation);
+
 describe('AdtClientsWS', () => {
   it('delegates connect/disconnect and connection state', async () => {
     const transport = new MockWebSocketTransport();
@@ -172,4 +188,274 @@ describe('AdtClientsWS', () => {
     const debuggerClient = client.getDebuggerSessionClient();
     expect(debuggerClient).toBeInstanceOf(DebuggerSessionClient);
   });
+
+  it('delivers typed payloads per operation until unsubscribed', async () => {
+    const transport = new MockWebSocketTransport();
+    const client = new AdtClientsWS<DebuggerEvents>(transport);
+    const reasons: string[] = [];
+    const unsubscribe = client.on('debugger.paused', (payload) => {
+      reasons.push(payload.reason);
+    });
+
+    await transport.emitMessage({
+      kind: 'event',
+      operation: 'debugger.paused',
+      payload: { reason: 'breakpoint' },
+    });
+    await transport.emitMessage({
+      kind: 'event',
+      operation: 'debugger.resumed',
+    });
+    unsubscribe();
+    await transport.emitMessage({
+      kind: 'event',
+      operation: 'debugger.paused',
+      payload: { reason: 'step' },
+    });
+
+    expect(reasons).toEqual(['breakpoint']);
+  });
+
+  it('keeps delivering an event when a handler throws, and logs the failure', async () => {
+    const transport = new MockWebSocketTransport();
+    const logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    const client = new AdtClientsWS<DebuggerEvents>(transport, logger);
+    const events = client.events('debugger.paused');
+    const reasons: string[] = [];
+    client.on('debugger.paused', () => {
+      throw new Error('handler bug');
+    });
+    client.on('debugger.paused', (payload) => {
+      reasons.push(payload.reason);
+    });
+
+    await transport.emitMessage({
+      kind: 'event',
+      operation: 'debugger.paused',
+      payload: { reason: 'breakpoint' },
+    });
+
+    expect(reasons).toEqual(['breakpoint']);
+    expect((await events.next()).value?.payload).toEqual({
+      reason: 'breakpoint',
+    });
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.stringContaining('debugger.paused'),
+      'handler bug',
+    );
+  });
+
+  it('iterates the events of an operation, keeping those that arrive between reads', async () => {
+    const transport = new MockWebSocketTransport();
+    const client = new AdtClientsWS<DebuggerEvents>(transport);
+    await client.connect('wss://example.test/realtime');
+    const paused = client.events('debugger.paused');
+
+    for (const reason of ['breakpoint', 'step']) {
+      await transport.emitMessage({
+        kind: 'event',
+        operation: 'debugger.paused',
+        payload: { reason },
+      });
+      await transport.emitMessage({ kind: 'event', operation: 'other' });
+    }
+    const reasons: string[] = [];
+    for await (const event of paused) {
+      reasons.push(event.payload?.reason ?? '');
+      if (reasons.length === 2) {
+        setTimeout(() => void client.disconnect(), 0);
+      }
+    }
+
+    expect(reasons).toEqual(['breakpoint', 'step']);
+    expect(client.getState()).toBe('closed');
+  });
+
+  it('fails requests in flight at once when the transport drops', async () => {
+    const transport = new MockWebSocketTransport();
+    const client = new AdtClientsWS(transport);
+    await client.connect('wss://example.test/realtime');
+
+    const pending = client.request('debugger.getStack');
+    await transport.drop();
+
+    await expect(pending).rejects.toMatchObject({ code: 'WS_CONNECTION_LOST' });
+    expect(client.getState()).toBe('closed');
+  });
+
+  it('reconnects with backoff and replays pending requests in their order', async () => {
+    jest.useFakeTimers();
+    try {
+      const transport = new MockWebSocketTransport();
+      const client = new AdtClientsWS(transport, undefined, {
+        reconnect: { initialDelayMs: 100, pending: 'replay' },
+      });
+      const states: string[] = [];
+      client.onStateChange((state) => states.push(state));
+      await client.connect('wss://example.test/realtime');
+
+      const first = client.request('debugger.getStack', undefined, {
+        correlationId: 'a',
+      });
+      const second = client.request('debugger.getVariables', undefined, {
+        correlationId: 'b',
+      });
+      transport.connect.mockRejectedValueOnce(new Error('refused'));
+      await transport.drop();
+      const third = client.request('debugger.step', undefined, {
+        correlationId: 'c',
+      });
+      transport.send.mockClear();
+
+      await jest.advanceTimersByTimeAsync(100);
+      expect(transport.connect).toHaveBeenCalledTimes(2);
+      expect(transport.send).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(200);
+      expect(transport.connect).toHaveBeenCalledTimes(3);
+      expect(sentOperations(transport)).toEqual([
+        'debugger.getStack',
+        'debugger.getVariables',
+        'debugger.step',
+      ]);
+
+      for (const correlationId of ['a', 'b', 'c']) {
+        await transport.emitMessage({
+          kind: 'response',
+          correlationId,
+          payload: correlationId,
+        });
+      }
+      await expect(Promise.all([first, second, third])).resolves.toEqual([
+        'a',
+        'b',
+        'c',
+      ]);
+      expect(states).toEqual(['open', 'reconnecting', 'open']);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('closes a transport that finishes connecting after disconnect()', async () => {
+    jest.useFakeTimers();
+    try {
+      const transport = new MockWebSocketTransport();
+      const client = new AdtClientsWS(transport, undefined, {
+        reconnect: { initialDelayMs: 10 },
+      });
+      await client.connect('wss://example.test/realtime');
+
+      let opened: () => void = () => {};
+      transport.connect.mockImplementationOnce(
+        () =>
+          new Promise<void>((resolve) => {
+            opened = () => {
+              (transport as unknown as { connected: boolean }).connected = true;
+              resolve();
+            };
+          }),
+      );
+      await transport.drop();
+      await jest.advanceTimersByTimeAsync(10);
+      expect(transport.connect).toHaveBeenCalledTimes(2);
+
+      await client.disconnect();
+      opened();
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(transport.disconnect).toHaveBeenCalledTimes(2);
+      expect(client.isConnected()).toBe(false);
+      expect(client.getState()).toBe('closed');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('gives up after the last attempt and ends iterations with the error', async () => {
+    jest.useFakeTimers();
+    try {
+      const transport = new MockWebSocketTransport();
+      const client = new AdtClientsWS(transport, undefined, {
+        reconnect: { maxAttempts: 2, initialDelayMs: 10 },
+      });
+      await client.connect('wss://example.test/realtime');
+      const events = client.events();
+      const next = events.next();
+      const pending = client.request('debugger.getStack');
+      const pendingFailure = expect(pending).rejects.toMatchObject({
+        code: 'WS_CONNECTION_LOST',
+      });
+
+      transport.connect.mockRejectedValue(new Error('refused'));
+      await transport.drop();
+      await expect(client.request('debugger.step')).rejects.toMatchObject({
+        code: 'WS_CONNECTION_LOST',
+      });
+      await pendingFailure;
+
+      const iterationFailure = expect(next).rejects.toMatchObject({
+        code: 'WS_RECONNECT_FAILED',
+      });
+      await jest.advanceTimersByTimeAsync(30);
+      await iterationFailure;
+      expect(client.getState()).toBe('closed');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('closes a silent connection whose ping goes unanswered and reconnects', async () => {
+    jest.useFakeTimers();
+    try {
+      const transport = new MockWebSocketTransport();
+      const client = new AdtClientsWS(transport, undefined, {
+        heartbeat: { intervalMs: 1000, timeoutMs: 200 },
+        reconnect: { initialDelayMs: 50 },
+      });
+      await client.connect('wss://example.test/realtime');
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(sentOperations(transport)).toEqual(['ws.ping']);
+      await jest.advanceTimersByTimeAsync(200);
+
+      expect(transport.disconnect).toHaveBeenCalledWith(
+        4000,
+        'heartbeat timeout',
+      );
+      expect(client.getState()).toBe('reconnecting');
+      await jest.advanceTimersByTimeAsync(50);
+      expect(client.getState()).toBe('open');
+      expect(transport.connect).toHaveBeenCalledTimes(2);
+      await client.disconnect();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('does not ping a connection that is still receiving', async () => {
+    jest.useFakeTimers();
+    try {
+      const transport = new MockWebSocketTransport();
+      const client = new AdtClientsWS(transport, undefined, {
+        heartbeat: { intervalMs: 1000 },
+      });
+      await client.connect('wss://example.test/realtime');
+
+      for (let i = 0; i < 3; i++) {
+        await jest.advanceTimersByTimeAsync(600);
+        await transport.emitMessage({ kind: 'event', operation: 'tick' });
+      }
+
+      expect(transport.send).not.toHaveBeenCalled();
+      await client.disconnect();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
 });
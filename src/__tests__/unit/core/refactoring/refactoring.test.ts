@@ -0,0 +1,314 @@
+/**
+ * Rename, extract method and change package through evaluate → preview →
+ * execute.
+ *
+ * Each step sends back the document the server answered the previous one
+ * with, the caller's choices patched in; this pins that the server's own
+ * document travels (what it carries that is not modelled survives), that the
+ * diff is read with its indentation, and that nothing executes that was not
+ * previewed first.
+ */
+
+import type {
+  IAbapConnection,
+  IAbapRequestOptions,
+  IAdtResponse,
+} from '@mcp-abap-adt/interfaces';
+import {
+  AdtRefactoring,
+  AdtRefactoringLegacy,
+} from '../../../../core/refactoring';
+
+const URI = '/sap/bc/adt/oo/classes/zcl_demo/source/main';
+const RANGE = {
+  uri: URI,
+  start: { line: 12, column: 9 },
+  end: { line: 12, column: 17 },
+};
+
+const renameDocument = (
+  newName: string,
+  transport: string,
+  deltas = '',
+) => `<?xml version="1.0" encoding="utf-8"?>
+<rename:renameRefactoring xmlns:adtcore="http://www.sap.com/adt/core" xmlns:generic="http://www.sap.com/adt/refactoring/genericrefactoring" xmlns:rename="http://www.sap.com/adt/refactoring/renamerefactoring">
+  <generic:genericRefactoring>
+    <generic:title>Rename GET_NAME</generic:title>
+    <generic:adtObjectUri>${URI}#start=12,9;end=12,17</generic:adtObjectUri>
+    <generic:affectedObjects>
+      <generic:affectedObject adtcore:name="ZCL_DEMO" adtcore:type="CLAS/OC" adtcore:uri="/sap/bc/adt/oo/classes/zcl_demo" adtcore:parentUri="/sap/bc/adt/packages/zdemo">
+        <generic:userContent>keep-me</generic:userContent>${deltas}
+      </generic:affectedObject>
+    </generic:affectedObjects>
+    <generic:transport>${transport}</generic:transport>
+    <generic:ignoreSyntaxErrorsAllowed>false</generic:ignoreSyntaxErrorsAllowed>
+    <generic:ignoreSyntaxErrors>false</generic:ignoreSyntaxErrors>
+    <generic:userContent/>
+  </generic:genericRefactoring>
+  <rename:oldName>GET_NAME</rename:oldName>
+  <rename:newName>${newName}</rename:newName>
+</rename:renameRefactoring>`;
+
+const EVALUATED = renameDocument('GET_NAME', 'E19K900001');
+const PREVIEWED = renameDocument(
+  'GET_DISPLAY_NAME',
+  'E19K900002',
+  `
+        <generic:textReplaceDeltas>
+          <generic:textReplaceDelta>
+            <generic:rangeFragment>#start=12,9;end=12,17</generic:rangeFragment>
+            <generic:contentOld>    METHODS get_name</generic:contentOld>
+            <generic:contentNew>    METHODS get_display_name</generic:contentNew>
+          </generic:textReplaceDelta>
+        </generic:textReplaceDeltas>`,
+);
+
+const EXTRACT_EVALUATED = `<?xml version="1.0" encoding="utf-8"?>
+<extractmethod:extractMethodRefactoring xmlns:extractmethod="http://www.sap.com/adt/refactoring/extractmethodrefactoring" xmlns:generic="http://www.sap.com/adt/refactoring/genericrefactoring">
+  <generic:genericRefactoring>
+    <generic:title>Extract Method</generic:title>
+    <generic:affectedObjects/>
+    <generic:transport/>
+    <generic:ignoreSyntaxErrorsAllowed>true</generic:ignoreSyntaxErrorsAllowed>
+    <generic:ignoreSyntaxErrors>false</generic:ignoreSyntaxErrors>
+  </generic:genericRefactoring>
+  <extractmethod:content>
+    <extractmethod:name>new_method</extractmethod:name>
+  </extractmethod:content>
+</extractmethod:extractMethodRefactoring>`;
+
+/** Answers each call with the next body in turn. */
+const connectionOver = (...bodies: unknown[]) => {
+  const calls: IAbapRequestOptions[] = [];
+  const connection = {
+    makeAdtRequest: async (options: IAbapRequestOptions) => {
+      calls.push(options);
+      return {
+        data: bodies[calls.length - 1],
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+      } as unknown as IAdtResponse;
+    },
+  } as unknown as IAbapConnection;
+  return { refactoring: new AdtRefactoring(connection), calls };
+};
+
+const query = (call: IAbapRequestOptions) =>
+  new URL(call.url, 'http://host').searchParams;
+
+describe('AdtRefactoring rename', () => {
+  it('evaluates with the selection in the uri', async () => {
+    const { refactoring, calls } = connectionOver(EVALUATED);
+
+    const rename = await refactoring.evaluateRename(RANGE);
+
+    expect(calls[0]).toMatchObject({ method: 'POST', data: '' });
+    expect(calls[0].url).toMatch(/^\/sap\/bc\/adt\/refactorings\?/);
+    expect(query(calls[0]).get('step')).toBe('evaluate');
+    expect(query(calls[0]).get('rel')).toBe(
+      'http://www.sap.com/adt/relations/refactoring/rename',
+    );
+    expect(query(calls[0]).get('uri')).toBe(`${URI}#start=12,9;end=12,17`);
+    expect(rename).toMatchObject({
+      kind: 'rename',
+      step: 'evaluate',
+      title: 'Rename GET_NAME',
+      oldName: 'GET_NAME',
+      transportRequest: 'E19K900001',
+      ignoreSyntaxErrorsAllowed: false,
+      affectedObjects: [
+        {
+          uri: '/sap/bc/adt/oo/classes/zcl_demo',
+          type: 'CLAS/OC',
+          name: 'ZCL_DEMO',
+          parentUri: '/sap/bc/adt/packages/zdemo',
+          deltas: [],
+        },
+      ],
+    });
+  });
+
+  it('previews the server document with the new name and transport patched in', async () => {
+    const { refactoring, calls } = connectionOver(EVALUATED, PREVIEWED);
+
+    const rename = await refactoring.evaluateRename(RANGE);
+    const preview = await refactoring.preview(rename, {
+      newName: 'GET_DISPLAY_NAME',
+      transportRequest: 'E19K900002',
+    });
+
+    expect(query(calls[1]).get('step')).toBe('preview');
+    const sent = calls[1].data as string;
+    expect(sent).toContain('<rename:newName>GET_DISPLAY_NAME</rename:newName>');
+    expect(sent).toContain('<generic:transport>E19K900002</generic:transport>');
+    expect(sent).toContain('keep-me');
+    expect(preview.affectedObjects[0].deltas).toEqual([
+      {
+        range: '#start=12,9;end=12,17',
+        start: { line: 12, column: 9 },
+        end: { line: 12, column: 17 },
+        contentOld: '    METHODS get_name',
+        contentNew: '    METHODS get_display_name',
+      },
+    ]);
+  });
+
+  it('keeps the proposed transport when none is given', async () => {
+    const { refactoring, calls } = connectionOver(EVALUATED, PREVIEWED);
+
+    await refactoring.preview(await refactoring.evaluateRename(RANGE), {
+      newName: 'GET_DISPLAY_NAME',
+    });
+
+    expect(calls[1].data).toContain(
+      '<generic:transport>E19K900001</generic:transport>',
+    );
+  });
+
+  it('executes the previewed document', async () => {
+    const { refactoring, calls } = connectionOver(EVALUATED, PREVIEWED, '');
+
+    const preview = await refactoring.preview(
+      await refactoring.evaluateRename(RANGE),
+      { newName: 'GET_DISPLAY_NAME' },
+    );
+    const done = await refactoring.execute(preview);
+
+    expect(query(calls[2]).get('step')).toBe('execute');
+    expect(calls[2].data).toBe(PREVIEWED);
+    expect(done.step).toBe('execute');
+    expect(done.affectedObjects).toEqual(preview.affectedObjects);
+  });
+
+  it('refuses to execute what was not previewed', async () => {
+    const { refactoring, calls } = connectionOver(EVALUATED);
+
+    const rename = await refactoring.evaluateRename(RANGE);
+
+    await expect(refactoring.execute(rename)).rejects.toMatchObject({
+      code: 'REFACTORING_NOT_PREVIEWED',
+    });
+    expect(calls).toHaveLength(1);
+  });
+
+  it('refuses to preview a rename without a new name', async () => {
+    const { refactoring } = connectionOver(EVALUATED);
+
+    const rename = await refactoring.evaluateRename(RANGE);
+
+    await expect(refactoring.preview(rename)).rejects.toThrow(/New name/);
+  });
+
+  it('refuses to ignore syntax errors the server would not ignore', async () => {
+    const { refactoring } = connectionOver(EVALUATED);
+
+    const rename = await refactoring.evaluateRename(RANGE);
+
+    await expect(
+      refactoring.preview(rename, {
+        newName: 'X',
+        ignoreSyntaxErrors: true,
+      }),
+    ).rejects.toMatchObject({
+      code: 'REFACTORING_SYNTAX_ERRORS_NOT_IGNORABLE',
+    });
+  });
+
+  it('refuses a range that ends before it starts', async () => {
+    const { refactoring, calls } = connectionOver(EVALUATED);
+
+    await expect(
+      refactoring.evaluateRename({
+        ...RANGE,
+        end: { line: 12, column: 2 },
+      }),
+    ).rejects.toThrow(/before its start/);
+    expect(calls).toHaveLength(0);
+  });
+
+  it('rejects an answer that is not a rename document', async () => {
+    const { refactoring } = connectionOver('<html>login</html>');
+
+    await expect(refactoring.evaluateRename(RANGE)).rejects.toMatchObject({
+      code: 'REFACTORING_UNREADABLE',
+    });
+  });
+});
+
+describe('AdtRefactoring extract method', () => {
+  it('posts the selection and reads the proposed method name', async () => {
+    const { refactoring, calls } = connectionOver(EXTRACT_EVALUATED);
+
+    const extract = await refactoring.evaluateExtractMethod(RANGE);
+
+    expect(query(calls[0]).get('rel')).toBe(
+      'http://www.sap.com/adt/relations/refactoring/extractmethod',
+    );
+    expect(calls[0].data).toContain(
+      `<generic:adtObjectUri>${URI}#start=12,9;end=12,17</generic:adtObjectUri>`,
+    );
+    expect(extract).toMatchObject({
+      kind: 'extractMethod',
+      methodName: 'new_method',
+      ignoreSyntaxErrorsAllowed: true,
+    });
+  });
+
+  it('patches the chosen method name into the preview', async () => {
+    const { refactoring, calls } = connectionOver(
+      EXTRACT_EVALUATED,
+      EXTRACT_EVALUATED,
+    );
+
+    await refactoring.preview(await refactoring.evaluateExtractMethod(RANGE), {
+      newName: 'format_total',
+      ignoreSyntaxErrors: true,
+    });
+
+    expect(calls[1].data).toContain(
+      '<extractmethod:name>format_total</extractmethod:name>',
+    );
+    expect(calls[1].data).toContain(
+      '<generic:ignoreSyntaxErrors>true</generic:ignoreSyntaxErrors>',
+    );
+  });
+});
+
+describe('AdtRefactoring change package', () => {
+  const TARGET = {
+    uri: '/sap/bc/adt/oo/classes/zcl_demo',
+    type: 'CLAS/OC',
+    name: 'ZCL_DEMO',
+    packageName: '$TMP',
+  };
+
+  it('posts the object and both packages to its own resource', async () => {
+    const answer = `<changepackage:changePackageRefactoring xmlns:changepackage="http://www.sap.com/adt/refactoring/changepackagerefactoring" xmlns:generic="http://www.sap.com/adt/refactoring/genericrefactoring"><generic:genericRefactoring><generic:transport/></generic:genericRefactoring><changepackage:oldPackage>$TMP</changepackage:oldPackage><changepackage:newPackage>ZDEMO</changepackage:newPackage></changepackage:changePackageRefactoring>`;
+    const { refactoring, calls } = connectionOver(answer);
+
+    const move = await refactoring.evaluateChangePackage(TARGET, 'zdemo');
+
+    expect(calls[0].url).toMatch(
+      /^\/sap\/bc\/adt\/refactoring\/changepackage\?step=evaluate$/,
+    );
+    expect(calls[0].data).toContain(
+      '<changepackage:newPackage>ZDEMO</changepackage:newPackage>',
+    );
+    expect(move).toMatchObject({ oldPackage: '$TMP', newPackage: 'ZDEMO' });
+  });
+
+  it('is refused on a legacy system', async () => {
+    const calls: IAbapRequestOptions[] = [];
+    const legacy = new AdtRefactoringLegacy({
+      makeAdtRequest: async (options: IAbapRequestOptions) => {
+        calls.push(options);
+      },
+    } as unknown as IAbapConnection);
+
+    await expect(legacy.evaluateChangePackage()).rejects.toThrow(
+      /not supported on this SAP system \(legacy/,
+    );
+    expect(calls).toHaveLength(0);
+  });
+});
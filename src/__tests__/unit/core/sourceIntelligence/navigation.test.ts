@@ -0,0 +1,146 @@
+/**
+ * Navigation from a source position, and the implementations of a method.
+ *
+ * Both post the unsaved source with the cursor in `uri`. The target is read
+ * out of the URI ADT returns — which object, which include, which line — so a
+ * caller follows a symbol without parsing ADT's conventions or guessing object
+ * names; and the declaring type is not listed among its own implementations.
+ */
+
+import type {
+  IAbapConnection,
+  IAbapRequestOptions,
+  IAdtResponse,
+} from '@mcp-abap-adt/interfaces';
+import { AdtUtils } from '../../../../core/shared/AdtUtils';
+import { createLibraryLogger } from '../../../helpers/testLogger';
+
+const URI = '/sap/bc/adt/oo/classes/zcl_demo/source/main';
+const SOURCE = [
+  'CLASS zcl_demo IMPLEMENTATION.',
+  '  METHOD run.',
+  '    zcl_helper=>format( ).',
+  '  ENDMETHOD.',
+  'ENDCLASS.',
+].join('\n');
+
+const TARGET = `<?xml version="1.0" encoding="utf-8"?>
+<adtcore:objectReference xmlns:adtcore="http://www.sap.com/adt/core" adtcore:uri="/sap/bc/adt/oo/classes/zcl_helper/source/main#start=40,11" adtcore:type="CLAS/OM" adtcore:name="FORMAT"/>`;
+
+const LOCAL_TARGET = `<?xml version="1.0" encoding="utf-8"?>
+<adtcore:objectReference xmlns:adtcore="http://www.sap.com/adt/core" adtcore:uri="/sap/bc/adt/oo/classes/zcl_demo/includes/implementations#start=7,2" adtcore:type="CLAS/OCL" adtcore:name="LCL_BUFFER"/>`;
+
+const HIERARCHY = `<?xml version="1.0" encoding="utf-8"?>
+<hierarchy:result xmlns:hierarchy="http://www.sap.com/adt/abapsource/typehierarchy" xmlns:adtcore="http://www.sap.com/adt/core">
+  <hierarchy:entry adtcore:uri="/sap/bc/adt/oo/interfaces/zif_formatter/source/main#start=3,10" adtcore:type="INTF/OI" adtcore:name="ZIF_FORMATTER" hierarchy:hasDefOrImpl="true"/>
+  <hierarchy:entry adtcore:uri="/sap/bc/adt/oo/classes/zcl_upper/source/main#start=12,4" adtcore:type="CLAS/OC" adtcore:name="ZCL_UPPER" adtcore:description="Upper case" adtcore:parentUri="/sap/bc/adt/oo/interfaces/zif_formatter" hierarchy:hasDefOrImpl="true"/>
+  <hierarchy:entry adtcore:uri="/sap/bc/adt/oo/classes/zcl_base/source/main" adtcore:type="CLAS/OC" adtcore:name="ZCL_BASE" adtcore:parentUri="/sap/bc/adt/oo/interfaces/zif_formatter" hierarchy:hasDefOrImpl="false"/>
+  <hierarchy:entry adtcore:uri="/sap/bc/adt/oo/classes/zcl_lower/source/main#start=20,4" adtcore:type="CLAS/OC" adtcore:name="ZCL_LOWER" adtcore:parentUri="/sap/bc/adt/oo/classes/zcl_base" hierarchy:hasDefOrImpl="true"/>
+</hierarchy:result>`;
+
+const utilsOver = (body: unknown) => {
+  const calls: IAbapRequestOptions[] = [];
+  const connection = {
+    makeAdtRequest: async (options: IAbapRequestOptions) => {
+      calls.push(options);
+      return {
+        data: body,
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+      } as unknown as IAdtResponse;
+    },
+  } as unknown as IAbapConnection;
+  return { utils: new AdtUtils(connection, createLibraryLogger()), calls };
+};
+
+const query = (call: IAbapRequestOptions) =>
+  new URL(call.url, 'http://host').searchParams;
+
+describe('AdtUtils.navigate()', () => {
+  it('posts the source with the cursor and reads the target', async () => {
+    const { utils, calls } = utilsOver(TARGET);
+
+    const target = await utils.navigate(URI, SOURCE, 3, 16);
+
+    expect(calls[0]).toMatchObject({ method: 'POST', data: SOURCE });
+    expect(calls[0].url).toMatch(/^\/sap\/bc\/adt\/navigation\/target\?/);
+    expect(query(calls[0]).get('uri')).toBe(`${URI}#start=3,16`);
+    expect(query(calls[0]).get('filter')).toBe('definition');
+    expect(target).toEqual({
+      uri: '/sap/bc/adt/oo/classes/zcl_helper/source/main#start=40,11',
+      sourceUri: '/sap/bc/adt/oo/classes/zcl_helper/source/main',
+      objectUri: '/sap/bc/adt/oo/classes/zcl_helper',
+      include: 'main',
+      type: 'CLAS/OM',
+      name: 'FORMAT',
+      line: 40,
+      column: 11,
+    });
+  });
+
+  it('names the class include a local target is in', async () => {
+    const { utils } = utilsOver(LOCAL_TARGET);
+
+    const target = await utils.navigate(URI, SOURCE, 3, 16);
+
+    expect(target).toMatchObject({
+      objectUri: '/sap/bc/adt/oo/classes/zcl_demo',
+      include: 'implementations',
+      line: 7,
+    });
+  });
+
+  it('asks for the implementation when told to', async () => {
+    const { utils, calls } = utilsOver(TARGET);
+
+    await utils.navigate(URI, SOURCE, 3, 16, 'implementation');
+
+    expect(query(calls[0]).get('filter')).toBe('implementation');
+  });
+
+  it('is null when the position leads nowhere', async () => {
+    const { utils } = utilsOver('');
+
+    await expect(utils.navigate(URI, SOURCE, 1, 0)).resolves.toBeNull();
+  });
+
+  it('rejects an answer that is not an object reference', async () => {
+    const { utils } = utilsOver('<html>login</html>');
+
+    await expect(utils.navigate(URI, SOURCE, 3, 16)).rejects.toMatchObject({
+      code: 'SOURCE_NAVIGATION_UNREADABLE',
+    });
+  });
+});
+
+describe('AdtUtils.getImplementations()', () => {
+  it('lists the sub-types that implement or redefine the method', async () => {
+    const { utils, calls } = utilsOver(HIERARCHY);
+
+    const implementations = await utils.getImplementations(URI, SOURCE, 3, 16);
+
+    expect(calls[0].url).toMatch(
+      /^\/sap\/bc\/adt\/abapsource\/typehierarchy\?/,
+    );
+    expect(query(calls[0]).get('type')).toBe('subTypes');
+    expect(query(calls[0]).get('uri')).toBe(`${URI}#start=3,16`);
+    // The interface declares it and ZCL_BASE inherits it unchanged.
+    expect(implementations.map((i) => [i.name, i.line, i.parentUri])).toEqual([
+      ['ZCL_UPPER', 12, '/sap/bc/adt/oo/interfaces/zif_formatter'],
+      ['ZCL_LOWER', 20, '/sap/bc/adt/oo/classes/zcl_base'],
+    ]);
+    expect(implementations[0]).toMatchObject({
+      objectUri: '/sap/bc/adt/oo/classes/zcl_upper',
+      description: 'Upper case',
+    });
+  });
+
+  it('rejects an answer that is not a hierarchy', async () => {
+    const { utils } = utilsOver('<html>login</html>');
+
+    await expect(
+      utils.getImplementations(URI, SOURCE, 3, 16),
+    ).rejects.toMatchObject({ code: 'SOURCE_TYPE_HIERARCHY_UNREADABLE' });
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Quick fixes: what the server offers at a position, and the changes one
+ * makes.
+ *
+ * The position comes from where a check message or finding points; the fix
+ * is applied by sending the proposal's own state back to its own URI; the
+ * answer is deltas, each naming its source and range, which apply to the text
+ * the server saw. Nothing is written to the object.
+ */
+
+import type {
+  IAbapConnection,
+  IAbapRequestOptions,
+  IAdtResponse,
+} from '@mcp-abap-adt/interfaces';
+import {
+  AdtSourceIntelligence,
+  applyQuickFixDeltas,
+  sourceCursorAt,
+} from '../../../../core/sourceIntelligence';
+
+const URI = '/sap/bc/adt/programs/programs/zdemo/source/main';
+const SOURCE = ['REPORT zdemo.', '', 'lv_count = 1.', 'WRITE lv_count.'].join(
+  '\n',
+);
+
+const PROPOSALS = `<?xml version="1.0" encoding="utf-8"?>
+<qf:evaluationResults xmlns:qf="http://www.sap.com/adt/quickfixes" xmlns:adtcore="http://www.sap.com/adt/core">
+  <qf:evaluationResult>
+    <adtcore:objectReference adtcore:uri="/sap/bc/adt/quickfixes/declare_local/proposal" adtcore:type="quickfix/proposal" adtcore:name="Declare local variable LV_COUNT" adtcore:description="DATA lv_count TYPE i."/>
+    <qf:userContent>&lt;state id="7"/&gt;</qf:userContent>
+  </qf:evaluationResult>
+  <qf:evaluationResult>
+    <qf:userContent>no reference, not a fix</qf:userContent>
+  </qf:evaluationResult>
+</qf:evaluationResults>`;
+
+const DELTAS = `<?xml version="1.0" encoding="utf-8"?>
+<quickfixes:proposalResult xmlns:quickfixes="http://www.sap.com/adt/quickfixes" xmlns:adtcore="http://www.sap.com/adt/core">
+  <deltas>
+    <unit>
+      <adtcore:objectReference adtcore:uri="${URI}#start=3,0;end=3,0"/>
+      <content>DATA lv_count TYPE i.
+</content>
+    </unit>
+  </deltas>
+</quickfixes:proposalResult>`;
+
+const connectionOver = (...bodies: unknown[]) => {
+  const calls: IAbapRequestOptions[] = [];
+  const connection = {
+    makeAdtRequest: async (options: IAbapRequestOptions) => {
+      calls.push(options);
+      return {
+        data: bodies[calls.length - 1],
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+      } as unknown as IAdtResponse;
+    },
+  } as unknown as IAbapConnection;
+  return { intelligence: new AdtSourceIntelligence(connection), calls };
+};
+
+describe('AdtSourceIntelligence quick fixes', () => {
+  const cursor = sourceCursorAt(`${URI}#start=3,0`, SOURCE);
+
+  it('asks at the position a message points to', async () => {
+    const { intelligence, calls } = connectionOver(PROPOSALS);
+
+    const proposals = await intelligence.getQuickFixProposals(cursor);
+
+    expect(calls[0]).toMatchObject({ method: 'POST', data: SOURCE });
+    expect(calls[0].url).toBe(
+      `/sap/bc/adt/quickfixes/evaluation?uri=${encodeURIComponent(`${URI}#start=3,0`)}`,
+    );
+    expect(proposals).toEqual([
+      {
+        uri: '/sap/bc/adt/quickfixes/declare_local/proposal',
+        type: 'quickfix/proposal',
+        name: 'Declare local variable LV_COUNT',
+        description: 'DATA lv_count TYPE i.',
+        userContent: '<state id="7"/>',
+      },
+    ]);
+  });
+
+  it('is an empty list when the server knows no fix', async () => {
+    const { intelligence } = connectionOver('');
+
+    await expect(intelligence.getQuickFixProposals(cursor)).resolves.toEqual(
+      [],
+    );
+  });
+
+  it('applies a fix by posting its state back to its URI', async () => {
+    const { intelligence, calls } = connectionOver(PROPOSALS, DELTAS);
+
+    const [proposal] = await intelligence.getQuickFixProposals(cursor);
+    const deltas = await intelligence.applyQuickFix(cursor, proposal);
+
+    expect(calls[1].url).toBe('/sap/bc/adt/quickfixes/declare_local/proposal');
+    const sent = calls[1].data as string;
+    expect(sent).toContain('<content>REPORT zdemo.');
+    expect(sent).toContain(`adtcore:uri="${URI}#start=3,0"`);
+    expect(sent).toContain('<userContent>&lt;state id="7"/&gt;</userContent>');
+    expect(deltas).toEqual([
+      {
+        uri: URI,
+        start: { line: 3, column: 0 },
+        end: { line: 3, column: 0 },
+        content: 'DATA lv_count TYPE i.\n',
+      },
+    ]);
+    expect(applyQuickFixDeltas(SOURCE, deltas, URI)).toBe(
+      [
+        'REPORT zdemo.',
+        '',
+        'DATA lv_count TYPE i.',
+        'lv_count = 1.',
+        'WRITE lv_count.',
+      ].join('\n'),
+    );
+  });
+
+  it('rejects an answer that is not a proposal result', async () => {
+    const { intelligence } = connectionOver(PROPOSALS, '<html>login</html>');
+
+    const [proposal] = await intelligence.getQuickFixProposals(cursor);
+
+    await expect(
+      intelligence.applyQuickFix(cursor, proposal),
+    ).rejects.toMatchObject({ code: 'SOURCE_QUICKFIX_UNREADABLE' });
+  });
+});
+
+describe('applyQuickFixDeltas()', () => {
+  it('applies each delta where it was in the text the server saw', () => {
+    const source = 'a = b + c.';
+
+    const fixed = applyQuickFixDeltas(source, [
+      {
+        uri: URI,
+        start: { line: 1, column: 4 },
+        end: { line: 1, column: 5 },
+        content: 'lv_b',
+      },
+      {
+        uri: URI,
+        start: { line: 1, column: 8 },
+        end: { line: 1, column: 9 },
+        content: 'lv_c',
+      },
+    ]);
+
+    expect(fixed).toBe('a = lv_b + lv_c.');
+  });
+
+  it('inserts deltas at the same position in their list order', () => {
+    const insert = (content: string) => ({
+      uri: URI,
+      start: { line: 1, column: 2 },
+      end: { line: 1, column: 2 },
+      content,
+    });
+
+    expect(applyQuickFixDeltas('x.', [insert('(1)'), insert('(2)')], URI)).toBe(
+      'x.(1)(2)',
+    );
+  });
+
+  it('refuses deltas that overlap', () => {
+    expect(() =>
+      applyQuickFixDeltas(
+        'a = b + c.',
+        [
+          {
+            uri: URI,
+            start: { line: 1, column: 4 },
+            end: { line: 1, column: 9 },
+            content: 'd',
+          },
+          {
+            uri: URI,
+            start: { line: 1, column: 8 },
+            end: { line: 1, column: 9 },
+            content: 'lv_c',
+          },
+        ],
+        URI,
+      ),
+    ).toThrow(
+      expect.objectContaining({ code: 'SOURCE_QUICKFIX_DELTAS_OVERLAP' }),
+    );
+  });
+
+  it('refuses deltas for more than one source without a uri', () => {
+    expect(() =>
+      applyQuickFixDeltas('x.', [
+        {
+          uri: '/sap/bc/adt/oo/classes/zcl_x/includes/definitions',
+          start: { line: 1, column: 0 },
+          end: { line: 1, column: 0 },
+          content: 'DATA y.',
+        },
+        {
+          uri: '/sap/bc/adt/oo/classes/zcl_x/source/main',
+          start: { line: 1, column: 0 },
+          end: { line: 1, column: 1 },
+          content: 'z',
+        },
+      ]),
+    ).toThrow(/change 2 sources/);
+  });
+
+  it('leaves deltas for another source to the caller', () => {
+    const fixed = applyQuickFixDeltas(
+      'x.',
+      [
+        {
+          uri: '/sap/bc/adt/oo/classes/zcl_x/includes/definitions',
+          start: { line: 1, column: 0 },
+          end: { line: 1, column: 0 },
+          content: 'DATA y.',
+        },
+        {
+          uri: '/sap/bc/adt/oo/classes/zcl_x/source/main',
+          start: { line: 1, column: 0 },
+          end: { line: 1, column: 1 },
+          content: 'z',
+        },
+      ],
+      '/sap/bc/adt/oo/classes/ZCL_X#start=1,0',
+    );
+
+    expect(fixed).toBe('z.');
+  });
+
+  it('refuses deltas none of which is for the source', () => {
+    expect(() =>
+      applyQuickFixDeltas(
+        'x.',
+        [
+          {
+            uri: '/sap/bc/adt/oo/classes/zcl_x/includes/definitions',
+            start: { line: 1, column: 0 },
+            end: { line: 1, column: 0 },
+            content: 'DATA y.',
+          },
+        ],
+        '/sap/bc/adt/oo/classes/zcl_x/source/main',
+      ),
+    ).toThrow(/None of the 1 delta\(s\) is for/);
+  });
+
+  it('refuses a delta outside the text', () => {
+    expect(() =>
+      applyQuickFixDeltas('x.', [
+        {
+          uri: URI,
+          start: { line: 2, column: 0 },
+          end: { line: 2, column: 0 },
+          content: 'y',
+        },
+      ]),
+    ).toThrow(/Delta line 2/);
+  });
+});
+
+describe('sourceCursorAt()', () => {
+  it('refuses a location without a position', () => {
+    expect(() =>
+      sourceCursorAt('/sap/bc/adt/programs/programs/zdemo', SOURCE),
+    ).toThrow(/no source position/);
+  });
+});
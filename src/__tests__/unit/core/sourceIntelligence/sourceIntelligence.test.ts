@@ -0,0 +1,256 @@
+/**
+ * Code completion, element info and code insertion.
+ *
+ * Each request carries the cursor as the `#start=line,column` fragment of the
+ * source URI and the unsaved text as its body; this pins both, and that the
+ * answers are read rather than passed through — the `@end` marker is not a
+ * proposal, and a body that is not a proposal list is not "no proposals".
+ */
+
+import type {
+  IAbapConnection,
+  IAbapRequestOptions,
+  IAdtResponse,
+} from '@mcp-abap-adt/interfaces';
+import { AdtSourceIntelligence } from '../../../../core/sourceIntelligence';
+
+const SOURCE = [
+  'CLASS zcl_demo IMPLEMENTATION.',
+  '  METHOD run.',
+  '    me->get',
+  '  ENDMETHOD.',
+  'ENDCLASS.',
+].join('\n');
+
+const CURSOR = {
+  uri: '/sap/bc/adt/oo/classes/zcl_demo/source/main',
+  source: SOURCE,
+  line: 3,
+  column: 11,
+};
+
+const PROPOSALS = `<?xml version="1.0" encoding="utf-8"?>
+<asx:abap xmlns:asx="http://www.sap.com/abapxml" version="1.0">
+  <asx:values>
+    <DATA>
+      <SCC_COMPLETION>
+        <KIND>10</KIND><IDENTIFIER>GET_NAME</IDENTIFIER><BOLD>1</BOLD>
+        <INSERT_EVENT>1</INSERT_EVENT><IS_META>0</IS_META><PREFIXLENGTH>3</PREFIXLENGTH>
+        <ROLE>2</ROLE><LOCATION>1</LOCATION><GRADE>4</GRADE><VISIBILITY>0</VISIBILITY>
+        <IS_INHERITED/>
+      </SCC_COMPLETION>
+      <SCC_COMPLETION>
+        <KIND>1</KIND><IDENTIFIER>1000</IDENTIFIER><BOLD/><INSERT_EVENT>0</INSERT_EVENT>
+        <IS_META>X</IS_META><PREFIXLENGTH>0</PREFIXLENGTH><IS_INHERITED>X</IS_INHERITED>
+      </SCC_COMPLETION>
+      <SCC_COMPLETION><IDENTIFIER>@end</IDENTIFIER></SCC_COMPLETION>
+    </DATA>
+  </asx:values>
+</asx:abap>`;
+
+const ELEMENT_INFO = `<?xml version="1.0" encoding="utf-8"?>
+<abapsource:elementInfo xmlns:abapsource="http://www.sap.com/adt/abapsource" xmlns:adtcore="http://www.sap.com/adt/core" xmlns:atom="http://www.w3.org/2005/Atom" adtcore:name="GET_NAME" adtcore:type="CLAS/OM">
+  <abapsource:documentation>Returns the display name</abapsource:documentation>
+  <atom:link href="/sap/bc/adt/docu/abap/langu?name=get_name" rel="http://www.sap.com/adt/relations/documentation"/>
+  <abapsource:properties>
+    <abapsource:entry abapsource:key="visibility">public</abapsource:entry>
+  </abapsource:properties>
+  <abapsource:elementInfos>
+    <abapsource:elementInfo adtcore:name="IV_UPPER" adtcore:type="importing">
+      <abapsource:properties>
+        <abapsource:entry abapsource:key="type">ABAP_BOOL</abapsource:entry>
+      </abapsource:properties>
+    </abapsource:elementInfo>
+    <abapsource:elementInfo adtcore:name="RV_NAME" adtcore:type="returning"/>
+  </abapsource:elementInfos>
+</abapsource:elementInfo>`;
+
+const connectionOver = (body: unknown) => {
+  const calls: IAbapRequestOptions[] = [];
+  const connection = {
+    makeAdtRequest: async (options: IAbapRequestOptions) => {
+      calls.push(options);
+      return {
+        data: body,
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+      } as unknown as IAdtResponse;
+    },
+  } as unknown as IAbapConnection;
+  return { connection, calls };
+};
+
+const uriOf = (call: IAbapRequestOptions) =>
+  new URL(call.url, 'http://host').searchParams.get('uri');
+
+describe('AdtSourceIntelligence.getCompletionProposals()', () => {
+  it('posts the source with the cursor in the uri and reads the proposals', async () => {
+    const { connection, calls } = connectionOver(PROPOSALS);
+
+    const proposals = await new AdtSourceIntelligence(
+      connection,
+    ).getCompletionProposals(CURSOR);
+
+    expect(calls[0].method).toBe('POST');
+    expect(calls[0].url).toMatch(
+      /^\/sap\/bc\/adt\/abapsource\/codecompletion\/proposal\?/,
+    );
+    expect(calls[0].url).toContain('signalCompleteness=true');
+    expect(uriOf(calls[0])).toBe(`${CURSOR.uri}#start=3,11`);
+    expect(calls[0].data).toBe(SOURCE);
+
+    expect(proposals).toEqual([
+      {
+        identifier: 'GET_NAME',
+        kind: 10,
+        prefixLength: 3,
+        role: 2,
+        location: 1,
+        grade: 4,
+        visibility: 0,
+        bold: true,
+        isMeta: false,
+        isInherited: false,
+        hasInsertionPattern: true,
+      },
+      {
+        identifier: '1000',
+        kind: 1,
+        prefixLength: 0,
+        role: undefined,
+        location: undefined,
+        grade: undefined,
+        visibility: undefined,
+        bold: false,
+        isMeta: true,
+        isInherited: true,
+        hasInsertionPattern: false,
+      },
+    ]);
+  });
+
+  it('takes an object URI to mean its main source', async () => {
+    const { connection, calls } = connectionOver(PROPOSALS);
+
+    await new AdtSourceIntelligence(connection).getCompletionProposals({
+      ...CURSOR,
+      uri: '/sap/bc/adt/programs/programs/zdemo',
+    });
+
+    expect(uriOf(calls[0])).toBe(
+      '/sap/bc/adt/programs/programs/zdemo/source/main#start=3,11',
+    );
+  });
+
+  it('keeps a class include URI as it is', async () => {
+    const { connection, calls } = connectionOver(PROPOSALS);
+
+    await new AdtSourceIntelligence(connection).getCompletionProposals({
+      ...CURSOR,
+      uri: '/sap/bc/adt/oo/classes/zcl_demo/includes/testclasses',
+    });
+
+    expect(uriOf(calls[0])).toBe(
+      '/sap/bc/adt/oo/classes/zcl_demo/includes/testclasses#start=3,11',
+    );
+  });
+
+  it.each([
+    [{ line: 0 }, /Line 0/],
+    [{ line: 6 }, /Line 6/],
+    [{ column: 12 }, /Column 12/],
+    [{ column: -1 }, /Column -1/],
+  ])('refuses cursor %o before any request goes out', async (patch, message) => {
+    const { connection, calls } = connectionOver(PROPOSALS);
+
+    await expect(
+      new AdtSourceIntelligence(connection).getCompletionProposals({
+        ...CURSOR,
+        ...patch,
+      }),
+    ).rejects.toThrow(message);
+    expect(calls).toHaveLength(0);
+  });
+
+  it('rejects an answer that is not a proposal list', async () => {
+    const { connection } = connectionOver('<html>login</html>');
+
+    await expect(
+      new AdtSourceIntelligence(connection).getCompletionProposals(CURSOR),
+    ).rejects.toMatchObject({ code: 'SOURCE_COMPLETION_UNREADABLE' });
+  });
+});
+
+describe('AdtSourceIntelligence.getElementInfo()', () => {
+  it('reads documentation, type and the signature as components', async () => {
+    const { connection, calls } = connectionOver(ELEMENT_INFO);
+
+    const info = await new AdtSourceIntelligence(connection).getElementInfo(
+      CURSOR,
+    );
+
+    expect(calls[0].url).toMatch(
+      /^\/sap\/bc\/adt\/abapsource\/codecompletion\/elementinfo\?/,
+    );
+    expect(uriOf(calls[0])).toBe(`${CURSOR.uri}#start=3,11`);
+    expect(info).toMatchObject({
+      name: 'GET_NAME',
+      type: 'CLAS/OM',
+      documentation: 'Returns the display name',
+      documentationUri: '/sap/bc/adt/docu/abap/langu?name=get_name',
+      properties: { visibility: 'public' },
+    });
+    expect(
+      info?.components.map((c) => [c.name, c.type, c.properties.type]),
+    ).toEqual([
+      ['IV_UPPER', 'importing', 'ABAP_BOOL'],
+      ['RV_NAME', 'returning', undefined],
+    ]);
+  });
+
+  it('is null when there is no element at the cursor', async () => {
+    const { connection } = connectionOver('');
+
+    await expect(
+      new AdtSourceIntelligence(connection).getElementInfo(CURSOR),
+    ).resolves.toBeNull();
+  });
+
+  it('rejects an answer that is not element info', async () => {
+    const { connection } = connectionOver('<html>login</html>');
+
+    await expect(
+      new AdtSourceIntelligence(connection).getElementInfo(CURSOR),
+    ).rejects.toMatchObject({ code: 'SOURCE_ELEMENT_INFO_UNREADABLE' });
+  });
+});
+
+describe('AdtSourceIntelligence.getInsertionPattern()', () => {
+  it('asks for the pattern by key and returns its text', async () => {
+    const pattern = 'me->get_name(\n  iv_upper = abap_true\n)';
+    const { connection, calls } = connectionOver(pattern);
+
+    const result = await new AdtSourceIntelligence(
+      connection,
+    ).getInsertionPattern(CURSOR, 'GET_NAME');
+
+    expect(calls[0].url).toMatch(
+      /^\/sap\/bc\/adt\/abapsource\/codecompletion\/insertion\?/,
+    );
+    expect(calls[0].url).toContain('patternKey=GET_NAME');
+    expect(calls[0].data).toBe(SOURCE);
+    expect(result).toBe(pattern);
+  });
+
+  it('is null when the server has no pattern for the key', async () => {
+    const { connection } = connectionOver('');
+
+    await expect(
+      new AdtSourceIntelligence(connection).getInsertionPattern(
+        CURSOR,
+        'GET_NAME',
+      ),
+    ).resolves.toBeNull();
+  });
+});
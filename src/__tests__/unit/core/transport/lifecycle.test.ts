@@ -0,0 +1,221 @@
+/**
+ * Release, change owner, add task, sort and compress.
+ *
+ * The action resources come from the links a modifiable request carries in
+ * `transportTree.noTargets.xml`; this pins that each method goes to the one it
+ * names, and that a release report is read rather than passed through — a
+ * release the checks stopped resolves with its errors, it does not look like
+ * one that went out.
+ */
+import type {
+  IAbapConnection,
+  IAbapRequestOptions,
+  IAdtResponse,
+} from '@mcp-abap-adt/interfaces';
+import { AdtRequest } from '../../../../core/transport/AdtRequest';
+import { AdtRequestLegacy } from '../../../../core/transport/AdtRequestLegacy';
+
+const ITEM_URL = '/sap/bc/adt/cts/transportrequests/TRLK900438';
+
+const RELEASED = `<?xml version="1.0" encoding="utf-8"?>
+<tm:root xmlns:tm="http://www.sap.com/cts/adt/tm" tm:useraction="newreleasejobs" tm:number="TRLK900438">
+  <tm:releasereports>
+    <chkrun:checkReport xmlns:chkrun="http://www.sap.com/adt/checkrun" chkrun:reporter="transportrelease" chkrun:triggeringUri="/sap/bc/adt/cts/transportrequests/TRLK900438" chkrun:status="released" chkrun:statusText="Transport request TRLK900438 was released">
+      <chkrun:checkMessageList>
+        <chkrun:checkMessage chkrun:type="W" chkrun:shortText="Object ZCL_X has inactive parts"/>
+        <chkrun:checkMessage chkrun:type="I" chkrun:shortText="Export started"/>
+      </chkrun:checkMessageList>
+    </chkrun:checkReport>
+  </tm:releasereports>
+</tm:root>`;
+
+const STOPPED = `<?xml version="1.0" encoding="utf-8"?>
+<tm:root xmlns:tm="http://www.sap.com/cts/adt/tm">
+  <tm:releasereports>
+    <chkrun:checkReport xmlns:chkrun="http://www.sap.com/adt/checkrun" chkrun:reporter="importcheck" chkrun:status="error">
+      <chkrun:checkMessageList>
+        <chkrun:checkMessage chkrun:type="E" chkrun:uri="/sap/bc/adt/oo/classes/zcl_x" chkrun:shortText="ZCL_X uses ZIF_Y, which does not exist in the target"/>
+        <chkrun:checkMessage chkrun:type="?" chkrun:shortText="Something new"/>
+      </chkrun:checkMessageList>
+    </chkrun:checkReport>
+    <chkrun:checkReport xmlns:chkrun="http://www.sap.com/adt/checkrun" chkrun:reporter="transportrelease" chkrun:status="abortrelapifail"/>
+  </tm:releasereports>
+</tm:root>`;
+
+const NEW_TASK = `<?xml version="1.0" encoding="utf-8"?>
+<tm:root xmlns:tm="http://www.sap.com/cts/adt/tm" tm:number="TRLK900438">
+  <tm:request tm:number="TRLK900438" tm:owner="DEVELOPER">
+    <tm:task tm:number="TRLK900439" tm:owner="DEVELOPER"/>
+    <tm:task tm:number="TRLK900440" tm:owner="COLLEAGUE"/>
+  </tm:request>
+</tm:root>`;
+
+const connectionOver = (body: string) => {
+  const calls: IAbapRequestOptions[] = [];
+  const connection = {
+    makeAdtRequest: async (options: IAbapRequestOptions) => {
+      calls.push(options);
+      return {
+        data: body,
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+      } as unknown as IAdtResponse;
+    },
+  } as unknown as IAbapConnection;
+  return { connection, calls };
+};
+
+describe('AdtRequest.release()', () => {
+  it('posts to newreleasejobs, without a body, and reads the report', async () => {
+    const { connection, calls } = connectionOver(RELEASED);
+
+    const result = await new AdtRequest(connection).release('TRLK900438');
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0]).toMatchObject({
+      method: 'POST',
+      url: `${ITEM_URL}/newreleasejobs`,
+    });
+    expect(calls[0].data).toBeUndefined();
+    expect(result.released).toBe(true);
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toEqual([
+      {
+        type: 'W',
+        severity: 'warning',
+        text: 'Object ZCL_X has inactive parts',
+        uri: undefined,
+      },
+    ]);
+    expect(result.reports[0]).toMatchObject({
+      reporter: 'transportrelease',
+      status: 'released',
+      statusText: 'Transport request TRLK900438 was released',
+    });
+  });
+
+  it('resolves a release the checks stopped, with its errors', async () => {
+    const { connection } = connectionOver(STOPPED);
+
+    const result = await new AdtRequest(connection).release('TRLK900438');
+
+    expect(result.released).toBe(false);
+    expect(result.reports.map((r) => r.reporter)).toEqual([
+      'importcheck',
+      'transportrelease',
+    ]);
+    // An unknown message type counts as an error, not as information.
+    expect(result.errors.map((e) => e.text)).toEqual([
+      'ZCL_X uses ZIF_Y, which does not exist in the target',
+      'Something new',
+    ]);
+    expect(result.errors[0].uri).toBe('/sap/bc/adt/oo/classes/zcl_x');
+  });
+
+  it.each([
+    [{ ignoreLocks: true }, 'relwithignlock'],
+    [{ ignoreWarnings: true }, 'relwithignwarning'],
+    [{ ignoreAtc: true }, 'relObjigchkatc'],
+  ])('%o releases through %s', async (options, action) => {
+    const { connection, calls } = connectionOver(RELEASED);
+
+    await new AdtRequest(connection).release('TRLK900438', options);
+
+    expect(calls[0].url).toBe(`${ITEM_URL}/${action}`);
+  });
+
+  it('refuses two release actions at once before any request goes out', async () => {
+    const { connection, calls } = connectionOver(RELEASED);
+
+    await expect(
+      new AdtRequest(connection).release('TRLK900438', {
+        ignoreLocks: true,
+        ignoreAtc: true,
+      }),
+    ).rejects.toThrow(/at most one/);
+    expect(calls).toHaveLength(0);
+  });
+
+  it('rejects a response that carries no report', async () => {
+    const { connection } = connectionOver('<html>gateway timeout</html>');
+
+    await expect(
+      new AdtRequest(connection).release('TRLK900438'),
+    ).rejects.toMatchObject({ code: 'TRANSPORT_RELEASE_UNREADABLE' });
+  });
+});
+
+describe('AdtRequest owner and task actions', () => {
+  it('changes the owner with a changeowner PUT on the item', async () => {
+    const { connection, calls } = connectionOver('<tm:root/>');
+
+    const result = await new AdtRequest(connection).changeOwner(
+      'TRLK900438',
+      'COLLEAGUE',
+    );
+
+    expect(calls[0]).toMatchObject({ method: 'PUT', url: ITEM_URL });
+    expect(String(calls[0].data)).toContain('tm:useraction="changeowner"');
+    expect(String(calls[0].data)).toContain('tm:targetuser="COLLEAGUE"');
+    expect(result).toMatchObject({
+      transportNumber: 'TRLK900438',
+      owner: 'COLLEAGUE',
+    });
+  });
+
+  it('adds a task with a newtask POST and reads back its number', async () => {
+    const { connection, calls } = connectionOver(NEW_TASK);
+
+    const result = await new AdtRequest(connection).addTask(
+      'TRLK900438',
+      'COLLEAGUE',
+    );
+
+    expect(calls[0]).toMatchObject({
+      method: 'POST',
+      url: `${ITEM_URL}/tasks`,
+    });
+    expect(String(calls[0].data)).toContain('tm:useraction="newtask"');
+    expect(result.taskNumber).toBe('TRLK900440');
+  });
+
+  it('leaves the task number out when the response does not single one out', async () => {
+    const { connection } = connectionOver('<tm:root/>');
+
+    const result = await new AdtRequest(connection).addTask(
+      'TRLK900438',
+      'COLLEAGUE',
+    );
+
+    expect(result.taskNumber).toBeUndefined();
+  });
+
+  it('sorts and compresses through its own action resource', async () => {
+    const { connection, calls } = connectionOver('');
+
+    await new AdtRequest(connection).sortAndCompress('TRLK900438');
+
+    expect(calls[0]).toMatchObject({
+      method: 'POST',
+      url: `${ITEM_URL}/sortandcompress`,
+    });
+  });
+});
+
+describe('AdtRequestLegacy lifecycle actions', () => {
+  it('refuses each without sending anything', async () => {
+    const { connection, calls } = connectionOver(RELEASED);
+    const legacy = new AdtRequestLegacy(connection);
+
+    await expect(legacy.release('TRLK900438')).rejects.toThrow(/legacy/);
+    await expect(legacy.changeOwner('TRLK900438', 'X')).rejects.toThrow(
+      /legacy/,
+    );
+    await expect(legacy.addTask('TRLK900438', 'X')).rejects.toThrow(/legacy/);
+    await expect(legacy.sortAndCompress('TRLK900438')).rejects.toThrow(
+      /legacy/,
+    );
+    expect(calls).toHaveLength(0);
+  });
+});
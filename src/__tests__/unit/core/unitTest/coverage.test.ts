@@ -0,0 +1,216 @@
+/**
+ * Coverage is asked for on the run and read back from the measurement.
+ *
+ * The run itself does not change: the same tests, the same options, one more
+ * element when — and only when — coverage was asked for. What is asserted
+ * beyond that is the reading: that classes are found by what they contain
+ * rather than how deep they sit, and that statement lines become ranges per
+ * include.
+ */
+
+import type { IAbapConnection, IAdtResponse } from '@mcp-abap-adt/interfaces';
+import { AdtUnitTest } from '../../../../core/unitTest/AdtUnitTest';
+import { AdtUnitTestLegacy } from '../../../../core/unitTest/AdtUnitTestLegacy';
+import {
+  buildIncludeCoverage,
+  parseCoverageMeasurement,
+  parseCoverageMeasurementId,
+  parseCoverageStatements,
+} from '../../../../core/unitTest/parseCoverage';
+import { createLibraryLogger } from '../../../helpers/testLogger';
+
+type Call = { url: string; method: string; data?: unknown };
+
+const RESULT_WITH_COVERAGE = `<?xml version="1.0" encoding="utf-8"?>
+<aunit:runResult xmlns:aunit="http://www.sap.com/adt/aunit" xmlns:adtcore="http://www.sap.com/adt/core">
+  <external><coverage adtcore:uri="/sap/bc/adt/runtime/traces/coverage/measurements/MEAS01"/></external>
+  <program adtcore:name="ZCL_UNDER_TEST"/>
+</aunit:runResult>`;
+
+const MEASUREMENT = `<?xml version="1.0" encoding="utf-8"?>
+<cov:result xmlns:cov="http://www.sap.com/adt/cov" xmlns:adtcore="http://www.sap.com/adt/core">
+  <coverages>
+    <coverage type="statement" total="10" executed="7"/>
+    <coverage type="branch" total="4" executed="1"/>
+  </coverages>
+  <nodes>
+    <node adtcore:name="ZCL_UNDER_TEST" adtcore:type="CLAS/OC" adtcore:uri="/sap/bc/adt/oo/classes/zcl_under_test">
+      <coverages>
+        <coverage type="statement" total="10" executed="7"/>
+        <coverage type="procedure" total="2" executed="1"/>
+      </coverages>
+      <nodes>
+        <node adtcore:name="RUN" adtcore:type="CLAS/OM" adtcore:uri="/sap/bc/adt/oo/classes/zcl_under_test/source/main#start=5,2">
+          <coverages><coverage type="statement" total="6" executed="6"/></coverages>
+        </node>
+        <node adtcore:name="UNUSED" adtcore:type="CLAS/OM" adtcore:uri="/sap/bc/adt/oo/classes/zcl_under_test/source/main#start=20,2">
+          <coverages><coverage type="statement" total="4" executed="0"/></coverages>
+        </node>
+      </nodes>
+    </node>
+    <node adtcore:name="ZPROG" adtcore:type="PROG/P">
+      <nodes>
+        <node adtcore:name="LCL_LOCAL" adtcore:type="CLAS/OCL">
+          <nodes>
+            <node adtcore:name="DO" adtcore:type="CLAS/OM"/>
+          </nodes>
+        </node>
+      </nodes>
+    </node>
+  </nodes>
+</cov:result>`;
+
+const STATEMENTS = `<?xml version="1.0" encoding="utf-8"?>
+<cov:statementsBulkResponse xmlns:cov="http://www.sap.com/adt/cov" xmlns:adtcore="http://www.sap.com/adt/core">
+  <statementResponse>
+    <statement adtcore:uri="/sap/bc/adt/oo/classes/zcl_under_test/source/main#start=6,4;end=6,20" executed="3"/>
+    <statement adtcore:uri="/sap/bc/adt/oo/classes/zcl_under_test/source/main#start=8,4;end=8,30" executed="1"/>
+    <statement adtcore:uri="/sap/bc/adt/oo/classes/zcl_under_test/source/main#start=21,4;end=21,10" executed="0"/>
+    <statement adtcore:uri="/sap/bc/adt/oo/classes/zcl_under_test/source/main#start=23,4;end=23,10" executed="0"/>
+    <statement adtcore:uri="/sap/bc/adt/oo/classes/zcl_under_test/source/main" executed="2"/>
+  </statementResponse>
+</cov:statementsBulkResponse>`;
+
+function makeConn(handler: (call: Call) => Partial<IAdtResponse>): {
+  conn: IAbapConnection;
+  calls: Call[];
+} {
+  const calls: Call[] = [];
+  const conn = {
+    makeAdtRequest: async (call: Call) => {
+      calls.push(call);
+      return {
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        data: '',
+        ...handler(call),
+      } as IAdtResponse;
+    },
+  } as unknown as IAbapConnection;
+  return { conn, calls };
+}
+
+describe('AdtUnitTest — coverage', () => {
+  it('asks for coverage in the run payload only when told to', async () => {
+    const { conn, calls } = makeConn(() => ({
+      headers: { location: '/sap/bc/adt/abapunit/runs/RUN1' },
+    }));
+    const h = new AdtUnitTest(conn, createLibraryLogger());
+    const tests = [{ containerClass: 'ZCL_T', testClass: 'LTCL_T' }];
+
+    await h.run(tests);
+    await h.run(tests, { coverage: true });
+
+    expect(String(calls[0].data)).not.toContain('coverage');
+    expect(String(calls[1].data)).toContain('<aunit:coverage active="true"/>');
+  });
+
+  it('switches the coverage a legacy run always states', async () => {
+    const { conn, calls } = makeConn(() => ({ data: RESULT_WITH_COVERAGE }));
+    const h = new AdtUnitTestLegacy(conn, createLibraryLogger());
+    const tests = [{ containerClass: 'ZCL_T', testClass: 'LTCL_T' }];
+
+    await h.run(tests);
+    await h.run(tests, { coverage: true });
+
+    expect(String(calls[0].data)).toContain('<coverage active="false"/>');
+    expect(String(calls[1].data)).toContain('<coverage active="true"/>');
+  });
+
+  it('reads the measurement the result links to, then its statements', async () => {
+    const { conn, calls } = makeConn((call) => {
+      if (call.url.includes('/abapunit/results/')) {
+        return { data: RESULT_WITH_COVERAGE };
+      }
+      if (call.url.endsWith('/measurements/MEAS01')) {
+        return { data: MEASUREMENT };
+      }
+      return { data: STATEMENTS };
+    });
+    const h = new AdtUnitTest(conn, createLibraryLogger());
+
+    const report = await h.getCoverage('RUN1');
+
+    expect(calls.map((c) => `${c.method} ${c.url}`)).toEqual([
+      'GET /sap/bc/adt/abapunit/results/RUN1',
+      'POST /sap/bc/adt/runtime/traces/coverage/measurements/MEAS01',
+      'POST /sap/bc/adt/runtime/traces/coverage/results/MEAS01/statements',
+    ]);
+    expect(String(calls[2].data)).toContain(
+      'get="/sap/bc/adt/oo/classes/zcl_under_test/source/main#start=5,2"',
+    );
+    expect(report.measurementId).toBe('MEAS01');
+    expect(report.totals.statement).toEqual({
+      total: 10,
+      executed: 7,
+      percent: 70,
+    });
+    expect(report.classes.map((c) => c.name)).toEqual([
+      'ZCL_UNDER_TEST',
+      'LCL_LOCAL',
+    ]);
+    expect(report.includes).toEqual([
+      {
+        uri: '/sap/bc/adt/oo/classes/zcl_under_test/source/main',
+        covered: [{ start: 6, end: 8 }],
+        uncovered: [{ start: 21, end: 23 }],
+      },
+    ]);
+  });
+
+  it('rejects a run that was not measured instead of reporting nothing', async () => {
+    const { conn } = makeConn(() => ({
+      data: '<aunit:runResult xmlns:aunit="http://www.sap.com/adt/aunit"/>',
+    }));
+    const h = new AdtUnitTest(conn, createLibraryLogger());
+
+    await expect(h.getCoverage('RUN1')).rejects.toMatchObject({
+      code: 'UNIT_TEST_NO_COVERAGE',
+    });
+  });
+});
+
+describe('coverage parsing', () => {
+  it('finds the measurement id whatever attribute carries it', () => {
+    expect(
+      parseCoverageMeasurementId(
+        '<r><coverage href="/sap/bc/adt/runtime/traces/coverage/measurements/ABC"/></r>',
+      ),
+    ).toBe('ABC');
+    expect(parseCoverageMeasurementId('<r/>')).toBeNull();
+  });
+
+  it('leaves a counter with nothing to count without a percentage', () => {
+    const parsed = parseCoverageMeasurement(
+      `<result><nodes><node name="C"><coverages><coverage type="branch" total="0" executed="0"/></coverages>
+       <nodes><node name="M"/></nodes></node></nodes></result>`,
+    );
+    expect(parsed.classes[0].coverage.branch).toEqual({
+      total: 0,
+      executed: 0,
+      percent: undefined,
+    });
+  });
+
+  it('counts a line covered when any statement on it ran', () => {
+    const includes = buildIncludeCoverage([
+      { includeUri: 'I', line: 3, executed: 0 },
+      { includeUri: 'I', line: 3, executed: 1 },
+      { includeUri: 'I', line: 4, executed: 0 },
+    ]);
+    expect(includes).toEqual([
+      {
+        uri: 'I',
+        covered: [{ start: 3, end: 3 }],
+        uncovered: [{ start: 4, end: 4 }],
+      },
+    ]);
+  });
+
+  it('drops statements that carry no position', () => {
+    expect(
+      parseCoverageStatements('<r><statement uri="/x" executed="1"/></r>'),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * A run result as JUnit XML.
+ *
+ * What is asserted is what a CI server counts: which testcases fail, which
+ * error, which pass with something to say — and that an alert raised outside
+ * any method still fails something rather than vanishing.
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import { unitTestResultToJUnit } from '../../../../core/unitTest/junit';
+import { parseUnitTestRunResult } from '../../../../core/unitTest/parseResult';
+
+const RESULT = `<?xml version="1.0" encoding="utf-8"?>
+<aunit:runResult xmlns:aunit="http://www.sap.com/adt/aunit" xmlns:adtcore="http://www.sap.com/adt/core">
+  <program adtcore:uri="/sap/bc/adt/oo/classes/zcl_calc" adtcore:type="CLAS/OC" adtcore:name="ZCL_CALC">
+    <testClasses>
+      <testClass adtcore:uri="/sap/bc/adt/oo/classes/zcl_calc/includes/testclasses#start=1,0" adtcore:name="LTCL_CALC" durationCategory="short" riskLevel="harmless">
+        <testMethods>
+          <testMethod adtcore:uri="/sap/bc/adt/oo/classes/zcl_calc/includes/testclasses#start=10,2" adtcore:name="ADDS" executionTime="0.005" unit="s"/>
+          <testMethod adtcore:uri="/sap/bc/adt/oo/classes/zcl_calc/includes/testclasses#start=20,2" adtcore:name="DIVIDES" executionTime="0.010" unit="s">
+            <alerts>
+              <alert kind="failedAssertion" severity="critical">
+                <title>Critical Assertion Error: 'DIVIDES: Assert Equals'</title>
+                <details><detail text="Expected [2] Actual [3]"><details><detail text="Test 'LTCL_CALC-&gt;DIVIDES'"/></details></detail></details>
+                <stack><stackEntry adtcore:uri="/sap/bc/adt/oo/classes/zcl_calc/includes/testclasses#start=23" adtcore:name="LTCL_CALC-&gt;DIVIDES" adtcore:description="Include: &lt;ZCL_CALC=====CCAU&gt; Line: &lt;23&gt;"/></stack>
+              </alert>
+            </alerts>
+          </testMethod>
+          <testMethod adtcore:name="SLOW" executionTime="0.001">
+            <alerts><alert kind="warning" severity="tolerable"><title>Duration longer than expected</title></alert></alerts>
+          </testMethod>
+        </testMethods>
+      </testClass>
+      <testClass adtcore:name="LTCL_BROKEN">
+        <alerts>
+          <alert kind="exception" severity="critical"><title>Exception in CLASS_SETUP</title></alert>
+        </alerts>
+      </testClass>
+    </testClasses>
+  </program>
+</aunit:runResult>`;
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  isArray: (name) => name === 'testsuite' || name === 'testcase',
+});
+
+describe('unitTestResultToJUnit', () => {
+  const junit = parser.parse(unitTestResultToJUnit(RESULT)).testsuites;
+
+  it('counts failures and errors the way a CI server will', () => {
+    expect(junit).toMatchObject({
+      name: 'ABAP Unit',
+      tests: '4',
+      failures: '1',
+      errors: '1',
+    });
+    expect(junit.testsuite.map((s: { name: string }) => s.name)).toEqual([
+      'ZCL_CALC.LTCL_CALC',
+      'ZCL_CALC.LTCL_BROKEN',
+    ]);
+  });
+
+  it('points a failure at the frame that raised it', () => {
+    const divides = junit.testsuite[0].testcase[1];
+    expect(divides).toMatchObject({
+      name: 'DIVIDES',
+      time: '0.010',
+      file: 'src/zcl_calc.clas.testclasses.abap',
+      line: '23',
+    });
+    expect(divides.failure.type).toBe('failedAssertion');
+    expect(divides.failure['#text']).toContain('Expected [2] Actual [3]');
+  });
+
+  it('passes a test with only a tolerable alert, and keeps what it said', () => {
+    const slow = junit.testsuite[0].testcase[2];
+    expect(slow.failure).toBeUndefined();
+    expect(slow.error).toBeUndefined();
+    expect(slow['system-out']).toContain('Duration longer than expected');
+  });
+
+  it('fails a class whose setup failed, though no method reported', () => {
+    const broken = junit.testsuite[1];
+    expect(broken.testcase).toHaveLength(1);
+    expect(broken.testcase[0].name).toBe('(class)');
+    expect(broken.testcase[0].error.message).toBe('Exception in CLASS_SETUP');
+  });
+});
+
+describe('parseUnitTestRunResult', () => {
+  it('reads an empty result as a run with nothing in it', () => {
+    expect(
+      parseUnitTestRunResult(
+        '<aunit:runResult xmlns:aunit="http://www.sap.com/adt/aunit"/>',
+      ),
+    ).toEqual({ programs: [] });
+  });
+
+  it('refuses a body that is not a result rather than reporting it clean', () => {
+    expect(() => parseUnitTestRunResult('<html>error</html>')).toThrow(
+      expect.objectContaining({ code: 'UNIT_TEST_RESULT_UNREADABLE' }),
+    );
+  });
+});
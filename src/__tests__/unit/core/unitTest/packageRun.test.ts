@@ -0,0 +1,237 @@
+/**
+ * ABAP Unit over a package: the package expanded, the objects that can hold
+ * tests run in chunks, and the chunks' results merged.
+ *
+ * The package `ZAPP` holds two classes, a program and a CDS view, and a
+ * subpackage with a third class. Asserted beyond the merge: that progress is
+ * reported per chunk, that an abort stops the run between chunks and while
+ * one is polled, and that a status nobody can read fails rather than polls.
+ */
+
+import type { IAbapConnection, IAdtResponse } from '@mcp-abap-adt/interfaces';
+import type { IPackageRunProgress } from '../../../../core/shared/types';
+import { AdtUnitTest } from '../../../../core/unitTest/AdtUnitTest';
+import { AdtUnitTestLegacy } from '../../../../core/unitTest/AdtUnitTestLegacy';
+import { createLibraryLogger } from '../../../helpers/testLogger';
+
+type Call = {
+  url: string;
+  method: string;
+  data?: unknown;
+  params?: Record<string, unknown>;
+};
+
+function nodeStructure(
+  nodes: [type: string, name: string][],
+  types: [type: string, nodeId: string][] = [],
+): string {
+  const treeContent = nodes
+    .map(
+      ([type, name]) =>
+        `<SEU_ADT_REPOSITORY_OBJ_NODE><OBJECT_TYPE>${type}</OBJECT_TYPE><OBJECT_NAME>${name}</OBJECT_NAME></SEU_ADT_REPOSITORY_OBJ_NODE>`,
+    )
+    .join('');
+  const objectTypes = types
+    .map(
+      ([type, nodeId]) =>
+        `<SEU_ADT_OBJECT_TYPE_INFO><OBJECT_TYPE>${type}</OBJECT_TYPE><NODE_ID>${nodeId}</NODE_ID></SEU_ADT_OBJECT_TYPE_INFO>`,
+    )
+    .join('');
+  return `<?xml version="1.0" encoding="utf-8"?><asx:abap xmlns:asx="http://www.sap.com/abapxml" version="1.0"><asx:values><DATA><TREE_CONTENT>${treeContent}</TREE_CONTENT><OBJECT_TYPES>${objectTypes}</OBJECT_TYPES></DATA></asx:values></asx:abap>`;
+}
+
+/** Keyed by `parent_name`, then by `node_id` ('' for the first request). */
+const PACKAGES: Record<string, Record<string, string>> = {
+  ZAPP: {
+    '': nodeStructure(
+      [['DEVC/K', 'ZAPP_SUB']],
+      [
+        ['CLAS/OC', '11'],
+        ['PROG/P', '12'],
+        ['DDLS/DF', '13'],
+      ],
+    ),
+    '11': nodeStructure([
+      ['CLAS/OC', 'ZCL_A'],
+      ['CLAS/OC', 'ZCL_B'],
+    ]),
+    '12': nodeStructure([['PROG/P', 'ZREPORT']]),
+    '13': nodeStructure([['DDLS/DF', 'ZI_VIEW']]),
+  },
+  ZAPP_SUB: {
+    '': nodeStructure([], [['CLAS/OC', '21']]),
+    '21': nodeStructure([['CLAS/OC', 'ZCL_SUB']]),
+  },
+};
+
+const resultFor = (name: string) =>
+  `<?xml version="1.0" encoding="utf-8"?><aunit:runResult xmlns:aunit="http://www.sap.com/adt/aunit" xmlns:adtcore="http://www.sap.com/adt/core"><program adtcore:name="${name}"><testClasses><testClass adtcore:name="LTCL"><testMethods><testMethod adtcore:name="WORKS"/></testMethods></testClass></testClasses></program></aunit:runResult>`;
+
+const status = (value: string) =>
+  `<?xml version="1.0" encoding="utf-8"?><aunit:run xmlns:aunit="http://www.sap.com/adt/api/aunit"><aunit:progress status="${value}" percentage="50"/></aunit:run>`;
+
+function fakeServer(statuses: string[] = ['IN_PROCESS', 'FINISHED']) {
+  const calls: Call[] = [];
+  let runs = 0;
+  let polls = 0;
+  const connection = {
+    makeAdtRequest: async (call: Call): Promise<IAdtResponse> => {
+      calls.push(call);
+      const respond = (data: string, headers = {}) =>
+        ({ status: 200, statusText: 'OK', headers, data }) as IAdtResponse;
+
+      if (call.url === '/sap/bc/adt/repository/nodestructure') {
+        const name = String(call.params?.parent_name);
+        const nodeId = String(call.params?.node_id ?? '');
+        return respond(PACKAGES[name]?.[nodeId] ?? nodeStructure([]));
+      }
+      if (call.url === '/sap/bc/adt/abapunit/runs') {
+        runs += 1;
+        return respond('', {
+          location: `/sap/bc/adt/abapunit/runs/RUN${runs}`,
+        });
+      }
+      if (call.url.startsWith('/sap/bc/adt/abapunit/runs/')) {
+        return respond(status(statuses[polls++ % statuses.length]));
+      }
+      if (call.url.startsWith('/sap/bc/adt/abapunit/results/RUN')) {
+        return respond(resultFor(call.url.split('/').pop() as string));
+      }
+      if (call.url === '/sap/bc/adt/abapunit/testruns') {
+        return respond(resultFor('LEGACY'));
+      }
+      throw new Error(`Unexpected request ${call.method} ${call.url}`);
+    },
+  } as unknown as IAbapConnection;
+  return { connection, calls };
+}
+
+const runBodies = (calls: Call[]) =>
+  calls
+    .filter(({ url }) => url === '/sap/bc/adt/abapunit/runs')
+    .map(({ data }) => String(data));
+
+describe('AdtUnitTest.runPackage', () => {
+  it('runs the classes and programs of the package and its subpackages in chunks', async () => {
+    const { connection, calls } = fakeServer();
+    const progress: IPackageRunProgress[] = [];
+
+    const run = await new AdtUnitTest(
+      connection,
+      createLibraryLogger(),
+    ).runPackage('zapp', {
+      chunkSize: 3,
+      pollIntervalMs: 0,
+      onProgress: (p) => progress.push(p),
+    });
+
+    expect(run.objects.map(({ name }) => name)).toEqual([
+      'ZCL_A',
+      'ZCL_B',
+      'ZREPORT',
+      'ZCL_SUB',
+    ]);
+    expect(run.objects[3].packageName).toBe('ZAPP_SUB');
+    expect(run.skipped.map(({ name }) => name)).toEqual(['ZI_VIEW']);
+    expect(run.runIds).toEqual(['RUN1', 'RUN2']);
+    expect(run.result.programs.map(({ name }) => name)).toEqual([
+      'RUN1',
+      'RUN2',
+    ]);
+
+    const [first, second] = runBodies(calls);
+    expect(first).toContain('title="ZAPP"');
+    expect(first).toContain(
+      '<osl:object name="ZCL_A" type="CLAS"/><osl:object name="ZCL_B" type="CLAS"/><osl:object name="ZREPORT" type="PROG"/>',
+    );
+    expect(second).toContain('<osl:object name="ZCL_SUB" type="CLAS"/>');
+
+    expect(
+      progress.map(({ completedChunks, completedObjects }) => [
+        completedChunks,
+        completedObjects,
+      ]),
+    ).toEqual([
+      [0, 0],
+      [1, 3],
+      [2, 4],
+    ]);
+    expect(progress[0]).toMatchObject({ totalChunks: 2, totalObjects: 4 });
+  });
+
+  it('stops between chunks when the signal aborts, and rejects', async () => {
+    const { connection, calls } = fakeServer(['FINISHED']);
+    const controller = new AbortController();
+
+    await expect(
+      new AdtUnitTest(connection, createLibraryLogger()).runPackage('ZAPP', {
+        chunkSize: 2,
+        signal: controller.signal,
+        onProgress: ({ completedChunks }) => {
+          if (completedChunks === 1) controller.abort();
+        },
+      }),
+    ).rejects.toMatchObject({ code: 'PACKAGE_RUN_ABORTED' });
+    expect(runBodies(calls)).toHaveLength(1);
+  });
+
+  it('stops polling when the signal aborts while a chunk runs', async () => {
+    const { connection } = fakeServer(['IN_PROCESS']);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(
+      new AdtUnitTest(connection, createLibraryLogger()).runPackage('ZAPP', {
+        pollIntervalMs: 5,
+        signal: controller.signal,
+      }),
+    ).rejects.toMatchObject({ code: 'PACKAGE_RUN_ABORTED' });
+  });
+
+  it('fails on a status it cannot read, and on a run that outlasts the deadline', async () => {
+    const unreadable = fakeServer(['']);
+    await expect(
+      new AdtUnitTest(unreadable.connection, createLibraryLogger()).runPackage(
+        'ZAPP',
+      ),
+    ).rejects.toMatchObject({ code: 'UNIT_TEST_RUN_STATUS_MISSING' });
+
+    const slow = fakeServer(['IN_PROCESS']);
+    await expect(
+      new AdtUnitTest(slow.connection, createLibraryLogger()).runPackage(
+        'ZAPP',
+        { pollIntervalMs: 1, maxPollDurationMs: 5 },
+      ),
+    ).rejects.toMatchObject({ code: 'UNIT_TEST_RUN_TIMEOUT' });
+  });
+
+  it('refuses a chunk size it cannot use before expanding anything', async () => {
+    const { connection, calls } = fakeServer();
+
+    await expect(
+      new AdtUnitTest(connection, createLibraryLogger()).runPackage('ZAPP', {
+        chunkSize: 0,
+      }),
+    ).rejects.toMatchObject({ code: 'ADT_VALIDATION_FAILED' });
+    expect(calls).toHaveLength(0);
+  });
+
+  it('runs a chunk synchronously on a legacy system, by object reference', async () => {
+    const { connection, calls } = fakeServer();
+
+    const run = await new AdtUnitTestLegacy(
+      connection,
+      createLibraryLogger(),
+    ).runPackage('ZAPP', { includeSubpackages: false });
+
+    expect(run.runIds).toEqual(['legacy-sync']);
+    expect(run.result.programs.map(({ name }) => name)).toEqual(['LEGACY']);
+    const body = String(
+      calls.find(({ url }) => url === '/sap/bc/adt/abapunit/testruns')?.data,
+    );
+    expect(body).toContain(
+      '<adtcore:objectReference adtcore:uri="/sap/bc/adt/programs/programs/zreport"/>',
+    );
+    expect(body).not.toContain('zcl_sub');
+  });
+});
@@ -77,8 +77,10 @@ describe('public API surface', () => {
 const RUNTIME_EXPORTS = [
   'AbapDebugger',
   'AdtAbapGitClient',
+  'AdtAbapGitSerializer',
   'AdtAppendStructure',
   'AdtAtc',
+  'AdtBatchPlanner',
   'AdtClient',
   'AdtClientBatch',
   'AdtClientLegacy',
@@ -99,10 +101,16 @@ const RUNTIME_EXPORTS = [
   'ApplicationLog',
   'AtcLog',
   'BatchRecordingConnection',
+  'BreakpointManager',
+  'CassetteRecordingConnection',
+  'CassetteReplayConnection',
   'CrossTrace',
   'DdicActivation',
+  'DebugSession',
   'Debugger',
   'DebuggerSessionClient',
+  'FakeAdtConnection',
+  'FakeAdtServer',
   'FeedRepository',
   'GatewayErrorLog',
   'MemorySnapshots',
@@ -110,17 +118,74 @@ const RUNTIME_EXPORTS = [
   'RuntimeDumps',
   'St05Trace',
   'SystemMessages',
+  'adtUriToSourcePath',
+  'aggregateProfilerByProgram',
+  'aggregateProfilerByTable',
+  'analyzeSnapshotDelta',
+  'applyQuickFixDeltas',
+  'atcFindingKey',
+  'atcFindingsToSarif',
+  'buildCdsPreviewSql',
   'buildDumpIdPrefix',
+  'buildProfilerCallTree',
   'buildRuntimeDumpsUserQuery',
+  'compareAtcBaseline',
   'createAdtClient',
+  'createAtcBaseline',
+  'dataPreviewToCsv',
+  'dataPreviewToJson',
+  'dataPreviewToNdjson',
+  'dedupeRuntimeDumps',
+  'diffSources',
+  'diffVersions',
   'fetchDiscoveryEndpoints',
   'getSystemInformation',
+  'groupRuntimeDumps',
   'isEndpointInDiscovery',
   'isModernAdtSystem',
+  'loadCassette',
+  'parseAdtSourcePosition',
+  'parseAtcBaseline',
+  'parseAtcCheckVariant',
+  'parseAtcCheckVariants',
+  'parseAtcCustomizing',
+  'parseAtcWorklistFindings',
+  'parseBreakpointSyncResults',
+  'parseCdsEntity',
+  'parseCrossTraceRecordNumbers',
+  'parseDataPreview',
+  'parseDebugStack',
+  'parseDebugStepResult',
+  'parseDebugVariables',
+  'parseDebuggee',
+  'parseProfilerDbAccesses',
+  'parseProfilerHitList',
+  'parseProfilerStatements',
+  'parseRuntimeDump',
+  'parseRuntimeDumpHeader',
   'parseSearchResults',
+  'parseSnapshotObjects',
+  'parseSnapshotOverview',
+  'parseSnapshotReferences',
   'parseTransportTree',
+  'parseUnitTestRunResult',
+  'readAbapGitFolder',
   'resolveBindingVariant',
   'resolveContentTypes',
+  'restoreVersion',
+  'runtimeDumpSignature',
+  'runtimeDumpTime',
+  'saveCassette',
+  'snapshotObjectValue',
+  'snapshotReferencePaths',
+  'snapshotSizeMetric',
+  'sourceCursorAt',
+  'summarizeMethodChanges',
+  'toCollapsedStacks',
+  'toSpeedscope',
+  'topProfilerEntriesByNetTime',
+  'unitTestResultToJUnit',
+  'writeAbapGitFolder',
 ];
 
 describe('runtime export surface', () => {
@@ -0,0 +1,249 @@
+/**
+ * Typed ATC findings, baselines and exemption requests.
+ *
+ * The first finding is the one captured in
+ * `docs/evidence/2026-08-16-atc-trial-probe.md`; the second is made up to
+ * carry what the capture does not — an automatic quick fix and an exemption
+ * in progress. Asserted beyond the shapes: that a run asked for findings or
+ * a baseline refuses what it cannot honour before anything is sent, that a
+ * baseline is not compared with findings cut off at the cap, and that
+ * the exemption proposal goes back with only the requested fields changed.
+ */
+
+import type { IAbapConnection, IAtcRunTarget } from '@mcp-abap-adt/interfaces';
+import { AdtAtc } from '../../../runtime/atc/AdtAtc';
+import {
+  compareAtcBaseline,
+  createAtcBaseline,
+} from '../../../runtime/atc/baseline';
+import { parseAtcWorklistFindings } from '../../../runtime/atc/parse';
+import type { IAtcFinding } from '../../../runtime/atc/types';
+
+const WORKLIST_ID = '0ABD945AC5681FE1A6C51EE2E3AB6030';
+
+const WORKLIST = `<?xml version="1.0" encoding="utf-8"?><atcworklist:worklist atcworklist:id="${WORKLIST_ID}" xmlns:atcworklist="http://www.sap.com/adt/atc/worklist"><atcworklist:objects>
+<atcobject:object adtcore:uri="/sap/bc/adt/atc/objects/R3TR/CLAS/ZOK_CL_CLEANER" adtcore:type="CLAS" adtcore:name="ZOK_CL_CLEANER" adtcore:packageName="ZBASE_PROBE01" xmlns:atcobject="http://www.sap.com/adt/atc/object" xmlns:adtcore="http://www.sap.com/adt/core"><atcobject:findings>
+<atcfinding:finding adtcore:uri="/sap/bc/adt/atc/findings/itemid/6E27F48C3C661FD1A6A9440358DD9D01/index/1186" atcfinding:location="/sap/bc/adt/oo/classes/zok_cl_cleaner/source/main#start=30,0" atcfinding:priority="3" atcfinding:checkId="F8607CD40A0F8B30BDF8590205B306E8" atcfinding:checkTitle="Extended Program Check (SLIN)" atcfinding:messageId="1713" atcfinding:messageTitle="Strings without text elements are not translated: |Cleaning item, |" atcfinding:exemptionApproval="-" atcfinding:exemptionKind="" atcfinding:checksum="-969200553" atcfinding:quickfixInfo="atc:6E27F48C3C661FD1A6A9440358DD9D01,1186," xmlns:atcfinding="http://www.sap.com/adt/atc/finding"><atcfinding:quickfixes atcfinding:manual="false" atcfinding:automatic="false" atcfinding:pseudo="false"/></atcfinding:finding>
+<atcfinding:finding adtcore:uri="/sap/bc/adt/atc/findings/itemid/6E27F48C3C661FD1A6A9440358DD9D01/index/1187" atcfinding:location="/sap/bc/adt/oo/classes/zok_cl_cleaner/source/main#start=41,4" atcfinding:priority="2" atcfinding:checkId="C0FFEE" atcfinding:checkTitle="Performance" atcfinding:messageId="0042" atcfinding:messageTitle="SELECT in loop" atcfinding:exemptionApproval="R" atcfinding:exemptionKind="F" atcfinding:checksum="1234" xmlns:atcfinding="http://www.sap.com/adt/atc/finding"><atcfinding:quickfixes atcfinding:manual="false" atcfinding:automatic="true"/></atcfinding:finding>
+</atcobject:findings></atcobject:object>
+</atcworklist:objects></atcworklist:worklist>`;
+
+const WAITING_RUN = `<?xml version="1.0" encoding="utf-8"?>
+<atcworklist:worklistRun xmlns:atcworklist="http://www.sap.com/adt/atc/worklist">
+<atcworklist:worklistId>${WORKLIST_ID}</atcworklist:worklistId>
+<atcworklist:infos><atcinfo:info xmlns:atcinfo="http://www.sap.com/adt/atc/info">
+<atcinfo:type>FINDING_STATS</atcinfo:type><atcinfo:description>0,1,1</atcinfo:description>
+</atcinfo:info></atcworklist:infos></atcworklist:worklistRun>`;
+
+const PROPOSAL = `<?xml version="1.0" encoding="utf-8"?><atcexmpt:exemptionProposal xmlns:atcexmpt="http://www.sap.com/adt/atc/exemption"><atcfinding:finding adtcore:uri="/sap/bc/adt/atc/findings/itemid/6E27F48C3C661FD1A6A9440358DD9D01/index/1186" atcfinding:checkId="F8607CD40A0F8B30BDF8590205B306E8" xmlns:atcfinding="http://www.sap.com/adt/atc/finding" xmlns:adtcore="http://www.sap.com/adt/core"/><atcexmpt:package>ZBASE_PROBE01</atcexmpt:package><atcexmpt:restriction><atcexmpt:thisFinding enabled="true">true</atcexmpt:thisFinding></atcexmpt:restriction><atcexmpt:approver>QA_LEAD</atcexmpt:approver><atcexmpt:reason></atcexmpt:reason><atcexmpt:justification></atcexmpt:justification><atcexmpt:notify>on_rejection</atcexmpt:notify></atcexmpt:exemptionProposal>`;
+
+const TARGET: IAtcRunTarget = {
+  objects: [{ objectType: 'class', objectName: 'ZOK_CL_CLEANER' }],
+};
+
+function logger() {
+  return {
+    log: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  };
+}
+
+function connectionFor(answers: Record<string, string> = {}) {
+  const calls: { url: string; method: string; data?: unknown }[] = [];
+  const connection = {
+    makeAdtRequest: jest.fn(
+      async (req: { url: string; method: string; data?: unknown }) => {
+        calls.push(req);
+        const match = Object.keys(answers).find((part) =>
+          req.url.includes(part),
+        );
+        return {
+          status: 200,
+          data: match === undefined ? '' : answers[match],
+          headers: {},
+        };
+      },
+    ),
+  } as unknown as IAbapConnection;
+  return { connection, calls };
+}
+
+const findings = () => parseAtcWorklistFindings(WORKLIST) as IAtcFinding[];
+
+describe('parseAtcWorklistFindings — quick fixes and exemptions', () => {
+  it('reads the marker, checksum, quick fix and exemption state', () => {
+    const [captured, madeUp] = findings();
+
+    expect(captured).toMatchObject({
+      markerId: 'atc:6E27F48C3C661FD1A6A9440358DD9D01,1186,',
+      checksum: '-969200553',
+      quickFixAvailable: false,
+      exemption: undefined,
+    });
+    expect(madeUp).toMatchObject({
+      quickFixAvailable: true,
+      exemption: { approval: 'R', kind: 'F' },
+    });
+  });
+});
+
+describe('ATC baselines', () => {
+  it('reports only findings the baseline does not hold, by count', () => {
+    const [captured, madeUp] = findings();
+    // Moved down ten lines: the same finding, not a new one.
+    const moved = { ...captured, location: `${captured.location}0` };
+    const baseline = JSON.stringify(createAtcBaseline([captured, madeUp]));
+
+    const comparison = compareAtcBaseline([moved, moved], baseline);
+
+    expect(comparison.existing).toEqual([moved]);
+    expect(comparison.added).toEqual([moved]);
+    expect(comparison.resolved.map(({ messageId }) => messageId)).toEqual([
+      '0042',
+    ]);
+  });
+
+  it('refuses a baseline it cannot read', () => {
+    expect(() => compareAtcBaseline(findings(), '{"findings":[]}')).toThrow(
+      expect.objectContaining({ code: 'ATC_BASELINE_UNREADABLE' }),
+    );
+    expect(() => compareAtcBaseline(findings(), 'not json')).toThrow(
+      expect.objectContaining({ code: 'ATC_BASELINE_UNREADABLE' }),
+    );
+  });
+});
+
+describe('AdtAtc — typed findings from a run', () => {
+  it('a waited run with a baseline resolves with its findings and the new ones', async () => {
+    const { connection, calls } = connectionFor({
+      '/atc/worklists?': WORKLIST_ID,
+      '/atc/runs?': WAITING_RUN,
+      [`/atc/worklists/${WORKLIST_ID}`]: WORKLIST,
+    });
+    const [captured] = findings();
+
+    const result = await new AdtAtc(connection, logger() as never).run(TARGET, {
+      wait: true,
+      checkVariant: 'DEFAULT',
+      baseline: createAtcBaseline([captured]),
+    });
+
+    expect(result.findings).toHaveLength(2);
+    expect(result.baseline?.added.map(({ messageId }) => messageId)).toEqual([
+      '0042',
+    ]);
+    expect(calls[calls.length - 1].url).toBe(
+      `/sap/bc/adt/atc/worklists/${WORKLIST_ID}?includeExemptedFindings=false`,
+    );
+  });
+
+  it('flags findings that reached the cap, and refuses to compare them with a baseline', async () => {
+    const answers = {
+      '/atc/worklists?': WORKLIST_ID,
+      '/atc/runs?': WAITING_RUN,
+      [`/atc/worklists/${WORKLIST_ID}`]: WORKLIST,
+    };
+    const atc = new AdtAtc(
+      connectionFor(answers).connection,
+      logger() as never,
+    );
+
+    await expect(
+      atc.run(TARGET, { wait: true, findings: true, checkVariant: 'DEFAULT' }),
+    ).resolves.toMatchObject({ truncated: false });
+    await expect(
+      atc.run(TARGET, {
+        wait: true,
+        findings: true,
+        checkVariant: 'DEFAULT',
+        maximumVerdicts: 2,
+      }),
+    ).resolves.toMatchObject({ truncated: true });
+    await expect(
+      atc.run(TARGET, {
+        wait: true,
+        checkVariant: 'DEFAULT',
+        maximumVerdicts: 2,
+        baseline: createAtcBaseline([]),
+      }),
+    ).rejects.toMatchObject({ code: 'ATC_FINDINGS_TRUNCATED' });
+  });
+
+  it('refuses findings without wait, and an unreadable baseline, before any request', async () => {
+    const { connection, calls } = connectionFor();
+    const atc = new AdtAtc(connection, logger() as never);
+
+    await expect(atc.run(TARGET, { findings: true })).rejects.toMatchObject({
+      code: 'ADT_VALIDATION_FAILED',
+    });
+    await expect(
+      atc.run(TARGET, { wait: true, baseline: '[]' }),
+    ).rejects.toMatchObject({ code: 'ATC_BASELINE_UNREADABLE' });
+    expect(calls).toHaveLength(0);
+  });
+
+  it('getParsedFindings refuses a body that is not a worklist', async () => {
+    const { connection } = connectionFor({ '/atc/worklists/': '<html/>' });
+
+    await expect(
+      new AdtAtc(connection, logger() as never).getParsedFindings('W'),
+    ).rejects.toMatchObject({ code: 'ATC_WORKLIST_UNREADABLE' });
+  });
+});
+
+describe('AdtAtc — exemption requests', () => {
+  it('sends the proposal back with the reason and justification set', async () => {
+    const { connection, calls } = connectionFor({
+      '/exemptions/apply?markerId=': PROPOSAL,
+      '/exemptions/apply': `<?xml version="1.0" encoding="utf-8"?><atcexmpt:status xmlns:atcexmpt="http://www.sap.com/adt/atc/exemption"><atcexmpt:type>S</atcexmpt:type><atcexmpt:message>Exemption requested</atcexmpt:message></atcexmpt:status>`,
+    });
+    const [captured] = findings();
+
+    const status = await new AdtAtc(
+      connection,
+      logger() as never,
+    ).requestExemption(captured, {
+      reason: 'FPOS',
+      justification: 'Log text, <not> translated',
+    });
+
+    expect(status).toEqual({ type: 'S', message: 'Exemption requested' });
+    expect(calls[0]).toMatchObject({
+      method: 'GET',
+      url: '/sap/bc/adt/atc/exemptions/apply?markerId=atc%3A6E27F48C3C661FD1A6A9440358DD9D01%2C1186%2C',
+    });
+    const body = String(calls[1].data);
+    expect(calls[1].method).toBe('POST');
+    expect(body).toContain(
+      '<atcexmpt:exemptionApply xmlns:atcexmpt="http://www.sap.com/adt/atc/exemption"><atcexmpt:exemptionProposal',
+    );
+    expect(body).toContain('<atcexmpt:reason>FPOS</atcexmpt:reason>');
+    expect(body).toContain(
+      '<atcexmpt:justification>Log text, &lt;not&gt; translated</atcexmpt:justification>',
+    );
+    // Untouched: as proposed.
+    expect(body).toContain('<atcexmpt:approver>QA_LEAD</atcexmpt:approver>');
+    expect(body).toContain(
+      '<atcexmpt:thisFinding enabled="true">true</atcexmpt:thisFinding>',
+    );
+  });
+
+  it('refuses a finding without a marker and a request without a justification', async () => {
+    const { connection, calls } = connectionFor();
+    const atc = new AdtAtc(connection, logger() as never);
+    const [captured] = findings();
+
+    await expect(
+      atc.requestExemption(
+        { ...captured, markerId: undefined },
+        { reason: 'FPOS', justification: 'x' },
+      ),
+    ).rejects.toMatchObject({ code: 'ATC_FINDING_NOT_EXEMPTIBLE' });
+    await expect(
+      atc.requestExemption(captured, { reason: 'FPOS', justification: ' ' }),
+    ).rejects.toMatchObject({ code: 'ADT_VALIDATION_FAILED' });
+    expect(calls).toHaveLength(0);
+  });
+});
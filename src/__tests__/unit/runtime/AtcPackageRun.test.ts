@@ -0,0 +1,217 @@
+/**
+ * ATC over a package: the checkable objects of the package and its
+ * subpackages run in chunks under one check variant, their findings merged
+ * and compared with a baseline once, across all chunks — never with a chunk
+ * whose findings were cut off at the cap.
+ */
+
+import type { IAbapConnection, IAdtResponse } from '@mcp-abap-adt/interfaces';
+import { AdtAtc } from '../../../runtime/atc/AdtAtc';
+import { createAtcBaseline } from '../../../runtime/atc/baseline';
+
+type Call = {
+  url: string;
+  method: string;
+  data?: unknown;
+  params?: Record<string, unknown>;
+};
+
+function nodeStructure(
+  nodes: [type: string, name: string][],
+  types: [type: string, nodeId: string][] = [],
+): string {
+  const treeContent = nodes
+    .map(
+      ([type, name]) =>
+        `<SEU_ADT_REPOSITORY_OBJ_NODE><OBJECT_TYPE>${type}</OBJECT_TYPE><OBJECT_NAME>${name}</OBJECT_NAME></SEU_ADT_REPOSITORY_OBJ_NODE>`,
+    )
+    .join('');
+  const objectTypes = types
+    .map(
+      ([type, nodeId]) =>
+        `<SEU_ADT_OBJECT_TYPE_INFO><OBJECT_TYPE>${type}</OBJECT_TYPE><NODE_ID>${nodeId}</NODE_ID></SEU_ADT_OBJECT_TYPE_INFO>`,
+    )
+    .join('');
+  return `<?xml version="1.0" encoding="utf-8"?><asx:abap xmlns:asx="http://www.sap.com/abapxml" version="1.0"><asx:values><DATA><TREE_CONTENT>${treeContent}</TREE_CONTENT><OBJECT_TYPES>${objectTypes}</OBJECT_TYPES></DATA></asx:values></asx:abap>`;
+}
+
+const PACKAGES: Record<string, Record<string, string>> = {
+  ZAPP: {
+    '': nodeStructure(
+      [['DEVC/K', 'ZAPP_SUB']],
+      [
+        ['CLAS/OC', '11'],
+        ['PROG/P', '12'],
+        ['DDLS/DF', '13'],
+      ],
+    ),
+    '11': nodeStructure([
+      ['CLAS/OC', 'ZCL_A'],
+      ['CLAS/OC', 'ZCL_B'],
+    ]),
+    '12': nodeStructure([['PROG/P', 'ZREPORT']]),
+    '13': nodeStructure([['DDLS/DF', 'ZI_VIEW']]),
+  },
+  ZAPP_SUB: {
+    '': nodeStructure([], [['CLAS/OC', '21']]),
+    '21': nodeStructure([['CLAS/OC', 'ZCL_SUB']]),
+  },
+};
+
+const CUSTOMIZING = `<?xml version="1.0" encoding="utf-8"?><atc:customizing xmlns:atc="http://www.sap.com/adt/atc"><properties><property name="systemCheckVariant" value="ABAP_CLOUD_DEVELOPMENT_DEFAULT"/></properties></atc:customizing>`;
+
+const waitingRun = (worklistId: string) =>
+  `<?xml version="1.0" encoding="utf-8"?><atcworklist:worklistRun xmlns:atcworklist="http://www.sap.com/adt/atc/worklist"><atcworklist:worklistId>${worklistId}</atcworklist:worklistId><atcworklist:infos><atcinfo:info xmlns:atcinfo="http://www.sap.com/adt/atc/info"><atcinfo:type>FINDING_STATS</atcinfo:type><atcinfo:description>0,1,0</atcinfo:description></atcinfo:info></atcworklist:infos></atcworklist:worklistRun>`;
+
+/** One finding per worklist, on the first class its chunk checked. */
+const worklist = (worklistId: string, objectName: string) =>
+  `<?xml version="1.0" encoding="utf-8"?><atcworklist:worklist atcworklist:id="${worklistId}" xmlns:atcworklist="http://www.sap.com/adt/atc/worklist"><atcworklist:objects><atcobject:object adtcore:uri="/sap/bc/adt/atc/objects/R3TR/CLAS/${objectName}" adtcore:type="CLAS" adtcore:name="${objectName}" xmlns:atcobject="http://www.sap.com/adt/atc/object" xmlns:adtcore="http://www.sap.com/adt/core"><atcobject:findings><atcfinding:finding adtcore:uri="/sap/bc/adt/atc/findings/itemid/${worklistId}/index/1" atcfinding:location="/sap/bc/adt/oo/classes/${objectName.toLowerCase()}/source/main#start=3,0" atcfinding:priority="2" atcfinding:checkId="C0FFEE" atcfinding:checkTitle="Performance" atcfinding:messageId="0042" atcfinding:messageTitle="SELECT in loop" atcfinding:checksum="${objectName.length}" xmlns:atcfinding="http://www.sap.com/adt/atc/finding"/></atcobject:findings></atcobject:object></atcworklist:objects></atcworklist:worklist>`;
+
+function fakeServer() {
+  const calls: Call[] = [];
+  const checked = new Map<string, string>();
+  let worklists = 0;
+  const connection = {
+    makeAdtRequest: async (call: Call): Promise<IAdtResponse> => {
+      calls.push(call);
+      const respond = (data: string) =>
+        ({ status: 200, statusText: 'OK', headers: {}, data }) as IAdtResponse;
+
+      if (call.url === '/sap/bc/adt/repository/nodestructure') {
+        const name = String(call.params?.parent_name);
+        const nodeId = String(call.params?.node_id ?? '');
+        return respond(PACKAGES[name]?.[nodeId] ?? nodeStructure([]));
+      }
+      if (call.url === '/sap/bc/adt/atc/customizing') {
+        return respond(CUSTOMIZING);
+      }
+      if (call.url.startsWith('/sap/bc/adt/atc/worklists?')) {
+        worklists += 1;
+        return respond(`WL${worklists}`);
+      }
+      if (call.url.startsWith('/sap/bc/adt/atc/runs?')) {
+        const worklistId = /worklistId=([^&]+)/.exec(call.url)?.[1] ?? '';
+        const first = /classes\/([A-Z_]+)/.exec(String(call.data))?.[1] ?? '';
+        checked.set(worklistId, first);
+        return respond(waitingRun(worklistId));
+      }
+      if (call.url.startsWith('/sap/bc/adt/atc/worklists/')) {
+        const worklistId = /worklists\/([^?]+)/.exec(call.url)?.[1] ?? '';
+        return respond(worklist(worklistId, checked.get(worklistId) ?? ''));
+      }
+      throw new Error(`Unexpected request ${call.method} ${call.url}`);
+    },
+  } as unknown as IAbapConnection;
+  return { connection, calls };
+}
+
+function logger() {
+  return {
+    log: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  };
+}
+
+const runPayloads = (calls: Call[]) =>
+  calls
+    .filter(({ url }) => url.startsWith('/sap/bc/adt/atc/runs?'))
+    .map(({ data }) => String(data));
+
+describe('AdtAtc.runPackage', () => {
+  it('checks the package in chunks under the customizing variant, and merges the findings', async () => {
+    const { connection, calls } = fakeServer();
+    const progress: number[] = [];
+
+    const run = await new AdtAtc(connection, logger() as never).runPackage(
+      'ZAPP',
+      {
+        chunkSize: 2,
+        onProgress: ({ completedObjects }) => progress.push(completedObjects),
+      },
+    );
+
+    expect(run).toMatchObject({
+      packageName: 'ZAPP',
+      checkVariant: 'ABAP_CLOUD_DEVELOPMENT_DEFAULT',
+      worklistIds: ['WL1', 'WL2'],
+      truncatedWorklistIds: [],
+    });
+    expect(run.objects.map(({ name }) => name)).toEqual([
+      'ZCL_A',
+      'ZCL_B',
+      'ZI_VIEW',
+      'ZCL_SUB',
+    ]);
+    expect(run.skipped.map(({ name }) => name)).toEqual(['ZREPORT']);
+    expect(run.findings.map(({ objectName }) => objectName)).toEqual([
+      'ZCL_A',
+      'ZCL_SUB',
+    ]);
+    expect(progress).toEqual([0, 2, 4]);
+
+    const [first, second] = runPayloads(calls);
+    expect(first).toContain('/sap/bc/adt/oo/classes/ZCL_B');
+    expect(second).toContain('/sap/bc/adt/ddic/ddl/sources/ZI_VIEW');
+    expect(second).toContain('/sap/bc/adt/oo/classes/ZCL_SUB');
+    // One customizing read for the run, not one per chunk.
+    expect(
+      calls.filter(({ url }) => url === '/sap/bc/adt/atc/customizing'),
+    ).toHaveLength(1);
+  });
+
+  it('compares the baseline with the findings of all chunks together', async () => {
+    const first = await new AdtAtc(
+      fakeServer().connection,
+      logger() as never,
+    ).runPackage('ZAPP', { chunkSize: 2, checkVariant: 'DEFAULT' });
+    const baseline = createAtcBaseline(first.findings.slice(1));
+
+    const run = await new AdtAtc(
+      fakeServer().connection,
+      logger() as never,
+    ).runPackage('ZAPP', { chunkSize: 2, checkVariant: 'DEFAULT', baseline });
+
+    expect(run.baseline?.added.map(({ objectName }) => objectName)).toEqual([
+      'ZCL_A',
+    ]);
+    expect(run.baseline?.existing).toHaveLength(1);
+  });
+
+  it('names the chunks cut off at the cap, and with a baseline stops at the first', async () => {
+    const options = {
+      chunkSize: 2,
+      checkVariant: 'DEFAULT',
+      maximumVerdicts: 1,
+    };
+
+    const run = await new AdtAtc(
+      fakeServer().connection,
+      logger() as never,
+    ).runPackage('ZAPP', options);
+    expect(run.truncatedWorklistIds).toEqual(['WL1', 'WL2']);
+
+    const { connection, calls } = fakeServer();
+    await expect(
+      new AdtAtc(connection, logger() as never).runPackage('ZAPP', {
+        ...options,
+        baseline: createAtcBaseline([]),
+      }),
+    ).rejects.toMatchObject({ code: 'ATC_FINDINGS_TRUNCATED' });
+    expect(runPayloads(calls)).toHaveLength(1);
+  });
+
+  it('refuses an unreadable baseline and an empty package name before any request', async () => {
+    const { connection, calls } = fakeServer();
+    const atc = new AdtAtc(connection, logger() as never);
+
+    await expect(
+      atc.runPackage('ZAPP', { baseline: '[]' }),
+    ).rejects.toMatchObject({ code: 'ATC_BASELINE_UNREADABLE' });
+    await expect(atc.runPackage(' ')).rejects.toMatchObject({
+      code: 'ADT_VALIDATION_FAILED',
+    });
+    expect(calls).toHaveLength(0);
+  });
+});
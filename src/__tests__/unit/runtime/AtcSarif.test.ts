@@ -0,0 +1,95 @@
+/**
+ * ATC findings as SARIF.
+ *
+ * The worklist is the one captured in
+ * `docs/evidence/2026-08-16-atc-trial-probe.md`, trimmed to the finding, plus
+ * a second object without source. Asserted: where each finding lands — file,
+ * 1-based line and column — and that a finding with no file keeps its object.
+ */
+
+import { parseAtcWorklistFindings } from '../../../runtime/atc/parse';
+import { atcFindingsToSarif } from '../../../runtime/atc/sarif';
+
+const WORKLIST = `<?xml version="1.0" encoding="utf-8"?><atcworklist:worklist atcworklist:id="0ABD945AC5681FE1A6A97116D8E9C030" xmlns:atcworklist="http://www.sap.com/adt/atc/worklist"><atcworklist:objects>
+<atcobject:object adtcore:uri="/sap/bc/adt/atc/objects/R3TR/CLAS/ZOK_CL_CLEANER" adtcore:type="CLAS" adtcore:name="ZOK_CL_CLEANER" adtcore:packageName="ZBASE_PROBE01" xmlns:atcobject="http://www.sap.com/adt/atc/object" xmlns:adtcore="http://www.sap.com/adt/core"><atcobject:findings>
+<atcfinding:finding adtcore:uri="/sap/bc/adt/atc/findings/itemid/6E27F48C3C661FD1A6A9440358DD9D01/index/1186" atcfinding:location="/sap/bc/adt/oo/classes/zok_cl_cleaner/source/main#start=30,0" atcfinding:priority="3" atcfinding:checkId="F8607CD40A0F8B30BDF8590205B306E8" atcfinding:checkTitle="Extended Program Check (SLIN)" atcfinding:messageId="1713" atcfinding:messageTitle="Strings without text elements are not translated: |Cleaning item, |" atcfinding:exemptionApproval="-" atcfinding:exemptionKind="" xmlns:atcfinding="http://www.sap.com/adt/atc/finding"><atom:link href="/sap/bc/adt/documentation/atc/documents/itemid/6E27F48C3C661FD1A6A9440358DD9D01/index/1186" rel="http://www.sap.com/adt/relations/documentation" type="text/html" xmlns:atom="http://www.w3.org/2005/Atom"/><atcfinding:quickfixes atcfinding:manual="false" atcfinding:automatic="false"/></atcfinding:finding>
+</atcobject:findings></atcobject:object>
+<atcobject:object adtcore:uri="/sap/bc/adt/atc/objects/R3TR/TABL/ZTAB" adtcore:type="TABL" adtcore:name="ZTAB" xmlns:atcobject="http://www.sap.com/adt/atc/object" xmlns:adtcore="http://www.sap.com/adt/core"><atcobject:findings>
+<atcfinding:finding adtcore:uri="/sap/bc/adt/atc/findings/itemid/X/index/1" atcfinding:location="/sap/bc/adt/ddic/tables/ztab" atcfinding:priority="1" atcfinding:checkId="C2" atcfinding:checkTitle="Table check" atcfinding:messageId="0001" atcfinding:messageTitle="No delivery class" xmlns:atcfinding="http://www.sap.com/adt/atc/finding"/>
+</atcobject:findings></atcobject:object>
+</atcworklist:objects></atcworklist:worklist>`;
+
+describe('parseAtcWorklistFindings', () => {
+  it('carries the object onto each of its findings', () => {
+    const [first] = parseAtcWorklistFindings(WORKLIST) ?? [];
+    expect(first).toEqual({
+      uri: '/sap/bc/adt/atc/findings/itemid/6E27F48C3C661FD1A6A9440358DD9D01/index/1186',
+      location: '/sap/bc/adt/oo/classes/zok_cl_cleaner/source/main#start=30,0',
+      priority: 3,
+      checkId: 'F8607CD40A0F8B30BDF8590205B306E8',
+      checkTitle: 'Extended Program Check (SLIN)',
+      messageId: '1713',
+      messageTitle:
+        'Strings without text elements are not translated: |Cleaning item, |',
+      objectUri: '/sap/bc/adt/atc/objects/R3TR/CLAS/ZOK_CL_CLEANER',
+      objectType: 'CLAS',
+      objectName: 'ZOK_CL_CLEANER',
+      packageName: 'ZBASE_PROBE01',
+      documentationUri:
+        '/sap/bc/adt/documentation/atc/documents/itemid/6E27F48C3C661FD1A6A9440358DD9D01/index/1186',
+      quickFixAvailable: false,
+    });
+  });
+
+  it('tells a worklist without findings from a body that is not one', () => {
+    expect(
+      parseAtcWorklistFindings(
+        '<atcworklist:worklist xmlns:atcworklist="http://www.sap.com/adt/atc/worklist" atcworklist:id="A"/>',
+      ),
+    ).toEqual([]);
+    expect(parseAtcWorklistFindings('<html/>')).toBeNull();
+  });
+});
+
+describe('atcFindingsToSarif', () => {
+  const log = JSON.parse(atcFindingsToSarif(WORKLIST));
+  const [run] = log.runs;
+
+  it('is a SARIF 2.1.0 log with a rule per check and message', () => {
+    expect(log.version).toBe('2.1.0');
+    expect(run.tool.driver.rules.map((r: { id: string }) => r.id)).toEqual([
+      'F8607CD40A0F8B30BDF8590205B306E8/1713',
+      'C2/0001',
+    ]);
+  });
+
+  it('maps the location to the abapGit file, with a 1-based column', () => {
+    expect(run.results[0]).toMatchObject({
+      ruleIndex: 0,
+      level: 'note',
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: 'src/zok_cl_cleaner.clas.abap' },
+            region: { startLine: 30, startColumn: 1 },
+          },
+        },
+      ],
+    });
+  });
+
+  it('keeps only the object for a finding that maps to no file', () => {
+    expect(run.results[1].level).toBe('error');
+    expect(run.results[1].locations).toEqual([
+      {
+        logicalLocations: [{ name: 'ZTAB', fullyQualifiedName: 'TABL/ZTAB' }],
+      },
+    ]);
+  });
+
+  it('refuses a body that is not a worklist', () => {
+    expect(() => atcFindingsToSarif('<html/>')).toThrow(
+      expect.objectContaining({ code: 'ATC_WORKLIST_UNREADABLE' }),
+    );
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * ATC customizing and check variants, typed.
+ *
+ * The customizing is the one captured in
+ * `docs/evidence/2026-08-16-atc-trial-probe.md`. The variant list and the
+ * variant are not in the captures: the list is the named-item shape every
+ * ADT value help answers with, and the variant is made up to carry what the
+ * loose reader looks for — checks, their attributes and parameters.
+ */
+
+import type { IAbapConnection } from '@mcp-abap-adt/interfaces';
+import { AdtAtc } from '../../../runtime/atc/AdtAtc';
+import {
+  parseAtcCheckVariant,
+  parseAtcCheckVariants,
+  parseAtcCustomizing,
+} from '../../../runtime/atc/parse';
+
+const CUSTOMIZING = `<?xml version="1.0" encoding="utf-8"?><atc:customizing xmlns:atc="http://www.sap.com/adt/atc"><properties><property name="ciCheckFlavour" value="true"/><property name="systemCheckVariant" value="ABAP_CLOUD_DEVELOPMENT_DEFAULT"/><property name="isCCSTunnelEnabled" value="false"/><property name="isTransportableExemptionTypeUsed" value="true"/></properties><exemption><reasons><reason id="FPOS" justificationMandatory="true" title="False Positive"/><reason id="OTHR" justificationMandatory="true" title="Other Reason"/></reasons><validities><validity id="U" value="No Restrictions"/><validity id="D" value="Date"/><validity id="P" value="Current SAP Support Package"/></validities></exemption><scaAttributes><scaAttribute labelL="Additional Info" labelM="Additional Info" labelS="Add. Info" label="false" attributeName="ADD_INFO"/></scaAttributes></atc:customizing>`;
+
+const VARIANTS = `<?xml version="1.0" encoding="utf-8"?><nameditem:namedItemList xmlns:nameditem="http://www.sap.com/adt/nameditem"><nameditem:totalItemCount>2</nameditem:totalItemCount><nameditem:namedItem><nameditem:name>ABAP_CLOUD_DEVELOPMENT_DEFAULT</nameditem:name><nameditem:description>ABAP Cloud Development</nameditem:description></nameditem:namedItem><nameditem:namedItem><nameditem:name>Z_PERFORMANCE</nameditem:name></nameditem:namedItem></nameditem:namedItemList>`;
+
+const VARIANT = `<?xml version="1.0" encoding="utf-8"?><chkv:checkVariant chkv:name="Z_PERFORMANCE" chkv:description="Performance only" xmlns:chkv="http://www.sap.com/adt/atc/checkvariant"><chkv:checks><chkv:check chkv:name="CL_CI_TEST_SELECT_NESTED" chkv:title="Nested SELECT" chkv:priority="2"><chkv:parameters><chkv:parameter chkv:name="DEPTH" chkv:value="2"/><chkv:parameter chkv:name="TABLES">ZSALES*</chkv:parameter></chkv:parameters></chkv:check><chkv:check chkv:name="CL_CI_TEST_SELECT_TAW_BYPASS"/><chkv:check/></chkv:checks></chkv:checkVariant>`;
+
+function logger() {
+  return {
+    log: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  };
+}
+
+function connectionFor(answers: Record<string, string> = {}) {
+  const calls: { url: string; method: string; headers?: unknown }[] = [];
+  const connection = {
+    makeAdtRequest: jest.fn(
+      async (req: { url: string; method: string; headers?: unknown }) => {
+        calls.push(req);
+        const match = Object.keys(answers).find((part) =>
+          req.url.includes(part),
+        );
+        return {
+          status: 200,
+          data: match === undefined ? '' : answers[match],
+          headers: {},
+        };
+      },
+    ),
+  } as unknown as IAbapConnection;
+  return { connection, calls };
+}
+
+describe('parseAtcCustomizing', () => {
+  it('reads the system variant, the properties and the exemption settings', () => {
+    const customizing = parseAtcCustomizing(CUSTOMIZING);
+
+    expect(customizing?.systemCheckVariant).toBe(
+      'ABAP_CLOUD_DEVELOPMENT_DEFAULT',
+    );
+    expect(customizing?.properties.isCCSTunnelEnabled).toBe('false');
+    expect(customizing?.exemptionReasons).toEqual([
+      { id: 'FPOS', title: 'False Positive', justificationMandatory: true },
+      { id: 'OTHR', title: 'Other Reason', justificationMandatory: true },
+    ]);
+    expect(customizing?.exemptionValidities.map(({ id }) => id)).toEqual([
+      'U',
+      'D',
+      'P',
+    ]);
+  });
+
+  it('is null for a body that is not customizing', () => {
+    expect(parseAtcCustomizing('<html/>')).toBeNull();
+    expect(parseAtcCustomizing('')).toBeNull();
+  });
+});
+
+describe('parseAtcCheckVariants and parseAtcCheckVariant', () => {
+  it('lists variants by name, description when there is one', () => {
+    expect(parseAtcCheckVariants(VARIANTS)).toEqual([
+      {
+        name: 'ABAP_CLOUD_DEVELOPMENT_DEFAULT',
+        description: 'ABAP Cloud Development',
+      },
+      { name: 'Z_PERFORMANCE', description: undefined },
+    ]);
+    expect(parseAtcCheckVariants('<other/>')).toBeNull();
+  });
+
+  it('reads the checks of a variant with their parameters, skipping unnamed ones', () => {
+    const variant = parseAtcCheckVariant(VARIANT);
+
+    expect(variant).toMatchObject({
+      name: 'Z_PERFORMANCE',
+      description: 'Performance only',
+    });
+    expect(variant?.checks).toHaveLength(2);
+    expect(variant?.checks[0]).toEqual({
+      name: 'CL_CI_TEST_SELECT_NESTED',
+      description: 'Nested SELECT',
+      parameters: { DEPTH: '2', TABLES: 'ZSALES*' },
+      attributes: {
+        name: 'CL_CI_TEST_SELECT_NESTED',
+        title: 'Nested SELECT',
+        priority: '2',
+      },
+    });
+    expect(parseAtcCheckVariant('<checkVariant/>')).toBeNull();
+  });
+});
+
+describe('AdtAtc — configuration reads', () => {
+  it('reads customizing, the variant list and a variant from their resources', async () => {
+    const { connection, calls } = connectionFor({
+      '/atc/customizing': CUSTOMIZING,
+      '/atc/variants?': VARIANTS,
+      '/atc/checkvariants/': VARIANT,
+    });
+    const atc = new AdtAtc(connection, logger() as never);
+
+    await expect(atc.getCustomizing()).resolves.toMatchObject({
+      systemCheckVariant: 'ABAP_CLOUD_DEVELOPMENT_DEFAULT',
+    });
+    await expect(
+      atc.listCheckVariants({ name: 'Z*', maxItemCount: 20 }),
+    ).resolves.toHaveLength(2);
+    await expect(atc.getCheckVariant('Z_PERFORMANCE')).resolves.toMatchObject({
+      name: 'Z_PERFORMANCE',
+    });
+
+    expect(calls.map(({ url }) => url)).toEqual([
+      '/sap/bc/adt/atc/customizing',
+      '/sap/bc/adt/atc/variants?maxItemCount=20&data=Z*',
+      '/sap/bc/adt/atc/checkvariants/z_performance',
+    ]);
+  });
+
+  it('refuses bodies it cannot read, and a variant without a name', async () => {
+    const { connection, calls } = connectionFor({ '/atc/': '<html/>' });
+    const atc = new AdtAtc(connection, logger() as never);
+
+    await expect(atc.getCustomizing()).rejects.toMatchObject({
+      code: 'ATC_CUSTOMIZING_UNREADABLE',
+    });
+    await expect(atc.listCheckVariants()).rejects.toMatchObject({
+      code: 'ATC_CHECK_VARIANT_UNREADABLE',
+    });
+    await expect(atc.getCheckVariant('X')).rejects.toMatchObject({
+      code: 'ATC_CHECK_VARIANT_UNREADABLE',
+    });
+    const sent = calls.length;
+    await expect(atc.getCheckVariant(' ')).rejects.toMatchObject({
+      code: 'ADT_VALIDATION_FAILED',
+    });
+    expect(calls).toHaveLength(sent);
+  });
+});
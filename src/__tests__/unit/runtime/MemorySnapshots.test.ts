@@ -111,4 +111,31 @@ describe('MemorySnapshots', () => {
       }),
     );
   });
+
+  it('getParsedRankingList() reads the rows of the ranking list', async () => {
+    const connection = {
+      makeAdtRequest: jest.fn().mockResolvedValue({
+        status: 200,
+        data: '<mem:rankingList xmlns:mem="http://www.sap.com/adt/runtime/memory"><mem:object objectKey="K1" name="GT_CACHE" type="TABLE"/></mem:rankingList>',
+      }),
+    } as unknown as IAbapConnection;
+    const snapshots = new MemorySnapshots(connection, createLogger());
+
+    const objects = await snapshots.getParsedRankingList('snap123');
+
+    expect(objects.map(({ key, name }) => ({ key, name }))).toEqual([
+      { key: 'K1', name: 'GT_CACHE' },
+    ]);
+  });
+
+  it('getParsedDeltaOverview() fails with MEMORY_SNAPSHOT_UNREADABLE on an empty body', async () => {
+    const snapshots = new MemorySnapshots(
+      createConnectionMock(),
+      createLogger(),
+    );
+
+    await expect(
+      snapshots.getParsedDeltaOverview('uri1', 'uri2'),
+    ).rejects.toMatchObject({ code: 'MEMORY_SNAPSHOT_UNREADABLE' });
+  });
 });
@@ -113,4 +113,33 @@ describe('Profiler', () => {
     // Must be a copy, not the same reference
     expect(defaults).not.toBe(profiler.getDefaultParameters());
   });
+
+  it('getCallTree() reads the statements view and nests it', async () => {
+    const connection = {
+      makeAdtRequest: jest.fn().mockResolvedValue({
+        status: 200,
+        data: '<trc:statements xmlns:trc="http://www.sap.com/adt/runtime/traces/abaptraces"><trc:statement id="1" hitCount="1" description="run"><trc:grossTime time="10"/></trc:statement><trc:statement id="2" callerId="1" hitCount="1" description="select"><trc:grossTime time="4"/></trc:statement></trc:statements>',
+      }),
+    } as unknown as IAbapConnection;
+    const profiler = new Profiler(connection, createLogger());
+
+    const tree = await profiler.getCallTree('TRACE1', {
+      autoDrillDownThreshold: 80,
+    });
+
+    const call = (connection.makeAdtRequest as jest.Mock).mock.calls[0][0];
+    expect(call.url).toContain('/abaptraces/TRACE1/statements');
+    expect(tree.map(({ description }) => description)).toEqual(['run']);
+    expect(tree[0].children.map(({ description }) => description)).toEqual([
+      'select',
+    ]);
+  });
+
+  it('getParsedHitList() fails with PROFILER_UNREADABLE_RESPONSE on an empty body', async () => {
+    const profiler = new Profiler(createConnectionMock(), createLogger());
+
+    await expect(profiler.getParsedHitList('TRACE1')).rejects.toMatchObject({
+      code: 'PROFILER_UNREADABLE_RESPONSE',
+    });
+  });
 });
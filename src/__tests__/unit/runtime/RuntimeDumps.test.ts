@@ -108,4 +108,32 @@ describe('RuntimeDumps', () => {
 
     expect(query).toBe('and( equals( user, CB9980000423 ) )');
   });
+
+  it('getParsed() reads the default and formatted views into one dump', async () => {
+    const connection = {
+      makeAdtRequest: jest.fn(async ({ url }: { url: string }) => ({
+        status: 200,
+        data: url.endsWith('/formatted')
+          ? 'Short Text\n    Division by 0'
+          : '<dump:dump xmlns:dump="http://www.sap.com/adt/categories/dump" error="COMPUTE_INT_ZERODIVIDE"><dump:chapters><dump:chapter name="kap0" title="Short Text" line="1"/></dump:chapters></dump:dump>',
+      })),
+    } as unknown as IAbapConnection;
+    const dumps = new RuntimeDumps(connection, createLogger());
+
+    const dump = await dumps.getParsed('DUMP123');
+
+    expect(dump).toMatchObject({
+      id: 'DUMP123',
+      error: 'COMPUTE_INT_ZERODIVIDE',
+      shortText: 'Division by 0',
+    });
+  });
+
+  it('getParsed() fails with RUNTIME_DUMP_UNREADABLE on a body that is not a dump', async () => {
+    const dumps = new RuntimeDumps(createConnectionMock(), createLogger());
+
+    await expect(dumps.getParsed('DUMP123')).rejects.toMatchObject({
+      code: 'RUNTIME_DUMP_UNREADABLE',
+    });
+  });
 });
@@ -0,0 +1,221 @@
+/**
+ * BreakpointManager: a client-side breakpoint set.
+ *
+ * Pinned: what `sync()` sends (enabled breakpoints only, one full-sync
+ * request, each under its client ID) and how the server's IDs map back;
+ * what `validate()` reports against the current source and the condition
+ * check; and that an exported set imports into another manager unchanged,
+ * merges into one without reusing the IDs it holds, while a malformed one
+ * changes nothing.
+ */
+
+import type { IAbapConnection } from '@mcp-abap-adt/interfaces';
+import { BreakpointManager } from '../../../../runtime/debugger/BreakpointManager';
+
+const SOURCE_URI = '/sap/bc/adt/oo/classes/zcl_demo/source/main';
+const SOURCE = [
+  'CLASS zcl_demo IMPLEMENTATION.',
+  '  METHOD run.',
+  '    " count the rows',
+  '',
+  '    lv_count = lines( lt_rows ).',
+  '  ENDMETHOD.',
+  'ENDCLASS.',
+].join('\r\n');
+
+function fakeServer() {
+  const requests: { url: string; data?: string }[] = [];
+  const connection = {
+    makeAdtRequest: async (request: { url: string; data?: string }) => {
+      requests.push(request);
+      if (request.url === SOURCE_URI) {
+        return { status: 200, headers: {}, data: SOURCE };
+      }
+      if (request.url === '/sap/bc/adt/debugger/breakpoints/conditions') {
+        if (String(request.data).includes('lv_count &gt;&gt;')) {
+          throw new Error('Condition is not valid ABAP');
+        }
+        return { status: 200, headers: {}, data: '' };
+      }
+      if (request.url === '/sap/bc/adt/debugger/breakpoints') {
+        const entries = [
+          ...String(request.data).matchAll(/clientId="([^"]+)"/g),
+        ].map(([, clientId], index) =>
+          clientId === 'bad'
+            ? `<breakpoint clientId="${clientId}" errorMessage="Exception class does not exist"/>`
+            : `<breakpoint kind="line" clientId="${clientId}" id="KIND=0.SRV${index}"/>`,
+        );
+        return {
+          status: 200,
+          headers: {},
+          data: `<dbg:breakpoints xmlns:dbg="http://www.sap.com/adt/debugger">${entries.join('')}</dbg:breakpoints>`,
+        };
+      }
+      throw new Error(`Unexpected request: ${request.url}`);
+    },
+  };
+  return { connection: connection as unknown as IAbapConnection, requests };
+}
+
+describe('BreakpointManager', () => {
+  it('syncs the enabled breakpoints and maps server IDs back', async () => {
+    const server = fakeServer();
+    const manager = new BreakpointManager(server.connection, undefined, {
+      user: 'DEVELOPER',
+    });
+    const line = manager.add({
+      kind: 'line',
+      uri: `${SOURCE_URI}#start=5,4`,
+      line: 5,
+      condition: 'lv_count > 10',
+    });
+    manager.add({ kind: 'exception', exceptionClass: 'CX_NOPE', id: 'bad' });
+    const statement = manager.add({
+      kind: 'statement',
+      statement: 'COMMIT WORK',
+    });
+    manager.setEnabled(statement.id, false);
+
+    const results = await manager.sync();
+
+    expect(line).toMatchObject({ id: 'bp1', uri: SOURCE_URI, enabled: true });
+    expect(server.requests).toHaveLength(1);
+    const body = String(server.requests[0].data);
+    expect(body).toContain(
+      'scope="external" debuggingMode="user" requestUser="DEVELOPER"',
+    );
+    expect(body).toContain('<syncScope mode="full"/>');
+    expect(body).toContain(
+      `<breakpoint kind="line" clientId="bp1" condition="lv_count &gt; 10" adtcore:uri="${SOURCE_URI}#start=5"/>`,
+    );
+    expect(body).not.toContain('COMMIT WORK');
+    expect(results).toEqual([
+      { id: 'bp1', serverId: 'KIND=0.SRV0', error: undefined },
+      {
+        id: 'bad',
+        serverId: undefined,
+        error: 'Exception class does not exist',
+      },
+    ]);
+    expect(manager.findByServerId('KIND=0.SRV0')?.id).toBe('bp1');
+  });
+
+  it('validates lines against the current source and conditions on the server', async () => {
+    const server = fakeServer();
+    const manager = new BreakpointManager(server.connection, undefined, {
+      user: 'DEVELOPER',
+    });
+    manager.add({ kind: 'line', uri: SOURCE_URI, line: 5 });
+    manager.add({ kind: 'line', uri: SOURCE_URI, line: 3 });
+    manager.add({ kind: 'line', uri: SOURCE_URI, line: 40 });
+    manager.add({
+      kind: 'line',
+      uri: SOURCE_URI,
+      line: 5,
+      condition: 'lv_count >> 1',
+    });
+    manager.add({
+      kind: 'message',
+      messageClass: 'ZMSG',
+      messageNumber: '001',
+    });
+
+    expect(await manager.validate()).toEqual([
+      { id: 'bp1', valid: true },
+      { id: 'bp2', valid: false, reason: 'Line 3 is blank or a comment' },
+      {
+        id: 'bp3',
+        valid: false,
+        reason: 'Line 40 is past the end of the source (7 lines)',
+      },
+      {
+        id: 'bp4',
+        valid: false,
+        reason: 'Condition not accepted: Condition is not valid ABAP',
+      },
+      { id: 'bp5', valid: true },
+    ]);
+    expect(
+      server.requests.filter((request) => request.url === SOURCE_URI),
+    ).toHaveLength(1);
+  });
+
+  it('round-trips a set through JSON into another manager', () => {
+    const source = new BreakpointManager(fakeServer().connection, undefined, {
+      user: 'DEVELOPER',
+    });
+    source.add({
+      kind: 'line',
+      uri: SOURCE_URI,
+      line: 5,
+      condition: 'sy-subrc <> 0',
+    });
+    source.add({
+      kind: 'message',
+      messageClass: 'ZMSG',
+      messageNumber: '001',
+      messageType: 'E',
+      enabled: false,
+    });
+
+    const target = new BreakpointManager(fakeServer().connection, undefined, {
+      user: 'TESTER',
+    });
+    target.add({ kind: 'exception', exceptionClass: 'CX_SY_ZERODIVIDE' });
+    target.importSet(JSON.stringify(source.exportSet()), { replace: true });
+
+    expect(target.list()).toEqual(source.list());
+  });
+
+  it('merges a set into the current one, giving entries without an ID fresh ones', () => {
+    const manager = new BreakpointManager(fakeServer().connection, undefined, {
+      user: 'DEVELOPER',
+    });
+    manager.add({ kind: 'statement', statement: 'COMMIT WORK' });
+    manager.add({ kind: 'exception', exceptionClass: 'CX_SY_ZERODIVIDE' });
+
+    const imported = manager.importSet(
+      JSON.stringify({
+        version: 1,
+        breakpoints: [
+          { kind: 'line', uri: SOURCE_URI, line: 5 },
+          { kind: 'statement', statement: 'ROLLBACK WORK', id: 'bp2' },
+        ],
+      }),
+    );
+
+    expect(imported.map(({ id }) => id)).toEqual(['bp3', 'bp2']);
+    expect(manager.list().map(({ id, kind }) => `${id} ${kind}`)).toEqual([
+      'bp1 statement',
+      'bp2 statement',
+      'bp3 line',
+    ]);
+    expect(manager.get('bp2')).toMatchObject({ statement: 'ROLLBACK WORK' });
+  });
+
+  it('rejects a malformed set without changing the current one', () => {
+    const manager = new BreakpointManager(fakeServer().connection, undefined, {
+      user: 'DEVELOPER',
+    });
+    manager.add({ kind: 'statement', statement: 'COMMIT WORK' });
+
+    expect(() =>
+      manager.importSet(
+        {
+          version: 1,
+          breakpoints: [
+            { kind: 'line', uri: SOURCE_URI, line: 5, id: 'a', enabled: true },
+            { kind: 'line', uri: SOURCE_URI, line: 0, id: 'b', enabled: true },
+          ],
+        },
+        { replace: true },
+      ),
+    ).toThrow(expect.objectContaining({ code: 'BREAKPOINT_INVALID_SET' }));
+    expect(() => manager.importSet('{"breakpoints":[]}')).toThrow(
+      expect.objectContaining({ code: 'BREAKPOINT_INVALID_SET' }),
+    );
+    expect(manager.list().map((breakpoint) => breakpoint.kind)).toEqual([
+      'statement',
+    ]);
+  });
+});
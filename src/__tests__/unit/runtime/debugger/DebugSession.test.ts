@@ -0,0 +1,281 @@
+/**
+ * DebugSession against a simulated debuggee.
+ *
+ * The simulation stands in one method of a class, lines 10 to 14, and ends
+ * past line 14. Pinned: what a stop is read into (current frame first, the
+ * statement with its source line, the variable tree to its depth with tables
+ * left collapsed), the requests a step sends, and that a debuggee running to
+ * its end ends the session and gives the connection back stateless.
+ */
+
+import type { IAbapConnection } from '@mcp-abap-adt/interfaces';
+import { DebugSession } from '../../../../runtime/debugger/DebugSession';
+
+const SOURCE_URI = '/sap/bc/adt/oo/classes/zcl_demo/source/main';
+
+const variable = (id: string, metaType: string, value: string, extra = '') =>
+  `<STPDA_ADT_VARIABLE><ID>${id}</ID><NAME>${id}</NAME><DECLARED_TYPE_NAME>T</DECLARED_TYPE_NAME><META_TYPE>${metaType}</META_TYPE><VALUE>${value}</VALUE>${extra}</STPDA_ADT_VARIABLE>`;
+
+const link = (parent: string, child: string) =>
+  `<STPDA_ADT_VARIABLE_HIERARCHY><PARENT_ID>${parent}</PARENT_ID><CHILD_ID>${child}</CHILD_ID><CHILD_NAME>${child.replace('@', '')}</CHILD_NAME></STPDA_ADT_VARIABLE_HIERARCHY>`;
+
+function simulatedDebuggee(
+  options: { noDebuggee?: boolean; failStackPart?: boolean } = {},
+) {
+  let line = 10;
+  let stackReads = 0;
+  let stackBody: (() => string) | undefined;
+  const sessionTypes: string[] = [];
+  const steps: string[] = [];
+  const childRequests: string[][] = [];
+  let sourceReads = 0;
+
+  const stepResult = (ended: boolean, breakpoint?: string) =>
+    `<dbg:step xmlns:dbg="http://www.sap.com/adt/debugger" isSteppingPossible="${!ended}" isTerminationPossible="${!ended}">${breakpoint ? `<dbg:reachedBreakpoints><dbg:breakpoint id="${breakpoint}"/></dbg:reachedBreakpoints>` : ''}</dbg:step>`;
+
+  const stack = () =>
+    `<dbg:stack xmlns:dbg="http://www.sap.com/adt/debugger"><dbg:stackEntry stackPosition="1" programName="ZREPORT" includeName="ZREPORT" line="3" eventType="EVENT" eventName="START-OF-SELECTION" uri="/sap/bc/adt/programs/programs/zreport/source/main#start=3" systemProgram="false"/><dbg:stackEntry stackPosition="2" programName="ZCL_DEMO======================CP" includeName="ZCL_DEMO======================CM001" line="${line}" eventType="METHOD" eventName="RUN" uri="${SOURCE_URI}#start=${line},4" systemProgram="false"/></dbg:stack>`;
+
+  const children: Record<string, string> = {
+    '@ROOT': link('@ROOT', '@LOCALS'),
+    '@LOCALS': `${link('@LOCALS', 'LV_COUNT')}${link('@LOCALS', 'LS_ROW')}${link('@LOCALS', 'LT_ROWS')}`,
+    LS_ROW: link('LS_ROW', 'LS_ROW-ID'),
+    LT_ROWS: link('LT_ROWS', 'LT_ROWS[1]'),
+  };
+  const variables = () =>
+    `${variable('LV_COUNT', 'simple', String(line - 10))}${variable('LS_ROW', 'structure', '')}${variable('LT_ROWS', 'table', '', '<TABLE_LINES>3</TABLE_LINES>')}${variable('LS_ROW-ID', 'simple', '42')}`;
+
+  const respond = (data: string, headers: Record<string, string> = {}) => ({
+    status: 200,
+    statusText: 'OK',
+    headers,
+    data,
+  });
+
+  const connection = {
+    setSessionType: (type: string) => sessionTypes.push(type),
+    makeAdtRequest: async (request: {
+      url: string;
+      params?: Record<string, unknown>;
+      data?: string;
+    }) => {
+      const { url, params, data } = request;
+      if (url === '/sap/bc/adt/debugger/listeners') {
+        return respond(
+          options.noDebuggee
+            ? ''
+            : '<asx:abap xmlns:asx="http://www.sap.com/abapxml" version="1.0"><asx:values><DATA><STPDA_DEBUGGEE><DEBUGGEE_ID>DBG-1</DEBUGGEE_ID><DEBUGGEE_USER>DEVELOPER</DEBUGGEE_USER><PROGRAM_CURRENT>ZCL_DEMO======================CP</PROGRAM_CURRENT><INCLUDE_CURRENT>ZCL_DEMO======================CM001</INCLUDE_CURRENT><LINE_CURRENT>10</LINE_CURRENT></STPDA_DEBUGGEE></DATA></asx:values></asx:abap>',
+        );
+      }
+      if (url === '/sap/bc/adt/debugger/stack') {
+        stackReads++;
+        return respond(stackBody ? stackBody() : stack());
+      }
+      if (url === '/sap/bc/adt/debugger' && params?.method === 'attach') {
+        return respond(stepResult(false, 'BP1'));
+      }
+      if (url === '/sap/bc/adt/debugger') {
+        const parents = [
+          ...String(data).matchAll(/<PARENT_ID>([^<]+)<\/PARENT_ID>/g),
+        ].map((match) => match[1]);
+        childRequests.push(parents);
+        return respond(
+          `<asx:abap xmlns:asx="http://www.sap.com/abapxml" version="1.0"><asx:values><DATA><HIERARCHIES>${parents.map((id) => children[id] ?? '').join('')}</HIERARCHIES><VARIABLES>${variables()}</VARIABLES></DATA></asx:values></asx:abap>`,
+        );
+      }
+      if (url === '/sap/bc/adt/debugger/batch') {
+        const [, method, uri] =
+          /method=(\w+)(?:&uri=(\S+))? HTTP/.exec(String(data)) ?? [];
+        steps.push(uri ? `${method} ${decodeURIComponent(uri)}` : method);
+        if (method === 'stepRunToLine') {
+          line = Number(/#start=(\d+)/.exec(decodeURIComponent(uri))?.[1]);
+        } else if (
+          method === 'stepContinue' ||
+          method === 'terminateDebuggee'
+        ) {
+          line = Number.POSITIVE_INFINITY;
+        } else {
+          line += 1;
+        }
+        const ended = line > 14;
+        const part = (body: string, status = '200 OK') =>
+          `--resp\r\nContent-Type: application/http\r\n\r\nHTTP/1.1 ${status}\r\ncontent-type: application/xml\r\n\r\n${body}\r\n`;
+        const stackPart = options.failStackPart
+          ? part('', '500 Internal Server Error')
+          : part(ended ? '' : stack());
+        return respond(`${part(stepResult(ended))}${stackPart}--resp--\r\n`, {
+          'content-type': 'multipart/mixed; boundary=resp',
+        });
+      }
+      if (url === SOURCE_URI) {
+        sourceReads++;
+        return respond(
+          Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\r\n'),
+        );
+      }
+      throw new Error(`Unexpected request: ${url}`);
+    },
+  };
+
+  return {
+    connection: connection as unknown as IAbapConnection,
+    sessionTypes,
+    steps,
+    childRequests,
+    get sourceReads() {
+      return sourceReads;
+    },
+    get stackReads() {
+      return stackReads;
+    },
+    /** Answer later stack reads with `body` instead of the stack. */
+    answerStackWith(body: string) {
+      stackBody = () => body;
+    },
+  };
+}
+
+async function attached(
+  system: ReturnType<typeof simulatedDebuggee>,
+  variableDepth?: number,
+) {
+  const session = new DebugSession(system.connection, undefined, {
+    user: 'DEVELOPER',
+    variableDepth,
+  });
+  const debuggee = await session.listen();
+  if (!debuggee) throw new Error('no debuggee');
+  await session.attach(debuggee);
+  return session;
+}
+
+describe('DebugSession', () => {
+  it('attaches to the debuggee a listener returned and reads the stop', async () => {
+    const system = simulatedDebuggee();
+    const session = new DebugSession(system.connection, undefined, {
+      user: 'DEVELOPER',
+    });
+
+    const debuggee = await session.listen();
+    expect(debuggee).toEqual({
+      id: 'DBG-1',
+      user: 'DEVELOPER',
+      program: 'ZCL_DEMO======================CP',
+      include: 'ZCL_DEMO======================CM001',
+      line: 10,
+    });
+
+    const snapshot = await session.attach(debuggee as { id: string });
+
+    expect(session.state).toBe('attached');
+    expect(system.sessionTypes).toEqual(['stateful']);
+    expect(snapshot?.frames.map((frame) => frame.position)).toEqual([2, 1]);
+    expect(snapshot?.statement).toEqual({
+      program: 'ZCL_DEMO======================CP',
+      include: 'ZCL_DEMO======================CM001',
+      line: 10,
+      uri: `${SOURCE_URI}#start=10,4`,
+      source: 'line 10',
+    });
+    expect(snapshot?.reachedBreakpoints).toEqual(['BP1']);
+    expect(system.childRequests).toEqual([['@ROOT'], ['@LOCALS']]);
+    const [locals] = snapshot?.variables ?? [];
+    expect(locals).toMatchObject({ id: '@LOCALS', expandable: true });
+    expect(locals.children?.map((node) => node.name)).toEqual([
+      'LV_COUNT',
+      'LS_ROW',
+      'LT_ROWS',
+    ]);
+    expect(locals.children?.[2]).toMatchObject({
+      metaType: 'table',
+      tableLines: 3,
+      expandable: true,
+    });
+    expect(session.valueOf('lv_count')).toBe('0');
+  });
+
+  it('expands structures to the configured depth but never tables', async () => {
+    const system = simulatedDebuggee();
+    const session = await attached(system, 3);
+
+    expect(system.childRequests).toEqual([['@ROOT'], ['@LOCALS'], ['LS_ROW']]);
+    expect(session.valueOf('LS_ROW-ID')).toBe('42');
+    expect(await session.getVariables('LT_ROWS')).toEqual([
+      { id: 'LT_ROWS[1]', name: 'LT_ROWS[1]', expandable: true },
+    ]);
+  });
+
+  it('steps, runs to a line of the current include, and steps until a condition', async () => {
+    const system = simulatedDebuggee();
+    const session = await attached(system);
+
+    expect((await session.stepOver())?.statement.line).toBe(11);
+    expect((await session.runToLine(13))?.statement.source).toBe('line 13');
+    expect(session.valueOf('LV_COUNT')).toBe('3');
+
+    const reached = await session.stepUntil(
+      () => session.valueOf('LV_COUNT') === '4',
+    );
+
+    expect(reached?.statement.line).toBe(14);
+    expect(system.steps).toEqual([
+      'stepOver',
+      `stepRunToLine ${SOURCE_URI}#start=13`,
+      'stepOver',
+    ]);
+    expect(system.sourceReads).toBe(1);
+  });
+
+  it('ends the session when the debuggee runs to its end', async () => {
+    const system = simulatedDebuggee();
+    const session = await attached(system);
+
+    expect(await session.continue()).toBeNull();
+
+    expect(session.state).toBe('ended');
+    expect(session.current).toBeNull();
+    expect(system.sessionTypes).toEqual(['stateful', 'stateless']);
+    await expect(session.stepInto()).rejects.toMatchObject({
+      code: 'DEBUG_NOT_ATTACHED',
+    });
+  });
+
+  it('reads the stack again when its part of the step batch fails, and never takes that for the end', async () => {
+    const system = simulatedDebuggee({ failStackPart: true });
+    const session = await attached(system);
+    const readsAfterAttach = system.stackReads;
+
+    expect((await session.stepOver())?.statement.line).toBe(11);
+    expect(system.stackReads).toBe(readsAfterAttach + 1);
+
+    system.answerStackWith('');
+    await expect(session.stepOver()).rejects.toMatchObject({
+      code: 'DEBUG_UNREADABLE_RESPONSE',
+    });
+    expect(session.state).toBe('attached');
+    expect(session.current?.statement.line).toBe(11);
+    expect(system.sessionTypes).toEqual(['stateful']);
+  });
+
+  it('gives up stepping after maxSteps with DEBUG_STEP_LIMIT', async () => {
+    const system = simulatedDebuggee();
+    const session = await attached(system);
+
+    await expect(
+      session.stepUntil(() => false, { step: 'stepInto', maxSteps: 2 }),
+    ).rejects.toMatchObject({ code: 'DEBUG_STEP_LIMIT' });
+    expect(system.steps).toEqual(['stepInto', 'stepInto']);
+    expect(session.state).toBe('attached');
+  });
+
+  it('resolves listen() with null when no debuggee arrived', async () => {
+    const session = new DebugSession(
+      simulatedDebuggee({ noDebuggee: true }).connection,
+      undefined,
+      { user: 'DEVELOPER' },
+    );
+
+    expect(await session.listen({ timeoutSeconds: 1 })).toBeNull();
+    expect(session.state).toBe('idle');
+  });
+});
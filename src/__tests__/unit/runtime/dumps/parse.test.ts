@@ -0,0 +1,182 @@
+/**
+ * Typed runtime dumps and their grouping.
+ *
+ * Pinned against the shape of an ST22 `formatted` page: chapter texts cut at
+ * the lines the default view's index gives, the termination point, source
+ * extract and call stack read from their chapters — and, for triage, dumps
+ * grouped by signature, split where a quiet spell exceeds the window.
+ */
+
+import {
+  dedupeRuntimeDumps,
+  groupRuntimeDumps,
+  runtimeDumpSignature,
+} from '../../../../runtime/dumps/group';
+import { parseRuntimeDump } from '../../../../runtime/dumps/parse';
+
+const DEFAULT_VIEW = `<dump:dump xmlns:dump="http://www.sap.com/adt/categories/dump" xmlns:atom="http://www.w3.org/2005/Atom" error="COMPUTE_INT_ZERODIVIDE" exception="CX_SY_ZERODIVIDE" terminatedProgram="ZDIVIDE" author="DEVELOPER" datetime="2026-10-01T08:15:00Z">
+  <atom:link href="/sap/bc/adt/programs/includes/zdivide_f01/source/main#start=12" rel="http://www.sap.com/adt/relations/runtime/dump/termination"/>
+  <dump:chapters>
+    <dump:chapter name="kap0" title="Short Text" line="1" chapterOrder="1"/>
+    <dump:chapter name="kap1" title="What happened?" line="4" chapterOrder="2"/>
+    <dump:chapter name="kap7" title="Information on where terminated" line="7" chapterOrder="3"/>
+    <dump:chapter name="kap8" title="Source Code Extract" line="12" chapterOrder="4"/>
+    <dump:chapter name="kap10" title="Active Calls/Events" line="18" chapterOrder="5"/>
+  </dump:chapters>
+</dump:dump>`;
+
+const FORMATTED_VIEW = [
+  'Short Text',
+  '    Division by 0 (type I or P)',
+  '',
+  'What happened?',
+  '    Error in the ABAP Application Program',
+  '',
+  'Information on where terminated',
+  '    The termination occurred in ABAP program "ZDIVIDE" - in "START-OF-SELECTION".',
+  '    In the source code, the termination point is in line 12 of (Include)',
+  '    program "ZDIVIDE_F01".',
+  '',
+  'Source Code Extract',
+  'Line  SourceCde',
+  '    11|  lv_a = 1.',
+  '>>>>>    12|  lv_b = lv_a / 0.',
+  '    13|  WRITE lv_b.',
+  '',
+  'Active Calls/Events',
+  'No.   Ty.          Program                             Include                             Line',
+  '      Name',
+  '    2 FORM         ZDIVIDE                             ZDIVIDE_F01                            12',
+  '      DIVIDE',
+  '    1 EVENT        ZDIVIDE                             ZDIVIDE                                 3',
+  '      START-OF-SELECTION',
+].join('\r\n');
+
+describe('parseRuntimeDump', () => {
+  it('reads the header, chapter texts, termination point, extract and call stack', () => {
+    const dump = parseRuntimeDump(DEFAULT_VIEW, FORMATTED_VIEW);
+
+    expect(dump).toMatchObject({
+      error: 'COMPUTE_INT_ZERODIVIDE',
+      exception: 'CX_SY_ZERODIVIDE',
+      program: 'ZDIVIDE',
+      include: 'ZDIVIDE_F01',
+      line: 12,
+      user: 'DEVELOPER',
+      datetime: '2026-10-01T08:15:00Z',
+      terminationUri:
+        '/sap/bc/adt/programs/includes/zdivide_f01/source/main#start=12',
+      shortText: 'Division by 0 (type I or P)',
+    });
+    expect(dump?.chapters[1]).toEqual({
+      name: 'kap1',
+      title: 'What happened?',
+      category: undefined,
+      line: 4,
+      text: 'Error in the ABAP Application Program',
+    });
+    expect(dump?.sourceExcerpt).toEqual([
+      { line: 11, text: '  lv_a = 1.', current: false },
+      { line: 12, text: '  lv_b = lv_a / 0.', current: true },
+      { line: 13, text: '  WRITE lv_b.', current: false },
+    ]);
+    expect(dump?.callStack).toEqual([
+      {
+        level: 2,
+        type: 'FORM',
+        program: 'ZDIVIDE',
+        include: 'ZDIVIDE_F01',
+        line: 12,
+        name: 'DIVIDE',
+      },
+      {
+        level: 1,
+        type: 'EVENT',
+        program: 'ZDIVIDE',
+        include: 'ZDIVIDE',
+        line: 3,
+        name: 'START-OF-SELECTION',
+      },
+    ]);
+  });
+
+  it('keeps the header and an empty stack without the formatted view', () => {
+    const dump = parseRuntimeDump(DEFAULT_VIEW);
+
+    expect(dump).toMatchObject({ error: 'COMPUTE_INT_ZERODIVIDE' });
+    expect(dump?.include).toBeUndefined();
+    expect(dump?.callStack).toEqual([]);
+    expect(dump?.chapters.every((chapter) => chapter.text === undefined)).toBe(
+      true,
+    );
+    expect(parseRuntimeDump('<html>not a dump</html>')).toBeNull();
+  });
+});
+
+describe('groupRuntimeDumps', () => {
+  const dump = (id: string, datetime: string, user = 'DEVELOPER') => ({
+    id,
+    error: 'COMPUTE_INT_ZERODIVIDE',
+    program: 'ZDIVIDE',
+    include: 'ZDIVIDE_F01',
+    line: 12,
+    user,
+    datetime,
+  });
+
+  it('clusters by signature, splitting where the gap exceeds the window', () => {
+    const other = { ...dump('X1', '20261001090000'), error: 'RAISE_EXCEPTION' };
+    const groups = groupRuntimeDumps(
+      [
+        dump('D3', '2026-10-01T10:00:00Z', 'TESTER'),
+        dump('D1', '20261001080000'),
+        other,
+        dump('D2', '2026-10-01T09:00:00Z'),
+        dump('D4', '2026-10-03T08:00:00Z'),
+      ],
+      { windowMs: 6 * 60 * 60 * 1000 },
+    );
+
+    expect(
+      groups.map((group) => ({
+        ids: group.dumps.map(({ id }) => id),
+        first: group.first,
+        last: group.last,
+        users: group.users,
+      })),
+    ).toEqual([
+      {
+        ids: ['D1', 'D2', 'D3'],
+        first: '20261001080000',
+        last: '2026-10-01T10:00:00Z',
+        users: ['DEVELOPER', 'TESTER'],
+      },
+      {
+        ids: ['D4'],
+        first: '2026-10-03T08:00:00Z',
+        last: '2026-10-03T08:00:00Z',
+        users: ['DEVELOPER'],
+      },
+      {
+        ids: ['X1'],
+        first: '20261001090000',
+        last: '20261001090000',
+        users: ['DEVELOPER'],
+      },
+    ]);
+    expect(groups[0].signature).toBe(
+      'COMPUTE_INT_ZERODIVIDE||ZDIVIDE|ZDIVIDE_F01|12',
+    );
+  });
+
+  it('dedupes to the newest dump per signature without a window', () => {
+    const latest = dedupeRuntimeDumps([
+      dump('D1', '2026-10-01T08:00:00Z'),
+      dump('D2', '2026-10-05T08:00:00Z'),
+      dump('D3', '2026-10-02T08:00:00Z'),
+    ]);
+
+    expect(latest.map(({ id }) => id)).toEqual(['D2']);
+    expect(runtimeDumpSignature({})).toBe('||||');
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Memory snapshot deltas: typed overviews and references, and the analyzer
+ * that puts the delta ranking list and references together.
+ *
+ * The fixture is a batch job whose cache table grew by 4 MB and whose buffer
+ * object shrank: only the table is reported, with the chain from the static
+ * attribute that holds it, and only its references are read.
+ */
+
+import type { IAbapConnection } from '@mcp-abap-adt/interfaces';
+import { analyzeSnapshotDelta } from '../../../../runtime/memory/delta';
+import {
+  parseSnapshotObjects,
+  parseSnapshotOverview,
+  parseSnapshotReferences,
+  snapshotReferencePaths,
+  snapshotSizeMetric,
+} from '../../../../runtime/memory/parse';
+
+const NS = 'xmlns:mem="http://www.sap.com/adt/runtime/memory"';
+
+const OVERVIEW = `<mem:overview ${NS} user="BATCH"><mem:total boundMemory="5242880" objects="12"/><mem:note>grew</mem:note></mem:overview>`;
+
+const RANKING = `<mem:rankingList ${NS}><mem:object objectKey="K1" name="LO_BUFFER" type="OBJECT" referencedMemory="9000" boundMemory="-2048"/><mem:object objectKey="K2" name="GT_CACHE" type="TABLE" referencedMemory="100" boundMemory="4194304"/><mem:object objectKey="K3" name="LV_FLAG" type="ELEMENTARY" boundMemory="0"/></mem:rankingList>`;
+
+const REFERENCES = `<mem:references ${NS}><mem:object objectKey="R1" name="LO_REPOSITORY" type="OBJECT"><mem:object objectKey="R2" name="\\CLASS=ZCL_JOB\\ATTRIBUTE=GO_INSTANCE" type="OBJECT"/><mem:object objectKey="R3" name="LO_RUNNER" type="OBJECT"><mem:object objectKey="R1" name="LO_REPOSITORY" type="OBJECT"/></mem:object></mem:object></mem:references>`;
+
+describe('memory snapshot parsing', () => {
+  it('reads overview values wherever they sit', () => {
+    expect(parseSnapshotOverview(OVERVIEW)).toEqual({
+      fields: {
+        user: 'BATCH',
+        boundMemory: '5242880',
+        objects: '12',
+        note: 'grew',
+      },
+      values: { boundMemory: 5242880, objects: 12 },
+    });
+    expect(parseSnapshotOverview('')).toBeNull();
+  });
+
+  it('prefers a bound size as the default metric', () => {
+    expect(snapshotSizeMetric(parseSnapshotObjects(RANKING) ?? [])).toBe(
+      'boundMemory',
+    );
+    expect(snapshotSizeMetric([])).toBeUndefined();
+  });
+
+  it('turns nested references into holder-first paths, ending cycles', () => {
+    const references = parseSnapshotReferences(REFERENCES) ?? [];
+
+    expect(references).toHaveLength(1);
+    expect(references[0].referencedBy.map(({ key }) => key)).toEqual([
+      'R2',
+      'R3',
+    ]);
+    expect(
+      snapshotReferencePaths(references).map((path) =>
+        path.map(({ key }) => key),
+      ),
+    ).toEqual([
+      ['R2', 'R1'],
+      ['R3', 'R1'],
+    ]);
+  });
+});
+
+describe('analyzeSnapshotDelta', () => {
+  function createConnection() {
+    return {
+      makeAdtRequest: jest.fn(async ({ url }: { url: string }) => ({
+        status: 200,
+        data: url.includes('/overview')
+          ? OVERVIEW
+          : url.includes('/rankinglist')
+            ? RANKING
+            : REFERENCES,
+      })),
+    } as unknown as IAbapConnection;
+  }
+
+  it('reports the objects that grew, with their reference paths', async () => {
+    const connection = createConnection();
+
+    const analysis = await analyzeSnapshotDelta(connection, '/s1', '/s2', {
+      rankingList: { maxNumberOfObjects: 50 },
+    });
+
+    expect(analysis.metric).toBe('boundMemory');
+    expect(analysis.overview.values.objects).toBe(12);
+    expect(
+      analysis.growing.map(({ object, growth, paths }) => ({
+        name: object.name,
+        growth,
+        paths: paths.map((path) => path.map(({ name }) => name)),
+      })),
+    ).toEqual([
+      {
+        name: 'GT_CACHE',
+        growth: 4194304,
+        paths: [
+          ['\\CLASS=ZCL_JOB\\ATTRIBUTE=GO_INSTANCE', 'LO_REPOSITORY'],
+          ['LO_RUNNER', 'LO_REPOSITORY'],
+        ],
+      },
+    ]);
+    const urls = (connection.makeAdtRequest as jest.Mock).mock.calls.map(
+      ([options]) => options.url,
+    );
+    expect(urls).toEqual([
+      '/sap/bc/adt/runtime/memory/snapdelta/overview?uri1=%2Fs1&uri2=%2Fs2',
+      '/sap/bc/adt/runtime/memory/snapdelta/rankinglist?uri1=%2Fs1&uri2=%2Fs2&maxNumberOfObjects=50',
+      '/sap/bc/adt/runtime/memory/snapdelta/references?uri1=%2Fs1&uri2=%2Fs2&objectKey=K2',
+    ]);
+  });
+
+  it('sorts the ranking by a given metric and applies the filter', async () => {
+    const connection = createConnection();
+
+    const analysis = await analyzeSnapshotDelta(connection, '/s1', '/s2', {
+      metric: 'referencedMemory',
+      filter: ({ type }) => type === 'OBJECT',
+      top: 1,
+    });
+
+    expect(analysis.growing.map(({ object }) => object.key)).toEqual(['K1']);
+    expect(
+      (connection.makeAdtRequest as jest.Mock).mock.calls[1][0].url,
+    ).toContain('sortAscending=false&sortByColumnName=referencedMemory');
+  });
+
+  it('fails with MEMORY_SNAPSHOT_UNREADABLE on a body that is not XML', async () => {
+    const connection = {
+      makeAdtRequest: jest.fn().mockResolvedValue({ status: 200, data: '' }),
+    } as unknown as IAbapConnection;
+
+    await expect(
+      analyzeSnapshotDelta(connection, '/s1', '/s2'),
+    ).rejects.toMatchObject({ code: 'MEMORY_SNAPSHOT_UNREADABLE' });
+  });
+});
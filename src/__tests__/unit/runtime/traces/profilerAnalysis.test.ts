@@ -0,0 +1,145 @@
+/**
+ * Typed profiler traces: reading the three views, aggregating them, and the
+ * flame-graph exports.
+ *
+ * The call tree below is run → (select, loop → format), with times chosen so
+ * each node's own time is distinct: the exports must give every path its
+ * gross time less its children's, and the stacks must add up to the root.
+ */
+
+import {
+  aggregateProfilerByProgram,
+  aggregateProfilerByTable,
+  toCollapsedStacks,
+  topProfilerEntriesByNetTime,
+  toSpeedscope,
+} from '../../../../runtime/traces/profilerAnalysis';
+import {
+  buildProfilerCallTree,
+  parseProfilerDbAccesses,
+  parseProfilerHitList,
+  parseProfilerStatements,
+} from '../../../../runtime/traces/profilerParse';
+
+const NS = 'xmlns:trc="http://www.sap.com/adt/runtime/traces/abaptraces"';
+
+const hitEntry = (
+  index: number,
+  description: string,
+  called: string,
+  net: number,
+  hits = 1,
+) =>
+  `<trc:entry index="${index}" hitCount="${hits}" description="${description}"><trc:callingProgram name="ZREPORT" type="PROG"/><trc:calledProgram name="${called}"/><trc:grossTime time="${net * 2}" percentage="1.5"/><trc:traceEventNetTime time="${net}" percentage="0.5"/></trc:entry>`;
+
+const HIT_LIST = `<trc:hitlist ${NS}>${hitEntry(1, 'Call M. ZCL_A=&gt;RUN', 'ZCL_A', 300)}${hitEntry(2, 'Call M. ZCL_B=&gt;FORMAT', 'ZCL_B', 900, 40)}${hitEntry(3, 'Call M. ZCL_A=&gt;PREPARE', 'ZCL_A', 500)}</trc:hitlist>`;
+
+const statement = (
+  id: number,
+  callerId: number,
+  description: string,
+  gross: number,
+  details = false,
+) =>
+  `<trc:statement id="${id}" callerId="${callerId}" callLevel="0" hitCount="1" description="${description}" hasDetailSubnodes="${details}"><trc:callingProgram name="ZREPORT"/><trc:grossTime time="${gross}"/><trc:traceEventNetTime time="1"/></trc:statement>`;
+
+const STATEMENTS = `<trc:statements ${NS}>${statement(1, 0, 'run', 1000)}${statement(2, 1, 'select', 300)}${statement(3, 1, 'loop', 600, true)}${statement(4, 3, 'format; pad', 450)}</trc:statements>`;
+
+const DB_ACCESSES = `<trc:dbAccesses ${NS}><trc:dbAccess index="0" tableName="MARA" statement="SELECT" type="OpenSQL" totalCount="10" bufferedCount="0"><trc:accessTime total="700"/></trc:dbAccess><trc:dbAccess index="1" tableName="T100" statement="SELECT SINGLE" type="OpenSQL" totalCount="5" bufferedCount="5"><trc:accessTime total="20"/></trc:dbAccess><trc:dbAccess index="2" tableName="MARA" statement="UPDATE" type="OpenSQL" totalCount="1" bufferedCount="0"><trc:accessTime total="100"/></trc:dbAccess><trc:tables><trc:table name="MARA"/></trc:tables></trc:dbAccesses>`;
+
+describe('profiler trace analysis', () => {
+  it('reads hit list entries and ranks them by net time and by program', () => {
+    const entries = parseProfilerHitList(HIT_LIST) ?? [];
+
+    expect(entries[1]).toEqual({
+      index: 2,
+      description: 'Call M. ZCL_B=>FORMAT',
+      hitCount: 40,
+      recursionDepth: undefined,
+      callingProgram: {
+        name: 'ZREPORT',
+        type: 'PROG',
+        uri: undefined,
+        packageName: undefined,
+        context: undefined,
+      },
+      calledProgram: expect.objectContaining({ name: 'ZCL_B' }),
+      grossTime: { time: 1800, percentage: 1.5 },
+      netTime: { time: 900, percentage: 0.5 },
+      proceduralNetTime: undefined,
+    });
+    expect(
+      topProfilerEntriesByNetTime(entries, 2).map(({ index }) => index),
+    ).toEqual([2, 3]);
+    expect(aggregateProfilerByProgram(entries)).toEqual([
+      { program: 'ZCL_B', hitCount: 40, netTime: 900, entries: 1 },
+      { program: 'ZCL_A', hitCount: 2, netTime: 800, entries: 2 },
+    ]);
+  });
+
+  it('totals DB accesses per table', () => {
+    const accesses = parseProfilerDbAccesses(DB_ACCESSES) ?? [];
+
+    expect(accesses).toHaveLength(3);
+    expect(aggregateProfilerByTable(accesses)).toEqual([
+      {
+        tableName: 'MARA',
+        count: 11,
+        bufferedCount: 0,
+        time: 800,
+        statements: 2,
+      },
+      {
+        tableName: 'T100',
+        count: 5,
+        bufferedCount: 5,
+        time: 20,
+        statements: 1,
+      },
+    ]);
+  });
+
+  it('nests statements and exports collapsed stacks of their own time', () => {
+    const tree = buildProfilerCallTree(
+      parseProfilerStatements(STATEMENTS) ?? [],
+    );
+
+    expect(tree).toHaveLength(1);
+    expect(tree[0].children.map(({ id }) => id)).toEqual([2, 3]);
+    expect(tree[0].children[1].hasDetailSubnodes).toBe(true);
+    expect(toCollapsedStacks(tree).split('\n')).toEqual([
+      'run 100',
+      'run;select 300',
+      'run;loop 150',
+      'run;loop;format, pad 450',
+    ]);
+  });
+
+  it('exports a speedscope file whose weights add up to the root', () => {
+    const tree = buildProfilerCallTree(
+      parseProfilerStatements(STATEMENTS) ?? [],
+    );
+
+    const file = toSpeedscope(tree, 'ZREPORT run');
+
+    expect(file.shared.frames).toEqual([
+      { name: 'run', file: 'ZREPORT' },
+      { name: 'select', file: 'ZREPORT' },
+      { name: 'loop', file: 'ZREPORT' },
+      { name: 'format; pad', file: 'ZREPORT' },
+    ]);
+    expect(file.profiles[0]).toMatchObject({
+      type: 'sampled',
+      unit: 'microseconds',
+      endValue: 1000,
+      samples: [[0], [0, 1], [0, 2], [0, 2, 3]],
+      weights: [100, 300, 150, 450],
+    });
+  });
+
+  it('returns null for bodies that are not XML', () => {
+    expect(parseProfilerHitList('')).toBeNull();
+    expect(parseProfilerStatements('not xml <')).toBeNull();
+    expect(parseProfilerDbAccesses(undefined)).toBeNull();
+  });
+});
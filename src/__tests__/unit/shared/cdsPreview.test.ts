@@ -0,0 +1,263 @@
+/**
+ * CDS data preview: the entity read from its DDL source, the statement with
+ * parameters, and association navigation from a row.
+ *
+ * The fixture is a sales order root view entity with a key date parameter,
+ * a customer association and an item composition; the item's association to
+ * parent carries the condition the composition is followed with.
+ */
+
+import type {
+  IAbapConnection,
+  IAbapRequestOptions,
+  IAdtResponse,
+} from '@mcp-abap-adt/interfaces';
+import { AdtDdl } from '../../../core/ddl/AdtDdl';
+import { AdtDdlLegacy } from '../../../core/ddl/AdtDdlLegacy';
+import {
+  buildCdsPreviewSql,
+  parseCdsEntity,
+} from '../../../core/shared/cdsPreview';
+import { createLibraryLogger } from '../../helpers/testLogger';
+
+const ORDER = `@AccessControl.authorizationCheck: #NOT_REQUIRED
+// association _Ghost to ZI_GHOST as _Ghost on 1 = 1
+define root view entity ZI_SalesOrder
+  with parameters
+    @Environment.systemField: #SYSTEM_DATE
+    p_key_date : abap.dats,
+    p_amount   : abap.dec(15,2)
+  as select from zsalesorder as so
+  association [0..1] to ZI_Customer as _Customer
+    on $projection.CustomerId = _Customer.CustomerId
+    and _Customer.Kind = 'B'
+  association [0..*] to ZI_Note as _Note on _Note.Text like so.text
+  composition [0..*] of ZI_SalesOrderItem as _Item
+{
+  key so.order_id as OrderId,
+      so.customer_id as CustomerId,
+      _Customer,
+      _Item
+}`;
+
+const ITEM = `define view entity ZI_SalesOrderItem
+  as select from zsalesorderitem
+  association to parent ZI_SalesOrder as _Order
+    on $projection.OrderId = _Order.OrderId
+{
+  key order_id as OrderId,
+  key item_no  as ItemNo,
+      _Order
+}`;
+
+const ROWS = `<?xml version="1.0" encoding="utf-8"?><dataPreview:tableData xmlns:dataPreview="http://www.sap.com/adt/dataPreview"><dataPreview:columns><dataPreview:metadata dataPreview:name="ORDERID" dataPreview:type="C" dataPreview:keyAttribute="true"/><dataPreview:dataSet><dataPreview:data>0042</dataPreview:data></dataPreview:dataSet></dataPreview:columns></dataPreview:tableData>`;
+
+const response = (data: string, status = 200) =>
+  ({ data, status, statusText: 'OK', headers: {} }) as IAdtResponse;
+
+describe('parseCdsEntity', () => {
+  it('reads the name, parameters and associations from the header', () => {
+    const entity = parseCdsEntity(ORDER);
+
+    expect(entity.name).toBe('ZI_SalesOrder');
+    expect(entity.parameters).toEqual([
+      { name: 'p_key_date', type: 'abap.dats', systemField: '#SYSTEM_DATE' },
+      { name: 'p_amount', type: 'abap.dec(15,2)', systemField: undefined },
+    ]);
+    expect(entity.associations.map(({ name }) => name)).toEqual([
+      '_Customer',
+      '_Note',
+      '_Item',
+    ]);
+    expect(entity.associations[0]).toMatchObject({
+      target: 'ZI_Customer',
+      cardinality: '[0..1]',
+      composition: false,
+      bindings: [
+        { target: 'CustomerId', source: 'CustomerId' },
+        { target: 'Kind', value: 'B' },
+      ],
+    });
+    // LIKE is not an equality: the condition is kept, without bindings.
+    expect(entity.associations[1].bindings).toBeUndefined();
+    expect(entity.associations[2]).toMatchObject({
+      composition: true,
+      condition: undefined,
+    });
+    expect(parseCdsEntity(ITEM).associations[0]).toMatchObject({
+      toParent: true,
+      bindings: [{ target: 'OrderId', source: 'OrderId' }],
+    });
+  });
+
+  it('refuses a source that defines no entity', () => {
+    expect(() =>
+      parseCdsEntity("@EndUserText.label: 'x'\ndefine role ZI_X { }"),
+    ).toThrow(expect.objectContaining({ code: 'CDS_PREVIEW_NOT_AN_ENTITY' }));
+  });
+});
+
+describe('buildCdsPreviewSql', () => {
+  const entity = parseCdsEntity(ORDER);
+
+  it('passes parameters in the FROM clause, leaving system fields to default', () => {
+    expect(
+      buildCdsPreviewSql(entity, {
+        parameters: { P_AMOUNT: 100.5 },
+        columns: ['OrderId'],
+        where: "CustomerId = 'C1'",
+        order_by: ['OrderId DESCENDING'],
+      }),
+    ).toBe(
+      "SELECT OrderId FROM ZI_SalesOrder( p_amount = 100.5 ) WHERE CustomerId = 'C1' ORDER BY OrderId DESCENDING",
+    );
+  });
+
+  it('refuses unknown and missing parameters', () => {
+    expect(() =>
+      buildCdsPreviewSql(entity, { parameters: { p_amount: 1, p_lang: 'E' } }),
+    ).toThrow(
+      expect.objectContaining({ code: 'CDS_PREVIEW_UNKNOWN_PARAMETER' }),
+    );
+    expect(() => buildCdsPreviewSql(entity)).toThrow(
+      expect.objectContaining({ code: 'CDS_PREVIEW_MISSING_PARAMETER' }),
+    );
+  });
+});
+
+describe('AdtDdl CDS preview', () => {
+  const fakeServer = (sources: Record<string, string>) => {
+    const calls: IAbapRequestOptions[] = [];
+    const connection = {
+      makeAdtRequest: async (request: IAbapRequestOptions) => {
+        calls.push(request);
+        if (request.url.startsWith('/sap/bc/adt/datapreview/')) {
+          return response(ROWS);
+        }
+        const name = /sources\/([^/?]+)/.exec(request.url)?.[1] ?? '';
+        const source = sources[decodeURIComponent(name).toUpperCase()];
+        if (source === undefined) {
+          throw Object.assign(new Error('Not found'), {
+            response: { status: 404 },
+          });
+        }
+        return response(source);
+      },
+      setSessionType: () => undefined,
+    } as unknown as IAbapConnection;
+    return { calls, connection };
+  };
+
+  it('previews typed rows and returns the statement sent', async () => {
+    const { calls, connection } = fakeServer({ ZI_SALESORDER: ORDER });
+    const ddl = new AdtDdl(connection, createLibraryLogger());
+
+    const result = await ddl.preview(
+      { ddlName: 'zi_salesorder' },
+      { parameters: { p_amount: 10 }, max_rows: 5 },
+    );
+
+    const query = calls[calls.length - 1];
+    expect(query.url).toBe(
+      '/sap/bc/adt/datapreview/ddic?rowNumber=5&ddicEntityName=ZI_SALESORDER',
+    );
+    expect(query.data).toBe('SELECT * FROM ZI_SalesOrder( p_amount = 10 )');
+    expect(result).toMatchObject({
+      entity: 'ZI_SalesOrder',
+      sql: 'SELECT * FROM ZI_SalesOrder( p_amount = 10 )',
+      rows: [{ ORDERID: '0042' }],
+    });
+  });
+
+  it('follows an association and a composition from a row', async () => {
+    const { connection } = fakeServer({
+      ZI_SALESORDER: ORDER,
+      ZI_SALESORDERITEM: ITEM,
+      ZI_CUSTOMER:
+        'define view entity ZI_Customer as select from zcust { key id as CustomerId }',
+    });
+    const ddl = new AdtDdl(connection, createLibraryLogger());
+    const row = { ORDERID: '0042', CUSTOMERID: "O'Neil" };
+
+    const customer = await ddl.followAssociation(
+      { ddlName: 'ZI_SALESORDER' },
+      '_customer',
+      row,
+    );
+    const items = await ddl.followAssociation(
+      { ddlName: 'ZI_SALESORDER' },
+      '_Item',
+      row,
+      { where: "ItemNo > '10'" },
+    );
+
+    expect(customer.sql).toBe(
+      "SELECT * FROM ZI_Customer WHERE ( CustomerId = 'O''Neil' AND Kind = 'B' )",
+    );
+    expect(items.sql).toBe(
+      "SELECT * FROM ZI_SalesOrderItem WHERE ( ItemNo > '10' ) AND ( OrderId = '0042' )",
+    );
+  });
+
+  it('binds a numeric element as a number, past the digits of a double', async () => {
+    const { connection } = fakeServer({
+      ZI_SALESORDER: ORDER,
+      ZI_CUSTOMER:
+        'define view entity ZI_Customer as select from zcust { key id as CustomerId }',
+    });
+    const ddl = new AdtDdl(connection, createLibraryLogger());
+    // Kept as text in the row: a double would round it.
+    const row = { ORDERID: '0042', CUSTOMERID: '12345678901234567890' };
+    const columns = [
+      { name: 'ORDERID', type: 'C', key: true },
+      { name: 'CUSTOMERID', type: 'P', ddicType: 'DEC', key: false },
+    ];
+
+    const customer = await ddl.followAssociation(
+      { ddlName: 'ZI_SALESORDER' },
+      '_Customer',
+      row,
+      undefined,
+      columns,
+    );
+
+    expect(customer.sql).toBe(
+      "SELECT * FROM ZI_Customer WHERE ( CustomerId = 12345678901234567890 AND Kind = 'B' )",
+    );
+  });
+
+  it('refuses what it cannot follow, and a source that is not there', async () => {
+    const { calls, connection } = fakeServer({
+      ZI_SALESORDER: ORDER,
+      ZI_NOTE:
+        'define view entity ZI_Note as select from znote { key id as Text }',
+      ZI_SALESORDERITEM: ITEM,
+    });
+    const ddl = new AdtDdl(connection, createLibraryLogger());
+
+    await expect(
+      ddl.followAssociation({ ddlName: 'ZI_SALESORDER' }, '_Note', {}),
+    ).rejects.toMatchObject({ code: 'CDS_PREVIEW_UNSUPPORTED_ASSOCIATION' });
+    await expect(
+      ddl.followAssociation({ ddlName: 'ZI_SALESORDER' }, '_Item', {
+        CUSTOMERID: 'C1',
+      }),
+    ).rejects.toMatchObject({ code: 'CDS_PREVIEW_UNSUPPORTED_ASSOCIATION' });
+    await expect(
+      ddl.followAssociation({ ddlName: 'ZI_SALESORDER' }, '_Text', {}),
+    ).rejects.toMatchObject({ code: 'CDS_PREVIEW_UNKNOWN_ASSOCIATION' });
+    await expect(ddl.preview({ ddlName: 'ZI_MISSING' })).rejects.toMatchObject({
+      code: 'CDS_PREVIEW_NOT_FOUND',
+    });
+    expect(
+      calls.some(({ url }) => url.startsWith('/sap/bc/adt/datapreview/')),
+    ).toBe(false);
+  });
+
+  it('is not supported on legacy systems', async () => {
+    const { connection } = fakeServer({ ZI_SALESORDER: ORDER });
+    const ddl = new AdtDdlLegacy(connection, createLibraryLogger());
+
+    await expect(ddl.preview()).rejects.toThrow('/sap/bc/adt/datapreview/ddic');
+  });
+});
@@ -0,0 +1,338 @@
+/**
+ * Data preview: typed rows, the table query, paging and export.
+ *
+ * The response holds the result by column; rows are rebuilt from it with
+ * numbers typed and everything else — NUMC and dates included — kept as sent.
+ * Paging a table asks for the rows after the last key seen, the client column
+ * left out of the condition and a numeric key compared as the number the
+ * server sent; an ordered table or a freestyle query is paged by a growing
+ * first-n instead.
+ */
+
+import type {
+  IAbapConnection,
+  IAbapRequestOptions,
+  IAdtResponse,
+} from '@mcp-abap-adt/interfaces';
+import { AdtUtils } from '../../../core/shared/AdtUtils';
+import {
+  dataPreviewToCsv,
+  dataPreviewToJson,
+  dataPreviewToNdjson,
+  pageSqlQuery,
+  pageTableContents,
+  parseDataPreview,
+} from '../../../core/shared/dataPreview';
+import type {
+  IDataPreviewResult,
+  IGetTableContentsParams,
+} from '../../../core/shared/types';
+import { createLibraryLogger } from '../../helpers/testLogger';
+
+interface IColumnFixture {
+  name: string;
+  type: string;
+  colType: string;
+  key?: boolean;
+  values: string[];
+}
+
+const tableData = (columns: IColumnFixture[], totalRows?: number) =>
+  `<?xml version="1.0" encoding="utf-8"?><dataPreview:tableData xmlns:dataPreview="http://www.sap.com/adt/dataPreview">${
+    totalRows === undefined
+      ? ''
+      : `<dataPreview:totalRows>${totalRows}</dataPreview:totalRows>`
+  }<dataPreview:executedQueryString>SELECT * FROM ZORDERS</dataPreview:executedQueryString><dataPreview:queryExecutionTime>1.25</dataPreview:queryExecutionTime>${columns
+    .map(
+      (column) =>
+        `<dataPreview:columns><dataPreview:metadata dataPreview:name="${column.name}" dataPreview:type="${column.type}" dataPreview:colType="${column.colType}" dataPreview:keyAttribute="${column.key ?? false}" dataPreview:description="${column.name} text"/><dataPreview:dataSet>${column.values
+          .map((value) =>
+            value === ''
+              ? '<dataPreview:data/>'
+              : `<dataPreview:data>${value}</dataPreview:data>`,
+          )
+          .join('')}</dataPreview:dataSet></dataPreview:columns>`,
+    )
+    .join('')}</dataPreview:tableData>`;
+
+const ORDERS = (rows: number[]) =>
+  tableData(
+    [
+      {
+        name: 'MANDT',
+        type: 'C',
+        colType: 'CLNT',
+        key: true,
+        values: rows.map(() => '001'),
+      },
+      {
+        name: 'ORDER_ID',
+        type: 'N',
+        colType: 'NUMC',
+        key: true,
+        values: rows.map((row) => String(row).padStart(4, '0')),
+      },
+      {
+        name: 'AMOUNT',
+        type: 'P',
+        colType: 'CURR',
+        values: rows.map((row) => `${row}.50-`),
+      },
+      {
+        name: 'NOTE',
+        type: 'g',
+        colType: 'STRG',
+        values: rows.map((row) => (row === 2 ? 'say "hi", bye' : '')),
+      },
+    ],
+    3,
+  );
+
+const response = (data: string) =>
+  ({ data, status: 200, statusText: 'OK', headers: {} }) as IAdtResponse;
+
+describe('parseDataPreview', () => {
+  it('rebuilds rows from columns and types the values by column', () => {
+    const result = parseDataPreview(ORDERS([1, 2])) as IDataPreviewResult;
+
+    expect(result.columns[1]).toEqual({
+      name: 'ORDER_ID',
+      description: 'ORDER_ID text',
+      type: 'N',
+      ddicType: 'NUMC',
+      length: undefined,
+      decimals: undefined,
+      key: true,
+    });
+    expect(result.rows).toEqual([
+      { MANDT: '001', ORDER_ID: '0001', AMOUNT: -1.5, NOTE: '' },
+      { MANDT: '001', ORDER_ID: '0002', AMOUNT: -2.5, NOTE: 'say "hi", bye' },
+    ]);
+    expect(result).toMatchObject({
+      totalRows: 3,
+      executedQuery: 'SELECT * FROM ZORDERS',
+      executionTime: 1.25,
+    });
+  });
+
+  it('keeps numbers a double cannot hold exactly as text', () => {
+    const result = parseDataPreview(
+      tableData([
+        {
+          name: 'BIG',
+          type: 'P',
+          colType: 'DEC',
+          values: ['12345678901234567.89', '  42 '],
+        },
+      ]),
+    );
+
+    expect(result?.rows).toEqual([
+      { BIG: '12345678901234567.89' },
+      { BIG: 42 },
+    ]);
+    expect(parseDataPreview('<html/>')).toBeNull();
+  });
+
+  it('exports CSV with quoting, JSON and NDJSON', () => {
+    const result = parseDataPreview(ORDERS([1, 2])) as IDataPreviewResult;
+
+    expect(dataPreviewToCsv(result)).toBe(
+      'MANDT,ORDER_ID,AMOUNT,NOTE\n001,0001,-1.5,\n001,0002,-2.5,"say ""hi"", bye"\n',
+    );
+    expect(dataPreviewToCsv(result, { delimiter: ';', header: false })).toBe(
+      '001;0001;-1.5;\n001;0002;-2.5;"say ""hi"", bye"\n',
+    );
+    expect(JSON.parse(dataPreviewToJson(result))).toEqual(result.rows);
+    expect(dataPreviewToNdjson(result).split('\n')).toEqual([
+      JSON.stringify(result.rows[0]),
+      JSON.stringify(result.rows[1]),
+      '',
+    ]);
+  });
+});
+
+describe('AdtUtils.getTableContents query', () => {
+  const METADATA = tableData([
+    { name: 'MANDT', type: 'C', colType: 'CLNT', key: true, values: [] },
+    { name: 'ORDER_ID', type: 'N', colType: 'NUMC', key: true, values: [] },
+    { name: 'AMOUNT', type: 'P', colType: 'CURR', values: [] },
+  ]);
+
+  const fakeServer = () => {
+    const calls: IAbapRequestOptions[] = [];
+    const connection = {
+      makeAdtRequest: async (request: IAbapRequestOptions) => {
+        calls.push(request);
+        return response(
+          request.url.endsWith('/metadata') ? METADATA : ORDERS([1]),
+        );
+      },
+    } as unknown as IAbapConnection;
+    return { calls, utils: new AdtUtils(connection, createLibraryLogger()) };
+  };
+
+  it('selects the given columns with WHERE and ORDER BY', async () => {
+    const { calls, utils } = fakeServer();
+
+    const result = await utils.getParsedTableContents({
+      table_name: 'zorders',
+      max_rows: 5,
+      columns: ['order_id', 'AMOUNT'],
+      where: "AMOUNT > 100 AND ORDER_ID <> '0000'",
+      order_by: ['AMOUNT DESCENDING', 'order_id'],
+    });
+
+    expect(calls[1].url).toBe(
+      '/sap/bc/adt/datapreview/ddic?rowNumber=5&ddicEntityName=ZORDERS',
+    );
+    expect(calls[1].data).toBe(
+      "SELECT ZORDERS~ORDER_ID, ZORDERS~AMOUNT FROM ZORDERS WHERE AMOUNT > 100 AND ORDER_ID <> '0000' ORDER BY ZORDERS~AMOUNT DESCENDING, ZORDERS~ORDER_ID",
+    );
+    expect(result.rows).toHaveLength(1);
+  });
+
+  it('refuses a column the table does not have before querying', async () => {
+    const { calls, utils } = fakeServer();
+
+    await expect(
+      utils.getTableContents({ table_name: 'ZORDERS', columns: ['PRICE'] }),
+    ).rejects.toMatchObject({ code: 'DATA_PREVIEW_UNKNOWN_COLUMN' });
+    expect(calls).toHaveLength(1);
+  });
+});
+
+describe('paging', () => {
+  it('pages a table by key after the last row, leaving out the client', async () => {
+    const pages = [[1, 2], [3, 4], [5]];
+    const read = jest.fn(async (_params: IGetTableContentsParams) =>
+      response(ORDERS(pages.shift() ?? [])),
+    );
+
+    const seen: number[][] = [];
+    for await (const page of pageTableContents(
+      read,
+      { table_name: 'zorders', where: "STATUS = 'OPEN'" },
+      { pageSize: 2 },
+    )) {
+      seen.push(page.rows.map((row) => Number(row.ORDER_ID)));
+    }
+
+    expect(seen).toEqual([[1, 2], [3, 4], [5]]);
+    expect(read.mock.calls.map(([params]) => params)).toEqual([
+      expect.objectContaining({
+        where: "( STATUS = 'OPEN' )",
+        order_by: ['PRIMARY KEY'],
+        max_rows: 2,
+      }),
+      expect.objectContaining({
+        where: "( STATUS = 'OPEN' ) AND ( ( ZORDERS~ORDER_ID > '0002' ) )",
+      }),
+      expect.objectContaining({
+        where: "( STATUS = 'OPEN' ) AND ( ( ZORDERS~ORDER_ID > '0004' ) )",
+      }),
+    ]);
+  });
+
+  it('pages by a numeric key as numbers, however many digits they have', async () => {
+    const page = (ids: string[]) =>
+      response(
+        tableData([
+          {
+            name: 'DOC_ID',
+            type: 'P',
+            colType: 'DEC',
+            key: true,
+            values: ids,
+          },
+          {
+            name: 'YEAR',
+            type: '8',
+            colType: 'INT8',
+            key: true,
+            values: ids.map(() => '2026'),
+          },
+        ]),
+      );
+    const pages = [
+      page(['1234567890123456780', '1234567890123456789']),
+      page(['1234567890123456790']),
+    ];
+    const read = jest.fn(
+      async (_params: IGetTableContentsParams) => pages.shift() ?? page([]),
+    );
+
+    const seen: unknown[] = [];
+    for await (const result of pageTableContents(
+      read,
+      { table_name: 'zdocs' },
+      { pageSize: 2 },
+    )) {
+      seen.push(...result.rows.map((row) => row.DOC_ID));
+    }
+
+    expect(seen).toEqual([
+      '1234567890123456780',
+      '1234567890123456789',
+      '1234567890123456790',
+    ]);
+    expect(read.mock.calls[1][0]).toMatchObject({
+      where:
+        '( ( ZDOCS~DOC_ID > 1234567890123456789 ) OR ( ZDOCS~DOC_ID = 1234567890123456789 AND ZDOCS~YEAR > 2026 ) )',
+    });
+  });
+
+  it('pages a selection by first-n in key order, as it may not hold the key', async () => {
+    const read = jest.fn(async ({ max_rows }: IGetTableContentsParams) =>
+      response(ORDERS(Array.from({ length: max_rows ?? 0 }, (_, i) => i + 1))),
+    );
+
+    const seen: number[][] = [];
+    for await (const page of pageTableContents(
+      read,
+      { table_name: 'zorders', columns: ['AMOUNT', 'NOTE'] },
+      { pageSize: 2, maxRows: 3 },
+    )) {
+      seen.push(page.rows.map((row) => Number(row.ORDER_ID)));
+    }
+
+    expect(seen).toEqual([[1, 2], [3]]);
+    expect(read.mock.calls.map(([params]) => params)).toEqual([
+      expect.objectContaining({ order_by: ['PRIMARY KEY'], max_rows: 2 }),
+      expect.objectContaining({ order_by: ['PRIMARY KEY'], max_rows: 3 }),
+    ]);
+    expect(read.mock.calls.every(([params]) => !params.where)).toBe(true);
+  });
+
+  it('pages a query by a growing first-n, up to maxRows', async () => {
+    const run = jest.fn(async ({ row_number }: { row_number?: number }) =>
+      response(
+        ORDERS(Array.from({ length: row_number ?? 0 }, (_, i) => i + 1)),
+      ),
+    );
+
+    const seen: number[][] = [];
+    for await (const page of pageSqlQuery(
+      run,
+      { sql_query: 'SELECT * FROM zorders ORDER BY order_id' },
+      { pageSize: 2, maxRows: 5 },
+    )) {
+      seen.push(page.rows.map((row) => Number(row.ORDER_ID)));
+    }
+
+    expect(seen).toEqual([[1, 2], [3, 4], [5]]);
+    expect(run.mock.calls.map(([params]) => params.row_number)).toEqual([
+      2, 4, 5,
+    ]);
+  });
+
+  it('fails with DATA_PREVIEW_UNREADABLE on a body that is not a result', async () => {
+    const pages = pageSqlQuery(async () => response(''), {
+      sql_query: 'SELECT * FROM zorders',
+    });
+
+    await expect(pages.next()).rejects.toMatchObject({
+      code: 'DATA_PREVIEW_UNREADABLE',
+    });
+  });
+});
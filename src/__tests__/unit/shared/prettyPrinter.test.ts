@@ -0,0 +1,201 @@
+/**
+ * Pretty printer, its settings, and formatting before update().
+ *
+ * The endpoint formats with the user's stored profile and takes no options,
+ * so settings for one call are a write, a format and a restore. This pins the
+ * restore — including after a failed format — and that an update asked to
+ * pretty-print writes what the formatter returned, not what it was given.
+ */
+
+import type {
+  IAbapConnection,
+  IAbapRequestOptions,
+  IAdtResponse,
+} from '@mcp-abap-adt/interfaces';
+import { AdtProgram } from '../../../core/program/AdtProgram';
+import { AdtUtils } from '../../../core/shared/AdtUtils';
+import { createLibraryLogger } from '../../helpers/testLogger';
+
+const SETTINGS_URL = '/sap/bc/adt/abapsource/prettyprinter/settings';
+const PRETTY_PRINTER_URL = '/sap/bc/adt/abapsource/prettyprinter';
+
+const settingsXml = (indentation: string, style: string) =>
+  `<?xml version="1.0" encoding="utf-8"?><abapformatter:PrettyPrinterSettings xmlns:abapformatter="http://www.sap.com/adt/prettyprintersettings" abapformatter:indentation="${indentation}" abapformatter:style="${style}"/>`;
+
+const SOURCE = 'report zdemo.\nwrite / sy-uname.';
+const FORMATTED = 'REPORT zdemo.\nWRITE / sy-uname.';
+
+const fakeServer = (
+  options: {
+    stored?: string;
+    formatted?: unknown;
+    formatFails?: boolean;
+    restoreFails?: boolean;
+  } = {},
+) => {
+  const calls: IAbapRequestOptions[] = [];
+  const connection = {
+    getSessionId: () => 'S1',
+    setSessionType: () => {},
+    makeAdtRequest: async (request: IAbapRequestOptions) => {
+      calls.push(request);
+      let data: unknown = '';
+      const writes = calls.filter(
+        ({ url, method }) => url === SETTINGS_URL && method === 'PUT',
+      );
+      if (options.restoreFails && writes.length > 1) {
+        throw new Error('session expired');
+      }
+      if (request.url === SETTINGS_URL && request.method === 'GET') {
+        data = options.stored ?? settingsXml('true', 'keywordUpper');
+      } else if (request.url === PRETTY_PRINTER_URL) {
+        if (options.formatFails) throw new Error('formatter down');
+        data = 'formatted' in options ? options.formatted : FORMATTED;
+      }
+      return {
+        data,
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+      } as unknown as IAdtResponse;
+    },
+  } as unknown as IAbapConnection;
+  return { connection, calls };
+};
+
+const route = (call: IAbapRequestOptions) => `${call.method} ${call.url}`;
+
+describe('AdtUtils pretty printer', () => {
+  it('formats with the stored profile when no settings are given', async () => {
+    const { connection, calls } = fakeServer();
+    const utils = new AdtUtils(connection, createLibraryLogger());
+
+    await expect(utils.prettyPrint(SOURCE)).resolves.toBe(FORMATTED);
+    expect(calls.map(route)).toEqual([`POST ${PRETTY_PRINTER_URL}`]);
+    expect(calls[0].data).toBe(SOURCE);
+  });
+
+  it('reads the settings the profile holds', async () => {
+    const { connection } = fakeServer({
+      stored: settingsXml('false', 'toLower'),
+    });
+
+    await expect(
+      new AdtUtils(
+        connection,
+        createLibraryLogger(),
+      ).getPrettyPrinterSettings(),
+    ).resolves.toEqual({ indentation: false, style: 'toLower' });
+  });
+
+  it('writes given settings over the profile for the call and restores it', async () => {
+    const { connection, calls } = fakeServer();
+    const utils = new AdtUtils(connection, createLibraryLogger());
+
+    await utils.prettyPrint(SOURCE, { style: 'toLower' });
+
+    expect(calls.map(route)).toEqual([
+      `GET ${SETTINGS_URL}`,
+      `PUT ${SETTINGS_URL}`,
+      `POST ${PRETTY_PRINTER_URL}`,
+      `PUT ${SETTINGS_URL}`,
+    ]);
+    expect(String(calls[1].data)).toContain('abapformatter:style="toLower"');
+    // Fields not given keep the stored value.
+    expect(String(calls[1].data)).toContain('abapformatter:indentation="true"');
+    expect(String(calls[3].data)).toContain(
+      'abapformatter:style="keywordUpper"',
+    );
+  });
+
+  it('restores the profile when formatting fails', async () => {
+    const { connection, calls } = fakeServer({ formatFails: true });
+    const utils = new AdtUtils(connection, createLibraryLogger());
+
+    await expect(
+      utils.prettyPrint(SOURCE, { style: 'toLower' }),
+    ).rejects.toThrow('formatter down');
+    expect(calls.map(route).at(-1)).toBe(`PUT ${SETTINGS_URL}`);
+    expect(String(calls.at(-1)?.data)).toContain(
+      'abapformatter:style="keywordUpper"',
+    );
+  });
+
+  it('logs a restore that fails, keeping the formatted source', async () => {
+    const { connection } = fakeServer({ restoreFails: true });
+    const logger = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn(),
+    };
+    const utils = new AdtUtils(connection, logger as never);
+
+    await expect(utils.prettyPrint(SOURCE, { style: 'toLower' })).resolves.toBe(
+      FORMATTED,
+    );
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.stringContaining('session expired'),
+    );
+  });
+
+  it('writes nothing when the given settings are the stored ones', async () => {
+    const { connection, calls } = fakeServer();
+    const utils = new AdtUtils(connection, createLibraryLogger());
+
+    await utils.prettyPrint(SOURCE, { style: 'keywordUpper' });
+
+    expect(calls.map(route)).toEqual([
+      `GET ${SETTINGS_URL}`,
+      `POST ${PRETTY_PRINTER_URL}`,
+    ]);
+  });
+
+  it('does not write settings over a profile it could not read', async () => {
+    const { connection, calls } = fakeServer({ stored: '<html/>' });
+    const utils = new AdtUtils(connection, createLibraryLogger());
+
+    await expect(
+      utils.prettyPrint(SOURCE, { style: 'toLower' }),
+    ).rejects.toMatchObject({ code: 'PRETTY_PRINTER_SETTINGS_UNREADABLE' });
+    expect(calls.map(route)).toEqual([`GET ${SETTINGS_URL}`]);
+  });
+
+  it('rejects an answer with no source in it', async () => {
+    const { connection } = fakeServer({ formatted: '' });
+
+    await expect(
+      new AdtUtils(connection, createLibraryLogger()).prettyPrint(SOURCE),
+    ).rejects.toMatchObject({ code: 'PRETTY_PRINT_EMPTY' });
+  });
+});
+
+describe('pretty print before update()', () => {
+  const program = (connection: IAbapConnection) =>
+    new AdtProgram(connection, createLibraryLogger());
+
+  it('writes the formatted source when asked', async () => {
+    const { connection, calls } = fakeServer();
+
+    await program(connection).update(
+      { programName: 'ZDEMO', sourceCode: SOURCE },
+      { lockHandle: 'LH', prettyPrint: true },
+    );
+
+    const upload = calls.find((c) => c.method === 'PUT');
+    expect(upload?.url).toContain('/programs/programs/zdemo/source/main');
+    expect(upload?.data).toBe(FORMATTED);
+  });
+
+  it('leaves the source alone when not asked', async () => {
+    const { connection, calls } = fakeServer();
+
+    await program(connection).update(
+      { programName: 'ZDEMO', sourceCode: SOURCE },
+      { lockHandle: 'LH' },
+    );
+
+    expect(calls.map(route)).not.toContain(`POST ${PRETTY_PRINTER_URL}`);
+    expect(calls.find((c) => c.method === 'PUT')?.data).toBe(SOURCE);
+  });
+});
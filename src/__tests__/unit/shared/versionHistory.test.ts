@@ -0,0 +1,238 @@
+/**
+ * Version diff, per-method summary and restore.
+ *
+ * The diff is pinned in `diff -u` form, since that is what a reviewer reads;
+ * the summary by what a class change is made of — methods added, removed,
+ * edited, moved; and restore by the handler lifecycle it goes through: one
+ * `update()` with the old source, activated.
+ */
+
+import type { IObjectVersion } from '@mcp-abap-adt/interfaces';
+import {
+  diffSources,
+  diffVersions,
+  restoreVersion,
+  summarizeMethodChanges,
+} from '../../../core/shared';
+
+const V1 = [
+  'CLASS zcl_demo IMPLEMENTATION.',
+  '  METHOD run.',
+  '    WRITE 1.',
+  '  ENDMETHOD.',
+  '  METHOD stop.',
+  '    WRITE 2.',
+  '  ENDMETHOD.',
+  '  METHOD old.',
+  '  ENDMETHOD.',
+  'ENDCLASS.',
+  '',
+].join('\n');
+
+const V2 = [
+  'CLASS zcl_demo IMPLEMENTATION.',
+  '  METHOD stop.',
+  '    WRITE 2.',
+  '  ENDMETHOD.',
+  '  METHOD run.',
+  '    WRITE 1.',
+  '    WRITE 3.',
+  '  ENDMETHOD.',
+  '  METHOD zif_x~new.',
+  '  ENDMETHOD.',
+  'ENDCLASS.',
+].join('\n');
+
+describe('diffSources()', () => {
+  it('is identical and empty for the same text, final newline or not', () => {
+    const diff = diffSources('a\nb\n', 'a\nb');
+
+    expect(diff).toMatchObject({ identical: true, added: 0, removed: 0 });
+    expect(diff.unified).toBe('');
+  });
+
+  it('writes hunks with their context in unified form', () => {
+    const old = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10'].join('\n');
+    const next = [
+      '1',
+      '2',
+      '3',
+      '4',
+      'five',
+      '6',
+      '7',
+      '8',
+      '9',
+      '10',
+      '11',
+    ].join('\n');
+
+    const diff = diffSources(old, next, {
+      context: 1,
+      oldLabel: 'v1',
+      newLabel: 'active',
+    });
+
+    expect(diff.unified).toBe(
+      [
+        '--- v1',
+        '+++ active',
+        '@@ -4,3 +4,3 @@',
+        ' 4',
+        '-5',
+        '+five',
+        ' 6',
+        '@@ -10,1 +10,2 @@',
+        ' 10',
+        '+11',
+        '',
+      ].join('\n'),
+    );
+    expect(diff).toMatchObject({ added: 2, removed: 1, identical: false });
+  });
+
+  it('numbers an insertion into an empty source from zero', () => {
+    const diff = diffSources('', 'REPORT z.');
+
+    expect(diff.hunks[0]).toMatchObject({
+      oldStart: 0,
+      oldLines: 0,
+      newStart: 1,
+      newLines: 1,
+    });
+  });
+
+  it('diffs a fully rewritten source of thousands of lines', () => {
+    const lines = (prefix: string) =>
+      Array.from({ length: 4000 }, (_, i) => `${prefix} ${i}.`).join('\n');
+    // Every line changed, a shared one kept in the middle.
+    const old = `${lines('WRITE')}\nENDCLASS.\n${lines('DATA')}`;
+    const next = `${lines('CLEAR')}\nENDCLASS.\n${lines('FIELD-SYMBOLS')}`;
+
+    const diff = diffSources(old, next);
+
+    expect(diff).toMatchObject({ added: 8000, removed: 8000 });
+    const kept = diff.hunks.flatMap((hunk) =>
+      hunk.lines.filter(({ kind }) => kind === 'equal'),
+    );
+    expect(kept).toEqual([
+      {
+        kind: 'equal',
+        text: 'ENDCLASS.',
+        oldLine: 4001,
+        newLine: 4001,
+      },
+    ]);
+  });
+});
+
+describe('summarizeMethodChanges()', () => {
+  it('lists methods added, removed and edited, not the ones that moved', () => {
+    expect(summarizeMethodChanges(V1, V2)).toEqual([
+      {
+        className: 'ZCL_DEMO',
+        methodName: 'RUN',
+        change: 'modified',
+        added: 1,
+        removed: 0,
+        oldLine: 2,
+        newLine: 5,
+      },
+      {
+        className: 'ZCL_DEMO',
+        methodName: 'ZIF_X~NEW',
+        change: 'added',
+        added: 2,
+        removed: 0,
+        oldLine: undefined,
+        newLine: 9,
+      },
+      {
+        className: 'ZCL_DEMO',
+        methodName: 'OLD',
+        change: 'removed',
+        added: 0,
+        removed: 2,
+        oldLine: 8,
+      },
+    ]);
+  });
+});
+
+describe('diffVersions() and restoreVersion()', () => {
+  const version: IObjectVersion = {
+    versionId: '00001',
+    updatedAt: '2026-01-05T10:00:00Z',
+    contentUri:
+      '/sap/bc/adt/oo/classes/zcl_demo/source/main/versions/1/content',
+  } as IObjectVersion;
+
+  const handlerOver = (versionSource: string, active: string | undefined) => {
+    const updates: Array<{ config: unknown; options: unknown }> = [];
+    // The handler's state, as `read()` and `update()` both resolve with it.
+    const state = (data: string) => ({ readResult: { data } });
+    const handler = {
+      getVersions: async () => [version],
+      getVersionSource: async (uri: string) => {
+        expect(uri).toBe(version.contentUri);
+        return versionSource;
+      },
+      read: async () => (active === undefined ? undefined : state(active)),
+      update: async (config: unknown, options: unknown) => {
+        updates.push({ config, options });
+        return state(versionSource);
+      },
+    };
+    return { handler, updates };
+  };
+
+  it('diffs a version against the active source, labelled', async () => {
+    const { handler } = handlerOver(V1, V2);
+
+    const diff = await diffVersions(
+      handler,
+      { className: 'ZCL_DEMO' },
+      version,
+      'active',
+    );
+
+    expect(diff.unified.split('\n').slice(0, 2)).toEqual([
+      '--- 00001 (2026-01-05T10:00:00Z)',
+      '+++ active',
+    ]);
+    expect(diff.oldSource).toBe(V1);
+    expect(diff.newSource).toBe(V2);
+  });
+
+  it('refuses to diff against a source that cannot be read', async () => {
+    const { handler } = handlerOver(V1, undefined);
+
+    await expect(
+      diffVersions(handler, { className: 'ZCL_DEMO' }, version, 'inactive'),
+    ).rejects.toMatchObject({ code: 'VERSION_SOURCE_UNREADABLE' });
+  });
+
+  it('restores through update() with the old source, activated', async () => {
+    const { handler, updates } = handlerOver(V1, V2);
+
+    await restoreVersion(handler, { className: 'ZCL_DEMO' }, version, {
+      transportRequest: 'E19K900001',
+    });
+
+    expect(updates).toEqual([
+      {
+        config: { className: 'ZCL_DEMO', transportRequest: 'E19K900001' },
+        options: { sourceCode: V1, activateOnUpdate: true },
+      },
+    ]);
+  });
+
+  it('refuses to restore an empty version', async () => {
+    const { handler, updates } = handlerOver('  \n', V2);
+
+    await expect(
+      restoreVersion(handler, { className: 'ZCL_DEMO' }, version),
+    ).rejects.toMatchObject({ code: 'VERSION_SOURCE_EMPTY' });
+    expect(updates).toHaveLength(0);
+  });
+});
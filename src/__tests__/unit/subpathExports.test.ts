@@ -3,6 +3,7 @@ import { AdtClientBatch } from '../../index.batch';
 import { AdtClient } from '../../index.core';
 import { AdtExecutor } from '../../index.executors';
 import { AdtRuntimeClient } from '../../index.runtime';
+import { CassetteReplayConnection } from '../../index.testing';
 import { AdtClientsWS } from '../../index.ws';
 
 describe('subpath barrels', () => {
@@ -13,5 +14,6 @@ describe('subpath barrels', () => {
     expect(typeof AdtRuntimeClient).toBe('function');
     expect(typeof AdtClientBatch).toBe('function');
     expect(typeof AdtExecutor).toBe('function');
+    expect(typeof CassetteReplayConnection).toBe('function');
   });
 });
@@ -0,0 +1,377 @@
+/**
+ * Record/replay connections.
+ *
+ * Pinned by what a test written against a cassette relies on: a flow replays
+ * with the answers it got when recorded, errors included; nothing secret is
+ * in the cassette; and a request that was not recorded fails loudly instead
+ * of being answered by a near miss.
+ */
+
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { IAbapConnection } from '@mcp-abap-adt/interfaces';
+import { AxiosError } from 'axios';
+import { AdtClient } from '../../../clients/AdtClient';
+import {
+  CassetteRecordingConnection,
+  CassetteReplayConnection,
+  type ICassette,
+  loadCassette,
+} from '../../../testing';
+
+const CLASS_SOURCE = 'CLASS zcl_demo DEFINITION PUBLIC.\nENDCLASS.';
+
+function liveConnection(
+  answer: (options: { url: string; method: string }) => unknown,
+) {
+  return {
+    connect: jest.fn(async () => {}),
+    getBaseUrl: jest.fn(async () => 'https://dev.example.com:44300'),
+    getSessionId: jest.fn(() => 'session-1'),
+    setSessionType: jest.fn(),
+    makeAdtRequest: jest.fn(async (options) => answer(options)),
+  } as unknown as IAbapConnection;
+}
+
+const cassette = (
+  interactions: ICassette['interactions'],
+  baseUrl?: string,
+): ICassette => ({
+  version: 1,
+  recordedAt: '2026-01-01T00:00:00.000Z',
+  baseUrl,
+  interactions,
+});
+
+describe('CassetteRecordingConnection', () => {
+  it('records an AdtClient flow that replays to the same result', async () => {
+    const live = liveConnection(() => ({
+      status: 200,
+      statusText: 'OK',
+      headers: { 'content-type': 'text/plain' },
+      data: CLASS_SOURCE,
+    }));
+    const recorder = new CassetteRecordingConnection(live);
+    const recorded = await new AdtClient(recorder)
+      .getClass()
+      .read({ className: 'ZCL_DEMO' });
+
+    const replay = new CassetteReplayConnection(await recorder.toCassette());
+    const replayed = await new AdtClient(replay)
+      .getClass()
+      .read({ className: 'ZCL_DEMO' });
+
+    expect(replayed?.readResult?.data).toBe(CLASS_SOURCE);
+    expect(replayed?.readResult?.data).toBe(recorded?.readResult?.data);
+    expect(replay.getUnplayed()).toEqual([]);
+  });
+
+  it('redacts credentials, session cookies, CSRF tokens and user names', async () => {
+    const live = liveConnection(() => ({
+      status: 200,
+      statusText: 'OK',
+      headers: {
+        'set-cookie': ['SAP_SESSIONID_DEV_100=secret; path=/'],
+        'x-csrf-token': 'token-value',
+      },
+      data: '<adtcore:objectReference adtcore:responsible="DEVELOPER"/>',
+    }));
+    const recorder = new CassetteRecordingConnection(live, {
+      redact: {
+        usernames: ['developer'],
+        replacements: [{ pattern: 'dev.example.com', replacement: 'sap.host' }],
+      },
+    });
+
+    await recorder.makeAdtRequest({
+      method: 'GET',
+      url: '/sap/bc/adt/cts/transportrequests?user=DEVELOPER',
+      timeout: 1000,
+      headers: {
+        Authorization: 'Basic ZGV2OnNlY3JldA==',
+        'x-csrf-token': 'Fetch',
+        Accept: 'application/xml',
+      },
+    });
+    const { interactions, baseUrl } = await recorder.toCassette();
+
+    expect(baseUrl).toBe('https://sap.host:44300');
+    expect(interactions[0].request).toEqual({
+      method: 'GET',
+      url: '/sap/bc/adt/cts/transportrequests',
+      params: { user: '<user>' },
+      headers: {
+        Authorization: '<redacted>',
+        'x-csrf-token': 'Fetch',
+        Accept: 'application/xml',
+      },
+    });
+    expect(interactions[0].response).toMatchObject({
+      headers: { 'set-cookie': '<redacted>', 'x-csrf-token': '<redacted>' },
+      data: '<adtcore:objectReference adtcore:responsible="<user>"/>',
+    });
+    expect(JSON.stringify(interactions)).not.toMatch(/secret|DEVELOPER/i);
+  });
+
+  it('records an HTTP error and rethrows it unchanged', async () => {
+    const notFound = Object.assign(
+      new Error('Request failed with status code 404'),
+      {
+        response: {
+          status: 404,
+          statusText: 'Not Found',
+          headers: {},
+          data: '',
+        },
+      },
+    );
+    const live = liveConnection(() => {
+      throw notFound;
+    });
+    const recorder = new CassetteRecordingConnection(live);
+
+    await expect(
+      recorder.makeAdtRequest({
+        method: 'GET',
+        url: '/sap/bc/adt/oo/classes/zcl_gone',
+        timeout: 1000,
+      }),
+    ).rejects.toBe(notFound);
+    expect(recorder.getInteractions()[0]).toMatchObject({
+      response: { status: 404 },
+      error: { message: 'Request failed with status code 404' },
+    });
+  });
+});
+
+describe('CassetteReplayConnection', () => {
+  const read = (url: string, data: string) => ({
+    request: { method: 'GET', url },
+    response: { status: 200, statusText: 'OK', headers: {}, data },
+  });
+
+  it('matches query parameters whether they came in the URL or in params', async () => {
+    const replay = new CassetteReplayConnection(
+      cassette([
+        {
+          request: {
+            method: 'POST',
+            url: '/sap/bc/adt/activation',
+            params: { method: 'activate', preauditRequested: 'true' },
+            body: '<a>\n  <b/>\n</a>',
+          },
+          response: { status: 200, statusText: 'OK', headers: {}, data: 'ok' },
+        },
+      ]),
+    );
+
+    const response = await replay.makeAdtRequest({
+      method: 'post',
+      url: '/sap/bc/adt/activation?preauditRequested=true',
+      params: { method: 'activate' },
+      data: '<a><b/></a>',
+      timeout: 1000,
+    });
+
+    expect(response.data).toBe('ok');
+  });
+
+  it('serves repeated requests in recorded order, each answer once', async () => {
+    const replay = new CassetteReplayConnection(
+      cassette([
+        read('/sap/bc/adt/status', 'running'),
+        read('/sap/bc/adt/status', 'done'),
+      ]),
+    );
+    const poll = () =>
+      replay.makeAdtRequest({
+        method: 'GET',
+        url: '/sap/bc/adt/status',
+        timeout: 1000,
+      });
+
+    expect((await poll()).data).toBe('running');
+    expect((await poll()).data).toBe('done');
+    await expect(poll()).rejects.toMatchObject({ code: 'CASSETTE_NO_MATCH' });
+  });
+
+  it('serves the last answer again with allowRepeats', async () => {
+    const replay = new CassetteReplayConnection(
+      cassette([
+        read('/sap/bc/adt/status', 'running'),
+        read('/sap/bc/adt/status', 'done'),
+      ]),
+      { allowRepeats: true },
+    );
+    const poll = () =>
+      replay.makeAdtRequest({
+        method: 'GET',
+        url: '/sap/bc/adt/status',
+        timeout: 1000,
+      });
+
+    await poll();
+    await poll();
+
+    expect((await poll()).data).toBe('done');
+  });
+
+  it('names the request and what was recorded for its path when nothing matches', async () => {
+    const replay = new CassetteReplayConnection(
+      cassette([
+        {
+          request: {
+            method: 'GET',
+            url: '/sap/bc/adt/repository/informationsystem/search',
+            params: { query: 'ZCL_A*' },
+          },
+          response: { status: 200, statusText: 'OK', headers: {}, data: '' },
+        },
+      ]),
+    );
+
+    await expect(
+      replay.makeAdtRequest({
+        method: 'GET',
+        url: '/sap/bc/adt/repository/informationsystem/search?query=ZCL_B*',
+        timeout: 1000,
+      }),
+    ).rejects.toThrow(
+      'No recorded interaction matches GET /sap/bc/adt/repository/informationsystem/search?query=ZCL_B*. Recorded for the same path: GET /sap/bc/adt/repository/informationsystem/search?query=ZCL_A*.',
+    );
+  });
+
+  it('leaves out ignored parameters and rewritten body parts', async () => {
+    const replay = new CassetteReplayConnection(
+      cassette([
+        {
+          request: {
+            method: 'POST',
+            url: '/sap/bc/adt/datapreview/freestyle',
+            params: { rowNumber: '100', _ts: '1' },
+            body: '<run id="1111"/>',
+          },
+          response: {
+            status: 200,
+            statusText: 'OK',
+            headers: {},
+            data: 'rows',
+          },
+        },
+      ]),
+      {
+        ignoreParams: ['_ts'],
+        normalizeBody: (body) => body.replace(/id="\d+"/, 'id=""'),
+      },
+    );
+
+    const response = await replay.makeAdtRequest({
+      method: 'POST',
+      url: '/sap/bc/adt/datapreview/freestyle',
+      params: { rowNumber: 100, _ts: 2 },
+      data: '<run id="2222"/>',
+      timeout: 1000,
+    });
+
+    expect(response.data).toBe('rows');
+  });
+
+  it('redacts an incoming request the way it was recorded before matching', async () => {
+    const replay = new CassetteReplayConnection(
+      cassette([
+        {
+          request: {
+            method: 'GET',
+            url: '/sap/bc/adt/cts/transportrequests',
+            params: { user: '<user>' },
+          },
+          response: { status: 200, statusText: 'OK', headers: {}, data: 'tr' },
+        },
+      ]),
+      { redact: { usernames: ['DEVELOPER'] } },
+    );
+
+    const response = await replay.makeAdtRequest({
+      method: 'GET',
+      url: '/sap/bc/adt/cts/transportrequests?user=DEVELOPER',
+      timeout: 1000,
+    });
+
+    expect(response.data).toBe('tr');
+  });
+
+  it('throws a recorded HTTP error as an AxiosError carrying its response', async () => {
+    const replay = new CassetteReplayConnection(
+      cassette([
+        {
+          request: { method: 'GET', url: '/sap/bc/adt/oo/classes/zcl_gone' },
+          response: {
+            status: 404,
+            statusText: 'Not Found',
+            headers: {},
+            data: '',
+          },
+          error: { message: 'Request failed with status code 404' },
+        },
+      ]),
+    );
+
+    const failure = await replay
+      .makeAdtRequest({
+        method: 'GET',
+        url: '/sap/bc/adt/oo/classes/zcl_gone',
+        timeout: 1000,
+      })
+      .catch((error: unknown) => error);
+
+    expect(failure).toBeInstanceOf(AxiosError);
+    expect((failure as AxiosError).response?.status).toBe(404);
+  });
+
+  it('reads a cassette written by the recorder from disk', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'cassette-'));
+    try {
+      const path = join(directory, 'nested', 'read.json');
+      const recorder = new CassetteRecordingConnection(
+        liveConnection(() => ({
+          status: 200,
+          statusText: 'OK',
+          headers: {},
+          data: Buffer.from([0, 1, 2]),
+        })),
+      );
+      await recorder.makeAdtRequest({
+        method: 'GET',
+        url: '/sap/bc/adt/mime/zlogo',
+        timeout: 1000,
+      });
+      await recorder.save(path);
+
+      expect(JSON.parse(await readFile(path, 'utf8')).version).toBe(1);
+      const replay = await CassetteReplayConnection.fromFile(path);
+      const response = await replay.makeAdtRequest({
+        method: 'GET',
+        url: '/sap/bc/adt/mime/zlogo',
+        timeout: 1000,
+      });
+      expect(response.data).toEqual(Buffer.from([0, 1, 2]));
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('refuses a file that is not a cassette', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'cassette-'));
+    try {
+      const path = join(directory, 'bad.json');
+      await writeFile(path, '{"requests":[]}');
+
+      await expect(loadCassette(path)).rejects.toMatchObject({
+        code: 'CASSETTE_UNREADABLE',
+      });
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * In-memory fake ADT server.
+ *
+ * Pinned by running the real handlers over it: if `AdtClient` can create,
+ * lock, write, check, activate, read back and delete through it — and gets
+ * the refusals a system gives — the fake is faithful where those handlers
+ * look. Nothing here asserts request shapes; the handlers are the spec.
+ */
+
+import { AdtClient } from '../../../clients/AdtClient';
+import {
+  type FakeAdtCheck,
+  FakeAdtServer,
+  type IFakeAdtServerOptions,
+} from '../../../testing';
+
+const SOURCE =
+  'CLASS zcl_fake DEFINITION PUBLIC CREATE PUBLIC.\n  PUBLIC SECTION.\n    METHODS run.\nENDCLASS.\n\nCLASS zcl_fake IMPLEMENTATION.\n  METHOD run.\n  ENDMETHOD.\nENDCLASS.';
+
+/** Anything containing BROKEN has a syntax error on the line it is on. */
+const brokenCheck: FakeAdtCheck = (_object, source) =>
+  source
+    .split('\n')
+    .flatMap((text, index) =>
+      text.includes('BROKEN')
+        ? [{ type: 'E' as const, text: '"BROKEN" is unknown', line: index + 1 }]
+        : [],
+    );
+
+function setup(options: IFakeAdtServerOptions = {}) {
+  const server = new FakeAdtServer(options);
+  const client = new AdtClient(server.createConnection());
+  return { server, client };
+}
+
+describe('FakeAdtServer', () => {
+  it('runs a class from create through update and activation', async () => {
+    const { server, client } = setup();
+    await client.getClass().create({
+      className: 'ZCL_FAKE',
+      packageName: 'ZPKG',
+      description: 'Fake',
+      transportRequest: 'DEVK900001',
+    });
+
+    expect(server.getObject('CLAS/OC', 'zcl_fake')).toMatchObject({
+      packageName: 'ZPKG',
+      description: 'Fake',
+      transport: 'DEVK900001',
+    });
+
+    const state = await client
+      .getClass()
+      .update(
+        { className: 'ZCL_FAKE', sourceCode: SOURCE },
+        { activateOnUpdate: true },
+      );
+
+    expect(state.readResult?.data).toBe(SOURCE);
+    expect(server.getObject('CLAS/OC', 'ZCL_FAKE')).toMatchObject({
+      parts: { 'source/main': { active: SOURCE } },
+    });
+    expect(server.getObject('CLAS/OC', 'ZCL_FAKE')?.lock).toBeUndefined();
+  });
+
+  it('keeps the active version until the inactive one is activated', async () => {
+    const { server, client } = setup();
+    server.addObject({ type: 'CLAS/OC', name: 'ZCL_FAKE', source: SOURCE });
+    const changed = SOURCE.replace('METHODS run.', 'METHODS run2.');
+
+    await client
+      .getClass()
+      .update({ className: 'ZCL_FAKE', sourceCode: changed });
+
+    const active = await client
+      .getClass()
+      .read({ className: 'ZCL_FAKE' }, 'active');
+    const inactive = await client
+      .getClass()
+      .read({ className: 'ZCL_FAKE' }, 'inactive');
+    expect(active?.readResult?.data).toBe(SOURCE);
+    expect(inactive?.readResult?.data).toBe(changed);
+
+    const pending = await client.getUtils().getInactiveObjects();
+    expect(pending.objects).toEqual([
+      expect.objectContaining({ type: 'CLAS/OC', name: 'ZCL_FAKE' }),
+    ]);
+
+    await client.getClass().activate({ className: 'ZCL_FAKE' });
+    const after = await client
+      .getClass()
+      .read({ className: 'ZCL_FAKE' }, 'active');
+    expect(after?.readResult?.data).toBe(changed);
+    expect((await client.getUtils().getInactiveObjects()).objects).toEqual([]);
+  });
+
+  it('refuses a lock held by another connection until it is released', async () => {
+    const { server, client } = setup();
+    server.addObject({ type: 'PROG/P', name: 'ZFAKE_REPORT' });
+    const other = new AdtClient(server.createConnection());
+    const handle = await other
+      .getProgram()
+      .lock({ programName: 'ZFAKE_REPORT' });
+
+    await expect(
+      client.getProgram().update({
+        programName: 'ZFAKE_REPORT',
+        sourceCode: 'REPORT zfake_report.\nWRITE 1.',
+      }),
+    ).rejects.toMatchObject({ response: { status: 403 } });
+
+    await other.getProgram().unlock({ programName: 'ZFAKE_REPORT' }, handle);
+    await client.getProgram().update({
+      programName: 'ZFAKE_REPORT',
+      sourceCode: 'REPORT zfake_report.\nWRITE 1.',
+    });
+
+    expect(
+      server.getObject('PROG/P', 'ZFAKE_REPORT')?.parts['source/main'],
+    ).toEqual({
+      active: 'REPORT zfake_report.',
+      inactive: 'REPORT zfake_report.\nWRITE 1.',
+    });
+  });
+
+  it('rejects a write under a lock handle that is not the current one', async () => {
+    const { server, client } = setup();
+    server.addObject({ type: 'INTF/OI', name: 'ZIF_FAKE' });
+
+    await expect(
+      client
+        .getInterface()
+        .update(
+          { interfaceName: 'ZIF_FAKE', sourceCode: 'INTERFACE zif_fake.' },
+          { lockHandle: 'STALE' },
+        ),
+    ).rejects.toMatchObject({ response: { status: 423 } });
+  });
+
+  it('releases what LockRegistry still holds on unlockAll()', async () => {
+    const { server, client } = setup();
+    server.addObject({ type: 'CLAS/OC', name: 'ZCL_FAKE' });
+    await client.getClass().lock({ className: 'ZCL_FAKE' });
+
+    expect(server.getObject('CLAS/OC', 'ZCL_FAKE')?.lock).toBeDefined();
+    expect(client.pendingLocks).toHaveLength(1);
+
+    expect(await client.unlockAll()).toEqual([]);
+    expect(server.getObject('CLAS/OC', 'ZCL_FAKE')?.lock).toBeUndefined();
+  });
+
+  it('fails the check run and keeps a broken source inactive on group activation', async () => {
+    const { server, client } = setup({ check: brokenCheck });
+    server.addObject({ type: 'INTF/OI', name: 'ZIF_FAKE' });
+    server.addObject({
+      type: 'CLAS/OC',
+      name: 'ZCL_FAKE',
+      source: SOURCE,
+      state: 'inactive',
+    });
+    server.addObject({
+      type: 'CLAS/OC',
+      name: 'ZCL_BROKEN',
+      source: 'CLASS zcl_broken DEFINITION.\n  BROKEN\nENDCLASS.',
+      state: 'inactive',
+    });
+
+    await expect(
+      client.getInterface().update({
+        interfaceName: 'ZIF_FAKE',
+        sourceCode: 'INTERFACE zif_fake PUBLIC.\n  BROKEN\nENDINTERFACE.',
+      }),
+    ).rejects.toThrow('"BROKEN" is unknown');
+
+    const result = await client.getUtils().activateObjectsGroup([
+      { type: 'CLAS/OC', name: 'ZCL_FAKE' },
+      { type: 'CLAS/OC', name: 'ZCL_BROKEN' },
+    ]);
+
+    expect(result.data).toContain('type="E"');
+    expect(result.data).toContain(
+      'href="/sap/bc/adt/oo/classes/zcl_broken/source/main#start=2,0"',
+    );
+    expect(
+      server.getObject('CLAS/OC', 'ZCL_FAKE')?.parts['source/main'],
+    ).toEqual({ active: SOURCE });
+    expect(
+      server.getObject('CLAS/OC', 'ZCL_BROKEN')?.parts['source/main'].active,
+    ).toBeUndefined();
+  });
+
+  it('updates a domain through its XML document', async () => {
+    const { server, client } = setup();
+    await client.getDomain().create({
+      domainName: 'ZFAKE_DOMAIN',
+      packageName: '$TMP',
+      description: 'Fake domain',
+    });
+
+    await client.getDomain().update(
+      {
+        domainName: 'ZFAKE_DOMAIN',
+        packageName: '$TMP',
+        description: 'Renamed domain',
+      },
+      { activateOnUpdate: true },
+    );
+
+    const domain = server.getObject('DOMA/DD', 'ZFAKE_DOMAIN');
+    expect(domain?.description).toBe('Renamed domain');
+    expect(domain?.parts[''].active).toContain(
+      'adtcore:description="Renamed domain"',
+    );
+    expect(domain?.parts[''].inactive).toBeUndefined();
+  });
+
+  it('deletes an object, unless another connection holds its lock', async () => {
+    const { server, client } = setup();
+    server.addObject({ type: 'CLAS/OC', name: 'ZCL_FAKE' });
+    const other = new AdtClient(server.createConnection());
+    const handle = await other.getClass().lock({ className: 'ZCL_FAKE' });
+
+    await expect(
+      client.getClass().delete({ className: 'ZCL_FAKE' }),
+    ).rejects.toThrow();
+    expect(server.getObject('CLAS/OC', 'ZCL_FAKE')).toBeDefined();
+
+    await other.getClass().unlock({ className: 'ZCL_FAKE' }, handle);
+    await client.getClass().delete({ className: 'ZCL_FAKE' });
+
+    expect(server.getObject('CLAS/OC', 'ZCL_FAKE')).toBeUndefined();
+    expect(
+      await client.getClass().read({ className: 'ZCL_FAKE' }),
+    ).toBeUndefined();
+  });
+
+  it('refuses a request outside the lifecycle it simulates', async () => {
+    const connection = new FakeAdtServer().createConnection();
+
+    await expect(
+      connection.makeAdtRequest({
+        method: 'GET',
+        url: '/sap/bc/adt/datapreview/freestyle',
+        timeout: 1000,
+      }),
+    ).rejects.toMatchObject({ code: 'FAKE_ADT_UNSUPPORTED_REQUEST' });
+  });
+
+  it('records the session each request was made in', async () => {
+    const { server, client } = setup();
+    server.addObject({ type: 'CLAS/OC', name: 'ZCL_FAKE' });
+    await client.getClass().lock({ className: 'ZCL_FAKE' });
+
+    const [lock] = server.getRequests();
+    expect(lock).toMatchObject({
+      method: 'POST',
+      path: '/sap/bc/adt/oo/classes/zcl_fake',
+      params: { _action: 'LOCK' },
+      sessionType: 'stateful',
+      status: 200,
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import {
+  adtUriToSourcePath,
+  parseAdtSourcePosition,
+  resolveSourcePosition,
+} from '../../../utils/sourcePosition';
+
+describe('parseAdtSourcePosition', () => {
+  it('reads line and column from the start of the fragment', () => {
+    expect(
+      parseAdtSourcePosition(
+        '/sap/bc/adt/oo/classes/zcl_x/source/main#start=30,4;end=31,0',
+      ),
+    ).toEqual({
+      uri: '/sap/bc/adt/oo/classes/zcl_x/source/main',
+      line: 30,
+      column: 4,
+    });
+  });
+
+  it('leaves out what the fragment does not carry', () => {
+    expect(parseAdtSourcePosition('/x/source/main#start=7')).toEqual({
+      uri: '/x/source/main',
+      line: 7,
+      column: undefined,
+    });
+    expect(parseAdtSourcePosition('/x#type=CLAS/OM;name=RUN')).toEqual({
+      uri: '/x',
+    });
+  });
+});
+
+describe('adtUriToSourcePath', () => {
+  it.each([
+    ['/sap/bc/adt/oo/classes/zcl_x/source/main', 'zcl_x.clas.abap'],
+    [
+      '/sap/bc/adt/oo/classes/zcl_x/includes/testclasses#start=3,0',
+      'zcl_x.clas.testclasses.abap',
+    ],
+    [
+      '/sap/bc/adt/oo/classes/zcl_x/includes/implementations',
+      'zcl_x.clas.locals_imp.abap',
+    ],
+    ['/sap/bc/adt/oo/interfaces/zif_x/source/main', 'zif_x.intf.abap'],
+    ['/sap/bc/adt/programs/programs/zprog/source/main', 'zprog.prog.abap'],
+    [
+      '/sap/bc/adt/functions/groups/zfg/fmodules/z_fm/source/main',
+      'zfg.fugr.z_fm.abap',
+    ],
+    ['/sap/bc/adt/functions/groups/zfg/source/main', 'zfg.fugr.saplzfg.abap'],
+    [
+      '/sap/bc/adt/functions/groups/%2fns%2ffg/source/main',
+      '#ns#fg.fugr.#ns#saplfg.abap',
+    ],
+    ['/sap/bc/adt/ddic/ddl/sources/zi_x/source/main', 'zi_x.ddls.asddls'],
+    ['/sap/bc/adt/oo/classes/%2fns%2fcl_x/source/main', '#ns#cl_x.clas.abap'],
+  ])('%s → %s', (uri, path) => {
+    expect(adtUriToSourcePath(uri)).toBe(path);
+  });
+
+  it('names no file for a URI that is not a known source include', () => {
+    expect(adtUriToSourcePath('/sap/bc/adt/ddic/tables/ztab')).toBeUndefined();
+    expect(
+      adtUriToSourcePath('/sap/bc/adt/oo/classes/zcl_x/includes/unknown'),
+    ).toBeUndefined();
+  });
+});
+
+describe('resolveSourcePosition', () => {
+  it('puts the file under src/ unless told otherwise', () => {
+    const uri = '/sap/bc/adt/oo/classes/zcl_x/source/main#start=2,1';
+    expect(resolveSourcePosition(uri).path).toBe('src/zcl_x.clas.abap');
+    expect(resolveSourcePosition(uri, { sourceRoot: 'abap/' }).path).toBe(
+      'abap/zcl_x.clas.abap',
+    );
+    expect(
+      resolveSourcePosition(uri, {
+        resolveSourcePath: (u) => `pkg/${u.split('/')[6]}.abap`,
+      }),
+    ).toEqual({ path: 'pkg/zcl_x.abap', line: 2, column: 1 });
+  });
+});
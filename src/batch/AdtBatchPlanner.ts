@@ -0,0 +1,64 @@
+import type {
+  IAbapConnection,
+  IAdtClientOptions,
+  ILogger,
+} from '@mcp-abap-adt/interfaces';
+import { AdtClient } from '../clients/AdtClient';
+import { planBatch } from './planBatch';
+import type {
+  BatchPlanOutcome,
+  IBatchPlanOperation,
+  IBatchPlanOptions,
+} from './types';
+
+/**
+ * Runs a flat list of reads in as few `$batch` requests as is safe, so that
+ * bulk reads — the sources of 500 classes, the metadata of a package's
+ * objects — need no hand-rolled loop around `AdtClientBatch`.
+ *
+ * The list is cut into chunks of `chunkSize` operations; each chunk becomes
+ * one `$batch` request, and `concurrency` of them are in flight at once.
+ * Operations are recorded separately, each through its own client, so the
+ * response to each is matched to its operation by construction, not by
+ * position in a shared recording.
+ *
+ * A failed operation — its part answered with an error, or its whole batch
+ * lost — is run again on its own against the real connection, up to
+ * `retries` times, when `isRetryable` says the error could go away. Results
+ * come back keyed by the operation's `key`; one failure never fails the
+ * plan.
+ *
+ * Meant for reads. A write planned here is sent once, in a batch, and may be
+ * sent again by a retry.
+ */
+export class AdtBatchPlanner {
+  private readonly realConnection: IAbapConnection;
+  private readonly logger?: ILogger;
+  private readonly clientOptions?: IAdtClientOptions;
+
+  constructor(
+    connection: IAbapConnection,
+    logger?: ILogger,
+    options?: IAdtClientOptions,
+  ) {
+    this.realConnection = connection;
+    this.logger = logger;
+    this.clientOptions = options;
+  }
+
+  async execute<T>(
+    operations: IBatchPlanOperation<T>[],
+    options: IBatchPlanOptions = {},
+  ): Promise<Map<string, BatchPlanOutcome<T>>> {
+    return planBatch(
+      {
+        connection: this.realConnection,
+        createClient: (connection) =>
+          new AdtClient(connection, this.logger, this.clientOptions),
+        logger: this.logger,
+      },
+      operations,
+      options,
+    );
+  }
+}
@@ -6,8 +6,7 @@ import type {
 } from '@mcp-abap-adt/interfaces';
 import { AdtClient } from '../clients/AdtClient';
 import { BatchRecordingConnection } from './BatchRecordingConnection';
-import { buildBatchPayload } from './buildBatchPayload';
-import { parseBatchResponse } from './parseBatchResponse';
+import { sendBatch } from './sendBatch';
 
 export class AdtClientBatch {
   private recorder: BatchRecordingConnection;
@@ -122,21 +121,7 @@ export class AdtClientBatch {
       return [];
     }
 
-    const payload = buildBatchPayload(parts);
-
-    const response = await this.realConnection.makeAdtRequest({
-      url: '/sap/bc/adt/debugger/batch',
-      method: 'POST',
-      timeout: 30000,
-      data: payload.body,
-      headers: {
-        'Content-Type': `multipart/mixed; boundary=${payload.boundary}`,
-        Accept: 'multipart/mixed',
-      },
-    });
-
-    const contentType = String(response.headers?.['content-type'] ?? '');
-    const parsed = parseBatchResponse(String(response.data), contentType);
+    const parsed = await sendBatch(this.realConnection, parts);
 
     this.recorder.resolveAll(parsed);
 
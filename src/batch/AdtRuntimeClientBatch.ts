@@ -1,20 +1,77 @@
-import type {
-  IAbapConnection,
-  IAdtResponse,
-  ILogger,
+import {
+  AdtOperationError,
+  type IAbapConnection,
+  type IAdtResponse,
+  type ILogger,
 } from '@mcp-abap-adt/interfaces';
 import { AdtRuntimeClient } from '../clients/AdtRuntimeClient';
+import {
+  type IRuntimeDumpHeader,
+  parseRuntimeDumpHeader,
+} from '../runtime/dumps/parse';
+import {
+  type ISnapshotObject,
+  parseSnapshotObjects,
+} from '../runtime/memory/parse';
+import { parseCrossTraceRecordNumbers } from '../runtime/traces/crossTraceParse';
 import { BatchRecordingConnection } from './BatchRecordingConnection';
-import { buildBatchPayload } from './buildBatchPayload';
-import { parseBatchResponse } from './parseBatchResponse';
+import { planBatch } from './planBatch';
+import { sendBatch } from './sendBatch';
+import type {
+  BatchPlanOutcome,
+  IBatchPlanOperation,
+  IBatchPlanOptions,
+  ICrossTraceRecordContent,
+  ICrossTraceRecordContentsOptions,
+  ISnapshotRankingChildrenOptions,
+} from './types';
+
+function unreadable(what: string): AdtOperationError {
+  const error = new AdtOperationError(`${what} is not in the expected format`);
+  error.code = 'RUNTIME_BATCH_UNREADABLE_RESPONSE';
+  return error;
+}
+
+/**
+ * Parse each successful outcome. A body that does not parse fails its own
+ * entry — after the plan, so a response that will never parse is not retried.
+ */
+function parseOutcomes<K, T>(
+  outcomes: Map<string, BatchPlanOutcome<IAdtResponse>>,
+  toKey: (key: string) => K,
+  parse: (response: IAdtResponse, key: string) => T | null,
+  what: string,
+): Map<K, BatchPlanOutcome<T>> {
+  const result = new Map<K, BatchPlanOutcome<T>>();
+  for (const [key, outcome] of outcomes) {
+    if (!outcome.ok) {
+      result.set(toKey(key), outcome);
+      continue;
+    }
+    const value = parse(outcome.value, key);
+    result.set(
+      toKey(key),
+      value === null
+        ? {
+            ok: false,
+            error: unreadable(`${what} '${key}'`),
+            attempts: outcome.attempts,
+          }
+        : { ok: true, value, attempts: outcome.attempts },
+    );
+  }
+  return result;
+}
 
 export class AdtRuntimeClientBatch {
   private recorder: BatchRecordingConnection;
   private innerRuntime: AdtRuntimeClient;
   private realConnection: IAbapConnection;
+  private logger?: ILogger;
 
   constructor(connection: IAbapConnection, logger?: ILogger) {
     this.realConnection = connection;
+    this.logger = logger;
     this.recorder = new BatchRecordingConnection(connection);
     this.innerRuntime = new AdtRuntimeClient(this.recorder, logger);
   }
@@ -31,21 +88,7 @@ export class AdtRuntimeClientBatch {
       return [];
     }
 
-    const payload = buildBatchPayload(parts);
-
-    const response = await this.realConnection.makeAdtRequest({
-      url: '/sap/bc/adt/debugger/batch',
-      method: 'POST',
-      timeout: 30000,
-      data: payload.body,
-      headers: {
-        'Content-Type': `multipart/mixed; boundary=${payload.boundary}`,
-        Accept: 'multipart/mixed',
-      },
-    });
-
-    const contentType = String(response.headers?.['content-type'] ?? '');
-    const parsed = parseBatchResponse(String(response.data), contentType);
+    const parsed = await sendBatch(this.realConnection, parts);
 
     this.recorder.resolveAll(parsed);
 
@@ -64,4 +107,154 @@ export class AdtRuntimeClientBatch {
   getRecorder(): BatchRecordingConnection {
     return this.recorder;
   }
+
+  // ============================================================================
+  // Bulk reads
+  //
+  // Independent of the recording above: each call plans and sends its own
+  // batches (see AdtBatchPlanner) and leaves recorded parts untouched.
+  // ============================================================================
+
+  /**
+   * Run runtime reads the way `AdtBatchPlanner.execute()` runs `AdtClient`
+   * reads: chunked into batches, each result under its operation's key.
+   */
+  async plan<T>(
+    operations: IBatchPlanOperation<T, AdtRuntimeClient>[],
+    options?: IBatchPlanOptions,
+  ): Promise<Map<string, BatchPlanOutcome<T>>> {
+    return planBatch(
+      {
+        connection: this.realConnection,
+        createClient: (connection) =>
+          new AdtRuntimeClient(connection, this.logger),
+        logger: this.logger,
+      },
+      operations,
+      options,
+    );
+  }
+
+  /**
+   * Read the header of each dump (`getDumps().getById()`, default view), keyed
+   * by the dump ID as given.
+   */
+  async getDumpsById(
+    dumpIds: string[],
+    options?: IBatchPlanOptions,
+  ): Promise<Map<string, BatchPlanOutcome<IRuntimeDumpHeader>>> {
+    const outcomes = await this.plan(
+      dumpIds.map((dumpId) => ({
+        key: dumpId,
+        run: (client) => client.getDumps().getById(dumpId),
+      })),
+      options,
+    );
+    return parseOutcomes(
+      outcomes,
+      (key) => key,
+      (response) => parseRuntimeDumpHeader(response.data),
+      'Runtime dump',
+    );
+  }
+
+  /**
+   * Read the content of every record of a cross trace, keyed by record
+   * number. Without `recordNumbers` the trace's records list is read first,
+   * on its own, to find them.
+   */
+  async getCrossTraceRecordContents(
+    traceId: string,
+    options: ICrossTraceRecordContentsOptions = {},
+  ): Promise<Map<number, BatchPlanOutcome<ICrossTraceRecordContent>>> {
+    const { recordNumbers: given, ...planOptions } = options;
+    let recordNumbers = given;
+    if (!recordNumbers) {
+      const records = await new AdtRuntimeClient(
+        this.realConnection,
+        this.logger,
+      )
+        .getCrossTrace()
+        .getRecords(traceId);
+      recordNumbers = parseCrossTraceRecordNumbers(records.data) ?? undefined;
+      if (!recordNumbers) {
+        throw unreadable(`Records list of cross trace '${traceId}'`);
+      }
+    }
+
+    const outcomes = await this.plan(
+      recordNumbers.map((recordNumber) => ({
+        key: String(recordNumber),
+        run: (client) =>
+          client.getCrossTrace().getRecordContent(traceId, recordNumber),
+      })),
+      planOptions,
+    );
+    return parseOutcomes(
+      outcomes,
+      Number,
+      (response, key) => ({
+        recordNumber: Number(key),
+        contentType:
+          response.headers?.['content-type'] != null
+            ? String(response.headers['content-type'])
+            : undefined,
+        content:
+          typeof response.data === 'string'
+            ? response.data
+            : JSON.stringify(response.data),
+      }),
+      'Cross trace record',
+    );
+  }
+
+  /**
+   * Expand the objects of a memory snapshot's ranking list: the children of
+   * each, keyed by the parent's object key. Without `parentKeys` the ranking
+   * list is read first, on its own, to find them.
+   */
+  async getSnapshotRankingChildren(
+    snapshotId: string,
+    options: ISnapshotRankingChildrenOptions = {},
+  ): Promise<Map<string, BatchPlanOutcome<ISnapshotObject[]>>> {
+    const {
+      parentKeys: given,
+      rankingList,
+      children,
+      ...planOptions
+    } = options;
+    let parentKeys = given;
+    if (!parentKeys) {
+      const ranking = await new AdtRuntimeClient(
+        this.realConnection,
+        this.logger,
+      )
+        .getDebugger()
+        .getMemorySnapshots()
+        .getRankingList(snapshotId, rankingList);
+      const objects = parseSnapshotObjects(ranking.data);
+      if (!objects) {
+        throw unreadable(`Ranking list of snapshot '${snapshotId}'`);
+      }
+      parentKeys = [...new Set(objects.map(({ key }) => key))];
+    }
+
+    const outcomes = await this.plan(
+      parentKeys.map((parentKey) => ({
+        key: parentKey,
+        run: (client) =>
+          client
+            .getDebugger()
+            .getMemorySnapshots()
+            .getChildren(snapshotId, parentKey, children),
+      })),
+      planOptions,
+    );
+    return parseOutcomes(
+      outcomes,
+      (key) => key,
+      (response) => parseSnapshotObjects(response.data),
+      'Children of snapshot object',
+    );
+  }
 }
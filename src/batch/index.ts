@@ -1,3 +1,4 @@
+export { AdtBatchPlanner } from './AdtBatchPlanner';
 export { AdtClientBatch } from './AdtClientBatch';
 export { AdtRuntimeClientBatch } from './AdtRuntimeClientBatch';
 export { BatchRecordingConnection } from './BatchRecordingConnection';
@@ -9,3 +10,11 @@ export {
   serializeParams,
 } from './buildBatchPayload';
 export { extractBoundary, parseBatchResponse } from './parseBatchResponse';
+export type {
+  BatchPlanOutcome,
+  IBatchPlanOperation,
+  IBatchPlanOptions,
+  ICrossTraceRecordContent,
+  ICrossTraceRecordContentsOptions,
+  ISnapshotRankingChildrenOptions,
+} from './types';
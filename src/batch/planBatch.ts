@@ -0,0 +1,317 @@
+import {
+  AdtOperationError,
+  type IAbapConnection,
+  type IAbapRequestOptions,
+  type IAdtResponse,
+  type IBatchRequestPart,
+  type IBatchResponsePart,
+  type ILogger,
+} from '@mcp-abap-adt/interfaces';
+import { AxiosError, type AxiosResponse } from 'axios';
+import { sendBatch } from './sendBatch';
+import type {
+  BatchPlanOutcome,
+  IBatchPlanOperation,
+  IBatchPlanOptions,
+} from './types';
+
+function planError(code: string, message: string): AdtOperationError {
+  const error = new AdtOperationError(message);
+  error.code = code;
+  return error;
+}
+
+function statusOf(error: unknown): number | undefined {
+  const failure = error as {
+    status?: unknown;
+    response?: { status?: unknown };
+  };
+  const status = failure?.status ?? failure?.response?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/** Network failures that can go away; they come without an HTTP status. */
+const TRANSIENT_NETWORK_CODES = new Set([
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'ECONNREFUSED',
+]);
+
+function defaultIsRetryable(error: unknown): boolean {
+  const status = statusOf(error);
+  if (status === undefined) {
+    // A coded error without a status — a validation, a parse — fails the
+    // same way again.
+    const code = (error as { code?: unknown })?.code;
+    return typeof code === 'string' && TRANSIENT_NETWORK_CODES.has(code);
+  }
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Connection for one planned operation: its first request is held back for
+ * the batch, anything after that goes straight to the real connection.
+ *
+ * `BatchRecordingConnection` defers every request, so an operation that
+ * awaits a response before its next request deadlocks. A planned operation
+ * cannot: its second request only happens after the batch answered the first,
+ * and is then simply sent. A multi-step read therefore costs a round-trip per
+ * extra step, but never hangs the plan.
+ */
+class DeferredPartConnection implements IAbapConnection {
+  part: IBatchRequestPart | undefined;
+  /** Settles once the first request is held, so the chunk knows it can be sent. */
+  readonly recorded: Promise<void>;
+  private signalRecorded!: () => void;
+  private resolve?: (value: IAdtResponse) => void;
+  private reject?: (reason: unknown) => void;
+
+  constructor(private readonly realConnection: IAbapConnection) {
+    this.recorded = new Promise((resolve) => {
+      this.signalRecorded = resolve;
+    });
+  }
+
+  async connect(): Promise<void> {
+    return this.realConnection.connect();
+  }
+
+  getBaseUrl(): Promise<string> {
+    return this.realConnection.getBaseUrl();
+  }
+
+  getSessionId(): string | null {
+    return this.realConnection.getSessionId();
+  }
+
+  setSessionType(_type: 'stateful' | 'stateless'): void {
+    // no-op — planned operations are stateless reads
+  }
+
+  makeAdtRequest<T = unknown, D = unknown>(
+    options: IAbapRequestOptions,
+  ): Promise<IAdtResponse<T, D>> {
+    if (this.part) {
+      return this.realConnection.makeAdtRequest<T, D>(options);
+    }
+    this.part = {
+      method: options.method,
+      url: options.url,
+      headers: options.headers ?? {},
+      data: options.data != null ? String(options.data) : undefined,
+      params:
+        options.params != null
+          ? (options.params as Record<string, string>)
+          : undefined,
+    };
+    const response = new Promise<IAdtResponse<T, D>>((resolve, reject) => {
+      this.resolve = resolve as (value: IAdtResponse) => void;
+      this.reject = reject;
+    });
+    this.signalRecorded();
+    return response;
+  }
+
+  /**
+   * Answer the held request. An error status is thrown as axios would throw
+   * it, with the response attached, so the handler's own 404 and 4xx
+   * handling runs as it does on a live connection.
+   */
+  settle(part: IBatchResponsePart): void {
+    const response: IAdtResponse = {
+      data: part.data,
+      status: part.status,
+      statusText: part.statusText,
+      headers: part.headers,
+    };
+    if (part.status >= 400) {
+      this.reject?.(
+        new AxiosError(
+          `Request failed with status code ${part.status}`,
+          AxiosError.ERR_BAD_RESPONSE,
+          undefined,
+          undefined,
+          response as AxiosResponse,
+        ),
+      );
+    } else {
+      this.resolve?.(response);
+    }
+  }
+
+  fail(error: unknown): void {
+    this.reject?.(error);
+  }
+}
+
+/** What a plan runs against: the real connection and how a client is made on it. */
+export interface IBatchPlanContext<C> {
+  connection: IAbapConnection;
+  createClient: (connection: IAbapConnection) => C;
+  logger?: ILogger;
+}
+
+/**
+ * The engine behind `AdtBatchPlanner` and the bulk reads of
+ * `AdtRuntimeClientBatch`: chunk, record, send, retry. It does not care which
+ * client an operation is handed, only that the client sends its requests
+ * through the connection it was made with.
+ */
+export async function planBatch<C, T>(
+  context: IBatchPlanContext<C>,
+  operations: IBatchPlanOperation<T, C>[],
+  options: IBatchPlanOptions = {},
+): Promise<Map<string, BatchPlanOutcome<T>>> {
+  const chunkSize = options.chunkSize ?? 50;
+  const concurrency = options.concurrency ?? 2;
+  for (const [name, value] of [
+    ['chunkSize', chunkSize],
+    ['concurrency', concurrency],
+  ] as const) {
+    if (!Number.isInteger(value) || value < 1) {
+      throw planError(
+        'BATCH_PLAN_INVALID_OPTIONS',
+        `${name} must be a positive integer, got ${value}`,
+      );
+    }
+  }
+  const seen = new Set<string>();
+  for (const { key } of operations) {
+    if (seen.has(key)) {
+      throw planError(
+        'BATCH_PLAN_DUPLICATE_KEY',
+        `Operation key '${key}' is used more than once; results are keyed by it`,
+      );
+    }
+    seen.add(key);
+  }
+
+  const chunks: IBatchPlanOperation<T, C>[][] = [];
+  for (let i = 0; i < operations.length; i += chunkSize) {
+    chunks.push(operations.slice(i, i + chunkSize));
+  }
+
+  let directClient: C | undefined;
+  const direct = () => {
+    directClient ??= context.createClient(context.connection);
+    return directClient;
+  };
+
+  const outcomes = new Map<string, BatchPlanOutcome<T>>();
+  let next = 0;
+  const worker = async () => {
+    while (next < chunks.length) {
+      const chunk = chunks[next++];
+      const results = await runChunk(context, chunk, options, direct);
+      chunk.forEach((operation, i) => {
+        outcomes.set(operation.key, results[i]);
+      });
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, chunks.length) }, worker),
+  );
+
+  // Input order, whatever order the chunks finished in.
+  return new Map(
+    operations.map(({ key }) => [
+      key,
+      outcomes.get(key) as BatchPlanOutcome<T>,
+    ]),
+  );
+}
+
+async function runChunk<C, T>(
+  context: IBatchPlanContext<C>,
+  chunk: IBatchPlanOperation<T, C>[],
+  options: IBatchPlanOptions,
+  direct: () => C,
+): Promise<BatchPlanOutcome<T>[]> {
+  const entries = chunk.map((operation) => {
+    const connection = new DeferredPartConnection(context.connection);
+    const result = operation.run(context.createClient(connection));
+    const settled = result.then(
+      (value) => ({ ok: true as const, value }),
+      (error: unknown) => ({ ok: false as const, error }),
+    );
+    return { operation, connection, settled };
+  });
+
+  // Each operation either reaches its first request or ends without one
+  // (a validation error before any request is made).
+  await Promise.all(
+    entries.map(({ connection, settled }) =>
+      Promise.race([connection.recorded, settled]),
+    ),
+  );
+
+  const recorded = entries.filter(({ connection }) => connection.part);
+  // Parts whose batch failed as a whole: their operations never ran, so one
+  // more attempt is due whatever the error.
+  const lost = new Set<(typeof entries)[number]>();
+  if (recorded.length > 0) {
+    try {
+      const responses = await sendBatch(
+        context.connection,
+        recorded.map(({ connection }) => connection.part as IBatchRequestPart),
+      );
+      if (responses.length !== recorded.length) {
+        throw planError(
+          'BATCH_RESPONSE_MISMATCH',
+          `Batch response count (${responses.length}) does not match request count (${recorded.length})`,
+        );
+      }
+      recorded.forEach(({ connection }, i) => {
+        connection.settle(responses[i]);
+      });
+    } catch (error) {
+      context.logger?.warn?.(
+        `Batch of ${recorded.length} parts failed as a whole:`,
+        error instanceof Error ? error.message : String(error),
+      );
+      for (const entry of recorded) {
+        lost.add(entry);
+        entry.connection.fail(error);
+      }
+    }
+  }
+
+  return Promise.all(
+    entries.map(async (entry) => {
+      const first = await entry.settled;
+      if (first.ok) return { ok: true, value: first.value, attempts: 1 };
+      return retry(
+        entry.operation,
+        first.error,
+        options,
+        direct,
+        lost.has(entry),
+      );
+    }),
+  );
+}
+
+async function retry<C, T>(
+  operation: IBatchPlanOperation<T, C>,
+  firstError: unknown,
+  options: IBatchPlanOptions,
+  direct: () => C,
+  batchLost: boolean,
+): Promise<BatchPlanOutcome<T>> {
+  const retries = options.retries ?? 1;
+  const isRetryable = options.isRetryable ?? defaultIsRetryable;
+  let error = firstError;
+  let attempts = 1;
+  while (
+    attempts <= retries &&
+    ((batchLost && attempts === 1) || isRetryable(error))
+  ) {
+    attempts += 1;
+    try {
+      return { ok: true, value: await operation.run(direct()), attempts };
+    } catch (retryError) {
+      error = retryError;
+    }
+  }
+  return { ok: false, error, attempts };
+}
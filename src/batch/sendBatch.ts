@@ -0,0 +1,32 @@
+import type {
+  IAbapConnection,
+  IBatchRequestPart,
+  IBatchResponsePart,
+} from '@mcp-abap-adt/interfaces';
+import { buildBatchPayload } from './buildBatchPayload';
+import { parseBatchResponse } from './parseBatchResponse';
+
+/**
+ * Send recorded parts as one `multipart/mixed` request to the ADT batch
+ * endpoint and return the parsed parts, in the order they were sent.
+ */
+export async function sendBatch(
+  connection: IAbapConnection,
+  parts: IBatchRequestPart[],
+): Promise<IBatchResponsePart[]> {
+  const payload = buildBatchPayload(parts);
+
+  const response = await connection.makeAdtRequest({
+    url: '/sap/bc/adt/debugger/batch',
+    method: 'POST',
+    timeout: 30000,
+    data: payload.body,
+    headers: {
+      'Content-Type': `multipart/mixed; boundary=${payload.boundary}`,
+      Accept: 'multipart/mixed',
+    },
+  });
+
+  const contentType = String(response.headers?.['content-type'] ?? '');
+  return parseBatchResponse(String(response.data), contentType);
+}
@@ -0,0 +1,83 @@
+/**
+ * Batch planner types.
+ *
+ * The wire contract of a batch (`IBatchRequestPart`, `IBatchResponsePart`)
+ * lives in @mcp-abap-adt/interfaces. These describe how `AdtBatchPlanner`
+ * is driven and what it returns, which belongs to this package alone.
+ */
+
+import type { AdtClient } from '../clients/AdtClient';
+import type {
+  ISnapshotChildrenOptions,
+  ISnapshotRankingListOptions,
+} from '../runtime/memory/snapshots';
+
+/**
+ * One read to plan. `run` is called with a client whose first request is
+ * deferred into a batch — the same `AdtClient` calls a consumer would make
+ * against a live one, e.g. `(client) => client.getUtils().readObjectSource(
+ * 'class', name)`. `C` is `AdtRuntimeClient` for `AdtRuntimeClientBatch.plan()`.
+ */
+export interface IBatchPlanOperation<T = unknown, C = AdtClient> {
+  /** Identifies the operation in the result map; unique within a plan. */
+  key: string;
+  run: (client: C) => Promise<T>;
+}
+
+export interface IBatchPlanOptions {
+  /** Operations per `$batch` request. Default 50. */
+  chunkSize?: number;
+  /** `$batch` requests in flight at once. Default 2. */
+  concurrency?: number;
+  /**
+   * Times a failed operation is run again on its own, outside any batch.
+   * Default 1; 0 turns retries off.
+   */
+  retries?: number;
+  /**
+   * Whether a failure is worth another attempt. By default: a network error
+   * without an HTTP status (`ECONNRESET`, `ETIMEDOUT`, `ECONNREFUSED`), 429
+   * and 5xx. A 404, a 403 or a coded error such as a validation failure would
+   * only fail the same way again. An operation whose whole batch was lost is
+   * run once more regardless.
+   */
+  isRetryable?: (error: unknown) => boolean;
+}
+
+/** How one planned operation ended. */
+export type BatchPlanOutcome<T = unknown> =
+  | {
+      ok: true;
+      value: T;
+      /** 1 when it succeeded inside its batch; more after retries. */
+      attempts: number;
+    }
+  | {
+      ok: false;
+      /** The error of the last attempt. */
+      error: unknown;
+      attempts: number;
+    };
+
+/** Options of `AdtRuntimeClientBatch.getCrossTraceRecordContents()`. */
+export interface ICrossTraceRecordContentsOptions extends IBatchPlanOptions {
+  /** Records to read. By default every record the trace's records list names. */
+  recordNumbers?: number[];
+}
+
+/** The content of one cross trace record, as the server sent it. */
+export interface ICrossTraceRecordContent {
+  recordNumber: number;
+  contentType?: string;
+  content: string;
+}
+
+/** Options of `AdtRuntimeClientBatch.getSnapshotRankingChildren()`. */
+export interface ISnapshotRankingChildrenOptions extends IBatchPlanOptions {
+  /** Objects to expand. By default every object of the ranking list. */
+  parentKeys?: string[];
+  /** How the ranking list is read, when `parentKeys` is not given. */
+  rankingList?: ISnapshotRankingListOptions;
+  /** How the children of each object are read. */
+  children?: ISnapshotChildrenOptions;
+}
@@ -0,0 +1,256 @@
+/**
+ * Offline abapGit serializer.
+ *
+ * `AdtAbapGitClient` drives the abapGit that runs on the server; this needs
+ * none. It reads objects through the `AdtClient` handlers and writes them in
+ * abapGit's file layout — `.clas.abap`, `.clas.locals_imp.abap`,
+ * `.tabl.xml`, … — and creates or updates objects from such files, so code
+ * can be versioned in git from outside the system.
+ *
+ * Standalone top-level class, like `AdtAbapGitClient`: constructed over the
+ * `AdtClient` whose handlers it uses — `AdtClientLegacy` works too, within
+ * what its handlers support. The per-type work is in ./abapGit/serializer/*;
+ * this class owns the order, the paths and the activation.
+ */
+
+import type { ILogger, IObjectReference } from '@mcp-abap-adt/interfaces';
+import { parseActivationResponse } from '../utils/managementOperations';
+import type { AdtClient } from './AdtClient';
+import {
+  abapGitError,
+  buildRepositoryXml,
+} from './abapGit/serializer/abapGitXml';
+import { groupAbapGitFiles, objectFilePaths } from './abapGit/serializer/files';
+import {
+  ABAPGIT_SERIALIZERS,
+  serializerFor,
+} from './abapGit/serializer/registry';
+import type {
+  IAbapGitDeserializedObject,
+  IAbapGitDeserializeOptions,
+  IAbapGitDeserializeResult,
+  IAbapGitFile,
+  IAbapGitObjectRef,
+  IAbapGitSerializeOptions,
+  IAbapGitSerializePackageOptions,
+  IAbapGitSerializeResult,
+  IAbapGitSkippedObject,
+} from './abapGit/serializer/types';
+
+function folderOf(options: IAbapGitSerializeOptions): string {
+  const folder = (options.startingFolder ?? 'src/').replace(/^\/+|\/+$/g, '');
+  return folder ? `${folder}/` : '';
+}
+
+export class AdtAbapGitSerializer {
+  private readonly client: AdtClient;
+  private readonly logger?: ILogger;
+
+  constructor(client: AdtClient, logger?: ILogger) {
+    this.client = client;
+    this.logger = logger;
+  }
+
+  /** The abapGit object types this serializes: `CLAS`, `TABL`, … */
+  supportedTypes(): string[] {
+    return ABAPGIT_SERIALIZERS.map((serializer) => serializer.type);
+  }
+
+  /**
+   * The files of the given objects, plus `.abapgit.xml` unless
+   * `repositoryFile` is false.
+   *
+   * Refuses a type there is no serializer for (`ABAPGIT_TYPE_UNSUPPORTED`)
+   * and an object that does not exist (`ABAPGIT_OBJECT_NOT_FOUND`): the
+   * objects were asked for by name, and files without them would look
+   * complete.
+   */
+  async serialize(
+    objects: IAbapGitObjectRef[],
+    options: IAbapGitSerializeOptions = {},
+  ): Promise<IAbapGitSerializeResult> {
+    const result: IAbapGitSerializeResult = {
+      files: [],
+      objects: [],
+      skipped: [],
+    };
+    for (const object of objects) {
+      const serializer = serializerFor(object.type);
+      if (!serializer) {
+        throw abapGitError(
+          'ABAPGIT_TYPE_UNSUPPORTED',
+          `There is no abapGit serializer for ${object.type}; supported: ${this.supportedTypes().join(', ')}.`,
+        );
+      }
+      await this.serializeOne(serializer.type, object.name, options, result);
+    }
+    return this.withRepositoryFile(result, options);
+  }
+
+  /**
+   * The files of every object of a package — of its subpackages too with
+   * `includeSubpackages`, all in the one starting folder.
+   *
+   * Objects of a type there is no serializer for, and objects whose content
+   * a serializer cannot hold (`ABAPGIT_OBJECT_UNSUPPORTED`), are not an
+   * error here: a package holds them, and they are listed in `skipped` with
+   * the reason.
+   */
+  async serializePackage(
+    packageName: string,
+    options: IAbapGitSerializePackageOptions = {},
+  ): Promise<IAbapGitSerializeResult> {
+    const items = await this.client
+      .getUtils()
+      .getPackageContentsList(packageName, {
+        includeSubpackages: options.includeSubpackages,
+      });
+    const result: IAbapGitSerializeResult = {
+      files: [],
+      objects: [],
+      skipped: [],
+    };
+    for (const item of items) {
+      if (item.isPackage) continue;
+      const adtType = String(item.type).toUpperCase();
+      const serializer = ABAPGIT_SERIALIZERS.find((s) => s.adtType === adtType);
+      if (!serializer) {
+        const member = ABAPGIT_SERIALIZERS.some((s) =>
+          s.memberAdtTypes?.includes(adtType),
+        );
+        if (!member) {
+          result.skipped.push({
+            type: adtType,
+            name: item.name,
+            reason: `No abapGit serializer for ${adtType}`,
+          });
+        }
+        continue;
+      }
+      try {
+        await this.serializeOne(serializer.type, item.name, options, result);
+      } catch (error) {
+        if (
+          (error as { code?: string }).code !== 'ABAPGIT_OBJECT_UNSUPPORTED'
+        ) {
+          throw error;
+        }
+        result.skipped.push({
+          type: serializer.type,
+          name: item.name,
+          reason: (error as Error).message,
+        } satisfies IAbapGitSkippedObject);
+      }
+    }
+    return this.withRepositoryFile(result, options);
+  }
+
+  /**
+   * Create or update objects from abapGit files, then activate what was
+   * written in one group activation — unless `activate` is false.
+   *
+   * Each object is serialized as it stands first, and only what differs from
+   * its files is written: an object the files match is `unchanged` and is
+   * neither locked nor activated. New objects are created in `packageName`;
+   * the folder a file is in is not mapped to a package. Nothing is deleted —
+   * neither objects the files lack nor parts of them, except a class's local
+   * include, which is written empty (see `class.ts`).
+   *
+   * The activation's messages are returned, not thrown: by then every object
+   * has been written, and which of them failed to activate is the answer.
+   */
+  async deserialize(
+    files: IAbapGitFile[],
+    options: IAbapGitDeserializeOptions,
+  ): Promise<IAbapGitDeserializeResult> {
+    if (!options.packageName) {
+      throw new Error('Package name is required');
+    }
+    const { objects, other } = groupAbapGitFiles(files);
+    const result: IAbapGitDeserializeResult = {
+      objects: [],
+      skippedFiles: [...other],
+    };
+    const context = {
+      client: this.client,
+      packageName: options.packageName.toUpperCase(),
+      transportRequest: options.transportRequest,
+    };
+    const toActivate: IObjectReference[] = [];
+
+    for (const serializer of ABAPGIT_SERIALIZERS) {
+      for (const object of objects) {
+        if (object.type !== serializer.type) continue;
+        this.logger?.debug?.(
+          `AdtAbapGitSerializer.deserialize: ${object.type} ${object.name}`,
+        );
+        const current = await serializer.serialize(this.client, object.name);
+        const written = await serializer.deserialize(
+          context,
+          object.name,
+          object.files,
+          current,
+        );
+        toActivate.push(...written.activate);
+        result.objects.push({
+          type: object.type,
+          name: object.name,
+          action: !current
+            ? 'created'
+            : written.changed
+              ? 'updated'
+              : 'unchanged',
+        } satisfies IAbapGitDeserializedObject);
+      }
+    }
+    for (const object of objects) {
+      if (!serializerFor(object.type))
+        result.skippedFiles.push(...object.paths);
+    }
+
+    if (options.activate !== false && toActivate.length > 0) {
+      const response = await this.client
+        .getUtils()
+        .activateObjectsGroup(toActivate);
+      result.activation = parseActivationResponse(response.data);
+    }
+    return result;
+  }
+
+  private async serializeOne(
+    type: string,
+    objectName: string,
+    options: IAbapGitSerializeOptions,
+    result: IAbapGitSerializeResult,
+  ): Promise<void> {
+    const serializer = serializerFor(type);
+    if (!serializer) return;
+    const name = objectName.toUpperCase();
+    this.logger?.debug?.(`AdtAbapGitSerializer.serialize: ${type} ${name}`);
+    const files = await serializer.serialize(this.client, name);
+    if (!files) {
+      throw abapGitError(
+        'ABAPGIT_OBJECT_NOT_FOUND',
+        `${type} ${name} does not exist.`,
+      );
+    }
+    result.files.push(...objectFilePaths(folderOf(options), type, name, files));
+    result.objects.push({ type, name });
+  }
+
+  private withRepositoryFile(
+    result: IAbapGitSerializeResult,
+    options: IAbapGitSerializeOptions,
+  ): IAbapGitSerializeResult {
+    if (options.repositoryFile !== false) {
+      result.files.unshift({
+        path: '.abapgit.xml',
+        content: buildRepositoryXml(
+          folderOf(options),
+          options.masterLanguage ?? 'EN',
+        ),
+      });
+    }
+    return result;
+  }
+}
@@ -142,6 +142,7 @@ import {
   type IProgramConfig,
   type IProgramState,
 } from '../core/program';
+import { AdtRefactoring } from '../core/refactoring';
 import {
   AdtScalarFunction,
   type IScalarFunctionConfig,
@@ -160,6 +161,8 @@ import {
 } from '../core/serviceDefinition';
 import { AdtUtils } from '../core/shared/AdtUtils';
 import { type LockFailure, LockRegistry } from '../core/shared/LockRegistry';
+import type { ICdsPreview, IPrettyPrintingUpdate } from '../core/shared/types';
+import { AdtSourceIntelligence } from '../core/sourceIntelligence';
 import {
   AdtStructure,
   type IStructureConfig,
@@ -183,6 +186,9 @@ import {
   type ICdsUnitTestConfig,
   type ICdsUnitTestState,
   type IUnitTestConfig,
+  type IUnitTestCoverageReadable,
+  type IUnitTestPackageRunnable,
+  type IUnitTestRunOptions,
   type IUnitTestState,
 } from '../core/unitTest';
 
@@ -286,7 +292,8 @@ export class AdtClient {
    * Get high-level operations for Class objects
    * @returns IAdtObject instance for Class operations
    */
-  getClass(): IAdtSourceObject<IClassConfig, IClassState> {
+  getClass(): IAdtSourceObject<IClassConfig, IClassState> &
+    IPrettyPrintingUpdate<IClassConfig, IClassState> {
     this.assertConnected();
     return new AdtClass(
       this.connection,
@@ -301,7 +308,8 @@ export class AdtClient {
    * Get high-level operations for Program objects
    * @returns IAdtObject instance for Program operations
    */
-  getProgram(): IAdtSourceObject<IProgramConfig, IProgramState> {
+  getProgram(): IAdtSourceObject<IProgramConfig, IProgramState> &
+    IPrettyPrintingUpdate<IProgramConfig, IProgramState> {
     this.assertConnected();
     return new AdtProgram(
       this.connection,
@@ -316,7 +324,8 @@ export class AdtClient {
    * Get high-level operations for Interface objects
    * @returns IAdtObject instance for Interface operations
    */
-  getInterface(): IAdtSourceObject<IInterfaceConfig, IInterfaceState> {
+  getInterface(): IAdtSourceObject<IInterfaceConfig, IInterfaceState> &
+    IPrettyPrintingUpdate<IInterfaceConfig, IInterfaceState> {
     this.assertConnected();
     return new AdtInterface(
       this.connection,
@@ -477,9 +486,11 @@ export class AdtClient {
    * CDS views, AMDP table functions, and other DDL sources. Classic DDIC structures
    * (`/ddic/structures/`), tables (`/ddic/tables/`), and scalar functions
    * (`/ddic/dsfd/sources/`) have their own clients.
+   * The handler also previews the CDS entity a source defines, with
+   * parameters and association navigation ({@link ICdsPreview}).
    * @returns IAdtObject instance for DDL source operations
    */
-  getDdl(): IAdtSourceObject<IDdlConfig, IDdlState> {
+  getDdl(): IAdtSourceObject<IDdlConfig, IDdlState> & ICdsPreview<IDdlConfig> {
     this.assertConnected();
     return new AdtDdl(
       this.connection,
@@ -516,7 +527,8 @@ export class AdtClient {
   getFunctionModule(): IAdtSourceObject<
     IFunctionModuleConfig,
     IFunctionModuleState
-  > {
+  > &
+    IPrettyPrintingUpdate<IFunctionModuleConfig, IFunctionModuleState> {
     this.assertConnected();
     return new AdtFunctionModule(
       this.connection,
@@ -539,7 +551,8 @@ export class AdtClient {
     IAdtCheckable<IFunctionIncludeConfig, IFunctionIncludeState> &
     IAdtActivatable<IFunctionIncludeConfig, IFunctionIncludeState> &
     IAdtLockable<IFunctionIncludeConfig, IFunctionIncludeState> &
-    IAdtVersionable<IFunctionIncludeConfig> {
+    IAdtVersionable<IFunctionIncludeConfig> &
+    IPrettyPrintingUpdate<IFunctionIncludeConfig, IFunctionIncludeState> {
     this.assertConnected();
     return new AdtFunctionInclude(
       this.connection,
@@ -814,6 +827,8 @@ export class AdtClient {
    * It also carries {@link IAdtTestRunnable} — starting a run and collecting
    * its outcome is the reason this handler exists, and until interfaces 13.1.0
    * no contract described it, so callers cast past the type to reach it.
+   * `getCoverage` is declared for the same reason: a method the type hides is
+   * a method nobody can call without a cast.
    */
   getUnitTest(): IAdtCreatable<IUnitTestConfig, IUnitTestState> &
     IAdtReadable<IUnitTestConfig, IUnitTestState> &
@@ -821,8 +836,10 @@ export class AdtClient {
     IAdtDeletable<IUnitTestConfig, IUnitTestState> &
     IAdtValidatable<IUnitTestConfig, IUnitTestState> &
     IAdtLockable<IUnitTestConfig, IUnitTestState> &
-    IAdtRunnable<IClassUnitTestDefinition[], string, IClassUnitTestRunOptions> &
-    ITestRunInformation {
+    IAdtRunnable<IClassUnitTestDefinition[], string, IUnitTestRunOptions> &
+    ITestRunInformation &
+    IUnitTestCoverageReadable &
+    IUnitTestPackageRunnable {
     this.assertConnected();
     return new AdtUnitTest(this.connection, this.logger);
   }
@@ -859,6 +876,26 @@ export class AdtClient {
     return new AdtRequest(this.connection, this.logger, this.systemContext);
   }
 
+  /**
+   * Get server-side refactorings: rename, extract method, change package
+   *
+   * @returns AdtRefactoring instance — not an object handler
+   */
+  getRefactoring(): AdtRefactoring {
+    this.assertConnected();
+    return new AdtRefactoring(this.connection, this.logger);
+  }
+
+  /**
+   * Get code completion, element info and code insertion for ABAP source
+   *
+   * @returns AdtSourceIntelligence instance — not an object handler
+   */
+  getSourceIntelligence(): AdtSourceIntelligence {
+    this.assertConnected();
+    return new AdtSourceIntelligence(this.connection, this.logger);
+  }
+
   /**
    * Get utility functions (NOT CRUD operations)
    * Provides access to cross-cutting ADT utility functions:
@@ -891,7 +928,8 @@ export class AdtClient {
     IAdtActivatable<ILocalTestClassConfig, IClassState> &
     IAdtLockable<ILocalTestClassConfig, IClassState> &
     IAdtVersionable<ILocalTestClassConfig> &
-    IAdtTransportAware<ILocalTestClassConfig, IClassState> {
+    IAdtTransportAware<ILocalTestClassConfig, IClassState> &
+    IPrettyPrintingUpdate<ILocalTestClassConfig, IClassState> {
     this.assertConnected();
     return new AdtLocalTestClass(
       this.connection,
@@ -917,7 +955,8 @@ export class AdtClient {
     IAdtActivatable<ILocalTypesConfig, IClassState> &
     IAdtLockable<ILocalTypesConfig, IClassState> &
     IAdtVersionable<ILocalTypesConfig> &
-    IAdtTransportAware<ILocalTypesConfig, IClassState> {
+    IAdtTransportAware<ILocalTypesConfig, IClassState> &
+    IPrettyPrintingUpdate<ILocalTypesConfig, IClassState> {
     this.assertConnected();
     return new AdtLocalTypes(
       this.connection,
@@ -943,7 +982,8 @@ export class AdtClient {
     IAdtActivatable<ILocalDefinitionsConfig, IClassState> &
     IAdtLockable<ILocalDefinitionsConfig, IClassState> &
     IAdtVersionable<ILocalDefinitionsConfig> &
-    IAdtTransportAware<ILocalDefinitionsConfig, IClassState> {
+    IAdtTransportAware<ILocalDefinitionsConfig, IClassState> &
+    IPrettyPrintingUpdate<ILocalDefinitionsConfig, IClassState> {
     this.assertConnected();
     return new AdtLocalDefinitions(
       this.connection,
@@ -969,7 +1009,8 @@ export class AdtClient {
     IAdtActivatable<ILocalMacrosConfig, IClassState> &
     IAdtLockable<ILocalMacrosConfig, IClassState> &
     IAdtVersionable<ILocalMacrosConfig> &
-    IAdtTransportAware<ILocalMacrosConfig, IClassState> {
+    IAdtTransportAware<ILocalMacrosConfig, IClassState> &
+    IPrettyPrintingUpdate<ILocalMacrosConfig, IClassState> {
     this.assertConnected();
     return new AdtLocalMacros(
       this.connection,
@@ -30,7 +30,6 @@ import type {
   IAdtUpdatable,
   IAdtValidatable,
   IClassUnitTestDefinition,
-  IClassUnitTestRunOptions,
   ILogger,
   ITestRunInformation,
 } from '@mcp-abap-adt/interfaces';
@@ -54,12 +53,21 @@ import type { IPackageConfig, IPackageState } from '../core/package';
 import { AdtPackageLegacy } from '../core/package/AdtPackageLegacy';
 import type { IProgramConfig, IProgramState } from '../core/program';
 import { AdtProgramLegacy } from '../core/program/AdtProgramLegacy';
+import type { AdtRefactoring } from '../core/refactoring';
+import { AdtRefactoringLegacy } from '../core/refactoring/AdtRefactoringLegacy';
 import type { AdtUtils } from '../core/shared/AdtUtils';
 import { AdtUtilsLegacy } from '../core/shared/AdtUtilsLegacy';
 import { AdtContentTypesBase } from '../core/shared/contentTypes';
+import type { ICdsPreview, IPrettyPrintingUpdate } from '../core/shared/types';
 import type { AdtRequest } from '../core/transport';
 import { AdtRequestLegacy } from '../core/transport/AdtRequestLegacy';
-import type { IUnitTestConfig, IUnitTestState } from '../core/unitTest';
+import type {
+  IUnitTestConfig,
+  IUnitTestCoverageReadable,
+  IUnitTestPackageRunnable,
+  IUnitTestRunOptions,
+  IUnitTestState,
+} from '../core/unitTest';
 import { AdtUnitTestLegacy } from '../core/unitTest/AdtUnitTestLegacy';
 import { AdtClient } from './AdtClient';
 
@@ -91,7 +99,8 @@ export class AdtClientLegacy extends AdtClient {
 
   // --- Supported types with legacy overrides ---
 
-  override getProgram(): IAdtSourceObject<IProgramConfig, IProgramState> {
+  override getProgram(): IAdtSourceObject<IProgramConfig, IProgramState> &
+    IPrettyPrintingUpdate<IProgramConfig, IProgramState> {
     return new AdtProgramLegacy(
       this.connection,
       this.logger,
@@ -100,7 +109,8 @@ export class AdtClientLegacy extends AdtClient {
     );
   }
 
-  override getClass(): IAdtSourceObject<IClassConfig, IClassState> {
+  override getClass(): IAdtSourceObject<IClassConfig, IClassState> &
+    IPrettyPrintingUpdate<IClassConfig, IClassState> {
     return new AdtClassLegacy(
       this.connection,
       this.logger,
@@ -109,7 +119,8 @@ export class AdtClientLegacy extends AdtClient {
     );
   }
 
-  override getInterface(): IAdtSourceObject<IInterfaceConfig, IInterfaceState> {
+  override getInterface(): IAdtSourceObject<IInterfaceConfig, IInterfaceState> &
+    IPrettyPrintingUpdate<IInterfaceConfig, IInterfaceState> {
     return new AdtInterfaceLegacy(
       this.connection,
       this.logger,
@@ -138,7 +149,8 @@ export class AdtClientLegacy extends AdtClient {
   override getFunctionModule(): IAdtSourceObject<
     IFunctionModuleConfig,
     IFunctionModuleState
-  > {
+  > &
+    IPrettyPrintingUpdate<IFunctionModuleConfig, IFunctionModuleState> {
     return new AdtFunctionModuleLegacy(
       this.connection,
       this.logger,
@@ -159,7 +171,8 @@ export class AdtClientLegacy extends AdtClient {
     );
   }
 
-  override getDdl(): IAdtSourceObject<IDdlConfig, IDdlState> {
+  override getDdl(): IAdtSourceObject<IDdlConfig, IDdlState> &
+    ICdsPreview<IDdlConfig> {
     return new AdtDdlLegacy(this.connection, this.logger, this.systemContext);
   }
 
@@ -171,8 +184,10 @@ export class AdtClientLegacy extends AdtClient {
     IAdtDeletable<IUnitTestConfig, IUnitTestState> &
     IAdtValidatable<IUnitTestConfig, IUnitTestState> &
     IAdtLockable<IUnitTestConfig, IUnitTestState> &
-    IAdtRunnable<IClassUnitTestDefinition[], string, IClassUnitTestRunOptions> &
-    ITestRunInformation {
+    IAdtRunnable<IClassUnitTestDefinition[], string, IUnitTestRunOptions> &
+    ITestRunInformation &
+    IUnitTestCoverageReadable &
+    IUnitTestPackageRunnable {
     return new AdtUnitTestLegacy(this.connection, this.logger);
   }
 
@@ -186,6 +201,12 @@ export class AdtClientLegacy extends AdtClient {
     );
   }
 
+  // --- Refactorings without change package ---
+
+  override getRefactoring(): AdtRefactoring {
+    return new AdtRefactoringLegacy(this.connection, this.logger);
+  }
+
   // --- Utilities with legacy restrictions ---
 
   override getUtils(): AdtUtils {
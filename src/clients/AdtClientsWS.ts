@@ -1,10 +1,12 @@
 import { randomUUID } from 'node:crypto';
-import type {
-  ILogger,
-  IWebSocketConnectOptions,
-  IWebSocketMessageEnvelope,
-  IWebSocketMessageHandler,
-  IWebSocketTransport,
+import {
+  AdtOperationError,
+  type ILogger,
+  type IWebSocketCloseInfo,
+  type IWebSocketConnectOptions,
+  type IWebSocketMessageEnvelope,
+  type IWebSocketMessageHandler,
+  type IWebSocketTransport,
 } from '@mcp-abap-adt/interfaces';
 import { DebuggerSessionClient } from './DebuggerSessionClient';
 
@@ -13,21 +15,193 @@ export interface IAdtClientsWSRequestOptions {
   timeoutMs?: number;
 }
 
+export interface IAdtClientsWSReconnectOptions {
+  /** Attempts before giving up. Default 10. */
+  maxAttempts?: number;
+  /** Wait before the first attempt. Default 500 ms. */
+  initialDelayMs?: number;
+  /** Longest wait between attempts. Default 30 000 ms. */
+  maxDelayMs?: number;
+  /** How much longer each wait is than the one before. Default 2. */
+  factor?: number;
+  /**
+   * Requests in flight when the transport drops: `reject` fails them at once
+   * with `WS_CONNECTION_LOST`; `replay` sends them again, in the order they
+   * were first sent, once the transport is back. Default `reject`.
+   */
+  pending?: 'reject' | 'replay';
+}
+
+export interface IAdtClientsWSHeartbeatOptions {
+  /** How long the connection may be silent before it is pinged. Default 15 000 ms. */
+  intervalMs?: number;
+  /** How long a ping may go unanswered before the connection counts as lost. Default 5 000 ms. */
+  timeoutMs?: number;
+  /** Request operation used as the ping. Default `ws.ping`. */
+  operation?: string;
+}
+
 export interface IAdtClientsWSOptions {
   requestTimeoutMs?: number;
+  /** Reconnect after the transport drops. Off by default; `true` uses the defaults. */
+  reconnect?: boolean | IAdtClientsWSReconnectOptions;
+  /** Detect a connection that stopped answering. Off by default; `true` uses the defaults. */
+  heartbeat?: boolean | IAdtClientsWSHeartbeatOptions;
+}
+
+/**
+ * `idle` before the first `connect()`, `open` while connected, `reconnecting`
+ * between a drop and the transport coming back, `closed` after `disconnect()`
+ * or once reconnecting gave up.
+ */
+export type AdtClientsWSState = 'idle' | 'open' | 'reconnecting' | 'closed';
+
+export type AdtClientsWSEventHandler<T> = (
+  payload: T,
+  message: IWebSocketMessageEnvelope<T>,
+) => void | Promise<void>;
+
+export interface IAdtClientsWSEventsOptions {
+  /** Ends the iteration when aborted. */
+  signal?: AbortSignal;
 }
 
 type PendingRequest = {
   resolve: (payload: unknown) => void;
   reject: (error: Error) => void;
   timeout: ReturnType<typeof setTimeout>;
+  message: IWebSocketMessageEnvelope<unknown>;
 };
 
-export class AdtClientsWS {
+function wsError(code: string, message: string): AdtOperationError {
+  const error = new AdtOperationError(message);
+  error.code = code;
+  return error;
+}
+
+/**
+ * One `events()` iteration. Messages that arrive while the consumer is busy
+ * are buffered, so none is lost between two `next()` calls; the buffer is
+ * dropped when the iteration is ended by `return()` (a `break` out of the
+ * `for await`) or by the signal.
+ */
+class EventStream<T>
+  implements AsyncIterableIterator<IWebSocketMessageEnvelope<T>>
+{
+  private readonly buffer: IWebSocketMessageEnvelope<T>[] = [];
+  private waiting?: {
+    resolve: (result: IteratorResult<IWebSocketMessageEnvelope<T>>) => void;
+    reject: (error: Error) => void;
+  };
+  private done = false;
+  private failure?: Error;
+
+  constructor(
+    readonly operation: string | undefined,
+    private readonly detach: (stream: EventStream<T>) => void,
+  ) {}
+
+  push(message: IWebSocketMessageEnvelope<T>): void {
+    if (this.done) return;
+    if (this.waiting) {
+      const { resolve } = this.waiting;
+      this.waiting = undefined;
+      resolve({ value: message, done: false });
+    } else {
+      this.buffer.push(message);
+    }
+  }
+
+  /** End the iteration: after what is buffered, finish — or throw `error`. */
+  end(error?: Error): void {
+    if (this.done) return;
+    this.done = true;
+    this.failure = error;
+    this.detach(this);
+    if (this.waiting) {
+      const { resolve, reject } = this.waiting;
+      this.waiting = undefined;
+      this.failure = undefined;
+      if (error) reject(error);
+      else resolve({ value: undefined, done: true });
+    }
+  }
+
+  next(): Promise<IteratorResult<IWebSocketMessageEnvelope<T>>> {
+    const message = this.buffer.shift();
+    if (message) return Promise.resolve({ value: message, done: false });
+    if (this.done) {
+      const failure = this.failure;
+      this.failure = undefined;
+      return failure
+        ? Promise.reject(failure)
+        : Promise.resolve({ value: undefined, done: true });
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  return(): Promise<IteratorResult<IWebSocketMessageEnvelope<T>>> {
+    this.buffer.length = 0;
+    this.end();
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<
+    IWebSocketMessageEnvelope<T>
+  > {
+    return this;
+  }
+}
+
+/**
+ * Request/response and event facade over an `IWebSocketTransport`.
+ *
+ * `TEvents` maps event operations to their payloads, so that `on()` and
+ * `events()` hand out typed payloads; it is a declaration of what the backend
+ * sends, not a check of it.
+ *
+ * **Drops.** Without `reconnect`, a dropped transport fails every request in
+ * flight with `WS_CONNECTION_LOST` instead of leaving it to its timeout. With
+ * it, the transport is reconnected with exponential backoff and requests in
+ * flight are rejected or replayed as `reconnect.pending` says; a request made
+ * while reconnecting is rejected, or held and sent with the replay. A request
+ * keeps its own timeout throughout, so a replay never extends it. Once
+ * reconnecting gives up, what is still pending fails with
+ * `WS_RECONNECT_FAILED` and `events()` iterations throw it.
+ *
+ * **Heartbeat.** A half-open connection — the socket up, nothing coming
+ * through — raises no close. With `heartbeat`, a connection silent for
+ * `intervalMs` is pinged, and a ping that `timeoutMs` later still has no
+ * message of any kind behind it closes the transport, which then counts as a
+ * drop.
+ */
+export class AdtClientsWS<
+  TEvents extends Record<string, unknown> = Record<string, unknown>,
+> {
   private readonly logger: ILogger;
   private readonly requestTimeoutMs: number;
+  private readonly reconnectOptions?: Required<IAdtClientsWSReconnectOptions>;
+  private readonly heartbeatOptions?: Required<IAdtClientsWSHeartbeatOptions>;
   private readonly pending = new Map<string, PendingRequest>();
   private readonly eventHandlers: Array<IWebSocketMessageHandler<unknown>> = [];
+  private readonly subscribers = new Map<
+    string,
+    Set<AdtClientsWSEventHandler<unknown>>
+  >();
+  private readonly streams = new Set<EventStream<unknown>>();
+  private readonly stateHandlers: Array<(state: AdtClientsWSState) => void> =
+    [];
+  private state: AdtClientsWSState = 'idle';
+  private url?: string;
+  private connectOptions?: IWebSocketConnectOptions;
+  /** Set by `disconnect()`: the close that follows is not a drop. */
+  private closing = false;
+  private lastMessageAt = 0;
+  private heartbeatTimer?: ReturnType<typeof setInterval>;
+  private pingInFlight = false;
+  private backoff?: { timer: ReturnType<typeof setTimeout>; wake: () => void };
 
   constructor(
     private readonly transport: IWebSocketTransport,
@@ -41,19 +215,51 @@ export class AdtClientsWS {
       error: () => {},
     };
     this.requestTimeoutMs = options?.requestTimeoutMs ?? 30_000;
+    if (options?.reconnect) {
+      const reconnect = options.reconnect === true ? {} : options.reconnect;
+      this.reconnectOptions = {
+        maxAttempts: reconnect.maxAttempts ?? 10,
+        initialDelayMs: reconnect.initialDelayMs ?? 500,
+        maxDelayMs: reconnect.maxDelayMs ?? 30_000,
+        factor: reconnect.factor ?? 2,
+        pending: reconnect.pending ?? 'reject',
+      };
+    }
+    if (options?.heartbeat) {
+      const heartbeat = options.heartbeat === true ? {} : options.heartbeat;
+      this.heartbeatOptions = {
+        intervalMs: heartbeat.intervalMs ?? 15_000,
+        timeoutMs: heartbeat.timeoutMs ?? 5_000,
+        operation: heartbeat.operation ?? 'ws.ping',
+      };
+    }
     this.transport.onMessage((message) => this.handleMessage(message));
+    this.transport.onClose((info: IWebSocketCloseInfo) =>
+      this.handleClose(info),
+    );
   }
 
   async connect(
     url: string,
     options?: IWebSocketConnectOptions,
   ): Promise<void> {
+    this.url = url;
+    this.connectOptions = options;
+    this.closing = false;
     await this.transport.connect(url, options);
+    this.opened();
     this.logger.debug('AdtClientsWS connected', { url });
   }
 
   async disconnect(code?: number, reason?: string): Promise<void> {
+    this.closing = true;
+    this.stopHeartbeat();
+    this.backoff?.wake();
     await this.transport.disconnect(code, reason);
+    this.shutDown(
+      wsError('WS_DISCONNECTED', 'AdtClientsWS was disconnected'),
+      false,
+    );
     this.logger.debug('AdtClientsWS disconnected', { code, reason });
   }
 
@@ -61,8 +267,85 @@ export class AdtClientsWS {
     return this.transport.isConnected();
   }
 
-  onEvent(handler: IWebSocketMessageHandler<unknown>): void {
+  getState(): AdtClientsWSState {
+    return this.state;
+  }
+
+  /** Called on every state change; returns a function that unsubscribes. */
+  onStateChange(handler: (state: AdtClientsWSState) => void): () => void {
+    this.stateHandlers.push(handler);
+    return () => {
+      const index = this.stateHandlers.indexOf(handler);
+      if (index >= 0) this.stateHandlers.splice(index, 1);
+    };
+  }
+
+  /**
+   * Called with every message that answers no request. Returns a function
+   * that unsubscribes.
+   */
+  onEvent(handler: IWebSocketMessageHandler<unknown>): () => void {
     this.eventHandlers.push(handler);
+    return () => {
+      const index = this.eventHandlers.indexOf(handler);
+      if (index >= 0) this.eventHandlers.splice(index, 1);
+    };
+  }
+
+  /**
+   * Called with the payload of every event for `operation`. Returns a
+   * function that unsubscribes.
+   */
+  on<K extends keyof TEvents & string>(
+    operation: K,
+    handler: AdtClientsWSEventHandler<TEvents[K]>,
+  ): () => void {
+    let handlers = this.subscribers.get(operation);
+    if (!handlers) {
+      handlers = new Set();
+      this.subscribers.set(operation, handlers);
+    }
+    const registered = handler as AdtClientsWSEventHandler<unknown>;
+    handlers.add(registered);
+    return () => {
+      handlers.delete(registered);
+      if (handlers.size === 0) this.subscribers.delete(operation);
+    };
+  }
+
+  /**
+   * The events for `operation` — or all events — as an async iterator:
+   * `for await (const event of ws.events('debugger.paused')) { … }`.
+   * Iteration ends on `break`, on the signal and on `disconnect()`; it throws
+   * when the connection is lost for good.
+   */
+  events<K extends keyof TEvents & string>(
+    operation: K,
+    options?: IAdtClientsWSEventsOptions,
+  ): AsyncIterableIterator<IWebSocketMessageEnvelope<TEvents[K]>>;
+  events(
+    options?: IAdtClientsWSEventsOptions,
+  ): AsyncIterableIterator<IWebSocketMessageEnvelope<unknown>>;
+  events(
+    operationOrOptions?: string | IAdtClientsWSEventsOptions,
+    options?: IAdtClientsWSEventsOptions,
+  ): AsyncIterableIterator<IWebSocketMessageEnvelope<unknown>> {
+    const operation =
+      typeof operationOrOptions === 'string' ? operationOrOptions : undefined;
+    const signal =
+      typeof operationOrOptions === 'string'
+        ? options?.signal
+        : operationOrOptions?.signal;
+    const stream = new EventStream<unknown>(operation, (ended) =>
+      this.streams.delete(ended),
+    );
+    this.streams.add(stream);
+    if (signal?.aborted) {
+      stream.end();
+    } else {
+      signal?.addEventListener('abort', () => stream.end(), { once: true });
+    }
+    return stream;
   }
 
   getDebuggerSessionClient(): DebuggerSessionClient {
@@ -77,6 +360,16 @@ export class AdtClientsWS {
     const correlationId = options?.correlationId ?? randomUUID();
     const timeoutMs = options?.timeoutMs ?? this.requestTimeoutMs;
 
+    if (
+      this.state === 'reconnecting' &&
+      this.reconnectOptions?.pending !== 'replay'
+    ) {
+      throw wsError(
+        'WS_CONNECTION_LOST',
+        `AdtClientsWS request for operation "${operation}" refused: connection lost, reconnecting`,
+      );
+    }
+
     return new Promise<TResponse>((resolve, reject) => {
       const resolveTyped = (value: unknown) => resolve(value as TResponse);
       const timeout = setTimeout(() => {
@@ -88,12 +381,6 @@ export class AdtClientsWS {
         );
       }, timeoutMs);
 
-      this.pending.set(correlationId, {
-        resolve: resolveTyped,
-        reject,
-        timeout,
-      });
-
       const message: IWebSocketMessageEnvelope<TPayload> = {
         kind: 'request',
         operation,
@@ -102,11 +389,17 @@ export class AdtClientsWS {
         timestamp: Date.now(),
       };
 
-      this.transport.send(message).catch((error) => {
-        clearTimeout(timeout);
-        this.pending.delete(correlationId);
-        reject(error instanceof Error ? error : new Error(String(error)));
+      this.pending.set(correlationId, {
+        resolve: resolveTyped,
+        reject,
+        timeout,
+        message,
       });
+
+      // Held for the replay once the transport is back.
+      if (this.state === 'reconnecting') return;
+
+      this.send(correlationId, message);
     });
   }
 
@@ -123,9 +416,23 @@ export class AdtClientsWS {
     await this.transport.send(message);
   }
 
+  private send(
+    correlationId: string,
+    message: IWebSocketMessageEnvelope<unknown>,
+  ): void {
+    this.transport.send(message).catch((error) => {
+      const request = this.pending.get(correlationId);
+      if (!request) return;
+      clearTimeout(request.timeout);
+      this.pending.delete(correlationId);
+      request.reject(error instanceof Error ? error : new Error(String(error)));
+    });
+  }
+
   private async handleMessage(
     message: IWebSocketMessageEnvelope<unknown>,
   ): Promise<void> {
+    this.lastMessageAt = Date.now();
     const correlationId = message.correlationId;
     if (correlationId && this.pending.has(correlationId)) {
       const request = this.pending.get(correlationId);
@@ -152,8 +459,218 @@ export class AdtClientsWS {
       return;
     }
 
-    for (const handler of this.eventHandlers) {
-      await handler(message);
+    // Streams first, and each handler on its own: a handler that throws must
+    // not keep the event from an iteration, or from the handlers after it.
+    const operation = message.operation;
+    for (const stream of this.streams) {
+      if (stream.operation === undefined || stream.operation === operation) {
+        stream.push(message);
+      }
+    }
+    for (const handler of [...this.eventHandlers]) {
+      await this.deliver(operation, () => handler(message));
+    }
+    if (operation) {
+      for (const handler of [...(this.subscribers.get(operation) ?? [])]) {
+        await this.deliver(operation, () => handler(message.payload, message));
+      }
+    }
+  }
+
+  private async deliver(
+    operation: string | undefined,
+    handler: () => unknown,
+  ): Promise<void> {
+    try {
+      await handler();
+    } catch (error) {
+      this.logger.error(
+        `AdtClientsWS event handler failed for operation "${operation ?? '(none)'}":`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  private handleClose(info: IWebSocketCloseInfo): void {
+    this.stopHeartbeat();
+    if (this.closing) {
+      this.shutDown(
+        wsError('WS_DISCONNECTED', 'AdtClientsWS was disconnected'),
+        false,
+      );
+      return;
+    }
+    // A failed attempt closing again, or a close after giving up.
+    if (this.state === 'reconnecting' || this.state === 'closed') return;
+
+    const detail = `code ${info.code}${info.reason ? `, ${info.reason}` : ''}`;
+    if (!this.reconnectOptions || this.url === undefined) {
+      this.shutDown(
+        wsError(
+          'WS_CONNECTION_LOST',
+          `AdtClientsWS connection lost (${detail})`,
+        ),
+        true,
+      );
+      return;
+    }
+    this.logger.warn(`AdtClientsWS connection lost (${detail}), reconnecting`);
+    void this.reconnect(detail);
+  }
+
+  private async reconnect(detail: string): Promise<void> {
+    const options = this
+      .reconnectOptions as Required<IAdtClientsWSReconnectOptions>;
+    this.setState('reconnecting');
+    if (options.pending === 'reject') {
+      this.rejectPending(
+        wsError(
+          'WS_CONNECTION_LOST',
+          `AdtClientsWS connection lost (${detail})`,
+        ),
+      );
+    }
+
+    for (let attempt = 1; attempt <= options.maxAttempts; attempt++) {
+      await this.wait(
+        Math.min(
+          options.initialDelayMs * options.factor ** (attempt - 1),
+          options.maxDelayMs,
+        ),
+      );
+      if (this.closing) return;
+      try {
+        await this.transport.connect(this.url as string, this.connectOptions);
+      } catch (error) {
+        this.logger.warn(
+          `AdtClientsWS reconnect attempt ${attempt}/${options.maxAttempts} failed:`,
+          error instanceof Error ? error.message : String(error),
+        );
+        continue;
+      }
+      if (this.closing) {
+        // disconnect() came while this attempt was connecting: what it
+        // closed was the dropped transport, not the one just opened.
+        await this.transport.disconnect().catch(() => undefined);
+        return;
+      }
+      this.opened();
+      this.logger.info?.(
+        `AdtClientsWS reconnected after ${attempt} attempt(s)`,
+      );
+      for (const [correlationId, request] of this.pending) {
+        this.send(correlationId, request.message);
+      }
+      return;
+    }
+
+    this.shutDown(
+      wsError(
+        'WS_RECONNECT_FAILED',
+        `AdtClientsWS gave up reconnecting after ${options.maxAttempts} attempts (${detail})`,
+      ),
+      true,
+    );
+  }
+
+  private wait(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const wake = () => {
+        clearTimeout(timer);
+        this.backoff = undefined;
+        resolve();
+      };
+      const timer = setTimeout(wake, ms);
+      this.backoff = { timer, wake };
+    });
+  }
+
+  private opened(): void {
+    this.lastMessageAt = Date.now();
+    this.setState('open');
+    this.startHeartbeat();
+  }
+
+  /**
+   * Final close: everything pending fails with `error`, and `events()`
+   * iterations end — by throwing it when `failStreams`, after a loss.
+   */
+  private shutDown(error: AdtOperationError, failStreams: boolean): void {
+    this.stopHeartbeat();
+    this.rejectPending(error);
+    for (const stream of [...this.streams]) {
+      stream.end(failStreams ? error : undefined);
+    }
+    this.setState('closed');
+  }
+
+  private rejectPending(error: Error): void {
+    const requests = [...this.pending.values()];
+    this.pending.clear();
+    for (const request of requests) {
+      clearTimeout(request.timeout);
+      request.reject(error);
+    }
+  }
+
+  private setState(state: AdtClientsWSState): void {
+    if (this.state === state) return;
+    this.state = state;
+    for (const handler of [...this.stateHandlers]) handler(state);
+  }
+
+  private startHeartbeat(): void {
+    const options = this.heartbeatOptions;
+    if (!options || this.heartbeatTimer) return;
+    this.heartbeatTimer = setInterval(() => {
+      if (
+        this.pingInFlight ||
+        Date.now() - this.lastMessageAt < options.intervalMs
+      ) {
+        return;
+      }
+      this.pingInFlight = true;
+      const sentAt = Date.now();
+      this.request(options.operation, undefined, {
+        timeoutMs: options.timeoutMs,
+      })
+        .catch(() => {
+          // An error reply is still a reply; only silence means the
+          // connection is gone.
+          if (this.state === 'open' && this.lastMessageAt < sentAt) {
+            return this.heartbeatLost();
+          }
+        })
+        .finally(() => {
+          this.pingInFlight = false;
+        });
+    }, options.intervalMs);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+  }
+
+  private async heartbeatLost(): Promise<void> {
+    const timeoutMs = this.heartbeatOptions?.timeoutMs;
+    this.logger.warn(
+      `AdtClientsWS heartbeat unanswered for ${timeoutMs}ms, closing transport`,
+    );
+    try {
+      await this.transport.disconnect(4000, 'heartbeat timeout');
+    } catch {
+      // The transport is being dropped either way.
+    }
+    // Not every transport reports a close it initiated itself.
+    if (this.state === 'open') {
+      this.handleClose({
+        code: 4000,
+        reason: 'heartbeat timeout',
+        wasClean: false,
+      });
     }
   }
 }
@@ -7,7 +7,7 @@
  * - getSt05Trace() — ST05 performance traces
  * - getDebugger() — Composite debugger (ABAP, AMDP, memory snapshots)
  * - getApplicationLog() — Application log analysis
- * - getAtc() — ATC check runs: start one, poll it, read the worklist
+ * - getAtc() — ATC check runs: start one, poll it, read the worklist; customizing and check variants; package runs
  * - getAtcLog() — ATC check failure and execution logs
  * - getDdicActivation() — DDIC activation graph
  * - getDumps() — Runtime dump analysis
@@ -62,6 +62,11 @@ import type {
 import { ApplicationLog } from '../runtime/applicationLog/ApplicationLog';
 import { AdtAtc } from '../runtime/atc/AdtAtc';
 import { AtcLog } from '../runtime/atc/AtcLog';
+import type {
+  IAtcConfigurationReadable,
+  IAtcFindingsAnalysis,
+  IAtcPackageRunnable,
+} from '../runtime/atc/types';
 import { DdicActivation } from '../runtime/ddic/DdicActivation';
 import { Debugger } from '../runtime/debugger/Debugger';
 import { RuntimeDumps } from '../runtime/dumps/RuntimeDumps';
@@ -171,7 +176,10 @@ export class AdtRuntimeClient {
    */
   getAtc(): IAdtRunnable<IAtcRunTarget, IAtcRunResult, IAtcRunOptions> &
     IAtcRunStatusReadable &
-    IAtcFindings {
+    IAtcFindings &
+    IAtcFindingsAnalysis &
+    IAtcConfigurationReadable &
+    IAtcPackageRunnable {
     if (!this._atc) {
       this._atc = new AdtAtc(this.connection, this.logger);
     }
@@ -0,0 +1,235 @@
+/**
+ * The `.xml` file of an abapGit object: the serializer's envelope around an
+ * `asx:abap` document whose values are the object's DDIC structures —
+ * `VSEOCLASS`, `DD01V`, `T100A` — by field name.
+ *
+ * Initial fields are left out, as abapGit leaves them out, so a file written
+ * here and one written by abapGit for the same object differ only where the
+ * object does.
+ */
+
+import { AdtOperationError } from '@mcp-abap-adt/interfaces';
+import { XMLParser } from 'fast-xml-parser';
+
+/** A structure: fields by name, a nested structure or a table. */
+export interface IAbapGitStructure {
+  [field: string]: string | undefined | IAbapGitStructure | IAbapGitTable;
+}
+
+/** A table: rows, each written as an element named `row`. */
+export interface IAbapGitTable {
+  row: string;
+  rows: Array<IAbapGitStructure | string>;
+}
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  parseAttributeValue: false,
+});
+
+export function abapGitError(code: string, message: string): AdtOperationError {
+  const error = new AdtOperationError(message);
+  error.code = code;
+  return error;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function isTable(
+  value: IAbapGitStructure | IAbapGitTable,
+): value is IAbapGitTable {
+  return Array.isArray((value as IAbapGitTable).rows);
+}
+
+function valuesXml(structure: IAbapGitStructure, indent: string): string[] {
+  const lines: string[] = [];
+  for (const [field, value] of Object.entries(structure)) {
+    if (value === undefined || value === '') continue;
+    if (typeof value === 'string') {
+      lines.push(`${indent}<${field}>${escapeText(value)}</${field}>`);
+      continue;
+    }
+    const inner = isTable(value)
+      ? value.rows.flatMap((row) =>
+          typeof row === 'string'
+            ? [`${indent} <${value.row}>${escapeText(row)}</${value.row}>`]
+            : [
+                `${indent} <${value.row}>`,
+                ...valuesXml(row, `${indent}  `),
+                `${indent} </${value.row}>`,
+              ],
+        )
+      : valuesXml(value, `${indent} `);
+    if (inner.length === 0) continue;
+    lines.push(`${indent}<${field}>`, ...inner, `${indent}</${field}>`);
+  }
+  return lines;
+}
+
+/**
+ * An object's `.xml` file. `serializer` is the abapGit class that would have
+ * written it — `LCL_OBJECT_CLAS` — which abapGit reads back to pick the one
+ * that deserializes it.
+ */
+export function buildAbapGitXml(
+  serializer: string,
+  values: IAbapGitStructure,
+): string {
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    `<abapGit version="v1.0.0" serializer="${serializer}" serializer_version="v1.0.0">`,
+    ' <asx:abap xmlns:asx="http://www.sap.com/abapxml" version="1.0">',
+    '  <asx:values>',
+    ...valuesXml(values, '   '),
+    '  </asx:values>',
+    ' </asx:abap>',
+    '</abapGit>',
+    '',
+  ].join('\n');
+}
+
+/** `.abapgit.xml`, the repository descriptor abapGit reads before anything. */
+export function buildRepositoryXml(
+  startingFolder: string,
+  masterLanguage: string,
+): string {
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<asx:abap xmlns:asx="http://www.sap.com/abapxml" version="1.0">',
+    ' <asx:values>',
+    ...valuesXml(
+      {
+        DATA: {
+          MASTER_LANGUAGE: toSapLanguage(masterLanguage),
+          STARTING_FOLDER: `/${startingFolder.replace(/^\/+|\/+$/g, '')}/`,
+          FOLDER_LOGIC: 'PREFIX',
+        },
+      },
+      '  ',
+    ),
+    ' </asx:values>',
+    '</asx:abap>',
+    '',
+  ].join('\n');
+}
+
+export type AbapGitNode = Record<string, unknown>;
+
+/**
+ * The values of an object's `.xml` file. Refuses
+ * (`ABAPGIT_FILE_UNREADABLE`) a file that is not one — writing an object from
+ * a half-read file would write it wrong.
+ */
+export function parseAbapGitXml(
+  xml: string | undefined,
+  file: string,
+): AbapGitNode {
+  let root: AbapGitNode | undefined;
+  try {
+    root = xml ? (parser.parse(xml) as AbapGitNode) : undefined;
+  } catch {
+    root = undefined;
+  }
+  const values = (
+    (root?.abapGit as AbapGitNode | undefined)?.abap as AbapGitNode | undefined
+  )?.values;
+  if (!values || typeof values !== 'object') {
+    throw abapGitError(
+      'ABAPGIT_FILE_UNREADABLE',
+      `${file} is not an abapGit object file: no abapGit/asx:abap/asx:values in it.`,
+    );
+  }
+  return values as AbapGitNode;
+}
+
+/** A structure of the values, or an empty one when it is not there. */
+export function structureOf(node: unknown, name: string): AbapGitNode {
+  const value = (node as AbapGitNode | undefined)?.[name];
+  return value && typeof value === 'object' ? (value as AbapGitNode) : {};
+}
+
+/** A field's text; empty when the field was initial and so left out. */
+export function fieldOf(node: AbapGitNode, name: string): string {
+  const value = node[name];
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+/** The rows of a table of the values. */
+export function rowsOf(
+  node: AbapGitNode,
+  table: string,
+  row: string,
+): unknown[] {
+  const rows = structureOf(node, table)[row];
+  if (rows === undefined) return [];
+  return Array.isArray(rows) ? rows : [rows];
+}
+
+/**
+ * ISO 639 code to the one-character language key abapGit writes, which is
+ * SAP's own. ADT speaks ISO. Only the languages of SAP's standard delivery
+ * are mapped; another code is written as it comes.
+ */
+const SAP_LANGUAGES: Record<string, string> = {
+  AR: 'A',
+  CS: 'C',
+  DA: 'K',
+  DE: 'D',
+  EL: 'G',
+  EN: 'E',
+  ES: 'S',
+  FI: 'U',
+  FR: 'F',
+  HE: 'B',
+  HU: 'H',
+  IT: 'I',
+  JA: 'J',
+  KO: '3',
+  NL: 'N',
+  NO: 'O',
+  PL: 'L',
+  PT: 'P',
+  RU: 'R',
+  SV: 'V',
+  TR: 'T',
+  UK: '8',
+  ZH: '1',
+};
+
+export function toSapLanguage(iso: string | undefined): string {
+  const code = (iso || 'EN').toUpperCase();
+  return SAP_LANGUAGES[code] ?? code;
+}
+
+export function toIsoLanguage(sap: string | undefined): string | undefined {
+  if (!sap) return undefined;
+  const code = sap.toUpperCase();
+  const iso = Object.entries(SAP_LANGUAGES).find(([, key]) => key === code);
+  return iso ? iso[0] : code;
+}
+
+/** `X` for true, left out for false — abapGit's checkbox. */
+export function flag(value: boolean | undefined): string | undefined {
+  return value ? 'X' : undefined;
+}
+
+/**
+ * A DDIC length or count as abapGit writes it: six digits, and left out when
+ * zero — it is a NUMC field, whose initial value is all zeros.
+ */
+export function ddicNumber(
+  value: string | number | undefined,
+): string | undefined {
+  if (value === undefined) return undefined;
+  const digits = String(value).trim();
+  if (!/^\d+$/.test(digits)) return digits || undefined;
+  return Number(digits) === 0 ? undefined : digits.padStart(6, '0');
+}
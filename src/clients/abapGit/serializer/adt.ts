@@ -0,0 +1,102 @@
+/**
+ * Reading what the handlers answer: a source, an object's metadata, the
+ * elements of a DDIC object's XML. Read by element and attribute NAME with
+ * prefixes removed — `adtcore:description` and `doma:datatype` are
+ * `description` and `datatype` — since the prefixes are the server's choice.
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import type { AbapGitNode } from './abapGitXml';
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  parseAttributeValue: false,
+});
+
+/** The source a handler's `read()` answered, or undefined for none. */
+export function sourceOf(state: unknown): string | undefined {
+  const data = (state as { readResult?: { data?: unknown } } | undefined)
+    ?.readResult?.data;
+  return typeof data === 'string' ? data : undefined;
+}
+
+/** The root element of an ADT XML body, or undefined when there is none. */
+export function adtRoot(body: unknown): AbapGitNode | undefined {
+  if (typeof body !== 'string' || body.trim() === '') return undefined;
+  let parsed: AbapGitNode;
+  try {
+    parsed = parser.parse(body) as AbapGitNode;
+  } catch {
+    return undefined;
+  }
+  const key = Object.keys(parsed).find((k) => !k.startsWith('?'));
+  const root = key ? parsed[key] : undefined;
+  return root && typeof root === 'object' ? (root as AbapGitNode) : undefined;
+}
+
+/**
+ * The attributes of the root element of a handler's metadata — or of its
+ * read, for the DDIC objects whose read is their metadata — by name.
+ */
+export function metadataOf(
+  state: unknown,
+  from: 'metadataResult' | 'readResult' = 'metadataResult',
+): Record<string, string> {
+  const body = (state as Record<string, { data?: unknown } | undefined>)?.[from]
+    ?.data;
+  const root = adtRoot(body) ?? {};
+  const attributes: Record<string, string> = {};
+  for (const [key, value] of Object.entries(root)) {
+    if (key.startsWith('@_') && typeof value === 'string') {
+      attributes[key.slice(2)] = value;
+    }
+  }
+  return attributes;
+}
+
+/** The first element named `name` under `node`, depth first. */
+export function findElement(
+  node: unknown,
+  name: string,
+): AbapGitNode | string | undefined {
+  if (!node || typeof node !== 'object') return undefined;
+  for (const [key, value] of Object.entries(node as AbapGitNode)) {
+    if (key === name) {
+      const first = Array.isArray(value) ? value[0] : value;
+      return first as AbapGitNode | string | undefined;
+    }
+  }
+  for (const [key, value] of Object.entries(node as AbapGitNode)) {
+    if (key.startsWith('@_')) continue;
+    const found = findElement(value, name);
+    if (found !== undefined) return found;
+  }
+  return undefined;
+}
+
+/** An element's text: its content, or `#text` when it also has attributes. */
+export function textOf(node: AbapGitNode | string | undefined): string {
+  if (typeof node === 'string') return node.trim();
+  const text = node?.['#text'];
+  return typeof text === 'string' ? text.trim() : '';
+}
+
+export function asArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Whether an include holds code — a line that is neither blank nor a `*`
+ * comment. ADT fills a class's local includes with a comment template when
+ * the class is created; abapGit writes no file for those, and neither does
+ * this.
+ */
+export function hasCode(source: string | undefined): boolean {
+  return (source ?? '')
+    .split(/\r?\n/)
+    .some((line) => line.trim() !== '' && !line.startsWith('*'));
+}
@@ -0,0 +1,138 @@
+/**
+ * CLAS: the class pool in `.clas.abap`, each local include that holds code
+ * in a file of its own, and `VSEOCLASS` in `.clas.xml`.
+ */
+
+import type { AdtClient } from '../../AdtClient';
+import {
+  abapGitError,
+  buildAbapGitXml,
+  fieldOf,
+  flag,
+  parseAbapGitXml,
+  structureOf,
+  toIsoLanguage,
+  toSapLanguage,
+} from './abapGitXml';
+import { hasCode, metadataOf, sourceOf } from './adt';
+import { sameText } from './files';
+import type {
+  AbapGitObjectFiles,
+  IAbapGitDeserializeContext,
+  IAbapGitObjectSerializer,
+  IAbapGitWriteResult,
+} from './types';
+
+type IncludeHandler = {
+  read(config: { className: string }): Promise<unknown>;
+  update(
+    config: { className: string; transportRequest?: string },
+    options: { sourceCode: string; activateOnUpdate: boolean },
+  ): Promise<unknown>;
+};
+
+/** abapGit's file for each local include, and the handler that reads it. */
+const INCLUDES: Array<[string, (client: AdtClient) => IncludeHandler]> = [
+  ['locals_def.abap', (client) => client.getLocalDefinitions()],
+  ['locals_imp.abap', (client) => client.getLocalTypes()],
+  ['macros.abap', (client) => client.getLocalMacros()],
+  ['testclasses.abap', (client) => client.getLocalTestClass()],
+];
+
+async function serialize(
+  client: AdtClient,
+  name: string,
+): Promise<AbapGitObjectFiles | undefined> {
+  const handler = client.getClass();
+  const main = sourceOf(await handler.read({ className: name }));
+  if (main === undefined) return undefined;
+  const metadata = metadataOf(await handler.readMetadata({ className: name }));
+
+  const files: AbapGitObjectFiles = { abap: main };
+  for (const [part, includeHandler] of INCLUDES) {
+    const source = sourceOf(
+      await includeHandler(client).read({ className: name }),
+    );
+    if (hasCode(source)) files[part] = source as string;
+  }
+  files.xml = buildAbapGitXml('LCL_OBJECT_CLAS', {
+    VSEOCLASS: {
+      CLSNAME: name,
+      LANGU: toSapLanguage(metadata.masterLanguage || metadata.language),
+      DESCRIPT: metadata.description,
+      STATE: '1',
+      CLSCCINCL: 'X',
+      FIXPT: 'X',
+      UNICODE: 'X',
+      CLSFINAL: flag(metadata.final === 'true'),
+      CLSABSTRCT: flag(metadata.abstract === 'true'),
+      WITH_UNIT_TESTS: flag(files['testclasses.abap'] !== undefined),
+    },
+  });
+  return files;
+}
+
+async function deserialize(
+  context: IAbapGitDeserializeContext,
+  name: string,
+  files: AbapGitObjectFiles,
+  current: AbapGitObjectFiles | undefined,
+): Promise<IAbapGitWriteResult> {
+  if (files.abap === undefined) {
+    throw abapGitError(
+      'ABAPGIT_OBJECT_INCOMPLETE',
+      `Class ${name} has no .clas.abap file to write its source from.`,
+    );
+  }
+  const { client, transportRequest } = context;
+  const handler = client.getClass();
+  const config = { className: name, transportRequest };
+  let changed = false;
+
+  if (!current) {
+    const header = structureOf(
+      parseAbapGitXml(files.xml, `${name}.clas.xml`),
+      'VSEOCLASS',
+    );
+    await handler.create(
+      {
+        ...config,
+        packageName: context.packageName,
+        description: fieldOf(header, 'DESCRIPT') || name,
+        masterLanguage: toIsoLanguage(fieldOf(header, 'LANGU')),
+        final: fieldOf(header, 'CLSFINAL') === 'X',
+        abstract: fieldOf(header, 'CLSABSTRCT') === 'X',
+      },
+      { activateOnCreate: false },
+    );
+    changed = true;
+  }
+  if (!sameText(files.abap, current?.abap)) {
+    await handler.update(config, {
+      sourceCode: files.abap,
+      activateOnUpdate: false,
+    });
+    changed = true;
+  }
+  // An include with no file is written empty: the folder is what the class
+  // is to be, and it has no such code.
+  for (const [part, includeHandler] of INCLUDES) {
+    if (sameText(files[part], current?.[part])) continue;
+    await includeHandler(client).update(config, {
+      sourceCode: files[part] ?? '',
+      activateOnUpdate: false,
+    });
+    changed = true;
+  }
+  return {
+    changed,
+    activate: changed ? [{ type: 'CLAS/OC', name }] : [],
+  };
+}
+
+export const classSerializer: IAbapGitObjectSerializer = {
+  type: 'CLAS',
+  adtType: 'CLAS/OC',
+  serialize,
+  deserialize,
+};
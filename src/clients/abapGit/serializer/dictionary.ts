@@ -0,0 +1,256 @@
+/**
+ * DOMA and DTEL: objects that are all metadata, held by abapGit in `.xml`
+ * only — `DD01V` with the fixed values in `DD07V_TAB`, and `DD04V`.
+ *
+ * Written through the handlers' `update()`, which takes the properties its
+ * config has. What a config has no field for — a fixed value's upper bound,
+ * a domain's output length, a label's length — is serialized as read but not
+ * written back; the server derives it.
+ */
+
+import type { AdtClient } from '../../AdtClient';
+import {
+  type AbapGitNode,
+  abapGitError,
+  buildAbapGitXml,
+  ddicNumber,
+  fieldOf,
+  flag,
+  parseAbapGitXml,
+  rowsOf,
+  structureOf,
+  toIsoLanguage,
+  toSapLanguage,
+} from './abapGitXml';
+import { adtRoot, asArray, findElement, metadataOf, textOf } from './adt';
+import { sameText } from './files';
+import type {
+  AbapGitObjectFiles,
+  IAbapGitDeserializeContext,
+  IAbapGitObjectSerializer,
+  IAbapGitWriteResult,
+} from './types';
+
+const number = (value: string) => (value ? Number(value) : undefined);
+
+/**
+ * Create the object when it does not exist, then write its properties —
+ * creating one registers the name only — unless the file says what the
+ * object already is.
+ */
+async function writeDictionaryObject(
+  handler: {
+    create(config: Record<string, unknown>): Promise<unknown>;
+    update(
+      config: Record<string, unknown>,
+      options: { activateOnUpdate: boolean },
+    ): Promise<unknown>;
+  },
+  config: Record<string, unknown>,
+  files: AbapGitObjectFiles,
+  current: AbapGitObjectFiles | undefined,
+  reference: { type: string; name: string },
+): Promise<IAbapGitWriteResult> {
+  if (current && sameText(files.xml, current.xml)) {
+    return { changed: false, activate: [] };
+  }
+  if (!current) await handler.create(config);
+  await handler.update(config, { activateOnUpdate: false });
+  return { changed: true, activate: [reference] };
+}
+
+async function serializeDomain(
+  client: AdtClient,
+  name: string,
+): Promise<AbapGitObjectFiles | undefined> {
+  const state = await client.getDomain().read({ domainName: name });
+  const root = adtRoot(
+    (state as { readResult?: { data?: unknown } } | undefined)?.readResult
+      ?.data,
+  );
+  if (!root) return undefined;
+  const metadata = metadataOf(state, 'readResult');
+  const language = toSapLanguage(metadata.masterLanguage || metadata.language);
+  const typeInformation = findElement(root, 'typeInformation');
+  const outputInformation = findElement(root, 'outputInformation');
+  const valueTable = findElement(root, 'valueTableRef');
+  const fixValues = asArray(
+    (findElement(root, 'fixValues') as AbapGitNode | undefined)?.fixValue as
+      | AbapGitNode[]
+      | AbapGitNode
+      | undefined,
+  );
+
+  return {
+    xml: buildAbapGitXml('LCL_OBJECT_DOMA', {
+      DD01V: {
+        DOMNAME: name,
+        DDLANGUAGE: language,
+        DATATYPE: textOf(findElement(typeInformation, 'datatype')),
+        LENG: ddicNumber(textOf(findElement(typeInformation, 'length'))),
+        OUTPUTLEN: ddicNumber(textOf(findElement(outputInformation, 'length'))),
+        DECIMALS: ddicNumber(textOf(findElement(typeInformation, 'decimals'))),
+        LOWERCASE: flag(
+          textOf(findElement(outputInformation, 'lowercase')) === 'true',
+        ),
+        SIGNFLAG: flag(
+          textOf(findElement(outputInformation, 'signExists')) === 'true',
+        ),
+        CONVEXIT: textOf(findElement(outputInformation, 'conversionExit')),
+        VALEXI: flag(fixValues.length > 0),
+        ENTITYTAB:
+          valueTable && typeof valueTable === 'object'
+            ? (valueTable['@_name'] as string | undefined)
+            : undefined,
+        DDTEXT: metadata.description,
+        DOMMASTER: language,
+      },
+      DD07V_TAB: {
+        row: 'DD07V',
+        rows: fixValues.map((value, index) => ({
+          DOMNAME: name,
+          VALPOS: String(index + 1).padStart(4, '0'),
+          DDLANGUAGE: language,
+          DOMVALUE_L: textOf(findElement(value, 'low')),
+          DOMVALUE_H: textOf(findElement(value, 'high')),
+          DDTEXT: textOf(findElement(value, 'text')),
+        })),
+      },
+    }),
+  };
+}
+
+async function deserializeDomain(
+  context: IAbapGitDeserializeContext,
+  name: string,
+  files: AbapGitObjectFiles,
+  current: AbapGitObjectFiles | undefined,
+): Promise<IAbapGitWriteResult> {
+  const values = parseAbapGitXml(files.xml, `${name}.doma.xml`);
+  const header = structureOf(values, 'DD01V');
+  return writeDictionaryObject(
+    context.client.getDomain(),
+    {
+      domainName: name,
+      packageName: context.packageName,
+      transportRequest: context.transportRequest,
+      description: fieldOf(header, 'DDTEXT') || name,
+      masterLanguage: toIsoLanguage(fieldOf(header, 'DDLANGUAGE')),
+      datatype: fieldOf(header, 'DATATYPE'),
+      length: number(fieldOf(header, 'LENG')),
+      decimals: number(fieldOf(header, 'DECIMALS')),
+      conversion_exit: fieldOf(header, 'CONVEXIT') || undefined,
+      lowercase: fieldOf(header, 'LOWERCASE') === 'X',
+      sign_exists: fieldOf(header, 'SIGNFLAG') === 'X',
+      value_table: fieldOf(header, 'ENTITYTAB') || undefined,
+      fixed_values: rowsOf(values, 'DD07V_TAB', 'DD07V').map((row) => ({
+        low: fieldOf(row as AbapGitNode, 'DOMVALUE_L'),
+        text: fieldOf(row as AbapGitNode, 'DDTEXT'),
+      })),
+    },
+    files,
+    current,
+    { type: 'DOMA/DD', name },
+  );
+}
+
+export const domainSerializer: IAbapGitObjectSerializer = {
+  type: 'DOMA',
+  adtType: 'DOMA/DD',
+  serialize: serializeDomain,
+  deserialize: deserializeDomain,
+};
+
+async function serializeDataElement(
+  client: AdtClient,
+  name: string,
+): Promise<AbapGitObjectFiles | undefined> {
+  const state = await client.getDataElement().read({ dataElementName: name });
+  const root = adtRoot(
+    (state as { readResult?: { data?: unknown } } | undefined)?.readResult
+      ?.data,
+  );
+  if (!root) return undefined;
+  const metadata = metadataOf(state, 'readResult');
+  const language = toSapLanguage(metadata.masterLanguage || metadata.language);
+  const field = (element: string) => textOf(findElement(root, element));
+  const typeKind = field('typeKind');
+  if (typeKind !== 'domain' && typeKind !== 'predefinedAbapType') {
+    throw abapGitError(
+      'ABAPGIT_OBJECT_UNSUPPORTED',
+      `Data element ${name} is typed '${typeKind}'; only data elements typed by a domain or a predefined ABAP type are serialized.`,
+    );
+  }
+
+  return {
+    xml: buildAbapGitXml('LCL_OBJECT_DTEL', {
+      DD04V: {
+        ROLLNAME: name,
+        DDLANGUAGE: language,
+        DOMNAME: typeKind === 'domain' ? field('typeName') : undefined,
+        HEADLEN: ddicNumber(field('headingFieldLength')),
+        SCRLEN1: ddicNumber(field('shortFieldLength')),
+        SCRLEN2: ddicNumber(field('mediumFieldLength')),
+        SCRLEN3: ddicNumber(field('longFieldLength')),
+        DDTEXT: metadata.description,
+        REPTEXT: field('headingFieldLabel'),
+        SCRTEXT_S: field('shortFieldLabel'),
+        SCRTEXT_M: field('mediumFieldLabel'),
+        SCRTEXT_L: field('longFieldLabel'),
+        DTELMASTER: language,
+        DATATYPE: field('dataType'),
+        LENG: ddicNumber(field('dataTypeLength')),
+        DECIMALS: ddicNumber(field('dataTypeDecimals')),
+        REFKIND: typeKind === 'domain' ? 'D' : undefined,
+        SHLPNAME: field('searchHelp'),
+        SHLPFIELD: field('searchHelpParameter'),
+        MEMORYID: field('setGetParameter'),
+      },
+    }),
+  };
+}
+
+async function deserializeDataElement(
+  context: IAbapGitDeserializeContext,
+  name: string,
+  files: AbapGitObjectFiles,
+  current: AbapGitObjectFiles | undefined,
+): Promise<IAbapGitWriteResult> {
+  const header = structureOf(
+    parseAbapGitXml(files.xml, `${name}.dtel.xml`),
+    'DD04V',
+  );
+  const domain = fieldOf(header, 'DOMNAME');
+  return writeDictionaryObject(
+    context.client.getDataElement(),
+    {
+      dataElementName: name,
+      packageName: context.packageName,
+      transportRequest: context.transportRequest,
+      description: fieldOf(header, 'DDTEXT') || name,
+      masterLanguage: toIsoLanguage(fieldOf(header, 'DDLANGUAGE')),
+      typeKind: domain ? 'domain' : 'predefinedAbapType',
+      typeName: domain || undefined,
+      dataType: domain ? undefined : fieldOf(header, 'DATATYPE'),
+      length: domain ? undefined : number(fieldOf(header, 'LENG')),
+      decimals: domain ? undefined : number(fieldOf(header, 'DECIMALS')),
+      shortLabel: fieldOf(header, 'SCRTEXT_S'),
+      mediumLabel: fieldOf(header, 'SCRTEXT_M'),
+      longLabel: fieldOf(header, 'SCRTEXT_L'),
+      headingLabel: fieldOf(header, 'REPTEXT'),
+      searchHelp: fieldOf(header, 'SHLPNAME') || undefined,
+      searchHelpParameter: fieldOf(header, 'SHLPFIELD') || undefined,
+      setGetParameter: fieldOf(header, 'MEMORYID') || undefined,
+    },
+    files,
+    current,
+    { type: 'DTEL/DE', name },
+  );
+}
+
+export const dataElementSerializer: IAbapGitObjectSerializer = {
+  type: 'DTEL',
+  adtType: 'DTEL/DE',
+  serialize: serializeDataElement,
+  deserialize: deserializeDataElement,
+};
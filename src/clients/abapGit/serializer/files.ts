@@ -0,0 +1,83 @@
+/**
+ * abapGit file names: `<name>.<type>.<part>`, the name in lower case with the
+ * slashes of a namespace written as `#` — `/DMO/CL_X` is `#dmo#cl_x.clas.abap`.
+ * Only the file name says what a file is; the folder it is in says which
+ * package, which this deserializer does not map (see `deserialize`).
+ */
+
+import type { AbapGitObjectFiles, IAbapGitFile } from './types';
+
+export function abapGitFileName(name: string): string {
+  return name.toLowerCase().replace(/\//g, '#');
+}
+
+export function nameFromFileName(fileName: string): string {
+  return fileName.replace(/#/g, '/').toUpperCase();
+}
+
+const OBJECT_FILE = /^([^.]+)\.([a-z0-9]{4})\.(.+)$/;
+
+export interface IAbapGitObjectFiles {
+  type: string;
+  name: string;
+  files: AbapGitObjectFiles;
+  paths: string[];
+}
+
+/**
+ * The files of a repository grouped by the object they belong to, in the
+ * order each object's first file comes. Files whose names are not object
+ * file names — `.abapgit.xml`, README — are returned apart.
+ */
+export function groupAbapGitFiles(files: IAbapGitFile[]): {
+  objects: IAbapGitObjectFiles[];
+  other: string[];
+} {
+  const objects = new Map<string, IAbapGitObjectFiles>();
+  const other: string[] = [];
+  for (const file of files) {
+    const base = file.path.split('/').pop() ?? '';
+    const match = base.match(OBJECT_FILE);
+    if (!match) {
+      other.push(file.path);
+      continue;
+    }
+    const name = nameFromFileName(match[1]);
+    const type = match[2].toUpperCase();
+    const key = `${type} ${name}`;
+    let object = objects.get(key);
+    if (!object) {
+      object = { type, name, files: {}, paths: [] };
+      objects.set(key, object);
+    }
+    object.files[match[3]] = file.content;
+    object.paths.push(file.path);
+  }
+  return { objects: [...objects.values()], other };
+}
+
+/** The paths of an object's files, under `folder`. */
+export function objectFilePaths(
+  folder: string,
+  type: string,
+  name: string,
+  files: AbapGitObjectFiles,
+): IAbapGitFile[] {
+  const prefix = `${folder}${abapGitFileName(name)}.${type.toLowerCase()}.`;
+  return Object.keys(files)
+    .sort()
+    .map((part) => ({ path: `${prefix}${part}`, content: files[part] }));
+}
+
+/**
+ * Two texts as the same source: line ends and a final newline are how a
+ * checkout and ADT differ, not how the object does.
+ */
+export function sameText(
+  a: string | undefined,
+  b: string | undefined,
+): boolean {
+  const norm = (s: string | undefined) =>
+    (s ?? '').replace(/\r\n/g, '\n').replace(/\n+$/, '');
+  return norm(a) === norm(b);
+}
@@ -0,0 +1,54 @@
+/**
+ * abapGit files to and from a folder on disk — a git working tree, usually.
+ *
+ * The serializer itself works on `IAbapGitFile[]` and never touches the file
+ * system, so that a caller can put the files elsewhere (a zip, a git API);
+ * these two are the common case.
+ */
+
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join, relative, sep } from 'node:path';
+import type { IAbapGitFile } from './types';
+
+/**
+ * Write files under `directory`, creating folders as needed. Files already
+ * there and not among `files` are left alone: removing what an object no
+ * longer has is the caller's decision, as it is in git.
+ */
+export async function writeAbapGitFolder(
+  directory: string,
+  files: IAbapGitFile[],
+): Promise<void> {
+  for (const file of files) {
+    const target = join(directory, ...file.path.split('/'));
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(target, file.content, 'utf8');
+  }
+}
+
+/**
+ * Every file under `directory`, with paths from it in `/` form. The `.git`
+ * folder is skipped.
+ */
+export async function readAbapGitFolder(
+  directory: string,
+): Promise<IAbapGitFile[]> {
+  const files: IAbapGitFile[] = [];
+  const walk = async (folder: string): Promise<void> => {
+    const entries = await readdir(folder, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      const path = join(folder, entry.name);
+      if (entry.isDirectory()) {
+        if (entry.name !== '.git') await walk(path);
+      } else if (entry.isFile()) {
+        files.push({
+          path: relative(directory, path).split(sep).join('/'),
+          content: await readFile(path, 'utf8'),
+        });
+      }
+    }
+  };
+  await walk(directory);
+  return files;
+}
@@ -0,0 +1,206 @@
+/**
+ * FUGR: the group's description, includes and function modules in
+ * `.fugr.xml`; each function module's and include's source in
+ * `<group>.fugr.<member>.abap`.
+ *
+ * A function module's signature stays in its source, as ADT holds it —
+ * `FUNCTION z_fm IMPORTING …`. abapGit keeps the parameters in the `.xml`
+ * file instead, so a group written here comes back through this
+ * deserializer, not through abapGit's. The generated parts of a group — the
+ * main program `SAPL<group>` and the `…UXX` include — are not serialized.
+ * Nothing is deleted: a member the folder lacks stays in the group.
+ */
+
+import type { IObjectReference } from '@mcp-abap-adt/interfaces';
+import type { AdtClient } from '../../AdtClient';
+import {
+  type AbapGitNode,
+  abapGitError,
+  buildAbapGitXml,
+  fieldOf,
+  parseAbapGitXml,
+  rowsOf,
+} from './abapGitXml';
+import { metadataOf, sourceOf } from './adt';
+import { abapGitFileName, sameText } from './files';
+import type {
+  AbapGitObjectFiles,
+  IAbapGitDeserializeContext,
+  IAbapGitObjectSerializer,
+  IAbapGitWriteResult,
+} from './types';
+
+const isGenerated = (include: string) =>
+  /UXX$/i.test(include) || /^(\/\w+\/)?SAPL/i.test(include);
+
+const memberPart = (member: string) => `${abapGitFileName(member)}.abap`;
+
+async function serialize(
+  client: AdtClient,
+  name: string,
+): Promise<AbapGitObjectFiles | undefined> {
+  const group = await client
+    .getFunctionGroup()
+    .read({ functionGroupName: name });
+  if (!group) return undefined;
+  const metadata = metadataOf(group, 'readResult');
+  const utils = client.getUtils();
+  const files: AbapGitObjectFiles = {};
+
+  const functions: Array<{ FUNCNAME: string; SHORT_TEXT?: string }> = [];
+  for (const functionModuleName of await utils.listFunctionModules(name)) {
+    const config = { functionGroupName: name, functionModuleName };
+    const handler = client.getFunctionModule();
+    const source = sourceOf(await handler.read(config));
+    if (source === undefined) continue;
+    files[memberPart(functionModuleName)] = source;
+    functions.push({
+      FUNCNAME: functionModuleName,
+      SHORT_TEXT: metadataOf(await handler.readMetadata(config)).description,
+    });
+  }
+
+  const includes: string[] = [];
+  for (const includeName of await utils.listFunctionGroupIncludes(name)) {
+    if (isGenerated(includeName)) continue;
+    const source = sourceOf(
+      await client
+        .getFunctionInclude()
+        .read({ functionGroupName: name, includeName }),
+    );
+    if (source === undefined) continue;
+    files[memberPart(includeName)] = source;
+    includes.push(includeName);
+  }
+
+  files.xml = buildAbapGitXml('LCL_OBJECT_FUGR', {
+    AREAT: metadata.description,
+    INCLUDES: { row: 'SOBJ_NAME', rows: includes },
+    FUNCTIONS: { row: 'item', rows: functions },
+  });
+  return files;
+}
+
+function memberSource(
+  group: string,
+  files: AbapGitObjectFiles,
+  member: string,
+): string {
+  const source = files[memberPart(member)];
+  if (source === undefined) {
+    throw abapGitError(
+      'ABAPGIT_OBJECT_INCOMPLETE',
+      `Function group ${group} lists ${member}, but there is no ${abapGitFileName(group)}.fugr.${memberPart(member)} file for it.`,
+    );
+  }
+  return source;
+}
+
+async function deserialize(
+  context: IAbapGitDeserializeContext,
+  name: string,
+  files: AbapGitObjectFiles,
+  current: AbapGitObjectFiles | undefined,
+): Promise<IAbapGitWriteResult> {
+  const values = parseAbapGitXml(files.xml, `${name}.fugr.xml`);
+  const { client, transportRequest, packageName } = context;
+  const activate: IObjectReference[] = [];
+  let changed = false;
+
+  if (!current) {
+    await client.getFunctionGroup().create(
+      {
+        functionGroupName: name,
+        packageName,
+        description: fieldOf(values, 'AREAT') || name,
+        transportRequest,
+      },
+      { activateOnCreate: false },
+    );
+    activate.push({ type: 'FUGR/F', name });
+    changed = true;
+  }
+
+  const existing = new Set(
+    current
+      ? rowsOf(
+          parseAbapGitXml(current.xml, `${name}.fugr.xml`),
+          'FUNCTIONS',
+          'item',
+        ).map((row) => fieldOf(row as AbapGitNode, 'FUNCNAME'))
+      : [],
+  );
+  for (const row of rowsOf(values, 'FUNCTIONS', 'item') as AbapGitNode[]) {
+    const functionModuleName = fieldOf(row, 'FUNCNAME');
+    const source = memberSource(name, files, functionModuleName);
+    const handler = client.getFunctionModule();
+    const config = {
+      functionGroupName: name,
+      functionModuleName,
+      transportRequest,
+    };
+    if (!existing.has(functionModuleName)) {
+      await handler.create(
+        {
+          ...config,
+          packageName,
+          description: fieldOf(row, 'SHORT_TEXT') || functionModuleName,
+        },
+        { activateOnCreate: false },
+      );
+    } else if (sameText(source, current?.[memberPart(functionModuleName)])) {
+      continue;
+    }
+    await handler.update(config, {
+      sourceCode: source,
+      activateOnUpdate: false,
+    });
+    activate.push({
+      type: 'FUGR/FF',
+      name: functionModuleName,
+      parentName: name,
+    });
+    changed = true;
+  }
+
+  for (const includeName of rowsOf(values, 'INCLUDES', 'SOBJ_NAME')) {
+    if (typeof includeName !== 'string' || isGenerated(includeName)) continue;
+    const source = memberSource(name, files, includeName);
+    const handler = client.getFunctionInclude();
+    const config = {
+      functionGroupName: name,
+      includeName,
+      transportRequest,
+    };
+    // A group just created already has its TOP include, which `current` —
+    // read before the group existed — cannot list; so ask the server.
+    const before =
+      current?.[memberPart(includeName)] ??
+      sourceOf(await handler.read(config));
+    if (before === undefined) {
+      await handler.create(
+        { ...config, description: includeName, sourceCode: source },
+        { activateOnCreate: false },
+      );
+    } else if (!sameText(source, before)) {
+      await handler.update(config, {
+        sourceCode: source,
+        activateOnUpdate: false,
+      });
+    } else {
+      continue;
+    }
+    activate.push({ type: 'FUGR/I', name: includeName, parentName: name });
+    changed = true;
+  }
+
+  return { changed, activate };
+}
+
+export const functionGroupSerializer: IAbapGitObjectSerializer = {
+  type: 'FUGR',
+  adtType: 'FUGR/F',
+  memberAdtTypes: ['FUGR/FF', 'FUGR/I'],
+  serialize,
+  deserialize,
+};
@@ -0,0 +1,15 @@
+export { AdtAbapGitSerializer } from '../../AdtAbapGitSerializer';
+export { readAbapGitFolder, writeAbapGitFolder } from './folder';
+export type {
+  AbapGitDeserializeAction,
+  IAbapGitActivationMessage,
+  IAbapGitDeserializedObject,
+  IAbapGitDeserializeOptions,
+  IAbapGitDeserializeResult,
+  IAbapGitFile,
+  IAbapGitObjectRef,
+  IAbapGitSerializeOptions,
+  IAbapGitSerializePackageOptions,
+  IAbapGitSerializeResult,
+  IAbapGitSkippedObject,
+} from './types';
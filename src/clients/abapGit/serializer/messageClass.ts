@@ -0,0 +1,126 @@
+/**
+ * MSAG: `T100A` and the messages in `T100`, in `.msag.xml`.
+ *
+ * Messages are written one by one through `getMessageClassMessage()`, and
+ * only those whose text differs; a message the file does not have is left
+ * on the server, since nothing in the file says it was removed rather than
+ * never pulled. Long texts are not serialized. A message class is not
+ * activated.
+ */
+
+import type { AdtClient } from '../../AdtClient';
+import {
+  type AbapGitNode,
+  buildAbapGitXml,
+  fieldOf,
+  parseAbapGitXml,
+  rowsOf,
+  structureOf,
+  toIsoLanguage,
+  toSapLanguage,
+} from './abapGitXml';
+import type {
+  AbapGitObjectFiles,
+  IAbapGitDeserializeContext,
+  IAbapGitObjectSerializer,
+  IAbapGitWriteResult,
+} from './types';
+
+interface IParsedMessageClassState {
+  messageClass?: {
+    description?: string;
+    masterLanguage?: string;
+    language?: string;
+    messages: Array<{ msgno: string; msgtext: string }>;
+  };
+}
+
+async function serialize(
+  client: AdtClient,
+  name: string,
+): Promise<AbapGitObjectFiles | undefined> {
+  const state = (await client.getMessageClass().read({ name })) as
+    | IParsedMessageClassState
+    | undefined;
+  const messageClass = state?.messageClass;
+  if (!messageClass) return undefined;
+  const language = toSapLanguage(
+    messageClass.masterLanguage || messageClass.language,
+  );
+  return {
+    xml: buildAbapGitXml('LCL_OBJECT_MSAG', {
+      T100A: {
+        ARBGB: name,
+        MASTERLANG: language,
+        STEXT: messageClass.description,
+      },
+      T100: {
+        row: 'T100',
+        rows: messageClass.messages.map((message) => ({
+          SPRSL: language,
+          ARBGB: name,
+          MSGNR: message.msgno,
+          TEXT: message.msgtext,
+        })),
+      },
+    }),
+  };
+}
+
+function messagesOf(values: AbapGitNode): Map<string, string> {
+  return new Map(
+    rowsOf(values, 'T100', 'T100').map((row) => [
+      fieldOf(row as AbapGitNode, 'MSGNR'),
+      fieldOf(row as AbapGitNode, 'TEXT'),
+    ]),
+  );
+}
+
+async function deserialize(
+  context: IAbapGitDeserializeContext,
+  name: string,
+  files: AbapGitObjectFiles,
+  current: AbapGitObjectFiles | undefined,
+): Promise<IAbapGitWriteResult> {
+  const values = parseAbapGitXml(files.xml, `${name}.msag.xml`);
+  const header = structureOf(values, 'T100A');
+  const description = fieldOf(header, 'STEXT') || name;
+  const existing = current
+    ? parseAbapGitXml(current.xml, `${name}.msag.xml`)
+    : undefined;
+  const { client, transportRequest } = context;
+  let changed = false;
+
+  if (!existing) {
+    await client.getMessageClass().create({
+      name,
+      description,
+      packageName: context.packageName,
+      masterLanguage: toIsoLanguage(fieldOf(header, 'MASTERLANG')),
+      transportRequest,
+    });
+    changed = true;
+  } else if (fieldOf(structureOf(existing, 'T100A'), 'STEXT') !== description) {
+    await client
+      .getMessageClass()
+      .update({ name, description, transportRequest });
+    changed = true;
+  }
+
+  const before = existing ? messagesOf(existing) : new Map<string, string>();
+  for (const [msgno, msgtext] of messagesOf(values)) {
+    if (before.get(msgno) === msgtext) continue;
+    await client
+      .getMessageClassMessage()
+      .update({ className: name, msgno, msgtext, transportRequest });
+    changed = true;
+  }
+  return { changed, activate: [] };
+}
+
+export const messageClassSerializer: IAbapGitObjectSerializer = {
+  type: 'MSAG',
+  adtType: 'MSAG/N',
+  serialize,
+  deserialize,
+};
@@ -0,0 +1,37 @@
+/**
+ * The object types the offline serializer handles, in the order the
+ * deserializer writes them: what others are typed by comes first, so that
+ * creating a data element finds its domain and a class its interface.
+ * Activation is one group activation at the end, which resolves the rest.
+ */
+
+import { classSerializer } from './class';
+import { dataElementSerializer, domainSerializer } from './dictionary';
+import { functionGroupSerializer } from './functionGroup';
+import { messageClassSerializer } from './messageClass';
+import {
+  ddlSerializer,
+  interfaceSerializer,
+  programSerializer,
+} from './source';
+import { tableSerializer } from './table';
+import type { IAbapGitObjectSerializer } from './types';
+
+export const ABAPGIT_SERIALIZERS: readonly IAbapGitObjectSerializer[] = [
+  messageClassSerializer,
+  domainSerializer,
+  dataElementSerializer,
+  tableSerializer,
+  ddlSerializer,
+  interfaceSerializer,
+  classSerializer,
+  functionGroupSerializer,
+  programSerializer,
+];
+
+export function serializerFor(
+  type: string,
+): IAbapGitObjectSerializer | undefined {
+  const key = type.toUpperCase();
+  return ABAPGIT_SERIALIZERS.find((serializer) => serializer.type === key);
+}
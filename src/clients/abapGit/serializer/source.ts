@@ -0,0 +1,237 @@
+/**
+ * INTF, PROG and DDLS: one source file and one `.xml` file each. They differ
+ * only in the handler, the config key of the name, the structure in the
+ * `.xml` file and what creating one needs — so one serializer, configured
+ * per type.
+ */
+
+import type { AdtClient } from '../../AdtClient';
+import {
+  type AbapGitNode,
+  abapGitError,
+  buildAbapGitXml,
+  fieldOf,
+  type IAbapGitStructure,
+  parseAbapGitXml,
+  rowsOf,
+  structureOf,
+  toIsoLanguage,
+  toSapLanguage,
+} from './abapGitXml';
+import { metadataOf, sourceOf } from './adt';
+import { sameText } from './files';
+import type {
+  AbapGitObjectFiles,
+  IAbapGitDeserializeContext,
+  IAbapGitObjectSerializer,
+  IAbapGitWriteResult,
+} from './types';
+
+type SourceHandler = {
+  read(config: Record<string, string>): Promise<unknown>;
+  readMetadata(config: Record<string, string>): Promise<unknown>;
+  create(
+    config: Record<string, unknown>,
+    options: { activateOnCreate: boolean },
+  ): Promise<unknown>;
+  update(
+    config: Record<string, unknown>,
+    options: { sourceCode: string; activateOnUpdate: boolean },
+  ): Promise<unknown>;
+};
+
+interface ISourceObjectType {
+  type: string;
+  adtType: string;
+  /** The source file's part of the name: `abap`, `asddls`. */
+  sourcePart: string;
+  handler(client: AdtClient): SourceHandler;
+  nameKey: string;
+  /** The values of the `.xml` file, from the metadata. */
+  values(name: string, metadata: Record<string, string>): IAbapGitStructure;
+  /** Description, language and whatever else creating the object takes. */
+  createConfig(values: AbapGitNode): Record<string, unknown>;
+}
+
+function sourceObjectSerializer(
+  definition: ISourceObjectType,
+): IAbapGitObjectSerializer {
+  const { type, adtType, sourcePart, nameKey } = definition;
+  const xmlPart = 'xml';
+
+  async function serialize(
+    client: AdtClient,
+    name: string,
+  ): Promise<AbapGitObjectFiles | undefined> {
+    const handler = definition.handler(client);
+    const source = sourceOf(await handler.read({ [nameKey]: name }));
+    if (source === undefined) return undefined;
+    const metadata = metadataOf(
+      await handler.readMetadata({ [nameKey]: name }),
+    );
+    return {
+      [sourcePart]: source,
+      [xmlPart]: buildAbapGitXml(
+        `LCL_OBJECT_${type}`,
+        definition.values(name, metadata),
+      ),
+    };
+  }
+
+  async function deserialize(
+    context: IAbapGitDeserializeContext,
+    name: string,
+    files: AbapGitObjectFiles,
+    current: AbapGitObjectFiles | undefined,
+  ): Promise<IAbapGitWriteResult> {
+    const source = files[sourcePart];
+    if (source === undefined) {
+      throw abapGitError(
+        'ABAPGIT_OBJECT_INCOMPLETE',
+        `${type} ${name} has no .${type.toLowerCase()}.${sourcePart} file to write its source from.`,
+      );
+    }
+    const handler = definition.handler(context.client);
+    const config = {
+      [nameKey]: name,
+      transportRequest: context.transportRequest,
+    };
+    let changed = false;
+    if (!current) {
+      const values = parseAbapGitXml(
+        files[xmlPart],
+        `${name}.${type.toLowerCase()}.xml`,
+      );
+      await handler.create(
+        {
+          ...config,
+          packageName: context.packageName,
+          ...definition.createConfig(values),
+        },
+        { activateOnCreate: false },
+      );
+      changed = true;
+    }
+    if (!sameText(source, current?.[sourcePart])) {
+      await handler.update(config, {
+        sourceCode: source,
+        activateOnUpdate: false,
+      });
+      changed = true;
+    }
+    return { changed, activate: changed ? [{ type: adtType, name }] : [] };
+  }
+
+  return { type, adtType, serialize, deserialize };
+}
+
+const language = (metadata: Record<string, string>) =>
+  toSapLanguage(metadata.masterLanguage || metadata.language);
+
+export const interfaceSerializer = sourceObjectSerializer({
+  type: 'INTF',
+  adtType: 'INTF/OI',
+  sourcePart: 'abap',
+  handler: (client) => client.getInterface(),
+  nameKey: 'interfaceName',
+  values: (name, metadata) => ({
+    VSEOINTERF: {
+      CLSNAME: name,
+      LANGU: language(metadata),
+      DESCRIPT: metadata.description,
+      EXPOSURE: '2',
+      STATE: '1',
+      UNICODE: 'X',
+    },
+  }),
+  createConfig: (values) => {
+    const header = structureOf(values, 'VSEOINTERF');
+    return {
+      description: fieldOf(header, 'DESCRIPT') || fieldOf(header, 'CLSNAME'),
+      masterLanguage: toIsoLanguage(fieldOf(header, 'LANGU')),
+    };
+  },
+});
+
+/**
+ * `PROGDIR-SUBC` for the program types `create()` takes — the inverse of the
+ * mapping in `core/program/create.ts`. ADT's metadata says the type either
+ * as that key or spelled out.
+ */
+const PROGRAM_TYPES: Record<string, string> = {
+  '1': 'executable',
+  I: 'include',
+  M: 'module_pool',
+};
+
+function programTypeKey(metadataType: string | undefined): string {
+  const value = (metadataType ?? '').trim();
+  if (value.length === 1) return value.toUpperCase();
+  if (/include/i.test(value)) return 'I';
+  if (/module/i.test(value)) return 'M';
+  if (/subroutine/i.test(value)) return 'S';
+  return '1';
+}
+
+export const programSerializer = sourceObjectSerializer({
+  type: 'PROG',
+  adtType: 'PROG/P',
+  sourcePart: 'abap',
+  handler: (client) => client.getProgram(),
+  nameKey: 'programName',
+  values: (name, metadata) => ({
+    PROGDIR: {
+      NAME: name,
+      SUBC: programTypeKey(metadata.programType),
+      RLOAD: language(metadata),
+      FIXPT: 'X',
+      UCCHECK: 'X',
+    },
+    TPOOL: {
+      row: 'item',
+      rows: metadata.description
+        ? [
+            {
+              ID: 'R',
+              ENTRY: metadata.description,
+              LENGTH: String(metadata.description.length),
+            },
+          ]
+        : [],
+    },
+  }),
+  createConfig: (values) => {
+    const header = structureOf(values, 'PROGDIR');
+    const title = rowsOf(values, 'TPOOL', 'item')
+      .map((row) => row as AbapGitNode)
+      .find((row) => fieldOf(row, 'ID') === 'R');
+    return {
+      description:
+        (title && fieldOf(title, 'ENTRY')) || fieldOf(header, 'NAME'),
+      programType: PROGRAM_TYPES[fieldOf(header, 'SUBC')] ?? 'executable',
+      masterLanguage: toIsoLanguage(fieldOf(header, 'RLOAD')),
+    };
+  },
+});
+
+export const ddlSerializer = sourceObjectSerializer({
+  type: 'DDLS',
+  adtType: 'DDLS/DF',
+  sourcePart: 'asddls',
+  handler: (client) => client.getDdl(),
+  nameKey: 'ddlName',
+  values: (name, metadata) => ({
+    DDLS: {
+      DDLNAME: name,
+      DDLANGUAGE: language(metadata),
+      DDTEXT: metadata.description,
+    },
+  }),
+  createConfig: (values) => {
+    const header = structureOf(values, 'DDLS');
+    return {
+      description: fieldOf(header, 'DDTEXT') || fieldOf(header, 'DDLNAME'),
+      masterLanguage: toIsoLanguage(fieldOf(header, 'DDLANGUAGE')),
+    };
+  },
+});
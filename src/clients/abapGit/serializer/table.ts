@@ -0,0 +1,84 @@
+/**
+ * TABL: `.tabl.xml` from the table's `define table` source, and the source
+ * back from the file — see `tableSource.ts` for what maps. The description
+ * is the source's `@EndUserText.label`.
+ */
+
+import type { AdtClient } from '../../AdtClient';
+import {
+  buildAbapGitXml,
+  fieldOf,
+  parseAbapGitXml,
+  structureOf,
+  toIsoLanguage,
+  toSapLanguage,
+} from './abapGitXml';
+import { metadataOf, sourceOf } from './adt';
+import { sameText } from './files';
+import { tableSourceFromValues, tableValuesFromSource } from './tableSource';
+import type {
+  AbapGitObjectFiles,
+  IAbapGitDeserializeContext,
+  IAbapGitObjectSerializer,
+  IAbapGitWriteResult,
+} from './types';
+
+async function serialize(
+  client: AdtClient,
+  name: string,
+): Promise<AbapGitObjectFiles | undefined> {
+  const handler = client.getTable();
+  const source = sourceOf(await handler.read({ tableName: name }));
+  if (source === undefined) return undefined;
+  const metadata = metadataOf(await handler.readMetadata({ tableName: name }));
+  return {
+    xml: buildAbapGitXml(
+      'LCL_OBJECT_TABL',
+      tableValuesFromSource(
+        name,
+        source,
+        toSapLanguage(metadata.masterLanguage || metadata.language),
+      ),
+    ),
+  };
+}
+
+async function deserialize(
+  context: IAbapGitDeserializeContext,
+  name: string,
+  files: AbapGitObjectFiles,
+  current: AbapGitObjectFiles | undefined,
+): Promise<IAbapGitWriteResult> {
+  if (current && sameText(files.xml, current.xml)) {
+    return { changed: false, activate: [] };
+  }
+  const values = parseAbapGitXml(files.xml, `${name}.tabl.xml`);
+  const header = structureOf(values, 'DD02V');
+  const handler = context.client.getTable();
+  const config = {
+    tableName: name,
+    transportRequest: context.transportRequest,
+  };
+  if (!current) {
+    await handler.create(
+      {
+        ...config,
+        packageName: context.packageName,
+        masterLanguage: toIsoLanguage(fieldOf(header, 'DDLANGUAGE')),
+      },
+      { activateOnCreate: false },
+    );
+  }
+  await handler.update(config, {
+    sourceCode: tableSourceFromValues(name, values),
+    activateOnUpdate: false,
+  });
+  return { changed: true, activate: [{ type: 'TABL/DT', name }] };
+}
+
+export const tableSerializer: IAbapGitObjectSerializer = {
+  type: 'TABL',
+  adtType: 'TABL/DT',
+  serialize,
+  deserialize,
+};
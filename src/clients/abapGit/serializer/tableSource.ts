@@ -0,0 +1,363 @@
+/**
+ * TABL: ADT edits a table as `define table` source, abapGit stores it as
+ * `DD02V` and the fields in `DD03P_TABLE`. This reads the one into the other
+ * and writes it back.
+ *
+ * Only what the two say alike is mapped: the header annotations ADT writes
+ * for a transparent table, key and not-null flags, built-in and data element
+ * types, includes, and the currency and unit references of amount and
+ * quantity fields. Anything else — a foreign key, a value help, an
+ * annotation not listed here — is refused (`ABAPGIT_OBJECT_UNSUPPORTED`)
+ * rather than dropped, because the table written back would silently lack it.
+ * Technical settings (`DD09L`) are not in the source and not serialized.
+ */
+
+import {
+  type AbapGitNode,
+  abapGitError,
+  ddicNumber,
+  fieldOf,
+  flag,
+  type IAbapGitStructure,
+  rowsOf,
+  structureOf,
+} from './abapGitXml';
+
+/** Built-in types of a fixed length: `abap.clnt` is `CLNT`, 3. */
+const FIXED_LENGTH: Record<string, number> = {
+  ACCP: 6,
+  CLNT: 3,
+  CUKY: 5,
+  DATN: 8,
+  DATS: 8,
+  FLTP: 16,
+  INT1: 3,
+  INT2: 5,
+  INT4: 10,
+  INT8: 19,
+  LANG: 1,
+  PREC: 2,
+  TIMN: 6,
+  TIMS: 6,
+  UTCLONG: 27,
+};
+
+/** Built-in types with decimals: `abap.dec(15,2)`. */
+const WITH_DECIMALS = new Set(['CURR', 'DEC', 'QUAN']);
+
+/** Types whose length is written even when zero: `abap.string(0)`. */
+const OPEN_LENGTH = new Set(['RAWSTRING', 'STRING']);
+
+const TABLE_CATEGORIES: Record<string, string> = { TRANSPARENT: 'TRANSP' };
+
+const ENHANCEMENT_CATEGORIES: Record<string, string | undefined> = {
+  NOT_CLASSIFIED: undefined,
+  NOT_EXTENSIBLE: '1',
+  EXTENSIBLE_CHARACTER: '2',
+  EXTENSIBLE_CHARACTER_NUMERIC: '3',
+  EXTENSIBLE_ANY: '4',
+};
+
+const DATA_MAINTENANCE: Record<string, string | undefined> = {
+  RESTRICTED: undefined,
+  ALLOWED: 'X',
+  NOT_ALLOWED: 'N',
+};
+
+const FIELD_REFERENCES = new Set([
+  'Semantics.amount.currencyCode',
+  'Semantics.quantity.unitOfMeasure',
+]);
+
+function unsupported(table: string, what: string): Error {
+  return abapGitError(
+    'ABAPGIT_OBJECT_UNSUPPORTED',
+    `Table ${table} has ${what}, which abapGit's DD02V/DD03P cannot hold as written here.`,
+  );
+}
+
+/** The source without comments, string literals kept whole. */
+function stripComments(source: string): string {
+  let out = '';
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (char === "'") {
+      const end = source.indexOf("'", i + 1);
+      const stop = end === -1 ? source.length : end + 1;
+      out += source.slice(i, stop);
+      i = stop;
+    } else if (source.startsWith('//', i)) {
+      const end = source.indexOf('\n', i);
+      i = end === -1 ? source.length : end;
+    } else if (source.startsWith('/*', i)) {
+      const end = source.indexOf('*/', i + 2);
+      i = end === -1 ? source.length : end + 2;
+    } else {
+      out += char;
+      i++;
+    }
+  }
+  return out;
+}
+
+const ANNOTATION = /^@([\w.]+)\s*:\s*('(?:[^']|'')*'|#\w+|[\w.]+)\s*/;
+
+/** Leading `@name : value` annotations of a text, and what follows them. */
+function takeAnnotations(text: string): {
+  annotations: Array<[string, string]>;
+  rest: string;
+} {
+  const annotations: Array<[string, string]> = [];
+  let rest = text.trim();
+  let match = rest.match(ANNOTATION);
+  while (match) {
+    annotations.push([match[1], match[2]]);
+    rest = rest.slice(match[0].length).trim();
+    match = rest.match(ANNOTATION);
+  }
+  return { annotations, rest };
+}
+
+const unquote = (value: string) =>
+  value.startsWith("'") ? value.slice(1, -1).replace(/''/g, "'") : value;
+const enumValue = (value: string) => value.replace(/^#/, '').toUpperCase();
+
+function lookup(
+  table: string,
+  map: Record<string, string | undefined>,
+  annotation: string,
+  value: string,
+): string | undefined {
+  const key = enumValue(value);
+  if (!(key in map)) throw unsupported(table, `@${annotation} : ${value}`);
+  return map[key];
+}
+
+const FIELD =
+  /^(key\s+)?([\w/]+)\s*:\s*([\w/.]+)(?:\(\s*(\d+)\s*(?:,\s*(\d+)\s*)?\))?(\s+not\s+null)?$/i;
+const INCLUDE = /^include\s+([\w/]+)(\s+not\s+null)?$/i;
+
+function fieldRow(
+  table: string,
+  statement: string,
+): { row: IAbapGitStructure; clientKey: boolean } {
+  const { annotations, rest } = takeAnnotations(statement);
+  const include = rest.match(INCLUDE);
+  if (include) {
+    if (annotations.length > 0) {
+      throw unsupported(table, `annotations on include ${include[1]}`);
+    }
+    return {
+      row: {
+        FIELDNAME: '.INCLUDE',
+        PRECFIELD: include[1].toUpperCase(),
+        NOTNULL: flag(Boolean(include[2])),
+        COMPTYPE: 'S',
+      },
+      clientKey: false,
+    };
+  }
+  const field = rest.match(FIELD);
+  if (!field) throw unsupported(table, `the field '${rest}'`);
+  const [, key, name, type, length, decimals, notNull] = field;
+
+  let reference: { kind: string; table: string; field: string } | undefined;
+  for (const [annotation, value] of annotations) {
+    if (!FIELD_REFERENCES.has(annotation)) {
+      throw unsupported(table, `@${annotation} on field ${name}`);
+    }
+    const [refTable, refField] = unquote(value).toUpperCase().split('.');
+    reference = {
+      kind: annotation.endsWith('unitOfMeasure') ? 'QUAN' : 'CURR',
+      table: refTable,
+      field: refField,
+    };
+  }
+
+  const builtIn = type.match(/^abap\.(\w+)$/i);
+  if (!builtIn && length !== undefined) {
+    throw unsupported(table, `a length on data element ${type}`);
+  }
+  const dataType = builtIn?.[1].toUpperCase();
+  // A data element field keeps the kind of its reference as its type — it
+  // is an amount or a quantity, and the reference annotation says which.
+  const row: IAbapGitStructure = {
+    FIELDNAME: name.toUpperCase(),
+    KEYFLAG: flag(Boolean(key)),
+    ROLLNAME: builtIn ? undefined : type.toUpperCase(),
+    DATATYPE: dataType ?? reference?.kind,
+    LENG: dataType ? ddicNumber(FIXED_LENGTH[dataType] ?? length) : undefined,
+    DECIMALS: dataType ? ddicNumber(decimals) : undefined,
+    NOTNULL: flag(Boolean(notNull)),
+    REFTABLE: reference?.table,
+    REFFIELD: reference?.field,
+    COMPTYPE: builtIn ? undefined : 'E',
+  };
+  return {
+    row,
+    clientKey:
+      Boolean(key) && (row.DATATYPE === 'CLNT' || row.ROLLNAME === 'MANDT'),
+  };
+}
+
+/** `DD02V` and `DD03P_TABLE` of a `define table` source. */
+export function tableValuesFromSource(
+  table: string,
+  source: string,
+  language: string,
+): IAbapGitStructure {
+  const text = stripComments(source);
+  const define = text.match(/define\s+table\s+([\w/]+)\s*\{/i);
+  const close = text.lastIndexOf('}');
+  if (!define || define.index === undefined || close < define.index) {
+    throw abapGitError(
+      'ABAPGIT_OBJECT_UNSUPPORTED',
+      `The source of table ${table} is not a 'define table' statement.`,
+    );
+  }
+
+  // In abapGit's field order, whatever the order of the annotations.
+  const header: IAbapGitStructure = {
+    TABNAME: table,
+    DDLANGUAGE: language,
+    TABCLASS: undefined,
+    CLIDEP: undefined,
+    DDTEXT: undefined,
+    MASTERLANG: language,
+    MAINFLAG: undefined,
+    CONTFLAG: undefined,
+    EXCLASS: undefined,
+  };
+  const { annotations, rest } = takeAnnotations(text.slice(0, define.index));
+  if (rest !== '') throw unsupported(table, `'${rest}' before define table`);
+  for (const [annotation, value] of annotations) {
+    switch (annotation) {
+      case 'EndUserText.label':
+        header.DDTEXT = unquote(value);
+        break;
+      case 'AbapCatalog.tableCategory':
+        header.TABCLASS = lookup(table, TABLE_CATEGORIES, annotation, value);
+        break;
+      case 'AbapCatalog.deliveryClass':
+        header.CONTFLAG = enumValue(value);
+        break;
+      case 'AbapCatalog.enhancement.category':
+        header.EXCLASS = lookup(
+          table,
+          ENHANCEMENT_CATEGORIES,
+          annotation,
+          value,
+        );
+        break;
+      case 'AbapCatalog.dataMaintenance':
+        header.MAINFLAG = lookup(table, DATA_MAINTENANCE, annotation, value);
+        break;
+      default:
+        throw unsupported(table, `@${annotation}`);
+    }
+  }
+
+  const rows: IAbapGitStructure[] = [];
+  let clientDependent = false;
+  const body = text.slice(define.index + define[0].length, close);
+  for (const statement of body.split(';')) {
+    if (statement.trim() === '') continue;
+    const { row, clientKey } = fieldRow(
+      table,
+      statement.replace(/\s+/g, ' ').trim(),
+    );
+    rows.push({ TABNAME: table, ...row });
+    clientDependent ||= clientKey;
+  }
+  header.CLIDEP = flag(clientDependent);
+
+  return {
+    DD02V: header,
+    DD03P_TABLE: { row: 'DD03P', rows },
+  };
+}
+
+function keyOf(
+  map: Record<string, string | undefined>,
+  value: string,
+): string | undefined {
+  return Object.entries(map).find(
+    ([, mapped]) => (mapped ?? '') === value,
+  )?.[0];
+}
+
+function typeOf(row: AbapGitNode): string {
+  const rollName = fieldOf(row, 'ROLLNAME');
+  if (rollName) return rollName.toLowerCase();
+  const dataType = fieldOf(row, 'DATATYPE');
+  const type = `abap.${dataType.toLowerCase()}`;
+  if (dataType in FIXED_LENGTH) return type;
+  const length = Number(fieldOf(row, 'LENG') || 0);
+  if (WITH_DECIMALS.has(dataType)) {
+    return `${type}(${length},${Number(fieldOf(row, 'DECIMALS') || 0)})`;
+  }
+  return length > 0 || OPEN_LENGTH.has(dataType) ? `${type}(${length})` : type;
+}
+
+/**
+ * The `define table` source of `DD02V` and `DD03P_TABLE`, laid out the way
+ * ADT's editor lays it out.
+ */
+export function tableSourceFromValues(
+  table: string,
+  values: AbapGitNode,
+): string {
+  const header = structureOf(values, 'DD02V');
+  const annotation = (name: string, value: string | undefined) =>
+    value ? [`@${name} : ${value}`] : [];
+  const label = fieldOf(header, 'DDTEXT').replace(/'/g, "''");
+  const enhancement = keyOf(ENHANCEMENT_CATEGORIES, fieldOf(header, 'EXCLASS'));
+  const category = keyOf(TABLE_CATEGORIES, fieldOf(header, 'TABCLASS'));
+  const maintenance = keyOf(DATA_MAINTENANCE, fieldOf(header, 'MAINFLAG'));
+  const delivery = fieldOf(header, 'CONTFLAG');
+
+  const rows = rowsOf(values, 'DD03P_TABLE', 'DD03P') as AbapGitNode[];
+  const heads = rows.map((row) =>
+    fieldOf(row, 'FIELDNAME') === '.INCLUDE'
+      ? ''
+      : `${fieldOf(row, 'KEYFLAG') === 'X' ? 'key ' : ''}${fieldOf(row, 'FIELDNAME').toLowerCase()}`,
+  );
+  const width = Math.max(0, ...heads.map((head) => head.length));
+  const fields = rows.flatMap((row, index) => {
+    const notNull = fieldOf(row, 'NOTNULL') === 'X' ? ' not null' : '';
+    if (fieldOf(row, 'FIELDNAME') === '.INCLUDE') {
+      return [
+        `  include ${fieldOf(row, 'PRECFIELD').toLowerCase()}${notNull};`,
+      ];
+    }
+    const reference = fieldOf(row, 'REFTABLE')
+      ? [
+          `  @Semantics.${fieldOf(row, 'DATATYPE') === 'QUAN' ? 'quantity.unitOfMeasure' : 'amount.currencyCode'} : '${fieldOf(row, 'REFTABLE').toLowerCase()}.${fieldOf(row, 'REFFIELD').toLowerCase()}'`,
+        ]
+      : [];
+    return [
+      ...reference,
+      `  ${heads[index].padEnd(width)} : ${typeOf(row)}${notNull};`,
+    ];
+  });
+
+  return [
+    ...annotation('EndUserText.label', `'${label}'`),
+    ...annotation(
+      'AbapCatalog.enhancement.category',
+      enhancement && `#${enhancement}`,
+    ),
+    ...annotation('AbapCatalog.tableCategory', category && `#${category}`),
+    ...annotation('AbapCatalog.deliveryClass', delivery && `#${delivery}`),
+    ...annotation(
+      'AbapCatalog.dataMaintenance',
+      maintenance && `#${maintenance}`,
+    ),
+    `define table ${table.toLowerCase()} {`,
+    '',
+    ...fields,
+    '',
+    '}',
+  ].join('\n');
+}
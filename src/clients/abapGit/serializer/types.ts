@@ -0,0 +1,143 @@
+/**
+ * Offline abapGit serializer type definitions.
+ *
+ * Unlike the server-side client's contract types, these are not in
+ * @mcp-abap-adt/interfaces: the serializer is code that runs here, reading
+ * through `AdtClient` handlers, and no other package implements it.
+ */
+
+import type { IObjectReference } from '@mcp-abap-adt/interfaces';
+import type { AdtClient } from '../../AdtClient';
+
+/** One file of an abapGit repository, by its path from the repository root. */
+export interface IAbapGitFile {
+  path: string;
+  content: string;
+}
+
+/** An object by its abapGit type — `CLAS`, `TABL`, … — and its name. */
+export interface IAbapGitObjectRef {
+  type: string;
+  name: string;
+}
+
+export interface IAbapGitSkippedObject extends IAbapGitObjectRef {
+  reason: string;
+}
+
+export interface IAbapGitSerializeOptions {
+  /**
+   * Folder the object files go into, from the repository root. Default
+   * `src/`, which is what abapGit writes into `.abapgit.xml` for a new
+   * repository.
+   */
+  startingFolder?: string;
+  /**
+   * Write `.abapgit.xml`, the repository descriptor abapGit reads first.
+   * Default true.
+   */
+  repositoryFile?: boolean;
+  /** `MASTER_LANGUAGE` of the descriptor, as ISO code. Default `EN`. */
+  masterLanguage?: string;
+}
+
+export interface IAbapGitSerializePackageOptions
+  extends IAbapGitSerializeOptions {
+  includeSubpackages?: boolean;
+}
+
+export interface IAbapGitSerializeResult {
+  files: IAbapGitFile[];
+  /** The objects the files are of, in the order they were read. */
+  objects: IAbapGitObjectRef[];
+  /** Objects of the package that have no serializer here, and why. */
+  skipped: IAbapGitSkippedObject[];
+}
+
+export interface IAbapGitDeserializeOptions {
+  /** Package objects that do not exist yet are created in. */
+  packageName: string;
+  transportRequest?: string;
+  /** Activate what was written, in one group activation. Default true. */
+  activate?: boolean;
+}
+
+export type AbapGitDeserializeAction = 'created' | 'updated' | 'unchanged';
+
+export interface IAbapGitDeserializedObject extends IAbapGitObjectRef {
+  action: AbapGitDeserializeAction;
+}
+
+export interface IAbapGitActivationMessage {
+  type: string;
+  text: string;
+  line?: number;
+  column?: number;
+}
+
+export interface IAbapGitDeserializeResult {
+  objects: IAbapGitDeserializedObject[];
+  /**
+   * Files that belong to no object this deserializer handles — README,
+   * `.abapgit.xml`, objects of other types. Not an error: a repository
+   * holds them.
+   */
+  skippedFiles: string[];
+  /** Outcome of the group activation; absent when nothing was activated. */
+  activation?: {
+    activated: boolean;
+    checked: boolean;
+    generated: boolean;
+    messages: IAbapGitActivationMessage[];
+  };
+}
+
+/**
+ * The files of one object, keyed by what follows `<name>.<type>.` in their
+ * names: `abap`, `xml`, `locals_imp.abap`, `asddls`, …
+ */
+export type AbapGitObjectFiles = Record<string, string>;
+
+export interface IAbapGitDeserializeContext {
+  client: AdtClient;
+  packageName: string;
+  transportRequest?: string;
+}
+
+/**
+ * What writing one object did: whether anything changed, and which ADT
+ * objects are now inactive and go into the group activation.
+ */
+export interface IAbapGitWriteResult {
+  changed: boolean;
+  activate: IObjectReference[];
+}
+
+/** Serializer and deserializer for one abapGit object type. */
+export interface IAbapGitObjectSerializer {
+  /** abapGit type, as in the file names: `CLAS`. */
+  type: string;
+  /** ADT type of the object in a package listing: `CLAS/OC`. */
+  adtType: string;
+  /**
+   * ADT types a package listing shows beside the object for its parts — a
+   * group's function modules — which are serialized with it.
+   */
+  memberAdtTypes?: string[];
+  /** The object's files, or undefined when it does not exist. */
+  serialize(
+    client: AdtClient,
+    name: string,
+  ): Promise<AbapGitObjectFiles | undefined>;
+  /**
+   * Create or update the object from its files. `current` is what
+   * `serialize` answers for it now — undefined when it does not exist — so
+   * only the parts that differ are written.
+   */
+  deserialize(
+    context: IAbapGitDeserializeContext,
+    name: string,
+    files: AbapGitObjectFiles,
+    current: AbapGitObjectFiles | undefined,
+  ): Promise<IAbapGitWriteResult>;
+}
@@ -52,6 +52,10 @@ export const ACCEPT_TRANSPORT_CHECK =
   'application/vnd.sap.as+xml;charset=UTF-8;dataname=com.sap.adt.transport.service.checkData';
 export const CT_TRANSPORT_CHECK =
   'application/vnd.sap.as+xml; charset=UTF-8; dataname=com.sap.adt.transport.service.checkData';
+// Request/task actions (release, change owner, new task, sort and compress):
+// every action link on a request is typed `application/xml`.
+export const CT_TRANSPORT_ACTION = 'application/xml';
+export const ACCEPT_TRANSPORT_ACTION = 'application/xml';
 
 // Unit Test
 export const CT_UNIT_TEST_RUN =
@@ -63,6 +67,10 @@ export const ACCEPT_UNIT_TEST_RESULT =
 export const ACCEPT_JUNIT_RESULT =
   'application/vnd.sap.adt.api.junit.run-result.v1+xml';
 
+// Unit Test coverage — the measurement a covered run links to
+export const CT_COVERAGE_QUERY = 'application/xml';
+export const ACCEPT_COVERAGE = 'application/xml';
+
 // Discovery
 export const ACCEPT_DISCOVERY = 'application/atomsvc+xml';
 
@@ -86,6 +94,36 @@ export const ACCEPT_WHERE_USED_SCOPE =
 export const CT_WHERE_USED_SCOPE =
   'application/vnd.sap.adt.repository.usagereferences.scope.request.v1+xml';
 
+// Pretty printer — source goes in and comes back as plain text; the settings
+// are the one document the user's formatter profile is kept in
+export const CT_PRETTY_PRINTER_SOURCE = 'text/plain; charset=utf-8';
+export const ACCEPT_PRETTY_PRINTER_SOURCE = 'text/plain';
+export const CT_PRETTY_PRINTER_SETTINGS =
+  'application/vnd.sap.adt.ppsettings.v2+xml';
+export const ACCEPT_PRETTY_PRINTER_SETTINGS =
+  'application/vnd.sap.adt.ppsettings.v2+xml, application/xml';
+
+// Source intelligence (code completion, element info, insertion) — the
+// source under edit goes up as text, the answers come back as asXML or text
+export const CT_CODE_COMPLETION_SOURCE = 'text/plain; charset=utf-8';
+export const ACCEPT_CODE_COMPLETION = 'application/*';
+export const ACCEPT_CODE_INSERTION = 'text/plain';
+
+// Navigation and type hierarchy — same cursor-in-unsaved-source requests
+export const ACCEPT_NAVIGATION_TARGET = 'application/xml';
+export const ACCEPT_TYPE_HIERARCHY =
+  'application/vnd.sap.adt.typehierachy.result.v1+xml, application/xml';
+
+// Quick fixes — evaluation takes the source as text, applying a proposal
+// posts a proposalRequest; both answer under ADT's generic media type
+export const CT_QUICKFIX_PROPOSAL_REQUEST = 'application/*';
+export const ACCEPT_QUICKFIX = 'application/*';
+
+// Refactorings — evaluate/preview/execute exchange the refactoring document
+// under ADT's generic media type, in both directions
+export const CT_REFACTORING = 'application/*';
+export const ACCEPT_REFACTORING = 'application/*';
+
 // Data Preview
 export const ACCEPT_DATA_PREVIEW =
   'application/xml, application/vnd.sap.adt.datapreview.table.v1+xml';
@@ -285,3 +323,13 @@ export const ACCEPT_ATC_WORKLIST_XML =
   'application/atc.worklist.v1+xml, application/vnd.sap.atc.worklist.v1+xml';
 export const ACCEPT_ATC_CUSTOMIZING =
   'application/xml, application/vnd.sap.atc.customizing-v1+xml, application/vnd.sap.atc.customizing-v2+xml';
+// The variant list is a named-item value help; the probe asked for it with
+// this Accept. The check variant type is the one discovery lists for
+// /atc/checkvariants.
+export const ACCEPT_ATC_VARIANTS =
+  'application/vnd.sap.adt.nameditems.v1+xml, application/xml';
+export const ACCEPT_ATC_CHECK_VARIANT = 'application/vnd.sap.adt.chkvv4+xml';
+// The exemption resource is not in the captures: the type is the one the
+// Eclipse ADT client sends for both the proposal and the request.
+export const CT_ATC_EXEMPTION = 'application/atc.xmpt.v1+xml';
+export const ACCEPT_ATC_EXEMPTION = 'application/atc.xmpt.v1+xml';
@@ -35,7 +35,8 @@ import { getSystemInformation } from '../../utils/systemInfo';
 import { AdtClass } from '../class';
 import { updateClass } from '../class/update';
 import type { LockRegistry } from '../shared/LockRegistry';
-import type { IReadOptions } from '../shared/types';
+import { prettyPrintBeforeUpdate } from '../shared/prettyPrinter';
+import type { IPrettyPrintUpdateOptions, IReadOptions } from '../shared/types';
 import {
   getBehaviorImplementationMetadata,
   getBehaviorImplementationSource,
@@ -294,10 +295,11 @@ export class AdtBehaviorImplementation
    * Update behavior implementation with full operation chain
    * Always starts with lock
    * If options.lockHandle is provided, performs only low-level update without lock/check/unlock chain
+   * If options.prettyPrint is set, the source is pretty-printed first (see AdtUtils.prettyPrint)
    */
   async update(
     config: Partial<IBehaviorImplementationConfig>,
-    options?: IAdtOperationOptions,
+    options?: IAdtOperationOptions & IPrettyPrintUpdateOptions,
   ): Promise<IBehaviorImplementationState> {
     const state: IBehaviorImplementationState = { errors: [] };
     if (!config.className) {
@@ -306,6 +308,13 @@ export class AdtBehaviorImplementation
       throw error;
     }
 
+    options = await prettyPrintBeforeUpdate(
+      this.connection,
+      options?.sourceCode || config.implementationCode || config.sourceCode,
+      options,
+      this.logger,
+    );
+
     // Low-level mode: if lockHandle is provided, perform only update operation
     if (options?.lockHandle) {
       const codeToUpdate =
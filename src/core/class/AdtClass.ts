@@ -43,7 +43,8 @@ import {
   type LockRegistry,
   type LockTracker,
 } from '../shared/LockRegistry';
-import type { IReadOptions } from '../shared/types';
+import { prettyPrintBeforeUpdate } from '../shared/prettyPrinter';
+import type { IPrettyPrintUpdateOptions, IReadOptions } from '../shared/types';
 import { AdtClassMemberBase } from './AdtClassMemberBase';
 import { activateClass } from './activation';
 import { checkClass, checkClassLocalTestClass } from './check';
@@ -260,15 +261,23 @@ export class AdtClass
    * Update class with full operation chain
    * Always starts with lock
    * If options.lockHandle is provided, performs only low-level update without lock/check/unlock chain
+   * If options.prettyPrint is set, the source is pretty-printed first (see AdtUtils.prettyPrint)
    */
   async update(
     config: Partial<IClassConfig>,
-    options?: IAdtOperationOptions,
+    options?: IAdtOperationOptions & IPrettyPrintUpdateOptions,
   ): Promise<IClassState> {
     if (!config.className) {
       throw new Error('Class name is required');
     }
 
+    options = await prettyPrintBeforeUpdate(
+      this.connection,
+      options?.sourceCode || config.sourceCode,
+      options,
+      this.logger,
+    );
+
     // Low-level mode: if lockHandle is provided, perform only update operation
     if (options?.lockHandle) {
       const codeToUpdate = options?.sourceCode || config.sourceCode;
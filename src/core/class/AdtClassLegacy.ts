@@ -19,6 +19,8 @@ import {
   safeErrorMessage,
 } from '../../utils/internalUtils';
 import { deleteObjectDirect } from '../shared/deleteLegacy';
+import { prettyPrintBeforeUpdate } from '../shared/prettyPrinter';
+import type { IPrettyPrintUpdateOptions } from '../shared/types';
 import { AdtClass } from './AdtClass';
 import { activateClass } from './activation';
 import { checkClass } from './check';
@@ -36,7 +38,7 @@ export class AdtClassLegacy extends AdtClass {
    */
   override async update(
     config: Partial<IClassConfig>,
-    options?: IAdtOperationOptions,
+    options?: IAdtOperationOptions & IPrettyPrintUpdateOptions,
   ): Promise<IClassState> {
     if (!config.className) {
       throw new Error('Class name is required');
@@ -47,6 +49,13 @@ export class AdtClassLegacy extends AdtClass {
       return super.update(config, options);
     }
 
+    options = await prettyPrintBeforeUpdate(
+      this.connection,
+      options?.sourceCode || config.sourceCode,
+      options,
+      this.logger,
+    );
+
     let lockHandle: string | undefined;
     const state: IClassState = { errors: [] };
 
@@ -12,7 +12,8 @@ import type {
   IObjectVersion,
 } from '@mcp-abap-adt/interfaces';
 import { safeErrorMessage } from '../../utils/internalUtils';
-import type { IReadOptions } from '../shared/types';
+import { prettyPrintBeforeUpdate } from '../shared/prettyPrinter';
+import type { IPrettyPrintUpdateOptions, IReadOptions } from '../shared/types';
 import { AdtClassMemberBase } from './AdtClassMemberBase';
 import { checkClassDefinitions } from './check';
 import { updateClassDefinitions } from './includes';
@@ -93,10 +94,11 @@ export class AdtLocalDefinitions extends AdtClassMemberBase {
    * Update local definitions with full operation chain
    * Requires parent class to be locked
    * If options.lockHandle is provided, performs only low-level update without lock/check/unlock chain
+   * If options.prettyPrint is set, the source is pretty-printed first (see AdtUtils.prettyPrint)
    */
   async update(
     config: Partial<ILocalDefinitionsConfig>,
-    options?: IAdtOperationOptions,
+    options?: IAdtOperationOptions & IPrettyPrintUpdateOptions,
   ): Promise<IClassState> {
     if (!config.className) {
       throw new Error('Class name is required');
@@ -110,6 +112,13 @@ export class AdtLocalDefinitions extends AdtClassMemberBase {
       throw new Error('Definitions code is required');
     }
 
+    options = await prettyPrintBeforeUpdate(
+      this.connection,
+      options?.sourceCode ?? config.definitionsCode,
+      options,
+      this.logger,
+    );
+
     // Low-level mode: if lockHandle is provided, perform only update operation
     if (options?.lockHandle) {
       const codeToUpdate = options?.sourceCode ?? config.definitionsCode ?? '';
@@ -13,7 +13,8 @@ import type {
   IObjectVersion,
 } from '@mcp-abap-adt/interfaces';
 import { safeErrorMessage } from '../../utils/internalUtils';
-import type { IReadOptions } from '../shared/types';
+import { prettyPrintBeforeUpdate } from '../shared/prettyPrinter';
+import type { IPrettyPrintUpdateOptions, IReadOptions } from '../shared/types';
 import { AdtClassMemberBase } from './AdtClassMemberBase';
 import { checkClassMacros } from './check';
 import { updateClassMacros } from './includes';
@@ -88,10 +89,11 @@ export class AdtLocalMacros extends AdtClassMemberBase {
    * Update local macros with full operation chain
    * Requires parent class to be locked
    * If options.lockHandle is provided, performs only low-level update without lock/check/unlock chain
+   * If options.prettyPrint is set, the source is pretty-printed first (see AdtUtils.prettyPrint)
    */
   async update(
     config: Partial<ILocalMacrosConfig>,
-    options?: IAdtOperationOptions,
+    options?: IAdtOperationOptions & IPrettyPrintUpdateOptions,
   ): Promise<IClassState> {
     if (!config.className) {
       throw new Error('Class name is required');
@@ -102,6 +104,13 @@ export class AdtLocalMacros extends AdtClassMemberBase {
       throw new Error('Macros code is required');
     }
 
+    options = await prettyPrintBeforeUpdate(
+      this.connection,
+      options?.sourceCode ?? config.macrosCode,
+      options,
+      this.logger,
+    );
+
     // Low-level mode: if lockHandle is provided, perform only update operation
     if (options?.lockHandle) {
       const codeToUpdate = options?.sourceCode ?? config.macrosCode ?? '';
@@ -32,12 +32,28 @@ import type {
   ILogger,
 } from '@mcp-abap-adt/interfaces';
 import { safeErrorMessage } from '../../utils/internalUtils';
+import {
+  cdsAssociationBindings,
+  cdsAssociationQuery,
+  cdsNotFound,
+  findCdsAssociation,
+  parseCdsEntity,
+  previewCdsEntity,
+} from '../shared/cdsPreview';
 import {
   createLockTracker,
   type LockRegistry,
   type LockTracker,
 } from '../shared/LockRegistry';
-import type { IReadOptions } from '../shared/types';
+import type {
+  DataPreviewValue,
+  ICdsEntity,
+  ICdsPreview,
+  ICdsPreviewQuery,
+  ICdsPreviewResult,
+  IDataPreviewColumn,
+  IReadOptions,
+} from '../shared/types';
 import { activateDDLS } from './activation';
 import { checkDdl } from './check';
 import { createDdl } from './create';
@@ -50,7 +66,9 @@ import { updateDdl } from './update';
 import { validateDdlName } from './validation';
 
 import { getDdlVersionSource, getDdlVersions } from './versions';
-export class AdtDdl implements IAdtSourceObject<IDdlConfig, IDdlState> {
+export class AdtDdl
+  implements IAdtSourceObject<IDdlConfig, IDdlState>, ICdsPreview<IDdlConfig>
+{
   protected readonly connection: IAbapConnection;
   protected readonly logger?: ILogger;
   protected readonly systemContext: IAdtSystemContext;
@@ -622,6 +640,54 @@ export class AdtDdl implements IAdtSourceObject<IDdlConfig, IDdlState> {
     };
   }
 
+  /**
+   * The entity the active DDL source defines: name, parameters, associations
+   */
+  async readEntity(config: Partial<IDdlConfig>): Promise<ICdsEntity> {
+    if (!config.ddlName) {
+      throw new Error('View name is required');
+    }
+    const state = await this.read({ ddlName: config.ddlName }, 'active');
+    if (!state?.readResult) {
+      throw cdsNotFound(config.ddlName);
+    }
+    return parseCdsEntity(String(state.readResult.data ?? ''));
+  }
+
+  /**
+   * Preview the entity's rows, with parameter values
+   */
+  async preview(
+    config: Partial<IDdlConfig>,
+    query?: ICdsPreviewQuery,
+  ): Promise<ICdsPreviewResult> {
+    const entity = await this.readEntity(config);
+    return previewCdsEntity(this.connection, entity, query);
+  }
+
+  /**
+   * Preview what a row reaches through an association. The target is read as
+   * a DDL source of the same name, for its parameters — and, for a
+   * composition, for the condition of its association to parent.
+   */
+  async followAssociation(
+    config: Partial<IDdlConfig>,
+    association: string,
+    row: Record<string, DataPreviewValue>,
+    query?: ICdsPreviewQuery,
+    columns?: IDataPreviewColumn[],
+  ): Promise<ICdsPreviewResult> {
+    const entity = await this.readEntity(config);
+    const followed = findCdsAssociation(entity, association);
+    const target = await this.readEntity({ ddlName: followed.target });
+    const bindings = cdsAssociationBindings(entity, followed, target);
+    return previewCdsEntity(
+      this.connection,
+      target,
+      cdsAssociationQuery(entity, followed, bindings, row, query, columns),
+    );
+  }
+
   getVersions(config: Partial<IDdlConfig>) {
     return getDdlVersions(this.connection, config);
   }
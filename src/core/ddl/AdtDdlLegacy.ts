@@ -3,6 +3,8 @@ import { beginCriticalSection } from '../../utils/criticalSection';
  * AdtDdlLegacy - View handler for legacy SAP systems (BASIS < 7.50)
  *
  * Overrides delete() to use direct DELETE instead of /sap/bc/adt/deletion/ API.
+ * CDS data preview needs /sap/bc/adt/datapreview/ddic, which legacy systems
+ * do not have; preview() and followAssociation() throw.
  */
 
 import {
@@ -15,6 +17,14 @@ import { lockDDLS } from './lock';
 import type { IDdlConfig, IDdlState } from './types';
 import { unlockDDLS } from './unlock';
 
+function unsupportedError(operation: string, endpoint: string): string {
+  return (
+    `${operation} is not supported on this SAP system (legacy, BASIS < 7.50). ` +
+    `The required endpoint ${endpoint} was not found in the system's ` +
+    `ADT discovery catalog (/sap/bc/adt/discovery).`
+  );
+}
+
 export class AdtDdlLegacy extends AdtDdl {
   override async delete(config: Partial<IDdlConfig>): Promise<IDdlState> {
     if (!config.ddlName) {
@@ -65,4 +75,16 @@ export class AdtDdlLegacy extends AdtDdl {
       endCriticalSection();
     }
   }
+
+  override async preview(): Promise<never> {
+    throw new Error(
+      unsupportedError('CDS data preview', '/sap/bc/adt/datapreview/ddic'),
+    );
+  }
+
+  override async followAssociation(): Promise<never> {
+    throw new Error(
+      unsupportedError('CDS data preview', '/sap/bc/adt/datapreview/ddic'),
+    );
+  }
 }
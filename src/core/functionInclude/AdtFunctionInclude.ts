@@ -33,6 +33,8 @@ import type {
 } from '@mcp-abap-adt/interfaces';
 import { safeErrorMessage } from '../../utils/internalUtils';
 import type { LockRegistry } from '../shared/LockRegistry';
+import { prettyPrintBeforeUpdate } from '../shared/prettyPrinter';
+import type { IPrettyPrintUpdateOptions } from '../shared/types';
 import { activateFunctionInclude } from './activation';
 import { checkFunctionInclude } from './check';
 import { create as createFunctionInclude } from './create';
@@ -53,7 +55,6 @@ import { unlockFunctionInclude } from './unlock';
 import { updateFunctionInclude } from './update';
 import { uploadFunctionIncludeSource } from './updateSource';
 import { validateFunctionIncludeName } from './validation';
-
 import {
   getFunctionIncludeVersionSource,
   getFunctionIncludeVersions,
@@ -475,10 +476,11 @@ export class AdtFunctionInclude
 
   /**
    * Update function include with full operation chain.
+   * If options.prettyPrint is set, the source is pretty-printed first (see AdtUtils.prettyPrint)
    */
   async update(
     config: Partial<IFunctionIncludeConfig>,
-    options?: IAdtOperationOptions,
+    options?: IAdtOperationOptions & IPrettyPrintUpdateOptions,
   ): Promise<IFunctionIncludeState> {
     if (!config.functionGroupName) {
       throw new Error('Function group name is required');
@@ -492,6 +494,13 @@ export class AdtFunctionInclude
     };
     const params = this.buildCreateParams(fullConfig);
 
+    options = await prettyPrintBeforeUpdate(
+      this.connection,
+      options?.sourceCode || config.sourceCode,
+      options,
+      this.logger,
+    );
+
     // Low-level mode: if lockHandle is provided, perform only update operation
     if (options?.lockHandle) {
       const codeToUpdate = options?.sourceCode || config.sourceCode;
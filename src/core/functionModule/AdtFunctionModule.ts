@@ -31,7 +31,8 @@ import type {
 } from '@mcp-abap-adt/interfaces';
 import { safeErrorMessage } from '../../utils/internalUtils';
 import type { LockRegistry } from '../shared/LockRegistry';
-import type { IReadOptions } from '../shared/types';
+import { prettyPrintBeforeUpdate } from '../shared/prettyPrinter';
+import type { IPrettyPrintUpdateOptions, IReadOptions } from '../shared/types';
 import { activateFunctionModule } from './activation';
 import { checkFunctionModule } from './check';
 import { create as createFunctionModule } from './create';
@@ -46,7 +47,6 @@ import type { IFunctionModuleConfig, IFunctionModuleState } from './types';
 import { unlockFunctionModule } from './unlock';
 import { update } from './update';
 import { validateFunctionModuleName } from './validation';
-
 import {
   getFunctionModuleVersionSource,
   getFunctionModuleVersions,
@@ -330,10 +330,11 @@ export class AdtFunctionModule
    * Update function module with full operation chain
    * Always starts with lock
    * If options.lockHandle is provided, performs only low-level update without lock/check/unlock chain
+   * If options.prettyPrint is set, the source is pretty-printed first (see AdtUtils.prettyPrint)
    */
   async update(
     config: Partial<IFunctionModuleConfig>,
-    options?: IAdtOperationOptions,
+    options?: IAdtOperationOptions & IPrettyPrintUpdateOptions,
   ): Promise<IFunctionModuleState> {
     if (!config.functionModuleName) {
       throw new Error('Function module name is required');
@@ -342,6 +343,13 @@ export class AdtFunctionModule
       throw new Error('Function group name is required');
     }
 
+    options = await prettyPrintBeforeUpdate(
+      this.connection,
+      options?.sourceCode || config.sourceCode,
+      options,
+      this.logger,
+    );
+
     // Low-level mode: if lockHandle is provided, perform only update operation
     if (options?.lockHandle) {
       const codeToUpdate = options?.sourceCode || config.sourceCode;
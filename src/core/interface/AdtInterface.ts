@@ -35,7 +35,8 @@ import {
   type LockRegistry,
   type LockTracker,
 } from '../shared/LockRegistry';
-import type { IReadOptions } from '../shared/types';
+import { prettyPrintBeforeUpdate } from '../shared/prettyPrinter';
+import type { IPrettyPrintUpdateOptions, IReadOptions } from '../shared/types';
 import { activateInterface } from './activation';
 import { checkInterface } from './check';
 import { create as createInterface } from './create';
@@ -50,7 +51,6 @@ import type { IInterfaceConfig, IInterfaceState } from './types';
 import { unlockInterface } from './unlock';
 import { upload } from './update';
 import { validateInterfaceName } from './validation';
-
 import { getInterfaceVersionSource, getInterfaceVersions } from './versions';
 export class AdtInterface
   implements IAdtSourceObject<IInterfaceConfig, IInterfaceState>
@@ -247,15 +247,23 @@ export class AdtInterface
    * Update interface with full operation chain
    * Always starts with lock
    * If options.lockHandle is provided, performs only low-level update without lock/check/unlock chain
+   * If options.prettyPrint is set, the source is pretty-printed first (see AdtUtils.prettyPrint)
    */
   async update(
     config: Partial<IInterfaceConfig>,
-    options?: IAdtOperationOptions,
+    options?: IAdtOperationOptions & IPrettyPrintUpdateOptions,
   ): Promise<IInterfaceState> {
     if (!config.interfaceName) {
       throw new Error('Interface name is required');
     }
 
+    options = await prettyPrintBeforeUpdate(
+      this.connection,
+      options?.sourceCode || config.sourceCode,
+      options,
+      this.logger,
+    );
+
     // Low-level mode: if lockHandle is provided, perform only update operation
     if (options?.lockHandle) {
       const codeToUpdate = options?.sourceCode || config.sourceCode;
@@ -35,7 +35,8 @@ import {
   type LockRegistry,
   type LockTracker,
 } from '../shared/LockRegistry';
-import type { IReadOptions } from '../shared/types';
+import { prettyPrintBeforeUpdate } from '../shared/prettyPrinter';
+import type { IPrettyPrintUpdateOptions, IReadOptions } from '../shared/types';
 import { activateProgram } from './activation';
 import { checkProgram } from './check';
 import { create as createProgram } from './create';
@@ -50,7 +51,6 @@ import type { IProgramConfig, IProgramState } from './types';
 import { unlockProgram } from './unlock';
 import { uploadProgramSource } from './update';
 import { validateProgramName } from './validation';
-
 import { getProgramVersionSource, getProgramVersions } from './versions';
 export class AdtProgram
   implements IAdtSourceObject<IProgramConfig, IProgramState>
@@ -270,15 +270,23 @@ export class AdtProgram
    * Update program with full operation chain
    * Always starts with lock
    * If options.lockHandle is provided, performs only low-level update without lock/check/unlock chain
+   * If options.prettyPrint is set, the source is pretty-printed first (see AdtUtils.prettyPrint)
    */
   async update(
     config: Partial<IProgramConfig>,
-    options?: IAdtOperationOptions,
+    options?: IAdtOperationOptions & IPrettyPrintUpdateOptions,
   ): Promise<IProgramState> {
     if (!config.programName) {
       throw new Error('Program name is required');
     }
 
+    options = await prettyPrintBeforeUpdate(
+      this.connection,
+      options?.sourceCode || config.sourceCode,
+      options,
+      this.logger,
+    );
+
     // Low-level mode: if lockHandle is provided, perform only update operation
     if (options?.lockHandle) {
       const codeToUpdate = options?.sourceCode || config.sourceCode;
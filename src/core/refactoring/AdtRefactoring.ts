@@ -0,0 +1,267 @@
+/**
+ * AdtRefactoring - Server-side refactorings: rename, extract method, change package
+ *
+ * ADT refactors in three steps, and this class keeps them apart so a caller
+ * sees what will change before anything does:
+ *
+ * 1. `evaluate*` — the server checks the refactoring is possible where it was
+ *    started and says which objects it would touch, and which transport it
+ *    proposes;
+ * 2. `preview` — with the caller's choices (the new name, the transport) the
+ *    server computes the change: every affected object with its text deltas;
+ * 3. `execute` — the server writes the previewed change to all of them, under
+ *    the transport given.
+ *
+ * Each step sends back the document the previous one answered with. The
+ * server locks, writes and unlocks the affected objects itself during
+ * `execute`; nothing here takes a lock, and an object the caller holds
+ * locked makes `execute` fail rather than wait.
+ *
+ * Usage:
+ * ```typescript
+ * const refactoring = client.getRefactoring();
+ *
+ * const rename = await refactoring.evaluateRename({
+ *   uri: '/sap/bc/adt/oo/classes/zcl_demo/source/main',
+ *   start: { line: 12, column: 9 },
+ *   end: { line: 12, column: 17 },
+ * });
+ * const preview = await refactoring.preview(rename, {
+ *   newName: 'get_display_name',
+ *   transportRequest: 'E19K900001',
+ * });
+ * // preview.affectedObjects[i].deltas — what will change, old and new
+ * await refactoring.execute(preview);
+ * ```
+ */
+
+import {
+  AdtOperationError,
+  type IAbapConnection,
+  type ILogger,
+} from '@mcp-abap-adt/interfaces';
+import { safeErrorMessage } from '../../utils/internalUtils';
+import { patchIf, patchXmlElement } from '../../utils/xmlPatch';
+import {
+  buildChangePackageEvaluation,
+  buildExtractMethodEvaluation,
+} from './documents';
+import { parseRefactoring } from './parse';
+import { rangeUri } from './range';
+import { postRefactoringStep } from './step';
+import type {
+  IChangePackageRefactoring,
+  IChangePackageTarget,
+  IExtractMethodRefactoring,
+  IRefactoring,
+  IRefactoringPreviewOptions,
+  IRenameRefactoring,
+  ISourceRange,
+  RefactoringKind,
+} from './types';
+
+/** Where each refactoring keeps the name the caller chooses. */
+const NAME_ELEMENTS: Partial<Record<RefactoringKind, string>> = {
+  rename: 'rename:newName',
+  extractMethod: 'extractmethod:name',
+};
+
+function refused(code: string, message: string): AdtOperationError {
+  const error = new AdtOperationError(message);
+  error.code = code;
+  return error;
+}
+
+export class AdtRefactoring {
+  protected connection: IAbapConnection;
+  protected logger?: ILogger;
+
+  constructor(connection: IAbapConnection, logger?: ILogger) {
+    this.connection = connection;
+    this.logger = logger;
+  }
+
+  /**
+   * Evaluate renaming the identifier the range selects — a class, interface,
+   * method, attribute or variable: ADT decides which from what the range
+   * covers.
+   */
+  async evaluateRename(range: ISourceRange): Promise<IRenameRefactoring> {
+    const uri = rangeUri(range);
+    try {
+      const response = await postRefactoringStep(
+        this.connection,
+        'rename',
+        'evaluate',
+        '',
+        { uri },
+      );
+      return parseRefactoring('rename', 'evaluate', response.data);
+    } catch (error: unknown) {
+      this.logger?.error('Rename evaluation failed:', safeErrorMessage(error));
+      throw error;
+    }
+  }
+
+  /**
+   * Evaluate extracting the statements the range selects into a new method.
+   * The answer carries the name the server proposes for it.
+   */
+  async evaluateExtractMethod(
+    range: ISourceRange,
+  ): Promise<IExtractMethodRefactoring> {
+    const document = buildExtractMethodEvaluation(rangeUri(range));
+    try {
+      const response = await postRefactoringStep(
+        this.connection,
+        'extractMethod',
+        'evaluate',
+        document,
+      );
+      return parseRefactoring('extractMethod', 'evaluate', response.data);
+    } catch (error: unknown) {
+      this.logger?.error(
+        'Extract method evaluation failed:',
+        safeErrorMessage(error),
+      );
+      throw error;
+    }
+  }
+
+  /** Evaluate moving an object to another package. */
+  async evaluateChangePackage(
+    target: IChangePackageTarget,
+    newPackage: string,
+  ): Promise<IChangePackageRefactoring> {
+    if (!target?.uri || !target.name || !target.type) {
+      throw new Error('Object URI, name and type are required');
+    }
+    if (!target.packageName || !newPackage) {
+      throw new Error('Current and new package are required');
+    }
+    const document = buildChangePackageEvaluation(
+      target,
+      newPackage.toUpperCase(),
+    );
+    try {
+      const response = await postRefactoringStep(
+        this.connection,
+        'changePackage',
+        'evaluate',
+        document,
+      );
+      return parseRefactoring('changePackage', 'evaluate', response.data);
+    } catch (error: unknown) {
+      this.logger?.error(
+        'Change package evaluation failed:',
+        safeErrorMessage(error),
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Compute the change: the affected objects with their text deltas.
+   *
+   * The transport defaults to the one the server proposed at `evaluate`, so a
+   * handler config's `transportRequest` only needs passing when it differs.
+   * A rename needs `newName`; extract method takes the server's proposal
+   * without one. Previewing again — with another name — is allowed; previewing
+   * an executed refactoring is not.
+   *
+   * Refuses `ignoreSyntaxErrors` where the server said it would not honour it
+   * (`REFACTORING_SYNTAX_ERRORS_NOT_IGNORABLE`) rather than sending a request
+   * that looks like it did.
+   */
+  async preview<T extends IRefactoring>(
+    refactoring: T,
+    options: IRefactoringPreviewOptions = {},
+  ): Promise<T> {
+    if (refactoring.step === 'execute') {
+      throw refused(
+        'REFACTORING_EXECUTED',
+        `This ${refactoring.kind} refactoring has been executed; evaluate it again to make another change.`,
+      );
+    }
+    const nameElement = NAME_ELEMENTS[refactoring.kind];
+    if (options.newName !== undefined && !nameElement) {
+      throw new Error(
+        `A ${refactoring.kind} refactoring takes no new name; its target is given at evaluation`,
+      );
+    }
+    if (refactoring.kind === 'rename' && !options.newName) {
+      throw new Error('New name is required for a rename');
+    }
+    if (options.ignoreSyntaxErrors && !refactoring.ignoreSyntaxErrorsAllowed) {
+      throw refused(
+        'REFACTORING_SYNTAX_ERRORS_NOT_IGNORABLE',
+        `The server does not allow this ${refactoring.kind} refactoring to ignore syntax errors; fix them first.`,
+      );
+    }
+
+    let document = refactoring.document;
+    document = patchIf(document, options.newName, (xml, name) =>
+      patchXmlElement(xml, nameElement as string, name),
+    );
+    document = patchIf(
+      document,
+      options.transportRequest ?? refactoring.transportRequest,
+      (xml, transport) => patchXmlElement(xml, 'generic:transport', transport),
+    );
+    document = patchIf(document, options.ignoreSyntaxErrors, (xml, ignore) =>
+      patchXmlElement(xml, 'generic:ignoreSyntaxErrors', String(ignore)),
+    );
+
+    try {
+      const response = await postRefactoringStep(
+        this.connection,
+        refactoring.kind,
+        'preview',
+        document,
+      );
+      return parseRefactoring(refactoring.kind, 'preview', response.data) as T;
+    } catch (error: unknown) {
+      this.logger?.error(
+        `${refactoring.kind} preview failed:`,
+        safeErrorMessage(error),
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Write the previewed change to every affected object.
+   *
+   * Only a previewed refactoring executes (`REFACTORING_NOT_PREVIEWED`
+   * otherwise): the preview is what the caller agreed to, and executing an
+   * evaluation would apply a change nobody has seen. When the server answers
+   * with no document, the result keeps the preview's affected objects — they
+   * are what was written.
+   */
+  async execute<T extends IRefactoring>(refactoring: T): Promise<T> {
+    if (refactoring.step !== 'preview') {
+      throw refused(
+        'REFACTORING_NOT_PREVIEWED',
+        `This ${refactoring.kind} refactoring is at step "${refactoring.step}"; preview it before executing.`,
+      );
+    }
+    try {
+      const response = await postRefactoringStep(
+        this.connection,
+        refactoring.kind,
+        'execute',
+        refactoring.document,
+      );
+      if (typeof response.data !== 'string' || response.data.trim() === '') {
+        return { ...refactoring, step: 'execute' };
+      }
+      return parseRefactoring(refactoring.kind, 'execute', response.data) as T;
+    } catch (error: unknown) {
+      this.logger?.error(
+        `${refactoring.kind} execution failed:`,
+        safeErrorMessage(error),
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * AdtRefactoringLegacy - Refactorings on legacy SAP systems (BASIS < 7.50)
+ *
+ * Legacy discovery lists `/sap/bc/adt/refactorings`, so rename and extract
+ * method run as on a modern system. It does not list
+ * `/sap/bc/adt/refactoring/changepackage`:
+ * - evaluateChangePackage → refused before any request goes out
+ */
+
+import { AdtRefactoring } from './AdtRefactoring';
+import type { IChangePackageRefactoring } from './types';
+
+function unsupportedError(operation: string, endpoint: string): string {
+  return (
+    `${operation} is not supported on this SAP system (legacy, BASIS < 7.50). ` +
+    `The required endpoint ${endpoint} was not found in the system's ` +
+    `ADT discovery catalog (/sap/bc/adt/discovery).`
+  );
+}
+
+export class AdtRefactoringLegacy extends AdtRefactoring {
+  override async evaluateChangePackage(): Promise<IChangePackageRefactoring> {
+    throw new Error(
+      unsupportedError(
+        'Change package assignment',
+        '/sap/bc/adt/refactoring/changepackage',
+      ),
+    );
+  }
+}
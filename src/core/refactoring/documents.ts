@@ -0,0 +1,73 @@
+/**
+ * The documents a refactoring starts from.
+ *
+ * Only the first request is built here. Every later one is the server's own
+ * answer sent back with the caller's choices patched in — see
+ * {@link IRefactoring.document}.
+ *
+ * Rename needs none: its `evaluate` carries the selection in the `uri`
+ * parameter and the server answers with the whole document. Extract method
+ * posts an empty `extractMethodRefactoring` around the selection, as Eclipse
+ * does. Change package posts the same generic envelope around the object and
+ * the two packages; that shape follows the other two and has not been
+ * captured from Eclipse — a server that reads it differently answers with an
+ * error, not with a different refactoring.
+ */
+
+import { escapeXmlAttr } from '../../utils/xml';
+import type { IChangePackageTarget } from './types';
+
+const NS_ADTCORE = 'http://www.sap.com/adt/core';
+const NS_GENERIC = 'http://www.sap.com/adt/refactoring/genericrefactoring';
+const NS_EXTRACT_METHOD =
+  'http://www.sap.com/adt/refactoring/extractmethodrefactoring';
+const NS_CHANGE_PACKAGE =
+  'http://www.sap.com/adt/refactoring/changepackagerefactoring';
+
+function escapeText(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+function genericPart(
+  title: string,
+  objectUri: string,
+  affectedObjects = '<generic:affectedObjects/>',
+): string {
+  return `  <generic:genericRefactoring>
+    <generic:title>${escapeText(title)}</generic:title>
+    <generic:adtObjectUri>${escapeText(objectUri)}</generic:adtObjectUri>
+    ${affectedObjects}
+    <generic:transport/>
+    <generic:ignoreSyntaxErrorsAllowed>false</generic:ignoreSyntaxErrorsAllowed>
+    <generic:ignoreSyntaxErrors>false</generic:ignoreSyntaxErrors>
+    <generic:userContent/>
+  </generic:genericRefactoring>`;
+}
+
+/** `selectionUri` is the source URI with the selection as its fragment. */
+export function buildExtractMethodEvaluation(selectionUri: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<extractmethod:extractMethodRefactoring xmlns:adtcore="${NS_ADTCORE}" xmlns:extractmethod="${NS_EXTRACT_METHOD}" xmlns:generic="${NS_GENERIC}">
+${genericPart('Extract Method', selectionUri)}
+  <extractmethod:userContent/>
+</extractmethod:extractMethodRefactoring>`;
+}
+
+export function buildChangePackageEvaluation(
+  target: IChangePackageTarget,
+  newPackage: string,
+): string {
+  const affected = `<generic:affectedObjects>
+      <generic:affectedObject adtcore:uri="${escapeXmlAttr(target.uri)}" adtcore:type="${escapeXmlAttr(target.type)}" adtcore:name="${escapeXmlAttr(target.name)}"/>
+    </generic:affectedObjects>`;
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<changepackage:changePackageRefactoring xmlns:adtcore="${NS_ADTCORE}" xmlns:changepackage="${NS_CHANGE_PACKAGE}" xmlns:generic="${NS_GENERIC}">
+${genericPart('Change Package Assignment', target.uri, affected)}
+  <changepackage:oldPackage>${escapeText(target.packageName)}</changepackage:oldPackage>
+  <changepackage:newPackage>${escapeText(newPackage)}</changepackage:newPackage>
+  <changepackage:userContent/>
+</changepackage:changePackageRefactoring>`;
+}
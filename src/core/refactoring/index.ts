@@ -0,0 +1,21 @@
+/**
+ * Refactoring - exports
+ */
+
+export { AdtRefactoring } from './AdtRefactoring';
+export { AdtRefactoringLegacy } from './AdtRefactoringLegacy';
+export { parseRefactoring } from './parse';
+export type {
+  IChangePackageRefactoring,
+  IChangePackageTarget,
+  IExtractMethodRefactoring,
+  IRefactoring,
+  IRefactoringAffectedObject,
+  IRefactoringPreviewOptions,
+  IRefactoringTextDelta,
+  IRenameRefactoring,
+  ISourcePoint,
+  ISourceRange,
+  RefactoringKind,
+  RefactoringStep,
+} from './types';
@@ -0,0 +1,206 @@
+/**
+ * Reading the refactoring document every step answers with.
+ *
+ * Each refactoring wraps the same `generic:genericRefactoring` part — title,
+ * object, affected objects with their text deltas, transport — in a root of
+ * its own (`rename:renameRefactoring`, …) that adds what is particular to it.
+ * Read by element NAME with prefixes removed, for the reason
+ * `runtime/atc/parse.ts` gives.
+ *
+ * `trimValues` is off: `contentOld` and `contentNew` are source, and their
+ * leading blanks are indentation the diff has to show.
+ */
+
+import { AdtOperationError } from '@mcp-abap-adt/interfaces';
+import { XMLParser } from 'fast-xml-parser';
+import type {
+  IChangePackageRefactoring,
+  IExtractMethodRefactoring,
+  IRefactoring,
+  IRefactoringAffectedObject,
+  IRefactoringTextDelta,
+  IRenameRefactoring,
+  ISourcePoint,
+  RefactoringKind,
+  RefactoringStep,
+} from './types';
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  parseAttributeValue: false,
+  trimValues: false,
+});
+
+type Node = Record<string, unknown>;
+
+function parseXml(body: unknown): Node | undefined {
+  if (typeof body !== 'string' || body.trim() === '') return undefined;
+  try {
+    return parser.parse(body) as Node;
+  } catch {
+    return undefined;
+  }
+}
+
+function asArray(value: unknown): Node[] {
+  if (value === undefined || value === null) return [];
+  return (Array.isArray(value) ? value : [value]).filter(
+    (v): v is Node => typeof v === 'object' && v !== null,
+  );
+}
+
+/** Element text as the server sent it, blanks and all. */
+function raw(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (value && typeof value === 'object' && '#text' in value) {
+    return raw((value as Node)['#text']);
+  }
+  return undefined;
+}
+
+/** Element or attribute text, trimmed; undefined when empty. */
+function text(value: unknown): string | undefined {
+  return raw(value)?.trim() || undefined;
+}
+
+function flag(value: unknown): boolean {
+  return text(value)?.toLowerCase() === 'true';
+}
+
+/** Every element named `name` anywhere below `root`, in document order. */
+function findAll(root: unknown, name: string): Node[] {
+  const found: Node[] = [];
+  const walk = (value: unknown) => {
+    for (const node of asArray(value)) {
+      for (const [key, child] of Object.entries(node)) {
+        if (key.startsWith('@_')) continue;
+        if (key === name) found.push(...asArray(child));
+        else walk(child);
+      }
+    }
+  };
+  walk(root);
+  return found;
+}
+
+const ROOTS: Record<RefactoringKind, string> = {
+  rename: 'renameRefactoring',
+  extractMethod: 'extractMethodRefactoring',
+  changePackage: 'changePackageRefactoring',
+};
+
+function point(
+  fragment: string,
+  key: 'start' | 'end',
+): ISourcePoint | undefined {
+  const match = fragment.match(new RegExp(`(?:^|[#;])${key}=(\\d+),(\\d+)`));
+  return match
+    ? { line: Number(match[1]), column: Number(match[2]) }
+    : undefined;
+}
+
+function deltaOf(node: Node): IRefactoringTextDelta {
+  const range = text(node.rangeFragment) ?? '';
+  return {
+    range,
+    start: point(range, 'start'),
+    end: point(range, 'end'),
+    contentOld: raw(node.contentOld) ?? '',
+    contentNew: raw(node.contentNew) ?? '',
+  };
+}
+
+function affectedObjectOf(node: Node): IRefactoringAffectedObject {
+  return {
+    uri: text(node['@_uri']) ?? '',
+    type: text(node['@_type']),
+    name: text(node['@_name']),
+    parentUri: text(node['@_parentUri']),
+    deltas: findAll(node, 'textReplaceDelta').map(deltaOf),
+  };
+}
+
+/**
+ * The refactoring document of the given kind, as answered by `step`.
+ *
+ * Rejects a body whose root is not that refactoring — a login page, an
+ * exception, another refactoring — with `REFACTORING_UNREADABLE`: read as
+ * one it would affect no objects, and "nothing to change" is an answer the
+ * server did not give. An exception the server sends with an error status
+ * never gets here; the connection raises it.
+ */
+export function parseRefactoring(
+  kind: 'rename',
+  step: RefactoringStep,
+  body: unknown,
+): IRenameRefactoring;
+export function parseRefactoring(
+  kind: 'extractMethod',
+  step: RefactoringStep,
+  body: unknown,
+): IExtractMethodRefactoring;
+export function parseRefactoring(
+  kind: 'changePackage',
+  step: RefactoringStep,
+  body: unknown,
+): IChangePackageRefactoring;
+export function parseRefactoring(
+  kind: RefactoringKind,
+  step: RefactoringStep,
+  body: unknown,
+): IRefactoring;
+export function parseRefactoring(
+  kind: RefactoringKind,
+  step: RefactoringStep,
+  body: unknown,
+): IRefactoring {
+  const root = asArray(parseXml(body)?.[ROOTS[kind]])[0];
+  if (!root) {
+    const error = new AdtOperationError(
+      `The ${step} response is not a ${ROOTS[kind]} document, so there is no refactoring to read.`,
+    );
+    error.code = 'REFACTORING_UNREADABLE';
+    throw error;
+  }
+  const generic = asArray(root.genericRefactoring)[0] ?? {};
+  const common: IRefactoring = {
+    kind,
+    step,
+    title: text(generic.title),
+    objectUri: text(generic.adtObjectUri),
+    transportRequest: text(generic.transport),
+    ignoreSyntaxErrorsAllowed: flag(generic.ignoreSyntaxErrorsAllowed),
+    affectedObjects: findAll(generic.affectedObjects, 'affectedObject').map(
+      affectedObjectOf,
+    ),
+    document: body as string,
+  };
+
+  switch (kind) {
+    case 'rename':
+      return {
+        ...common,
+        kind,
+        oldName: text(root.oldName),
+        newName: text(root.newName),
+      } as IRenameRefactoring;
+    case 'extractMethod': {
+      const content = asArray(root.content)[0] ?? root;
+      return {
+        ...common,
+        kind,
+        methodName: text(content.name),
+      } as IExtractMethodRefactoring;
+    }
+    case 'changePackage':
+      return {
+        ...common,
+        kind,
+        oldPackage: text(root.oldPackage),
+        newPackage: text(root.newPackage),
+      } as IChangePackageRefactoring;
+  }
+}
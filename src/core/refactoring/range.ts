@@ -0,0 +1,48 @@
+/**
+ * A selection as ADT writes it: the source URI with the range as its
+ * `#start=line,column;end=line,column` fragment.
+ */
+
+import type { ISourcePoint, ISourceRange } from './types';
+
+/** A URI that already names a source: `…/source/main` or `…/includes/<name>`. */
+const SOURCE_PART = /\/(source\/main|includes\/[a-z_]+)$/i;
+
+function checkPoint(point: ISourcePoint, which: string): void {
+  if (!Number.isInteger(point?.line) || point.line < 1) {
+    throw new Error(`Range ${which} line ${point?.line} is not a 1-based line`);
+  }
+  if (!Number.isInteger(point.column) || point.column < 0) {
+    throw new Error(
+      `Range ${which} column ${point.column} is not a 0-based column`,
+    );
+  }
+}
+
+/**
+ * `uri#start=l,c;end=l,c`, refusing a range the server would misread.
+ *
+ * An end before its start is refused rather than swapped: it is a caller
+ * that lost track of its selection, and a refactoring of the wrong text is
+ * one that changes code.
+ */
+export function rangeUri(range: ISourceRange): string {
+  if (!range.uri) {
+    throw new Error('Source URI is required');
+  }
+  checkPoint(range.start, 'start');
+  checkPoint(range.end, 'end');
+  if (
+    range.end.line < range.start.line ||
+    (range.end.line === range.start.line &&
+      range.end.column < range.start.column)
+  ) {
+    throw new Error(
+      `Range end ${range.end.line},${range.end.column} is before its start ${range.start.line},${range.start.column}`,
+    );
+  }
+
+  const base = range.uri.replace(/[?#].*$/, '').replace(/\/+$/, '');
+  const source = SOURCE_PART.test(base) ? base : `${base}/source/main`;
+  return `${source}#start=${range.start.line},${range.start.column};end=${range.end.line},${range.end.column}`;
+}
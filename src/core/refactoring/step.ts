@@ -0,0 +1,61 @@
+/**
+ * One step of a refactoring.
+ *
+ * Rename and extract method share `POST /sap/bc/adt/refactorings`, told apart
+ * by the `rel` parameter; change package has a resource of its own. Every
+ * step posts the refactoring document and gets the next one back — `evaluate`
+ * what the server would do, `preview` the diff, `execute` the change.
+ */
+
+import type { IAbapConnection, IAdtResponse } from '@mcp-abap-adt/interfaces';
+import {
+  ACCEPT_REFACTORING,
+  CT_REFACTORING,
+} from '../../constants/contentTypes';
+import { getTimeout } from '../../utils/timeouts';
+import type { RefactoringKind, RefactoringStep } from './types';
+
+const RELATIONS: Record<Exclude<RefactoringKind, 'changePackage'>, string> = {
+  rename: 'http://www.sap.com/adt/relations/refactoring/rename',
+  extractMethod: 'http://www.sap.com/adt/relations/refactoring/extractmethod',
+};
+
+function stepUrl(
+  kind: RefactoringKind,
+  step: RefactoringStep,
+  query: Record<string, string>,
+): string {
+  const params = new URLSearchParams({ step });
+  if (kind !== 'changePackage') params.set('rel', RELATIONS[kind]);
+  for (const [key, value] of Object.entries(query)) params.set(key, value);
+  const base =
+    kind === 'changePackage'
+      ? '/sap/bc/adt/refactoring/changepackage'
+      : '/sap/bc/adt/refactorings';
+  return `${base}?${params.toString()}`;
+}
+
+/**
+ * Post one step.
+ *
+ * `execute` runs on the long timeout: it writes every affected object, and
+ * a rename of a much-used method touches many.
+ */
+export async function postRefactoringStep(
+  connection: IAbapConnection,
+  kind: RefactoringKind,
+  step: RefactoringStep,
+  document: string,
+  query: Record<string, string> = {},
+): Promise<IAdtResponse> {
+  return connection.makeAdtRequest({
+    url: stepUrl(kind, step, query),
+    method: 'POST',
+    timeout: getTimeout(step === 'execute' ? 'long' : 'default'),
+    data: document,
+    headers: {
+      'Content-Type': CT_REFACTORING,
+      Accept: ACCEPT_REFACTORING,
+    },
+  });
+}
@@ -0,0 +1,109 @@
+/**
+ * Refactoring types — what each step of ADT's refactoring protocol is asked
+ * and what it answers.
+ */
+
+/** A position in source: 1-based line, 0-based column. */
+export interface ISourcePoint {
+  line: number;
+  column: number;
+}
+
+/**
+ * A selection in source: the identifier to rename, or the statements to
+ * extract. `uri` is the source URI (`…/source/main`, `…/includes/<name>`).
+ */
+export interface ISourceRange {
+  uri: string;
+  start: ISourcePoint;
+  end: ISourcePoint;
+}
+
+export type RefactoringKind = 'rename' | 'extractMethod' | 'changePackage';
+
+export type RefactoringStep = 'evaluate' | 'preview' | 'execute';
+
+/** One text change the refactoring makes, old and new side by side. */
+export interface IRefactoringTextDelta {
+  /** ADT's range fragment verbatim, e.g. `start=12,4;end=12,10`. */
+  range: string;
+  start?: ISourcePoint;
+  end?: ISourcePoint;
+  contentOld: string;
+  contentNew: string;
+}
+
+/** An object the refactoring changes, with its changes once previewed. */
+export interface IRefactoringAffectedObject {
+  uri: string;
+  type?: string;
+  name?: string;
+  parentUri?: string;
+  /** Empty after `evaluate`; the diff after `preview`. */
+  deltas: IRefactoringTextDelta[];
+}
+
+/**
+ * What every step answers, whatever the refactoring.
+ *
+ * `document` is the server's answer verbatim. The next step sends it back
+ * with the caller's choices patched in, rather than one rebuilt from the
+ * fields here: the protocol carries state this type does not model (the
+ * `userContent` blocks), and a rebuilt document would drop it.
+ */
+export interface IRefactoring {
+  kind: RefactoringKind;
+  /** The step that produced this answer. */
+  step: RefactoringStep;
+  title?: string;
+  /** The object (and position) the refactoring was started on. */
+  objectUri?: string;
+  /** The transport the server proposes, or the one it was given. */
+  transportRequest?: string;
+  /** Whether the server would go ahead despite syntax errors if asked. */
+  ignoreSyntaxErrorsAllowed: boolean;
+  affectedObjects: IRefactoringAffectedObject[];
+  document: string;
+}
+
+export interface IRenameRefactoring extends IRefactoring {
+  kind: 'rename';
+  oldName?: string;
+  newName?: string;
+}
+
+export interface IExtractMethodRefactoring extends IRefactoring {
+  kind: 'extractMethod';
+  /** The name the server proposes for the new method. */
+  methodName?: string;
+}
+
+export interface IChangePackageRefactoring extends IRefactoring {
+  kind: 'changePackage';
+  oldPackage?: string;
+  newPackage?: string;
+}
+
+/** The object whose package assignment changes. */
+export interface IChangePackageTarget {
+  /** Object URI, e.g. `/sap/bc/adt/oo/classes/zcl_demo`. */
+  uri: string;
+  /** ADT type, e.g. `CLAS/OC`. */
+  type: string;
+  name: string;
+  /** The package the object is in now. */
+  packageName: string;
+}
+
+/** The caller's choices, sent with `preview`. */
+export interface IRefactoringPreviewOptions {
+  /** Rename: the new name. Extract method: the new method's name. */
+  newName?: string;
+  /**
+   * Transport request the change is recorded on. Defaults to the one the
+   * server proposed at `evaluate`.
+   */
+  transportRequest?: string;
+  /** Go ahead despite syntax errors, where the server allows it. */
+  ignoreSyntaxErrors?: boolean;
+}
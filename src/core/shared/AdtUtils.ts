@@ -40,7 +40,21 @@ import { encodeSapObjectName } from '../../utils/internalUtils';
 import { getTimeout } from '../../utils/timeouts';
 import { readSource as readBehaviorDefinitionSource } from '../behaviorDefinition/read';
 import { getEnhancementMetadata } from '../enhancement/read';
+import {
+  findMethodImplementations,
+  navigate,
+} from '../sourceIntelligence/navigation';
+import type {
+  IMethodImplementation,
+  INavigationTarget,
+  NavigationFilter,
+} from '../sourceIntelligence/types';
 import { getAllTypes as getAllTypesUtil } from './allTypes';
+import {
+  pageSqlQuery,
+  pageTableContents,
+  parsedDataPreview,
+} from './dataPreview';
 import { getDiscovery as getDiscoveryUtil } from './discovery';
 import { getEnhancementImpl as getEnhancementImplUtil } from './enhancementImpl';
 import { getEnhancements } from './enhancements';
@@ -55,6 +69,11 @@ import { fetchNodeStructure as fetchNodeStructureUtil } from './nodeStructure';
 import { getObjectStructure as getObjectStructureUtil } from './objectStructure';
 import { getPackageContentsList } from './packageContentsList';
 import { getPackageHierarchy } from './packageHierarchy';
+import {
+  getPrettyPrinterSettings,
+  prettyPrint,
+  setPrettyPrinterSettings,
+} from './prettyPrinter';
 // Import utility functions
 import { searchObjects, searchObjectsTyped } from './search';
 import { getSqlQuery } from './sqlQuery';
@@ -93,6 +112,8 @@ import {
 import type {
   AdtObjectType,
   AdtSourceObjectType,
+  IDataPreviewPageOptions,
+  IDataPreviewResult,
   IGetDiscoveryParams,
   IGetPackageContentsListOptions,
   IGetPackageHierarchyOptions,
@@ -106,8 +127,10 @@ import type {
   IObjectReference,
   IPackageContentItem,
   IPackageHierarchyNode,
+  IPrettyPrinterSettings,
   IReadOptions,
   ISearchObjectsParams,
+  ITableContentsQuery,
   IWhereUsedListResult,
 } from './types';
 
@@ -494,15 +517,56 @@ export class AdtUtils
    * Get table contents via ADT Data Preview API
    * ⚠️ ABAP Cloud Limitation: Only works on on-premise systems with basic auth
    *
-   * @param params - Table contents parameters
+   * @param params - Table contents parameters, with optional column
+   *   selection, WHERE condition and ORDER BY
    * @returns Table contents result
    */
   async getTableContents(
-    params: IGetTableContentsParams,
+    params: IGetTableContentsParams & ITableContentsQuery,
   ): Promise<IAdtResponse> {
     return getTableContents(this.connection, params);
   }
 
+  // Typed data preview: the same requests, parsed (see dataPreview.ts).
+
+  async getParsedSqlQuery(
+    params: IGetSqlQueryParams,
+  ): Promise<IDataPreviewResult> {
+    return parsedDataPreview(await this.getSqlQuery(params));
+  }
+
+  async getParsedTableContents(
+    params: IGetTableContentsParams & ITableContentsQuery,
+  ): Promise<IDataPreviewResult> {
+    return parsedDataPreview(await this.getTableContents(params));
+  }
+
+  /**
+   * Page through a freestyle query, `pageSize` rows at a time. Give the
+   * query an ORDER BY: pages are separate executions of it.
+   */
+  pageSqlQuery(
+    params: IGetSqlQueryParams,
+    options?: IDataPreviewPageOptions,
+  ): AsyncGenerator<IDataPreviewResult> {
+    return pageSqlQuery((page) => this.getSqlQuery(page), params, options);
+  }
+
+  /**
+   * Page through a table, `pageSize` rows at a time, in primary key order
+   * unless `order_by` is given.
+   */
+  pageTableContents(
+    params: IGetTableContentsParams & ITableContentsQuery,
+    options?: IDataPreviewPageOptions,
+  ): AsyncGenerator<IDataPreviewResult> {
+    return pageTableContents(
+      (page) => this.getTableContents(page),
+      params,
+      options,
+    );
+  }
+
   /**
    * Fetch ADT discovery document with endpoint catalog
    *
@@ -889,6 +953,106 @@ export class AdtUtils
   ): Promise<IAdtResponse> {
     return getAllTypesUtil(this.connection, maxItemCount, name, data);
   }
+
+  /**
+   * Resolve the symbol at a source position — F3 in Eclipse
+   *
+   * The server parses `source` as sent, in the context of the object `uri`
+   * names, so the position need not be in saved source. Where
+   * {@link getWhereUsed} answers "who uses X", this answers "what is X".
+   *
+   * @param uri - Source URI (`…/source/main`, `…/includes/<name>`) or object URI
+   * @param source - The full source text the position is in
+   * @param line - 1-based line
+   * @param column - 0-based column
+   * @param filter - `definition` (default) or `implementation`
+   * @returns The target — object type, URI, include, line — or null when the
+   *          position is on nothing that leads anywhere
+   *
+   * @example
+   * ```typescript
+   * const target = await utils.navigate(uri, source, 12, 10);
+   * // { objectUri: '/sap/bc/adt/oo/classes/zcl_helper', include: 'main', line: 40, type: 'CLAS/OM', ... }
+   * ```
+   */
+  async navigate(
+    uri: string,
+    source: string,
+    line: number,
+    column: number,
+    filter: NavigationFilter = 'definition',
+  ): Promise<INavigationTarget | null> {
+    return navigate(this.connection, { uri, source, line, column }, filter);
+  }
+
+  /**
+   * List implementations of the interface method, or redefinitions of the
+   * class method, at a source position — Ctrl+T on a method in Eclipse
+   *
+   * Read from the sub-type hierarchy: every type below the declaring one that
+   * implements or redefines the method. The declaring type itself is not
+   * listed.
+   *
+   * @param uri - Source URI or object URI
+   * @param source - The full source text the position is in
+   * @param line - 1-based line
+   * @param column - 0-based column
+   */
+  async getImplementations(
+    uri: string,
+    source: string,
+    line: number,
+    column: number,
+  ): Promise<IMethodImplementation[]> {
+    return findMethodImplementations(this.connection, {
+      uri,
+      source,
+      line,
+      column,
+    });
+  }
+
+  /**
+   * Format ABAP source with the server's pretty printer
+   *
+   * Without `settings` the user's stored formatter profile applies. Settings
+   * given here are written to that profile for the call and restored after
+   * it — the endpoint takes no options of its own — so the call is not
+   * atomic: another formatter run under the same user in between sees them.
+   *
+   * @param source - ABAP source code
+   * @param settings - Keyword case and indentation for this call only
+   * @returns The formatted source
+   *
+   * @example
+   * ```typescript
+   * const formatted = await utils.prettyPrint(source, { style: 'keywordUpper' });
+   * ```
+   */
+  async prettyPrint(
+    source: string,
+    settings?: Partial<IPrettyPrinterSettings>,
+  ): Promise<string> {
+    return prettyPrint(this.connection, source, settings, this.logger);
+  }
+
+  /**
+   * Read the user's pretty-printer settings (keyword case, indentation)
+   */
+  async getPrettyPrinterSettings(): Promise<IPrettyPrinterSettings> {
+    return getPrettyPrinterSettings(this.connection);
+  }
+
+  /**
+   * Write the user's pretty-printer settings
+   *
+   * This is the profile the user's Eclipse formats with as well.
+   */
+  async setPrettyPrinterSettings(
+    settings: IPrettyPrinterSettings,
+  ): Promise<void> {
+    return setPrettyPrinterSettings(this.connection, settings);
+  }
 }
 
 function getObjectMetadataUri(
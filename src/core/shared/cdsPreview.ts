@@ -0,0 +1,367 @@
+/**
+ * CDS data preview: parameters, associations and the statement
+ *
+ * A CDS entity is previewed like a table — through the DDIC data preview
+ * endpoint — but the statement differs: parameters go in the FROM clause,
+ * `FROM zi_entity( p_date = '20260101' )`, and there is no column metadata to
+ * build a field list from, so it selects `*` unless columns are named.
+ *
+ * What the statement needs to know about the entity — its name, parameters
+ * and associations — is read from its DDL source. The source is scanned, not
+ * compiled: enough for the header of a `define view [entity]`, `define root
+ * view entity`, projection or table function. Following an association
+ * queries its target with the ON condition turned into a WHERE over the
+ * selected row's values, which needs the condition to be equalities joined by
+ * AND; a composition is followed through its child's `association to parent`.
+ */
+
+import {
+  AdtOperationError,
+  type IAbapConnection,
+} from '@mcp-abap-adt/interfaces';
+import { columnLiteral, parsedDataPreview, sqlLiteral } from './dataPreview';
+import { queryDdicEntity } from './tableContents';
+import type {
+  DataPreviewValue,
+  ICdsAssociation,
+  ICdsAssociationBinding,
+  ICdsEntity,
+  ICdsParameter,
+  ICdsPreviewQuery,
+  ICdsPreviewResult,
+  IDataPreviewColumn,
+} from './types';
+
+function cdsError(code: string, message: string): AdtOperationError {
+  const error = new AdtOperationError(message);
+  error.code = code;
+  return error;
+}
+
+/** The source without comments, so they cannot read as declarations. */
+function stripComments(source: string): string {
+  return source.replace(/\/\*[\s\S]*?\*\//g, ' ').replace(/(\/\/|--).*$/gm, '');
+}
+
+/** Split on commas that are not inside parentheses, e.g. `abap.dec(10,2)`. */
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (char === '(') depth++;
+    else if (char === ')') depth--;
+    else if (char === ',' && depth === 0) {
+      parts.push(text.slice(start, index));
+      start = index + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map((part) => part.trim()).filter((part) => part !== '');
+}
+
+function parseParameters(header: string): ICdsParameter[] {
+  const list =
+    /\bwith\s+parameters\b([\s\S]*?)(?=\bas\s+(?:select|projection)\b|\breturns\b)/i.exec(
+      header,
+    )?.[1];
+  if (!list) return [];
+
+  return splitTopLevel(list).flatMap((declaration) => {
+    const systemField = /@Environment\.systemField\s*:\s*(#\w+)/i.exec(
+      declaration,
+    )?.[1];
+    const plain = declaration.replace(/@[\w.]+\s*:\s*[#'\w.]+(?:')?/g, ' ');
+    const match = /^\s*([\w/]+)\s*:\s*([\s\S]+?)\s*$/.exec(plain);
+    return match ? [{ name: match[1], type: match[2], systemField }] : [];
+  });
+}
+
+function value(text: string): DataPreviewValue | undefined {
+  if (/^'.*'$/.test(text)) return text.slice(1, -1).replace(/''/g, "'");
+  if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text);
+  return undefined;
+}
+
+/**
+ * `a = _X.b and _X.c = 'v'` as bindings, or undefined when the condition is
+ * anything else — an OR, a comparison other than `=`, a function.
+ */
+function parseBindings(
+  alias: string,
+  condition: string,
+): ICdsAssociationBinding[] | undefined {
+  const targetPrefix = `${alias.toLowerCase()}.`;
+  const bindings: ICdsAssociationBinding[] = [];
+  for (const part of condition.split(/\band\b/i)) {
+    const match = /^\s*\(?\s*([\w$./']+)\s*=\s*([\w$./']+)\s*\)?\s*$/.exec(
+      part,
+    );
+    if (!match) return undefined;
+    const [left, right] = [match[1], match[2]];
+    const isTarget = (side: string) =>
+      side.toLowerCase().startsWith(targetPrefix);
+    const [target, other] = isTarget(left)
+      ? [left, right]
+      : isTarget(right)
+        ? [right, left]
+        : [undefined, undefined];
+    if (!target || !other || isTarget(other)) return undefined;
+
+    const targetElement = target.slice(targetPrefix.length);
+    const literal = value(other);
+    if (literal !== undefined) {
+      bindings.push({ target: targetElement, value: literal });
+    } else if (/^[\w$./]+$/.test(other)) {
+      // `$projection.a`, `source.a` and `a` all name element `a` of the row.
+      bindings.push({ target: targetElement, source: other.split('.').pop() });
+    } else {
+      return undefined;
+    }
+  }
+  return bindings.length > 0 ? bindings : undefined;
+}
+
+function parseAssociations(header: string): ICdsAssociation[] {
+  const pattern =
+    /\b(association|composition)\b([\s\S]*?)\b(?:to|of)\s+(?:(?:exact\s+)?(?:one|many)\s+)?(parent\s+)?([\w/]+)\s+as\s+([\w/]+)(?:\s+on\s+([\s\S]*?))?(?=\s*(?:\bassociation\b|\bcomposition\b|$))/gi;
+  const associations: ICdsAssociation[] = [];
+  for (const match of header.matchAll(pattern)) {
+    const [, keyword, cardinality, parent, target, name, on] = match;
+    const condition = on?.replace(/\s+/g, ' ').trim() || undefined;
+    associations.push({
+      name,
+      target,
+      cardinality: cardinality.replace(/\s+/g, ' ').trim() || undefined,
+      composition: keyword.toLowerCase() === 'composition',
+      toParent: parent !== undefined,
+      condition,
+      bindings: condition ? parseBindings(name, condition) : undefined,
+    });
+  }
+  return associations;
+}
+
+/**
+ * The entity a DDL source defines, with its parameters and associations.
+ * Throws `CDS_PREVIEW_NOT_AN_ENTITY` for a source that defines none — an
+ * access control, an extension, an annotation definition.
+ */
+export function parseCdsEntity(source: string): ICdsEntity {
+  const text = stripComments(source);
+  const define =
+    /\bdefine\s+(?:root\s+)?(?:(?:custom|abstract|transient)\s+)?(?:view\s+(?:entity\s+)?|table\s+function\s+|entity\s+)([\w/]+)/i.exec(
+      text,
+    );
+  if (!define) {
+    throw cdsError(
+      'CDS_PREVIEW_NOT_AN_ENTITY',
+      'The DDL source defines no view, view entity or table function to preview.',
+    );
+  }
+
+  // The header runs from DEFINE to the element list.
+  const rest = text.slice(define.index);
+  const brace = rest.indexOf('{');
+  const header = brace === -1 ? rest : rest.slice(0, brace);
+  return {
+    name: define[1],
+    parameters: parseParameters(header),
+    associations: parseAssociations(header),
+  };
+}
+
+/**
+ * The ABAP SQL a preview sends: `SELECT … FROM entity( parameters ) [WHERE …]
+ * [ORDER BY …]`. Parameters are checked against the entity's: an unknown one,
+ * or a missing one with no system field to fall back on, is refused.
+ */
+export function buildCdsPreviewSql(
+  entity: ICdsEntity,
+  query: ICdsPreviewQuery = {},
+): string {
+  const given = new Map(
+    Object.entries(query.parameters ?? {}).map(([name, v]) => [
+      name.toUpperCase(),
+      { name, value: v },
+    ]),
+  );
+  const declared = new Map(
+    entity.parameters.map((parameter) => [
+      parameter.name.toUpperCase(),
+      parameter,
+    ]),
+  );
+  for (const { name } of given.values()) {
+    if (!declared.has(name.toUpperCase())) {
+      throw cdsError(
+        'CDS_PREVIEW_UNKNOWN_PARAMETER',
+        `${entity.name} has no parameter ${name}; it takes ${
+          entity.parameters.map((p) => p.name).join(', ') || 'none'
+        }.`,
+      );
+    }
+  }
+  const missing = entity.parameters.filter(
+    (parameter) =>
+      !given.has(parameter.name.toUpperCase()) && !parameter.systemField,
+  );
+  if (missing.length > 0) {
+    throw cdsError(
+      'CDS_PREVIEW_MISSING_PARAMETER',
+      `${entity.name} needs a value for ${missing.map((p) => p.name).join(', ')}.`,
+    );
+  }
+
+  const parameters = entity.parameters
+    .filter((parameter) => given.has(parameter.name.toUpperCase()))
+    .map(
+      (parameter) =>
+        `${parameter.name} = ${sqlLiteral(
+          given.get(parameter.name.toUpperCase())?.value as DataPreviewValue,
+        )}`,
+    );
+  const columns = query.columns?.length
+    ? query.columns.map((column) => column.trim()).join(', ')
+    : '*';
+  let sql = `SELECT ${columns} FROM ${entity.name}`;
+  if (parameters.length > 0) sql += `( ${parameters.join(', ')} )`;
+  if (query.where?.trim()) sql += ` WHERE ${query.where.trim()}`;
+  if (query.order_by?.length) {
+    sql += ` ORDER BY ${query.order_by.map((entry) => entry.trim()).join(', ')}`;
+  }
+  return sql;
+}
+
+/** `CDS_PREVIEW_NOT_FOUND` for a DDL source that could not be read. */
+export function cdsNotFound(ddlName: string): AdtOperationError {
+  return cdsError(
+    'CDS_PREVIEW_NOT_FOUND',
+    `DDL source ${ddlName} was not found, so there is no entity to preview.`,
+  );
+}
+
+/** The association named `name`, or `CDS_PREVIEW_UNKNOWN_ASSOCIATION`. */
+export function findCdsAssociation(
+  entity: ICdsEntity,
+  name: string,
+): ICdsAssociation {
+  const association = entity.associations.find(
+    (candidate) => candidate.name.toUpperCase() === name.toUpperCase(),
+  );
+  if (!association) {
+    throw cdsError(
+      'CDS_PREVIEW_UNKNOWN_ASSOCIATION',
+      `${entity.name} has no association ${name}; it has ${
+        entity.associations.map((a) => a.name).join(', ') || 'none'
+      }.`,
+    );
+  }
+  return association;
+}
+
+/** The row's name for an element; the preview may return names in upper case. */
+function rowElement(
+  row: Record<string, DataPreviewValue>,
+  element: string,
+): string | undefined {
+  if (element in row) return element;
+  return Object.keys(row).find(
+    (name) => name.toUpperCase() === element.toUpperCase(),
+  );
+}
+
+/**
+ * The bindings of an association. A composition has no
+ * condition of its own; `child` — the target's entity — supplies it through
+ * its `association to parent` back to `entity`, read the other way round.
+ */
+export function cdsAssociationBindings(
+  entity: ICdsEntity,
+  association: ICdsAssociation,
+  child?: ICdsEntity,
+): ICdsAssociationBinding[] {
+  if (association.bindings) return association.bindings;
+
+  const parent = association.composition
+    ? child?.associations.find(
+        (candidate) =>
+          candidate.toParent &&
+          candidate.target.toUpperCase() === entity.name.toUpperCase(),
+      )
+    : undefined;
+  const inverted = parent?.bindings
+    ?.filter((binding) => binding.source !== undefined)
+    .map((binding) => ({
+      target: binding.source as string,
+      source: binding.target,
+    }));
+  if (inverted?.length) return inverted;
+
+  throw cdsError(
+    'CDS_PREVIEW_UNSUPPORTED_ASSOCIATION',
+    `${entity.name}.${association.name} cannot be followed: its condition ${
+      association.condition
+        ? `"${association.condition}" is not equalities joined by AND`
+        : `comes from ${association.target}, which has no usable association to parent`
+    }.`,
+  );
+}
+
+/**
+ * The query on an association's target that returns what `row` reaches: the
+ * bindings as a WHERE, ANDed with the query's own. `columns`, of the result
+ * the row is from, type the row's values: a number kept as text, having more
+ * digits than a double holds, is then written as a number.
+ */
+export function cdsAssociationQuery(
+  entity: ICdsEntity,
+  association: ICdsAssociation,
+  bindings: ICdsAssociationBinding[],
+  row: Record<string, DataPreviewValue>,
+  query: ICdsPreviewQuery = {},
+  columns: IDataPreviewColumn[] = [],
+): ICdsPreviewQuery {
+  const conditions = bindings.map((binding) => {
+    const element =
+      binding.source === undefined
+        ? undefined
+        : rowElement(row, binding.source);
+    const bound =
+      binding.source === undefined
+        ? binding.value
+        : element === undefined
+          ? undefined
+          : row[element];
+    if (bound === undefined) {
+      throw cdsError(
+        'CDS_PREVIEW_UNSUPPORTED_ASSOCIATION',
+        `${entity.name}.${association.name} cannot be followed from this row: it has no ${binding.source}. Select that element to follow the association.`,
+      );
+    }
+    const column = columns.find((candidate) => candidate.name === element);
+    return `${binding.target} = ${columnLiteral(bound, column)}`;
+  });
+  const where = [query.where, conditions.join(' AND ')]
+    .filter((condition) => condition?.trim())
+    .map((condition) => `( ${condition} )`)
+    .join(' AND ');
+  return { ...query, where };
+}
+
+/** Preview a CDS entity, keeping the statement with the rows. */
+export async function previewCdsEntity(
+  connection: IAbapConnection,
+  entity: ICdsEntity,
+  query: ICdsPreviewQuery = {},
+): Promise<ICdsPreviewResult> {
+  const sql = buildCdsPreviewSql(entity, query);
+  const response = await queryDdicEntity(
+    connection,
+    entity.name.toUpperCase(),
+    sql,
+    query.max_rows || 100,
+  );
+  return { ...parsedDataPreview(response), entity: entity.name, sql };
+}
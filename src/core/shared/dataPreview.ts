@@ -0,0 +1,420 @@
+/**
+ * Data preview results: typed rows, paging and export
+ *
+ * Both data preview endpoints answer with a `dataPreview:tableData` document
+ * that holds the result by column, not by row: one `columns` element per
+ * column, with the column's `metadata` and a `dataSet` of its values in row
+ * order. Rows are put together from there, and each value typed by its
+ * column — numbers for numeric types, the text as sent for everything else,
+ * NUMC, dates and times included, so nothing the server sent is reformatted.
+ *
+ * The endpoints take a row limit and nothing like an offset. Paging a table
+ * therefore reads it in primary key order and asks for each next page as the
+ * rows after the last key seen; a freestyle query, or a table sorted another
+ * way, is paged by asking for a larger first-n each time and dropping the
+ * rows already returned — correct, but each page costs more than the one
+ * before, and the query needs an ORDER BY for its pages to line up.
+ */
+
+import { AdtOperationError, type IAdtResponse } from '@mcp-abap-adt/interfaces';
+import { XMLParser } from 'fast-xml-parser';
+import type {
+  DataPreviewValue,
+  IDataPreviewColumn,
+  IDataPreviewCsvOptions,
+  IDataPreviewPageOptions,
+  IDataPreviewResult,
+  IGetSqlQueryParams,
+  IGetTableContentsParams,
+  ITableContentsQuery,
+} from './types';
+
+const DEFAULT_PAGE_SIZE = 1000;
+
+// Values keep their spaces: in a CHAR column, leading blanks are data.
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  parseAttributeValue: false,
+  trimValues: false,
+});
+
+type Node = Record<string, unknown>;
+
+const INTEGER_TYPES = new Set([
+  'I',
+  'b',
+  's',
+  '8',
+  'INT1',
+  'INT2',
+  'INT4',
+  'INT8',
+]);
+const DECIMAL_TYPES = new Set([
+  'P',
+  'F',
+  'a',
+  'e',
+  'DEC',
+  'CURR',
+  'QUAN',
+  'FLTP',
+  'D16D',
+  'D34D',
+  'D16N',
+  'D34N',
+  'DF16_DEC',
+  'DF34_DEC',
+  'DF16_RAW',
+  'DF34_RAW',
+]);
+
+/** Beyond this many digits a double no longer holds every value exactly. */
+const EXACT_DIGITS = 15;
+
+function unreadable(message: string): AdtOperationError {
+  const error = new AdtOperationError(message);
+  error.code = 'DATA_PREVIEW_UNREADABLE';
+  return error;
+}
+
+function nodes(value: unknown): Node[] {
+  if (value === undefined || value === null) return [];
+  return (Array.isArray(value) ? value : [value]).filter(
+    (v): v is Node => typeof v === 'object' && v !== null,
+  );
+}
+
+function texts(value: unknown): string[] {
+  if (value === undefined || value === null) return [];
+  return (Array.isArray(value) ? value : [value]).map((v) => {
+    if (typeof v === 'string') return v;
+    const text = typeof v === 'object' && v !== null && (v as Node)['#text'];
+    return typeof text === 'string' ? text : '';
+  });
+}
+
+function text(node: Node, name: string): string | undefined {
+  const value = texts(node[name])[0];
+  return value === undefined ? undefined : value.trim();
+}
+
+function number(value: unknown): number | undefined {
+  if (typeof value !== 'string' || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function isNumeric(column: IDataPreviewColumn): boolean {
+  return [column.type, column.ddicType].some(
+    (type) =>
+      type !== undefined &&
+      (INTEGER_TYPES.has(type) || DECIMAL_TYPES.has(type)),
+  );
+}
+
+/**
+ * A numeric value as a number literal, sign in front — ABAP writes the sign
+ * of a negative packed number after it — or undefined when it is not one.
+ */
+function numericText(raw: string): string | undefined {
+  let trimmed = raw.trim();
+  if (trimmed.endsWith('-')) trimmed = `-${trimmed.slice(0, -1)}`;
+  return trimmed !== '' && Number.isFinite(Number(trimmed))
+    ? trimmed
+    : undefined;
+}
+
+/**
+ * A value typed by its column. A number that a double cannot hold exactly
+ * stays text, so an amount is never rounded on its way out; so does one the
+ * server sent in a form that is not a number.
+ */
+function value(raw: string, column: IDataPreviewColumn): DataPreviewValue {
+  if (!isNumeric(column)) return raw;
+  const numeric = numericText(raw);
+  if (numeric === undefined) return raw;
+  const digits = numeric
+    .replace(/^[-+]/, '')
+    .replace(/e.*$/i, '')
+    .replace('.', '')
+    .replace(/^0+/, '');
+  return digits.length > EXACT_DIGITS ? numeric : Number(numeric);
+}
+
+/** A parsed result, and each row's values as the server sent them. */
+interface ITableData {
+  result: IDataPreviewResult;
+  rawRow(index: number): Record<string, string>;
+}
+
+function parseTableData(body: unknown): ITableData | null {
+  let document: Node | undefined;
+  if (typeof body === 'string' && body.trim() !== '') {
+    try {
+      document = parser.parse(body) as Node;
+    } catch {
+      document = undefined;
+    }
+  }
+  const root = nodes(document?.tableData)[0];
+  if (!root) return null;
+
+  const read = nodes(root.columns).map((element) => {
+    const metadata = nodes(element.metadata)[0] ?? {};
+    const attribute = (name: string) => {
+      const v = metadata[`@_${name}`];
+      return typeof v === 'string' && v !== '' ? v : undefined;
+    };
+    const column: IDataPreviewColumn = {
+      name: attribute('name') ?? '',
+      description: attribute('description'),
+      type: attribute('type'),
+      ddicType: attribute('colType'),
+      length: number(attribute('length')),
+      decimals: number(attribute('decimals')),
+      key: attribute('keyAttribute') === 'true',
+    };
+    const values = texts(nodes(element.dataSet)[0]?.data);
+    return { column, values };
+  });
+
+  const rowCount = Math.max(0, ...read.map(({ values }) => values.length));
+  const rows: Record<string, DataPreviewValue>[] = [];
+  for (let index = 0; index < rowCount; index++) {
+    const row: Record<string, DataPreviewValue> = {};
+    for (const { column, values } of read) {
+      row[column.name] = value(values[index] ?? '', column);
+    }
+    rows.push(row);
+  }
+
+  return {
+    result: {
+      columns: read.map(({ column }) => column),
+      rows,
+      totalRows: number(text(root, 'totalRows')),
+      executedQuery: text(root, 'executedQueryString') || undefined,
+      executionTime: number(text(root, 'queryExecutionTime')),
+    },
+    rawRow: (index) =>
+      Object.fromEntries(
+        read.map(({ column, values }) => [column.name, values[index] ?? '']),
+      ),
+  };
+}
+
+/**
+ * A data preview response — of a freestyle query, a table, or a table's
+ * metadata, which has the columns and no rows — or null when the body is not
+ * a `tableData` document.
+ */
+export function parseDataPreview(body: unknown): IDataPreviewResult | null {
+  return parseTableData(body)?.result ?? null;
+}
+
+function parsedTableData(response: IAdtResponse): ITableData {
+  const data = parseTableData(response.data);
+  if (!data) {
+    throw unreadable(
+      'The data preview response is not a tableData document, so there are no rows to read.',
+    );
+  }
+  return data;
+}
+
+/** The parsed result, or a `DATA_PREVIEW_UNREADABLE` error. */
+export function parsedDataPreview(response: IAdtResponse): IDataPreviewResult {
+  return parsedTableData(response).result;
+}
+
+/**
+ * Page by reading the first n rows, n one page larger each time, and dropping
+ * the rows already returned.
+ */
+async function* pageByWindow(
+  read: (rowNumber: number) => Promise<IAdtResponse>,
+  pageSize: number,
+  limit: number,
+  start = 0,
+): AsyncGenerator<IDataPreviewResult> {
+  let offset = start;
+  while (offset < limit) {
+    const wanted = Math.min(offset + pageSize, limit);
+    const result = parsedDataPreview(await read(wanted));
+    const rows = result.rows.slice(offset, wanted);
+    if (rows.length > 0) yield { ...result, rows };
+    if (result.rows.length < wanted) return;
+    offset = wanted;
+  }
+}
+
+/** An ABAP SQL literal for a value: quoted text, or the number. */
+export function sqlLiteral(value: DataPreviewValue): string {
+  return typeof value === 'number'
+    ? String(value)
+    : `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * A value as a literal of its column's type, from the text the server sent
+ * or the value parsed from it: a number unquoted and as written — a typed
+ * value of more digits than a double holds is text, and quoted it would
+ * compare as text — anything else quoted. Without the column, by the value.
+ */
+export function columnLiteral(
+  value: DataPreviewValue,
+  column?: IDataPreviewColumn,
+): string {
+  const numeric =
+    typeof value === 'string' && column && isNumeric(column)
+      ? numericText(value)
+      : undefined;
+  return numeric ?? sqlLiteral(value);
+}
+
+/**
+ * `WHERE` for the rows after `row` in key order:
+ * `k1 > v1 OR ( k1 = v1 AND k2 > v2 ) OR …`.
+ */
+function afterKey(
+  tableName: string,
+  keys: IDataPreviewColumn[],
+  row: Record<string, string>,
+): string {
+  const column = (key: IDataPreviewColumn) => `${tableName}~${key.name}`;
+  const literal = (key: IDataPreviewColumn) =>
+    columnLiteral(row[key.name], key);
+  return keys
+    .map((key, index) =>
+      [
+        ...keys
+          .slice(0, index)
+          .map((equal) => `${column(equal)} = ${literal(equal)}`),
+        `${column(key)} > ${literal(key)}`,
+      ].join(' AND '),
+    )
+    .map((condition) => `( ${condition} )`)
+    .join(' OR ');
+}
+
+/**
+ * Page through a freestyle query. Without an ORDER BY in the query, the
+ * database may return rows in a different order for each page.
+ */
+export async function* pageSqlQuery(
+  run: (params: IGetSqlQueryParams) => Promise<IAdtResponse>,
+  params: IGetSqlQueryParams,
+  options: IDataPreviewPageOptions = {},
+): AsyncGenerator<IDataPreviewResult> {
+  yield* pageByWindow(
+    (rowNumber) => run({ ...params, row_number: rowNumber }),
+    options.pageSize ?? DEFAULT_PAGE_SIZE,
+    options.maxRows ?? Number.POSITIVE_INFINITY,
+  );
+}
+
+/**
+ * Page through a table: by key when neither `order_by` nor `columns` is
+ * given, else by window — in primary key order without `order_by`. A
+ * selection may leave out a key field or name the key fields out of order,
+ * and the result does not say which, so only a read of every column, which
+ * come in table order with the key first, gives the key to page by.
+ */
+export async function* pageTableContents(
+  read: (
+    params: IGetTableContentsParams & ITableContentsQuery,
+  ) => Promise<IAdtResponse>,
+  params: IGetTableContentsParams & ITableContentsQuery,
+  options: IDataPreviewPageOptions = {},
+): AsyncGenerator<IDataPreviewResult> {
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  const limit = options.maxRows ?? Number.POSITIVE_INFINITY;
+  const order_by = params.order_by?.length ? params.order_by : ['PRIMARY KEY'];
+  if (params.order_by?.length || params.columns?.length) {
+    yield* pageByWindow(
+      (rowNumber) => read({ ...params, order_by, max_rows: rowNumber }),
+      pageSize,
+      limit,
+    );
+    return;
+  }
+
+  const tableName = params.table_name.toUpperCase();
+  let delivered = 0;
+  let after: string | undefined;
+  while (delivered < limit) {
+    const wanted = Math.min(pageSize, limit - delivered);
+    const where =
+      [params.where, after]
+        .filter((condition) => condition?.trim())
+        .map((condition) => `( ${condition} )`)
+        .join(' AND ') || undefined;
+    const data = parsedTableData(
+      await read({ ...params, where, order_by, max_rows: wanted }),
+    );
+    const page = data.result;
+    if (page.rows.length > 0) yield page;
+    delivered += page.rows.length;
+    if (page.rows.length < wanted) return;
+
+    // The client column is the same on every row the preview can see.
+    const keys = page.columns.filter(
+      (column) => column.key && column.ddicType !== 'CLNT',
+    );
+    if (keys.length === 0) {
+      yield* pageByWindow(
+        (rowNumber) => read({ ...params, order_by, max_rows: rowNumber }),
+        pageSize,
+        limit,
+        delivered,
+      );
+      return;
+    }
+    after = afterKey(tableName, keys, data.rawRow(page.rows.length - 1));
+  }
+}
+
+function csvField(value: DataPreviewValue, delimiter: string): string {
+  const text = String(value);
+  return text.includes(delimiter) || /["\r\n]/.test(text)
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+}
+
+/**
+ * The rows as CSV (RFC 4180 quoting), one line per row, each ending in
+ * `\n` — so the CSV of later pages, without `header`, can be appended.
+ */
+export function dataPreviewToCsv(
+  result: IDataPreviewResult,
+  options: IDataPreviewCsvOptions = {},
+): string {
+  const delimiter = options.delimiter ?? ',';
+  const lines = result.rows.map((row) =>
+    result.columns
+      .map((column) => csvField(row[column.name] ?? '', delimiter))
+      .join(delimiter),
+  );
+  if (options.header ?? true) {
+    lines.unshift(
+      result.columns
+        .map((column) => csvField(column.name, delimiter))
+        .join(delimiter),
+    );
+  }
+  return lines.map((line) => `${line}\n`).join('');
+}
+
+/** The rows as a JSON array of objects keyed by column name. */
+export function dataPreviewToJson(result: IDataPreviewResult): string {
+  return JSON.stringify(result.rows);
+}
+
+/** The rows as newline-delimited JSON: one object per line, each ending in `\n`. */
+export function dataPreviewToNdjson(result: IDataPreviewResult): string {
+  return result.rows.map((row) => `${JSON.stringify(row)}\n`).join('');
+}
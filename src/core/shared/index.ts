@@ -3,6 +3,13 @@
  */
 
 export { AdtUtils } from './AdtUtils';
+export { buildCdsPreviewSql, parseCdsEntity } from './cdsPreview';
+export {
+  dataPreviewToCsv,
+  dataPreviewToJson,
+  dataPreviewToNdjson,
+  parseDataPreview,
+} from './dataPreview';
 // Error classes for unsupported operations
 export {
   UnsupportedActivateOperationError,
@@ -22,4 +29,37 @@ export {
  * document — would otherwise have to reach in past the package boundary.
  */
 export { parseSearchResults } from './search';
+export { diffSources, summarizeMethodChanges } from './sourceDiff';
 export { getTransaction } from './transaction';
+export type {
+  DataPreviewValue,
+  ICdsAssociation,
+  ICdsAssociationBinding,
+  ICdsEntity,
+  ICdsParameter,
+  ICdsPreview,
+  ICdsPreviewQuery,
+  ICdsPreviewResult,
+  IDataPreviewColumn,
+  IDataPreviewCsvOptions,
+  IDataPreviewPageOptions,
+  IDataPreviewResult,
+  IMethodChange,
+  IPackageObject,
+  IPackageRunOptions,
+  IPackageRunProgress,
+  IPrettyPrinterSettings,
+  IPrettyPrintingUpdate,
+  IPrettyPrintUpdateOptions,
+  IRestoreVersionOptions,
+  ISourceDiff,
+  ISourceDiffHunk,
+  ISourceDiffLine,
+  ISourceDiffOptions,
+  ITableContentsQuery,
+  IVersionDiff,
+  IVersionedSourceHandler,
+  PrettyPrinterStyle,
+  VersionSide,
+} from './types';
+export { diffVersions, restoreVersion } from './versionHistory';
@@ -0,0 +1,177 @@
+/**
+ * Package runs: a package expanded to its objects, and the objects run in
+ * chunks.
+ *
+ * ATC and ABAP Unit take object lists, so a check over a package is a walk of
+ * its hierarchy first. What is run per chunk is the caller's; what is shared
+ * is the walk, the chunking, progress and the abort signal. An aborted run
+ * rejects with `PACKAGE_RUN_ABORTED` rather than resolving with the chunks it
+ * got through: a report of half a package reads like a report of all of it.
+ */
+
+import {
+  AdtObjectErrorCodes,
+  AdtOperationError,
+  type IAbapConnection,
+  type ILogger,
+} from '@mcp-abap-adt/interfaces';
+import { getPackageHierarchy } from './packageHierarchy';
+import type {
+  IPackageHierarchyNode,
+  IPackageObject,
+  IPackageRunOptions,
+} from './types';
+
+const DEFAULT_CHUNK_SIZE = 50;
+
+function aborted(packageName: string, where: string): AdtOperationError {
+  const error = new AdtOperationError(
+    `Run over package ${packageName} aborted ${where}.`,
+  );
+  error.code = 'PACKAGE_RUN_ABORTED';
+  return error;
+}
+
+/**
+ * Resolve after `ms`, or reject with `PACKAGE_RUN_ABORTED` when `signal`
+ * aborts first — for a runner polling a chunk's run.
+ */
+export function sleepUnlessAborted(
+  ms: number,
+  signal: AbortSignal | undefined,
+  packageName: string,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(aborted(packageName, 'while a chunk was running'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(aborted(packageName, 'while a chunk was running'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function collect(
+  node: IPackageHierarchyNode,
+  packageName: string,
+  found: Map<string, IPackageObject>,
+): void {
+  const children = node.children ?? [];
+  for (const child of children) {
+    if (child.isPackage || !child.type) continue;
+    const key = `${child.type}:${child.name}`;
+    if (!found.has(key)) {
+      found.set(key, {
+        name: child.name,
+        type: child.type,
+        kind: child.kind,
+        packageName,
+      });
+    }
+  }
+  for (const child of children) {
+    if (child.isPackage) collect(child, child.name, found);
+  }
+}
+
+/**
+ * The objects of a package, and of its subpackages unless
+ * `includeSubpackages` is false: a package's own objects first, then each
+ * subpackage's. An object listed twice is returned once.
+ */
+export async function listPackageObjects(
+  connection: IAbapConnection,
+  packageName: string,
+  options?: Pick<IPackageRunOptions, 'includeSubpackages' | 'maxDepth'>,
+  logger?: ILogger,
+): Promise<IPackageObject[]> {
+  const tree = await getPackageHierarchy(
+    connection,
+    packageName,
+    {
+      includeSubpackages: options?.includeSubpackages,
+      maxDepth: options?.maxDepth,
+      includeDescriptions: false,
+    },
+    logger,
+  );
+  const found = new Map<string, IPackageObject>();
+  collect(tree, tree.name, found);
+  return [...found.values()];
+}
+
+/** A package run's objects, those it left out, and what each chunk returned. */
+export interface IPackageRunChunks<T> {
+  objects: IPackageObject[];
+  skipped: IPackageObject[];
+  results: T[];
+}
+
+/**
+ * Expand `packageName`, keep the objects `runs` accepts, and run them in
+ * chunks of `options.chunkSize`, one after another. Progress is reported
+ * before the first chunk and after each; the signal is checked before each.
+ */
+export async function runPackageInChunks<T>(
+  connection: IAbapConnection,
+  packageName: string,
+  options: IPackageRunOptions | undefined,
+  logger: ILogger | undefined,
+  runs: (object: IPackageObject) => boolean,
+  runChunk: (chunk: IPackageObject[]) => Promise<T>,
+): Promise<IPackageRunChunks<T>> {
+  const chunkSize = options?.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+    const error = new AdtOperationError(
+      `chunkSize must be a positive integer, got ${chunkSize}.`,
+    );
+    error.code = AdtObjectErrorCodes.VALIDATION_FAILED;
+    throw error;
+  }
+
+  const name = packageName.toUpperCase();
+  if (options?.signal?.aborted) throw aborted(name, 'before it started');
+
+  const listed = await listPackageObjects(
+    connection,
+    packageName,
+    options,
+    logger,
+  );
+  const objects = listed.filter(runs);
+  const skipped = listed.filter((object) => !runs(object));
+
+  const chunks: IPackageObject[][] = [];
+  for (let i = 0; i < objects.length; i += chunkSize) {
+    chunks.push(objects.slice(i, i + chunkSize));
+  }
+  const report = (completedChunks: number, done: IPackageObject[]) =>
+    options?.onProgress?.({
+      packageName: name,
+      completedChunks,
+      totalChunks: chunks.length,
+      completedObjects: chunks
+        .slice(0, completedChunks)
+        .reduce((sum, chunk) => sum + chunk.length, 0),
+      totalObjects: objects.length,
+      objects: done,
+    });
+
+  report(0, []);
+  const results: T[] = [];
+  for (const [index, chunk] of chunks.entries()) {
+    if (options?.signal?.aborted) {
+      throw aborted(name, `after ${index} of ${chunks.length} chunks`);
+    }
+    results.push(await runChunk(chunk));
+    report(index + 1, chunk);
+  }
+  return { objects, skipped, results };
+}
@@ -0,0 +1,269 @@
+/**
+ * Pretty printer and the user's formatter settings
+ *
+ * `POST /sap/bc/adt/abapsource/prettyprinter` takes ABAP source as plain text
+ * and answers with it formatted. It takes no options: how it formats — keyword
+ * case, indentation — is the user's profile at
+ * `/sap/bc/adt/abapsource/prettyprinter/settings`, the same one Eclipse's
+ * formatter preference page writes. Formatting with other settings therefore
+ * means writing the profile, formatting, and writing it back.
+ *
+ * The settings document is read by element and attribute NAME, with prefixes
+ * removed, for the reason `runtime/atc/parse.ts` gives.
+ */
+
+import {
+  AdtOperationError,
+  type IAbapConnection,
+  type IAdtOperationOptions,
+  type ILogger,
+} from '@mcp-abap-adt/interfaces';
+import { XMLParser } from 'fast-xml-parser';
+import {
+  ACCEPT_PRETTY_PRINTER_SETTINGS,
+  ACCEPT_PRETTY_PRINTER_SOURCE,
+  CT_PRETTY_PRINTER_SETTINGS,
+  CT_PRETTY_PRINTER_SOURCE,
+} from '../../constants/contentTypes';
+import { safeErrorMessage } from '../../utils/internalUtils';
+import { getTimeout } from '../../utils/timeouts';
+import type {
+  IPrettyPrinterSettings,
+  IPrettyPrintUpdateOptions,
+  PrettyPrinterStyle,
+} from './types';
+
+const PRETTY_PRINTER_URL = '/sap/bc/adt/abapsource/prettyprinter';
+const SETTINGS_URL = `${PRETTY_PRINTER_URL}/settings`;
+
+const STYLES: readonly PrettyPrinterStyle[] = [
+  'toLower',
+  'toUpper',
+  'keywordUpper',
+  'keywordLower',
+  'keywordAuto',
+  'none',
+];
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  parseAttributeValue: false,
+});
+
+type Node = Record<string, unknown>;
+
+function unreadable(message: string): AdtOperationError {
+  const error = new AdtOperationError(message);
+  error.code = 'PRETTY_PRINTER_SETTINGS_UNREADABLE';
+  return error;
+}
+
+function isStyle(value: unknown): value is PrettyPrinterStyle {
+  return STYLES.includes(value as PrettyPrinterStyle);
+}
+
+/**
+ * The settings a `PrettyPrinterSettings` document holds.
+ *
+ * Rejects a body that is not one, and one whose style this client does not
+ * know: these settings are written back after a formatting call that changed
+ * them, and a profile read as something it was not would be restored as that.
+ */
+export function parsePrettyPrinterSettings(
+  body: unknown,
+): IPrettyPrinterSettings {
+  let document: Node | undefined;
+  if (typeof body === 'string' && body.trim() !== '') {
+    try {
+      document = parser.parse(body) as Node;
+    } catch {
+      document = undefined;
+    }
+  }
+  const root = document?.PrettyPrinterSettings;
+  if (!root || typeof root !== 'object') {
+    throw unreadable(
+      'The response is not a PrettyPrinterSettings document, so there are no formatter settings to read.',
+    );
+  }
+  const indentation = (root as Node)['@_indentation'];
+  const style = (root as Node)['@_style'];
+  if (indentation !== 'true' && indentation !== 'false') {
+    throw unreadable(
+      `Pretty printer settings: indentation is ${JSON.stringify(indentation)}, not true or false.`,
+    );
+  }
+  if (!isStyle(style)) {
+    throw unreadable(
+      `Pretty printer settings: style ${JSON.stringify(style)} is not one of ${STYLES.join(', ')}.`,
+    );
+  }
+  return { indentation: indentation === 'true', style };
+}
+
+/**
+ * Read the user's pretty-printer settings.
+ *
+ * `GET /sap/bc/adt/abapsource/prettyprinter/settings`.
+ */
+export async function getPrettyPrinterSettings(
+  connection: IAbapConnection,
+): Promise<IPrettyPrinterSettings> {
+  const response = await connection.makeAdtRequest({
+    url: SETTINGS_URL,
+    method: 'GET',
+    timeout: getTimeout('default'),
+    headers: { Accept: ACCEPT_PRETTY_PRINTER_SETTINGS },
+  });
+  return parsePrettyPrinterSettings(response.data);
+}
+
+/**
+ * Write the user's pretty-printer settings.
+ *
+ * `PUT /sap/bc/adt/abapsource/prettyprinter/settings`. This is the profile
+ * Eclipse formats with too, not a per-session value.
+ */
+export async function setPrettyPrinterSettings(
+  connection: IAbapConnection,
+  settings: IPrettyPrinterSettings,
+): Promise<void> {
+  if (!isStyle(settings.style)) {
+    throw new Error(
+      `Pretty printer style must be one of ${STYLES.join(', ')}; got ${JSON.stringify(settings.style)}`,
+    );
+  }
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<abapformatter:PrettyPrinterSettings xmlns:abapformatter="http://www.sap.com/adt/prettyprintersettings" abapformatter:indentation="${settings.indentation ? 'true' : 'false'}" abapformatter:style="${settings.style}"/>`;
+
+  await connection.makeAdtRequest({
+    url: SETTINGS_URL,
+    method: 'PUT',
+    timeout: getTimeout('default'),
+    data: xml,
+    headers: {
+      'Content-Type': CT_PRETTY_PRINTER_SETTINGS,
+      Accept: ACCEPT_PRETTY_PRINTER_SETTINGS,
+    },
+  });
+}
+
+async function formatSource(
+  connection: IAbapConnection,
+  source: string,
+): Promise<string> {
+  const response = await connection.makeAdtRequest({
+    url: PRETTY_PRINTER_URL,
+    method: 'POST',
+    timeout: getTimeout('default'),
+    data: source,
+    headers: {
+      'Content-Type': CT_PRETTY_PRINTER_SOURCE,
+      Accept: ACCEPT_PRETTY_PRINTER_SOURCE,
+    },
+  });
+  const formatted = response.data;
+  // What comes back is what update() writes. An answer with no source in it
+  // for a request that had some is not a formatting of it, and writing it
+  // would empty the object.
+  if (
+    typeof formatted !== 'string' ||
+    (formatted.trim() === '' && source.trim() !== '')
+  ) {
+    const error = new AdtOperationError(
+      'The pretty printer answered without the formatted source. Nothing was formatted; the source is unchanged.',
+    );
+    error.code = 'PRETTY_PRINT_EMPTY';
+    throw error;
+  }
+  return formatted;
+}
+
+function sameSettings(
+  a: IPrettyPrinterSettings,
+  b: IPrettyPrinterSettings,
+): boolean {
+  return a.indentation === b.indentation && a.style === b.style;
+}
+
+/**
+ * Format ABAP source on the server.
+ *
+ * Without `settings` the user's stored profile applies. With them, the
+ * profile is read, the given fields are written over it, the source is
+ * formatted, and the profile is written back in a `finally` — whether the
+ * formatting succeeded or not. When the given settings are already the
+ * stored ones, nothing is written.
+ *
+ * A restore that fails is logged, not thrown: the formatting's own result or
+ * error is what the caller asked for, and the profile is then left with the
+ * given settings.
+ *
+ * That sequence is not atomic. The profile is the user's, not the session's:
+ * a formatter run in Eclipse, or another call through this client, between
+ * the write and the restore formats with these settings, and one that changes
+ * the profile in that window has its change overwritten by the restore.
+ */
+export async function prettyPrint(
+  connection: IAbapConnection,
+  source: string,
+  settings?: Partial<IPrettyPrinterSettings>,
+  logger?: ILogger,
+): Promise<string> {
+  if (typeof source !== 'string') {
+    throw new Error('Source code is required for pretty print');
+  }
+  if (!settings || Object.keys(settings).length === 0) {
+    return formatSource(connection, source);
+  }
+
+  const stored = await getPrettyPrinterSettings(connection);
+  const wanted: IPrettyPrinterSettings = { ...stored, ...settings };
+  if (sameSettings(stored, wanted)) {
+    return formatSource(connection, source);
+  }
+
+  await setPrettyPrinterSettings(connection, wanted);
+  try {
+    return await formatSource(connection, source);
+  } finally {
+    try {
+      await setPrettyPrinterSettings(connection, stored);
+    } catch (error) {
+      logger?.error?.(
+        `Pretty printer settings were not restored to ${JSON.stringify(stored)}: ${safeErrorMessage(error)}`,
+      );
+    }
+  }
+}
+
+/**
+ * The operation options an `update()` continues with: unchanged when no
+ * pretty print was asked for, or with `sourceCode` set to the formatted
+ * `source` when it was.
+ *
+ * `source` is what the handler would otherwise write — `options.sourceCode`
+ * or the config's source field, resolved the way that handler resolves it —
+ * so the formatted text takes the path the unformatted text would have.
+ * Without a source there is nothing to format, and the handler's own
+ * "source code is required" check stays the one that answers.
+ */
+export async function prettyPrintBeforeUpdate<
+  T extends IAdtOperationOptions & IPrettyPrintUpdateOptions,
+>(
+  connection: IAbapConnection,
+  source: string | undefined,
+  options: T | undefined,
+  logger?: ILogger,
+): Promise<T | undefined> {
+  if (!options?.prettyPrint || !source) return options;
+  const settings =
+    options.prettyPrint === true ? undefined : options.prettyPrint;
+  return {
+    ...options,
+    sourceCode: await prettyPrint(connection, source, settings, logger),
+  };
+}
@@ -0,0 +1,356 @@
+/**
+ * Line diff between two ABAP sources, and which method implementations it
+ * touches.
+ *
+ * Pure: no connection. The diff is Myers' shortest edit script over lines,
+ * in linear space, with the common head and tail of each part set aside
+ * first — two versions of one object usually share most of both, and the
+ * edit search then runs over the part that changed only.
+ */
+
+import type {
+  IMethodChange,
+  ISourceDiff,
+  ISourceDiffHunk,
+  ISourceDiffLine,
+  ISourceDiffOptions,
+} from './types';
+
+/**
+ * The lines of a source. A final newline ends the last line rather than
+ * starting an empty one, so sources that differ only in it compare equal —
+ * ADT is not consistent about sending one.
+ */
+function linesOf(source: string): string[] {
+  if (source === '') return [];
+  const lines = source.split(/\r?\n/);
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+type Edit = ISourceDiffLine['kind'];
+
+/**
+ * The middle snake of `a[aLo, aHi)` against `b[bLo, bHi)`: a run of equal
+ * lines on some shortest edit path, found by searching from both ends until
+ * the two searches meet. Returned as its start and end, in absolute
+ * positions. Both ranges must be non-empty and differ at both ends.
+ */
+function middleSnake(
+  a: string[],
+  aLo: number,
+  aHi: number,
+  b: string[],
+  bLo: number,
+  bHi: number,
+): [x: number, y: number, u: number, v: number] {
+  const n = aHi - aLo;
+  const m = bHi - bLo;
+  const delta = n - m;
+  const odd = (delta & 1) !== 0;
+  const half = Math.ceil((n + m) / 2);
+  const offset = half + 1;
+  // Furthest x per diagonal, forward from the start and backward from the
+  // end (the latter counted from the end, on the reversed sequences).
+  const forward = new Int32Array(2 * half + 3);
+  const backward = new Int32Array(2 * half + 3);
+
+  for (let d = 0; d <= half; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d ||
+        (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+          ? forward[offset + k + 1]
+          : forward[offset + k - 1] + 1;
+      let y = x - k;
+      const x0 = x;
+      const y0 = y;
+      while (x < n && y < m && a[aLo + x] === b[bLo + y]) {
+        x++;
+        y++;
+      }
+      forward[offset + k] = x;
+      const c = delta - k;
+      if (odd && c >= -(d - 1) && c <= d - 1) {
+        if (x + backward[offset + c] >= n) {
+          return [aLo + x0, bLo + y0, aLo + x, bLo + y];
+        }
+      }
+    }
+    for (let c = -d; c <= d; c += 2) {
+      let x =
+        c === -d ||
+        (c !== d && backward[offset + c - 1] < backward[offset + c + 1])
+          ? backward[offset + c + 1]
+          : backward[offset + c - 1] + 1;
+      let y = x - c;
+      const x0 = x;
+      const y0 = y;
+      while (x < n && y < m && a[aHi - 1 - x] === b[bHi - 1 - y]) {
+        x++;
+        y++;
+      }
+      backward[offset + c] = x;
+      const k = delta - c;
+      if (!odd && k >= -d && k <= d) {
+        if (x + forward[offset + k] >= n) {
+          return [aHi - x, bHi - y, aHi - x0, bHi - y0];
+        }
+      }
+    }
+  }
+  // Unreachable: the searches meet by the time half the edits are spent.
+  throw new Error('No middle snake');
+}
+
+/**
+ * Append the shortest edit script of `a[aLo, aHi)` to `b[bLo, bHi)` to
+ * `edits`. Myers' linear-space refinement: split at the middle snake and
+ * recurse on either side, so memory stays proportional to the lines rather
+ * than to lines times edits — a fully rewritten class of a few thousand
+ * lines would otherwise take gigabytes.
+ */
+function editScript(
+  a: string[],
+  aLo: number,
+  aHi: number,
+  b: string[],
+  bLo: number,
+  bHi: number,
+  edits: Edit[],
+): void {
+  let head = 0;
+  while (aLo < aHi && bLo < bHi && a[aLo] === b[bLo]) {
+    aLo++;
+    bLo++;
+    head++;
+  }
+  let tail = 0;
+  while (aLo < aHi && bLo < bHi && a[aHi - 1] === b[bHi - 1]) {
+    aHi--;
+    bHi--;
+    tail++;
+  }
+  for (let i = 0; i < head; i++) edits.push('equal');
+  if (aLo === aHi) {
+    for (let j = bLo; j < bHi; j++) edits.push('added');
+  } else if (bLo === bHi) {
+    for (let i = aLo; i < aHi; i++) edits.push('removed');
+  } else {
+    const [x, y, u, v] = middleSnake(a, aLo, aHi, b, bLo, bHi);
+    editScript(a, aLo, x, b, bLo, y, edits);
+    for (let i = x; i < u; i++) edits.push('equal');
+    editScript(a, u, aHi, b, v, bHi, edits);
+  }
+  for (let i = 0; i < tail; i++) edits.push('equal');
+}
+
+/** Every line of both sources, numbered, in diff order. */
+function diffLines(a: string[], b: string[]): ISourceDiffLine[] {
+  const edits: Edit[] = [];
+  editScript(a, 0, a.length, b, 0, b.length, edits);
+
+  const lines: ISourceDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  for (const kind of edits) {
+    if (kind === 'equal') {
+      lines.push({ kind, text: a[i], oldLine: i + 1, newLine: j + 1 });
+      i++;
+      j++;
+    } else if (kind === 'removed') {
+      lines.push({ kind, text: a[i], oldLine: i + 1 });
+      i++;
+    } else {
+      lines.push({ kind, text: b[j], newLine: j + 1 });
+      j++;
+    }
+  }
+  return lines;
+}
+
+function hunksOf(lines: ISourceDiffLine[], context: number): ISourceDiffHunk[] {
+  const ranges: Array<[number, number]> = [];
+  lines.forEach((line, index) => {
+    if (line.kind === 'equal') return;
+    const from = Math.max(0, index - context);
+    const to = Math.min(lines.length, index + context + 1);
+    const last = ranges[ranges.length - 1];
+    if (last && from <= last[1]) last[1] = Math.max(last[1], to);
+    else ranges.push([from, to]);
+  });
+
+  return ranges.map(([from, to]) => {
+    const slice = lines.slice(from, to);
+    // Lines before the hunk, for a side the hunk has no line of.
+    let oldBefore = 0;
+    let newBefore = 0;
+    for (const line of lines.slice(0, from)) {
+      if (line.kind !== 'added') oldBefore++;
+      if (line.kind !== 'removed') newBefore++;
+    }
+    const oldLines = slice.filter((l) => l.kind !== 'added').length;
+    const newLines = slice.filter((l) => l.kind !== 'removed').length;
+    return {
+      oldStart: oldLines > 0 ? oldBefore + 1 : oldBefore,
+      oldLines,
+      newStart: newLines > 0 ? newBefore + 1 : newBefore,
+      newLines,
+      lines: slice,
+    };
+  });
+}
+
+const MARK: Record<ISourceDiffLine['kind'], string> = {
+  equal: ' ',
+  added: '+',
+  removed: '-',
+};
+
+/**
+ * The line diff from `oldSource` to `newSource`.
+ *
+ * Lines compare exactly — case and trailing blanks included — because both
+ * change what an ABAP object stores, and a diff that hid them could not
+ * explain why two versions differ.
+ */
+export function diffSources(
+  oldSource: string,
+  newSource: string,
+  options: ISourceDiffOptions = {},
+): ISourceDiff {
+  const context = Math.max(0, options.context ?? 3);
+  const oldLabel = options.oldLabel ?? 'old';
+  const newLabel = options.newLabel ?? 'new';
+  const lines = diffLines(linesOf(oldSource), linesOf(newSource));
+  const hunks = hunksOf(lines, context);
+  const added = lines.filter((l) => l.kind === 'added').length;
+  const removed = lines.filter((l) => l.kind === 'removed').length;
+
+  const unified =
+    hunks.length === 0
+      ? ''
+      : `${[
+          `--- ${oldLabel}`,
+          `+++ ${newLabel}`,
+          ...hunks.flatMap((hunk) => [
+            `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+            ...hunk.lines.map((l) => `${MARK[l.kind]}${l.text}`),
+          ]),
+        ].join('\n')}\n`;
+
+  return {
+    oldLabel,
+    newLabel,
+    identical: added === 0 && removed === 0,
+    added,
+    removed,
+    hunks,
+    unified,
+  };
+}
+
+interface IMethodBlock {
+  className: string;
+  methodName: string;
+  line: number;
+  body: string;
+}
+
+const CLASS_IMPLEMENTATION = /^class\s+(\S+)\s+implementation\s*\./i;
+const METHOD = /^method\s+([^\s.]+)\s*\./i;
+const END_METHOD = /^endmethod\s*\./i;
+const END_CLASS = /^endclass\s*\./i;
+
+/**
+ * The `METHOD … ENDMETHOD` blocks of every `CLASS … IMPLEMENTATION`, keyed by
+ * class and method. Statements are recognized at the start of a line, which
+ * is where ADT's formatter and every editor put them; a comment line (`*`)
+ * is never one.
+ */
+function methodBlocks(source: string): Map<string, IMethodBlock> {
+  const blocks = new Map<string, IMethodBlock>();
+  let className: string | undefined;
+  let method: { name: string; line: number; lines: string[] } | undefined;
+
+  linesOf(source).forEach((text, index) => {
+    const statement = text.startsWith('*') ? '' : text.trim();
+    if (method) {
+      method.lines.push(text);
+      if (END_METHOD.test(statement) && className) {
+        blocks.set(`${className}=>${method.name}`, {
+          className,
+          methodName: method.name,
+          line: method.line,
+          body: method.lines.join('\n'),
+        });
+        method = undefined;
+      }
+      return;
+    }
+    const classMatch = statement.match(CLASS_IMPLEMENTATION);
+    if (classMatch) {
+      className = classMatch[1].toUpperCase();
+      return;
+    }
+    if (END_CLASS.test(statement)) {
+      className = undefined;
+      return;
+    }
+    const methodMatch = className ? statement.match(METHOD) : null;
+    if (methodMatch) {
+      method = {
+        name: methodMatch[1].toUpperCase(),
+        line: index + 1,
+        lines: [text],
+      };
+    }
+  });
+  return blocks;
+}
+
+/**
+ * Which method implementations differ between two versions of a class —
+ * added, removed or changed, with how many lines each gained and lost.
+ *
+ * Methods are matched by class and name, so a method that moved keeps its
+ * identity and is listed only if its text changed. Changes outside any
+ * implementation — the definition part, local types — are not methods and
+ * are left to {@link diffSources}. Listed in the order of the new source,
+ * removed methods after.
+ */
+export function summarizeMethodChanges(
+  oldSource: string,
+  newSource: string,
+): IMethodChange[] {
+  const before = methodBlocks(oldSource);
+  const after = methodBlocks(newSource);
+  const changes: IMethodChange[] = [];
+
+  for (const [key, block] of after) {
+    const previous = before.get(key);
+    if (previous && previous.body === block.body) continue;
+    const diff = diffSources(previous?.body ?? '', block.body);
+    changes.push({
+      className: block.className,
+      methodName: block.methodName,
+      change: previous ? 'modified' : 'added',
+      added: diff.added,
+      removed: diff.removed,
+      oldLine: previous?.line,
+      newLine: block.line,
+    });
+  }
+  for (const [key, block] of before) {
+    if (after.has(key)) continue;
+    changes.push({
+      className: block.className,
+      methodName: block.methodName,
+      change: 'removed',
+      added: 0,
+      removed: linesOf(block.body).length,
+      oldLine: block.line,
+    });
+  }
+  return changes;
+}
@@ -9,14 +9,26 @@
  * This function works only for on-premise systems with basic authentication.
  */
 
-import type { IAbapConnection, IAdtResponse } from '@mcp-abap-adt/interfaces';
+import {
+  AdtOperationError,
+  type IAbapConnection,
+  type IAdtResponse,
+} from '@mcp-abap-adt/interfaces';
 import { ACCEPT_DATA_PREVIEW } from '../../constants/contentTypes';
 import { encodeSapObjectName } from '../../utils/internalUtils';
 import { getTimeout } from '../../utils/timeouts';
-import type { IGetTableContentsParams } from './types';
+import type { IGetTableContentsParams, ITableContentsQuery } from './types';
 
 const ACCEPT_HEADER = ACCEPT_DATA_PREVIEW;
 
+function unknownColumn(tableName: string, name: string): AdtOperationError {
+  const error = new AdtOperationError(
+    `Table ${tableName} has no column ${name}; nothing was read.`,
+  );
+  error.code = 'DATA_PREVIEW_UNKNOWN_COLUMN';
+  return error;
+}
+
 /**
  * Get column names for a DDIC entity via metadata endpoint
  */
@@ -52,16 +64,54 @@ async function getColumnNames(
   return fields;
 }
 
+/**
+ * `SELECT … FROM … [WHERE …] [ORDER BY …]` in the TABLE~FIELD syntax, with
+ * the columns the query names checked against the table's own.
+ */
+function buildSelect(
+  tableName: string,
+  fields: string[],
+  query: ITableContentsQuery,
+): string {
+  const known = new Set(fields);
+  const column = (name: string) => {
+    const upper = name.trim().toUpperCase();
+    if (!known.has(upper)) throw unknownColumn(tableName, name.trim());
+    return `${tableName}~${upper}`;
+  };
+
+  const selected = query.columns?.length ? query.columns : fields;
+  let sql = `SELECT ${selected.map(column).join(', ')} FROM ${tableName}`;
+  if (query.where?.trim()) {
+    sql += ` WHERE ${query.where.trim()}`;
+  }
+  if (query.order_by?.length) {
+    const orderBy = query.order_by.map((entry) => {
+      if (/^\s*PRIMARY\s+KEY\s*$/i.test(entry)) return 'PRIMARY KEY';
+      const [name, direction] = entry.trim().split(/\s+/);
+      return /^DESCENDING$/i.test(direction ?? '')
+        ? `${column(name)} DESCENDING`
+        : column(name);
+    });
+    sql += ` ORDER BY ${orderBy.join(', ')}`;
+  }
+  return sql;
+}
+
 /**
  * Get table contents via ADT DDIC Data Preview API
  *
+ * Every column unless `columns` names some; `where` and `order_by` are added
+ * to the statement as given, `order_by` entries as `FIELD [DESCENDING]` or
+ * `PRIMARY KEY`.
+ *
  * @param connection - ABAP connection
  * @param params - Table contents parameters
  * @returns Table contents
  */
 export async function getTableContents(
   connection: IAbapConnection,
-  params: IGetTableContentsParams,
+  params: IGetTableContentsParams & ITableContentsQuery,
 ): Promise<IAdtResponse> {
   if (!params.table_name) {
     throw new Error('Table name is required');
@@ -78,10 +128,22 @@ export async function getTableContents(
   }
 
   // Build SQL with TABLE~FIELD syntax (as Eclipse ADT does)
-  const fieldList = fields.map((f) => `${tableName}~${f}`).join(', ');
-  const sqlQuery = `SELECT ${fieldList} FROM ${tableName}`;
+  const sqlQuery = buildSelect(tableName, fields, params);
+
+  return queryDdicEntity(connection, tableName, sqlQuery, maxRows);
+}
 
-  const url = `/sap/bc/adt/datapreview/ddic?rowNumber=${maxRows}&ddicEntityName=${encodeURIComponent(tableName)}`;
+/**
+ * Run a statement on a DDIC entity — a table or a CDS entity — through the
+ * DDIC Data Preview endpoint.
+ */
+export async function queryDdicEntity(
+  connection: IAbapConnection,
+  entityName: string,
+  sqlQuery: string,
+  maxRows: number,
+): Promise<IAdtResponse> {
+  const url = `/sap/bc/adt/datapreview/ddic?rowNumber=${maxRows}&ddicEntityName=${encodeURIComponent(entityName)}`;
 
   return connection.makeAdtRequest({
     url,
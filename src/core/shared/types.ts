@@ -2,6 +2,12 @@
  * Shared types for cross-cutting ADT operations
  */
 
+import type {
+  IAdtOperationOptions,
+  IObjectVersion,
+  PackageHierarchySupportedType,
+} from '@mcp-abap-adt/interfaces';
+
 // Types defined in @mcp-abap-adt/interfaces
 export type {
   AdtObjectType,
@@ -30,3 +36,333 @@ export type {
   PackageHierarchyCodeFormat,
   PackageHierarchySupportedType,
 } from '@mcp-abap-adt/interfaces';
+
+/**
+ * Keyword case the pretty printer applies. `none` leaves case alone and only
+ * indents; the `keyword*` styles change keywords and leave identifiers as
+ * written, the `to*` styles change both.
+ */
+export type PrettyPrinterStyle =
+  | 'toLower'
+  | 'toUpper'
+  | 'keywordUpper'
+  | 'keywordLower'
+  | 'keywordAuto'
+  | 'none';
+
+/** The user's pretty-printer profile, as `…/prettyprinter/settings` holds it. */
+export interface IPrettyPrinterSettings {
+  /** Whether statements are indented. */
+  indentation: boolean;
+  style: PrettyPrinterStyle;
+}
+
+/**
+ * Pretty-print the source before `update()` writes it.
+ *
+ * `true` formats with the user's stored settings; settings given here are
+ * applied for the one call — see {@link AdtUtils.prettyPrint} for what that
+ * costs. Off unless asked for: formatting rewrites every line it touches, and
+ * a caller diffing what it sent against what it reads back would not expect
+ * that.
+ */
+export interface IPrettyPrintUpdateOptions {
+  prettyPrint?: boolean | Partial<IPrettyPrinterSettings>;
+}
+
+/**
+ * `update()` on a source handler that can format before it writes — the
+ * contract's signature with {@link IPrettyPrintUpdateOptions} added, so a
+ * caller holding the handler through `AdtClient` can ask for it.
+ */
+export interface IPrettyPrintingUpdate<TConfig, TState> {
+  update(
+    config: Partial<TConfig>,
+    options?: IAdtOperationOptions & IPrettyPrintUpdateOptions,
+  ): Promise<TState>;
+}
+
+/** One line of a diff, numbered in the source(s) it is in. */
+export interface ISourceDiffLine {
+  kind: 'equal' | 'added' | 'removed';
+  text: string;
+  /** 1-based line in the old source; absent for an added line. */
+  oldLine?: number;
+  /** 1-based line in the new source; absent for a removed line. */
+  newLine?: number;
+}
+
+/** A run of changes with the unchanged lines around it, as `@@` marks one. */
+export interface ISourceDiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: ISourceDiffLine[];
+}
+
+/**
+ * A line diff between two sources.
+ *
+ * Only the changes and their context are kept, as `hunks`; `unified` is the
+ * same in `diff -u` form, empty when the sources are identical.
+ */
+export interface ISourceDiff {
+  oldLabel: string;
+  newLabel: string;
+  identical: boolean;
+  added: number;
+  removed: number;
+  hunks: ISourceDiffHunk[];
+  unified: string;
+}
+
+export interface ISourceDiffOptions {
+  /** Unchanged lines kept around each change. Default 3, as `diff -u`. */
+  context?: number;
+  oldLabel?: string;
+  newLabel?: string;
+}
+
+/** A method implementation that differs between two class sources. */
+export interface IMethodChange {
+  /** The class the implementation is in — local classes included. */
+  className: string;
+  /** As the `METHOD` statement names it, e.g. `ZIF_FORMATTER~FORMAT`. */
+  methodName: string;
+  change: 'added' | 'removed' | 'modified';
+  /** Lines added to / removed from the implementation. */
+  added: number;
+  removed: number;
+  /** 1-based line of `METHOD` in the old source; absent when added. */
+  oldLine?: number;
+  /** 1-based line of `METHOD` in the new source; absent when removed. */
+  newLine?: number;
+}
+
+/**
+ * One side of a version comparison: a version from `getVersions()`, or the
+ * object's source as it stands now — `active`, or `inactive` for what has
+ * been saved but not activated.
+ */
+export type VersionSide = IObjectVersion | 'active' | 'inactive';
+
+/** A version diff, with both sources, so they need not be read again. */
+export interface IVersionDiff extends ISourceDiff {
+  oldSource: string;
+  newSource: string;
+}
+
+/**
+ * What version diff and restore need of a handler: a version's source and
+ * its own `read` and `update`. Every source handler — class, program,
+ * interface, function module, CDS, … — has these.
+ */
+export interface IVersionedSourceHandler<TConfig, TState> {
+  getVersionSource(contentUri: string): Promise<string>;
+  read(
+    config: Partial<TConfig>,
+    version?: 'active' | 'inactive',
+  ): Promise<TState | undefined>;
+  update(
+    config: Partial<TConfig>,
+    options?: IAdtOperationOptions,
+  ): Promise<TState>;
+}
+
+export interface IRestoreVersionOptions {
+  /**
+   * Activate after writing. Default true: a restore is meant to make the
+   * old source the running one, not leave it as an inactive draft.
+   */
+  activate?: boolean;
+  /** Transport the write is recorded on, when the object needs one. */
+  transportRequest?: string;
+}
+
+/**
+ * What `getTableContents` selects beyond the table and row limit. Names are
+ * the table's column names; each is checked against the table's metadata
+ * before the query is sent.
+ */
+export interface ITableContentsQuery {
+  /** Columns to select, in this order. Default: every column of the table. */
+  columns?: string[];
+  /** Condition in ABAP SQL, e.g. `MTART = 'FERT' AND ERSDA >= '20260101'`. */
+  where?: string;
+  /** Columns to sort by, each optionally followed by ` DESCENDING`. */
+  order_by?: string[];
+}
+
+/** A value of a data preview row: a number for numeric types, else the text. */
+export type DataPreviewValue = string | number;
+
+export interface IDataPreviewColumn {
+  name: string;
+  description?: string;
+  /** ABAP type: `C`, `N`, `D`, `T`, `I`, `P`, `F`, `X`, `g` (string), … */
+  type?: string;
+  /** DDIC type: `CHAR`, `NUMC`, `DATS`, `CURR`, `INT4`, … */
+  ddicType?: string;
+  length?: number;
+  decimals?: number;
+  /** Part of the table key. */
+  key: boolean;
+}
+
+/** A data preview result, with each value typed by its column. */
+export interface IDataPreviewResult {
+  columns: IDataPreviewColumn[];
+  /** One object per row, keyed by column name in column order. */
+  rows: Record<string, DataPreviewValue>[];
+  /** Rows the query matches in all, when the server counted them. */
+  totalRows?: number;
+  /** The statement the server ran. */
+  executedQuery?: string;
+  /** How long it ran, as the server reports it. */
+  executionTime?: number;
+}
+
+export interface IDataPreviewPageOptions {
+  /** Rows per page. Default 1000. */
+  pageSize?: number;
+  /** Stop after this many rows in all. Default: every row. */
+  maxRows?: number;
+}
+
+export interface IDataPreviewCsvOptions {
+  /** Default `,`. */
+  delimiter?: string;
+  /** Start with a line of column names. Default true. */
+  header?: boolean;
+}
+
+/** A parameter of a CDS entity, as its DDL source declares it. */
+export interface ICdsParameter {
+  name: string;
+  /** As declared, e.g. `abap.dats` or `vdm_v_key_date`. */
+  type: string;
+  /**
+   * The system field `@Environment.systemField` fills the parameter from
+   * when no value is given, e.g. `#SYSTEM_DATE`.
+   */
+  systemField?: string;
+}
+
+/**
+ * One equality of an association's ON condition: the target element equals
+ * an element of the source row, or a literal.
+ */
+export interface ICdsAssociationBinding {
+  target: string;
+  source?: string;
+  value?: DataPreviewValue;
+}
+
+/** An association or composition of a CDS entity. */
+export interface ICdsAssociation {
+  /** The alias it is exposed under, e.g. `_Item`. */
+  name: string;
+  target: string;
+  /** As written, e.g. `[0..*]` or `of many to one`. */
+  cardinality?: string;
+  composition: boolean;
+  /** `association to parent`. */
+  toParent: boolean;
+  /** The ON condition as written; absent for a composition. */
+  condition?: string;
+  /**
+   * The ON condition as bindings, when it is equalities joined by AND —
+   * what following the association needs. Absent otherwise.
+   */
+  bindings?: ICdsAssociationBinding[];
+}
+
+/** What a DDL source says about the entity it defines. */
+export interface ICdsEntity {
+  /** The entity name, which is not always the DDL source name. */
+  name: string;
+  parameters: ICdsParameter[];
+  associations: ICdsAssociation[];
+}
+
+/** A CDS preview: the table query, parameter values and row limit. */
+export interface ICdsPreviewQuery extends ITableContentsQuery {
+  /** Parameter values by parameter name. */
+  parameters?: Record<string, DataPreviewValue>;
+  /** Default 100. */
+  max_rows?: number;
+}
+
+/** A CDS preview result, with the statement it was read with. */
+export interface ICdsPreviewResult extends IDataPreviewResult {
+  entity: string;
+  /** The ABAP SQL sent; `executedQuery` is what the server says it ran. */
+  sql: string;
+}
+
+/**
+ * Data preview of CDS entities, on the handler of their DDL sources. The
+ * entity's parameters and associations are read from its DDL source.
+ */
+export interface ICdsPreview<TConfig> {
+  readEntity(config: Partial<TConfig>): Promise<ICdsEntity>;
+  preview(
+    config: Partial<TConfig>,
+    query?: ICdsPreviewQuery,
+  ): Promise<ICdsPreviewResult>;
+  /**
+   * Preview the rows `row` reaches through `association`; `query` applies
+   * to the target, its `parameters` included. `columns` are those of the
+   * result `row` is from, so its values are written as their types.
+   */
+  followAssociation(
+    config: Partial<TConfig>,
+    association: string,
+    row: Record<string, DataPreviewValue>,
+    query?: ICdsPreviewQuery,
+    columns?: IDataPreviewColumn[],
+  ): Promise<ICdsPreviewResult>;
+}
+
+/** An object a package run found in the package or one of its subpackages. */
+export interface IPackageObject {
+  name: string;
+  /** ADT type with subtype, as the package lists it: `CLAS/OC`, `PROG/P`. */
+  type: string;
+  /** The type as `getPackageHierarchy` reads it, when it knows it. */
+  kind?: PackageHierarchySupportedType;
+  /** The (sub)package that holds it. */
+  packageName: string;
+}
+
+/** Where a package run is, reported once the package is expanded and after each chunk. */
+export interface IPackageRunProgress {
+  packageName: string;
+  completedChunks: number;
+  totalChunks: number;
+  completedObjects: number;
+  totalObjects: number;
+  /** The objects of the chunk just finished; empty in the first report. */
+  objects: IPackageObject[];
+}
+
+/**
+ * How a package is expanded and run. A run over a package is several runs,
+ * one per chunk of its objects: one run over hundreds of objects holds a
+ * work process for as long as they all take, and fails as a whole.
+ */
+export interface IPackageRunOptions {
+  /** Default true, as `getPackageHierarchy`. */
+  includeSubpackages?: boolean;
+  /** Subpackage levels expanded. Default 5, as `getPackageHierarchy`. */
+  maxDepth?: number;
+  /** Objects per run. Default 50. */
+  chunkSize?: number;
+  /**
+   * Checked before each chunk and while one is awaited. The server is not
+   * told: a run it has started runs to its end, unread.
+   */
+  signal?: AbortSignal;
+  onProgress?: (progress: IPackageRunProgress) => void;
+}
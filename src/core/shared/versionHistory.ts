@@ -0,0 +1,126 @@
+/**
+ * Comparing versions of a source object, and putting an old one back.
+ *
+ * Both go through the handler the caller already holds — `getClass()`,
+ * `getProgram()`, … — rather than through endpoints of their own: the
+ * handler knows its object's version feed, how to read its active and
+ * inactive source, and its update lifecycle (lock, check, write, unlock,
+ * activate). A restore that bypassed that lifecycle would need to reproduce
+ * it for every object type, and would drift from it.
+ */
+
+import {
+  AdtOperationError,
+  type IObjectVersion,
+} from '@mcp-abap-adt/interfaces';
+import { diffSources } from './sourceDiff';
+import type {
+  IRestoreVersionOptions,
+  ISourceDiffOptions,
+  IVersionDiff,
+  IVersionedSourceHandler,
+  VersionSide,
+} from './types';
+
+function versionError(code: string, message: string): AdtOperationError {
+  const error = new AdtOperationError(message);
+  error.code = code;
+  return error;
+}
+
+function labelOf(side: VersionSide): string {
+  if (side === 'active' || side === 'inactive') return side;
+  return side.updatedAt
+    ? `${side.versionId} (${side.updatedAt})`
+    : side.versionId;
+}
+
+async function sourceOf<TConfig, TState>(
+  handler: IVersionedSourceHandler<TConfig, TState>,
+  config: Partial<TConfig>,
+  side: VersionSide,
+): Promise<string> {
+  if (side === 'active' || side === 'inactive') {
+    const state = await handler.read(config, side);
+    const data = (state as { readResult?: { data?: unknown } } | undefined)
+      ?.readResult?.data;
+    if (typeof data !== 'string') {
+      throw versionError(
+        'VERSION_SOURCE_UNREADABLE',
+        `The ${side} source could not be read${state ? ': the answer is not text' : ': the object was not found'}.`,
+      );
+    }
+    return data;
+  }
+  if (!side?.contentUri) {
+    throw new Error('Version has no contentUri to read its source from');
+  }
+  return handler.getVersionSource(side.contentUri);
+}
+
+/**
+ * The line diff from one version of an object to another.
+ *
+ * Either side is a version from `handler.getVersions(config)`, or the source
+ * as it stands now: `'active'`, or `'inactive'` for what has been saved but
+ * not activated. Diffing a version against `'active'` shows what a restore
+ * would undo. The result carries both sources, for
+ * {@link summarizeMethodChanges} on a class.
+ */
+export async function diffVersions<TConfig, TState>(
+  handler: IVersionedSourceHandler<TConfig, TState>,
+  config: Partial<TConfig>,
+  from: VersionSide,
+  to: VersionSide,
+  options: Pick<ISourceDiffOptions, 'context'> = {},
+): Promise<IVersionDiff> {
+  const oldSource = await sourceOf(handler, config, from);
+  const newSource = await sourceOf(handler, config, to);
+  return {
+    ...diffSources(oldSource, newSource, {
+      context: options.context,
+      oldLabel: labelOf(from),
+      newLabel: labelOf(to),
+    }),
+    oldSource,
+    newSource,
+  };
+}
+
+/**
+ * Write a version's source back as the object's source, through the
+ * handler's own `update()` — which locks, checks, writes and unlocks — and
+ * activate it unless told not to.
+ *
+ * Refuses a version whose source reads empty
+ * (`VERSION_SOURCE_EMPTY`): an empty body is what ADT answers for content it
+ * could not produce, and writing it would empty the object.
+ *
+ * @returns the handler's state from `update()`
+ */
+export async function restoreVersion<TConfig, TState>(
+  handler: IVersionedSourceHandler<TConfig, TState>,
+  config: Partial<TConfig>,
+  version: IObjectVersion,
+  options: IRestoreVersionOptions = {},
+): Promise<TState> {
+  const source = await sourceOf(handler, config, version);
+  if (source.trim() === '') {
+    throw versionError(
+      'VERSION_SOURCE_EMPTY',
+      `Version ${version.versionId} has no source; restoring it would empty the object.`,
+    );
+  }
+  return handler.update(
+    options.transportRequest
+      ? ({
+          ...config,
+          transportRequest: options.transportRequest,
+        } as Partial<TConfig>)
+      : config,
+    {
+      sourceCode: source,
+      activateOnUpdate: options.activate ?? true,
+    },
+  );
+}
@@ -0,0 +1,173 @@
+/**
+ * AdtSourceIntelligence - What ADT knows about source while it is written
+ *
+ * Code completion, element info, code insertion and quick fixes: the requests
+ * behind Ctrl+Space, hover/F2, Shift+Enter and Ctrl+1 in Eclipse. Each takes a cursor in
+ * source that need not be saved — the server parses the text sent, in the
+ * context of the object the URI names — so a caller can ask about source it is
+ * still composing before any `update()` writes it.
+ *
+ * Nothing here is CRUD and nothing locks: these are reads of the server's
+ * analysis, and they run stateless.
+ *
+ * Usage:
+ * ```typescript
+ * const intelligence = client.getSourceIntelligence();
+ * const cursor = {
+ *   uri: '/sap/bc/adt/oo/classes/zcl_demo/source/main',
+ *   source,
+ *   line: 12,
+ *   column: 8,
+ * };
+ *
+ * const proposals = await intelligence.getCompletionProposals(cursor);
+ * const info = await intelligence.getElementInfo(cursor);
+ * const call = await intelligence.getInsertionPattern(cursor, 'get_name');
+ *
+ * const fixes = await intelligence.getQuickFixProposals(cursor);
+ * const deltas = await intelligence.applyQuickFix(cursor, fixes[0]);
+ * const fixed = applyQuickFixDeltas(source, deltas, cursor.uri);
+ * ```
+ */
+
+import {
+  AdtOperationError,
+  type IAbapConnection,
+  type ILogger,
+} from '@mcp-abap-adt/interfaces';
+import { safeErrorMessage } from '../../utils/internalUtils';
+import { getCompletionProposals } from './completion';
+import { getElementInfo } from './elementInfo';
+import { getInsertionPattern } from './insertion';
+import {
+  parseCompletionProposals,
+  parseElementInfo,
+  parseQuickFixDeltas,
+  parseQuickFixProposals,
+} from './parse';
+import { applyQuickFix, getQuickFixProposals } from './quickFix';
+import type {
+  ICompletionProposal,
+  IElementInfo,
+  IQuickFixDelta,
+  IQuickFixProposal,
+  ISourceCursor,
+} from './types';
+
+export class AdtSourceIntelligence {
+  protected connection: IAbapConnection;
+  protected logger?: ILogger;
+
+  constructor(connection: IAbapConnection, logger?: ILogger) {
+    this.connection = connection;
+    this.logger = logger;
+  }
+
+  /**
+   * Completion proposals at the cursor, in the server's order.
+   *
+   * An empty list is the server saying nothing fits there; an answer that is
+   * not a proposal list rejects with `SOURCE_COMPLETION_UNREADABLE`.
+   */
+  async getCompletionProposals(
+    cursor: ISourceCursor,
+  ): Promise<ICompletionProposal[]> {
+    try {
+      const response = await getCompletionProposals(this.connection, cursor);
+      return parseCompletionProposals(response.data);
+    } catch (error: unknown) {
+      this.logger?.error('Code completion failed:', safeErrorMessage(error));
+      throw error;
+    }
+  }
+
+  /**
+   * The element under the cursor — documentation, type and, for a method or
+   * function module, its parameters as `components`.
+   *
+   * Null when there is no element at the cursor.
+   */
+  async getElementInfo(cursor: ISourceCursor): Promise<IElementInfo | null> {
+    try {
+      const response = await getElementInfo(this.connection, cursor);
+      return parseElementInfo(response.data);
+    } catch (error: unknown) {
+      this.logger?.error('Element info failed:', safeErrorMessage(error));
+      throw error;
+    }
+  }
+
+  /**
+   * The full call pattern for a proposal — what Eclipse inserts on
+   * Shift+Enter: the method or function module call with its parameters.
+   *
+   * `patternKey` is the proposal's `identifier`; proposals with
+   * `hasInsertionPattern` have one. Null when the server has none for it.
+   */
+  async getInsertionPattern(
+    cursor: ISourceCursor,
+    patternKey: string,
+  ): Promise<string | null> {
+    try {
+      const response = await getInsertionPattern(
+        this.connection,
+        cursor,
+        patternKey,
+      );
+      const pattern = response.data;
+      if (typeof pattern !== 'string') {
+        const error = new AdtOperationError(
+          `Code insertion for ${patternKey}: the response is not text, so there is no pattern to read.`,
+        );
+        error.code = 'SOURCE_INSERTION_UNREADABLE';
+        throw error;
+      }
+      return pattern.trim() === '' ? null : pattern;
+    } catch (error: unknown) {
+      this.logger?.error('Code insertion failed:', safeErrorMessage(error));
+      throw error;
+    }
+  }
+
+  /**
+   * The fixes the server offers at the cursor — Ctrl+1 in Eclipse.
+   *
+   * Point the cursor where a check message or ATC finding is
+   * (`sourceCursorAt(message.href, source)`): the fixes offered are the ones
+   * for what is wrong there. An empty list is the server knowing none.
+   */
+  async getQuickFixProposals(
+    cursor: ISourceCursor,
+  ): Promise<IQuickFixProposal[]> {
+    try {
+      const response = await getQuickFixProposals(this.connection, cursor);
+      return parseQuickFixProposals(response.data);
+    } catch (error: unknown) {
+      this.logger?.error(
+        'Quick fix evaluation failed:',
+        safeErrorMessage(error),
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * The changes a fix makes, for the cursor and source it was proposed for.
+   *
+   * Nothing is written: the deltas are for the caller to apply
+   * (`applyQuickFixDeltas`) and save with `update()`. A fix can change more
+   * than one source, and each delta names the one it is for.
+   */
+  async applyQuickFix(
+    cursor: ISourceCursor,
+    proposal: IQuickFixProposal,
+  ): Promise<IQuickFixDelta[]> {
+    try {
+      const response = await applyQuickFix(this.connection, cursor, proposal);
+      return parseQuickFixDeltas(response.data);
+    } catch (error: unknown) {
+      this.logger?.error('Quick fix failed:', safeErrorMessage(error));
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Code completion
+ *
+ * `POST /sap/bc/adt/abapsource/codecompletion/proposal` with the source as
+ * the body and the cursor in the `uri` parameter. `signalCompleteness=true`
+ * makes the server close the list with an `@end` entry, which is how a
+ * complete list is told from one cut short.
+ */
+
+import type { IAbapConnection, IAdtResponse } from '@mcp-abap-adt/interfaces';
+import {
+  ACCEPT_CODE_COMPLETION,
+  CT_CODE_COMPLETION_SOURCE,
+} from '../../constants/contentTypes';
+import { getTimeout } from '../../utils/timeouts';
+import { cursorUri } from './cursor';
+import type { ISourceCursor } from './types';
+
+export async function getCompletionProposals(
+  connection: IAbapConnection,
+  cursor: ISourceCursor,
+): Promise<IAdtResponse> {
+  const uri = encodeURIComponent(cursorUri(cursor));
+  return connection.makeAdtRequest({
+    url: `/sap/bc/adt/abapsource/codecompletion/proposal?uri=${uri}&signalCompleteness=true`,
+    method: 'POST',
+    timeout: getTimeout('default'),
+    data: cursor.source,
+    headers: {
+      'Content-Type': CT_CODE_COMPLETION_SOURCE,
+      Accept: ACCEPT_CODE_COMPLETION,
+    },
+  });
+}
@@ -0,0 +1,80 @@
+/**
+ * The `uri` query parameter every source-intelligence request carries: the
+ * source URI with the cursor as its `#start=line,column` fragment.
+ */
+
+import { parseAdtSourcePosition } from '../../utils/sourcePosition';
+import type { ISourceCursor } from './types';
+
+/** A URI that already names a source: `…/source/main` or `…/includes/<name>`. */
+const SOURCE_PART = /\/(source\/main|includes\/[a-z_]+)$/i;
+
+/**
+ * `uri#start=line,column`, refusing a cursor the server would misplace.
+ *
+ * Refused rather than clamped: a cursor past the text is a caller holding a
+ * different text than it sent, and a proposal for a position it did not mean
+ * is worse than none.
+ */
+export function cursorUri(cursor: ISourceCursor): string {
+  if (!cursor.uri) {
+    throw new Error('Source URI is required');
+  }
+  if (typeof cursor.source !== 'string') {
+    throw new Error('Source text is required');
+  }
+  const lines = cursor.source.split(/\r?\n/);
+  if (
+    !Number.isInteger(cursor.line) ||
+    cursor.line < 1 ||
+    cursor.line > lines.length
+  ) {
+    throw new Error(
+      `Line ${cursor.line} is not in the source, which has ${lines.length} line(s)`,
+    );
+  }
+  const lineLength = lines[cursor.line - 1].length;
+  if (
+    !Number.isInteger(cursor.column) ||
+    cursor.column < 0 ||
+    cursor.column > lineLength
+  ) {
+    throw new Error(
+      `Column ${cursor.column} is not on line ${cursor.line}, which has ${lineLength} character(s)`,
+    );
+  }
+
+  return `${sourceUriOf(cursor.uri)}#start=${cursor.line},${cursor.column}`;
+}
+
+/**
+ * The source a URI names, without query or fragment: an object URI names its
+ * main source.
+ */
+export function sourceUriOf(uri: string): string {
+  const base = uri.replace(/[?#].*$/, '').replace(/\/+$/, '');
+  return SOURCE_PART.test(base) ? base : `${base}/source/main`;
+}
+
+/**
+ * The cursor a check message or ATC finding points at: its `uri#start=…`
+ * location, over the source it is in.
+ *
+ * A location without a line — a finding on the object as a whole — has no
+ * position to ask about and is refused.
+ */
+export function sourceCursorAt(
+  location: string,
+  source: string,
+): ISourceCursor {
+  const position = parseAdtSourcePosition(location ?? '');
+  if (!position.uri || position.line === undefined) {
+    throw new Error(`Location "${location}" has no source position`);
+  }
+  return {
+    uri: position.uri,
+    source,
+    line: position.line,
+    column: position.column ?? 0,
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * Applying quick-fix deltas to source text.
+ */
+
+import { AdtOperationError } from '@mcp-abap-adt/interfaces';
+import { sourceUriOf } from './cursor';
+import type { IQuickFixDelta } from './types';
+
+function offsetOf(
+  lineStarts: number[],
+  source: string,
+  point: { line: number; column: number },
+): number {
+  const start = lineStarts[point.line - 1];
+  if (start === undefined) {
+    throw new Error(
+      `Delta line ${point.line} is not in the source, which has ${lineStarts.length} line(s)`,
+    );
+  }
+  const next = lineStarts[point.line];
+  const lineEnd = next === undefined ? source.length : next - 1;
+  const length = lineEnd - start - (source[lineEnd - 1] === '\r' ? 1 : 0);
+  if (point.column < 0 || point.column > length) {
+    throw new Error(
+      `Delta column ${point.column} is not on line ${point.line}, which has ${length} character(s)`,
+    );
+  }
+  return start + point.column;
+}
+
+function at(point: { line: number; column: number }): string {
+  return `${point.line},${point.column}`;
+}
+
+function overlapping(a: IQuickFixDelta, b: IQuickFixDelta): AdtOperationError {
+  const error = new AdtOperationError(
+    `Quick fix deltas ${at(a.start)}-${at(a.end)} and ${at(b.start)}-${at(b.end)} overlap, so there is no one text they make; nothing was applied.`,
+  );
+  error.code = 'SOURCE_QUICKFIX_DELTAS_OVERLAP';
+  return error;
+}
+
+/**
+ * `source` with the deltas of a quick fix applied.
+ *
+ * Only the deltas for `uri` are applied — a fix that also changes another
+ * include returns those for the caller to apply there. `uri` names a source
+ * as `cursorUri()` reads it: an object URI means its main source, and case
+ * does not count. Deltas none of which is for `uri` are refused; the source
+ * would come back unchanged, as if fixed. Without `uri`, deltas for more than
+ * one source are refused: which of them `source` is cannot be told.
+ *
+ * Every position means what it meant in the text the server saw. Deltas at
+ * the same position go in in their list order; deltas that overlap are
+ * refused with `SOURCE_QUICKFIX_DELTAS_OVERLAP`, and a delta outside the text
+ * is refused: it was computed for a different text than this one.
+ */
+export function applyQuickFixDeltas(
+  source: string,
+  deltas: IQuickFixDelta[],
+  uri?: string,
+): string {
+  const sources = [
+    ...new Set(deltas.map((d) => sourceUriOf(d.uri).toLowerCase())),
+  ];
+  if (uri === undefined && sources.length > 1) {
+    throw new Error(
+      `The deltas change ${sources.length} sources (${sources.join(', ')}); pass the uri of the one to apply them to`,
+    );
+  }
+  const base = uri === undefined ? undefined : sourceUriOf(uri).toLowerCase();
+  const relevant = deltas.filter(
+    (d) => base === undefined || sourceUriOf(d.uri).toLowerCase() === base,
+  );
+  if (relevant.length === 0 && deltas.length > 0) {
+    throw new Error(
+      `None of the ${deltas.length} delta(s) is for ${uri}: they change ${[...new Set(deltas.map((d) => d.uri))].join(', ')}`,
+    );
+  }
+
+  const lineStarts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\n') lineStarts.push(i + 1);
+  }
+  // A stable sort: deltas at the same position keep their list order.
+  const located = relevant
+    .map((delta) => {
+      const from = offsetOf(lineStarts, source, delta.start);
+      const to = offsetOf(lineStarts, source, delta.end);
+      return { delta, from, to: Math.max(from, to) };
+    })
+    .sort((a, b) => a.from - b.from);
+
+  let result = '';
+  let position = 0;
+  located.forEach(({ delta, from, to }, index) => {
+    if (from < position) throw overlapping(located[index - 1].delta, delta);
+    result += source.slice(position, from) + delta.content;
+    position = to;
+  });
+  return result + source.slice(position);
+}
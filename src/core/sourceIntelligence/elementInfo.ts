@@ -0,0 +1,33 @@
+/**
+ * Element info
+ *
+ * `POST /sap/bc/adt/abapsource/codecompletion/elementinfo` — what Eclipse
+ * shows on hover and in F2: the element under the cursor, its documentation,
+ * and for a method or function module its parameters.
+ */
+
+import type { IAbapConnection, IAdtResponse } from '@mcp-abap-adt/interfaces';
+import {
+  ACCEPT_CODE_COMPLETION,
+  CT_CODE_COMPLETION_SOURCE,
+} from '../../constants/contentTypes';
+import { getTimeout } from '../../utils/timeouts';
+import { cursorUri } from './cursor';
+import type { ISourceCursor } from './types';
+
+export async function getElementInfo(
+  connection: IAbapConnection,
+  cursor: ISourceCursor,
+): Promise<IAdtResponse> {
+  const uri = encodeURIComponent(cursorUri(cursor));
+  return connection.makeAdtRequest({
+    url: `/sap/bc/adt/abapsource/codecompletion/elementinfo?uri=${uri}`,
+    method: 'POST',
+    timeout: getTimeout('default'),
+    data: cursor.source,
+    headers: {
+      'Content-Type': CT_CODE_COMPLETION_SOURCE,
+      Accept: ACCEPT_CODE_COMPLETION,
+    },
+  });
+}
@@ -0,0 +1,25 @@
+/**
+ * Source intelligence - exports
+ */
+
+export { AdtSourceIntelligence } from './AdtSourceIntelligence';
+export { sourceCursorAt } from './cursor';
+export { applyQuickFixDeltas } from './deltas';
+export {
+  parseCompletionProposals,
+  parseElementInfo,
+  parseMethodImplementations,
+  parseNavigationTarget,
+  parseQuickFixDeltas,
+  parseQuickFixProposals,
+} from './parse';
+export type {
+  ICompletionProposal,
+  IElementInfo,
+  IMethodImplementation,
+  INavigationTarget,
+  IQuickFixDelta,
+  IQuickFixProposal,
+  ISourceCursor,
+  NavigationFilter,
+} from './types';
@@ -0,0 +1,38 @@
+/**
+ * Code insertion
+ *
+ * `POST /sap/bc/adt/abapsource/codecompletion/insertion` answers, for one
+ * proposal, the text Eclipse inserts when it is accepted with Shift+Enter: a
+ * method or function module call with its parameters spelled out. The
+ * proposal is named by `patternKey`, its identifier.
+ */
+
+import type { IAbapConnection, IAdtResponse } from '@mcp-abap-adt/interfaces';
+import {
+  ACCEPT_CODE_INSERTION,
+  CT_CODE_COMPLETION_SOURCE,
+} from '../../constants/contentTypes';
+import { getTimeout } from '../../utils/timeouts';
+import { cursorUri } from './cursor';
+import type { ISourceCursor } from './types';
+
+export async function getInsertionPattern(
+  connection: IAbapConnection,
+  cursor: ISourceCursor,
+  patternKey: string,
+): Promise<IAdtResponse> {
+  if (!patternKey) {
+    throw new Error('patternKey is required');
+  }
+  const uri = encodeURIComponent(cursorUri(cursor));
+  return connection.makeAdtRequest({
+    url: `/sap/bc/adt/abapsource/codecompletion/insertion?uri=${uri}&patternKey=${encodeURIComponent(patternKey)}`,
+    method: 'POST',
+    timeout: getTimeout('default'),
+    data: cursor.source,
+    headers: {
+      'Content-Type': CT_CODE_COMPLETION_SOURCE,
+      Accept: ACCEPT_CODE_INSERTION,
+    },
+  });
+}
@@ -0,0 +1,86 @@
+/**
+ * Navigation and the type hierarchy
+ *
+ * `POST /sap/bc/adt/navigation/target` is F3 in Eclipse: given a cursor in
+ * source, where the symbol under it is defined — or, with
+ * `filter=implementation`, implemented. `POST /sap/bc/adt/abapsource/typehierarchy`
+ * is Ctrl+T: with the cursor on a method, the types below it and whether each
+ * implements or redefines that method.
+ *
+ * Both take the unsaved source as the body and the cursor in `uri`, like code
+ * completion.
+ */
+
+import type { IAbapConnection, IAdtResponse } from '@mcp-abap-adt/interfaces';
+import {
+  ACCEPT_NAVIGATION_TARGET,
+  ACCEPT_TYPE_HIERARCHY,
+  CT_CODE_COMPLETION_SOURCE,
+} from '../../constants/contentTypes';
+import { getTimeout } from '../../utils/timeouts';
+import { cursorUri } from './cursor';
+import { parseMethodImplementations, parseNavigationTarget } from './parse';
+import type {
+  IMethodImplementation,
+  INavigationTarget,
+  ISourceCursor,
+  NavigationFilter,
+} from './types';
+
+export async function getNavigationTarget(
+  connection: IAbapConnection,
+  cursor: ISourceCursor,
+  filter: NavigationFilter = 'definition',
+): Promise<IAdtResponse> {
+  const uri = encodeURIComponent(cursorUri(cursor));
+  return connection.makeAdtRequest({
+    url: `/sap/bc/adt/navigation/target?uri=${uri}&filter=${filter}`,
+    method: 'POST',
+    timeout: getTimeout('default'),
+    data: cursor.source,
+    headers: {
+      'Content-Type': CT_CODE_COMPLETION_SOURCE,
+      Accept: ACCEPT_NAVIGATION_TARGET,
+    },
+  });
+}
+
+/** The types below the one at the cursor (`type=subTypes`). */
+export async function getSubTypeHierarchy(
+  connection: IAbapConnection,
+  cursor: ISourceCursor,
+): Promise<IAdtResponse> {
+  const uri = encodeURIComponent(cursorUri(cursor));
+  return connection.makeAdtRequest({
+    url: `/sap/bc/adt/abapsource/typehierarchy?uri=${uri}&type=subTypes`,
+    method: 'POST',
+    timeout: getTimeout('default'),
+    data: cursor.source,
+    headers: {
+      'Content-Type': CT_CODE_COMPLETION_SOURCE,
+      Accept: ACCEPT_TYPE_HIERARCHY,
+    },
+  });
+}
+
+/** Where the symbol at the cursor leads, or null when it leads nowhere. */
+export async function navigate(
+  connection: IAbapConnection,
+  cursor: ISourceCursor,
+  filter: NavigationFilter = 'definition',
+): Promise<INavigationTarget | null> {
+  const response = await getNavigationTarget(connection, cursor, filter);
+  return parseNavigationTarget(response.data);
+}
+
+/**
+ * The implementations of the interface method, or the redefinitions of the
+ * class method, at the cursor.
+ */
+export async function findMethodImplementations(
+  connection: IAbapConnection,
+  cursor: ISourceCursor,
+): Promise<IMethodImplementation[]> {
+  const response = await getSubTypeHierarchy(connection, cursor);
+  return parseMethodImplementations(response.data);
+}
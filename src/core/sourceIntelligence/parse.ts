@@ -0,0 +1,341 @@
+/**
+ * Reading what code completion, element info and navigation answer with.
+ *
+ * Proposals come as asXML (`asx:abap > asx:values > DATA > SCC_COMPLETION`),
+ * element info as an `abapsource:elementInfo` tree, navigation as an
+ * `adtcore:objectReference`, the type hierarchy as `hierarchy:entry` rows,
+ * quick fixes as `qf:evaluationResults` and `quickfixes:proposalResult`.
+ * All are read by element NAME with prefixes removed, for the reason
+ * `runtime/atc/parse.ts` gives, and `parseTagValue: false` keeps an
+ * identifier such as `1000` a string.
+ */
+
+import { AdtOperationError } from '@mcp-abap-adt/interfaces';
+import { XMLParser } from 'fast-xml-parser';
+import { parseAdtSourcePosition } from '../../utils/sourcePosition';
+import type {
+  ICompletionProposal,
+  IElementInfo,
+  IMethodImplementation,
+  INavigationTarget,
+  IQuickFixDelta,
+  IQuickFixProposal,
+} from './types';
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  parseAttributeValue: false,
+});
+
+/** For answers that carry source, whose leading blanks are indentation. */
+const sourceParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  parseAttributeValue: false,
+  trimValues: false,
+});
+
+type Node = Record<string, unknown>;
+
+function parseXml(body: unknown, using = parser): Node | undefined {
+  if (typeof body !== 'string' || body.trim() === '') return undefined;
+  try {
+    return using.parse(body) as Node;
+  } catch {
+    return undefined;
+  }
+}
+
+function asArray(value: unknown): Node[] {
+  if (value === undefined || value === null) return [];
+  return (Array.isArray(value) ? value : [value]).filter(
+    (v): v is Node => typeof v === 'object' && v !== null,
+  );
+}
+
+/** Element text, whether the parser left it a string or an object with attributes. */
+function text(value: unknown): string | undefined {
+  if (typeof value === 'string') return value === '' ? undefined : value;
+  if (value && typeof value === 'object' && '#text' in value) {
+    return text((value as Node)['#text']);
+  }
+  return undefined;
+}
+
+function integer(value: unknown): number | undefined {
+  const raw = text(value)?.trim();
+  return raw && /^-?\d+$/.test(raw) ? Number(raw) : undefined;
+}
+
+/**
+ * asXML flags arrive as `X` or as a number, XML attributes as `true`; empty,
+ * `0` and `false` are false.
+ */
+function flag(value: unknown): boolean {
+  const raw = text(value)?.trim();
+  if (!raw) return false;
+  const upper = raw.toUpperCase();
+  return upper === 'X' || upper === 'TRUE' || (integer(raw) ?? 0) !== 0;
+}
+
+/** Every element named `name` anywhere below `root`, in document order. */
+function findAll(root: unknown, name: string): Node[] {
+  const found: Node[] = [];
+  const walk = (value: unknown) => {
+    for (const node of asArray(value)) {
+      for (const [key, child] of Object.entries(node)) {
+        if (key.startsWith('@_')) continue;
+        if (key === name) found.push(...asArray(child));
+        else walk(child);
+      }
+    }
+  };
+  walk(root);
+  return found;
+}
+
+function unreadable(code: string, message: string): AdtOperationError {
+  const error = new AdtOperationError(message);
+  error.code = code;
+  return error;
+}
+
+/**
+ * The proposals of a code-completion answer, in the server's order.
+ *
+ * The `@end` entry that `signalCompleteness` appends is a marker, not a
+ * proposal, and is dropped. Rejects a body that is not asXML: read as one it
+ * would propose nothing, and "nothing fits here" is an answer the server did
+ * not give.
+ */
+export function parseCompletionProposals(body: unknown): ICompletionProposal[] {
+  const document = parseXml(body);
+  if (!document || !('abap' in document)) {
+    throw unreadable(
+      'SOURCE_COMPLETION_UNREADABLE',
+      'The code completion response is not asXML, so there are no proposals to read.',
+    );
+  }
+  const proposals: ICompletionProposal[] = [];
+  for (const entry of findAll(document.abap, 'SCC_COMPLETION')) {
+    const identifier = text(entry.IDENTIFIER);
+    if (!identifier || identifier === '@end') continue;
+    proposals.push({
+      identifier,
+      kind: integer(entry.KIND) ?? 0,
+      prefixLength: integer(entry.PREFIXLENGTH) ?? 0,
+      role: integer(entry.ROLE),
+      location: integer(entry.LOCATION),
+      grade: integer(entry.GRADE),
+      visibility: integer(entry.VISIBILITY),
+      bold: flag(entry.BOLD),
+      isMeta: flag(entry.IS_META),
+      isInherited: flag(entry.IS_INHERITED),
+      hasInsertionPattern: flag(entry.INSERT_EVENT),
+    });
+  }
+  return proposals;
+}
+
+function documentationLink(node: Node): string | undefined {
+  const links = [
+    ...asArray(node.link),
+    ...asArray((node.documentation as Node | undefined)?.link),
+  ];
+  const link =
+    links.find((l) => /documentation$/.test(text(l['@_rel']) ?? '')) ??
+    links[0];
+  return text(link?.['@_href']);
+}
+
+function elementInfoOf(node: Node): IElementInfo {
+  const properties: Record<string, string> = {};
+  for (const entry of asArray((node.properties as Node | undefined)?.entry)) {
+    const key = text(entry['@_key']);
+    if (key) properties[key] = text(entry) ?? '';
+  }
+  return {
+    name: text(node['@_name']) ?? '',
+    type: text(node['@_type']) ?? '',
+    documentation: text(node.documentation)?.trim() || undefined,
+    documentationUri: documentationLink(node),
+    properties,
+    components: asArray(
+      (node.elementInfos as Node | undefined)?.elementInfo,
+    ).map(elementInfoOf),
+  };
+}
+
+/**
+ * The element info tree, or null when the server had none for the cursor.
+ *
+ * An empty body is how ADT says there is no element at that position —
+ * whitespace, a comment — and null says the same. A body that is something
+ * else than an `elementInfo` is rejected.
+ */
+export function parseElementInfo(body: unknown): IElementInfo | null {
+  if (typeof body === 'string' && body.trim() === '') return null;
+  const document = parseXml(body);
+  const root = asArray(document?.elementInfo)[0];
+  if (!root) {
+    throw unreadable(
+      'SOURCE_ELEMENT_INFO_UNREADABLE',
+      'The element info response is not an elementInfo document.',
+    );
+  }
+  return elementInfoOf(root);
+}
+
+/** `…/source/main` and `…/includes/<name>`: the source part of a URI. */
+const SOURCE_PART = /\/(?:source\/(main)|includes\/([a-z_]+))$/i;
+
+/** A target read from the URI ADT returned, plus its name and type. */
+function targetOf(node: Node): INavigationTarget | undefined {
+  const uri = text(node['@_uri']);
+  if (!uri) return undefined;
+  const position = parseAdtSourcePosition(uri);
+  const part = position.uri.match(SOURCE_PART);
+  return {
+    uri,
+    sourceUri: position.uri,
+    objectUri: part
+      ? position.uri.slice(0, position.uri.length - part[0].length)
+      : position.uri,
+    include: part ? (part[1] ?? part[2]).toLowerCase() : undefined,
+    type: text(node['@_type']),
+    name: text(node['@_name']),
+    line: position.line,
+    column: position.column,
+  };
+}
+
+/**
+ * The `adtcore:objectReference` navigation answers with, or null when the
+ * answer is empty — ADT's way of saying the cursor is on nothing that leads
+ * anywhere. A body that is neither is rejected.
+ */
+export function parseNavigationTarget(body: unknown): INavigationTarget | null {
+  if (typeof body === 'string' && body.trim() === '') return null;
+  const reference = asArray(parseXml(body)?.objectReference)[0];
+  const target = reference && targetOf(reference);
+  if (!target) {
+    throw unreadable(
+      'SOURCE_NAVIGATION_UNREADABLE',
+      'The navigation response is not an objectReference with a URI, so there is no target to read.',
+    );
+  }
+  return target;
+}
+
+/**
+ * The entries of a sub-type hierarchy that implement or redefine the method
+ * it was asked for (`hasDefOrImpl`).
+ *
+ * The root entry — the interface or class the method is declared in, the
+ * one without a parent — is left out: a declaration is not one of its own
+ * implementations. Rejects a body that is not a hierarchy result, since read
+ * as one it would list none.
+ */
+export function parseMethodImplementations(
+  body: unknown,
+): IMethodImplementation[] {
+  const document = parseXml(body);
+  if (!document || !('result' in document)) {
+    throw unreadable(
+      'SOURCE_TYPE_HIERARCHY_UNREADABLE',
+      'The type hierarchy response is not a hierarchy result, so there are no implementations to read.',
+    );
+  }
+  const implementations: IMethodImplementation[] = [];
+  for (const entry of findAll(document.result, 'entry')) {
+    if (!flag(entry['@_hasDefOrImpl']) || !text(entry['@_parentUri'])) {
+      continue;
+    }
+    const target = targetOf(entry);
+    if (!target) continue;
+    implementations.push({
+      ...target,
+      description: text(entry['@_description']),
+      parentUri: text(entry['@_parentUri']),
+    });
+  }
+  return implementations;
+}
+
+/**
+ * The fixes a quick-fix evaluation offers, in the server's order.
+ *
+ * An empty answer is no fixes, as an empty `evaluationResults` is. A body
+ * that is neither is rejected: read as a list it would offer nothing, and
+ * "nothing can be fixed here" is an answer the server did not give.
+ */
+export function parseQuickFixProposals(body: unknown): IQuickFixProposal[] {
+  if (typeof body === 'string' && body.trim() === '') return [];
+  const document = parseXml(body, sourceParser);
+  if (!document || !('evaluationResults' in document)) {
+    throw unreadable(
+      'SOURCE_QUICKFIX_UNREADABLE',
+      'The quick fix response is not an evaluationResults document, so there are no proposals to read.',
+    );
+  }
+  const proposals: IQuickFixProposal[] = [];
+  for (const result of findAll(
+    document.evaluationResults,
+    'evaluationResult',
+  )) {
+    const reference = asArray(result.objectReference)[0];
+    const uri = text(reference?.['@_uri'])?.trim();
+    if (!reference || !uri) continue;
+    proposals.push({
+      uri,
+      type: text(reference['@_type']),
+      name: text(reference['@_name']) ?? '',
+      description: text(reference['@_description']),
+      userContent: text(result.userContent) ?? '',
+    });
+  }
+  return proposals;
+}
+
+/**
+ * The replacements applying a quick fix answers with (`deltas > unit`).
+ *
+ * Each unit names its source and range as a `#start=…;end=…` URI; a unit
+ * without both ends is rejected rather than guessed, since a replacement in
+ * the wrong place breaks source that compiled.
+ */
+export function parseQuickFixDeltas(body: unknown): IQuickFixDelta[] {
+  const document = parseXml(body, sourceParser);
+  if (!document || !('proposalResult' in document)) {
+    throw unreadable(
+      'SOURCE_QUICKFIX_UNREADABLE',
+      'The quick fix response is not a proposalResult document, so there are no changes to read.',
+    );
+  }
+  const deltas: IQuickFixDelta[] = [];
+  for (const unit of findAll(document.proposalResult, 'unit')) {
+    const reference = asArray(unit.objectReference)[0];
+    const uri = text(reference?.['@_uri'])?.trim() ?? '';
+    const [base, fragment = ''] = uri.split('#');
+    const start = fragment.match(/(?:^|;)start=(\d+),(\d+)/);
+    const end = fragment.match(/(?:^|;)end=(\d+),(\d+)/);
+    if (!start || !end) {
+      throw unreadable(
+        'SOURCE_QUICKFIX_UNREADABLE',
+        `A quick fix change names no range to replace: "${uri}".`,
+      );
+    }
+    deltas.push({
+      uri: base,
+      start: { line: Number(start[1]), column: Number(start[2]) },
+      end: { line: Number(end[1]), column: Number(end[2]) },
+      content: text(unit.content) ?? '',
+    });
+  }
+  return deltas;
+}
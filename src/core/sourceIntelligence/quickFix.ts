@@ -0,0 +1,79 @@
+/**
+ * Quick fixes
+ *
+ * `POST /sap/bc/adt/quickfixes/evaluation` is Ctrl+1 in Eclipse: given a
+ * cursor in source — typically where a check message or ATC finding points —
+ * the fixes the server knows for what is there. Applying one posts a
+ * `quickfixes:proposalRequest` to the proposal's own URI with the source and
+ * the proposal's `userContent`, and the answer is the text to change. Nothing
+ * is written to the object; the caller applies the deltas and saves.
+ */
+
+import type { IAbapConnection, IAdtResponse } from '@mcp-abap-adt/interfaces';
+import {
+  ACCEPT_QUICKFIX,
+  CT_CODE_COMPLETION_SOURCE,
+  CT_QUICKFIX_PROPOSAL_REQUEST,
+} from '../../constants/contentTypes';
+import { getTimeout } from '../../utils/timeouts';
+import { escapeXmlAttr } from '../../utils/xml';
+import { cursorUri } from './cursor';
+import type { IQuickFixProposal, ISourceCursor } from './types';
+
+function escapeText(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+export async function getQuickFixProposals(
+  connection: IAbapConnection,
+  cursor: ISourceCursor,
+): Promise<IAdtResponse> {
+  const uri = encodeURIComponent(cursorUri(cursor));
+  return connection.makeAdtRequest({
+    url: `/sap/bc/adt/quickfixes/evaluation?uri=${uri}`,
+    method: 'POST',
+    timeout: getTimeout('default'),
+    data: cursor.source,
+    headers: {
+      'Content-Type': CT_CODE_COMPLETION_SOURCE,
+      Accept: ACCEPT_QUICKFIX,
+    },
+  });
+}
+
+export function buildQuickFixRequest(
+  cursor: ISourceCursor,
+  proposal: IQuickFixProposal,
+): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<quickfixes:proposalRequest xmlns:quickfixes="http://www.sap.com/adt/quickfixes" xmlns:adtcore="http://www.sap.com/adt/core">
+  <input>
+    <content>${escapeText(cursor.source)}</content>
+    <adtcore:objectReference adtcore:uri="${escapeXmlAttr(cursorUri(cursor))}"/>
+  </input>
+  <userContent>${escapeText(proposal.userContent)}</userContent>
+</quickfixes:proposalRequest>`;
+}
+
+export async function applyQuickFix(
+  connection: IAbapConnection,
+  cursor: ISourceCursor,
+  proposal: IQuickFixProposal,
+): Promise<IAdtResponse> {
+  if (!proposal?.uri) {
+    throw new Error('Quick fix proposal URI is required');
+  }
+  return connection.makeAdtRequest({
+    url: proposal.uri,
+    method: 'POST',
+    timeout: getTimeout('default'),
+    data: buildQuickFixRequest(cursor, proposal),
+    headers: {
+      'Content-Type': CT_QUICKFIX_PROPOSAL_REQUEST,
+      Accept: ACCEPT_QUICKFIX,
+    },
+  });
+}
@@ -0,0 +1,154 @@
+/**
+ * Source intelligence types — what code completion, element info and code
+ * insertion are asked about, and what they answer.
+ */
+
+/**
+ * A cursor in source that has not necessarily been saved.
+ *
+ * The server works on the text sent, not on the stored object: `uri` says
+ * which object (and include) the text belongs to, so names resolve in its
+ * context, and `source` is what the editor — or the agent — holds now.
+ */
+export interface ISourceCursor {
+  /**
+   * The source URI, e.g. `/sap/bc/adt/oo/classes/zcl_demo/source/main` or
+   * `/sap/bc/adt/oo/classes/zcl_demo/includes/testclasses`. An object URI
+   * without a source part is taken to mean its `source/main`.
+   */
+  uri: string;
+  /** The full text of that source, as it stands at the cursor. */
+  source: string;
+  /** 1-based line. */
+  line: number;
+  /** 0-based column, as ADT's `#start=line,column` counts it. */
+  column: number;
+}
+
+/**
+ * One completion proposal (`SCC_COMPLETION`).
+ *
+ * The numeric fields are ADT's codes verbatim: `kind` says what the proposal
+ * is (keyword, variable, method…), and which codes mean what differs between
+ * releases, so they are not mapped to names here.
+ */
+export interface ICompletionProposal {
+  /** The text the proposal inserts. */
+  identifier: string;
+  kind: number;
+  /**
+   * How many characters before the cursor the proposal replaces — what was
+   * typed of it so far.
+   */
+  prefixLength: number;
+  role?: number;
+  location?: number;
+  grade?: number;
+  visibility?: number;
+  /** ADT highlights it: a proposal it ranks as a likely match. */
+  bold: boolean;
+  /** A keyword or statement pattern rather than a name. */
+  isMeta: boolean;
+  isInherited: boolean;
+  /**
+   * The proposal has a full insertion — a call pattern with its parameters —
+   * that {@link AdtSourceIntelligence.getInsertionPattern} returns.
+   */
+  hasInsertionPattern: boolean;
+}
+
+/**
+ * What ADT knows about the element under a cursor.
+ *
+ * For a method or function module, `components` is its signature: one entry
+ * per parameter, with its kind as `type` and its typing in `properties`.
+ */
+export interface IElementInfo {
+  name: string;
+  /** ADT's element type, e.g. `CLAS/OM` for a method. */
+  type: string;
+  /** The ABAP Doc or short text, as text. */
+  documentation?: string;
+  /** Link to the long documentation, when there is one. */
+  documentationUri?: string;
+  /** `abapsource:entry` key/value pairs, verbatim. */
+  properties: Record<string, string>;
+  components: IElementInfo[];
+}
+
+/**
+ * What navigation resolves to: where a symbol is defined or implemented.
+ *
+ * `uri` is ADT's verbatim, fragment and all; the rest is read from it, so a
+ * caller can open the include without parsing ADT's URI conventions.
+ */
+export interface INavigationTarget {
+  /** As ADT returned it, e.g. `…/zcl_x/source/main#start=12,2`. */
+  uri: string;
+  /** `uri` without its fragment: the source the target is in. */
+  sourceUri: string;
+  /**
+   * The object the source belongs to — `sourceUri` without `/source/main`
+   * or `/includes/<name>`.
+   */
+  objectUri: string;
+  /**
+   * Which source of the object: `main`, or a class include (`definitions`,
+   * `implementations`, `testclasses`, `macros`). Absent when the URI names
+   * neither.
+   */
+  include?: string;
+  /** ADT's type of the target, e.g. `CLAS/OM` for a method. */
+  type?: string;
+  name?: string;
+  /** 1-based line, when ADT gave a position. */
+  line?: number;
+  /** 0-based column, when ADT gave one. */
+  column?: number;
+}
+
+/**
+ * `definition` goes to where a symbol is declared; `implementation` to where
+ * it is implemented — for a method, its `METHOD … ENDMETHOD`.
+ */
+export type NavigationFilter = 'definition' | 'implementation';
+
+/** One implementation or redefinition of a method, in the type hierarchy. */
+export interface IMethodImplementation extends INavigationTarget {
+  /** The description of the class the implementation is in. */
+  description?: string;
+  /** The `objectUri` of the type it inherits the method from. */
+  parentUri?: string;
+}
+
+/**
+ * A fix the server offers at a position (`qf:evaluationResult`).
+ *
+ * `uri` is where the fix is applied and `userContent` is the server's state
+ * for it; both go back verbatim when it is.
+ */
+export interface IQuickFixProposal {
+  uri: string;
+  /** ADT's type of the fix, e.g. `quickfix/proposal`. */
+  type?: string;
+  /** What the fix does, as Eclipse lists it, e.g. `Declare variable LV_X`. */
+  name: string;
+  description?: string;
+  userContent: string;
+}
+
+/**
+ * One replacement a quick fix makes: `content` replaces the text from `start`
+ * up to `end`, in the source `uri` names.
+ *
+ * A fix may change more than the source it was asked about — declaring a
+ * method changes the class definition too — so each delta names its source.
+ */
+export interface IQuickFixDelta {
+  /** The source URI, without fragment. */
+  uri: string;
+  /** 1-based line, 0-based column. */
+  start: { line: number; column: number };
+  end: { line: number; column: number };
+  content: string;
+}
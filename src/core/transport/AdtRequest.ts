@@ -20,6 +20,10 @@
  * It is not activated, has no syntax check, no lock, no version history, and no
  * transport of its own — and no validation: its number is generated by the
  * system, so there is nothing to check before creating one.
+ *
+ * Lifecycle actions (release, changeOwner, addTask, sortAndCompress) are not
+ * CRUD and belong to no capability atom; they are methods here because a
+ * request is what they act on. Each takes the number of a request or task.
  */
 
 import type {
@@ -27,6 +31,8 @@ import type {
   ITransportTree,
 } from '@mcp-abap-adt/interfaces';
 import {
+  AdtObjectErrorCodes,
+  AdtOperationError,
   type HttpError,
   hasDeferredResponses,
   type IAbapConnection,
@@ -44,10 +50,24 @@ import { safeErrorMessage } from '../../utils/internalUtils';
 import { createTransport } from './create';
 import { deleteTransport } from './delete';
 import { getTransportSearchConfigurations, listTransports } from './list';
+import { changeTransportOwner } from './owner';
+import { parseTransportRelease } from './parseReleaseReports';
 import { parseTransportTree } from './parseTransportTree';
 import { getTransport } from './read';
-import type { ITransportConfig, ITransportState } from './types';
+import { releaseTransport, type TransportReleaseAction } from './release';
+import { sortAndCompressTransport } from './sortAndCompress';
+import { createTransportTask, parseNewTaskNumber } from './tasks';
+import type {
+  ITransportActionResult,
+  ITransportConfig,
+  ITransportOwnerResult,
+  ITransportReleaseOptions,
+  ITransportReleaseResult,
+  ITransportState,
+  ITransportTaskResult,
+} from './types';
 import { updateTransport } from './update';
+
 export class AdtRequest
   implements
     IAdtCreatable<ITransportConfig, ITransportState>,
@@ -330,4 +350,140 @@ export class AdtRequest
       throw error;
     }
   }
+
+  /**
+   * Release a request or a task, and read what the release reported.
+   *
+   * Resolves with the parsed report whether or not the release happened — a
+   * release the checks stopped is an answer, not an error, and `released`,
+   * `errors` and `warnings` say which. It rejects only when there is no report
+   * to read.
+   *
+   * `ignoreLocks`, `ignoreWarnings` and `ignoreAtc` each select a different
+   * action, so at most one may be set.
+   */
+  async release(
+    transportNumber: string,
+    options?: ITransportReleaseOptions,
+  ): Promise<ITransportReleaseResult> {
+    if (!transportNumber) {
+      throw new Error('Transport request number is required');
+    }
+    const action = this.releaseAction(options);
+
+    try {
+      this.logger?.info?.('Releasing transport request:', transportNumber, {
+        action,
+      });
+      const response = await releaseTransport(
+        this.connection,
+        transportNumber,
+        action,
+      );
+      return parseTransportRelease(transportNumber, response.data);
+    } catch (error: unknown) {
+      this.logger?.error('Release failed:', safeErrorMessage(error));
+      throw error;
+    }
+  }
+
+  /** Hand a request or task to another user. */
+  async changeOwner(
+    transportNumber: string,
+    owner: string,
+  ): Promise<ITransportOwnerResult> {
+    if (!transportNumber) {
+      throw new Error('Transport request number is required');
+    }
+    if (!owner) {
+      throw new Error('New owner is required');
+    }
+
+    try {
+      this.logger?.info?.('Changing transport owner:', transportNumber, owner);
+      const response = await changeTransportOwner(
+        this.connection,
+        transportNumber,
+        owner,
+      );
+      return { transportNumber, owner, response };
+    } catch (error: unknown) {
+      this.logger?.error('Change owner failed:', safeErrorMessage(error));
+      throw error;
+    }
+  }
+
+  /**
+   * Add a task for `owner` to a request.
+   *
+   * `taskNumber` is read from the response when it names exactly one task for
+   * that owner; otherwise it is left out rather than guessed.
+   */
+  async addTask(
+    transportNumber: string,
+    owner: string,
+  ): Promise<ITransportTaskResult> {
+    if (!transportNumber) {
+      throw new Error('Transport request number is required');
+    }
+    if (!owner) {
+      throw new Error('Task owner is required');
+    }
+
+    try {
+      this.logger?.info?.('Adding transport task:', transportNumber, owner);
+      const response = await createTransportTask(
+        this.connection,
+        transportNumber,
+        owner,
+      );
+      return {
+        transportNumber,
+        owner,
+        taskNumber: parseNewTaskNumber(response.data, owner),
+        response,
+      };
+    } catch (error: unknown) {
+      this.logger?.error('Add task failed:', safeErrorMessage(error));
+      throw error;
+    }
+  }
+
+  /** Merge duplicate object entries across a request's tasks. */
+  async sortAndCompress(
+    transportNumber: string,
+  ): Promise<ITransportActionResult> {
+    if (!transportNumber) {
+      throw new Error('Transport request number is required');
+    }
+
+    try {
+      this.logger?.info?.('Sort and compress:', transportNumber);
+      const response = await sortAndCompressTransport(
+        this.connection,
+        transportNumber,
+      );
+      return { transportNumber, response };
+    } catch (error: unknown) {
+      this.logger?.error('Sort and compress failed:', safeErrorMessage(error));
+      throw error;
+    }
+  }
+
+  private releaseAction(
+    options?: ITransportReleaseOptions,
+  ): TransportReleaseAction {
+    const chosen: TransportReleaseAction[] = [];
+    if (options?.ignoreLocks) chosen.push('relwithignlock');
+    if (options?.ignoreWarnings) chosen.push('relwithignwarning');
+    if (options?.ignoreAtc) chosen.push('relObjigchkatc');
+    if (chosen.length > 1) {
+      const error = new AdtOperationError(
+        `ignoreLocks, ignoreWarnings and ignoreAtc each select a different release action (${chosen.join(', ')}); ADT offers no combination, so set at most one.`,
+      );
+      error.code = AdtObjectErrorCodes.VALIDATION_FAILED;
+      throw error;
+    }
+    return chosen[0] ?? 'newreleasejobs';
+  }
 }
@@ -14,6 +14,9 @@
  * - update, delete: Whether the legacy endpoint supports changing a description
  *   or deleting a request has never been captured. Both are refused rather than
  *   guessed against the modern `/sap/bc/adt/cts/transportrequests/<NR>` shape.
+ * - release, changeOwner, addTask, sortAndCompress: the action links they
+ *   follow were captured on a modern system's transport tree; no legacy
+ *   payload carrying them has been. Refused for the same reason.
  */
 
 import type {
@@ -26,7 +29,24 @@ import type {
 } from '@mcp-abap-adt/interfaces';
 import { AdtRequest } from './AdtRequest';
 import { getTransportLegacy, listTransportsLegacy } from './readLegacy';
-import type { ITransportConfig, ITransportState } from './types';
+import type {
+  ITransportActionResult,
+  ITransportConfig,
+  ITransportOwnerResult,
+  ITransportReleaseOptions,
+  ITransportReleaseResult,
+  ITransportState,
+  ITransportTaskResult,
+} from './types';
+
+function lifecycleUnsupported(action: string): Error {
+  return new Error(
+    `${action} is not supported on legacy SAP systems (BASIS < 7.50). ` +
+      'The action resources it uses were captured on modern systems only, and ' +
+      'the legacy /sap/bc/cts/transportrequests endpoint has never been seen to ' +
+      'offer them. Use SE01/SE09/SE10.',
+  );
+}
 
 export class AdtRequestLegacy extends AdtRequest {
   private readonly conn: IAbapConnection;
@@ -169,4 +189,35 @@ export class AdtRequestLegacy extends AdtRequest {
         'Use SE01/SE09/SE10 transaction to delete transports.',
     );
   }
+
+  /** Release — NOT supported on legacy systems (see the class comment). */
+  override async release(
+    _transportNumber: string,
+    _options?: ITransportReleaseOptions,
+  ): Promise<ITransportReleaseResult> {
+    throw lifecycleUnsupported('Releasing a transport request');
+  }
+
+  /** Change owner — NOT supported on legacy systems. */
+  override async changeOwner(
+    _transportNumber: string,
+    _owner: string,
+  ): Promise<ITransportOwnerResult> {
+    throw lifecycleUnsupported('Changing a transport owner');
+  }
+
+  /** Add task — NOT supported on legacy systems. */
+  override async addTask(
+    _transportNumber: string,
+    _owner: string,
+  ): Promise<ITransportTaskResult> {
+    throw lifecycleUnsupported('Adding a transport task');
+  }
+
+  /** Sort and compress — NOT supported on legacy systems. */
+  override async sortAndCompress(
+    _transportNumber: string,
+  ): Promise<ITransportActionResult> {
+    throw lifecycleUnsupported('Sort and compress');
+  }
 }
@@ -6,6 +6,13 @@ export { AdtRequest } from './AdtRequest';
 export { AdtRequestLegacy } from './AdtRequestLegacy';
 export type {
   IListTransportsParams,
+  ITransportActionResult,
   ITransportConfig,
+  ITransportOwnerResult,
+  ITransportReleaseMessage,
+  ITransportReleaseOptions,
+  ITransportReleaseReport,
+  ITransportReleaseResult,
   ITransportState,
+  ITransportTaskResult,
 } from './types';
@@ -0,0 +1,51 @@
+/**
+ * Transport request / task owner change
+ *
+ * Changing the owner is a `tm:useraction` on the item resource itself — the
+ * `changeowner` link of a request points at `/transportrequests/<NUMBER>`, not
+ * below it — so it is a PUT of a `tm:root` naming the action and the new
+ * owner, the same envelope `create.ts` sends with `newrequest`.
+ */
+
+import type { IAbapConnection, IAdtResponse } from '@mcp-abap-adt/interfaces';
+import {
+  ACCEPT_TRANSPORT_ACTION,
+  CT_TRANSPORT_ACTION,
+} from '../../constants/contentTypes';
+import { encodeSapObjectName } from '../../utils/internalUtils';
+import { getTimeout } from '../../utils/timeouts';
+import { escapeXmlAttr } from '../../utils/xml';
+
+/**
+ * Hand a request or task to another user.
+ *
+ * `PUT /sap/bc/adt/cts/transportrequests/<NUMBER>` with
+ * `tm:useraction="changeowner"`.
+ */
+export async function changeTransportOwner(
+  connection: IAbapConnection,
+  transportNumber: string,
+  owner: string,
+): Promise<IAdtResponse> {
+  if (!transportNumber) {
+    throw new Error('Transport request number is required');
+  }
+  if (!owner) {
+    throw new Error('owner is required');
+  }
+
+  const xml = `<?xml version="1.0" encoding="ASCII"?>
+<tm:root xmlns:tm="http://www.sap.com/cts/adt/tm" tm:number="${escapeXmlAttr(transportNumber)}" tm:targetuser="${escapeXmlAttr(owner)}" tm:useraction="changeowner"/>`;
+
+  const encodedNumber = encodeSapObjectName(transportNumber);
+  return connection.makeAdtRequest({
+    url: `/sap/bc/adt/cts/transportrequests/${encodedNumber}`,
+    method: 'PUT',
+    timeout: getTimeout('default'),
+    data: xml,
+    headers: {
+      'Content-Type': CT_TRANSPORT_ACTION,
+      Accept: ACCEPT_TRANSPORT_ACTION,
+    },
+  });
+}
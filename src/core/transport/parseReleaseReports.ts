@@ -0,0 +1,127 @@
+/**
+ * Parse what a release answers with into an {@link ITransportReleaseResult}.
+ *
+ * The answer is a `tm:root` holding `tm:releasereports`, and in it one
+ * `chkrun:checkReport` per party that had a say: the release itself, and each
+ * check the system ran first — the import check on the target, ATC, the
+ * object checks. Each report has a status and a `checkMessageList`.
+ *
+ * Reports are found by element NAME wherever they sit, for the reason
+ * `parseTransportTree.ts` gives: a path observed once is a path that returns
+ * nothing on the next system's nesting. Empty attributes are absent, not
+ * values.
+ */
+
+import { AdtOperationError } from '@mcp-abap-adt/interfaces';
+import { XMLParser } from 'fast-xml-parser';
+import type {
+  ITransportReleaseMessage,
+  ITransportReleaseReport,
+  ITransportReleaseResult,
+} from './types';
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  parseAttributeValue: false,
+});
+
+type Node = Record<string, unknown>;
+
+function asArray(value: unknown): Node[] {
+  if (value === undefined || value === null) return [];
+  return (Array.isArray(value) ? value : [value]).filter(
+    (v): v is Node => typeof v === 'object' && v !== null,
+  );
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+/** Every element named `name` anywhere below `root`, in document order. */
+function findAll(root: unknown, name: string): Node[] {
+  const found: Node[] = [];
+  const walk = (value: unknown) => {
+    for (const node of asArray(value)) {
+      for (const [key, child] of Object.entries(node)) {
+        if (key.startsWith('@_')) continue;
+        if (key === name) found.push(...asArray(child));
+        else walk(child);
+      }
+    }
+  };
+  walk(root);
+  return found;
+}
+
+const SEVERITY: Record<string, ITransportReleaseMessage['severity']> = {
+  E: 'error',
+  A: 'error',
+  X: 'error',
+  W: 'warning',
+  I: 'info',
+  S: 'info',
+};
+
+function messageOf(node: Node): ITransportReleaseMessage {
+  const type = text(node['@_type']) ?? '';
+  return {
+    type,
+    severity: SEVERITY[type.toUpperCase()] ?? 'error',
+    text: text(node['@_shortText']) ?? text(node['@_text']) ?? '',
+    uri: text(node['@_uri']),
+  };
+}
+
+function reportOf(node: Node): ITransportReleaseReport {
+  return {
+    reporter: text(node['@_reporter']) ?? '',
+    status: text(node['@_status']) ?? '',
+    statusText: text(node['@_statusText']),
+    triggeringUri: text(node['@_triggeringUri']),
+    messages: findAll(node, 'checkMessage').map(messageOf),
+  };
+}
+
+/**
+ * The release's reports, and the errors and warnings across them.
+ *
+ * Rejects a body that is not a `tm:root`: read as one it would hold no
+ * reports, and "no reports, not released" on a release that may well have
+ * happened is a guess the caller cannot tell from an answer.
+ */
+export function parseTransportRelease(
+  transportNumber: string,
+  body: unknown,
+): ITransportReleaseResult {
+  let document: Node | undefined;
+  if (typeof body === 'string' && body.trim() !== '') {
+    try {
+      document = parser.parse(body) as Node;
+    } catch {
+      document = undefined;
+    }
+  }
+  if (!document || !('root' in document)) {
+    const error = new AdtOperationError(
+      `Release of ${transportNumber}: the response is not a tm:root, so there is no release report to read. The release may or may not have happened; check the request's status.`,
+    );
+    error.code = 'TRANSPORT_RELEASE_UNREADABLE';
+    throw error;
+  }
+
+  const reports = findAll(document.root, 'checkReport').map(reportOf);
+  const messages = reports.flatMap((r) => r.messages);
+  return {
+    transportNumber,
+    // The checks report their own statuses; the release is the report that
+    // says `released`. One that aborted says something else.
+    released: reports.some((r) => r.status.toLowerCase() === 'released'),
+    reports,
+    errors: messages.filter((m) => m.severity === 'error'),
+    warnings: messages.filter((m) => m.severity === 'warning'),
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * Transport request / task release
+ *
+ * A request and a task are released the same way, through one of four action
+ * resources below the item — captured as links on every modifiable request in
+ * the transport tree (see `transportTree.noTargets.xml`):
+ *
+ * - `newreleasejobs` — release;
+ * - `relwithignlock` — release although objects are locked;
+ * - `relwithignwarning` — release although the transport check warned;
+ * - `relObjigchkatc` — release without the ATC check.
+ *
+ * The action is the whole instruction: the POST carries no body.
+ */
+
+import type { IAbapConnection, IAdtResponse } from '@mcp-abap-adt/interfaces';
+import { ACCEPT_TRANSPORT_ACTION } from '../../constants/contentTypes';
+import { encodeSapObjectName } from '../../utils/internalUtils';
+import { getTimeout } from '../../utils/timeouts';
+
+export type TransportReleaseAction =
+  | 'newreleasejobs'
+  | 'relwithignlock'
+  | 'relwithignwarning'
+  | 'relObjigchkatc';
+
+/**
+ * Release a transport request or task.
+ *
+ * `POST /sap/bc/adt/cts/transportrequests/<NUMBER>/<action>`. A release runs
+ * the checks the system is configured for before exporting, so it gets the
+ * long timeout.
+ */
+export async function releaseTransport(
+  connection: IAbapConnection,
+  transportNumber: string,
+  action: TransportReleaseAction = 'newreleasejobs',
+): Promise<IAdtResponse> {
+  if (!transportNumber) {
+    throw new Error('Transport request number is required');
+  }
+
+  const encodedNumber = encodeSapObjectName(transportNumber);
+  return connection.makeAdtRequest({
+    url: `/sap/bc/adt/cts/transportrequests/${encodedNumber}/${action}`,
+    method: 'POST',
+    timeout: getTimeout('long'),
+    headers: { Accept: ACCEPT_TRANSPORT_ACTION },
+  });
+}
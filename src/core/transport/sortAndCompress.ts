@@ -0,0 +1,35 @@
+/**
+ * Transport request sort and compress
+ *
+ * Merges duplicate object entries across a request's tasks — what SE09 calls
+ * "Sort and Compress". The request's `sortandcompress` link names the action
+ * resource; like a release, the action is the instruction and the POST
+ * carries no body.
+ */
+
+import type { IAbapConnection, IAdtResponse } from '@mcp-abap-adt/interfaces';
+import { ACCEPT_TRANSPORT_ACTION } from '../../constants/contentTypes';
+import { encodeSapObjectName } from '../../utils/internalUtils';
+import { getTimeout } from '../../utils/timeouts';
+
+/**
+ * Sort and compress a request.
+ *
+ * `POST /sap/bc/adt/cts/transportrequests/<NUMBER>/sortandcompress`.
+ */
+export async function sortAndCompressTransport(
+  connection: IAbapConnection,
+  transportNumber: string,
+): Promise<IAdtResponse> {
+  if (!transportNumber) {
+    throw new Error('Transport request number is required');
+  }
+
+  const encodedNumber = encodeSapObjectName(transportNumber);
+  return connection.makeAdtRequest({
+    url: `/sap/bc/adt/cts/transportrequests/${encodedNumber}/sortandcompress`,
+    method: 'POST',
+    timeout: getTimeout('default'),
+    headers: { Accept: ACCEPT_TRANSPORT_ACTION },
+  });
+}
@@ -0,0 +1,94 @@
+/**
+ * Transport task creation
+ *
+ * A request gets a task for another user through its `newtask` link,
+ * `/transportrequests/<NUMBER>/tasks` — a POST of the same `tm:root` envelope
+ * as the owner change, with `tm:useraction="newtask"`.
+ */
+
+import type { IAbapConnection, IAdtResponse } from '@mcp-abap-adt/interfaces';
+import { XMLParser } from 'fast-xml-parser';
+import {
+  ACCEPT_TRANSPORT_ACTION,
+  CT_TRANSPORT_ACTION,
+} from '../../constants/contentTypes';
+import { encodeSapObjectName } from '../../utils/internalUtils';
+import { getTimeout } from '../../utils/timeouts';
+import { escapeXmlAttr } from '../../utils/xml';
+
+/**
+ * Add a task owned by `owner` to a request.
+ *
+ * `POST /sap/bc/adt/cts/transportrequests/<NUMBER>/tasks`.
+ */
+export async function createTransportTask(
+  connection: IAbapConnection,
+  transportNumber: string,
+  owner: string,
+): Promise<IAdtResponse> {
+  if (!transportNumber) {
+    throw new Error('Transport request number is required');
+  }
+  if (!owner) {
+    throw new Error('owner is required');
+  }
+
+  const xml = `<?xml version="1.0" encoding="ASCII"?>
+<tm:root xmlns:tm="http://www.sap.com/cts/adt/tm" tm:number="${escapeXmlAttr(transportNumber)}" tm:targetuser="${escapeXmlAttr(owner)}" tm:useraction="newtask"/>`;
+
+  const encodedNumber = encodeSapObjectName(transportNumber);
+  return connection.makeAdtRequest({
+    url: `/sap/bc/adt/cts/transportrequests/${encodedNumber}/tasks`,
+    method: 'POST',
+    timeout: getTimeout('default'),
+    data: xml,
+    headers: {
+      'Content-Type': CT_TRANSPORT_ACTION,
+      Accept: ACCEPT_TRANSPORT_ACTION,
+    },
+  });
+}
+
+const taskParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseAttributeValue: false,
+});
+
+/**
+ * The number of the one task `owner` holds in a new-task response, or
+ * undefined when there is none or more than one — an owner who already had a
+ * task leaves two, and which is new the response does not say.
+ */
+export function parseNewTaskNumber(
+  body: unknown,
+  owner: string,
+): string | undefined {
+  if (typeof body !== 'string' || body.trim() === '') return undefined;
+  let parsed: unknown;
+  try {
+    parsed = taskParser.parse(body);
+  } catch {
+    return undefined;
+  }
+  const tasks: Record<string, unknown>[] = [];
+  const walk = (value: unknown) => {
+    if (Array.isArray(value)) return value.forEach(walk);
+    if (!value || typeof value !== 'object') return;
+    for (const [key, child] of Object.entries(value)) {
+      if (key === 'task') {
+        for (const t of Array.isArray(child) ? child : [child]) {
+          if (t && typeof t === 'object') tasks.push(t);
+        }
+      }
+      if (!key.startsWith('@_')) walk(child);
+    }
+  };
+  walk(parsed);
+  const mine = tasks.filter(
+    (t) => String(t['@_owner'] ?? '').toUpperCase() === owner.toUpperCase(),
+  );
+  const number = mine.length === 1 ? mine[0]['@_number'] : undefined;
+  return typeof number === 'string' && number !== '' ? number : undefined;
+}
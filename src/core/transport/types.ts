@@ -2,6 +2,8 @@
  * Transport module type definitions
  */
 
+import type { IAdtResponse } from '@mcp-abap-adt/interfaces';
+
 // Types defined in @mcp-abap-adt/interfaces
 export type {
   ICreateTransportParams,
@@ -9,3 +11,75 @@ export type {
   ITransportConfig,
   ITransportState,
 } from '@mcp-abap-adt/interfaces';
+
+/**
+ * Which release to run. At most one may be set: each names a different ADT
+ * action, and the server offers no combination of them.
+ */
+export interface ITransportReleaseOptions {
+  /** Release although objects in the request are still locked. */
+  ignoreLocks?: boolean;
+  /** Release although the transport check reported warnings. */
+  ignoreWarnings?: boolean;
+  /** Release without the ATC check the system would otherwise run. */
+  ignoreAtc?: boolean;
+}
+
+/** One message of a release report. */
+export interface ITransportReleaseMessage {
+  /** ADT's message type verbatim (`E`, `W`, `I`, …). */
+  type: string;
+  /**
+   * The type read: `E`, `A` and `X` are errors, `W` warnings, `I` and `S`
+   * information. A type not in that list counts as an error — a release log
+   * is read to decide whether to go on, and an unknown message is not a
+   * reason to.
+   */
+  severity: 'error' | 'warning' | 'info';
+  text: string;
+  /** The object the message is about, when it names one. */
+  uri?: string;
+}
+
+/** One report of a release: a check, or the release itself. */
+export interface ITransportReleaseReport {
+  /** Who reported (`transportrelease`, an import or ATC check, …). */
+  reporter: string;
+  /** The report's status verbatim — `released` for a release that happened. */
+  status: string;
+  statusText?: string;
+  triggeringUri?: string;
+  messages: ITransportReleaseMessage[];
+}
+
+export interface ITransportReleaseResult {
+  transportNumber: string;
+  /** True only when a report says `released` — absent that, it was not. */
+  released: boolean;
+  reports: ITransportReleaseReport[];
+  /** Every error message across reports, in order. */
+  errors: ITransportReleaseMessage[];
+  /** Every warning message across reports, in order. */
+  warnings: ITransportReleaseMessage[];
+}
+
+/** Outcome of an action on a request or task that changes who holds it. */
+export interface ITransportOwnerResult {
+  transportNumber: string;
+  owner: string;
+  response: IAdtResponse;
+}
+
+export interface ITransportTaskResult {
+  /** The request the task was added to. */
+  transportNumber: string;
+  owner: string;
+  /** The new task's number, when the response names a task for `owner`. */
+  taskNumber?: string;
+  response: IAdtResponse;
+}
+
+export interface ITransportActionResult {
+  transportNumber: string;
+  response: IAdtResponse;
+}
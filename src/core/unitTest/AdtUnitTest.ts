@@ -12,6 +12,7 @@
  * | `read`/`update`/`delete`/`validate` | the include of a class that already exists |
  * | `lock`/`unlock` | the container class, which is what ADT locks |
  * | `run` | a run, any number of times, needing no CRUD call at all |
+ * | `getCoverage` | what a run started with `coverage: true` measured |
  *
  * The container need not be the class under test: tests can live in a separate
  * class written for the purpose, which is what the CDS flavour does because a
@@ -43,14 +44,42 @@ import {
 } from '../../utils/internalUtils';
 import { AdtClass, AdtLocalTestClass } from '../class';
 import { getClassUnitTestResult, getClassUnitTestStatus } from '../class/run';
-import { startClassUnitTestRun } from './run';
+import { runPackageInChunks, sleepUnlessAborted } from '../shared/packageRun';
+import type { IPackageObject } from '../shared/types';
+import { getCoverageMeasurement, getCoverageStatements } from './coverage';
+import {
+  buildCoverageReport,
+  parseCoverageMeasurement,
+  parseCoverageMeasurementId,
+} from './parseCoverage';
+import { parseUnitTestRunResult, parseUnitTestRunStatus } from './parseResult';
+import {
+  startClassUnitTestRun,
+  startUnitTestRunForObjects,
+  unitTestObjectTypeOf,
+} from './run';
 import type {
   IClassUnitTestDefinition,
-  IClassUnitTestRunOptions,
+  ICoverageReport,
   IUnitTestConfig,
+  IUnitTestCoverageReadable,
+  IUnitTestPackageRunnable,
+  IUnitTestPackageRunOptions,
+  IUnitTestPackageRunResult,
+  IUnitTestRunOptions,
+  IUnitTestRunResult,
   IUnitTestState,
 } from './types';
 
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+const DEFAULT_MAX_POLL_DURATION_MS = 10 * 60 * 1000;
+
+/** One chunk of a package run: its run id and what it reported. */
+export interface IUnitTestChunkRun {
+  runId: string;
+  result: IUnitTestRunResult;
+}
+
 export class AdtUnitTest
   implements
     IAdtCreatable<IUnitTestConfig, IUnitTestState>,
@@ -59,8 +88,10 @@ export class AdtUnitTest
     IAdtDeletable<IUnitTestConfig, IUnitTestState>,
     IAdtValidatable<IUnitTestConfig, IUnitTestState>,
     IAdtLockable<IUnitTestConfig, IUnitTestState>,
-    IAdtRunnable<IClassUnitTestDefinition[], string, IClassUnitTestRunOptions>,
-    ITestRunInformation
+    IAdtRunnable<IClassUnitTestDefinition[], string, IUnitTestRunOptions>,
+    ITestRunInformation,
+    IUnitTestCoverageReadable,
+    IUnitTestPackageRunnable
 {
   protected readonly connection: IAbapConnection;
   protected readonly logger?: ILogger;
@@ -304,11 +335,12 @@ export class AdtUnitTest
    * Run the tests, and return the run's id.
    *
    * Needs no `create` and no `update`: the tests may have been in the class for
-   * years. Ask about the run through {@link getStatus} and {@link getResult}.
+   * years. Ask about the run through {@link getStatus} and {@link getResult},
+   * and — when it was started with `coverage: true` — {@link getCoverage}.
    */
   async run(
     tests: IClassUnitTestDefinition[],
-    options?: IClassUnitTestRunOptions,
+    options?: IUnitTestRunOptions,
   ): Promise<string> {
     if (!tests || tests.length === 0) {
       throw new Error('At least one test definition is required');
@@ -382,6 +414,152 @@ export class AdtUnitTest
     return this.lastResultResponse;
   }
 
+  /**
+   * Read the coverage of a finished run that was started with `coverage: true`.
+   *
+   * A run that was not measured rejects with `UNIT_TEST_NO_COVERAGE` rather
+   * than resolving with an empty report: a report of zero classes reads like a
+   * run that covered nothing, and a pipeline gating on it would fail for the
+   * wrong reason — or, gating on a minimum per class, pass for one.
+   */
+  async getCoverage(runId: string): Promise<ICoverageReport> {
+    const result = await this.getResult(runId);
+    const measurementId = parseCoverageMeasurementId(result.data);
+    if (!measurementId) {
+      const error = new AdtOperationError(
+        `Unit test run ${runId} carries no coverage measurement. Start the run with coverage: true to measure it.`,
+      );
+      error.code = 'UNIT_TEST_NO_COVERAGE';
+      throw error;
+    }
+
+    const measurement = await getCoverageMeasurement(
+      this.connection,
+      measurementId,
+    );
+    const methodUris = parseCoverageMeasurement(measurement.data)
+      .classes.flatMap((c) => c.methods)
+      .map((m) => m.uri)
+      .filter((uri): uri is string => !!uri);
+
+    // No methods, no lines to ask about: the statements read is skipped
+    // rather than sent empty.
+    const statements = methodUris.length
+      ? await getCoverageStatements(this.connection, measurementId, methodUris)
+      : undefined;
+
+    return buildCoverageReport(
+      measurementId,
+      measurement.data,
+      statements?.data,
+    );
+  }
+
+  /**
+   * Run every test in a package: its classes, programs and function groups,
+   * and its subpackages' unless told not to, in chunks run one after the
+   * other. Each chunk's run is waited for and read; the result holds the
+   * programs of all of them.
+   */
+  async runPackage(
+    packageName: string,
+    options?: IUnitTestPackageRunOptions,
+  ): Promise<IUnitTestPackageRunResult> {
+    if (!packageName?.trim()) {
+      const error = new AdtOperationError(
+        'An ABAP Unit package run needs a package name.',
+      );
+      error.code = AdtObjectErrorCodes.VALIDATION_FAILED;
+      throw error;
+    }
+    const runOptions = {
+      ...options,
+      title: options?.title ?? packageName.toUpperCase(),
+    };
+
+    const { objects, skipped, results } = await runPackageInChunks(
+      this.connection,
+      packageName,
+      options,
+      this.logger,
+      (object) => unitTestObjectTypeOf(object.kind) !== undefined,
+      (chunk) => this.runChunk(packageName.toUpperCase(), chunk, runOptions),
+    );
+
+    return {
+      packageName: packageName.toUpperCase(),
+      objects,
+      skipped,
+      runIds: results.map((chunk) => chunk.runId),
+      result: { programs: results.flatMap((chunk) => chunk.result.programs) },
+    };
+  }
+
+  /** One chunk of a package run: started, waited for, read. */
+  protected async runChunk(
+    packageName: string,
+    chunk: IPackageObject[],
+    options: IUnitTestPackageRunOptions,
+  ): Promise<IUnitTestChunkRun> {
+    const response = await startUnitTestRunForObjects(
+      this.connection,
+      chunk.map((object) => ({
+        name: object.name,
+        type: unitTestObjectTypeOf(object.kind) as string,
+      })),
+      options,
+    );
+    const runId = this.extractRunId(response);
+    if (!runId) {
+      const failed = new AdtOperationError(
+        `Failed to start unit test run over package ${packageName}: run ID not returned`,
+      );
+      failed.code = AdtObjectErrorCodes.CREATE_FAILED;
+      throw failed;
+    }
+
+    await this.waitForRun(packageName, runId, options);
+    const result = await getClassUnitTestResult(this.connection, runId);
+    return { runId, result: parseUnitTestRunResult(result.data) };
+  }
+
+  /**
+   * Poll a run until its status is `FINISHED`. A status that cannot be read
+   * fails rather than being taken for "not yet", which would poll until the
+   * deadline, and the deadline fails rather than reading a result half made.
+   */
+  private async waitForRun(
+    packageName: string,
+    runId: string,
+    options: IUnitTestPackageRunOptions,
+  ): Promise<void> {
+    const interval = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    const maxDuration =
+      options.maxPollDurationMs ?? DEFAULT_MAX_POLL_DURATION_MS;
+    const deadline = Date.now() + maxDuration;
+
+    while (true) {
+      const response = await getClassUnitTestStatus(this.connection, runId);
+      const status = parseUnitTestRunStatus(response.data);
+      if (!status) {
+        const error = new AdtOperationError(
+          `Unit test run ${runId}: the status document carried no status, so there is no telling when the run is done.`,
+        );
+        error.code = 'UNIT_TEST_RUN_STATUS_MISSING';
+        throw error;
+      }
+      if (status === 'FINISHED') return;
+      if (Date.now() > deadline) {
+        const error = new AdtOperationError(
+          `Unit test run ${runId} was still ${status} after ${maxDuration}ms.`,
+        );
+        error.code = 'UNIT_TEST_RUN_TIMEOUT';
+        throw error;
+      }
+      await sleepUnlessAborted(interval, options.signal, packageName);
+    }
+  }
+
   /**
    * Extract run ID from unit test run response
    */
@@ -16,11 +16,18 @@
 
 import type { IAdtResponse } from '@mcp-abap-adt/interfaces';
 import { safeErrorMessage } from '../../utils/internalUtils';
-import { AdtUnitTest } from './AdtUnitTest';
-import { startClassUnitTestRunLegacy } from './runLegacy';
+import type { IPackageObject } from '../shared/types';
+import { AdtUnitTest, type IUnitTestChunkRun } from './AdtUnitTest';
+import { parseUnitTestRunResult } from './parseResult';
+import { unitTestObjectTypeOf } from './run';
+import {
+  startClassUnitTestRunLegacy,
+  startUnitTestRunForObjectsLegacy,
+} from './runLegacy';
 import type {
   IClassUnitTestDefinition,
-  IClassUnitTestRunOptions,
+  IUnitTestPackageRunOptions,
+  IUnitTestRunOptions,
 } from './types';
 
 /** Synthetic run ID for legacy synchronous results */
@@ -34,7 +41,7 @@ export class AdtUnitTestLegacy extends AdtUnitTest {
    */
   override async run(
     tests: IClassUnitTestDefinition[],
-    options?: IClassUnitTestRunOptions,
+    options?: IUnitTestRunOptions,
   ): Promise<string> {
     if (!tests || tests.length === 0) {
       throw new Error('At least one test definition is required');
@@ -64,6 +71,30 @@ export class AdtUnitTestLegacy extends AdtUnitTest {
     }
   }
 
+  /**
+   * One chunk of a package run. The result comes back with the POST, as in
+   * {@link run}, so there is nothing to wait for — and nothing the signal
+   * can interrupt once the chunk is sent. The run configuration carries no
+   * scope, risk level or duration, so the run options have nowhere to go.
+   */
+  protected override async runChunk(
+    _packageName: string,
+    chunk: IPackageObject[],
+    _options: IUnitTestPackageRunOptions,
+  ): Promise<IUnitTestChunkRun> {
+    const response = await startUnitTestRunForObjectsLegacy(
+      this.connection,
+      chunk.map((object) => ({
+        name: object.name,
+        type: unitTestObjectTypeOf(object.kind) as string,
+      })),
+    );
+    return {
+      runId: LEGACY_SYNC_RUN_ID,
+      result: parseUnitTestRunResult(response.data),
+    };
+  }
+
   /**
    * Status of a run — the response the run itself returned, since a legacy
    * system finishes before it answers and exposes nothing to poll.
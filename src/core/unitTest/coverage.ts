@@ -0,0 +1,71 @@
+/**
+ * ABAP Unit coverage: the two reads a measured run is reported through.
+ *
+ * A run started with `coverage: true` answers with the same result document as
+ * any other, plus a link to a measurement. The measurement is read twice: once
+ * for the counters of every node in it (program, class, method), once for the
+ * statements of the methods that ran, which is where line numbers come from.
+ */
+
+import type { IAbapConnection, IAdtResponse } from '@mcp-abap-adt/interfaces';
+import {
+  ACCEPT_COVERAGE,
+  CT_COVERAGE_QUERY,
+} from '../../constants/contentTypes';
+import { getTimeout } from '../../utils/timeouts';
+import { escapeXmlAttr } from '../../utils/xml';
+
+const COVERAGE = '/sap/bc/adt/runtime/traces/coverage';
+
+/** The counters of every node in a measurement. */
+export async function getCoverageMeasurement(
+  connection: IAbapConnection,
+  measurementId: string,
+): Promise<IAdtResponse> {
+  if (!measurementId) {
+    throw new Error('measurementId is required');
+  }
+  return connection.makeAdtRequest({
+    url: `${COVERAGE}/measurements/${encodeURIComponent(measurementId)}`,
+    method: 'POST',
+    timeout: getTimeout('long'),
+    data:
+      '<?xml version="1.0" encoding="UTF-8"?>' +
+      '<cov:query xmlns:cov="http://www.sap.com/adt/cov"/>',
+    headers: {
+      'Content-Type': CT_COVERAGE_QUERY,
+      Accept: ACCEPT_COVERAGE,
+    },
+  });
+}
+
+/**
+ * The statements of the given nodes, each with how often it ran.
+ *
+ * One request for all of them: a class with forty methods is one round trip,
+ * not forty.
+ */
+export async function getCoverageStatements(
+  connection: IAbapConnection,
+  measurementId: string,
+  nodeUris: readonly string[],
+): Promise<IAdtResponse> {
+  if (!measurementId) {
+    throw new Error('measurementId is required');
+  }
+  const requests = nodeUris
+    .map((uri) => `<cov:statementsRequest get="${escapeXmlAttr(uri)}"/>`)
+    .join('');
+  return connection.makeAdtRequest({
+    url: `${COVERAGE}/results/${encodeURIComponent(measurementId)}/statements`,
+    method: 'POST',
+    timeout: getTimeout('long'),
+    data:
+      '<?xml version="1.0" encoding="UTF-8"?>' +
+      `<cov:statementsBulkRequest xmlns:cov="http://www.sap.com/adt/cov">${requests}</cov:statementsBulkRequest>`,
+    headers: {
+      'Content-Type': CT_COVERAGE_QUERY,
+      Accept: ACCEPT_COVERAGE,
+    },
+  });
+}
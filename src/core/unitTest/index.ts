@@ -8,4 +8,27 @@ export type { ICdsUnitTestConfig, ICdsUnitTestState } from './AdtCdsUnitTest';
 export { AdtCdsUnitTest } from './AdtCdsUnitTest';
 export { AdtUnitTest } from './AdtUnitTest';
 export { AdtUnitTestLegacy } from './AdtUnitTestLegacy';
-export type { IUnitTestConfig, IUnitTestState } from './types';
+export { type IJUnitExportOptions, unitTestResultToJUnit } from './junit';
+export { parseUnitTestRunResult } from './parseResult';
+export type {
+  IClassCoverage,
+  ICoverageCounter,
+  ICoverageReport,
+  ICoverageTotals,
+  IIncludeCoverage,
+  ILineRange,
+  IMethodCoverage,
+  IUnitTestAlert,
+  IUnitTestClassResult,
+  IUnitTestConfig,
+  IUnitTestCoverageReadable,
+  IUnitTestMethodResult,
+  IUnitTestPackageRunnable,
+  IUnitTestPackageRunOptions,
+  IUnitTestPackageRunResult,
+  IUnitTestProgramResult,
+  IUnitTestRunOptions,
+  IUnitTestRunResult,
+  IUnitTestStackEntry,
+  IUnitTestState,
+} from './types';
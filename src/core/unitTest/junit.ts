@@ -0,0 +1,195 @@
+/**
+ * An ABAP Unit run result as JUnit XML, the format CI servers read natively.
+ *
+ * One `<testsuite>` per test class, one `<testcase>` per test method. Alerts
+ * become what JUnit has for them:
+ *
+ * - a failed assertion is a `<failure>` — the test ran and was wrong;
+ * - anything else critical or fatal (an exception, a timeout) is an `<error>`
+ *   — the test could not finish;
+ * - a tolerable alert fails nothing and goes to `<system-out>`, so it is read
+ *   rather than counted.
+ *
+ * An alert raised on a class or program, outside any method, gets a testcase
+ * of its own named `(class)` or `(program)`. Dropping it would turn a
+ * `class_setup` that dumped into a suite with no failures.
+ *
+ * `file` and `line` on a testcase point at the first stack frame of its first
+ * failing alert, or at the method when nothing failed. Paths follow
+ * {@link resolveSourcePosition}; a frame that maps to no file leaves both off.
+ */
+
+import {
+  type ISourceMappingOptions,
+  resolveSourcePosition,
+} from '../../utils/sourcePosition';
+import { escapeXmlAttr } from '../../utils/xml';
+import { parseUnitTestRunResult } from './parseResult';
+import type { IUnitTestAlert, IUnitTestRunResult } from './types';
+
+export interface IJUnitExportOptions extends ISourceMappingOptions {
+  /** `name` of the `<testsuites>` root. Defaults to `ABAP Unit`. */
+  name?: string;
+}
+
+const TOLERABLE = new Set(['tolerable', 'tolerant']);
+
+function isFailing(alert: IUnitTestAlert): boolean {
+  return !TOLERABLE.has(alert.severity.toLowerCase());
+}
+
+function isAssertion(alert: IUnitTestAlert): boolean {
+  return alert.kind === 'failedAssertion';
+}
+
+function alertText(alert: IUnitTestAlert): string {
+  return [
+    alert.title,
+    ...alert.details,
+    ...alert.stack.map((s) => `  at ${s.description ?? s.name ?? s.uri}`),
+  ].join('\n');
+}
+
+interface ICase {
+  classname: string;
+  name: string;
+  time?: number;
+  uri?: string;
+  alerts: IUnitTestAlert[];
+}
+
+interface ISuite {
+  name: string;
+  cases: ICase[];
+}
+
+function suitesOf(result: IUnitTestRunResult): ISuite[] {
+  const suites: ISuite[] = [];
+  for (const program of result.programs) {
+    if (program.alerts.length) {
+      suites.push({
+        name: program.name,
+        cases: [
+          {
+            classname: program.name,
+            name: '(program)',
+            uri: program.uri,
+            alerts: program.alerts,
+          },
+        ],
+      });
+    }
+    for (const cls of program.classes) {
+      const classname = `${program.name}.${cls.name}`;
+      const cases: ICase[] = cls.methods.map((m) => ({
+        classname,
+        name: m.name,
+        time: m.executionTime,
+        uri: m.uri,
+        alerts: m.alerts,
+      }));
+      if (cls.alerts.length) {
+        cases.unshift({
+          classname,
+          name: '(class)',
+          uri: cls.uri,
+          alerts: cls.alerts,
+        });
+      }
+      suites.push({ name: classname, cases });
+    }
+  }
+  return suites;
+}
+
+function outcomeOf(c: ICase): 'error' | 'failure' | undefined {
+  const failing = c.alerts.filter(isFailing);
+  if (failing.length === 0) return undefined;
+  return failing.every(isAssertion) ? 'failure' : 'error';
+}
+
+function seconds(value: number): string {
+  return value.toFixed(3);
+}
+
+function testcaseXml(c: ICase, options: ISourceMappingOptions): string {
+  const failing = c.alerts.filter(isFailing);
+  const tolerated = c.alerts.filter((a) => !isFailing(a));
+  const where = failing[0]?.stack[0]?.uri ?? c.uri;
+  const position = where ? resolveSourcePosition(where, options) : {};
+
+  const attrs = [
+    `classname="${escapeXmlAttr(c.classname)}"`,
+    `name="${escapeXmlAttr(c.name)}"`,
+    `time="${seconds(c.time ?? 0)}"`,
+  ];
+  if (position.path) {
+    attrs.push(`file="${escapeXmlAttr(position.path)}"`);
+    if (position.line !== undefined) attrs.push(`line="${position.line}"`);
+  }
+
+  const body: string[] = [];
+  const outcome = outcomeOf(c);
+  if (outcome) {
+    // The element names the worst outcome; its text carries every failing
+    // alert, since JUnit readers show one element per testcase.
+    const first =
+      outcome === 'error'
+        ? (failing.find((a) => !isAssertion(a)) as IUnitTestAlert)
+        : failing[0];
+    body.push(
+      `      <${outcome} type="${escapeXmlAttr(first.kind)}" message="${escapeXmlAttr(first.title)}">${escapeXmlAttr(failing.map(alertText).join('\n\n'))}</${outcome}>`,
+    );
+  }
+  if (tolerated.length) {
+    body.push(
+      `      <system-out>${escapeXmlAttr(tolerated.map(alertText).join('\n\n'))}</system-out>`,
+    );
+  }
+
+  const open = `    <testcase ${attrs.join(' ')}`;
+  return body.length
+    ? `${open}>\n${body.join('\n')}\n    </testcase>`
+    : `${open}/>`;
+}
+
+/**
+ * JUnit XML for a run result, parsed or as the `runResult` body
+ * {@link AdtUnitTest.getResult} returns.
+ */
+export function unitTestResultToJUnit(
+  result: IUnitTestRunResult | string,
+  options: IJUnitExportOptions = {},
+): string {
+  const parsed =
+    typeof result === 'string' ? parseUnitTestRunResult(result) : result;
+  const suites = suitesOf(parsed);
+
+  let tests = 0;
+  let failures = 0;
+  let errors = 0;
+  let time = 0;
+  const suiteXml = suites.map((suite) => {
+    const outcomes = suite.cases.map(outcomeOf);
+    const suiteFailures = outcomes.filter((o) => o === 'failure').length;
+    const suiteErrors = outcomes.filter((o) => o === 'error').length;
+    const suiteTime = suite.cases.reduce((sum, c) => sum + (c.time ?? 0), 0);
+    tests += suite.cases.length;
+    failures += suiteFailures;
+    errors += suiteErrors;
+    time += suiteTime;
+    return [
+      `  <testsuite name="${escapeXmlAttr(suite.name)}" tests="${suite.cases.length}" failures="${suiteFailures}" errors="${suiteErrors}" skipped="0" time="${seconds(suiteTime)}">`,
+      ...suite.cases.map((c) => testcaseXml(c, options)),
+      '  </testsuite>',
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXmlAttr(options.name ?? 'ABAP Unit')}" tests="${tests}" failures="${failures}" errors="${errors}" time="${seconds(time)}">`,
+    ...suiteXml,
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,250 @@
+/**
+ * Reading a coverage measurement into an {@link ICoverageReport}.
+ *
+ * **By element name, not by path.** The measurement is a tree — program or
+ * class pool, then classes, then their methods — and how deep a class sits
+ * depends on what held it: a global class is near the top, a local test class
+ * one level further down inside its program. So a class is recognised by what
+ * it contains (procedures, which contain nothing), not by where it was found.
+ *
+ * `removeNSPrefix` drops the prefixes so `cov:node` and `node` are the same
+ * element; `parseAttributeValue: false` keeps counts as strings until they are
+ * read on purpose, so a malformed one is refused rather than becoming `NaN`.
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+import type {
+  IClassCoverage,
+  ICoverageCounter,
+  ICoverageReport,
+  ICoverageTotals,
+  IIncludeCoverage,
+  ILineRange,
+} from './types';
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  parseAttributeValue: false,
+});
+
+type Node = Record<string, unknown>;
+
+function parseXml(body: unknown): Node | null {
+  if (typeof body !== 'string' || body.trim() === '') return null;
+  try {
+    return parser.parse(body) as Node;
+  } catch {
+    return null;
+  }
+}
+
+function asArray(value: unknown): Node[] {
+  if (value === undefined || value === null) return [];
+  return (Array.isArray(value) ? value : [value]).filter(
+    (v): v is Node => typeof v === 'object' && v !== null,
+  );
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+function count(value: unknown): number | undefined {
+  const raw = text(value);
+  if (raw === undefined || !/^\d+$/.test(raw.trim())) return undefined;
+  return Number(raw.trim());
+}
+
+/** Every element named `name` anywhere below `root`, in document order. */
+function findAll(root: unknown, name: string): Node[] {
+  const found: Node[] = [];
+  const walk = (value: unknown) => {
+    for (const node of asArray(value)) {
+      for (const [key, child] of Object.entries(node)) {
+        if (key.startsWith('@_')) continue;
+        if (key === name) found.push(...asArray(child));
+        walk(child);
+      }
+    }
+  };
+  walk(root);
+  return found;
+}
+
+/**
+ * The measurement id a covered run's result links to, or null.
+ *
+ * The link is an attribute on a `coverage` element. Rather than pin one
+ * attribute name and report "not measured" on a system that spells it
+ * differently, every attribute is tried and the one pointing at a measurement
+ * wins.
+ */
+export function parseCoverageMeasurementId(body: unknown): string | null {
+  for (const coverage of findAll(parseXml(body), 'coverage')) {
+    for (const [key, value] of Object.entries(coverage)) {
+      if (!key.startsWith('@_') || typeof value !== 'string') continue;
+      const match = value.match(/\/coverage\/measurements\/([^/?#]+)/);
+      if (match) return decodeURIComponent(match[1]);
+    }
+  }
+  return null;
+}
+
+function counter(total: number, executed: number): ICoverageCounter {
+  return {
+    total,
+    executed,
+    percent:
+      total > 0 ? Math.round((executed / total) * 10000) / 100 : undefined,
+  };
+}
+
+/** A node's own counters — its `coverages` child, not its descendants'. */
+function totalsOf(node: Node): ICoverageTotals {
+  const totals: ICoverageTotals = {};
+  for (const entry of asArray((node.coverages as Node | undefined)?.coverage)) {
+    const type = text(entry['@_type'])?.toLowerCase();
+    const total = count(entry['@_total']);
+    const executed = count(entry['@_executed']);
+    if (total === undefined || executed === undefined) continue;
+    if (type === 'statement' || type === 'branch' || type === 'procedure') {
+      totals[type] = counter(total, executed);
+    }
+  }
+  return totals;
+}
+
+function childrenOf(node: Node): Node[] {
+  return asArray((node.nodes as Node | undefined)?.node);
+}
+
+/** A node whose children are all leaves: a class, and its methods. */
+function collectClasses(nodes: Node[], into: IClassCoverage[]): void {
+  for (const node of nodes) {
+    const children = childrenOf(node);
+    if (children.length === 0) continue;
+    if (children.every((c) => childrenOf(c).length === 0)) {
+      into.push({
+        name: text(node['@_name']) ?? '',
+        type: text(node['@_type']),
+        uri: text(node['@_uri']),
+        coverage: totalsOf(node),
+        methods: children.map((m) => ({
+          name: text(m['@_name']) ?? '',
+          type: text(m['@_type']),
+          uri: text(m['@_uri']),
+          coverage: totalsOf(m),
+        })),
+      });
+    } else {
+      collectClasses(children, into);
+    }
+  }
+}
+
+export interface IParsedCoverageMeasurement {
+  totals: ICoverageTotals;
+  classes: IClassCoverage[];
+}
+
+/** The measurement's counters: its own totals, and every class in it. */
+export function parseCoverageMeasurement(
+  body: unknown,
+): IParsedCoverageMeasurement {
+  const root = parseXml(body)?.result as Node | undefined;
+  if (!root) return { totals: {}, classes: [] };
+  const classes: IClassCoverage[] = [];
+  collectClasses(childrenOf(root), classes);
+  return { totals: totalsOf(root), classes };
+}
+
+export interface IParsedCoverageStatement {
+  /** The include the statement is in — the URI without its fragment. */
+  includeUri: string;
+  line: number;
+  executed: number;
+}
+
+/**
+ * Every statement in a bulk statements response.
+ *
+ * The line is the `start` of the URI fragment (`#start=12,4;end=12,20`). A
+ * statement whose URI carries no position cannot be placed on a line and is
+ * left out rather than pinned to line 0.
+ */
+export function parseCoverageStatements(
+  body: unknown,
+): IParsedCoverageStatement[] {
+  const statements: IParsedCoverageStatement[] = [];
+  for (const statement of findAll(parseXml(body), 'statement')) {
+    const uri = text(statement['@_uri']);
+    const executed = count(statement['@_executed']);
+    if (!uri || executed === undefined) continue;
+    const [includeUri, fragment = ''] = uri.split('#');
+    const start = fragment.match(/(?:^|;)start=(\d+)/);
+    if (!start) continue;
+    statements.push({ includeUri, line: Number(start[1]), executed });
+  }
+  return statements;
+}
+
+/**
+ * Group statements into covered and uncovered line ranges, per include.
+ *
+ * A line is covered if any statement starting on it ran. Neighbouring statement
+ * lines of the same state merge into one range, so lines between them that
+ * hold no statement fall inside it: a range describes a stretch of code, not a
+ * list of lines.
+ */
+export function buildIncludeCoverage(
+  statements: readonly IParsedCoverageStatement[],
+): IIncludeCoverage[] {
+  const byInclude = new Map<string, Map<number, boolean>>();
+  for (const s of statements) {
+    let lines = byInclude.get(s.includeUri);
+    if (!lines) {
+      lines = new Map();
+      byInclude.set(s.includeUri, lines);
+    }
+    lines.set(s.line, (lines.get(s.line) ?? false) || s.executed > 0);
+  }
+
+  const includes: IIncludeCoverage[] = [];
+  for (const [uri, lines] of byInclude) {
+    const covered: ILineRange[] = [];
+    const uncovered: ILineRange[] = [];
+    let current: { range: ILineRange; ran: boolean } | undefined;
+    for (const line of [...lines.keys()].sort((a, b) => a - b)) {
+      const ran = lines.get(line) as boolean;
+      if (current && current.ran === ran) {
+        current.range.end = line;
+        continue;
+      }
+      current = { range: { start: line, end: line }, ran };
+      (ran ? covered : uncovered).push(current.range);
+    }
+    includes.push({ uri, covered, uncovered });
+  }
+  return includes;
+}
+
+/** Assemble the report from the two reads. */
+export function buildCoverageReport(
+  measurementId: string,
+  measurementBody: unknown,
+  statementsBody?: unknown,
+): ICoverageReport {
+  const { totals, classes } = parseCoverageMeasurement(measurementBody);
+  return {
+    measurementId,
+    totals,
+    classes,
+    includes:
+      statementsBody === undefined
+        ? []
+        : buildIncludeCoverage(parseCoverageStatements(statementsBody)),
+  };
+}
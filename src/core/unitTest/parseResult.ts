@@ -0,0 +1,189 @@
+/**
+ * Reading an ABAP Unit `runResult` into an {@link IUnitTestRunResult}.
+ *
+ * The document nests programs, test classes and test methods, and alerts may
+ * hang off any of the three: a method's failed assertion, a class whose
+ * `class_setup` dumped before any method ran, a program that could not be
+ * generated. Each level keeps its own alerts — folding a class's alert into
+ * its methods would report tests as failed that never started.
+ *
+ * `removeNSPrefix` drops the prefixes so `aunit:program` and `program` are
+ * the same element, and `adtcore:name` is read as `name`.
+ */
+
+import { AdtOperationError } from '@mcp-abap-adt/interfaces';
+import { XMLParser } from 'fast-xml-parser';
+import type {
+  IUnitTestAlert,
+  IUnitTestClassResult,
+  IUnitTestMethodResult,
+  IUnitTestProgramResult,
+  IUnitTestRunResult,
+  IUnitTestStackEntry,
+} from './types';
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  parseAttributeValue: false,
+});
+
+type Node = Record<string, unknown>;
+
+function parseXml(body: unknown): Node | null {
+  if (typeof body !== 'string' || body.trim() === '') return null;
+  try {
+    return parser.parse(body) as Node;
+  } catch {
+    return null;
+  }
+}
+
+function asArray(value: unknown): Node[] {
+  if (value === undefined || value === null) return [];
+  return (Array.isArray(value) ? value : [value]).filter(
+    (v): v is Node => typeof v === 'object' && v !== null,
+  );
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+/** `<title>` arrives as a string, or as an object when it has attributes. */
+function elementText(value: unknown): string | undefined {
+  if (typeof value === 'string') return text(value);
+  if (value && typeof value === 'object') {
+    return text((value as Node)['#text']);
+  }
+  return undefined;
+}
+
+/** Every `detail/@text`, nested ones after their parent, in document order. */
+function detailTexts(details: unknown, into: string[] = []): string[] {
+  for (const detail of asArray((details as Node | undefined)?.detail)) {
+    const line = text(detail['@_text']);
+    if (line) into.push(line);
+    detailTexts(detail.details, into);
+  }
+  return into;
+}
+
+function stackOf(alert: Node): IUnitTestStackEntry[] {
+  const entries = asArray((alert.stack as Node | undefined)?.stackEntry);
+  return entries.flatMap((entry) => {
+    const uri = text(entry['@_uri']);
+    if (!uri) return [];
+    return [
+      {
+        uri,
+        name: text(entry['@_name']),
+        description: text(entry['@_description']),
+      },
+    ];
+  });
+}
+
+function alertsOf(node: Node): IUnitTestAlert[] {
+  return asArray((node.alerts as Node | undefined)?.alert).map((alert) => ({
+    kind: text(alert['@_kind']) ?? '',
+    severity: text(alert['@_severity']) ?? '',
+    title: elementText(alert.title) ?? '',
+    details: detailTexts(alert.details),
+    stack: stackOf(alert),
+  }));
+}
+
+function seconds(value: unknown): number | undefined {
+  const raw = text(value)?.trim();
+  if (raw === undefined || !/^\d+(\.\d+)?$/.test(raw)) return undefined;
+  return Number(raw);
+}
+
+function methodOf(node: Node): IUnitTestMethodResult {
+  return {
+    name: text(node['@_name']) ?? '',
+    uri: text(node['@_uri']),
+    executionTime: seconds(node['@_executionTime']),
+    alerts: alertsOf(node),
+  };
+}
+
+function classOf(node: Node): IUnitTestClassResult {
+  return {
+    name: text(node['@_name']) ?? '',
+    uri: text(node['@_uri']),
+    durationCategory: text(node['@_durationCategory']),
+    riskLevel: text(node['@_riskLevel']),
+    methods: asArray((node.testMethods as Node | undefined)?.testMethod).map(
+      methodOf,
+    ),
+    alerts: alertsOf(node),
+  };
+}
+
+function programOf(node: Node): IUnitTestProgramResult {
+  return {
+    name: text(node['@_name']) ?? '',
+    type: text(node['@_type']),
+    uri: text(node['@_uri']),
+    classes: asArray((node.testClasses as Node | undefined)?.testClass).map(
+      classOf,
+    ),
+    alerts: alertsOf(node),
+  };
+}
+
+/**
+ * The programs, classes, methods and alerts of a run result.
+ *
+ * An empty `runResult` is a run with nothing in it and reads as no programs.
+ * A body that is not a `runResult` at all is refused: read as empty, it would
+ * become a report with no failures, and a CI job would go green on an error
+ * page.
+ */
+export function parseUnitTestRunResult(body: unknown): IUnitTestRunResult {
+  const document = parseXml(body);
+  if (!document || !('runResult' in document)) {
+    const error = new AdtOperationError(
+      'The body is not an ABAP Unit runResult. Read as one it would report no failures, which is not what it says.',
+    );
+    error.code = 'UNIT_TEST_RESULT_UNREADABLE';
+    throw error;
+  }
+  const root = document.runResult;
+  if (!root || typeof root !== 'object') return { programs: [] };
+  return { programs: asArray((root as Node).program).map(programOf) };
+}
+
+/** The first element named `name` at or below `node`, depth first. */
+function findElement(node: Node, name: string): Node | undefined {
+  for (const [key, value] of Object.entries(node)) {
+    if (key.startsWith('@_')) continue;
+    for (const child of asArray(value)) {
+      if (key === name) return child;
+      const found = findElement(child, name);
+      if (found) return found;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The status of a run as `…/abapunit/runs/{id}` reports it, upper-cased
+ * (`FINISHED`, `IN_PROCESS`), or undefined when the body carries none. The
+ * status document is not in the captures, so this reads the `status` of a
+ * `progress` element wherever it sits, and the root's failing that.
+ */
+export function parseUnitTestRunStatus(body: unknown): string | undefined {
+  const document = parseXml(body);
+  if (!document) return undefined;
+  const progress = findElement(document, 'progress');
+  const root = asArray(
+    Object.entries(document).find(([key]) => !key.startsWith('?'))?.[1],
+  )[0];
+  const status = text(progress?.['@_status']) ?? text(root?.['@_status']);
+  return status?.trim().toUpperCase();
+}
@@ -2,7 +2,11 @@
  * ABAP Unit test run operations
  */
 
-import type { IAbapConnection, IAdtResponse } from '@mcp-abap-adt/interfaces';
+import type {
+  IAbapConnection,
+  IAdtResponse,
+  PackageHierarchySupportedType,
+} from '@mcp-abap-adt/interfaces';
 import {
   ACCEPT_JUNIT_RESULT,
   ACCEPT_UNIT_TEST_RESULT,
@@ -14,6 +18,7 @@ import { getTimeout } from '../../utils/timeouts';
 import type {
   IClassUnitTestDefinition,
   IClassUnitTestRunOptions,
+  IUnitTestRunOptions,
 } from './types';
 
 function boolAttr(value: boolean | undefined, fallback: boolean) {
@@ -21,18 +26,20 @@ function boolAttr(value: boolean | undefined, fallback: boolean) {
 }
 
 /**
- * Start ABAP Unit test run for specific test classes
- * Uses aunit:tests format (for regular class unit tests)
+ * The coverage switch, or nothing.
+ *
+ * Omitted rather than sent as `active="false"` when coverage was not asked
+ * for, so a run without it is byte-for-byte the run this client has always
+ * sent.
  */
-export async function startClassUnitTestRun(
-  connection: IAbapConnection,
-  tests: IClassUnitTestDefinition[],
-  options?: IClassUnitTestRunOptions,
-): Promise<IAdtResponse> {
-  if (!tests.length) {
-    throw new Error('At least one test definition is required');
-  }
+function coverageXml(options?: IUnitTestRunOptions): string {
+  return options?.coverage
+    ? '\n  <aunit:external><aunit:coverage active="true"/></aunit:external>'
+    : '';
+}
 
+/** Scope, risk level and duration; left unset, all but foreign tests run. */
+function optionsXml(options?: IClassUnitTestRunOptions): string {
   const scope = options?.scope ?? {
     ownTests: true,
     foreignTests: false,
@@ -49,6 +56,26 @@ export async function startClassUnitTestRun(
     long: true,
   };
 
+  return `<aunit:options>
+    <aunit:scope ownTests="${boolAttr(scope.ownTests, true)}" foreignTests="${boolAttr(scope.foreignTests, false)}" addForeignTestsAsPreview="${boolAttr(scope.addForeignTestsAsPreview, true)}"/>
+    <aunit:riskLevel harmless="${boolAttr(risk.harmless, true)}" dangerous="${boolAttr(risk.dangerous, true)}" critical="${boolAttr(risk.critical, true)}"/>
+    <aunit:duration short="${boolAttr(duration.short, true)}" medium="${boolAttr(duration.medium, true)}" long="${boolAttr(duration.long, true)}"/>
+  </aunit:options>`;
+}
+
+/**
+ * Start ABAP Unit test run for specific test classes
+ * Uses aunit:tests format (for regular class unit tests)
+ */
+export async function startClassUnitTestRun(
+  connection: IAbapConnection,
+  tests: IClassUnitTestDefinition[],
+  options?: IUnitTestRunOptions,
+): Promise<IAdtResponse> {
+  if (!tests.length) {
+    throw new Error('At least one test definition is required');
+  }
+
   const testsXml = tests
     .map(
       (test) =>
@@ -56,12 +83,8 @@ export async function startClassUnitTestRun(
     )
     .join('');
 
-  const xml = `<?xml version="1.0" encoding="UTF-8"?><aunit:run xmlns:aunit="http://www.sap.com/adt/api/aunit" title="${options?.title || tests[0].testClass}" context="${options?.context || 'MCP ABAP ADT Client'}">
-  <aunit:options>
-    <aunit:scope ownTests="${boolAttr(scope.ownTests, true)}" foreignTests="${boolAttr(scope.foreignTests, false)}" addForeignTestsAsPreview="${boolAttr(scope.addForeignTestsAsPreview, true)}"/>
-    <aunit:riskLevel harmless="${boolAttr(risk.harmless, true)}" dangerous="${boolAttr(risk.dangerous, true)}" critical="${boolAttr(risk.critical, true)}"/>
-    <aunit:duration short="${boolAttr(duration.short, true)}" medium="${boolAttr(duration.medium, true)}" long="${boolAttr(duration.long, true)}"/>
-  </aunit:options>
+  const xml = `<?xml version="1.0" encoding="UTF-8"?><aunit:run xmlns:aunit="http://www.sap.com/adt/api/aunit" title="${options?.title || tests[0].testClass}" context="${options?.context || 'MCP ABAP ADT Client'}">${coverageXml(options)}
+  ${optionsXml(options)}
   <aunit:tests>
     ${testsXml}
   </aunit:tests>
@@ -85,36 +108,74 @@ export async function startClassUnitTestRun(
 export async function startClassUnitTestRunByObject(
   connection: IAbapConnection,
   className: string,
-  options?: IClassUnitTestRunOptions,
+  options?: IUnitTestRunOptions,
 ): Promise<IAdtResponse> {
   if (!className) {
     throw new Error('className is required');
   }
 
-  const scope = options?.scope ?? {
-    ownTests: true,
-    foreignTests: false,
-    addForeignTestsAsPreview: true,
-  };
-  const risk = options?.riskLevel ?? {
-    harmless: true,
-    dangerous: true,
-    critical: true,
-  };
-  const duration = options?.duration ?? {
-    short: true,
-    medium: true,
-    long: true,
+  const xml = `<?xml version="1.0" encoding="UTF-8"?><aunit:run xmlns:aunit="http://www.sap.com/adt/api/aunit" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xmlns:osl="http://www.sap.com/api/osl" title="${options?.title || className}" context="${options?.context || 'MCP ABAP ADT Client'}">${coverageXml(options)}
+  ${optionsXml(options)}
+  <osl:objectSet xsi:type="osl:flatObjectSet">
+    <osl:object name="${encodeSapObjectName(className).toUpperCase()}" type="CLAS"/>
+  </osl:objectSet>
+</aunit:run>`;
+
+  return connection.makeAdtRequest({
+    url: '/sap/bc/adt/abapunit/runs',
+    method: 'POST',
+    timeout: getTimeout('default'),
+    data: xml,
+    headers: {
+      'Content-Type': CT_UNIT_TEST_RUN,
+    },
+  });
+}
+
+/** The object types an object-set run is given, by package hierarchy kind. */
+const OBJECT_SET_TYPES: Partial<Record<PackageHierarchySupportedType, string>> =
+  {
+    class: 'CLAS',
+    program: 'PROG',
+    functionGroup: 'FUGR',
   };
 
-  const xml = `<?xml version="1.0" encoding="UTF-8"?><aunit:run xmlns:aunit="http://www.sap.com/adt/api/aunit" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xmlns:osl="http://www.sap.com/api/osl" title="${options?.title || className}" context="${options?.context || 'MCP ABAP ADT Client'}">
-  <aunit:options>
-    <aunit:scope ownTests="${boolAttr(scope.ownTests, true)}" foreignTests="${boolAttr(scope.foreignTests, false)}" addForeignTestsAsPreview="${boolAttr(scope.addForeignTestsAsPreview, true)}"/>
-    <aunit:riskLevel harmless="${boolAttr(risk.harmless, true)}" dangerous="${boolAttr(risk.dangerous, true)}" critical="${boolAttr(risk.critical, true)}"/>
-    <aunit:duration short="${boolAttr(duration.short, true)}" medium="${boolAttr(duration.medium, true)}" long="${boolAttr(duration.long, true)}"/>
-  </aunit:options>
+/**
+ * The type a package's object is run as, or undefined for a kind that holds
+ * no ABAP Unit tests: only classes, programs and function groups carry test
+ * classes.
+ */
+export function unitTestObjectTypeOf(
+  kind: PackageHierarchySupportedType | undefined,
+): string | undefined {
+  return kind && OBJECT_SET_TYPES[kind];
+}
+
+/**
+ * Start one run over several objects, every test in each: the object-set
+ * form {@link startClassUnitTestRunByObject} sends for one class, with an
+ * `osl:object` per object.
+ */
+export async function startUnitTestRunForObjects(
+  connection: IAbapConnection,
+  objects: readonly { name: string; type: string }[],
+  options?: IClassUnitTestRunOptions,
+): Promise<IAdtResponse> {
+  if (!objects.length) {
+    throw new Error('At least one object is required');
+  }
+
+  const objectsXml = objects
+    .map(
+      (object) =>
+        `<osl:object name="${encodeSapObjectName(object.name).toUpperCase()}" type="${object.type}"/>`,
+    )
+    .join('');
+
+  const xml = `<?xml version="1.0" encoding="UTF-8"?><aunit:run xmlns:aunit="http://www.sap.com/adt/api/aunit" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xmlns:osl="http://www.sap.com/api/osl" title="${options?.title || objects[0].name}" context="${options?.context || 'MCP ABAP ADT Client'}">
+  ${optionsXml(options)}
   <osl:objectSet xsi:type="osl:flatObjectSet">
-    <osl:object name="${encodeSapObjectName(className).toUpperCase()}" type="CLAS"/>
+    ${objectsXml}
   </osl:objectSet>
 </aunit:run>`;
 
@@ -9,10 +9,7 @@
 import type { IAbapConnection, IAdtResponse } from '@mcp-abap-adt/interfaces';
 import { encodeSapObjectName } from '../../utils/internalUtils';
 import { getTimeout } from '../../utils/timeouts';
-import type {
-  IClassUnitTestDefinition,
-  IClassUnitTestRunOptions,
-} from './types';
+import type { IClassUnitTestDefinition, IUnitTestRunOptions } from './types';
 
 const CT_XML = 'application/xml';
 const ACCEPT_XML = 'application/xml';
@@ -26,26 +23,69 @@ const ACCEPT_XML = 'application/xml';
  * - Namespace: http://www.sap.com/adt/aunit (not http://www.sap.com/adt/api/aunit)
  * - Objects via adtcore:objectReferences with URI (not aunit:tests with containerClass/class)
  * - Content-Type/Accept: application/xml (not versioned vnd.sap.adt.api.abapunit.*)
+ * - Coverage is always stated, `active="false"` unless asked for
  */
 export async function startClassUnitTestRunLegacy(
   connection: IAbapConnection,
   tests: IClassUnitTestDefinition[],
-  _options?: IClassUnitTestRunOptions,
+  options?: IUnitTestRunOptions,
 ): Promise<IAdtResponse> {
   if (!tests.length) {
     throw new Error('At least one test definition is required');
   }
 
-  const objectRefs = tests
-    .map((test) => {
-      const className = encodeSapObjectName(test.containerClass).toLowerCase();
-      return `        <adtcore:objectReference adtcore:uri="/sap/bc/adt/oo/classes/${className}"/>`;
-    })
+  return postRunConfiguration(
+    connection,
+    tests.map(
+      (test) =>
+        `/sap/bc/adt/oo/classes/${encodeSapObjectName(test.containerClass).toLowerCase()}`,
+    ),
+    options,
+  );
+}
+
+/** Where the legacy run configuration references each object-set type. */
+const LEGACY_OBJECT_URIS: Record<string, string> = {
+  CLAS: '/sap/bc/adt/oo/classes/',
+  PROG: '/sap/bc/adt/programs/programs/',
+  FUGR: '/sap/bc/adt/functions/groups/',
+};
+
+/**
+ * Run every test of several objects on a legacy system — the run
+ * configuration {@link startClassUnitTestRunLegacy} sends, with a reference
+ * per object. `type` is the object-set type (`CLAS`, `PROG`, `FUGR`).
+ */
+export async function startUnitTestRunForObjectsLegacy(
+  connection: IAbapConnection,
+  objects: readonly { name: string; type: string }[],
+  options?: IUnitTestRunOptions,
+): Promise<IAdtResponse> {
+  if (!objects.length) {
+    throw new Error('At least one object is required');
+  }
+  const uris = objects.map((object) => {
+    const base = LEGACY_OBJECT_URIS[object.type];
+    if (!base) {
+      throw new Error(`No legacy ABAP Unit URI for object type ${object.type}`);
+    }
+    return `${base}${encodeSapObjectName(object.name).toLowerCase()}`;
+  });
+  return postRunConfiguration(connection, uris, options);
+}
+
+async function postRunConfiguration(
+  connection: IAbapConnection,
+  uris: readonly string[],
+  options?: IUnitTestRunOptions,
+): Promise<IAdtResponse> {
+  const objectRefs = uris
+    .map((uri) => `        <adtcore:objectReference adtcore:uri="${uri}"/>`)
     .join('\n');
 
   const xml = `<?xml version="1.0" encoding="UTF-8"?><aunit:runConfiguration xmlns:aunit="http://www.sap.com/adt/aunit">
   <external>
-    <coverage active="false"/>
+    <coverage active="${options?.coverage ? 'true' : 'false'}"/>
   </external>
   <adtcore:objectSets xmlns:adtcore="http://www.sap.com/adt/core">
     <objectSet kind="inclusive">
@@ -2,6 +2,9 @@
  * Unit test module type definitions
  */
 
+import type { IClassUnitTestRunOptions } from '@mcp-abap-adt/interfaces';
+import type { IPackageObject, IPackageRunOptions } from '../shared/types';
+
 // Types defined in @mcp-abap-adt/interfaces
 export type {
   IClassUnitTestDefinition,
@@ -9,3 +12,169 @@ export type {
   IUnitTestConfig,
   IUnitTestState,
 } from '@mcp-abap-adt/interfaces';
+
+/**
+ * Run options, plus the one switch the contract does not carry yet.
+ *
+ * `coverage` asks ADT to measure the run. It changes nothing about the run's
+ * outcome — the same tests pass or fail — but a measured run's result carries
+ * a link to the measurement, which is what {@link ICoverageReport} is read from.
+ */
+export interface IUnitTestRunOptions extends IClassUnitTestRunOptions {
+  coverage?: boolean;
+}
+
+/** One coverage counter: how many of a kind were there, and how many ran. */
+export interface ICoverageCounter {
+  total: number;
+  executed: number;
+  /**
+   * `executed / total` as a percentage, or `undefined` when there was nothing
+   * to count. A class with no branches has not reached 100% branch coverage
+   * and has not missed it either, and a number would claim one or the other.
+   */
+  percent?: number;
+}
+
+/** The three counters ADT measures. Any may be absent from a node. */
+export interface ICoverageTotals {
+  statement?: ICoverageCounter;
+  branch?: ICoverageCounter;
+  procedure?: ICoverageCounter;
+}
+
+/** An inclusive range of source lines. */
+export interface ILineRange {
+  start: number;
+  end: number;
+}
+
+export interface IMethodCoverage {
+  name: string;
+  type?: string;
+  uri?: string;
+  coverage: ICoverageTotals;
+}
+
+export interface IClassCoverage {
+  name: string;
+  type?: string;
+  uri?: string;
+  coverage: ICoverageTotals;
+  methods: IMethodCoverage[];
+}
+
+/**
+ * Which lines of one include ran.
+ *
+ * Lines are those a statement starts on. A line holding no statement —
+ * a comment, a declaration — is in neither list.
+ */
+export interface IIncludeCoverage {
+  uri: string;
+  covered: ILineRange[];
+  uncovered: ILineRange[];
+}
+
+export interface ICoverageReport {
+  measurementId: string;
+  /** The measurement's own top-level counters, as ADT reported them. */
+  totals: ICoverageTotals;
+  classes: IClassCoverage[];
+  includes: IIncludeCoverage[];
+}
+
+/**
+ * Reading the coverage of a run — asking about a run, like
+ * `ITestRunInformation`, and so kept apart from running one.
+ */
+export interface IUnitTestCoverageReadable {
+  getCoverage(runId: string): Promise<ICoverageReport>;
+}
+
+/** One frame of an alert's stack: where in the source the alert was raised. */
+export interface IUnitTestStackEntry {
+  /** ADT URI, with `#start=line` when the frame has a position. */
+  uri: string;
+  name?: string;
+  description?: string;
+}
+
+/**
+ * Something a test reported. `kind` is ADT's (`failedAssertion`, `exception`,
+ * `warning`, …) and `severity` too (`critical`, `fatal`, `tolerable`, …) —
+ * verbatim, because which of them count as failing is the reader's decision.
+ */
+export interface IUnitTestAlert {
+  kind: string;
+  severity: string;
+  title: string;
+  details: string[];
+  stack: IUnitTestStackEntry[];
+}
+
+export interface IUnitTestMethodResult {
+  name: string;
+  uri?: string;
+  /** Seconds, when the result reported a time. */
+  executionTime?: number;
+  alerts: IUnitTestAlert[];
+}
+
+export interface IUnitTestClassResult {
+  name: string;
+  uri?: string;
+  durationCategory?: string;
+  riskLevel?: string;
+  methods: IUnitTestMethodResult[];
+  /** Raised outside any method — a failing `class_setup`, for one. */
+  alerts: IUnitTestAlert[];
+}
+
+export interface IUnitTestProgramResult {
+  name: string;
+  type?: string;
+  uri?: string;
+  classes: IUnitTestClassResult[];
+  alerts: IUnitTestAlert[];
+}
+
+/** An ABAP Unit run result, read from the `runResult` document. */
+export interface IUnitTestRunResult {
+  programs: IUnitTestProgramResult[];
+}
+
+/**
+ * ABAP Unit over a package: how it is expanded and chunked, and the run
+ * options every chunk's run is given. No `coverage`: each chunk would be
+ * measured on its own, and measurements do not add up.
+ */
+export interface IUnitTestPackageRunOptions
+  extends IPackageRunOptions,
+    IClassUnitTestRunOptions {
+  /** Between status requests of a chunk's run. Default 1000. */
+  pollIntervalMs?: number;
+  /** How long one chunk's run is waited for. Default ten minutes. */
+  maxPollDurationMs?: number;
+}
+
+/** The chunks of a package run, merged. */
+export interface IUnitTestPackageRunResult {
+  packageName: string;
+  /** What was run: classes, programs and function groups. */
+  objects: IPackageObject[];
+  /** Objects of kinds that hold no tests. */
+  skipped: IPackageObject[];
+  /** One per chunk, in order. */
+  runIds: string[];
+  /** Every chunk's programs, in one result. */
+  result: IUnitTestRunResult;
+}
+
+/** ABAP Unit over a package rather than a list of test classes. */
+export interface IUnitTestPackageRunnable {
+  runPackage(
+    packageName: string,
+    options?: IUnitTestPackageRunOptions,
+  ): Promise<IUnitTestPackageRunResult>;
+}
@@ -1,7 +1,13 @@
 /**
  * ADT Clients — abapGit barrel
- * Covers: AdtAbapGitClient. Contract types (IAdtAbapGitClient and friends)
- * come from @mcp-abap-adt/interfaces — that is the one place to import them.
+ * Covers: AdtAbapGitClient, and the offline AdtAbapGitSerializer with its
+ * folder helpers. Contract types (IAdtAbapGitClient and friends) come from
+ * @mcp-abap-adt/interfaces — that is the one place to import them.
  */
 
 export { AdtAbapGitClient } from './clients/AdtAbapGitClient';
+export {
+  AdtAbapGitSerializer,
+  readAbapGitFolder,
+  writeAbapGitFolder,
+} from './clients/abapGit/serializer';
@@ -1,10 +1,12 @@
 /**
  * ADT Clients — batch barrel
- * Covers: all batch/** modules (AdtClientBatch, AdtRuntimeClientBatch, BatchRecordingConnection).
+ * Covers: all batch/** modules (AdtClientBatch, AdtRuntimeClientBatch, BatchRecordingConnection,
+ * AdtBatchPlanner).
  * Contract types (IBatchPayload, IBatchRequestPart, IBatchResponsePart) come
  * from @mcp-abap-adt/interfaces — that is the one place to import them.
  */
 
+export { AdtBatchPlanner } from './batch/AdtBatchPlanner';
 export { AdtClientBatch } from './batch/AdtClientBatch';
 export { AdtRuntimeClientBatch } from './batch/AdtRuntimeClientBatch';
 export { BatchRecordingConnection } from './batch/BatchRecordingConnection';
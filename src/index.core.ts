@@ -26,16 +26,38 @@ export {
   resolveBindingVariant,
 } from './core/service';
 
-export { parseSearchResults } from './core/shared';
+export {
+  buildCdsPreviewSql,
+  dataPreviewToCsv,
+  dataPreviewToJson,
+  dataPreviewToNdjson,
+  diffSources,
+  diffVersions,
+  parseCdsEntity,
+  parseDataPreview,
+  parseSearchResults,
+  restoreVersion,
+  summarizeMethodChanges,
+} from './core/shared';
 export {
   AdtContentTypesBase,
   AdtContentTypesModern,
 } from './core/shared/contentTypes';
+export {
+  applyQuickFixDeltas,
+  sourceCursorAt,
+} from './core/sourceIntelligence';
 export { parseTransportTree } from './core/transport/parseTransportTree';
+export { unitTestResultToJUnit } from './core/unitTest/junit';
+export { parseUnitTestRunResult } from './core/unitTest/parseResult';
 export {
   fetchDiscoveryEndpoints,
   isEndpointInDiscovery,
 } from './utils/discoveryEndpoints';
+export {
+  adtUriToSourcePath,
+  parseAdtSourcePosition,
+} from './utils/sourcePosition';
 export {
   getSystemInformation,
   isModernAdtSystem,
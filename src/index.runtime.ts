@@ -8,15 +8,47 @@ export { AdtRuntimeClientExperimental } from './clients/AdtRuntimeClientExperime
 export { ApplicationLog } from './runtime/applicationLog/ApplicationLog';
 export { AdtAtc } from './runtime/atc/AdtAtc';
 export { AtcLog } from './runtime/atc/AtcLog';
+export {
+  atcFindingKey,
+  compareAtcBaseline,
+  createAtcBaseline,
+  parseAtcBaseline,
+} from './runtime/atc/baseline';
+export {
+  parseAtcCheckVariant,
+  parseAtcCheckVariants,
+  parseAtcCustomizing,
+  parseAtcWorklistFindings,
+} from './runtime/atc/parse';
+export { atcFindingsToSarif } from './runtime/atc/sarif';
 export { DdicActivation } from './runtime/ddic/DdicActivation';
 export { AbapDebugger } from './runtime/debugger/AbapDebugger';
 export { AmdpDebugger } from './runtime/debugger/AmdpDebugger';
+export { BreakpointManager } from './runtime/debugger/BreakpointManager';
 export { Debugger } from './runtime/debugger/Debugger';
+export { DebugSession } from './runtime/debugger/DebugSession';
+export {
+  parseBreakpointSyncResults,
+  parseDebuggee,
+  parseDebugStack,
+  parseDebugStepResult,
+  parseDebugVariables,
+} from './runtime/debugger/parse';
 // Keep low-level dump types/functions (may be used by consumers)
 export {
   buildDumpIdPrefix,
   buildRuntimeDumpsUserQuery,
 } from './runtime/dumps';
+export {
+  dedupeRuntimeDumps,
+  groupRuntimeDumps,
+  runtimeDumpSignature,
+  runtimeDumpTime,
+} from './runtime/dumps/group';
+export {
+  parseRuntimeDump,
+  parseRuntimeDumpHeader,
+} from './runtime/dumps/parse';
 export { RuntimeDumps } from './runtime/dumps/RuntimeDumps';
 export { FeedRepository } from './runtime/feeds/FeedRepository';
 
@@ -24,10 +56,33 @@ export { GatewayErrorLog } from './runtime/gatewayErrorLog/GatewayErrorLog';
 
 // MemorySnapshots is now accessed via getDebugger().getMemorySnapshots()
 // The class is still exported for backward compatibility
+export { analyzeSnapshotDelta } from './runtime/memory/delta';
 export { MemorySnapshots } from './runtime/memory/MemorySnapshots';
+export {
+  parseSnapshotObjects,
+  parseSnapshotOverview,
+  parseSnapshotReferences,
+  snapshotObjectValue,
+  snapshotReferencePaths,
+  snapshotSizeMetric,
+} from './runtime/memory/parse';
 export { SystemMessages } from './runtime/systemMessages/SystemMessages';
 
 export { CrossTrace } from './runtime/traces/CrossTraceDomain';
+export { parseCrossTraceRecordNumbers } from './runtime/traces/crossTraceParse';
 // Domain objects
 export { Profiler } from './runtime/traces/ProfilerDomain';
+export {
+  aggregateProfilerByProgram,
+  aggregateProfilerByTable,
+  toCollapsedStacks,
+  topProfilerEntriesByNetTime,
+  toSpeedscope,
+} from './runtime/traces/profilerAnalysis';
+export {
+  buildProfilerCallTree,
+  parseProfilerDbAccesses,
+  parseProfilerHitList,
+  parseProfilerStatements,
+} from './runtime/traces/profilerParse';
 export { St05Trace } from './runtime/traces/St05Trace';
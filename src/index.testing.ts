@@ -0,0 +1,16 @@
+/**
+ * ADT Clients — testing barrel
+ * Covers: testing/** (CassetteRecordingConnection, CassetteReplayConnection,
+ * the cassette file helpers, and FakeAdtServer with its FakeAdtConnection).
+ * Connections and what serves them: they stand in for the one an AdtClient
+ * is constructed over, and need nothing else from this package.
+ */
+
+export {
+  CassetteRecordingConnection,
+  CassetteReplayConnection,
+  FakeAdtConnection,
+  FakeAdtServer,
+  loadCassette,
+  saveCassette,
+} from './testing';
@@ -25,4 +25,5 @@ export * from './index.batch';
 export * from './index.core';
 export * from './index.executors';
 export * from './index.runtime';
+export * from './index.testing';
 export * from './index.ws';
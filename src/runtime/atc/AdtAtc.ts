@@ -16,6 +16,7 @@
 import {
   AdtObjectErrorCodes,
   AdtOperationError,
+  type AtcObjectType,
   type IAbapConnection,
   type IAdtResponse,
   type IAdtRunnable,
@@ -27,12 +28,25 @@ import {
   type IAtcRunTarget,
   type ILogger,
 } from '@mcp-abap-adt/interfaces';
+import { runPackageInChunks } from '../../core/shared/packageRun';
+import { compareAtcBaseline, parseAtcBaseline } from './baseline';
 import {
+  applyAtcExemption,
+  buildAtcExemptionApply,
+  getAtcExemptionProposal,
+  parseAtcExemptionStatus,
+} from './exemptions';
+import {
+  parseAtcCheckVariant,
+  parseAtcCheckVariants,
+  parseAtcCustomizing,
+  parseAtcWorklistFindings,
   parseRunStatus,
   parseSystemCheckVariant,
   parseWaitingRun,
 } from './parse';
 import {
+  atcObjectTypeOf,
   buildAtcObjectUri,
   createAtcWorklist,
   getAtcCustomizing,
@@ -40,10 +54,44 @@ import {
   getAtcWorklist,
   startAtcRun,
 } from './run';
+import type {
+  IAtcCheckVariant,
+  IAtcCheckVariantInfo,
+  IAtcCheckVariantListOptions,
+  IAtcConfigurationReadable,
+  IAtcCustomizing,
+  IAtcExemptionRequest,
+  IAtcExemptionResult,
+  IAtcFinding,
+  IAtcFindingsAnalysis,
+  IAtcPackageRunnable,
+  IAtcPackageRunOptions,
+  IAtcPackageRunResult,
+  IAtcRunFindings,
+  IAtcRunFindingsOptions,
+} from './types';
+import { getAtcCheckVariant, getAtcCheckVariants } from './variants';
 
 /** The default cap on results, and the only value anyone has run with. */
 const DEFAULT_MAXIMUM_VERDICTS = 100;
 
+/**
+ * A run that stopped at its cap left findings out, and which ones is the
+ * server's choice: a baseline compared with the rest could miss every new
+ * one, and a gate on it would pass.
+ */
+function truncatedForBaseline(
+  maximumVerdicts: number,
+  run = 'The ATC run',
+  remedy = 'Raise maximumVerdicts above the number of findings expected.',
+): AdtOperationError {
+  const error = new AdtOperationError(
+    `${run} reached maximumVerdicts (${maximumVerdicts}), so findings beyond it are missing and the baseline comparison would not see them. ${remedy}`,
+  );
+  error.code = 'ATC_FINDINGS_TRUNCATED';
+  return error;
+}
+
 function asText(data: unknown): string {
   return typeof data === 'string' ? data : String(data ?? '');
 }
@@ -65,7 +113,10 @@ export class AdtAtc
   implements
     IAdtRunnable<IAtcRunTarget, IAtcRunResult, IAtcRunOptions>,
     IAtcRunStatusReadable,
-    IAtcFindings
+    IAtcFindings,
+    IAtcFindingsAnalysis,
+    IAtcConfigurationReadable,
+    IAtcPackageRunnable
 {
   constructor(
     private readonly connection: IAbapConnection,
@@ -74,16 +125,30 @@ export class AdtAtc
 
   async run(
     target: IAtcRunTarget,
-    options?: IAtcRunOptions,
-  ): Promise<IAtcRunResult> {
+    options?: IAtcRunOptions & IAtcRunFindingsOptions,
+  ): Promise<IAtcRunResult & IAtcRunFindings> {
     // `options` is optional in the contract, so every read of it is guarded.
     // A caller writing `run(target)` is doing what the interface allows.
     const wait = options?.wait ?? false;
     const maximumVerdicts =
       options?.maximumVerdicts ?? DEFAULT_MAXIMUM_VERDICTS;
+    const withFindings =
+      options?.findings === true || options?.baseline !== undefined;
 
     this.assertTarget(target);
     this.assertMaximumVerdicts(maximumVerdicts);
+    if (withFindings && !wait) {
+      const error = new AdtOperationError(
+        'ATC findings were asked for without wait: true. A started run has none until it finishes, and reading its worklist now would report a clean check.',
+      );
+      error.code = AdtObjectErrorCodes.VALIDATION_FAILED;
+      throw error;
+    }
+    // Read before the run, so a baseline that cannot be read costs no run.
+    const baseline =
+      options?.baseline === undefined
+        ? undefined
+        : parseAtcBaseline(options.baseline);
 
     const checkVariant =
       options?.checkVariant ?? (await this.resolveCheckVariant());
@@ -101,9 +166,97 @@ export class AdtAtc
       wait,
     );
 
-    return wait
-      ? this.readWaitingRun(response, worklistId)
-      : this.readStartedRun(response, worklistId);
+    if (!wait) return this.readStartedRun(response, worklistId);
+    const result = this.readWaitingRun(response, worklistId);
+    if (!withFindings) return result;
+
+    const findings = await this.getParsedFindings(worklistId);
+    const truncated = findings.length >= maximumVerdicts;
+    if (truncated && baseline) throw truncatedForBaseline(maximumVerdicts);
+    return {
+      ...result,
+      findings,
+      truncated,
+      baseline: baseline && compareAtcBaseline(findings, baseline),
+    };
+  }
+
+  /**
+   * ATC over a package: its objects, and its subpackages' unless told not to,
+   * run in chunks with one check variant. Each chunk's run is waited for, and
+   * the baseline is compared once, with the findings of all of them — a
+   * finding the baseline holds is not new because its chunk ran first. A
+   * chunk cut off at `maximumVerdicts` is named in `truncatedWorklistIds`,
+   * and with a baseline stops the run with `ATC_FINDINGS_TRUNCATED`.
+   */
+  async runPackage(
+    packageName: string,
+    options?: IAtcPackageRunOptions,
+  ): Promise<IAtcPackageRunResult> {
+    if (!packageName?.trim()) {
+      const error = new AdtOperationError(
+        'An ATC package run needs a package name.',
+      );
+      error.code = AdtObjectErrorCodes.VALIDATION_FAILED;
+      throw error;
+    }
+    const maximumVerdicts =
+      options?.maximumVerdicts ?? DEFAULT_MAXIMUM_VERDICTS;
+    this.assertMaximumVerdicts(maximumVerdicts);
+    const baseline =
+      options?.baseline === undefined
+        ? undefined
+        : parseAtcBaseline(options.baseline);
+    const checkVariant =
+      options?.checkVariant ?? (await this.resolveCheckVariant());
+
+    const { objects, skipped, results } = await runPackageInChunks(
+      this.connection,
+      packageName,
+      options,
+      this.logger,
+      (object) => atcObjectTypeOf(object.kind) !== undefined,
+      (chunk) => {
+        // Non-empty, which is what the tuple type asks: chunks are.
+        const target = {
+          objects: chunk.map((object) => ({
+            objectType: atcObjectTypeOf(object.kind) as AtcObjectType,
+            objectName: object.name,
+          })),
+        } as IAtcRunTarget;
+        return this.run(target, {
+          wait: true,
+          findings: true,
+          checkVariant,
+          maximumVerdicts,
+        }).then((result) => {
+          // Stopped here rather than after the last chunk: the comparison
+          // this run is for could not be trusted whatever the rest find.
+          if (result.truncated && baseline) {
+            throw truncatedForBaseline(
+              maximumVerdicts,
+              `A chunk of the run over package ${packageName.toUpperCase()} (worklist ${result.worklistId})`,
+              'Raise maximumVerdicts, or lower chunkSize.',
+            );
+          }
+          return result;
+        });
+      },
+    );
+
+    const findings = results.flatMap((result) => result.findings ?? []);
+    return {
+      packageName: packageName.toUpperCase(),
+      checkVariant,
+      objects,
+      skipped,
+      worklistIds: results.map((result) => result.worklistId),
+      truncatedWorklistIds: results
+        .filter((result) => result.truncated)
+        .map((result) => result.worklistId),
+      findings,
+      baseline: baseline && compareAtcBaseline(findings, baseline),
+    };
   }
 
   async getRunStatus(runId: string): Promise<IAtcRunStatus> {
@@ -133,6 +286,124 @@ export class AdtAtc
     return getAtcWorklist(this.connection, worklistId);
   }
 
+  /**
+   * The worklist's findings, typed. Read it once the run has finished, as
+   * with `getFindings()`: before, it is empty whatever the run will find.
+   */
+  async getParsedFindings(worklistId: string): Promise<IAtcFinding[]> {
+    const response = await this.getFindings(worklistId);
+    const findings = parseAtcWorklistFindings(response.data);
+    if (!findings) {
+      const error = new AdtOperationError(
+        `ATC worklist ${worklistId}: the body is not a worklist. Read as one it would report no findings, which is not what it says.`,
+      );
+      error.code = 'ATC_WORKLIST_UNREADABLE';
+      throw error;
+    }
+    return findings;
+  }
+
+  /**
+   * Ask for a finding to be exempted: the server's proposal for it, sent back
+   * with the reason and justification set. Resolves with the status the
+   * server answers, as sent — an approver still has to approve.
+   */
+  async requestExemption(
+    finding: IAtcFinding,
+    request: IAtcExemptionRequest,
+  ): Promise<IAtcExemptionResult> {
+    if (!finding.markerId) {
+      const error = new AdtOperationError(
+        `ATC finding ${finding.uri} carries no quickfixInfo marker, which is what names it to the exemption resource.`,
+      );
+      error.code = 'ATC_FINDING_NOT_EXEMPTIBLE';
+      throw error;
+    }
+    if (!request.reason?.trim() || !request.justification?.trim()) {
+      const error = new AdtOperationError(
+        'An ATC exemption request needs a reason and a justification; the server requires a justification for every reason it has been seen to offer.',
+      );
+      error.code = AdtObjectErrorCodes.VALIDATION_FAILED;
+      throw error;
+    }
+
+    const proposal = await getAtcExemptionProposal(
+      this.connection,
+      finding.markerId,
+    );
+    const body = buildAtcExemptionApply(proposal.data, request);
+    if (!body) {
+      const error = new AdtOperationError(
+        `ATC exemption proposal for ${finding.markerId} is not an exemptionProposal, so there is nothing to send back.`,
+      );
+      error.code = 'ATC_EXEMPTION_UNREADABLE';
+      throw error;
+    }
+
+    const response = await applyAtcExemption(this.connection, body);
+    const status = parseAtcExemptionStatus(response.data);
+    if (!status) {
+      const error = new AdtOperationError(
+        'ATC exemption request was answered without a status. Resolving anyway would claim a request nobody can confirm was filed.',
+      );
+      error.code = 'ATC_EXEMPTION_UNREADABLE';
+      throw error;
+    }
+    return status;
+  }
+
+  /** ATC customizing, typed: the system check variant, properties, exemptions. */
+  async getCustomizing(): Promise<IAtcCustomizing> {
+    const response = await getAtcCustomizing(this.connection);
+    const customizing = parseAtcCustomizing(response.data);
+    if (!customizing) {
+      const error = new AdtOperationError(
+        'ATC customizing answered with something other than a customizing document, so there are no settings to report.',
+      );
+      error.code = 'ATC_CUSTOMIZING_UNREADABLE';
+      throw error;
+    }
+    return customizing;
+  }
+
+  /**
+   * The check variants the system lists. Empty is an answer, not a failure: a
+   * run without a variant still has the customizing default.
+   */
+  async listCheckVariants(
+    options?: IAtcCheckVariantListOptions,
+  ): Promise<IAtcCheckVariantInfo[]> {
+    const response = await getAtcCheckVariants(this.connection, options);
+    const variants = parseAtcCheckVariants(response.data);
+    if (!variants) {
+      const error = new AdtOperationError(
+        'The ATC variant list is not a namedItemList. Read as one it would list no variants, which is not what it says.',
+      );
+      error.code = 'ATC_CHECK_VARIANT_UNREADABLE';
+      throw error;
+    }
+    return variants;
+  }
+
+  /** A check variant and the checks it contains, with their parameters. */
+  async getCheckVariant(name: string): Promise<IAtcCheckVariant> {
+    if (!name?.trim()) {
+      const error = new AdtOperationError('A check variant name is required.');
+      error.code = AdtObjectErrorCodes.VALIDATION_FAILED;
+      throw error;
+    }
+    const response = await getAtcCheckVariant(this.connection, name);
+    const variant = parseAtcCheckVariant(response.data);
+    if (!variant) {
+      const error = new AdtOperationError(
+        `ATC check variant ${name}: the body names no variant, so there are no checks to report.`,
+      );
+      error.code = 'ATC_CHECK_VARIANT_UNREADABLE';
+      throw error;
+    }
+    return variant;
+  }
+
   // ---------------------------------------------------------------- private
 
   private assertTarget(target: IAtcRunTarget): void {
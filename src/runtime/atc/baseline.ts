@@ -0,0 +1,119 @@
+/**
+ * ATC baselines: the findings a code base already has, so a gate can block
+ * only the new ones.
+ *
+ * A baseline is plain JSON, meant to be committed next to the code. A finding
+ * is matched by object, check, message and the server's checksum of it; the
+ * location is left out, because a line added above a finding moves it without
+ * making it new. Without a checksum the message title stands in for it, which
+ * tells apart two findings of one message only when their texts differ.
+ *
+ * Matching counts: a baseline holding a finding twice accepts it twice, and a
+ * third occurrence is new.
+ */
+
+import { AdtOperationError } from '@mcp-abap-adt/interfaces';
+import type {
+  IAtcBaseline,
+  IAtcBaselineComparison,
+  IAtcBaselineEntry,
+  IAtcFinding,
+} from './types';
+
+function unreadable(reason: string): AdtOperationError {
+  const error = new AdtOperationError(
+    `The ATC baseline cannot be read: ${reason}. Compared against it, every finding would be new or none would.`,
+  );
+  error.code = 'ATC_BASELINE_UNREADABLE';
+  return error;
+}
+
+/** What a baseline matches a finding on. */
+export function atcFindingKey(finding: IAtcFinding): string {
+  return [
+    finding.objectType ?? '',
+    finding.objectName ?? '',
+    finding.checkId,
+    finding.messageId,
+    finding.checksum ?? finding.messageTitle,
+  ].join('|');
+}
+
+/** A baseline of `findings`, entries in key order so that diffs stay small. */
+export function createAtcBaseline(
+  findings: readonly IAtcFinding[],
+  createdAt: Date = new Date(),
+): IAtcBaseline {
+  const entries = findings.map(
+    (finding): IAtcBaselineEntry => ({
+      key: atcFindingKey(finding),
+      objectType: finding.objectType,
+      objectName: finding.objectName,
+      checkId: finding.checkId,
+      checkTitle: finding.checkTitle,
+      messageId: finding.messageId,
+      messageTitle: finding.messageTitle,
+    }),
+  );
+  entries.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+  return { version: 1, createdAt: createdAt.toISOString(), findings: entries };
+}
+
+/**
+ * A baseline read from JSON — text, or the value it parsed to. Refused with
+ * `ATC_BASELINE_UNREADABLE` unless it is a version 1 baseline whose entries
+ * all have a key.
+ */
+export function parseAtcBaseline(json: unknown): IAtcBaseline {
+  let value = json;
+  if (typeof json === 'string') {
+    try {
+      value = JSON.parse(json);
+    } catch (error) {
+      throw unreadable(`it is not JSON (${(error as Error).message})`);
+    }
+  }
+  const baseline = value as Partial<IAtcBaseline> | null;
+  if (!baseline || typeof baseline !== 'object') {
+    throw unreadable('it is not an object');
+  }
+  if (baseline.version !== 1) {
+    throw unreadable(`version ${String(baseline.version)} is not 1`);
+  }
+  if (
+    !Array.isArray(baseline.findings) ||
+    !baseline.findings.every(
+      (entry) => typeof entry?.key === 'string' && entry.key !== '',
+    )
+  ) {
+    throw unreadable('findings is not a list of entries with a key');
+  }
+  return baseline as IAtcBaseline;
+}
+
+/** Split `findings` into those the baseline holds and those it does not. */
+export function compareAtcBaseline(
+  findings: readonly IAtcFinding[],
+  baseline: IAtcBaseline | string,
+): IAtcBaselineComparison {
+  const entries = parseAtcBaseline(baseline).findings;
+  const unmatched = new Map<string, IAtcBaselineEntry[]>();
+  for (const entry of entries) {
+    const same = unmatched.get(entry.key);
+    if (same) same.push(entry);
+    else unmatched.set(entry.key, [entry]);
+  }
+
+  const comparison: IAtcBaselineComparison = {
+    added: [],
+    existing: [],
+    resolved: [],
+  };
+  for (const finding of findings) {
+    const matched = unmatched.get(atcFindingKey(finding))?.pop();
+    if (matched) comparison.existing.push(finding);
+    else comparison.added.push(finding);
+  }
+  comparison.resolved = [...unmatched.values()].flat();
+  return comparison;
+}
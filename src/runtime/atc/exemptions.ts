@@ -0,0 +1,160 @@
+/**
+ * ATC exemptions: asking for a finding to be exempted.
+ *
+ * A request is two round trips on one resource. The server first proposes an
+ * exemption for the finding's marker (`quickfixInfo`) — the finding as it
+ * sees it, the package, the restriction, a default approver — and the request
+ * is that proposal sent back with the reason and justification filled in.
+ * Everything the caller did not set goes back as proposed, so the proposal is
+ * edited in document order rather than rebuilt from a model of it: elements
+ * this client has never seen survive the round trip.
+ */
+
+import type { IAbapConnection, IAdtResponse } from '@mcp-abap-adt/interfaces';
+import { XMLBuilder, XMLParser } from 'fast-xml-parser';
+import {
+  ACCEPT_ATC_EXEMPTION,
+  CT_ATC_EXEMPTION,
+} from '../../constants/contentTypes';
+import { getTimeout } from '../../utils/timeouts';
+import type { IAtcExemptionRequest, IAtcExemptionResult } from './types';
+
+const EXEMPTIONS = '/sap/bc/adt/atc/exemptions/apply';
+const EXEMPTION_NS = 'http://www.sap.com/adt/atc/exemption';
+
+// Order matters here as it does nowhere else in ATC: the proposal goes back.
+const orderedParser = new XMLParser({
+  preserveOrder: true,
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  parseTagValue: false,
+  parseAttributeValue: false,
+});
+const builder = new XMLBuilder({
+  preserveOrder: true,
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+});
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  parseAttributeValue: false,
+});
+
+type OrderedNode = Record<string, unknown>;
+
+function elementName(node: OrderedNode): string | undefined {
+  return Object.keys(node).find(
+    (key) => key !== ':@' && key !== '#text' && !key.startsWith('?'),
+  );
+}
+
+function localName(name: string): string {
+  return name.slice(name.indexOf(':') + 1);
+}
+
+/** The exemption the server proposes for a finding's marker. */
+export async function getAtcExemptionProposal(
+  connection: IAbapConnection,
+  markerId: string,
+): Promise<IAdtResponse> {
+  return connection.makeAdtRequest({
+    url: `${EXEMPTIONS}?markerId=${encodeURIComponent(markerId)}`,
+    method: 'GET',
+    timeout: getTimeout('default'),
+    headers: { Accept: ACCEPT_ATC_EXEMPTION },
+  });
+}
+
+/** Send an exemption request built by {@link buildAtcExemptionApply}. */
+export async function applyAtcExemption(
+  connection: IAbapConnection,
+  body: string,
+): Promise<IAdtResponse> {
+  return connection.makeAdtRequest({
+    url: EXEMPTIONS,
+    method: 'POST',
+    timeout: getTimeout('default'),
+    data: body,
+    headers: {
+      'Content-Type': CT_ATC_EXEMPTION,
+      Accept: ACCEPT_ATC_EXEMPTION,
+    },
+  });
+}
+
+/**
+ * The request body: the proposal with the request's fields set, inside an
+ * `exemptionApply`. Null when the body is not an `exemptionProposal`.
+ */
+export function buildAtcExemptionApply(
+  proposal: unknown,
+  request: IAtcExemptionRequest,
+): string | null {
+  if (typeof proposal !== 'string' || proposal.trim() === '') return null;
+  let document: OrderedNode[];
+  try {
+    document = orderedParser.parse(proposal) as OrderedNode[];
+  } catch {
+    return null;
+  }
+  const root = document.find((node) => {
+    const name = elementName(node);
+    return name !== undefined && localName(name) === 'exemptionProposal';
+  });
+  const rootName = root && elementName(root);
+  if (!root || !rootName) return null;
+
+  const prefix = rootName.includes(':')
+    ? rootName.slice(0, rootName.indexOf(':'))
+    : '';
+  const children = root[rootName] as OrderedNode[];
+  const set = (name: string, value: string | undefined) => {
+    if (value === undefined) return;
+    const content = [{ '#text': value }];
+    const existing = children.find((child) => {
+      const childName = elementName(child);
+      return childName !== undefined && localName(childName) === name;
+    });
+    if (existing) existing[elementName(existing) as string] = content;
+    else children.push({ [prefix ? `${prefix}:${name}` : name]: content });
+  };
+  set('reason', request.reason);
+  set('justification', request.justification);
+  set('approver', request.approver);
+  set('notify', request.notify);
+
+  const apply = {
+    [prefix ? `${prefix}:exemptionApply` : 'exemptionApply']: [root],
+    ':@': { [prefix ? `@_xmlns:${prefix}` : '@_xmlns']: EXEMPTION_NS },
+  };
+  return `<?xml version="1.0" encoding="UTF-8"?>${builder.build([apply])}`;
+}
+
+/**
+ * The `status` an exemption request is answered with — its `type` and
+ * `message`, as elements or attributes — or null when there is none.
+ */
+export function parseAtcExemptionStatus(
+  body: unknown,
+): IAtcExemptionResult | null {
+  if (typeof body !== 'string' || body.trim() === '') return null;
+  let status: unknown;
+  try {
+    status = (parser.parse(body) as Record<string, unknown>).status;
+  } catch {
+    return null;
+  }
+  if (status === undefined) return null;
+  const node =
+    typeof status === 'object' && status !== null
+      ? (status as Record<string, unknown>)
+      : {};
+  const read = (name: string) => {
+    const value = node[name] ?? node[`@_${name}`];
+    return typeof value === 'string' && value !== '' ? value : undefined;
+  };
+  return { type: read('type'), message: read('message') };
+}
@@ -4,8 +4,43 @@
 
 export { AdtAtc } from './AdtAtc';
 export { AtcLog } from './AtcLog';
+export {
+  atcFindingKey,
+  compareAtcBaseline,
+  createAtcBaseline,
+  parseAtcBaseline,
+} from './baseline';
 export {
   getCheckFailureLogs,
   getExecutionLog,
   type IGetCheckFailureLogsOptions,
 } from './logs';
+export {
+  parseAtcCheckVariant,
+  parseAtcCheckVariants,
+  parseAtcCustomizing,
+  parseAtcWorklistFindings,
+} from './parse';
+export { atcFindingsToSarif, type ISarifExportOptions } from './sarif';
+export type {
+  IAtcBaseline,
+  IAtcBaselineComparison,
+  IAtcBaselineEntry,
+  IAtcCheckVariant,
+  IAtcCheckVariantInfo,
+  IAtcCheckVariantListOptions,
+  IAtcConfigurationReadable,
+  IAtcCustomizing,
+  IAtcExemptionReason,
+  IAtcExemptionRequest,
+  IAtcExemptionResult,
+  IAtcFinding,
+  IAtcFindingExemption,
+  IAtcFindingsAnalysis,
+  IAtcPackageRunnable,
+  IAtcPackageRunOptions,
+  IAtcPackageRunResult,
+  IAtcRunFindings,
+  IAtcRunFindingsOptions,
+  IAtcVariantCheck,
+} from './types';
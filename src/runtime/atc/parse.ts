@@ -1,5 +1,5 @@
 /**
- * Reading the four ATC responses this client depends on.
+ * Reading the ATC responses this client depends on.
  *
  * **Structurally, not by pattern.** These are XML documents, and two things
  * about an XML document carry no meaning: the order of attributes on an
@@ -18,6 +18,13 @@
  */
 
 import { XMLParser } from 'fast-xml-parser';
+import type {
+  IAtcCheckVariant,
+  IAtcCheckVariantInfo,
+  IAtcCustomizing,
+  IAtcFinding,
+  IAtcVariantCheck,
+} from './types';
 
 const parser = new XMLParser({
   ignoreAttributes: false,
@@ -74,6 +81,140 @@ export function parseSystemCheckVariant(body: unknown): string | null {
   return text(match?.['@_value']) ?? null;
 }
 
+/**
+ * ATC customizing, typed: properties by name, exemption reasons and
+ * validities. Null when the body is not a customizing document.
+ */
+export function parseAtcCustomizing(body: unknown): IAtcCustomizing | null {
+  const document = parseXml(body);
+  if (!document || !('customizing' in document)) return null;
+  const root = asArray(document.customizing)[0] ?? {};
+
+  const properties: Record<string, string> = {};
+  for (const property of asArray(
+    (root.properties as Node | undefined)?.property,
+  )) {
+    const name = text(property['@_name']);
+    if (name) properties[name] = text(property['@_value']) ?? '';
+  }
+  const exemption = root.exemption as Node | undefined;
+  const reasons = asArray((exemption?.reasons as Node | undefined)?.reason);
+  const validities = asArray(
+    (exemption?.validities as Node | undefined)?.validity,
+  );
+
+  return {
+    systemCheckVariant: optional(properties.systemCheckVariant),
+    properties,
+    exemptionReasons: reasons.flatMap((reason) => {
+      const id = optional(reason['@_id']);
+      return id
+        ? [
+            {
+              id,
+              title: optional(reason['@_title']),
+              justificationMandatory:
+                text(reason['@_justificationMandatory']) === 'true',
+            },
+          ]
+        : [];
+    }),
+    exemptionValidities: validities.flatMap((validity) => {
+      const id = optional(validity['@_id']);
+      return id ? [{ id, value: optional(validity['@_value']) }] : [];
+    }),
+  };
+}
+
+/**
+ * The check variant list, a `namedItemList` of name and description. Null
+ * when the body is not one; an empty list means only that the system lists
+ * none, and a run still has the customizing default.
+ */
+export function parseAtcCheckVariants(
+  body: unknown,
+): IAtcCheckVariantInfo[] | null {
+  const document = parseXml(body);
+  if (!document || !('namedItemList' in document)) return null;
+  const items = asArray(asArray(document.namedItemList)[0]?.namedItem);
+  return items.flatMap((item) => {
+    const name = text(item.name)?.trim();
+    return name
+      ? [{ name, description: optional(text(item.description)?.trim()) }]
+      : [];
+  });
+}
+
+/** Attributes of an element by local name, `@_` dropped. */
+function attributesOf(node: Node): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [key, value] of Object.entries(node)) {
+    if (key.startsWith('@_') && typeof value === 'string') {
+      attributes[key.slice(2)] = value;
+    }
+  }
+  return attributes;
+}
+
+/** Every element named `name` below `node`, not looking inside a match. */
+function elementsNamed(node: Node, name: string): Node[] {
+  const found: Node[] = [];
+  for (const [key, value] of Object.entries(node)) {
+    if (key.startsWith('@_')) continue;
+    for (const child of asArray(value)) {
+      if (key === name) found.push(child);
+      else found.push(...elementsNamed(child, name));
+    }
+  }
+  return found;
+}
+
+function variantCheck(node: Node): IAtcVariantCheck | null {
+  const attributes = attributesOf(node);
+  const name =
+    attributes.name ?? attributes.checkName ?? attributes.chkoName ?? '';
+  if (!name) return null;
+
+  const parameters: Record<string, string> = {};
+  for (const parameter of elementsNamed(node, 'parameter')) {
+    const key = text(parameter['@_name']) ?? text(parameter['@_key']);
+    if (!key) continue;
+    parameters[key] =
+      text(parameter['@_value']) ?? text(parameter['#text']) ?? '';
+  }
+  return {
+    name,
+    description: optional(attributes.description ?? attributes.title),
+    parameters,
+    attributes,
+  };
+}
+
+/**
+ * A check variant (`CHKV`) and its checks. Unlike the rest of this module the
+ * shape is not in the captures, so it is read loosely: the root's name and
+ * description, and every `check` element below it with its attributes and
+ * `parameter` children. Null when the body is not XML or names no variant.
+ */
+export function parseAtcCheckVariant(body: unknown): IAtcCheckVariant | null {
+  const document = parseXml(body);
+  const rootKey = document
+    ? Object.keys(document).find((key) => !key.startsWith('?'))
+    : undefined;
+  const root = rootKey ? asArray(document?.[rootKey])[0] : undefined;
+  const name = root && (text(root['@_name']) ?? text(root['@_chkvName']));
+  if (!root || !name) return null;
+
+  return {
+    name,
+    description: optional(root['@_description']),
+    checks: elementsNamed(root, 'check').flatMap((node) => {
+      const check = variantCheck(node);
+      return check ? [check] : [];
+    }),
+  };
+}
+
 export interface IParsedRunStatus {
   /** `runs:status`, whatever prefix it arrived under. */
   status?: string;
@@ -141,3 +282,77 @@ export function parseWaitingRun(body: unknown): IParsedWaitingRun {
     findingStats: text(stats?.description),
   };
 }
+
+function priority(value: unknown): number | undefined {
+  const raw = text(value)?.trim();
+  return raw && /^\d+$/.test(raw) ? Number(raw) : undefined;
+}
+
+/** Empty attributes are absent, not values: `exemptionKind=""` says nothing. */
+function optional(value: unknown): string | undefined {
+  const raw = text(value);
+  return raw === '' ? undefined : raw;
+}
+
+/**
+ * Every finding of a worklist, with the object each was found in.
+ *
+ * Findings sit under their object (`objects > object > findings > finding`),
+ * so the object's identity is copied onto each finding rather than left for
+ * the reader to find again. A finding that names no check or message is not
+ * one this client can report and is skipped.
+ *
+ * Null when the body is not a worklist at all. An empty list would read as a
+ * clean check, so that case is left for the caller to refuse.
+ */
+export function parseAtcWorklistFindings(body: unknown): IAtcFinding[] | null {
+  const document = parseXml(body);
+  if (!document || !('worklist' in document)) return null;
+  const worklist = document.worklist;
+  if (!worklist || typeof worklist !== 'object') return [];
+
+  const findings: IAtcFinding[] = [];
+  const objects = asArray(
+    ((worklist as Node).objects as Node | undefined)?.object,
+  );
+  for (const object of objects) {
+    const entries = asArray((object.findings as Node | undefined)?.finding);
+    for (const finding of entries) {
+      const uri = text(finding['@_uri']);
+      const checkId = text(finding['@_checkId']);
+      const messageId = text(finding['@_messageId']);
+      if (!uri || !checkId || messageId === undefined) continue;
+      const documentation = asArray(finding.link).find((l) =>
+        /\/documentation$/.test(text(l['@_rel']) ?? ''),
+      );
+      const quickfixes = asArray(finding.quickfixes)[0];
+      // `-` is what an unexempted finding carries as its approval.
+      const approval = optional(finding['@_exemptionApproval']);
+      const exemption = {
+        approval: approval === '-' ? undefined : approval,
+        kind: optional(finding['@_exemptionKind']),
+      };
+      findings.push({
+        uri,
+        location: optional(finding['@_location']),
+        priority: priority(finding['@_priority']),
+        checkId,
+        checkTitle: optional(finding['@_checkTitle']),
+        messageId,
+        messageTitle: text(finding['@_messageTitle']) ?? '',
+        objectUri: optional(object['@_uri']),
+        objectType: optional(object['@_type']),
+        objectName: optional(object['@_name']),
+        packageName: optional(object['@_packageName']),
+        documentationUri: optional(documentation?.['@_href']),
+        markerId: optional(finding['@_quickfixInfo']),
+        checksum: optional(finding['@_checksum']),
+        quickFixAvailable: ['@_manual', '@_automatic'].some(
+          (flag) => text(quickfixes?.[flag]) === 'true',
+        ),
+        exemption: exemption.approval || exemption.kind ? exemption : undefined,
+      });
+    }
+  }
+  return findings;
+}
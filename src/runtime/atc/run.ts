@@ -16,6 +16,7 @@ import type {
   AtcObjectType,
   IAbapConnection,
   IAdtResponse,
+  PackageHierarchySupportedType,
 } from '@mcp-abap-adt/interfaces';
 import {
   ACCEPT_ATC_CUSTOMIZING,
@@ -55,6 +56,29 @@ const URI_TEMPLATES: Record<AtcObjectType, string> = {
   behavior_definition: '/sap/bc/adt/bo/behaviordefinitions/',
 };
 
+/**
+ * ATC's kind for each kind a package lists. Keyed by the hierarchy's kind
+ * rather than the ADT type, which has already told a structure from a table
+ * and a function module from its group.
+ */
+const PACKAGE_OBJECT_KINDS: Partial<
+  Record<PackageHierarchySupportedType, AtcObjectType>
+> = {
+  class: 'class',
+  interface: 'interface',
+  functionGroup: 'function_group',
+  view: 'ddl_source',
+  table: 'table',
+  behaviorDefinition: 'behavior_definition',
+};
+
+/** The kind ATC checks a package's object as, if it checks it here. */
+export function atcObjectTypeOf(
+  kind: PackageHierarchySupportedType | undefined,
+): AtcObjectType | undefined {
+  return kind && PACKAGE_OBJECT_KINDS[kind];
+}
+
 /** The ADT URI ATC checks an object at. */
 export function buildAtcObjectUri(
   objectType: AtcObjectType,
@@ -0,0 +1,140 @@
+/**
+ * ATC findings as SARIF 2.1.0, the format GitHub code scanning and GitLab read
+ * natively.
+ *
+ * One rule per check and message (`checkId/messageId`): a check such as the
+ * extended program check reports many unrelated messages, and a rule per check
+ * would file them all under one title. Priority maps to level — 1 is `error`,
+ * 2 `warning`, 3 `note` — and a finding without a priority carries no level,
+ * leaving SARIF's own default in force rather than inventing one.
+ *
+ * A finding's `location` becomes a physical location through
+ * {@link resolveSourcePosition}. ADT columns are 0-based and SARIF's 1-based,
+ * so the column is shifted here, where it is written. A location that maps to
+ * no file keeps only its logical location — the object — because a guessed
+ * path would annotate the wrong file.
+ */
+
+import { AdtOperationError } from '@mcp-abap-adt/interfaces';
+import {
+  type ISourceMappingOptions,
+  resolveSourcePosition,
+} from '../../utils/sourcePosition';
+import { parseAtcWorklistFindings } from './parse';
+import type { IAtcFinding } from './types';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+export interface ISarifExportOptions extends ISourceMappingOptions {
+  /** `tool.driver.name`. Defaults to `ABAP Test Cockpit`. */
+  toolName?: string;
+}
+
+const LEVELS: Record<number, string> = { 1: 'error', 2: 'warning', 3: 'note' };
+
+function ruleId(finding: IAtcFinding): string {
+  return `${finding.checkId}/${finding.messageId}`;
+}
+
+function findingsOf(findings: IAtcFinding[] | string): IAtcFinding[] {
+  if (typeof findings !== 'string') return findings;
+  const parsed = parseAtcWorklistFindings(findings);
+  if (!parsed) {
+    const error = new AdtOperationError(
+      'The body is not an ATC worklist. Read as one it would report no findings, which is not what it says.',
+    );
+    error.code = 'ATC_WORKLIST_UNREADABLE';
+    throw error;
+  }
+  return parsed;
+}
+
+function locationOf(
+  finding: IAtcFinding,
+  options: ISourceMappingOptions,
+): Record<string, unknown> {
+  const location: Record<string, unknown> = {};
+  const position = finding.location
+    ? resolveSourcePosition(finding.location, options)
+    : {};
+  if (position.path) {
+    const region: Record<string, number> = {};
+    if (position.line !== undefined) region.startLine = position.line;
+    if (position.line !== undefined && position.column !== undefined) {
+      region.startColumn = position.column + 1;
+    }
+    location.physicalLocation = {
+      artifactLocation: { uri: position.path },
+      ...(Object.keys(region).length ? { region } : {}),
+    };
+  }
+  if (finding.objectName) {
+    location.logicalLocations = [
+      {
+        name: finding.objectName,
+        fullyQualifiedName: finding.objectType
+          ? `${finding.objectType}/${finding.objectName}`
+          : finding.objectName,
+      },
+    ];
+  }
+  return location;
+}
+
+/**
+ * A SARIF log for ATC findings, as JSON text — from parsed findings, or from
+ * the worklist body {@link AdtAtc.getFindings} returns.
+ */
+export function atcFindingsToSarif(
+  findings: IAtcFinding[] | string,
+  options: ISarifExportOptions = {},
+): string {
+  const list = findingsOf(findings);
+
+  const rules: Record<string, unknown>[] = [];
+  const ruleIndex = new Map<string, number>();
+  for (const finding of list) {
+    const id = ruleId(finding);
+    if (ruleIndex.has(id)) continue;
+    ruleIndex.set(id, rules.length);
+    rules.push({
+      id,
+      name: finding.checkTitle ?? finding.checkId,
+      shortDescription: { text: finding.checkTitle ?? finding.checkId },
+    });
+  }
+
+  const results = list.map((finding) => {
+    const location = locationOf(finding, options);
+    const level =
+      finding.priority === undefined ? undefined : LEVELS[finding.priority];
+    return {
+      ruleId: ruleId(finding),
+      ruleIndex: ruleIndex.get(ruleId(finding)),
+      ...(level ? { level } : {}),
+      message: { text: finding.messageTitle },
+      locations: Object.keys(location).length ? [location] : [],
+      properties: {
+        priority: finding.priority,
+        objectType: finding.objectType,
+        objectName: finding.objectName,
+        packageName: finding.packageName,
+        adtUri: finding.uri,
+      },
+    };
+  });
+
+  const log = {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: { name: options.toolName ?? 'ABAP Test Cockpit', rules },
+        },
+        results,
+      },
+    ],
+  };
+  return JSON.stringify(log, null, 2);
+}
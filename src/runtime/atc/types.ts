@@ -0,0 +1,251 @@
+/**
+ * ATC module type definitions
+ *
+ * The run contract (`IAtcRunTarget`, `IAtcRunResult`, …) is defined in
+ * @mcp-abap-adt/interfaces. What is declared here is this client's reading of
+ * a worklist, which the contract leaves as a raw response.
+ */
+
+import type {
+  IAtcRunOptions,
+  IAtcRunResult,
+  IAtcRunTarget,
+} from '@mcp-abap-adt/interfaces';
+import type {
+  IPackageObject,
+  IPackageRunOptions,
+} from '../../core/shared/types';
+
+/** One finding of a worklist, with the object it was found in. */
+export interface IAtcFinding {
+  /** The finding itself (`/sap/bc/adt/atc/findings/itemid/…/index/…`). */
+  uri: string;
+  /**
+   * Where in the source, as an ADT URI with `#start=line,column` — the form
+   * {@link resolveSourcePosition} reads. Absent for a finding on an object
+   * without source.
+   */
+  location?: string;
+  /** 1 is the most severe, 3 the least. */
+  priority?: number;
+  checkId: string;
+  checkTitle?: string;
+  messageId: string;
+  messageTitle: string;
+  objectUri?: string;
+  /** `CLAS`, `INTF`, … — the R3TR type the worklist groups by. */
+  objectType?: string;
+  objectName?: string;
+  packageName?: string;
+  /** The documentation link, when the finding carries one. */
+  documentationUri?: string;
+  /**
+   * `quickfixInfo`: the marker that names the finding to the exemption and
+   * quick-fix resources. Absent, neither can be asked about it.
+   */
+  markerId?: string;
+  /**
+   * The server's fingerprint of the finding, stable while the statement it
+   * was found in is — what a baseline matches on when present.
+   */
+  checksum?: string;
+  /** The finding offers a quick fix, manual or automatic. */
+  quickFixAvailable: boolean;
+  /**
+   * `exemptionApproval` and `exemptionKind` as sent, absent while both say
+   * nothing (`-` and empty are what an unexempted finding carries).
+   */
+  exemption?: IAtcFindingExemption;
+}
+
+/** The exemption state of a finding, in the server's own codes. */
+export interface IAtcFindingExemption {
+  approval?: string;
+  kind?: string;
+}
+
+/** What `run()` adds to a waited run when asked for findings. */
+export interface IAtcRunFindingsOptions {
+  /**
+   * Read the worklist when the run is done and resolve with its findings.
+   * Needs `wait: true`: a started run has no findings until it finishes.
+   */
+  findings?: boolean;
+  /** Compare the findings with this baseline; implies `findings`. */
+  baseline?: IAtcBaseline | string;
+}
+
+export interface IAtcRunFindings {
+  findings?: IAtcFinding[];
+  /**
+   * The run reached `maximumVerdicts`: there may be findings it did not
+   * report. With a baseline the run rejects instead.
+   */
+  truncated?: boolean;
+  /** Present when a baseline was given. */
+  baseline?: IAtcBaselineComparison;
+}
+
+/** A finding as a baseline stores it: enough to match it and to name it. */
+export interface IAtcBaselineEntry {
+  /** {@link atcFindingKey} of the finding. */
+  key: string;
+  objectType?: string;
+  objectName?: string;
+  checkId: string;
+  checkTitle?: string;
+  messageId: string;
+  messageTitle: string;
+}
+
+/** The findings accepted as they are, written to and read from JSON. */
+export interface IAtcBaseline {
+  version: 1;
+  /** ISO timestamp of when the baseline was taken. */
+  createdAt?: string;
+  findings: IAtcBaselineEntry[];
+}
+
+export interface IAtcBaselineComparison {
+  /** Findings the baseline does not hold: what a gate blocks on. */
+  added: IAtcFinding[];
+  /** Findings the baseline holds. */
+  existing: IAtcFinding[];
+  /** Baseline entries no finding matched any more. */
+  resolved: IAtcBaselineEntry[];
+}
+
+/** An exemption request for one finding. */
+export interface IAtcExemptionRequest {
+  /** A reason id from ATC customizing, e.g. `FPOS` (false positive). */
+  reason: string;
+  justification: string;
+  /** Who approves; left as the server proposed when omitted. */
+  approver?: string;
+  /** When the requester is told; left as proposed when omitted. */
+  notify?: 'never' | 'on_rejection' | 'always';
+}
+
+/** The status the server answers an exemption request with, as sent. */
+export interface IAtcExemptionResult {
+  type?: string;
+  message?: string;
+}
+
+/**
+ * What `AdtAtc` reads and requests beyond the run contract: typed findings,
+ * a run that returns them, and exemptions.
+ */
+export interface IAtcFindingsAnalysis {
+  run(
+    target: IAtcRunTarget,
+    options: IAtcRunOptions & IAtcRunFindingsOptions,
+  ): Promise<IAtcRunResult & IAtcRunFindings>;
+  getParsedFindings(worklistId: string): Promise<IAtcFinding[]>;
+  requestExemption(
+    finding: IAtcFinding,
+    request: IAtcExemptionRequest,
+  ): Promise<IAtcExemptionResult>;
+}
+
+/** An exemption reason ATC customizing offers, e.g. `FPOS`. */
+export interface IAtcExemptionReason {
+  id: string;
+  title?: string;
+  justificationMandatory: boolean;
+}
+
+/** ATC customizing: the system's ATC settings as the server reports them. */
+export interface IAtcCustomizing {
+  /** The variant a run uses when none is named. */
+  systemCheckVariant?: string;
+  /**
+   * Every `<property>` by name, as sent — `ciCheckFlavour`, and whatever
+   * else the system reports, thresholds included.
+   */
+  properties: Record<string, string>;
+  exemptionReasons: IAtcExemptionReason[];
+  /** How long an exemption may hold, by id: `U` no restriction, `D` date… */
+  exemptionValidities: { id: string; value?: string }[];
+}
+
+/** A check variant as the variant list names it. */
+export interface IAtcCheckVariantInfo {
+  name: string;
+  description?: string;
+}
+
+/** One check of a check variant, and how it is parametrised. */
+export interface IAtcVariantCheck {
+  name: string;
+  description?: string;
+  /** The check's parameters by name. */
+  parameters: Record<string, string>;
+  /** Every attribute of the check element, as sent. */
+  attributes: Record<string, string>;
+}
+
+/** A check variant and the checks it runs. */
+export interface IAtcCheckVariant {
+  name: string;
+  description?: string;
+  checks: IAtcVariantCheck[];
+}
+
+export interface IAtcCheckVariantListOptions {
+  /** Name pattern, `*` as wildcard. Default `*`. */
+  name?: string;
+  /** Default 500. */
+  maxItemCount?: number;
+}
+
+/**
+ * The ATC settings a run depends on: customizing and the check variants, so
+ * tooling can pick the variant it runs with and say what it contains.
+ */
+export interface IAtcConfigurationReadable {
+  getCustomizing(): Promise<IAtcCustomizing>;
+  listCheckVariants(
+    options?: IAtcCheckVariantListOptions,
+  ): Promise<IAtcCheckVariantInfo[]>;
+  getCheckVariant(name: string): Promise<IAtcCheckVariant>;
+}
+
+/**
+ * An ATC run over a package: how it is expanded and chunked, and what each
+ * chunk's run is given. One check variant serves every chunk.
+ */
+export interface IAtcPackageRunOptions extends IPackageRunOptions {
+  checkVariant?: string;
+  /** Per chunk's run, as `IAtcRunOptions.maximumVerdicts`. */
+  maximumVerdicts?: number;
+  /** Compared with the findings of all chunks together. */
+  baseline?: IAtcBaseline | string;
+}
+
+/** The chunks of a package run, merged. */
+export interface IAtcPackageRunResult {
+  packageName: string;
+  checkVariant: string;
+  /** What was checked. */
+  objects: IPackageObject[];
+  /** Objects of kinds ATC is not run on here — programs, for one. */
+  skipped: IPackageObject[];
+  /** One per chunk, in order. */
+  worklistIds: string[];
+  /**
+   * The chunks whose run reached `maximumVerdicts`, by worklist: their
+   * findings may be incomplete.
+   */
+  truncatedWorklistIds: string[];
+  findings: IAtcFinding[];
+  baseline?: IAtcBaselineComparison;
+}
+
+/** ATC over a package rather than an object list. */
+export interface IAtcPackageRunnable {
+  runPackage(
+    packageName: string,
+    options?: IAtcPackageRunOptions,
+  ): Promise<IAtcPackageRunResult>;
+}
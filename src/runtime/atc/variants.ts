@@ -0,0 +1,50 @@
+/**
+ * ATC check variants: the list the system offers, and what one contains.
+ *
+ * The list is the value help behind ADT's variant field, templated in
+ * discovery as `/atc/variants{?maxItemCount,data}` — `data` carries the name
+ * pattern. A variant itself is a repository object (`CHKV`) read from
+ * `/atc/checkvariants/`; neither answer is in the captures, so both are read
+ * loosely.
+ */
+
+import type { IAbapConnection, IAdtResponse } from '@mcp-abap-adt/interfaces';
+import {
+  ACCEPT_ATC_CHECK_VARIANT,
+  ACCEPT_ATC_VARIANTS,
+} from '../../constants/contentTypes';
+import { encodeSapObjectName } from '../../utils/internalUtils';
+import { getTimeout } from '../../utils/timeouts';
+import type { IAtcCheckVariantListOptions } from './types';
+
+const ATC = '/sap/bc/adt/atc';
+
+/** The check variants whose names match `options.name`. */
+export async function getAtcCheckVariants(
+  connection: IAbapConnection,
+  options: IAtcCheckVariantListOptions = {},
+): Promise<IAdtResponse> {
+  const params = new URLSearchParams({
+    maxItemCount: String(options.maxItemCount ?? 500),
+    data: options.name ?? '*',
+  });
+  return connection.makeAdtRequest({
+    url: `${ATC}/variants?${params.toString()}`,
+    method: 'GET',
+    timeout: getTimeout('default'),
+    headers: { Accept: ACCEPT_ATC_VARIANTS },
+  });
+}
+
+/** A check variant object: its description and its checks. */
+export async function getAtcCheckVariant(
+  connection: IAbapConnection,
+  name: string,
+): Promise<IAdtResponse> {
+  return connection.makeAdtRequest({
+    url: `${ATC}/checkvariants/${encodeSapObjectName(name).toLowerCase()}`,
+    method: 'GET',
+    timeout: getTimeout('default'),
+    headers: { Accept: ACCEPT_ATC_CHECK_VARIANT },
+  });
+}
@@ -0,0 +1,328 @@
+import {
+  AdtOperationError,
+  type IAbapConnection,
+  type IAdtResponse,
+  type ILogger,
+} from '@mcp-abap-adt/interfaces';
+import { getTimeout } from '../../utils/timeouts';
+import { checkBreakpointCondition, setBreakpoints } from './abap';
+import { parseBreakpointSyncResults } from './parse';
+import type {
+  DebugBreakpoint,
+  DebugBreakpointInput,
+  IBreakpointManagerOptions,
+  IBreakpointSetExport,
+  IBreakpointSyncResult,
+  IBreakpointValidation,
+} from './types';
+
+const BREAKPOINT_KINDS = ['line', 'statement', 'exception', 'message'];
+
+function breakpointError(code: string, message: string): AdtOperationError {
+  const error = new AdtOperationError(message);
+  error.code = code;
+  return error;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** The fields a breakpoint of each kind cannot do without. */
+function missingField(breakpoint: DebugBreakpointInput): string | undefined {
+  switch (breakpoint.kind) {
+    case 'line':
+      if (!breakpoint.uri) return 'uri';
+      return Number.isInteger(breakpoint.line) && breakpoint.line > 0
+        ? undefined
+        : 'line';
+    case 'statement':
+      return breakpoint.statement ? undefined : 'statement';
+    case 'exception':
+      return breakpoint.exceptionClass ? undefined : 'exceptionClass';
+    case 'message':
+      if (!breakpoint.messageClass) return 'messageClass';
+      return breakpoint.messageNumber ? undefined : 'messageNumber';
+  }
+}
+
+/**
+ * A set of breakpoints kept on the client, the way an IDE keeps them: added,
+ * disabled and removed locally, checked against the current source, and sent
+ * to the server as a whole on `sync()`.
+ *
+ * The set is the reference, not the server: `sync()` replaces every
+ * breakpoint of the scope with the enabled ones of the set, so a breakpoint
+ * removed here is removed there too. Breakpoints keep their client IDs across
+ * syncs and in exported sets; the IDs the server gives them — the ones a stop
+ * reports in `reachedBreakpoints` — map back with `findByServerId()`.
+ */
+export class BreakpointManager {
+  private readonly connection: IAbapConnection;
+  private readonly logger?: ILogger;
+  private readonly options: IBreakpointManagerOptions;
+  private readonly breakpoints = new Map<string, DebugBreakpoint>();
+  private readonly serverIds = new Map<string, string>();
+  private lastId = 0;
+
+  constructor(
+    connection: IAbapConnection,
+    logger: ILogger | undefined,
+    options: IBreakpointManagerOptions,
+  ) {
+    this.connection = connection;
+    this.logger = logger;
+    this.options = options;
+  }
+
+  /**
+   * Add a breakpoint, or replace the one with the same ID. Without an ID it
+   * gets one; a line breakpoint's URI loses its fragment.
+   */
+  add(input: DebugBreakpointInput): DebugBreakpoint {
+    if (!BREAKPOINT_KINDS.includes(input?.kind)) {
+      throw breakpointError(
+        'BREAKPOINT_INVALID',
+        `Unknown breakpoint kind '${(input as { kind?: unknown })?.kind}'`,
+      );
+    }
+    const missing = missingField(input);
+    if (missing) {
+      throw breakpointError(
+        'BREAKPOINT_INVALID',
+        `A ${input.kind} breakpoint needs a valid '${missing}'`,
+      );
+    }
+
+    const breakpoint = {
+      ...input,
+      id: input.id ?? this.nextId(),
+      enabled: input.enabled ?? true,
+    } as DebugBreakpoint;
+    if (breakpoint.kind === 'line') {
+      breakpoint.uri = breakpoint.uri.split('#')[0];
+    }
+    this.breakpoints.set(breakpoint.id, breakpoint);
+    return { ...breakpoint };
+  }
+
+  remove(id: string): boolean {
+    this.serverIds.delete(id);
+    return this.breakpoints.delete(id);
+  }
+
+  clear(): void {
+    this.breakpoints.clear();
+    this.serverIds.clear();
+  }
+
+  get(id: string): DebugBreakpoint | undefined {
+    const breakpoint = this.breakpoints.get(id);
+    return breakpoint && { ...breakpoint };
+  }
+
+  /** The breakpoints of the set, in the order they were added. */
+  list(): DebugBreakpoint[] {
+    return [...this.breakpoints.values()].map((breakpoint) => ({
+      ...breakpoint,
+    }));
+  }
+
+  setEnabled(id: string, enabled: boolean): void {
+    const breakpoint = this.breakpoints.get(id);
+    if (!breakpoint) {
+      throw breakpointError(
+        'BREAKPOINT_NOT_FOUND',
+        `No breakpoint with ID '${id}'`,
+      );
+    }
+    breakpoint.enabled = enabled;
+  }
+
+  /** The breakpoint the server knows by `serverId`, as of the last sync. */
+  findByServerId(serverId: string): DebugBreakpoint | undefined {
+    for (const [id, known] of this.serverIds) {
+      if (known === serverId) return this.get(id);
+    }
+    return undefined;
+  }
+
+  /**
+   * Send the enabled breakpoints to the server, replacing those it holds for
+   * the user in the manager's scope. Resolves with what the server made of
+   * each: its ID for the breakpoint, or why it rejected it.
+   */
+  async sync(): Promise<IBreakpointSyncResult[]> {
+    const enabled = [...this.breakpoints.values()].filter(
+      (breakpoint) => breakpoint.enabled,
+    );
+    const response = await setBreakpoints(this.connection, enabled, {
+      scope: this.options.scope ?? 'external',
+      debuggingMode: this.options.debuggingMode ?? 'user',
+      requestUser: this.options.user,
+      terminalId: this.options.terminalId,
+      ideId: this.options.ideId,
+    });
+    const results = parseBreakpointSyncResults(response.data);
+    if (!results) {
+      throw breakpointError(
+        'BREAKPOINT_UNREADABLE_RESPONSE',
+        'Breakpoint sync response is not in the expected format',
+      );
+    }
+
+    this.serverIds.clear();
+    for (const result of results) {
+      if (result.serverId) this.serverIds.set(result.id, result.serverId);
+      if (result.error) {
+        this.logger?.warn?.(
+          `Breakpoint ${result.id} rejected by the server: ${result.error}`,
+        );
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Check every breakpoint of the set — enabled or not — for what would keep
+   * it from ever stopping: a line past the end of its source, on a blank line
+   * or a comment, a source that cannot be read, or a condition the server
+   * does not accept. Each source is read once.
+   */
+  async validate(): Promise<IBreakpointValidation[]> {
+    const sources = new Map<string, Promise<string[]>>();
+    const readSource = (uri: string): Promise<string[]> => {
+      const known = sources.get(uri);
+      if (known) return known;
+      const lines = this.connection
+        .makeAdtRequest({
+          url: uri,
+          method: 'GET',
+          timeout: getTimeout('default'),
+          headers: { Accept: 'text/plain' },
+        })
+        .then((response: IAdtResponse) =>
+          String(response.data ?? '').split(/\r?\n/),
+        );
+      sources.set(uri, lines);
+      return lines;
+    };
+
+    const validations: IBreakpointValidation[] = [];
+    for (const breakpoint of this.breakpoints.values()) {
+      const reason =
+        (breakpoint.kind === 'line'
+          ? await this.lineProblem(breakpoint.line, () =>
+              readSource(breakpoint.uri),
+            )
+          : undefined) ??
+        (breakpoint.condition
+          ? await this.conditionProblem(breakpoint.condition)
+          : undefined);
+      validations.push(
+        reason
+          ? { id: breakpoint.id, valid: false, reason }
+          : { id: breakpoint.id, valid: true },
+      );
+    }
+    return validations;
+  }
+
+  /** The set as plain data, for `JSON.stringify()` and `importSet()`. */
+  exportSet(): IBreakpointSetExport {
+    return { version: 1, breakpoints: this.list() };
+  }
+
+  /**
+   * Add the breakpoints of an exported set — or, with `replace`, swap the
+   * whole set for them. As with `add()`, an imported breakpoint replaces the
+   * one with its ID. A set that is not one, or holds a breakpoint that
+   * `add()` refuses, fails with `BREAKPOINT_INVALID_SET` and changes nothing.
+   */
+  importSet(
+    set: IBreakpointSetExport | string,
+    options: { replace?: boolean } = {},
+  ): DebugBreakpoint[] {
+    let parsed: unknown = set;
+    if (typeof set === 'string') {
+      try {
+        parsed = JSON.parse(set);
+      } catch (error) {
+        throw breakpointError(
+          'BREAKPOINT_INVALID_SET',
+          `Breakpoint set is not JSON: ${errorMessage(error)}`,
+        );
+      }
+    }
+    const candidate = parsed as Partial<IBreakpointSetExport> | null;
+    if (candidate?.version !== 1 || !Array.isArray(candidate.breakpoints)) {
+      throw breakpointError(
+        'BREAKPOINT_INVALID_SET',
+        'Not a breakpoint set (version 1 with a breakpoints array)',
+      );
+    }
+
+    // Check every entry on a scratch manager before touching this set.
+    const scratch = new BreakpointManager(
+      this.connection,
+      undefined,
+      this.options,
+    );
+    try {
+      for (const breakpoint of candidate.breakpoints) scratch.add(breakpoint);
+    } catch (error) {
+      throw breakpointError(
+        'BREAKPOINT_INVALID_SET',
+        `Breakpoint set holds an invalid breakpoint: ${errorMessage(error)}`,
+      );
+    }
+
+    if (options.replace) this.clear();
+    // The entries, not the scratch copies: an entry without an ID gets one
+    // from this set, where the scratch one could name a breakpoint it holds.
+    return candidate.breakpoints.map((breakpoint) => this.add(breakpoint));
+  }
+
+  private nextId(): string {
+    let id: string;
+    do {
+      id = `bp${++this.lastId}`;
+    } while (this.breakpoints.has(id));
+    return id;
+  }
+
+  private async lineProblem(
+    line: number,
+    readSource: () => Promise<string[]>,
+  ): Promise<string | undefined> {
+    let lines: string[];
+    try {
+      lines = await readSource();
+    } catch (error) {
+      return `Source not readable: ${errorMessage(error)}`;
+    }
+    if (line > lines.length) {
+      return `Line ${line} is past the end of the source (${lines.length} lines)`;
+    }
+    const text = lines[line - 1];
+    if (
+      text.trim() === '' ||
+      text.startsWith('*') ||
+      text.trim().startsWith('"')
+    ) {
+      return `Line ${line} is blank or a comment`;
+    }
+    return undefined;
+  }
+
+  private async conditionProblem(
+    condition: string,
+  ): Promise<string | undefined> {
+    try {
+      await checkBreakpointCondition(this.connection, condition);
+      return undefined;
+    } catch (error) {
+      return `Condition not accepted: ${errorMessage(error)}`;
+    }
+  }
+}
@@ -0,0 +1,436 @@
+import {
+  AdtOperationError,
+  type IAbapConnection,
+  type IAdtResponse,
+  type ILogger,
+} from '@mcp-abap-adt/interfaces';
+import { parseBatchResponse } from '../../batch/parseBatchResponse';
+import { getTimeout } from '../../utils/timeouts';
+import {
+  attachDebugger,
+  executeDebuggerStepBatch,
+  getCallStack,
+  getDebuggerChildVariables,
+  type IAbapDebuggerStepMethod,
+  launchDebugger,
+  stopDebugger,
+} from './abap';
+import {
+  type IDebugStepResult,
+  parseDebuggee,
+  parseDebugStack,
+  parseDebugStepResult,
+  parseDebugVariables,
+} from './parse';
+import type {
+  DebugSessionState,
+  IDebuggee,
+  IDebugListenOptions,
+  IDebugSessionOptions,
+  IDebugSnapshot,
+  IDebugStackFrame,
+  IDebugStepUntilOptions,
+  IDebugVariable,
+} from './types';
+
+/** Parent ID of the variable tree's top level. */
+const ROOT_VARIABLE_ID = '@ROOT';
+
+function debugError(
+  code: string,
+  message: string,
+  response?: unknown,
+): AdtOperationError {
+  const error = new AdtOperationError(message);
+  error.code = code;
+  if (response !== undefined) error.response = response;
+  return error;
+}
+
+function unreadable(what: string): AdtOperationError {
+  return debugError(
+    'DEBUG_UNREADABLE_RESPONSE',
+    `${what} is not in the expected format`,
+  );
+}
+
+function withoutFragment(uri: string): string {
+  const hash = uri.indexOf('#');
+  return hash === -1 ? uri : uri.slice(0, hash);
+}
+
+/**
+ * One debugging session for one user: listen for a debuggee, attach to it,
+ * step, and read where it stands after every stop.
+ *
+ * The functions in `abap.ts` send single debugger requests and hand back raw
+ * responses; this class keeps the state between them — the stateful session
+ * the debuggee is attached in, the snapshot of the last stop — and reads each
+ * stop into an {@link IDebugSnapshot}: the call stack, the variable tree to
+ * `variableDepth` levels, and the current statement.
+ *
+ * Every step sends the step and a stack read in one `$batch`, so the frame of
+ * a stop is never read against a later one. A step that finds the debuggee
+ * gone ends the session and returns null; the connection is set back to
+ * stateless then, or on `terminate()`.
+ */
+export class DebugSession {
+  private readonly connection: IAbapConnection;
+  private readonly logger?: ILogger;
+  private readonly options: IDebugSessionOptions;
+  private sessionState: DebugSessionState = 'idle';
+  private snapshot: IDebugSnapshot | null = null;
+  private readonly sourceLines = new Map<string, string[] | null>();
+
+  constructor(
+    connection: IAbapConnection,
+    logger: ILogger | undefined,
+    options: IDebugSessionOptions,
+  ) {
+    this.connection = connection;
+    this.logger = logger;
+    this.options = options;
+  }
+
+  get state(): DebugSessionState {
+    return this.sessionState;
+  }
+
+  /** The snapshot of the last stop; null before attaching and once ended. */
+  get current(): IDebugSnapshot | null {
+    return this.snapshot;
+  }
+
+  /**
+   * Wait for a program of the session's user to reach a breakpoint. Resolves
+   * with the debuggee, or null when the listener timed out or was stopped.
+   */
+  async listen(options: IDebugListenOptions = {}): Promise<IDebuggee | null> {
+    if (this.sessionState === 'attached' || this.sessionState === 'listening') {
+      throw debugError(
+        'DEBUG_INVALID_STATE',
+        `Cannot listen while the session is ${this.sessionState}`,
+      );
+    }
+    this.sessionState = 'listening';
+    try {
+      const response = await launchDebugger(this.connection, {
+        debuggingMode: this.debuggingMode,
+        requestUser: this.options.user,
+        terminalId: this.options.terminalId,
+        ideId: this.options.ideId,
+        timeout: options.timeoutSeconds ?? 240,
+      });
+      return parseDebuggee(response.data);
+    } finally {
+      if (this.sessionState === 'listening') this.sessionState = 'idle';
+    }
+  }
+
+  /**
+   * Stop listening. A `listen()` waiting for a debuggee resolves with null.
+   */
+  async stop(): Promise<void> {
+    await stopDebugger(this.connection, {
+      debuggingMode: this.debuggingMode,
+      requestUser: this.options.user,
+      terminalId: this.options.terminalId,
+      ideId: this.options.ideId,
+    });
+  }
+
+  /**
+   * Attach to a debuggee `listen()` returned, and read the stop it waits at.
+   * Resolves with null when the debuggee is already gone.
+   */
+  async attach(debuggee: IDebuggee | string): Promise<IDebugSnapshot | null> {
+    if (this.sessionState === 'attached') {
+      throw debugError(
+        'DEBUG_INVALID_STATE',
+        'The session is already attached to a debuggee',
+      );
+    }
+    const debuggeeId = typeof debuggee === 'string' ? debuggee : debuggee.id;
+
+    this.connection.setSessionType('stateful');
+    this.sessionState = 'attached';
+    try {
+      const attached = await attachDebugger(this.connection, debuggeeId, {
+        debuggingMode: this.debuggingMode,
+        requestUser: this.options.user,
+      });
+      const result = parseDebugStepResult(attached.data);
+      if (!result) throw unreadable(`Attach to debuggee '${debuggeeId}'`);
+      if (!result.steppingPossible) return this.end();
+
+      const stack = await getCallStack(this.connection);
+      return await this.stopAt(result, stack.data);
+    } catch (error) {
+      this.end();
+      throw error;
+    }
+  }
+
+  async stepInto(): Promise<IDebugSnapshot | null> {
+    return this.step('stepInto');
+  }
+
+  async stepOver(): Promise<IDebugSnapshot | null> {
+    return this.step('stepOver');
+  }
+
+  async stepOut(): Promise<IDebugSnapshot | null> {
+    return this.step('stepOut');
+  }
+
+  /** Run to the next breakpoint, or to the end. */
+  async continue(): Promise<IDebugSnapshot | null> {
+    return this.step('stepContinue');
+  }
+
+  /**
+   * Run to a line — of the include the debugger stands in, when given only a
+   * line number. Stops earlier at a breakpoint on the way.
+   */
+  async runToLine(
+    target: number | { uri: string; line: number },
+  ): Promise<IDebugSnapshot | null> {
+    const { uri, line } =
+      typeof target === 'number'
+        ? { uri: this.requireSnapshot().statement.uri, line: target }
+        : target;
+    if (!uri) {
+      throw debugError(
+        'DEBUG_NO_SOURCE_URI',
+        'The current stack frame has no source URI; pass one to runToLine()',
+      );
+    }
+    return this.step('stepRunToLine', `${withoutFragment(uri)}#start=${line}`);
+  }
+
+  /**
+   * Step until `predicate` holds for a stop, and resolve with that stop — or
+   * with null when the debuggee ends first. Gives up with `DEBUG_STEP_LIMIT`
+   * after `maxSteps` steps.
+   */
+  async stepUntil(
+    predicate: (snapshot: IDebugSnapshot) => boolean | Promise<boolean>,
+    options: IDebugStepUntilOptions = {},
+  ): Promise<IDebugSnapshot | null> {
+    const step = options.step ?? 'stepOver';
+    const maxSteps = options.maxSteps ?? 100;
+    for (let taken = 0; taken < maxSteps; taken++) {
+      const snapshot = await this.step(step);
+      if (!snapshot || (await predicate(snapshot))) return snapshot;
+    }
+    throw debugError(
+      'DEBUG_STEP_LIMIT',
+      `Condition not reached within ${maxSteps} steps`,
+    );
+  }
+
+  /** End the debuggee, and with it the session. */
+  async terminate(): Promise<void> {
+    this.requireSnapshot();
+    try {
+      await executeDebuggerStepBatch(this.connection, 'terminateDebuggee');
+    } finally {
+      this.end();
+    }
+  }
+
+  /**
+   * The children of a node of the variable tree, one level; the top level
+   * without a parent ID.
+   */
+  async getVariables(parentId = ROOT_VARIABLE_ID): Promise<IDebugVariable[]> {
+    this.requireSnapshot();
+    const children = await this.readChildren([parentId]);
+    return children.get(parentId) ?? [];
+  }
+
+  /**
+   * The value of a variable in the current snapshot's tree, found by name
+   * (case-insensitive, `LS_ROW-FIELD` for a component read to that depth).
+   */
+  valueOf(name: string): string | undefined {
+    const wanted = name.toUpperCase();
+    const search = (nodes: IDebugVariable[]): IDebugVariable | undefined => {
+      for (const node of nodes) {
+        if (node.value !== undefined && node.name.toUpperCase() === wanted) {
+          return node;
+        }
+        const found = node.children && search(node.children);
+        if (found) return found;
+      }
+      return undefined;
+    };
+    return search(this.snapshot?.variables ?? [])?.value;
+  }
+
+  private get debuggingMode(): string {
+    return this.options.debuggingMode ?? 'user';
+  }
+
+  private requireSnapshot(): IDebugSnapshot {
+    if (this.sessionState !== 'attached' || !this.snapshot) {
+      throw debugError(
+        'DEBUG_NOT_ATTACHED',
+        `The session is not attached to a debuggee (state: ${this.sessionState})`,
+      );
+    }
+    return this.snapshot;
+  }
+
+  private end(): null {
+    if (this.sessionState === 'attached') {
+      this.connection.setSessionType('stateless');
+    }
+    this.sessionState = 'ended';
+    this.snapshot = null;
+    return null;
+  }
+
+  private async step(
+    method: IAbapDebuggerStepMethod,
+    uri?: string,
+  ): Promise<IDebugSnapshot | null> {
+    this.requireSnapshot();
+    const response = await executeDebuggerStepBatch(
+      this.connection,
+      method,
+      uri,
+    );
+    const [stepPart, stackPart] = this.readBatch(response, method);
+    if (stepPart.status >= 400) {
+      throw debugError(
+        'DEBUG_STEP_FAILED',
+        `Debugger step '${method}' failed: HTTP ${stepPart.status}`,
+        stepPart,
+      );
+    }
+
+    const result = parseDebugStepResult(stepPart.data);
+    if (!result) throw unreadable(`Result of debugger step '${method}'`);
+    if (!result.steppingPossible) return this.end();
+    if (stackPart && stackPart.status < 400) {
+      return this.stopAt(result, stackPart.data);
+    }
+    // The debuggee stopped but its stack part failed: read the stack again
+    // rather than take the missing frames for the end of the run.
+    const stack = await getCallStack(this.connection);
+    return this.stopAt(result, stack.data);
+  }
+
+  private readBatch(
+    response: IAdtResponse,
+    method: string,
+  ): { status: number; data: unknown }[] {
+    const contentType = String(response.headers?.['content-type'] ?? '');
+    try {
+      const parts = parseBatchResponse(
+        String(response.data ?? ''),
+        contentType,
+      );
+      if (parts.length > 0) return parts;
+    } catch {
+      // Reported as unreadable below.
+    }
+    throw unreadable(`Batch response to debugger step '${method}'`);
+  }
+
+  private async stopAt(
+    result: IDebugStepResult,
+    stackBody: unknown,
+  ): Promise<IDebugSnapshot | null> {
+    const frames = parseDebugStack(stackBody);
+    if (!frames) throw unreadable('Call stack');
+    // No frame to stand in: the debuggee ran to its end.
+    if (frames.length === 0) return this.end();
+
+    const [frame] = frames;
+    const snapshot: IDebugSnapshot = {
+      frames,
+      statement: {
+        program: frame.program,
+        include: frame.include,
+        line: frame.line,
+        uri: frame.uri,
+        source: await this.readSourceLine(frame),
+      },
+      variables: await this.readTree(),
+      reachedBreakpoints: result.reachedBreakpoints,
+    };
+    this.snapshot = snapshot;
+    return snapshot;
+  }
+
+  private async readChildren(
+    parentIds: string[],
+  ): Promise<Map<string, IDebugVariable[]>> {
+    const response = await getDebuggerChildVariables(
+      this.connection,
+      parentIds,
+    );
+    const children = parseDebugVariables(response.data);
+    if (!children) throw unreadable('Child variables response');
+    return children;
+  }
+
+  /**
+   * Read the variable tree level by level, one request per level. Internal
+   * tables stay collapsed: their lines are read on demand, not at every stop.
+   */
+  private async readTree(): Promise<IDebugVariable[]> {
+    const depth = this.options.variableDepth ?? 2;
+    if (depth < 1) return [];
+
+    const roots = (await this.readChildren([ROOT_VARIABLE_ID])).get(
+      ROOT_VARIABLE_ID,
+    );
+    let level = roots ?? [];
+    for (let read = 1; read < depth; read++) {
+      const expand = level.filter(
+        (node) => node.expandable && node.metaType !== 'table',
+      );
+      if (expand.length === 0) break;
+      const children = await this.readChildren(expand.map(({ id }) => id));
+      level = [];
+      for (const node of expand) {
+        node.children = children.get(node.id) ?? [];
+        level.push(...node.children);
+      }
+    }
+    return roots ?? [];
+  }
+
+  /**
+   * The source line a frame stands at. Each include is read once per session;
+   * a source that cannot be read leaves the statement without one.
+   */
+  private async readSourceLine(
+    frame: IDebugStackFrame,
+  ): Promise<string | undefined> {
+    if (this.options.readStatementSource === false || !frame.uri) {
+      return undefined;
+    }
+    const url = withoutFragment(frame.uri);
+    if (!this.sourceLines.has(url)) {
+      try {
+        const response = await this.connection.makeAdtRequest({
+          url,
+          method: 'GET',
+          timeout: getTimeout('default'),
+          headers: { Accept: 'text/plain' },
+        });
+        this.sourceLines.set(url, String(response.data ?? '').split(/\r?\n/));
+      } catch (error) {
+        this.logger?.debug?.(
+          `Source of ${url} not readable: ${error instanceof Error ? error.message : String(error)}`,
+        );
+        this.sourceLines.set(url, null);
+      }
+    }
+    return this.sourceLines.get(url)?.[frame.line - 1];
+  }
+}
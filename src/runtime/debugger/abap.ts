@@ -5,11 +5,13 @@
  * - Debugger listeners (launch, stop, get)
  * - Memory sizes
  * - System areas
- * - Breakpoints (synchronize, statements, message types, conditions, validation, VIT)
+ * - Breakpoints (synchronize, set, statements, message types, conditions,
+ *   condition check, validation, VIT)
  * - Variables (max length, subcomponents, CSV, JSON, value statement)
  * - Actions (execute debugger actions)
  * - Call stack
  * - Watchpoints (insert, get)
+ * - Attach to a debuggee, child variables
  * - Batch requests
  */
 
@@ -19,6 +21,8 @@ import {
   createRequestId,
 } from '../../batch/buildBatchPayload';
 import { getTimeout } from '../../utils/timeouts';
+import { escapeXmlAttr } from '../../utils/xml';
+import type { DebugBreakpoint } from './types';
 
 /**
  * Launch debugger
@@ -366,6 +370,120 @@ export async function getVitBreakpoints(
   });
 }
 
+/**
+ * Set breakpoints options
+ */
+export interface ISetBreakpointsOptions {
+  /** Default `external`. */
+  scope?: 'external' | 'debugger';
+  debuggingMode?: string;
+  requestUser?: string;
+  terminalId?: string;
+  ideId?: string;
+  /**
+   * `full` replaces every breakpoint of the scope with the ones sent;
+   * `partial` adds them. Default `full`.
+   */
+  syncMode?: 'full' | 'partial';
+}
+
+function breakpointXml(breakpoint: DebugBreakpoint): string {
+  const attributes: Record<string, string | undefined> = {
+    kind: breakpoint.kind,
+    clientId: breakpoint.id,
+    condition: breakpoint.condition,
+  };
+  switch (breakpoint.kind) {
+    case 'line':
+      attributes['adtcore:uri'] = `${breakpoint.uri}#start=${breakpoint.line}`;
+      break;
+    case 'statement':
+      attributes.statement = breakpoint.statement;
+      break;
+    case 'exception':
+      attributes.exceptionClass = breakpoint.exceptionClass;
+      break;
+    case 'message':
+      attributes.messageId = breakpoint.messageClass;
+      attributes.messageNumber = breakpoint.messageNumber;
+      attributes.messageType = breakpoint.messageType;
+      break;
+  }
+  const rendered = Object.entries(attributes)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([name, value]) => `${name}="${escapeXmlAttr(value as string)}"`)
+    .join(' ');
+  return `<breakpoint ${rendered}/>`;
+}
+
+/**
+ * Set breakpoints
+ *
+ * Unlike `synchronizeBreakpoints()`, which reads what the server holds, this
+ * sends a breakpoint set. With the default `full` sync mode, breakpoints of the
+ * scope that are not sent are removed.
+ *
+ * @param connection - ABAP connection
+ * @param breakpoints - Breakpoints to set
+ * @param options - Scope, user and sync mode
+ * @returns Axios response with the breakpoints as the server took them (server IDs, errors)
+ */
+export async function setBreakpoints(
+  connection: IAbapConnection,
+  breakpoints: DebugBreakpoint[],
+  options?: ISetBreakpointsOptions,
+): Promise<IAdtResponse> {
+  const scope: Record<string, string | undefined> = {
+    scope: options?.scope ?? 'external',
+    debuggingMode: options?.debuggingMode,
+    requestUser: options?.requestUser,
+    terminalId: options?.terminalId,
+    ideId: options?.ideId,
+  };
+  const scopeAttributes = Object.entries(scope)
+    .filter(([, value]) => value)
+    .map(([name, value]) => ` ${name}="${escapeXmlAttr(value as string)}"`)
+    .join('');
+
+  return connection.makeAdtRequest({
+    url: '/sap/bc/adt/debugger/breakpoints',
+    method: 'POST',
+    timeout: getTimeout('default'),
+    data: `<?xml version="1.0" encoding="UTF-8"?><dbg:breakpoints xmlns:dbg="http://www.sap.com/adt/debugger" xmlns:adtcore="http://www.sap.com/adt/core"${scopeAttributes}><syncScope mode="${options?.syncMode ?? 'full'}"/>${breakpoints.map(breakpointXml).join('')}</dbg:breakpoints>`,
+    headers: {
+      'Content-Type': 'application/xml',
+      Accept: 'application/xml',
+    },
+  });
+}
+
+/**
+ * Check the syntax of a breakpoint condition
+ *
+ * @param connection - ABAP connection
+ * @param condition - ABAP condition, e.g. `lv_count > 10`
+ * @returns Axios response; a condition that does not parse is answered with an error status
+ */
+export async function checkBreakpointCondition(
+  connection: IAbapConnection,
+  condition: string,
+): Promise<IAdtResponse> {
+  if (!condition) {
+    throw new Error('Condition is required');
+  }
+
+  return connection.makeAdtRequest({
+    url: '/sap/bc/adt/debugger/breakpoints/conditions',
+    method: 'POST',
+    timeout: getTimeout('default'),
+    data: `<?xml version="1.0" encoding="UTF-8"?><dbg:condition xmlns:dbg="http://www.sap.com/adt/debugger" condition="${escapeXmlAttr(condition)}"/>`,
+    headers: {
+      'Content-Type': 'application/xml',
+      Accept: 'application/xml',
+    },
+  });
+}
+
 /**
  * Get variable max length
  *
@@ -725,6 +843,91 @@ export async function getWatchpoints(
   });
 }
 
+/**
+ * Attach options
+ */
+export interface IAttachDebuggerOptions {
+  debuggingMode?: string;
+  requestUser?: string;
+  dynproDebugging?: boolean;
+}
+
+/**
+ * Attach to a debuggee a listener reported
+ *
+ * @param connection - ABAP connection (stateful for the rest of the session)
+ * @param debuggeeId - `DEBUGGEE_ID` from the listener response
+ * @param options - Attach options
+ * @returns Axios response with the attach result (reached breakpoints, stepping flags)
+ */
+export async function attachDebugger(
+  connection: IAbapConnection,
+  debuggeeId: string,
+  options?: IAttachDebuggerOptions,
+): Promise<IAdtResponse> {
+  if (!debuggeeId) {
+    throw new Error('Debuggee ID is required');
+  }
+
+  const params: Record<string, string | number | boolean> = {
+    method: 'attach',
+    debuggeeId,
+    dynproDebugging: options?.dynproDebugging ?? true,
+  };
+  if (options?.debuggingMode) params.debuggingMode = options.debuggingMode;
+  if (options?.requestUser) params.requestUser = options.requestUser;
+
+  return connection.makeAdtRequest({
+    url: '/sap/bc/adt/debugger',
+    method: 'POST',
+    timeout: getTimeout('default'),
+    params,
+    headers: {
+      Accept: 'application/xml',
+    },
+  });
+}
+
+/**
+ * Get the child variables of variable tree nodes
+ *
+ * `@ROOT` is the top of the tree; its children are groups such as locals and
+ * parameters, whose children are the variables themselves.
+ *
+ * @param connection - ABAP connection
+ * @param parentIds - IDs of the nodes to expand
+ * @returns Axios response with hierarchy entries and variable descriptions
+ */
+export async function getDebuggerChildVariables(
+  connection: IAbapConnection,
+  parentIds: string[],
+): Promise<IAdtResponse> {
+  if (!parentIds.length) {
+    throw new Error('At least one parent ID is required');
+  }
+
+  const hierarchies = parentIds
+    .map(
+      (id) =>
+        `<STPDA_ADT_VARIABLE_HIERARCHY><PARENT_ID>${escapeXmlAttr(id)}</PARENT_ID></STPDA_ADT_VARIABLE_HIERARCHY>`,
+    )
+    .join('');
+  const contentType =
+    'application/vnd.sap.as+xml; charset=UTF-8; dataname=com.sap.adt.debugger.ChildVariables';
+
+  return connection.makeAdtRequest({
+    url: '/sap/bc/adt/debugger',
+    method: 'POST',
+    timeout: getTimeout('default'),
+    params: { method: 'getChildVariables' },
+    data: `<?xml version="1.0" encoding="UTF-8"?><asx:abap version="1.0" xmlns:asx="http://www.sap.com/abapxml"><asx:values><DATA><HIERARCHIES>${hierarchies}</HIERARCHIES></DATA></asx:values></asx:abap>`,
+    headers: {
+      'Content-Type': contentType,
+      Accept: contentType,
+    },
+  });
+}
+
 /**
  * Execute batch request
  *
@@ -754,7 +957,14 @@ export async function executeBatchRequest(
   });
 }
 
-export type IAbapDebuggerStepMethod = 'stepInto' | 'stepOut' | 'stepContinue';
+export type IAbapDebuggerStepMethod =
+  | 'stepInto'
+  | 'stepOver'
+  | 'stepOut'
+  | 'stepContinue'
+  | 'stepRunToLine'
+  | 'stepJumpToLine'
+  | 'terminateDebuggee';
 
 export interface IDebuggerBatchPayload {
   boundary: string;
@@ -792,11 +1002,17 @@ export function buildDebuggerBatchPayload(
   };
 }
 
+/**
+ * @param uri - Target of `stepRunToLine` / `stepJumpToLine`: a source URI with
+ *   a `#start=<line>` fragment
+ */
 export function buildDebuggerStepWithStackBatchPayload(
   stepMethod: IAbapDebuggerStepMethod,
+  uri?: string,
 ): IDebuggerBatchPayload {
+  const target = uri ? `&uri=${encodeURIComponent(uri)}` : '';
   const stepRequest = [
-    `POST /sap/bc/adt/debugger?method=${stepMethod} HTTP/1.1`,
+    `POST /sap/bc/adt/debugger?method=${stepMethod}${target} HTTP/1.1`,
     `sap-adt-request-id:${createRequestId()}`,
     'Accept:application/xml',
   ].join('\r\n');
@@ -813,8 +1029,9 @@ export function buildDebuggerStepWithStackBatchPayload(
 export async function executeDebuggerStepBatch(
   connection: IAbapConnection,
   stepMethod: IAbapDebuggerStepMethod,
+  uri?: string,
 ): Promise<IAdtResponse> {
-  const payload = buildDebuggerStepWithStackBatchPayload(stepMethod);
+  const payload = buildDebuggerStepWithStackBatchPayload(stepMethod, uri);
 
   return connection.makeAdtRequest({
     url: '/sap/bc/adt/debugger/batch',
@@ -4,10 +4,17 @@
 
 export { AbapDebugger } from './AbapDebugger';
 export { AmdpDebugger } from './AmdpDebugger';
-export type { IDebuggerBatchPayload } from './abap';
+export type {
+  IAbapDebuggerStepMethod,
+  IAttachDebuggerOptions,
+  IDebuggerBatchPayload,
+  ISetBreakpointsOptions,
+} from './abap';
 export {
+  attachDebugger,
   buildDebuggerBatchPayload,
   buildDebuggerStepWithStackBatchPayload,
+  checkBreakpointCondition,
   executeBatchRequest,
   executeDebuggerAction,
   executeDebuggerStepBatch,
@@ -16,6 +23,7 @@ export {
   getBreakpointStatements,
   getCallStack,
   getDebugger,
+  getDebuggerChildVariables,
   getMemorySizes,
   getSystemArea,
   getVariableAsCsv,
@@ -27,6 +35,7 @@ export {
   getWatchpoints,
   insertWatchpoint,
   launchDebugger,
+  setBreakpoints,
   stepContinueDebuggerBatch,
   stepIntoDebuggerBatch,
   stepOutDebuggerBatch,
@@ -34,4 +43,35 @@ export {
   synchronizeBreakpoints,
   validateBreakpoints,
 } from './abap';
+export { BreakpointManager } from './BreakpointManager';
 export { Debugger } from './Debugger';
+export { DebugSession } from './DebugSession';
+export type { IDebugStepResult } from './parse';
+export {
+  parseBreakpointSyncResults,
+  parseDebuggee,
+  parseDebugStack,
+  parseDebugStepResult,
+  parseDebugVariables,
+} from './parse';
+export type {
+  DebugBreakpoint,
+  DebugBreakpointInput,
+  DebugSessionState,
+  IBreakpointManagerOptions,
+  IBreakpointSetExport,
+  IBreakpointSyncResult,
+  IBreakpointValidation,
+  IDebuggee,
+  IDebugListenOptions,
+  IDebugSessionOptions,
+  IDebugSnapshot,
+  IDebugStackFrame,
+  IDebugStatement,
+  IDebugStepUntilOptions,
+  IDebugVariable,
+  IExceptionBreakpoint,
+  ILineBreakpoint,
+  IMessageBreakpoint,
+  IStatementBreakpoint,
+} from './types';
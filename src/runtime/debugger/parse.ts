@@ -0,0 +1,196 @@
+/**
+ * Runtime Debugger - reading listener, attach/step, stack, variable and
+ * breakpoint responses
+ *
+ * The listener and the variable tree answer in `asx:abap` documents, where
+ * every value is a field element (`DEBUGGEE_ID`, `META_TYPE`); attach, step,
+ * stack and breakpoints answer in `dbg:` documents, where values are
+ * attributes (`isSteppingPossible`, `programName`, `clientId`). Each reader
+ * finds the element that carries the field it needs, wherever it sits.
+ */
+
+import {
+  attribute,
+  childText,
+  findElements,
+  numericAttribute,
+  parseXml,
+  type XmlNode,
+} from '../xmlNodes';
+import type {
+  IBreakpointSyncResult,
+  IDebuggee,
+  IDebugStackFrame,
+  IDebugVariable,
+} from './types';
+
+function toNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * The debuggee a listener returned, or null when it returned none — the
+ * listener timed out, or was stopped.
+ */
+export function parseDebuggee(body: unknown): IDebuggee | null {
+  const root = parseXml(body);
+  if (!root) return null;
+  const [entry] = findElements(
+    root,
+    (element) => childText(element, 'DEBUGGEE_ID') !== undefined,
+  );
+  const id = entry && childText(entry, 'DEBUGGEE_ID');
+  if (!entry || !id) return null;
+
+  return {
+    id,
+    user: childText(entry, 'DEBUGGEE_USER') || undefined,
+    program: childText(entry, 'PROGRAM_CURRENT') || undefined,
+    include: childText(entry, 'INCLUDE_CURRENT') || undefined,
+    line: toNumber(childText(entry, 'LINE_CURRENT')),
+    terminalId: childText(entry, 'TERMINAL_ID') || undefined,
+    ideId: childText(entry, 'IDE_ID') || undefined,
+  };
+}
+
+export interface IDebugStepResult {
+  /** False once the debuggee has ended and there is nothing left to step. */
+  steppingPossible: boolean;
+  terminationPossible: boolean;
+  reachedBreakpoints: string[];
+}
+
+/**
+ * The result of an attach or a step, or null when the body is not XML. A flag
+ * the server leaves out counts as set: only an explicit `false` says the
+ * debuggee is gone.
+ */
+export function parseDebugStepResult(body: unknown): IDebugStepResult | null {
+  const document = parseXml(body);
+  if (!document) return null;
+  const [root] = findElements(
+    document,
+    (element) =>
+      attribute(element, 'isSteppingPossible') !== undefined ||
+      attribute(element, 'isTerminationPossible') !== undefined,
+  );
+
+  return {
+    steppingPossible:
+      !root || attribute(root, 'isSteppingPossible') !== 'false',
+    terminationPossible:
+      !root || attribute(root, 'isTerminationPossible') !== 'false',
+    reachedBreakpoints: findElements(
+      document,
+      (element, name) =>
+        name === 'breakpoint' && attribute(element, 'id') !== undefined,
+    ).map((breakpoint) => attribute(breakpoint, 'id') as string),
+  };
+}
+
+/**
+ * The call stack, the frame the debugger stands in first, or null when the
+ * body is not XML.
+ */
+export function parseDebugStack(body: unknown): IDebugStackFrame[] | null {
+  const root = parseXml(body);
+  if (!root) return null;
+
+  return findElements(
+    root,
+    (element) => attribute(element, 'programName') !== undefined,
+  )
+    .map(
+      (entry: XmlNode): IDebugStackFrame => ({
+        position: numericAttribute(entry, 'stackPosition') ?? 0,
+        program: attribute(entry, 'programName') as string,
+        include: attribute(entry, 'includeName') ?? '',
+        line: numericAttribute(entry, 'line') ?? 0,
+        eventType: attribute(entry, 'eventType') || undefined,
+        eventName: attribute(entry, 'eventName') || undefined,
+        uri: attribute(entry, 'uri') || undefined,
+        systemProgram: attribute(entry, 'systemProgram') === 'true',
+      }),
+    )
+    .sort((a, b) => b.position - a.position);
+}
+
+/** Meta types whose nodes have no children. */
+const LEAF_META_TYPES = new Set(['simple', 'string', 'boxedcomp', '']);
+
+/**
+ * The children of each node a `getChildVariables` request expanded, by parent
+ * ID, in the order the server listed them; null when the body is not XML.
+ *
+ * A child without a variable entry is a group (locals, parameters, …) and is
+ * always expandable.
+ */
+export function parseDebugVariables(
+  body: unknown,
+): Map<string, IDebugVariable[]> | null {
+  const root = parseXml(body);
+  if (!root) return null;
+
+  const variables = new Map<string, XmlNode>();
+  for (const variable of findElements(
+    root,
+    (element, name) =>
+      name === 'STPDA_ADT_VARIABLE' && childText(element, 'ID') !== undefined,
+  )) {
+    variables.set(childText(variable, 'ID') as string, variable);
+  }
+
+  const children = new Map<string, IDebugVariable[]>();
+  for (const link of findElements(
+    root,
+    (element) => childText(element, 'CHILD_ID') !== undefined,
+  )) {
+    const parentId = childText(link, 'PARENT_ID') ?? '';
+    const id = childText(link, 'CHILD_ID') as string;
+    const variable = variables.get(id);
+    const metaType = variable && childText(variable, 'META_TYPE');
+    const node: IDebugVariable = variable
+      ? {
+          id,
+          name:
+            childText(variable, 'NAME') || childText(link, 'CHILD_NAME') || id,
+          value: childText(variable, 'VALUE') ?? '',
+          declaredType: childText(variable, 'DECLARED_TYPE_NAME') || undefined,
+          actualType: childText(variable, 'ACTUAL_TYPE_NAME') || undefined,
+          metaType: metaType || undefined,
+          tableLines: toNumber(childText(variable, 'TABLE_LINES')),
+          expandable: !LEAF_META_TYPES.has(metaType ?? ''),
+        }
+      : {
+          id,
+          name: childText(link, 'CHILD_NAME') || id,
+          expandable: true,
+        };
+    const siblings = children.get(parentId) ?? [];
+    siblings.push(node);
+    children.set(parentId, siblings);
+  }
+  return children;
+}
+
+/**
+ * What the server made of each breakpoint sent by `setBreakpoints()`, keyed by
+ * the client ID it was sent with; null when the body is not XML.
+ */
+export function parseBreakpointSyncResults(
+  body: unknown,
+): IBreakpointSyncResult[] | null {
+  const root = parseXml(body);
+  if (!root) return null;
+
+  return findElements(
+    root,
+    (element) => attribute(element, 'clientId') !== undefined,
+  ).map((entry) => ({
+    id: attribute(entry, 'clientId') as string,
+    serverId: attribute(entry, 'id') || undefined,
+    error: attribute(entry, 'errorMessage') || undefined,
+  }));
+}
@@ -0,0 +1,195 @@
+/**
+ * Debug session and breakpoint types.
+ *
+ * What `DebugSession` hands out after every stop, and the breakpoints
+ * `BreakpointManager` keeps. The raw calls in `abap.ts` keep returning
+ * responses; these are the shapes read out of them.
+ */
+
+/** A program waiting in the debugger, as a listener reported it. */
+export interface IDebuggee {
+  id: string;
+  user?: string;
+  program?: string;
+  include?: string;
+  line?: number;
+  terminalId?: string;
+  ideId?: string;
+}
+
+export interface IDebugStackFrame {
+  /** Position on the stack; the frame the debugger stands in is the highest. */
+  position: number;
+  program: string;
+  include: string;
+  line: number;
+  /** `METHOD`, `FUNCTION`, `FORM`, `EVENT`, … */
+  eventType?: string;
+  eventName?: string;
+  /** ADT URI of the source position, `…/source/main#start=<line>,<column>`. */
+  uri?: string;
+  systemProgram: boolean;
+}
+
+/** One node of the variable tree: a group such as locals, or a variable. */
+export interface IDebugVariable {
+  /** Node ID; pass it to `DebugSession.getVariables()` to expand the node. */
+  id: string;
+  name: string;
+  /** Absent on group nodes, which only exist to hold their children. */
+  value?: string;
+  declaredType?: string;
+  actualType?: string;
+  /** `simple`, `string`, `structure`, `table`, `objectref`, `dataref`, … */
+  metaType?: string;
+  /** Number of lines, for an internal table. */
+  tableLines?: number;
+  /** Whether the node has children to expand. */
+  expandable: boolean;
+  /** Expanded children; undefined when the node was not expanded. */
+  children?: IDebugVariable[];
+}
+
+/** The statement the debugger stopped at. */
+export interface IDebugStatement {
+  program: string;
+  include: string;
+  line: number;
+  uri?: string;
+  /** The source line, when the include could be read. */
+  source?: string;
+}
+
+/** Everything known at one stop. */
+export interface IDebugSnapshot {
+  /** Stack frames, the current one first. */
+  frames: IDebugStackFrame[];
+  statement: IDebugStatement;
+  /** The variable tree, expanded to the session's `variableDepth`. */
+  variables: IDebugVariable[];
+  /** IDs of the breakpoints that caused this stop, if any. */
+  reachedBreakpoints: string[];
+}
+
+export type DebugSessionState = 'idle' | 'listening' | 'attached' | 'ended';
+
+export interface IDebugSessionOptions {
+  /** User whose programs are debugged. */
+  user: string;
+  /** Default `user`. */
+  debuggingMode?: string;
+  terminalId?: string;
+  ideId?: string;
+  /**
+   * Levels of the variable tree read at every stop: 1 is the groups (locals,
+   * parameters, …), 2 their variables, 3 the components of structures.
+   * Internal tables are never expanded on their own. Default 2.
+   */
+  variableDepth?: number;
+  /** Read the source line of the current statement at every stop. Default true. */
+  readStatementSource?: boolean;
+}
+
+export interface IDebugListenOptions {
+  /** Seconds the listener waits for a debuggee. Default 240. */
+  timeoutSeconds?: number;
+}
+
+export interface IDebugStepUntilOptions {
+  /** Step used between checks. Default `stepOver`. */
+  step?: 'stepInto' | 'stepOver';
+  /** Steps after which stepping gives up with `DEBUG_STEP_LIMIT`. Default 100. */
+  maxSteps?: number;
+}
+
+// ============================================================================
+// Breakpoints
+// ============================================================================
+
+interface IDebugBreakpointBase {
+  /** Client-side ID, kept across syncs and in exported sets. */
+  id: string;
+  /** ABAP condition, e.g. `lv_count > 10`; the breakpoint stops only when it holds. */
+  condition?: string;
+  /** A disabled breakpoint stays in the set but is not sent to the server. */
+  enabled: boolean;
+}
+
+/** Stop at a line of a source. */
+export interface ILineBreakpoint extends IDebugBreakpointBase {
+  kind: 'line';
+  /** ADT URI of the source, without fragment: `…/oo/classes/zcl_demo/source/main`. */
+  uri: string;
+  line: number;
+}
+
+/** Stop at every execution of an ABAP statement, e.g. `CALL FUNCTION`. */
+export interface IStatementBreakpoint extends IDebugBreakpointBase {
+  kind: 'statement';
+  statement: string;
+}
+
+/** Stop where an exception class (or a subclass) is raised. */
+export interface IExceptionBreakpoint extends IDebugBreakpointBase {
+  kind: 'exception';
+  exceptionClass: string;
+}
+
+/** Stop where a message is sent. */
+export interface IMessageBreakpoint extends IDebugBreakpointBase {
+  kind: 'message';
+  messageClass: string;
+  messageNumber: string;
+  /** `E`, `W`, `I`, `S`, `A`, `X`; any type when absent. */
+  messageType?: string;
+}
+
+export type DebugBreakpoint =
+  | ILineBreakpoint
+  | IStatementBreakpoint
+  | IExceptionBreakpoint
+  | IMessageBreakpoint;
+
+/** A breakpoint as passed to `BreakpointManager.add()`: ID and `enabled` optional. */
+export type DebugBreakpointInput = BreakpointInput<DebugBreakpoint>;
+
+type BreakpointInput<B> = B extends DebugBreakpoint
+  ? Omit<B, 'id' | 'enabled'> & { id?: string; enabled?: boolean }
+  : never;
+
+/** What the server made of one breakpoint on sync. */
+export interface IBreakpointSyncResult {
+  id: string;
+  /** ID the server gave the breakpoint; absent when it rejected it. */
+  serverId?: string;
+  /** Why the server rejected the breakpoint. */
+  error?: string;
+}
+
+export interface IBreakpointValidation {
+  id: string;
+  valid: boolean;
+  /** Why the breakpoint would never stop, when it is not valid. */
+  reason?: string;
+}
+
+/** A breakpoint set as exported, to be imported in another session. */
+export interface IBreakpointSetExport {
+  version: 1;
+  breakpoints: DebugBreakpoint[];
+}
+
+export interface IBreakpointManagerOptions {
+  /** User whose programs stop at the breakpoints. */
+  user: string;
+  /** Default `user`. */
+  debuggingMode?: string;
+  terminalId?: string;
+  ideId?: string;
+  /**
+   * `external` breakpoints stay on the server for programs the user starts
+   * later; `debugger` ones last as long as the debug session. Default
+   * `external`.
+   */
+  scope?: 'external' | 'debugger';
+}
@@ -1,11 +1,13 @@
-import type {
-  IAbapConnection,
-  IAdtResponse,
-  ILogger,
-  IRuntimeDumpReadOptions,
-  IRuntimeDumps,
-  IRuntimeDumpsListOptions,
+import {
+  AdtOperationError,
+  type IAbapConnection,
+  type IAdtResponse,
+  type ILogger,
+  type IRuntimeDumpReadOptions,
+  type IRuntimeDumps,
+  type IRuntimeDumpsListOptions,
 } from '@mcp-abap-adt/interfaces';
+import { type IRuntimeDump, parseRuntimeDump } from './parse';
 import {
   buildDumpIdPrefix,
   buildRuntimeDumpsUserQuery,
@@ -39,6 +41,26 @@ export class RuntimeDumps implements IRuntimeDumps {
     return getRuntimeDumpById(this.connection, dumpId, options);
   }
 
+  /**
+   * Read a dump as an {@link IRuntimeDump}: the `default` view for the header,
+   * and the `formatted` view for chapter texts, call stack and source extract.
+   */
+  async getParsed(dumpId: string): Promise<IRuntimeDump> {
+    const [header, formatted] = await Promise.all([
+      getRuntimeDumpById(this.connection, dumpId),
+      getRuntimeDumpById(this.connection, dumpId, { view: 'formatted' }),
+    ]);
+    const dump = parseRuntimeDump(header.data, formatted.data);
+    if (!dump) {
+      const error = new AdtOperationError(
+        `Runtime dump '${dumpId}' is not in the expected format`,
+      );
+      error.code = 'RUNTIME_DUMP_UNREADABLE';
+      throw error;
+    }
+    return { id: dumpId.trim(), ...dump };
+  }
+
   buildIdPrefix(
     datetime: string,
     hostname: string,
@@ -0,0 +1,153 @@
+/**
+ * Runtime Dumps - grouping by signature
+ *
+ * A failing job or a broken report dumps the same way again and again; a
+ * triage view wants one row for all of them. Dumps are the same failure when
+ * they share a signature — runtime error, exception, and where the program
+ * terminated — and the same incident when, in addition, each follows the one
+ * before it within a time window. A dump after a longer quiet spell opens a
+ * new group, so a failure that comes back next week is counted as coming
+ * back.
+ */
+
+import type { IRuntimeDump } from './parse';
+
+/** What grouping needs of a dump; a dump header or a full dump both do. */
+export type RuntimeDumpGroupable = Pick<
+  IRuntimeDump,
+  'error' | 'exception' | 'program' | 'include' | 'line' | 'user' | 'datetime'
+>;
+
+export interface IRuntimeDumpGroupOptions<T> {
+  /**
+   * Longest gap, in milliseconds, between two dumps of one group. Default: no
+   * limit — one group per signature.
+   */
+  windowMs?: number;
+  /** Signature to group by. Default {@link runtimeDumpSignature}. */
+  signature?: (dump: T) => string;
+}
+
+export interface IRuntimeDumpGroup<T> {
+  signature: string;
+  /** The group's dumps, oldest first. */
+  dumps: T[];
+  count: number;
+  /** Time of the oldest dump with a readable time, as the dump gave it. */
+  first?: string;
+  /** Time of the newest dump with a readable time, as the dump gave it. */
+  last?: string;
+  /** Users the dumps ran for, sorted. */
+  users: string[];
+}
+
+/**
+ * `error|exception|program|include|line` — what the dump reports as failing
+ * and where. Fields a dump does not report are left empty.
+ */
+export function runtimeDumpSignature(dump: RuntimeDumpGroupable): string {
+  return [dump.error, dump.exception, dump.program, dump.include, dump.line]
+    .map((part) => (part === undefined ? '' : String(part)))
+    .join('|');
+}
+
+/**
+ * Milliseconds since the epoch of a dump time — ISO 8601, or ABAP's
+ * `YYYYMMDDHHMMSS` (taken as UTC) — or undefined when it is neither.
+ */
+export function runtimeDumpTime(
+  datetime: string | undefined,
+): number | undefined {
+  if (!datetime) return undefined;
+  const abap = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/.exec(datetime);
+  const time = abap
+    ? Date.UTC(
+        Number(abap[1]),
+        Number(abap[2]) - 1,
+        Number(abap[3]),
+        Number(abap[4]),
+        Number(abap[5]),
+        Number(abap[6]),
+      )
+    : Date.parse(datetime);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Group dumps by signature and, with `windowMs`, by incident. Dumps without a
+ * readable time join their signature's newest group. Groups come most
+ * frequent first, then most recent first.
+ */
+export function groupRuntimeDumps<T extends RuntimeDumpGroupable>(
+  dumps: T[],
+  options: IRuntimeDumpGroupOptions<T> = {},
+): IRuntimeDumpGroup<T>[] {
+  const signatureOf = options.signature ?? runtimeDumpSignature;
+  const timed = dumps
+    .map((dump, index) => ({
+      dump,
+      index,
+      time: runtimeDumpTime(dump.datetime),
+    }))
+    .sort(
+      (a, b) =>
+        (a.time ?? Number.POSITIVE_INFINITY) -
+          (b.time ?? Number.POSITIVE_INFINITY) || a.index - b.index,
+    );
+
+  const groups: { group: IRuntimeDumpGroup<T>; lastTime?: number }[] = [];
+  const open = new Map<string, (typeof groups)[number]>();
+  for (const { dump, time } of timed) {
+    const signature = signatureOf(dump);
+    let current = open.get(signature);
+    if (
+      current &&
+      options.windowMs !== undefined &&
+      time !== undefined &&
+      current.lastTime !== undefined &&
+      time - current.lastTime > options.windowMs
+    ) {
+      current = undefined;
+    }
+    if (!current) {
+      current = {
+        group: { signature, dumps: [], count: 0, users: [] },
+      };
+      groups.push(current);
+      open.set(signature, current);
+    }
+
+    const { group } = current;
+    group.dumps.push(dump);
+    group.count++;
+    if (time !== undefined) {
+      group.first ??= dump.datetime;
+      group.last = dump.datetime;
+      current.lastTime = time;
+    }
+    if (dump.user && !group.users.includes(dump.user)) {
+      group.users.push(dump.user);
+    }
+  }
+
+  return groups
+    .map(({ group }) => ({ ...group, users: [...group.users].sort() }))
+    .sort(
+      (a, b) =>
+        b.count - a.count ||
+        (runtimeDumpTime(b.last) ?? 0) - (runtimeDumpTime(a.last) ?? 0),
+    );
+}
+
+/**
+ * One dump per group — the newest — for a list without repeats. Takes the
+ * same options as {@link groupRuntimeDumps}.
+ */
+export function dedupeRuntimeDumps<T extends RuntimeDumpGroupable>(
+  dumps: T[],
+  options: IRuntimeDumpGroupOptions<T> = {},
+): T[] {
+  return groupRuntimeDumps(dumps, options).map(
+    (group) => group.dumps[group.dumps.length - 1],
+  );
+}
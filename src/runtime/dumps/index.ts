@@ -2,6 +2,24 @@
  * Runtime Dumps - Exports
  */
 
+export {
+  dedupeRuntimeDumps,
+  groupRuntimeDumps,
+  type IRuntimeDumpGroup,
+  type IRuntimeDumpGroupOptions,
+  type RuntimeDumpGroupable,
+  runtimeDumpSignature,
+  runtimeDumpTime,
+} from './group';
+export {
+  type IRuntimeDump,
+  type IRuntimeDumpChapter,
+  type IRuntimeDumpHeader,
+  type IRuntimeDumpSourceLine,
+  type IRuntimeDumpStackFrame,
+  parseRuntimeDump,
+  parseRuntimeDumpHeader,
+} from './parse';
 export { RuntimeDumps } from './RuntimeDumps';
 export {
   buildDumpIdPrefix,
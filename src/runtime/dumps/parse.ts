@@ -0,0 +1,259 @@
+/**
+ * Runtime Dumps - reading the default (`dump.v1+xml`) and `formatted` views
+ *
+ * The default view is the dump's header: what failed, where, for whom and
+ * when, on attributes of the root element, and an index of its chapters. The
+ * chapter texts themselves are in the `formatted` view, a plain-text page
+ * laid out like ST22's; the index gives the line each chapter starts on, which
+ * is how the texts are cut apart.
+ *
+ * Inside the texts nothing is tagged. The termination point, the source
+ * extract and the call stack are read from the chapters that hold them, found
+ * by their English titles: in another logon language those fields stay empty,
+ * and the chapters are still there, under their own titles.
+ */
+
+import {
+  asArray,
+  attribute,
+  findElements,
+  numericAttribute,
+  parseXml,
+  type XmlNode,
+} from '../xmlNodes';
+
+export interface IRuntimeDumpChapter {
+  /** Internal chapter name, e.g. `kap0`. */
+  name: string;
+  /** Display title, e.g. "Short Text" or "Error analysis". */
+  title: string;
+  category?: string;
+  /** Line in the `formatted` view the chapter starts on. */
+  line?: number;
+  /** The chapter's text, when the `formatted` view was read. */
+  text?: string;
+}
+
+export interface IRuntimeDumpHeader {
+  /** Runtime error ID, e.g. `COMPUTE_INT_ZERODIVIDE`. */
+  error?: string;
+  /** Exception class, when the dump was raised by one. */
+  exception?: string;
+  /** Program that was terminated. */
+  program?: string;
+  /** User the program ran for. */
+  user?: string;
+  datetime?: string;
+  chapters: IRuntimeDumpChapter[];
+}
+
+/**
+ * The header of a dump read with the `default` view, or null when the body is
+ * not a dump document.
+ */
+export function parseRuntimeDumpHeader(
+  body: unknown,
+): IRuntimeDumpHeader | null {
+  const root = asArray(parseXml(body)?.dump)[0];
+  if (!root) return null;
+
+  const chapters = findElements(root, (_element, name) => name === 'chapter')
+    .map((chapter: XmlNode) => ({
+      name: attribute(chapter, 'name') ?? '',
+      title: attribute(chapter, 'title') ?? '',
+      category: attribute(chapter, 'category'),
+      line: numericAttribute(chapter, 'line'),
+      order: numericAttribute(chapter, 'chapterOrder'),
+    }))
+    .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+    .map(({ order: _order, ...chapter }) => chapter);
+
+  return {
+    error: attribute(root, 'error'),
+    exception: attribute(root, 'exception'),
+    program: attribute(root, 'terminatedProgram'),
+    user: attribute(root, 'author'),
+    datetime: attribute(root, 'datetime'),
+    chapters,
+  };
+}
+
+/** One line of the source extract around the termination point. */
+export interface IRuntimeDumpSourceLine {
+  line: number;
+  text: string;
+  /** The line the program terminated at (`>>>>>` in the extract). */
+  current: boolean;
+}
+
+/** One entry of "Active Calls/Events". */
+export interface IRuntimeDumpStackFrame {
+  /** Number in the list; the innermost call has the highest. */
+  level: number;
+  /** `METHOD`, `FUNCTION`, `FORM`, `EVENT`, … */
+  type: string;
+  program: string;
+  include: string;
+  line: number;
+  /** Method, function module, form or event name. */
+  name?: string;
+}
+
+export interface IRuntimeDump extends IRuntimeDumpHeader {
+  /** Dump ID, when the reader knew it. */
+  id?: string;
+  /** Include the program terminated in. */
+  include?: string;
+  /** Line of `include` the program terminated at. */
+  line?: number;
+  /** ADT URI of the termination point, when the dump links to it. */
+  terminationUri?: string;
+  /** The "Short Text" chapter, on one line. */
+  shortText?: string;
+  /** Innermost call first; empty without the `formatted` view. */
+  callStack: IRuntimeDumpStackFrame[];
+  /** Empty without the `formatted` view. */
+  sourceExcerpt: IRuntimeDumpSourceLine[];
+}
+
+const CHAPTER_TITLES = {
+  shortText: /^short\s*text$/i,
+  whereTerminated: /^information on where terminated$/i,
+  sourceExcerpt: /^source code extract$/i,
+  callStack: /^active calls\s*\/\s*events$/i,
+};
+
+function chapterText(
+  chapters: IRuntimeDumpChapter[],
+  title: RegExp,
+): string | undefined {
+  return chapters.find((chapter) => title.test(chapter.title.trim()))?.text;
+}
+
+/** Cut the `formatted` view into the texts of the chapters the index lists. */
+function withTexts(
+  chapters: IRuntimeDumpChapter[],
+  formatted: string,
+): IRuntimeDumpChapter[] {
+  const lines = formatted.split(/\r?\n/);
+  const starts = [
+    ...new Set(
+      chapters
+        .map((chapter) => chapter.line)
+        .filter((line): line is number => line !== undefined),
+    ),
+  ].sort((a, b) => a - b);
+
+  return chapters.map((chapter) => {
+    if (chapter.line === undefined) return chapter;
+    const end = starts.find((start) => start > (chapter.line as number));
+    // The chapter's first line is its title.
+    const body = lines.slice(
+      chapter.line,
+      end === undefined ? undefined : end - 1,
+    );
+    const indent = Math.min(
+      ...body
+        .filter((line) => line.trim())
+        .map((line) => line.length - line.trimStart().length),
+    );
+    return {
+      ...chapter,
+      text: body
+        .map((line) => (Number.isFinite(indent) ? line.slice(indent) : line))
+        .join('\n')
+        .replace(/^\s*\n/, '')
+        .trimEnd(),
+    };
+  });
+}
+
+function parseSourceExcerpt(
+  text: string | undefined,
+): IRuntimeDumpSourceLine[] {
+  const excerpt: IRuntimeDumpSourceLine[] = [];
+  for (const raw of text?.split('\n') ?? []) {
+    const match = /^(>{5})?\s*(\d+)(?:\||\s|$)(.*)$/.exec(raw);
+    if (!match) continue;
+    excerpt.push({
+      line: Number(match[2]),
+      text: match[3].trimEnd(),
+      current: match[1] !== undefined,
+    });
+  }
+  return excerpt;
+}
+
+function parseCallStack(text: string | undefined): IRuntimeDumpStackFrame[] {
+  const frames: IRuntimeDumpStackFrame[] = [];
+  for (const raw of text?.split('\n') ?? []) {
+    const entry = /^\s*(\d+)\s+(\S+)\s+(\S+)\s+(\S+)\s+(\d+)\s*$/.exec(raw);
+    if (entry) {
+      frames.push({
+        level: Number(entry[1]),
+        type: entry[2],
+        program: entry[3],
+        include: entry[4],
+        line: Number(entry[5]),
+      });
+      continue;
+    }
+    // The name is on the line below its entry.
+    const last = frames[frames.length - 1];
+    if (last && last.name === undefined && raw.trim()) {
+      last.name = raw.trim();
+    }
+  }
+  return frames.sort((a, b) => b.level - a.level);
+}
+
+/**
+ * A dump read with the `default` view and, for chapter texts, call stack and
+ * source extract, the `formatted` view; null when `body` is not a dump
+ * document.
+ */
+export function parseRuntimeDump(
+  body: unknown,
+  formatted?: unknown,
+): IRuntimeDump | null {
+  const header = parseRuntimeDumpHeader(body);
+  if (!header) return null;
+  const root = asArray(parseXml(body)?.dump)[0];
+  const termination = findElements(root, (element) =>
+    /\/termination$/.test(attribute(element, 'rel') ?? ''),
+  )[0];
+
+  const chapters =
+    typeof formatted === 'string' && formatted.trim()
+      ? withTexts(header.chapters, formatted)
+      : header.chapters;
+  const whereTerminated = chapterText(chapters, CHAPTER_TITLES.whereTerminated);
+  const callStack = parseCallStack(
+    chapterText(chapters, CHAPTER_TITLES.callStack),
+  );
+  const sourceExcerpt = parseSourceExcerpt(
+    chapterText(chapters, CHAPTER_TITLES.sourceExcerpt),
+  );
+  const terminationPoint =
+    whereTerminated &&
+    /line\s+(\d+)\s+of\s+\(Include\)\s+program\s+"([^"]+)"/i.exec(
+      whereTerminated.replace(/\s+/g, ' '),
+    );
+  const shortText = chapterText(chapters, CHAPTER_TITLES.shortText)
+    ?.replace(/\s+/g, ' ')
+    .trim();
+
+  return {
+    ...header,
+    chapters,
+    include: terminationPoint?.[2] ?? callStack[0]?.include,
+    line: terminationPoint
+      ? Number(terminationPoint[1])
+      : (sourceExcerpt.find((line) => line.current)?.line ??
+        callStack[0]?.line),
+    terminationUri: termination && attribute(termination, 'href'),
+    shortText: shortText || undefined,
+    callStack,
+    sourceExcerpt,
+  };
+}
@@ -13,6 +13,7 @@ export * from './memory';
 export * from './systemMessages';
 // AdtRuntimeClient is now in clients/, not runtime/
 export * from './traces/crossTrace';
+export * from './traces/crossTraceParse';
 export * from './traces/profiler';
 export * from './traces/st05';
 export * from './types';
@@ -1,13 +1,27 @@
-import type {
-  IAbapConnection,
-  IAdtResponse,
-  ILogger,
-  IMemorySnapshots,
-  IMemorySnapshotsListOptions,
-  ISnapshotChildrenOptions,
-  ISnapshotRankingListOptions,
-  ISnapshotReferencesOptions,
+import {
+  AdtOperationError,
+  type IAbapConnection,
+  type IAdtResponse,
+  type ILogger,
+  type IMemorySnapshots,
+  type IMemorySnapshotsListOptions,
+  type ISnapshotChildrenOptions,
+  type ISnapshotRankingListOptions,
+  type ISnapshotReferencesOptions,
 } from '@mcp-abap-adt/interfaces';
+import {
+  analyzeSnapshotDelta,
+  type ISnapshotDeltaAnalysis,
+  type ISnapshotDeltaAnalysisOptions,
+} from './delta';
+import {
+  type ISnapshotObject,
+  type ISnapshotOverview,
+  type ISnapshotReference,
+  parseSnapshotObjects,
+  parseSnapshotOverview,
+  parseSnapshotReferences,
+} from './parse';
 import {
   getSnapshot,
   getSnapshotChildren,
@@ -21,6 +35,17 @@ import {
   listSnapshots,
 } from './snapshots';
 
+function parsed<T>(value: T | null, what: string): T {
+  if (value === null) {
+    const error = new AdtOperationError(
+      `${what} is not in the expected format`,
+    );
+    error.code = 'MEMORY_SNAPSHOT_UNREADABLE';
+    throw error;
+  }
+  return value;
+}
+
 export class MemorySnapshots implements IMemorySnapshots {
   readonly kind = 'memorySnapshots' as const;
 
@@ -153,4 +178,84 @@ export class MemorySnapshots implements IMemorySnapshots {
       options,
     );
   }
+
+  // Typed reads: the same requests, parsed (see parse.ts).
+
+  async getParsedOverview(snapshotId: string): Promise<ISnapshotOverview> {
+    const response = await this.getOverview(snapshotId);
+    return parsed(
+      parseSnapshotOverview(response.data),
+      `Overview of snapshot '${snapshotId}'`,
+    );
+  }
+
+  async getParsedRankingList(
+    snapshotId: string,
+    options?: ISnapshotRankingListOptions,
+  ): Promise<ISnapshotObject[]> {
+    const response = await this.getRankingList(snapshotId, options);
+    return parsed(
+      parseSnapshotObjects(response.data),
+      `Ranking list of snapshot '${snapshotId}'`,
+    );
+  }
+
+  async getParsedReferences(
+    snapshotId: string,
+    objectKey: string,
+    options?: ISnapshotReferencesOptions,
+  ): Promise<ISnapshotReference[]> {
+    const response = await this.getReferences(snapshotId, objectKey, options);
+    return parsed(
+      parseSnapshotReferences(response.data),
+      `References of '${objectKey}' in snapshot '${snapshotId}'`,
+    );
+  }
+
+  async getParsedDeltaOverview(
+    uri1: string,
+    uri2: string,
+  ): Promise<ISnapshotOverview> {
+    const response = await this.getDeltaOverview(uri1, uri2);
+    return parsed(parseSnapshotOverview(response.data), 'Delta overview');
+  }
+
+  async getParsedDeltaRankingList(
+    uri1: string,
+    uri2: string,
+    options?: ISnapshotRankingListOptions,
+  ): Promise<ISnapshotObject[]> {
+    const response = await this.getDeltaRankingList(uri1, uri2, options);
+    return parsed(parseSnapshotObjects(response.data), 'Delta ranking list');
+  }
+
+  async getParsedDeltaReferences(
+    uri1: string,
+    uri2: string,
+    objectKey: string,
+    options?: ISnapshotReferencesOptions,
+  ): Promise<ISnapshotReference[]> {
+    const response = await this.getDeltaReferences(
+      uri1,
+      uri2,
+      objectKey,
+      options,
+    );
+    return parsed(
+      parseSnapshotReferences(response.data),
+      `Delta references of '${objectKey}'`,
+    );
+  }
+
+  /**
+   * The objects that grew most from the snapshot at `uri1` to the one at
+   * `uri2`, each with the reference paths that keep it alive.
+   */
+  async analyzeDelta(
+    uri1: string,
+    uri2: string,
+    options?: ISnapshotDeltaAnalysisOptions,
+  ): Promise<ISnapshotDeltaAnalysis> {
+    return analyzeSnapshotDelta(this.connection, uri1, uri2, options);
+  }
 }
@@ -0,0 +1,143 @@
+/**
+ * Runtime Memory Analysis - what grew between two snapshots
+ *
+ * A leak in a long-running job shows as objects and internal tables that are
+ * bigger in a later snapshot than in an earlier one, kept alive by something
+ * that should have let them go. The delta ranking list gives the first — its
+ * rows carry the difference in each size — and the delta references of a row
+ * give the second, so the report is those two reads put together: the top
+ * growing rows, each with the chains of references that hold it.
+ */
+
+import {
+  AdtOperationError,
+  type IAbapConnection,
+} from '@mcp-abap-adt/interfaces';
+import {
+  type ISnapshotObject,
+  type ISnapshotOverview,
+  type ISnapshotReference,
+  parseSnapshotObjects,
+  parseSnapshotOverview,
+  parseSnapshotReferences,
+  snapshotObjectValue,
+  snapshotReferencePaths,
+  snapshotSizeMetric,
+} from './parse';
+import {
+  getSnapshotDeltaOverview,
+  getSnapshotDeltaRankingList,
+  getSnapshotDeltaReferences,
+  type ISnapshotRankingListOptions,
+  type ISnapshotReferencesOptions,
+} from './snapshots';
+
+export interface ISnapshotDeltaAnalysisOptions {
+  /** Growing objects to report. Default 10. */
+  top?: number;
+  /**
+   * Attribute to rank by, also sent as the ranking list's sort column.
+   * Default: {@link snapshotSizeMetric} of the rows.
+   */
+  metric?: string;
+  /** Only report objects this accepts — e.g. internal tables only. */
+  filter?: (object: ISnapshotObject) => boolean;
+  /** Options of the delta ranking list read, e.g. `maxNumberOfObjects`. */
+  rankingList?: ISnapshotRankingListOptions;
+  /** Options of each delta references read. */
+  references?: ISnapshotReferencesOptions;
+}
+
+export interface ISnapshotGrowth {
+  object: ISnapshotObject;
+  /** Difference in the metric from the first snapshot to the second. */
+  growth: number;
+  references: ISnapshotReference[];
+  /** {@link snapshotReferencePaths} of the references. */
+  paths: ISnapshotObject[][];
+}
+
+export interface ISnapshotDeltaAnalysis {
+  uri1: string;
+  uri2: string;
+  overview: ISnapshotOverview;
+  /** The metric ranked by; absent when the rows carry no size. */
+  metric?: string;
+  /** Objects that grew, most growth first. */
+  growing: ISnapshotGrowth[];
+}
+
+function unreadable(what: string): AdtOperationError {
+  const error = new AdtOperationError(`${what} is not in the expected format`);
+  error.code = 'MEMORY_SNAPSHOT_UNREADABLE';
+  return error;
+}
+
+/**
+ * Compare two snapshots: the delta overview, and the `top` objects that grew
+ * most with their reference paths. References are read one object at a
+ * time, after the ranking, and only for the objects reported.
+ */
+export async function analyzeSnapshotDelta(
+  connection: IAbapConnection,
+  uri1: string,
+  uri2: string,
+  options: ISnapshotDeltaAnalysisOptions = {},
+): Promise<ISnapshotDeltaAnalysis> {
+  const overview = parseSnapshotOverview(
+    (await getSnapshotDeltaOverview(connection, uri1, uri2)).data,
+  );
+  if (!overview) throw unreadable('Delta overview');
+
+  const ranking = parseSnapshotObjects(
+    (
+      await getSnapshotDeltaRankingList(connection, uri1, uri2, {
+        ...options.rankingList,
+        ...(options.metric && {
+          sortByColumnName: options.metric,
+          sortAscending: false,
+        }),
+      })
+    ).data,
+  );
+  if (!ranking) throw unreadable('Delta ranking list');
+
+  const metric = options.metric ?? snapshotSizeMetric(ranking);
+  const candidates = metric
+    ? ranking
+        .filter((object) => !options.filter || options.filter(object))
+        .map((object) => ({
+          object,
+          growth: snapshotObjectValue(object, metric) ?? 0,
+        }))
+        .filter(({ growth }) => growth > 0)
+        .sort((a, b) => b.growth - a.growth)
+        .slice(0, options.top ?? 10)
+    : [];
+
+  const growing: ISnapshotGrowth[] = [];
+  for (const { object, growth } of candidates) {
+    const references = parseSnapshotReferences(
+      (
+        await getSnapshotDeltaReferences(
+          connection,
+          uri1,
+          uri2,
+          object.key,
+          options.references,
+        )
+      ).data,
+    );
+    if (!references) {
+      throw unreadable(`References of '${object.name ?? object.key}'`);
+    }
+    growing.push({
+      object,
+      growth,
+      references,
+      paths: snapshotReferencePaths(references),
+    });
+  }
+
+  return { uri1, uri2, overview, metric, growing };
+}
@@ -2,7 +2,24 @@
  * Runtime Memory Analysis - Exports
  */
 
+export {
+  analyzeSnapshotDelta,
+  type ISnapshotDeltaAnalysis,
+  type ISnapshotDeltaAnalysisOptions,
+  type ISnapshotGrowth,
+} from './delta';
 export { MemorySnapshots } from './MemorySnapshots';
+export {
+  type ISnapshotObject,
+  type ISnapshotOverview,
+  type ISnapshotReference,
+  parseSnapshotObjects,
+  parseSnapshotOverview,
+  parseSnapshotReferences,
+  snapshotObjectValue,
+  snapshotReferencePaths,
+  snapshotSizeMetric,
+} from './parse';
 export type {
   ISnapshotChildrenOptions,
   ISnapshotRankingListOptions,
@@ -0,0 +1,182 @@
+/**
+ * Runtime Memory Analysis - reading ranking lists, overviews and references
+ *
+ * Ranking lists, children and references answer with memory objects. An
+ * object is whatever element carries an `objectKey` — the key the `children`
+ * and `references` templates take back as `parentKey` and `objectKey` — so a
+ * row is found by that attribute and not by the element it happens to be
+ * named.
+ */
+
+import {
+  asArray,
+  attribute,
+  attributes,
+  findElements,
+  parseXml,
+  type XmlNode,
+} from '../xmlNodes';
+
+export interface ISnapshotObject {
+  /** Key to pass as `parentKey` to `getChildren` or `objectKey` to `getReferences`. */
+  key: string;
+  name?: string;
+  type?: string;
+  /** Every attribute of the row, sizes included, as the server sent them. */
+  attributes: Record<string, string>;
+}
+
+/**
+ * The objects of a ranking list or children response, in document order, or
+ * null when the body is not XML.
+ */
+export function parseSnapshotObjects(body: unknown): ISnapshotObject[] | null {
+  const root = parseXml(body);
+  if (!root) return null;
+
+  return findElements(
+    root,
+    (element) => attribute(element, 'objectKey') !== undefined,
+  ).map((row: XmlNode) => ({
+    key: attribute(row, 'objectKey') as string,
+    name: attribute(row, 'name'),
+    type: attribute(row, 'type'),
+    attributes: attributes(row),
+  }));
+}
+
+/**
+ * A numeric value of a memory object — a size or a count — by the name of the
+ * attribute it sits on, or undefined when the row has no such number.
+ */
+export function snapshotObjectValue(
+  object: ISnapshotObject,
+  name: string,
+): number | undefined {
+  const value = object.attributes[name];
+  if (value === undefined || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * The size to rank memory objects by when the caller names none: the first
+ * attribute, in row order, whose name says it is a size — one saying `bound`
+ * preferred, as the bound size is what freeing the object would give back.
+ */
+export function snapshotSizeMetric(
+  objects: ISnapshotObject[],
+): string | undefined {
+  const names = objects.flatMap((object) =>
+    Object.keys(object.attributes).filter(
+      (name) =>
+        /size|memory/i.test(name) &&
+        snapshotObjectValue(object, name) !== undefined,
+    ),
+  );
+  return names.find((name) => /bound/i.test(name)) ?? names[0];
+}
+
+/**
+ * The figures of a snapshot or delta overview. Its values are read by name
+ * wherever they are — on attributes or, in `asx:abap` documents, as field
+ * elements — the first occurrence of a name winning.
+ */
+export interface ISnapshotOverview {
+  /** Every value, as the server sent it. */
+  fields: Record<string, string>;
+  /** The values that are numbers: sizes and counts. */
+  values: Record<string, number>;
+}
+
+/** A snapshot or delta overview, or null when the body is not XML. */
+export function parseSnapshotOverview(body: unknown): ISnapshotOverview | null {
+  const root = parseXml(body);
+  if (!root) return null;
+
+  const fields: Record<string, string> = {};
+  const add = (name: string, value: string) => {
+    if (!(name in fields) && !name.startsWith('xmlns')) fields[name] = value;
+  };
+  const visit = (element: XmlNode) => {
+    for (const [name, value] of Object.entries(attributes(element))) {
+      add(name, value);
+    }
+    for (const [name, value] of Object.entries(element)) {
+      if (name.startsWith('@_') || name === '#text') continue;
+      if (typeof value === 'string') {
+        add(name, value);
+        continue;
+      }
+      for (const child of asArray(value)) visit(child);
+    }
+  };
+  visit(root);
+
+  const values: Record<string, number> = {};
+  for (const [name, value] of Object.entries(fields)) {
+    const parsed = value.trim() === '' ? Number.NaN : Number(value);
+    if (Number.isFinite(parsed)) values[name] = parsed;
+  }
+  return { fields, values };
+}
+
+/** An object holding a reference, with the objects that hold it in turn. */
+export interface ISnapshotReference extends ISnapshotObject {
+  referencedBy: ISnapshotReference[];
+}
+
+function reference(row: XmlNode): ISnapshotReference {
+  return {
+    key: attribute(row, 'objectKey') as string,
+    name: attribute(row, 'name'),
+    type: attribute(row, 'type'),
+    attributes: attributes(row),
+    referencedBy: findElements(
+      row,
+      (element) => attribute(element, 'objectKey') !== undefined,
+    ).map(reference),
+  };
+}
+
+/**
+ * The references to an object, or null when the body is not XML. A row
+ * nested in another is taken as holding a reference to it, so the tree reads
+ * outward from the object towards what keeps it alive.
+ */
+export function parseSnapshotReferences(
+  body: unknown,
+): ISnapshotReference[] | null {
+  const root = parseXml(body);
+  if (!root) return null;
+
+  return findElements(
+    root,
+    (element) => attribute(element, 'objectKey') !== undefined,
+  ).map(reference);
+}
+
+/**
+ * Every chain of references in the tree, from the outermost holder — a
+ * global variable, a static attribute — to the object's direct referrer.
+ * A reference seen again on its own chain ends that chain.
+ */
+export function snapshotReferencePaths(
+  references: ISnapshotReference[],
+): ISnapshotObject[][] {
+  const paths: ISnapshotObject[][] = [];
+  const walk = (node: ISnapshotReference, chain: ISnapshotObject[]) => {
+    const { referencedBy, ...object } = node;
+    const path = [object, ...chain];
+    const holders = referencedBy.filter(
+      ({ key }) => !path.some((seen) => seen.key === key),
+    );
+    if (holders.length === 0) {
+      paths.push(path);
+      return;
+    }
+    for (const holder of holders) walk(holder, path);
+  };
+  for (const node of references) walk(node, []);
+  return paths;
+}
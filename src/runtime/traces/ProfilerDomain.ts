@@ -1,13 +1,14 @@
-import type {
-  IAbapConnection,
-  IAdtResponse,
-  ILogger,
-  IProfiler,
-  IProfilerListOptions,
-  IProfilerTraceDbAccessesOptions,
-  IProfilerTraceHitListOptions,
-  IProfilerTraceParameters,
-  IProfilerTraceStatementsOptions,
+import {
+  AdtOperationError,
+  type IAbapConnection,
+  type IAdtResponse,
+  type ILogger,
+  type IProfiler,
+  type IProfilerListOptions,
+  type IProfilerTraceDbAccessesOptions,
+  type IProfilerTraceHitListOptions,
+  type IProfilerTraceParameters,
+  type IProfilerTraceStatementsOptions,
 } from '@mcp-abap-adt/interfaces';
 import {
   buildTraceParametersXml,
@@ -26,6 +27,26 @@ import {
   listTraceFiles,
   listTraceRequests,
 } from './profiler';
+import {
+  buildProfilerCallTree,
+  type IProfilerCallNode,
+  type IProfilerDbAccess,
+  type IProfilerHitListEntry,
+  parseProfilerDbAccesses,
+  parseProfilerHitList,
+  parseProfilerStatements,
+} from './profilerParse';
+
+function parsed<T>(value: T | null, what: string, traceId: string): T {
+  if (value === null) {
+    const error = new AdtOperationError(
+      `${what} of trace '${traceId}' is not in the expected format`,
+    );
+    error.code = 'PROFILER_UNREADABLE_RESPONSE';
+    throw error;
+  }
+  return value;
+}
 
 export class Profiler implements IProfiler {
   readonly kind = 'profiler' as const;
@@ -95,6 +116,46 @@ export class Profiler implements IProfiler {
     return getTraceDbAccesses(this.connection, traceIdOrUri, options);
   }
 
+  // Typed reads: the same requests, parsed (see profilerParse.ts).
+
+  async getParsedHitList(
+    traceIdOrUri: string,
+    options?: IProfilerTraceHitListOptions,
+  ): Promise<IProfilerHitListEntry[]> {
+    const response = await this.getHitList(traceIdOrUri, options);
+    return parsed(
+      parseProfilerHitList(response.data),
+      'Hit list',
+      traceIdOrUri,
+    );
+  }
+
+  /**
+   * The call tree, nested. As deep as the trace returns it: pass
+   * `autoDrillDownThreshold` to have it drill further.
+   */
+  async getCallTree(
+    traceIdOrUri: string,
+    options?: IProfilerTraceStatementsOptions,
+  ): Promise<IProfilerCallNode[]> {
+    const response = await this.getStatements(traceIdOrUri, options);
+    return buildProfilerCallTree(
+      parsed(parseProfilerStatements(response.data), 'Call tree', traceIdOrUri),
+    );
+  }
+
+  async getParsedDbAccesses(
+    traceIdOrUri: string,
+    options?: IProfilerTraceDbAccessesOptions,
+  ): Promise<IProfilerDbAccess[]> {
+    const response = await this.getDbAccesses(traceIdOrUri, options);
+    return parsed(
+      parseProfilerDbAccesses(response.data),
+      'DB accesses',
+      traceIdOrUri,
+    );
+  }
+
   async listRequests(): Promise<IAdtResponse> {
     return listTraceRequests(this.connection);
   }
@@ -0,0 +1,25 @@
+/**
+ * ABAP Cross Trace - reading the records list
+ *
+ * Only what a caller needs to go on to the record contents: each record's
+ * number, the value the `record-content` template takes as `{recordNumber}`.
+ */
+
+import { attribute, findElements, parseXml } from '../xmlNodes';
+
+/**
+ * The record numbers of a trace, in document order and without duplicates, or
+ * null when the body is not XML.
+ */
+export function parseCrossTraceRecordNumbers(body: unknown): number[] | null {
+  const root = parseXml(body);
+  if (!root) return null;
+
+  const numbers = findElements(
+    root,
+    (element) => attribute(element, 'recordNumber') !== undefined,
+  )
+    .map((record) => Number(attribute(record, 'recordNumber')))
+    .filter((recordNumber) => Number.isInteger(recordNumber));
+  return [...new Set(numbers)];
+}
@@ -11,6 +11,7 @@ export {
   type IListCrossTracesOptions,
   listCrossTraces,
 } from './crossTrace';
+export { parseCrossTraceRecordNumbers } from './crossTraceParse';
 export { Profiler } from './ProfilerDomain';
 export {
   buildTraceParametersXml,
@@ -35,6 +36,29 @@ export {
   listTraceRequests,
   normalizeProfilerTraceId,
 } from './profiler';
+export {
+  aggregateProfilerByProgram,
+  aggregateProfilerByTable,
+  type IProfilerProgramTotal,
+  type IProfilerTableTotal,
+  type ISpeedscopeFile,
+  type ISpeedscopeFrame,
+  toCollapsedStacks,
+  topProfilerEntriesByNetTime,
+  toSpeedscope,
+} from './profilerAnalysis';
+export {
+  buildProfilerCallTree,
+  type IProfilerCallNode,
+  type IProfilerDbAccess,
+  type IProfilerHitListEntry,
+  type IProfilerProgram,
+  type IProfilerStatement,
+  type IProfilerTime,
+  parseProfilerDbAccesses,
+  parseProfilerHitList,
+  parseProfilerStatements,
+} from './profilerParse';
 export { St05Trace } from './St05Trace';
 export {
   getSt05TraceDirectory,
@@ -0,0 +1,212 @@
+/**
+ * ABAP Profiler - aggregating traces and exporting flame graphs
+ *
+ * What SAP GUI's hit list and call tree views show, computed from the typed
+ * rows of `profilerParse.ts`, and the call tree in the two formats flame-graph
+ * tools read: collapsed stacks (`flamegraph.pl`, `inferno`) and speedscope's
+ * JSON file format.
+ *
+ * All times are microseconds, as the trace records them.
+ */
+
+import type {
+  IProfilerCallNode,
+  IProfilerDbAccess,
+  IProfilerHitListEntry,
+} from './profilerParse';
+
+export interface IProfilerProgramTotal {
+  program: string;
+  hitCount: number;
+  /** Sum of the net times of the program's events. */
+  netTime: number;
+  entries: number;
+}
+
+export interface IProfilerTableTotal {
+  tableName: string;
+  /** Executions of all statements on the table. */
+  count: number;
+  bufferedCount: number;
+  time: number;
+  /** Distinct statements on the table. */
+  statements: number;
+}
+
+/** The `n` hit list entries with the highest net time, highest first. */
+export function topProfilerEntriesByNetTime(
+  entries: IProfilerHitListEntry[],
+  n = 10,
+): IProfilerHitListEntry[] {
+  return [...entries]
+    .sort((a, b) => b.netTime.time - a.netTime.time || a.index - b.index)
+    .slice(0, n);
+}
+
+/**
+ * Net time per program, highest first. An event counts for the program of
+ * the unit it calls, when it is a call, else for the program it ran in.
+ */
+export function aggregateProfilerByProgram(
+  entries: IProfilerHitListEntry[],
+): IProfilerProgramTotal[] {
+  const totals = new Map<string, IProfilerProgramTotal>();
+  for (const entry of entries) {
+    const program =
+      entry.calledProgram?.name || entry.callingProgram?.name || '(unknown)';
+    const total = totals.get(program) ?? {
+      program,
+      hitCount: 0,
+      netTime: 0,
+      entries: 0,
+    };
+    total.hitCount += entry.hitCount;
+    total.netTime += entry.netTime.time;
+    total.entries++;
+    totals.set(program, total);
+  }
+  return [...totals.values()].sort((a, b) => b.netTime - a.netTime);
+}
+
+/** DB time and executions per table, most time first. */
+export function aggregateProfilerByTable(
+  accesses: IProfilerDbAccess[],
+): IProfilerTableTotal[] {
+  const totals = new Map<string, IProfilerTableTotal>();
+  for (const access of accesses) {
+    const total = totals.get(access.tableName) ?? {
+      tableName: access.tableName,
+      count: 0,
+      bufferedCount: 0,
+      time: 0,
+      statements: 0,
+    };
+    total.count += access.count;
+    total.bufferedCount += access.bufferedCount;
+    total.time += access.time;
+    total.statements++;
+    totals.set(access.tableName, total);
+  }
+  return [...totals.values()].sort((a, b) => b.time - a.time);
+}
+
+/**
+ * A node's own time: its gross time less its children's. Unlike the net time
+ * the trace reports, this keeps the time of rows below the node that were not
+ * read, so the stacks add up to the gross time of their roots.
+ */
+function selfTime(node: IProfilerCallNode): number {
+  const children = node.children.reduce(
+    (sum, child) => sum + child.grossTime.time,
+    0,
+  );
+  return Math.max(0, node.grossTime.time - children);
+}
+
+function walk(
+  nodes: IProfilerCallNode[],
+  visit: (stack: IProfilerCallNode[], self: number) => void,
+  stack: IProfilerCallNode[] = [],
+): void {
+  for (const node of nodes) {
+    const path = [...stack, node];
+    visit(path, selfTime(node));
+    walk(node.children, visit, path);
+  }
+}
+
+/**
+ * The call tree as collapsed stacks, one `frame;frame;frame <µs>` line per
+ * path with time of its own. Frames are the statements' descriptions, with
+ * `;` replaced so it cannot split a frame.
+ */
+export function toCollapsedStacks(tree: IProfilerCallNode[]): string {
+  const lines = new Map<string, number>();
+  walk(tree, (stack, self) => {
+    if (self <= 0) return;
+    const key = stack
+      .map((node) => node.description.replace(/;/g, ',').trim() || '?')
+      .join(';');
+    lines.set(key, (lines.get(key) ?? 0) + self);
+  });
+  return [...lines].map(([stack, value]) => `${stack} ${value}`).join('\n');
+}
+
+export interface ISpeedscopeFrame {
+  name: string;
+  file?: string;
+}
+
+/** A speedscope file with one sampled profile. */
+export interface ISpeedscopeFile {
+  $schema: 'https://www.speedscope.app/file-format-schema.json';
+  name: string;
+  exporter: string;
+  activeProfileIndex: 0;
+  shared: { frames: ISpeedscopeFrame[] };
+  profiles: [
+    {
+      type: 'sampled';
+      name: string;
+      unit: 'microseconds';
+      startValue: 0;
+      endValue: number;
+      /** Each sample is a stack of frame indexes, outermost first. */
+      samples: number[][];
+      weights: number[];
+    },
+  ];
+}
+
+/**
+ * The call tree as a speedscope file (https://www.speedscope.app): one
+ * weighted sample per path with time of its own. A frame is a description
+ * and the program it ran in.
+ */
+export function toSpeedscope(
+  tree: IProfilerCallNode[],
+  name = 'ABAP trace',
+): ISpeedscopeFile {
+  const frames: ISpeedscopeFrame[] = [];
+  const frameIndex = new Map<string, number>();
+  const indexOf = (node: IProfilerCallNode) => {
+    const file = node.callingProgram?.name;
+    const key = `${node.description}\u0000${file ?? ''}`;
+    let index = frameIndex.get(key);
+    if (index === undefined) {
+      index = frames.length;
+      frames.push(
+        file ? { name: node.description, file } : { name: node.description },
+      );
+      frameIndex.set(key, index);
+    }
+    return index;
+  };
+
+  const samples: number[][] = [];
+  const weights: number[] = [];
+  walk(tree, (stack, self) => {
+    if (self <= 0) return;
+    samples.push(stack.map(indexOf));
+    weights.push(self);
+  });
+
+  return {
+    $schema: 'https://www.speedscope.app/file-format-schema.json',
+    name,
+    exporter: '@mcp-abap-adt/adt-clients',
+    activeProfileIndex: 0,
+    shared: { frames },
+    profiles: [
+      {
+        type: 'sampled',
+        name,
+        unit: 'microseconds',
+        startValue: 0,
+        endValue: weights.reduce((sum, weight) => sum + weight, 0),
+        samples,
+        weights,
+      },
+    ],
+  };
+}
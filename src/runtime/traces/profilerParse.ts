@@ -0,0 +1,209 @@
+/**
+ * ABAP Profiler - reading hit lists, call trees and DB accesses
+ *
+ * The three trace views share their parts: a row carries its counters as
+ * attributes (`hitCount`, `callLevel`, `tableName`), its times as child
+ * elements with a `time` attribute in microseconds (`grossTime`,
+ * `traceEventNetTime`), and the program it ran in as a `callingProgram`
+ * child. Rows are found by the attribute that only they carry.
+ */
+
+import {
+  asArray,
+  attribute,
+  findElements,
+  numericAttribute,
+  parseXml,
+  type XmlNode,
+} from '../xmlNodes';
+
+/** A time in microseconds, with its share of the whole trace. */
+export interface IProfilerTime {
+  time: number;
+  percentage?: number;
+}
+
+/** A program a trace row points into. */
+export interface IProfilerProgram {
+  name?: string;
+  /** `PROG`, `CLAS`, `FUGR`, … */
+  type?: string;
+  /** ADT URI of the source position. */
+  uri?: string;
+  packageName?: string;
+  context?: string;
+}
+
+export interface IProfilerHitListEntry {
+  index: number;
+  description: string;
+  hitCount: number;
+  recursionDepth?: number;
+  /** Where the event was triggered. */
+  callingProgram?: IProfilerProgram;
+  /** Where the called unit lives, for calls. */
+  calledProgram?: IProfilerProgram;
+  grossTime: IProfilerTime;
+  /** Time in the event itself, without the events below it. */
+  netTime: IProfilerTime;
+  proceduralNetTime?: IProfilerTime;
+}
+
+export interface IProfilerStatement {
+  id: number;
+  /** ID of the statement that called this one; absent at the top. */
+  callerId?: number;
+  callLevel: number;
+  description: string;
+  hitCount: number;
+  callingProgram?: IProfilerProgram;
+  grossTime: IProfilerTime;
+  netTime: IProfilerTime;
+  proceduralNetTime?: IProfilerTime;
+  /** The trace has rows below this one that were not read. */
+  hasDetailSubnodes: boolean;
+}
+
+/** A statement with the statements it called. */
+export interface IProfilerCallNode extends IProfilerStatement {
+  children: IProfilerCallNode[];
+}
+
+export interface IProfilerDbAccess {
+  index: number;
+  tableName: string;
+  /** The statement as traced, e.g. `SELECT`. */
+  statement: string;
+  /** `OpenSQL`, `NativeSQL`, … */
+  type?: string;
+  /** Executions. */
+  count: number;
+  /** Executions served from the table buffer. */
+  bufferedCount: number;
+  /** Total time of all executions, in microseconds. */
+  time: number;
+  callingProgram?: IProfilerProgram;
+}
+
+function time(row: XmlNode, name: string): IProfilerTime | undefined {
+  const element = asArray(row[name])[0];
+  const value = element && numericAttribute(element, 'time');
+  if (value === undefined) return undefined;
+  return { time: value, percentage: numericAttribute(element, 'percentage') };
+}
+
+function program(row: XmlNode, name: string): IProfilerProgram | undefined {
+  const element = asArray(row[name])[0];
+  if (!element) return undefined;
+  return {
+    name: attribute(element, 'name'),
+    type: attribute(element, 'type'),
+    uri: attribute(element, 'uri'),
+    packageName: attribute(element, 'packageName') || undefined,
+    context: attribute(element, 'context') || undefined,
+  };
+}
+
+/** The hit list of a trace, in trace order; null when the body is not XML. */
+export function parseProfilerHitList(
+  body: unknown,
+): IProfilerHitListEntry[] | null {
+  const root = parseXml(body);
+  if (!root) return null;
+
+  return findElements(
+    root,
+    (element) => attribute(element, 'hitCount') !== undefined,
+  ).map((entry, position) => ({
+    index: numericAttribute(entry, 'index') ?? position,
+    description: attribute(entry, 'description') ?? '',
+    hitCount: numericAttribute(entry, 'hitCount') ?? 0,
+    recursionDepth: numericAttribute(entry, 'recursionDepth'),
+    callingProgram: program(entry, 'callingProgram'),
+    calledProgram: program(entry, 'calledProgram'),
+    grossTime: time(entry, 'grossTime') ?? { time: 0 },
+    netTime: time(entry, 'traceEventNetTime') ?? { time: 0 },
+    proceduralNetTime: time(entry, 'proceduralNetTime'),
+  }));
+}
+
+/**
+ * The statements of a trace's call tree, in trace order, as a flat list; null
+ * when the body is not XML. {@link buildProfilerCallTree} nests them.
+ */
+export function parseProfilerStatements(
+  body: unknown,
+): IProfilerStatement[] | null {
+  const root = parseXml(body);
+  if (!root) return null;
+
+  return findElements(
+    root,
+    (element) =>
+      attribute(element, 'id') !== undefined &&
+      attribute(element, 'hitCount') !== undefined,
+  ).map((statement) => {
+    const callerId = numericAttribute(statement, 'callerId');
+    return {
+      id: numericAttribute(statement, 'id') ?? 0,
+      callerId: callerId || undefined,
+      callLevel: numericAttribute(statement, 'callLevel') ?? 0,
+      description: attribute(statement, 'description') ?? '',
+      hitCount: numericAttribute(statement, 'hitCount') ?? 0,
+      callingProgram: program(statement, 'callingProgram'),
+      grossTime: time(statement, 'grossTime') ?? { time: 0 },
+      netTime: time(statement, 'traceEventNetTime') ?? { time: 0 },
+      proceduralNetTime: time(statement, 'proceduralNetTime'),
+      hasDetailSubnodes: attribute(statement, 'hasDetailSubnodes') === 'true',
+    };
+  });
+}
+
+/**
+ * Nest statements under their callers. A statement whose caller is not in
+ * the list — the top, or the part of the tree that was read — is a root.
+ */
+export function buildProfilerCallTree(
+  statements: IProfilerStatement[],
+): IProfilerCallNode[] {
+  const nodes = new Map<number, IProfilerCallNode>();
+  for (const statement of statements) {
+    nodes.set(statement.id, { ...statement, children: [] });
+  }
+  const roots: IProfilerCallNode[] = [];
+  for (const node of nodes.values()) {
+    const caller =
+      node.callerId !== undefined && node.callerId !== node.id
+        ? nodes.get(node.callerId)
+        : undefined;
+    (caller ? caller.children : roots).push(node);
+  }
+  return roots;
+}
+
+/** The DB accesses of a trace, in trace order; null when the body is not XML. */
+export function parseProfilerDbAccesses(
+  body: unknown,
+): IProfilerDbAccess[] | null {
+  const root = parseXml(body);
+  if (!root) return null;
+
+  return findElements(
+    root,
+    (element) =>
+      attribute(element, 'tableName') !== undefined &&
+      attribute(element, 'statement') !== undefined,
+  ).map((access, position) => {
+    const accessTime = asArray(access.accessTime)[0];
+    return {
+      index: numericAttribute(access, 'index') ?? position,
+      tableName: attribute(access, 'tableName') as string,
+      statement: attribute(access, 'statement') as string,
+      type: attribute(access, 'type'),
+      count: numericAttribute(access, 'totalCount') ?? 0,
+      bufferedCount: numericAttribute(access, 'bufferedCount') ?? 0,
+      time: (accessTime && numericAttribute(accessTime, 'total')) ?? 0,
+      callingProgram: program(access, 'callingProgram'),
+    };
+  });
+}
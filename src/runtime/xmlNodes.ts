@@ -0,0 +1,115 @@
+/**
+ * Reading runtime analysis responses as element trees.
+ *
+ * The runtime endpoints answer in XML whose element names and nesting are not
+ * published, and unlike ATC (`docs/evidence/`) no captured response pins them
+ * here. What the readers built on this module rely on instead is the name of
+ * the attribute a value sits on — `objectKey` and `recordNumber` are the names
+ * the endpoints' own URI templates use for them — or, in `asx:abap` documents,
+ * the name of the field element. They look values up by that name wherever
+ * the element is, rather than by a path from the root that nothing confirms.
+ *
+ * Options as in `atc/parse.ts`: prefixes are dropped so a rebound namespace
+ * reads the same, and every value stays a string so a key of `0001` is not
+ * turned into the number 1.
+ */
+
+import { XMLParser } from 'fast-xml-parser';
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  parseAttributeValue: false,
+  trimValues: true,
+});
+
+export type XmlNode = Record<string, unknown>;
+
+/** The document, or null for a body that is empty or not XML. */
+export function parseXml(body: unknown): XmlNode | null {
+  if (typeof body !== 'string' || body.trim() === '') return null;
+  try {
+    const parsed = parser.parse(body) as XmlNode;
+    return Object.keys(parsed).length > 0 ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Elements that appear once are objects and many times are arrays. */
+export function asArray(value: unknown): XmlNode[] {
+  if (value === undefined || value === null) return [];
+  return (Array.isArray(value) ? value : [value]).filter(
+    (v): v is XmlNode => typeof v === 'object' && v !== null,
+  );
+}
+
+/** An attribute's value, or undefined when the element does not carry it. */
+export function attribute(node: XmlNode, name: string): string | undefined {
+  const value = node[`@_${name}`];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/** All attributes of an element, without the parser's `@_` prefix. */
+export function attributes(node: XmlNode): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(node)) {
+    if (name.startsWith('@_') && typeof value === 'string') {
+      result[name.slice(2)] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * The text of a child element, or undefined when there is none. An element
+ * with attributes arrives as an object holding its text under `#text`.
+ */
+export function childText(node: XmlNode, name: string): string | undefined {
+  const value = node[name];
+  if (typeof value === 'string') return value;
+  if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+    const text = (value as XmlNode)['#text'];
+    return typeof text === 'string' ? text : '';
+  }
+  return undefined;
+}
+
+/** A number out of an attribute, or undefined when absent or not numeric. */
+export function numericAttribute(
+  node: XmlNode,
+  name: string,
+): number | undefined {
+  const value = attribute(node, name);
+  if (value === undefined || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Every element below `node`, in document order, that `matches` accepts.
+ * An accepted element is not searched further, so a row's own nested
+ * elements are never mistaken for rows of their own.
+ */
+export function findElements(
+  node: XmlNode,
+  matches: (element: XmlNode, name: string) => boolean,
+): XmlNode[] {
+  const found: XmlNode[] = [];
+  const visit = (element: XmlNode) => {
+    for (const [name, value] of Object.entries(element)) {
+      if (name.startsWith('@_') || name === '#text') continue;
+      for (const child of asArray(value)) {
+        if (matches(child, name)) {
+          found.push(child);
+        } else {
+          visit(child);
+        }
+      }
+    }
+  };
+  visit(node);
+  return found;
+}
@@ -0,0 +1,170 @@
+import type {
+  IAbapConnection,
+  IAbapRequestOptions,
+  IAdtResponse,
+} from '@mcp-abap-adt/interfaces';
+import { saveCassette } from './cassetteFile';
+import { toCassetteRequest } from './matching';
+import { redactData, redactHeaders, redactText } from './redaction';
+import type {
+  ICassette,
+  ICassetteInteraction,
+  ICassetteRecordOptions,
+  ICassetteResponse,
+} from './types';
+
+interface IHttpError {
+  message?: string;
+  code?: string;
+  response?: {
+    status: number;
+    statusText?: string;
+    headers?: Record<string, unknown>;
+    data?: unknown;
+  };
+}
+
+interface ICriticalSectionCapable {
+  beginCriticalSection?(): void;
+  endCriticalSection?(): void;
+}
+
+/**
+ * Records every request made through it, and what the real connection
+ * answered, into a cassette that `CassetteReplayConnection` serves back.
+ *
+ * Sits where `BatchRecordingConnection` sits — between the handlers and the
+ * real connection — but passes each request through at once instead of
+ * deferring it, so the flow runs against the system exactly as it would
+ * without it. Errors are recorded too and rethrown unchanged: a flow that
+ * handles a 404 or a failed lock needs that answer on replay as much as the
+ * successful ones.
+ *
+ * What is recorded is redacted (see `redaction.ts`) before it is kept, so an
+ * unredacted value never reaches the cassette, not even in memory.
+ */
+export class CassetteRecordingConnection implements IAbapConnection {
+  private readonly realConnection: IAbapConnection;
+  private readonly options: ICassetteRecordOptions;
+  private readonly recordedAt = new Date().toISOString();
+  private interactions: ICassetteInteraction[] = [];
+  private sessionType: 'stateful' | 'stateless' | undefined;
+
+  constructor(
+    realConnection: IAbapConnection,
+    options: ICassetteRecordOptions = {},
+  ) {
+    this.realConnection = realConnection;
+    this.options = options;
+  }
+
+  async connect(): Promise<void> {
+    return this.realConnection.connect();
+  }
+
+  getBaseUrl(): Promise<string> {
+    return this.realConnection.getBaseUrl();
+  }
+
+  getSessionId(): string | null {
+    return this.realConnection.getSessionId();
+  }
+
+  setSessionType(type: 'stateful' | 'stateless'): void {
+    this.sessionType = type;
+    this.realConnection.setSessionType(type);
+  }
+
+  /**
+   * Passed through to the real connection when it has one: a recording
+   * should not change how the lock window is protected.
+   */
+  beginCriticalSection(): void {
+    (this.realConnection as ICriticalSectionCapable).beginCriticalSection?.();
+  }
+
+  endCriticalSection(): void {
+    (this.realConnection as ICriticalSectionCapable).endCriticalSection?.();
+  }
+
+  async makeAdtRequest<T = unknown, D = unknown>(
+    options: IAbapRequestOptions,
+  ): Promise<IAdtResponse<T, D>> {
+    const request = toCassetteRequest(
+      options,
+      this.sessionType,
+      this.options.redact,
+    );
+    try {
+      const response = await this.realConnection.makeAdtRequest<T, D>(options);
+      this.interactions.push({ request, response: this.toResponse(response) });
+      return response;
+    } catch (error) {
+      const failure = error as IHttpError;
+      this.interactions.push({
+        request,
+        ...(failure?.response && {
+          response: this.toResponse(failure.response),
+        }),
+        error: {
+          message: redactText(
+            String(failure?.message ?? error),
+            this.options.redact,
+          ),
+          ...(failure?.code && { code: failure.code }),
+        },
+      });
+      throw error;
+    }
+  }
+
+  /** The interactions recorded so far, in the order they were made. */
+  getInteractions(): ICassetteInteraction[] {
+    return [...this.interactions];
+  }
+
+  /** Everything recorded so far, as a cassette. */
+  async toCassette(): Promise<ICassette> {
+    const baseUrl = await this.realConnection.getBaseUrl().catch(() => '');
+    return {
+      version: 1,
+      recordedAt: this.recordedAt,
+      ...(baseUrl && { baseUrl: redactText(baseUrl, this.options.redact) }),
+      interactions: this.getInteractions(),
+    };
+  }
+
+  /** Write the cassette to `path` as JSON. */
+  async save(path: string): Promise<void> {
+    await saveCassette(path, await this.toCassette());
+  }
+
+  reset(): void {
+    this.interactions = [];
+  }
+
+  getRealConnection(): IAbapConnection {
+    return this.realConnection;
+  }
+
+  private toResponse(response: {
+    status: number;
+    statusText?: string;
+    headers?: unknown;
+    data?: unknown;
+  }): ICassetteResponse {
+    const binary = Buffer.isBuffer(response.data);
+    return {
+      status: response.status,
+      statusText: response.statusText ?? '',
+      headers: redactHeaders(
+        { ...(response.headers as Record<string, unknown>) },
+        this.options.redact,
+      ),
+      data: binary
+        ? (response.data as Buffer).toString('base64')
+        : redactData(response.data, this.options.redact),
+      ...(binary && { encoding: 'base64' as const }),
+    };
+  }
+}
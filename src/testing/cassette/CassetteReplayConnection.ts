@@ -0,0 +1,157 @@
+import {
+  AdtOperationError,
+  type IAbapConnection,
+  type IAbapRequestOptions,
+  type IAdtResponse,
+} from '@mcp-abap-adt/interfaces';
+import { AxiosError, type AxiosResponse } from 'axios';
+import { loadCassette } from './cassetteFile';
+import { describeRequest, requestsMatch, toCassetteRequest } from './matching';
+import type {
+  ICassette,
+  ICassetteInteraction,
+  ICassetteReplayOptions,
+  ICassetteResponse,
+} from './types';
+
+function cassetteError(code: string, message: string): AdtOperationError {
+  const error = new AdtOperationError(message);
+  error.code = code;
+  return error;
+}
+
+/**
+ * Serves a recorded cassette back as an `IAbapConnection`, so that an
+ * `AdtClient` flow runs the same way without a system.
+ *
+ * Each request is answered by the first interaction not yet served that
+ * matches it — method and path always, parameters and normalized body unless
+ * turned off (see `ICassetteMatchOptions`). Order is not enforced beyond
+ * that: two reads of different objects may come in either order, while two
+ * reads of the same object get their answers in the order recorded.
+ *
+ * A request nothing matches rejects with `CASSETTE_NO_MATCH`, naming the
+ * request and what was recorded for the same path — there is no fallback to
+ * a live system, since a test that quietly went online would not be
+ * deterministic. An interaction recorded as an HTTP error is thrown as an
+ * `AxiosError` with its response, which is what the handlers inspect.
+ */
+export class CassetteReplayConnection implements IAbapConnection {
+  private readonly cassette: ICassette;
+  private readonly options: ICassetteReplayOptions;
+  private readonly served: boolean[];
+  private sessionType: 'stateful' | 'stateless' | undefined;
+
+  constructor(cassette: ICassette, options: ICassetteReplayOptions = {}) {
+    this.cassette = cassette;
+    this.options = options;
+    this.served = cassette.interactions.map(() => false);
+  }
+
+  /** A replay connection over the cassette at `path`. */
+  static async fromFile(
+    path: string,
+    options: ICassetteReplayOptions = {},
+  ): Promise<CassetteReplayConnection> {
+    return new CassetteReplayConnection(await loadCassette(path), options);
+  }
+
+  async connect(): Promise<void> {
+    // Nothing to connect to.
+  }
+
+  async getBaseUrl(): Promise<string> {
+    return this.cassette.baseUrl ?? 'http://cassette.invalid';
+  }
+
+  getSessionId(): string | null {
+    return null;
+  }
+
+  setSessionType(type: 'stateful' | 'stateless'): void {
+    this.sessionType = type;
+  }
+
+  async makeAdtRequest<T = unknown, D = unknown>(
+    options: IAbapRequestOptions,
+  ): Promise<IAdtResponse<T, D>> {
+    const request = toCassetteRequest(
+      options,
+      this.sessionType,
+      this.options.redact,
+    );
+    const interactions = this.cassette.interactions;
+    const matches = (interaction: ICassetteInteraction) =>
+      requestsMatch(interaction.request, request, this.options);
+
+    let index = interactions.findIndex(
+      (interaction, i) => !this.served[i] && matches(interaction),
+    );
+    if (index === -1 && this.options.allowRepeats) {
+      for (let i = interactions.length - 1; i >= 0 && index === -1; i--) {
+        if (matches(interactions[i])) index = i;
+      }
+    }
+    if (index === -1) {
+      const samePath = interactions
+        .filter(
+          (interaction) =>
+            interaction.request.method === request.method &&
+            interaction.request.url === request.url,
+        )
+        .map((interaction) => describeRequest(interaction.request));
+      throw cassetteError(
+        'CASSETTE_NO_MATCH',
+        `No recorded interaction matches ${describeRequest(request)}.` +
+          (samePath.length > 0
+            ? ` Recorded for the same path: ${samePath.join('; ')}.`
+            : ' Nothing was recorded for this path.'),
+      );
+    }
+    this.served[index] = true;
+
+    const { response, error } = interactions[index];
+    if (!response) {
+      throw new AxiosError(
+        error?.message ?? 'Recorded request failed',
+        error?.code,
+      );
+    }
+    if (error) {
+      throw new AxiosError(
+        error.message,
+        error.code,
+        undefined,
+        undefined,
+        this.toResponse(response) as AxiosResponse,
+      );
+    }
+    return this.toResponse(response) as IAdtResponse<T, D>;
+  }
+
+  /**
+   * Interactions not served yet. A test asserts this is empty to know the
+   * flow made every request it made when recorded — not only that those it
+   * made were answered.
+   */
+  getUnplayed(): ICassetteInteraction[] {
+    return this.cassette.interactions.filter((_, i) => !this.served[i]);
+  }
+
+  /** Serve every interaction again, as a fresh connection would. */
+  rewind(): void {
+    this.served.fill(false);
+  }
+
+  private toResponse(response: ICassetteResponse): IAdtResponse {
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      headers: { ...response.headers },
+      data:
+        response.encoding === 'base64'
+          ? Buffer.from(String(response.data), 'base64')
+          : response.data,
+    };
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Cassettes on disk: pretty-printed JSON, so that a re-recorded cassette
+ * diffs line by line in review.
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { AdtOperationError } from '@mcp-abap-adt/interfaces';
+import type { ICassette } from './types';
+
+export async function saveCassette(
+  path: string,
+  cassette: ICassette,
+): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, `${JSON.stringify(cassette, null, 2)}\n`, 'utf8');
+}
+
+/**
+ * Read a cassette. Refuses (`CASSETTE_UNREADABLE`) a file that is not one, so
+ * a test fails on its fixture rather than on the first request that finds no
+ * interaction.
+ */
+export async function loadCassette(path: string): Promise<ICassette> {
+  const text = await readFile(path, 'utf8');
+  let cassette: Partial<ICassette> | undefined;
+  try {
+    cassette = JSON.parse(text) as Partial<ICassette>;
+  } catch {
+    cassette = undefined;
+  }
+  if (cassette?.version !== 1 || !Array.isArray(cassette.interactions)) {
+    const error = new AdtOperationError(
+      `${path} is not a version 1 cassette: no version 1 and interactions array in it.`,
+    );
+    error.code = 'CASSETTE_UNREADABLE';
+    throw error;
+  }
+  return cassette as ICassette;
+}
@@ -0,0 +1,14 @@
+export { CassetteRecordingConnection } from './CassetteRecordingConnection';
+export { CassetteReplayConnection } from './CassetteReplayConnection';
+export { loadCassette, saveCassette } from './cassetteFile';
+export type {
+  ICassette,
+  ICassetteInteraction,
+  ICassetteMatchOptions,
+  ICassetteRecordOptions,
+  ICassetteRedactionOptions,
+  ICassetteReplacement,
+  ICassetteReplayOptions,
+  ICassetteRequest,
+  ICassetteResponse,
+} from './types';
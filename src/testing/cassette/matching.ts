@@ -0,0 +1,108 @@
+/**
+ * A request in the form a cassette holds it, and the comparison replay uses
+ * to find its interaction.
+ *
+ * Handlers build the same request two ways — the query in the URL, or in
+ * `options.params` — so both are folded into one sorted set of parameters
+ * before anything is stored or compared.
+ */
+
+import type { IAbapRequestOptions } from '@mcp-abap-adt/interfaces';
+import { redactHeaders, redactText } from './redaction';
+import type {
+  ICassetteMatchOptions,
+  ICassetteRedactionOptions,
+  ICassetteRequest,
+} from './types';
+
+function bodyOf(data: unknown): string | undefined {
+  if (data === undefined || data === null) return undefined;
+  if (typeof data === 'string') return data;
+  if (Buffer.isBuffer(data)) return data.toString('base64');
+  return JSON.stringify(data);
+}
+
+/** The request as recorded: path, sorted parameters, redacted throughout. */
+export function toCassetteRequest(
+  options: IAbapRequestOptions,
+  sessionType: 'stateful' | 'stateless' | undefined,
+  redact: ICassetteRedactionOptions | undefined,
+): ICassetteRequest {
+  const url = new URL(String(options.url), 'http://cassette.invalid');
+  const params: Record<string, string> = {};
+  for (const [key, value] of url.searchParams) params[key] = value;
+  for (const [key, value] of Object.entries(
+    (options.params ?? {}) as Record<string, unknown>,
+  )) {
+    if (value !== undefined && value !== null) params[key] = String(value);
+  }
+  const sorted = Object.keys(params).sort();
+  const body = bodyOf(options.data);
+
+  return {
+    method: String(options.method).toUpperCase(),
+    url: redactText(decodeURI(url.pathname), redact),
+    ...(sorted.length > 0 && {
+      params: Object.fromEntries(
+        sorted.map((key) => [key, redactText(params[key], redact)]),
+      ),
+    }),
+    ...(options.headers && {
+      headers: redactHeaders(
+        options.headers as Record<string, unknown>,
+        redact,
+      ),
+    }),
+    ...(body !== undefined && { body: redactText(body, redact) }),
+    ...(sessionType && { sessionType }),
+  };
+}
+
+function normalizedBody(
+  body: string | undefined,
+  options: ICassetteMatchOptions,
+): string {
+  const text = (body ?? '')
+    .replace(/\r\n/g, '\n')
+    .replace(/>\s+</g, '><')
+    .trim();
+  return options.normalizeBody ? options.normalizeBody(text) : text;
+}
+
+function comparedParams(
+  params: Record<string, string> | undefined,
+  ignore: string[] | undefined,
+): string {
+  const ignored = new Set(ignore ?? []);
+  return JSON.stringify(
+    Object.entries(params ?? {}).filter(([key]) => !ignored.has(key)),
+  );
+}
+
+/** Whether an incoming request is the one an interaction recorded. */
+export function requestsMatch(
+  recorded: ICassetteRequest,
+  incoming: ICassetteRequest,
+  options: ICassetteMatchOptions,
+): boolean {
+  if (recorded.method !== incoming.method) return false;
+  if (recorded.url !== incoming.url) return false;
+  if (
+    options.params !== false &&
+    comparedParams(recorded.params, options.ignoreParams) !==
+      comparedParams(incoming.params, options.ignoreParams)
+  ) {
+    return false;
+  }
+  return (
+    options.body === false ||
+    normalizedBody(recorded.body, options) ===
+      normalizedBody(incoming.body, options)
+  );
+}
+
+/** A request in one line, for the error that says nothing matched. */
+export function describeRequest(request: ICassetteRequest): string {
+  const query = new URLSearchParams(request.params ?? {}).toString();
+  return `${request.method} ${request.url}${query ? `?${query}` : ''}`;
+}
@@ -0,0 +1,94 @@
+/**
+ * Redaction of what goes into a cassette.
+ *
+ * A cassette is meant to be committed next to the tests that use it, so what
+ * identifies the system or the user must not reach it: session cookies, CSRF
+ * tokens and credentials by header, user names wherever they appear. The same
+ * functions run on replay over the incoming request, so that it is compared
+ * in the form it was recorded in.
+ */
+
+import type { ICassetteRedactionOptions } from './types';
+
+export const REDACTED = '<redacted>';
+export const REDACTED_USER = '<user>';
+
+const SENSITIVE_HEADERS = [
+  'authorization',
+  'cookie',
+  'proxy-authorization',
+  'set-cookie',
+  'x-csrf-token',
+];
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Apply the user names and replacements to a text. */
+export function redactText(
+  text: string,
+  options: ICassetteRedactionOptions | undefined,
+): string {
+  let result = text;
+  for (const user of options?.usernames ?? []) {
+    if (!user) continue;
+    // Whole words only: a user `DEV` is not the `DEV` in `DEVC/K`.
+    result = result.replace(
+      new RegExp(`(?<![\\w/])${escapeRegExp(user)}(?![\\w/])`, 'gi'),
+      REDACTED_USER,
+    );
+  }
+  for (const { pattern, replacement } of options?.replacements ?? []) {
+    result = result.replace(
+      typeof pattern === 'string'
+        ? new RegExp(escapeRegExp(pattern), 'gi')
+        : pattern,
+      replacement,
+    );
+  }
+  return result;
+}
+
+/**
+ * Headers with sensitive values replaced and the rest redacted as text. The
+ * `Fetch` a client sends in `x-csrf-token` to ask for a token is kept: it is
+ * not a secret, and a reader of the cassette should see that it was asked.
+ */
+export function redactHeaders(
+  headers: Record<string, unknown> | undefined,
+  options: ICassetteRedactionOptions | undefined,
+): Record<string, string> {
+  const sensitive = new Set(
+    [...SENSITIVE_HEADERS, ...(options?.headers ?? [])].map((name) =>
+      name.toLowerCase(),
+    ),
+  );
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers ?? {})) {
+    if (value === undefined || value === null) continue;
+    const text = Array.isArray(value) ? value.join(', ') : String(value);
+    result[name] =
+      sensitive.has(name.toLowerCase()) && text.toLowerCase() !== 'fetch'
+        ? REDACTED
+        : redactText(text, options);
+  }
+  return result;
+}
+
+/** A response body redacted as text, through any depth of parsed value. */
+export function redactData(
+  data: unknown,
+  options: ICassetteRedactionOptions | undefined,
+): unknown {
+  if (typeof data === 'string') return redactText(data, options);
+  if (Array.isArray(data)) return data.map((item) => redactData(item, options));
+  if (data && typeof data === 'object') {
+    return Object.fromEntries(
+      Object.entries(data).map(([key, value]) => [
+        key,
+        redactData(value, options),
+      ]),
+    );
+  }
+  return data;
+}
@@ -0,0 +1,120 @@
+/**
+ * Cassette type definitions.
+ *
+ * A cassette is a JSON file of request/response pairs recorded against a real
+ * system, which a replay connection serves back. These are not in
+ * @mcp-abap-adt/interfaces: they describe this package's file format, which
+ * no other package reads or writes.
+ */
+
+/** The request half of an interaction, as matched on replay. */
+export interface ICassetteRequest {
+  method: string;
+  /** Path without the query; the query is in `params`. */
+  url: string;
+  /** Query parameters, from the URL and `options.params` together. */
+  params?: Record<string, string>;
+  /** Request headers, redacted. Recorded for reading, not matched. */
+  headers?: Record<string, string>;
+  body?: string;
+  /** Session type the connection was in when the request was made. */
+  sessionType?: 'stateful' | 'stateless';
+}
+
+export interface ICassetteResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  /**
+   * The response body: a string as the server sent it, or the value a
+   * connection parsed it into. A binary body is base64 with `encoding`.
+   */
+  data: unknown;
+  encoding?: 'base64';
+}
+
+export interface ICassetteInteraction {
+  request: ICassetteRequest;
+  /**
+   * The response; absent when the request failed without one — a refused
+   * connection, a timeout — and `error` says how.
+   */
+  response?: ICassetteResponse;
+  /**
+   * The connection threw: with a response for an HTTP error status, without
+   * one for a network failure. Replay throws the same way.
+   */
+  error?: { message: string; code?: string };
+}
+
+export interface ICassette {
+  version: 1;
+  /** ISO timestamp of the recording. */
+  recordedAt: string;
+  /** Base URL of the recorded system, redacted like everything else. */
+  baseUrl?: string;
+  interactions: ICassetteInteraction[];
+}
+
+/** A text to replace wherever it occurs in what is recorded. */
+export interface ICassetteReplacement {
+  /** A string is replaced case-insensitively, every occurrence. */
+  pattern: string | RegExp;
+  replacement: string;
+}
+
+export interface ICassetteRedactionOptions {
+  /**
+   * Headers whose values are replaced by `<redacted>`, in addition to
+   * `authorization`, `cookie`, `set-cookie`, `proxy-authorization` and
+   * `x-csrf-token`. Case-insensitive.
+   */
+  headers?: string[];
+  /**
+   * User names, replaced by `<user>` in URLs, parameters, bodies and headers:
+   * ADT writes the user into `adtcore:responsible`, `adtcore:changedBy`,
+   * transport owners, lock owners.
+   */
+  usernames?: string[];
+  /** Further replacements, applied after the user names. */
+  replacements?: ICassetteReplacement[];
+}
+
+export interface ICassetteMatchOptions {
+  /**
+   * Request parts compared on replay. Default: all of them. The method and
+   * URL path are always compared.
+   */
+  params?: boolean;
+  body?: boolean;
+  /**
+   * Query parameters left out of the comparison — ones that change from run
+   * to run, such as a timestamp or a generated id.
+   */
+  ignoreParams?: string[];
+  /**
+   * Rewrites a body before it is compared, on both sides, for content that
+   * changes from run to run. Applied after the built-in normalization, which
+   * unifies line endings and drops whitespace between XML tags.
+   */
+  normalizeBody?: (body: string) => string;
+}
+
+export interface ICassetteReplayOptions extends ICassetteMatchOptions {
+  /**
+   * The same redaction the recording used: an incoming request is redacted
+   * before it is matched, so a request carrying a user name matches the
+   * interaction that was recorded with `<user>` in its place.
+   */
+  redact?: ICassetteRedactionOptions;
+  /**
+   * Serve an interaction again once every interaction matching the request
+   * has been served — for polling loops whose length differs between runs.
+   * Default false: each interaction is served once.
+   */
+  allowRepeats?: boolean;
+}
+
+export interface ICassetteRecordOptions {
+  redact?: ICassetteRedactionOptions;
+}
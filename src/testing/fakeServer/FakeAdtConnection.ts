@@ -0,0 +1,52 @@
+import type {
+  IAbapConnection,
+  IAbapRequestOptions,
+  IAdtResponse,
+} from '@mcp-abap-adt/interfaces';
+import type { FakeAdtServer } from './FakeAdtServer';
+
+/**
+ * One session on a `FakeAdtServer`. Construct an `AdtClient` over it the way
+ * one is constructed over a real connection; get it from
+ * `server.createConnection()`, which gives each connection its own session
+ * id — the identity locks are held under.
+ */
+export class FakeAdtConnection implements IAbapConnection {
+  private readonly server: FakeAdtServer;
+  private readonly sessionId: string;
+  private sessionType: 'stateful' | 'stateless' = 'stateless';
+
+  constructor(server: FakeAdtServer, sessionId: string) {
+    this.server = server;
+    this.sessionId = sessionId;
+  }
+
+  async connect(): Promise<void> {
+    // Nothing to connect to.
+  }
+
+  async getBaseUrl(): Promise<string> {
+    return this.server.getBaseUrl();
+  }
+
+  getSessionId(): string | null {
+    return this.sessionId;
+  }
+
+  setSessionType(type: 'stateful' | 'stateless'): void {
+    this.sessionType = type;
+  }
+
+  async makeAdtRequest<T = unknown, D = unknown>(
+    options: IAbapRequestOptions,
+  ): Promise<IAdtResponse<T, D>> {
+    return (await this.server.handle(options, {
+      id: this.sessionId,
+      type: this.sessionType,
+    })) as IAdtResponse<T, D>;
+  }
+
+  getServer(): FakeAdtServer {
+    return this.server;
+  }
+}
@@ -0,0 +1,722 @@
+import {
+  AdtOperationError,
+  type IAbapRequestOptions,
+  type IAdtResponse,
+} from '@mcp-abap-adt/interfaces';
+import { XMLParser } from 'fast-xml-parser';
+import { escapeXmlAttr } from '../../utils/xml';
+import { FakeAdtConnection } from './FakeAdtConnection';
+import {
+  activationResult,
+  activationRun,
+  checkRunReports,
+  deletionCheckResult,
+  httpError,
+  type IObjectFindings,
+  inactiveObjects,
+  lockResult,
+  ok,
+  validationResult,
+} from './responses';
+import type {
+  IFakeAdtObject,
+  IFakeAdtRequestLogEntry,
+  IFakeAdtSeed,
+  IFakeAdtServerOptions,
+  IFakeCheckMessage,
+} from './types';
+
+interface IKind {
+  type: string;
+  collection: string;
+  /** What SAP generates as the main source on create; absent for DDIC objects edited as XML. */
+  skeleton?: (name: string) => string;
+  /** Source parts that exist from create on, read as empty until written. */
+  includes?: string[];
+}
+
+const KINDS: IKind[] = [
+  {
+    type: 'CLAS/OC',
+    collection: '/sap/bc/adt/oo/classes',
+    skeleton: (name) =>
+      `CLASS ${name} DEFINITION\n  PUBLIC\n  FINAL\n  CREATE PUBLIC.\n\n  PUBLIC SECTION.\n  PROTECTED SECTION.\n  PRIVATE SECTION.\nENDCLASS.\n\n\nCLASS ${name} IMPLEMENTATION.\nENDCLASS.`,
+    includes: [
+      'includes/definitions',
+      'includes/implementations',
+      'includes/macros',
+      'includes/testclasses',
+    ],
+  },
+  {
+    type: 'INTF/OI',
+    collection: '/sap/bc/adt/oo/interfaces',
+    skeleton: (name) => `INTERFACE ${name}\n  PUBLIC.\nENDINTERFACE.`,
+  },
+  {
+    type: 'PROG/P',
+    collection: '/sap/bc/adt/programs/programs',
+    skeleton: (name) => `REPORT ${name}.`,
+  },
+  {
+    type: 'TABL/DT',
+    collection: '/sap/bc/adt/ddic/tables',
+    skeleton: (name) => `define table ${name} {\n}`,
+  },
+  {
+    type: 'TABL/DS',
+    collection: '/sap/bc/adt/ddic/structures',
+    skeleton: (name) => `define structure ${name} {\n}`,
+  },
+  { type: 'DOMA/DD', collection: '/sap/bc/adt/ddic/domains' },
+  { type: 'DTEL/DE', collection: '/sap/bc/adt/ddic/dataelements' },
+];
+
+const MAIN = 'source/main';
+
+interface IStoredObject extends IFakeAdtObject {
+  kind: IKind;
+}
+
+interface ISession {
+  id: string;
+  type: 'stateful' | 'stateless';
+}
+
+interface IRequest {
+  method: string;
+  path: string;
+  params: Record<string, string>;
+  body: string;
+  session: ISession;
+}
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  parseAttributeValue: false,
+  parseTagValue: false,
+  isArray: (name) =>
+    [
+      'adtcore:objectReference',
+      'chkrun:checkObject',
+      'chkrun:artifact',
+      'del:object',
+    ].includes(name),
+});
+
+function fakeError(code: string, message: string): AdtOperationError {
+  const error = new AdtOperationError(message);
+  error.code = code;
+  return error;
+}
+
+function bodyText(data: unknown): string {
+  if (data === undefined || data === null) return '';
+  if (typeof data === 'string') return data;
+  if (Buffer.isBuffer(data)) return data.toString('utf8');
+  return JSON.stringify(data);
+}
+
+function rootElement(xml: string): Record<string, unknown> | undefined {
+  const parsed = xmlParser.parse(xml) as Record<string, unknown>;
+  const key = Object.keys(parsed).find((name) => name !== '?xml');
+  const root = key ? parsed[key] : undefined;
+  return root && typeof root === 'object'
+    ? (root as Record<string, unknown>)
+    : undefined;
+}
+
+function list(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value) ? value : value ? [value as never] : [];
+}
+
+function snapshot(object: IStoredObject): IFakeAdtObject {
+  const { kind: _kind, ...rest } = object;
+  return {
+    ...rest,
+    ...(object.lock && { lock: { ...object.lock } }),
+    parts: Object.fromEntries(
+      Object.entries(object.parts).map(([part, versions]) => [
+        part,
+        { ...versions },
+      ]),
+    ),
+  };
+}
+
+/**
+ * An ADT system in memory, for running `AdtClient` flows end to end in a unit
+ * test: create, lock, write, check, activate, read back, delete.
+ *
+ * It keeps what a system keeps for the object kinds it knows — classes,
+ * interfaces, programs, tables, structures, domains and data elements — and
+ * nothing more:
+ *
+ * - **Versions.** A write saves an inactive version next to the active one;
+ *   activation promotes it. Reads honour `version=active|inactive`, and an
+ *   object never activated reads its inactive version either way.
+ * - **Locks.** A lock belongs to the connection that took it, as an enqueue
+ *   lock belongs to a stateful session. A second connection from
+ *   `createConnection()` is refused (403) while it is held, and a write with
+ *   a handle that is not the current one fails with 423 — the two answers the
+ *   handlers and `LockRegistry` are written against.
+ * - **Transports.** `corrNr` on a create or a write is recorded on the object
+ *   and returned as `CORRNR` with the next lock.
+ * - **Checks.** Check runs and activation report what the `check` hook finds;
+ *   without one every source is clean. A source with an `E` finding fails its
+ *   check run and stays inactive on activation, with the finding in the
+ *   `chkl:messages` the activation returns.
+ *
+ * A request outside that rejects with `FAKE_ADT_UNSUPPORTED_REQUEST` rather
+ * than an invented answer: a flow that reaches one needs a cassette or a mock,
+ * and should say so instead of passing on a guess.
+ */
+export class FakeAdtServer {
+  private readonly options: IFakeAdtServerOptions;
+  private readonly objects = new Map<string, IStoredObject>();
+  private readonly runs = new Map<string, string>();
+  private readonly requests: IFakeAdtRequestLogEntry[] = [];
+  private sessions = 0;
+  private lockCounter = 0;
+  private runCounter = 0;
+
+  constructor(options: IFakeAdtServerOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * A new connection to this server — a new session, as far as locks go. Use
+   * one per simulated user.
+   */
+  createConnection(): FakeAdtConnection {
+    this.sessions += 1;
+    return new FakeAdtConnection(this, `fake-session-${this.sessions}`);
+  }
+
+  getBaseUrl(): string {
+    return this.options.baseUrl ?? 'http://fake-adt.invalid';
+  }
+
+  /** Put an object in the repository, as if it had been created earlier. */
+  addObject(seed: IFakeAdtSeed): IFakeAdtObject {
+    const kind = KINDS.find((candidate) => candidate.type === seed.type);
+    if (!kind) {
+      throw fakeError(
+        'FAKE_ADT_TYPE_UNSUPPORTED',
+        `The fake ADT server does not keep ${seed.type} objects. Supported: ${KINDS.map((k) => k.type).join(', ')}.`,
+      );
+    }
+    const name = seed.name.toUpperCase();
+    const packageName = (seed.packageName ?? '$TMP').toUpperCase();
+    const description = seed.description ?? name;
+    const version = seed.state === 'inactive' ? 'inactive' : 'active';
+    const xml =
+      seed.xml ??
+      `<?xml version="1.0" encoding="UTF-8"?><adtcore:object xmlns:adtcore="http://www.sap.com/adt/core" adtcore:name="${name}" adtcore:type="${kind.type}" adtcore:description="${escapeXmlAttr(description)}"><adtcore:packageRef adtcore:name="${packageName}"/></adtcore:object>`;
+    const object: IStoredObject = {
+      kind,
+      type: kind.type,
+      name,
+      uri: this.uriOf(kind, name),
+      packageName,
+      description,
+      ...(seed.transport && { transport: seed.transport }),
+      parts: { '': { [version]: xml } },
+    };
+    if (kind.skeleton) {
+      object.parts[MAIN] = {
+        [version]: seed.source ?? kind.skeleton(name.toLowerCase()),
+      };
+    }
+    this.objects.set(object.uri, object);
+    return snapshot(object);
+  }
+
+  /** The object as stored now, or `undefined` if there is none. */
+  getObject(type: string, name: string): IFakeAdtObject | undefined {
+    const kind = KINDS.find((candidate) => candidate.type === type);
+    const object = kind
+      ? this.objects.get(this.uriOf(kind, name.toUpperCase()))
+      : undefined;
+    return object && snapshot(object);
+  }
+
+  listObjects(): IFakeAdtObject[] {
+    return [...this.objects.values()].map(snapshot);
+  }
+
+  /** Every request answered so far, refused ones included, in order. */
+  getRequests(): IFakeAdtRequestLogEntry[] {
+    return this.requests.map((entry) => ({ ...entry }));
+  }
+
+  /**
+   * Answer one request as the given session. This is what `FakeAdtConnection`
+   * calls; a test talks to the server through a connection.
+   */
+  async handle(
+    options: IAbapRequestOptions,
+    session: ISession,
+  ): Promise<IAdtResponse> {
+    const url = new URL(String(options.url), this.getBaseUrl());
+    const params: Record<string, string> = {};
+    for (const [key, value] of url.searchParams) params[key] = value;
+    for (const [key, value] of Object.entries(
+      (options.params ?? {}) as Record<string, unknown>,
+    )) {
+      if (value !== undefined && value !== null) params[key] = String(value);
+    }
+    const request: IRequest = {
+      method: String(options.method).toUpperCase(),
+      path: url.pathname.replace(/\/+$/, ''),
+      params,
+      body: bodyText(options.data),
+      session: { ...session },
+    };
+
+    let status = 0;
+    try {
+      const response = this.route(request);
+      status = response.status;
+      return response;
+    } catch (error) {
+      status =
+        (error as { response?: { status?: number } }).response?.status ?? 0;
+      throw error;
+    } finally {
+      this.requests.push({
+        method: request.method,
+        path: request.path,
+        params: request.params,
+        sessionId: session.id,
+        sessionType: session.type,
+        status,
+      });
+    }
+  }
+
+  private route(request: IRequest): IAdtResponse {
+    const { method } = request;
+    const path = request.path.toLowerCase();
+
+    if (path === '/sap/bc/adt/checkruns' && method === 'POST') {
+      return ok(checkRunReports(this.checkRun(request.body)));
+    }
+    if (path === '/sap/bc/adt/activation' && method === 'POST') {
+      const { executed, findings } = this.activate(request);
+      return ok(activationResult(executed, findings));
+    }
+    if (path === '/sap/bc/adt/activation/runs' && method === 'POST') {
+      const { executed, findings } = this.activate(request);
+      this.runCounter += 1;
+      const id = `FAKE_RUN_${this.runCounter}`;
+      this.runs.set(id, activationResult(executed, findings));
+      return ok('', 'application/xml', 201, {
+        location: `/sap/bc/adt/activation/runs/${id}`,
+      });
+    }
+    const run = /^\/sap\/bc\/adt\/activation\/(runs|results)\/([^/]+)$/.exec(
+      request.path,
+    );
+    if (run && method === 'GET') {
+      const result = this.runs.get(run[2]);
+      if (result === undefined) {
+        throw httpError(404, `Activation run ${run[2]} does not exist`);
+      }
+      return ok(run[1] === 'runs' ? activationRun(run[2]) : result);
+    }
+    if (path === '/sap/bc/adt/activation/inactiveobjects' && method === 'GET') {
+      return ok(
+        inactiveObjects(
+          [...this.objects.values()].filter((object) =>
+            Object.values(object.parts).some(
+              (versions) => versions.inactive !== undefined,
+            ),
+          ),
+        ),
+      );
+    }
+    if (path === '/sap/bc/adt/deletion/check' && method === 'POST') {
+      return this.deletionCheck(request);
+    }
+    if (path === '/sap/bc/adt/deletion/delete' && method === 'POST') {
+      return this.delete(request);
+    }
+    if (/\/validation(\/objectname)?$/.test(path) && method === 'POST') {
+      return ok(this.validate(request.params));
+    }
+
+    const kind = KINDS.find(
+      (candidate) =>
+        path === candidate.collection ||
+        path.startsWith(`${candidate.collection}/`),
+    );
+    if (kind) {
+      const [segment, ...part] = request.path
+        .slice(kind.collection.length)
+        .split('/')
+        .filter(Boolean);
+      if (!segment && method === 'POST') return this.create(kind, request);
+      if (segment) {
+        const name = decodeURIComponent(segment).toUpperCase();
+        const partKey = part.join('/').toLowerCase();
+        if (partKey === '' && method === 'POST') {
+          if (request.params._action === 'LOCK') {
+            return this.lock(kind, name, request.session);
+          }
+          if (request.params._action === 'UNLOCK') {
+            return this.unlock(kind, name, request);
+          }
+        }
+        if (this.isPart(kind, partKey)) {
+          if (method === 'GET') return this.read(kind, name, partKey, request);
+          if (method === 'PUT') {
+            return this.write(kind, name, partKey, request);
+          }
+        }
+      }
+    }
+
+    throw fakeError(
+      'FAKE_ADT_UNSUPPORTED_REQUEST',
+      `The fake ADT server does not answer ${request.method} ${request.path}. ` +
+        'Use a cassette or a mocked connection for requests outside the object lifecycle it simulates.',
+    );
+  }
+
+  private uriOf(kind: IKind, name: string): string {
+    return `${kind.collection}/${encodeURIComponent(name).toLowerCase()}`;
+  }
+
+  private isPart(kind: IKind, partKey: string): boolean {
+    return (
+      partKey === '' ||
+      (kind.skeleton !== undefined && partKey === MAIN) ||
+      (kind.includes ?? []).includes(partKey)
+    );
+  }
+
+  /** The stored object an ADT URI names, whatever the case of the URI. */
+  private byUri(uri: string): IStoredObject | undefined {
+    const path = new URL(uri, this.getBaseUrl()).pathname.toLowerCase();
+    const kind = KINDS.find((candidate) =>
+      path.startsWith(`${candidate.collection}/`),
+    );
+    const segment = kind
+      ? path.slice(kind.collection.length + 1).split('/')[0]
+      : undefined;
+    return kind && segment
+      ? this.objects.get(
+          this.uriOf(kind, decodeURIComponent(segment).toUpperCase()),
+        )
+      : undefined;
+  }
+
+  private existing(kind: IKind, name: string): IStoredObject {
+    const object = this.objects.get(this.uriOf(kind, name));
+    if (!object) {
+      throw httpError(404, `${kind.type} ${name} does not exist`);
+    }
+    return object;
+  }
+
+  private create(kind: IKind, request: IRequest): IAdtResponse {
+    const root = rootElement(request.body);
+    const name = String(root?.['@_adtcore:name'] ?? '').toUpperCase();
+    const packageRef = root?.['adtcore:packageRef'] as
+      | Record<string, unknown>
+      | undefined;
+    const packageName = String(packageRef?.['@_adtcore:name'] ?? '');
+    if (!name || !packageName) {
+      throw httpError(
+        400,
+        'The object document has no adtcore:name or no adtcore:packageRef',
+      );
+    }
+    const uri = this.uriOf(kind, name);
+    if (this.objects.has(uri)) {
+      throw httpError(400, `Resource ${kind.type} ${name} does already exist`);
+    }
+    const object: IStoredObject = {
+      kind,
+      type: kind.type,
+      name,
+      uri,
+      packageName: packageName.toUpperCase(),
+      description: String(root?.['@_adtcore:description'] ?? ''),
+      ...(request.params.corrNr && { transport: request.params.corrNr }),
+      parts: { '': { inactive: request.body } },
+    };
+    if (kind.skeleton) {
+      object.parts[MAIN] = { inactive: kind.skeleton(name.toLowerCase()) };
+    }
+    this.objects.set(uri, object);
+    return ok(request.body, 'application/xml', 201, { location: uri });
+  }
+
+  private lock(kind: IKind, name: string, session: ISession): IAdtResponse {
+    const object = this.existing(kind, name);
+    if (object.lock && object.lock.sessionId !== session.id) {
+      throw httpError(403, `${name} is currently being edited by another user`);
+    }
+    if (!object.lock) {
+      this.lockCounter += 1;
+      object.lock = {
+        handle: `FAKELOCK${String(this.lockCounter).padStart(6, '0')}`,
+        sessionId: session.id,
+      };
+    }
+    return ok(lockResult(object.lock.handle, object.transport));
+  }
+
+  /**
+   * Releases the lock when the handle and session are the ones holding it.
+   * Any other unlock succeeds without effect, as SAP's does: cleanup code
+   * unlocks whatever it last had, and must not fail over a stale handle.
+   */
+  private unlock(kind: IKind, name: string, request: IRequest): IAdtResponse {
+    const object = this.existing(kind, name);
+    if (
+      object.lock?.handle === request.params.lockHandle &&
+      object.lock?.sessionId === request.session.id
+    ) {
+      object.lock = undefined;
+    }
+    return ok('', 'text/plain');
+  }
+
+  private read(
+    kind: IKind,
+    name: string,
+    partKey: string,
+    request: IRequest,
+  ): IAdtResponse {
+    const object = this.existing(kind, name);
+    const versions = object.parts[partKey];
+    const data =
+      request.params.version === 'active'
+        ? (versions?.active ?? versions?.inactive)
+        : (versions?.inactive ?? versions?.active);
+    if (data === undefined && !(kind.includes ?? []).includes(partKey)) {
+      throw httpError(404, `${name} has no ${partKey}`);
+    }
+    return ok(data ?? '', partKey === '' ? 'application/xml' : 'text/plain');
+  }
+
+  private write(
+    kind: IKind,
+    name: string,
+    partKey: string,
+    request: IRequest,
+  ): IAdtResponse {
+    const object = this.existing(kind, name);
+    if (
+      !object.lock ||
+      object.lock.handle !== request.params.lockHandle ||
+      object.lock.sessionId !== request.session.id
+    ) {
+      throw httpError(
+        423,
+        `Resource ${name} is not locked (invalid lock handle)`,
+      );
+    }
+    object.parts[partKey] = {
+      ...object.parts[partKey],
+      inactive: request.body,
+    };
+    if (partKey === '') {
+      const description = rootElement(request.body)?.['@_adtcore:description'];
+      if (description !== undefined) object.description = String(description);
+    }
+    if (request.params.corrNr) object.transport = request.params.corrNr;
+    return ok(
+      partKey === '' ? request.body : '',
+      partKey === '' ? 'application/xml' : 'text/plain',
+    );
+  }
+
+  private findings(
+    object: IFakeAdtObject,
+    source: string,
+  ): IFakeCheckMessage[] {
+    return this.options.check?.(object, source) ?? [];
+  }
+
+  /** The sources check and activation look at: sources, or the document for DDIC XML objects. */
+  private checkedParts(object: IStoredObject): string[] {
+    return Object.keys(object.parts).filter(
+      (part) => part !== '' || !object.kind.skeleton,
+    );
+  }
+
+  private checkRun(body: string): IObjectFindings[] {
+    const root = rootElement(body);
+    return list(root?.['chkrun:checkObject']).map((checkObject) => {
+      const uri = String(checkObject['@_adtcore:uri'] ?? '');
+      const version = String(checkObject['@_chkrun:version'] ?? 'active');
+      const artifacts = list(
+        (checkObject['chkrun:artifacts'] as Record<string, unknown>)?.[
+          'chkrun:artifact'
+        ],
+      );
+      const object = this.byUri(uri);
+      const name = object?.name ?? uri.split('/').pop()?.toUpperCase() ?? uri;
+
+      if (artifacts.length > 0) {
+        const subject: IFakeAdtObject = object
+          ? snapshot(object)
+          : {
+              type: '',
+              name,
+              uri,
+              packageName: '',
+              description: '',
+              parts: {},
+            };
+        return {
+          uri,
+          name,
+          messages: artifacts.flatMap((artifact) =>
+            this.findings(
+              subject,
+              Buffer.from(
+                String(artifact['chkrun:content'] ?? ''),
+                'base64',
+              ).toString('utf8'),
+            ),
+          ),
+        };
+      }
+      if (!object) {
+        return {
+          uri,
+          name,
+          messages: [{ type: 'E', text: `${name} does not exist` }],
+        };
+      }
+      return {
+        uri,
+        name,
+        messages: this.checkedParts(object).flatMap((part) => {
+          const versions = object.parts[part];
+          const source =
+            version === 'active'
+              ? (versions.active ?? versions.inactive)
+              : (versions.inactive ?? versions.active);
+          return this.findings(snapshot(object), source ?? '');
+        }),
+      };
+    });
+  }
+
+  /**
+   * Promote the inactive versions of every referenced object whose check
+   * finds no error. An object that fails keeps its inactive version, so a
+   * second activation after the fix succeeds, as it does in SAP.
+   */
+  private activate(request: IRequest): {
+    executed: boolean;
+    findings: IObjectFindings[];
+  } {
+    const references = list(
+      rootElement(request.body)?.['adtcore:objectReference'],
+    );
+    const findings: IObjectFindings[] = [];
+    let executed = false;
+
+    const objects = references.map((reference) => {
+      const uri = String(reference['@_adtcore:uri'] ?? '');
+      const object = this.byUri(uri);
+      if (object?.lock && object.lock.sessionId !== request.session.id) {
+        throw httpError(
+          403,
+          `${object.name} is currently being edited by another user`,
+        );
+      }
+      return { reference, uri, object };
+    });
+
+    for (const { reference, uri, object } of objects) {
+      if (!object) {
+        const name = String(reference['@_adtcore:name'] ?? uri);
+        findings.push({
+          uri,
+          name,
+          messages: [{ type: 'E', text: `${name} does not exist` }],
+        });
+        continue;
+      }
+      const pending = Object.keys(object.parts).filter(
+        (part) => object.parts[part].inactive !== undefined,
+      );
+      if (pending.length === 0) continue;
+
+      const messages = this.checkedParts(object)
+        .filter((part) => pending.includes(part))
+        .flatMap((part) =>
+          this.findings(snapshot(object), object.parts[part].inactive ?? ''),
+        );
+      if (messages.length > 0) {
+        findings.push({ uri: object.uri, name: object.name, messages });
+      }
+      if (messages.some((message) => message.type === 'E')) continue;
+
+      for (const part of pending) {
+        object.parts[part] = { active: object.parts[part].inactive };
+      }
+      executed = true;
+    }
+    return { executed, findings };
+  }
+
+  private deletionTargets(request: IRequest): IStoredObject[] {
+    return list(rootElement(request.body)?.['del:object']).map((entry) => {
+      const uri = String(entry['@_adtcore:uri'] ?? '');
+      const object = this.byUri(uri);
+      if (!object) throw httpError(404, `${uri} does not exist`);
+      return object;
+    });
+  }
+
+  private lockedElsewhere(
+    object: IStoredObject,
+    session: ISession,
+  ): string | undefined {
+    return object.lock && object.lock.sessionId !== session.id
+      ? `${object.name} is currently being edited by another user`
+      : undefined;
+  }
+
+  private deletionCheck(request: IRequest): IAdtResponse {
+    const [object] = this.deletionTargets(request);
+    if (!object) throw httpError(400, 'The request names no object');
+    return ok(
+      deletionCheckResult(
+        object,
+        this.lockedElsewhere(object, request.session),
+      ),
+    );
+  }
+
+  private delete(request: IRequest): IAdtResponse {
+    const targets = this.deletionTargets(request);
+    for (const object of targets) {
+      const refusal = this.lockedElsewhere(object, request.session);
+      if (refusal) throw httpError(403, refusal);
+    }
+    for (const object of targets) this.objects.delete(object.uri);
+    return ok('');
+  }
+
+  private validate(params: Record<string, string>): string {
+    const name = (params.objname ?? params.objectname ?? '').toUpperCase();
+    const type = (params.objtype ?? params.objecttype ?? '').toUpperCase();
+    const existing = [...this.objects.values()].find(
+      (object) =>
+        object.name === name &&
+        (!type || object.type.split('/')[0] === type.split('/')[0]),
+    );
+    return validationResult(existing && `${existing.type} ${existing.name}`);
+  }
+}
@@ -0,0 +1,12 @@
+export { FakeAdtConnection } from './FakeAdtConnection';
+export { FakeAdtServer } from './FakeAdtServer';
+export type {
+  FakeAdtCheck,
+  IFakeAdtLock,
+  IFakeAdtObject,
+  IFakeAdtRequestLogEntry,
+  IFakeAdtSeed,
+  IFakeAdtServerOptions,
+  IFakeAdtVersions,
+  IFakeCheckMessage,
+} from './types';
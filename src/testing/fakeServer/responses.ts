@@ -0,0 +1,176 @@
+/**
+ * The bodies the fake answers with, in the shapes the handlers parse: the
+ * `asx:abap` lock result, `chkl:messages` from activation, `chkrun` check
+ * reports, the deletion check, the inactive objects list. Each is the
+ * smallest document the matching parser in this package accepts, not a copy
+ * of everything SAP sends.
+ */
+
+import type { IAdtResponse } from '@mcp-abap-adt/interfaces';
+import { AxiosError, type AxiosResponse } from 'axios';
+import { escapeXmlAttr } from '../../utils/xml';
+import type { IFakeAdtObject, IFakeCheckMessage } from './types';
+
+const XML_DECL = '<?xml version="1.0" encoding="utf-8"?>';
+
+const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  201: 'Created',
+  400: 'Bad Request',
+  403: 'Forbidden',
+  404: 'Not Found',
+  405: 'Method Not Allowed',
+  423: 'Locked',
+};
+
+const EXCEPTION_TYPE: Record<number, string> = {
+  400: 'ExceptionResourceAlreadyExists',
+  403: 'ExceptionResourceNoAccess',
+  404: 'ExceptionResourceNotFound',
+  405: 'ExceptionMethodNotSupported',
+  423: 'ExceptionInvalidLockHandle',
+};
+
+function escapeText(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+export function ok(
+  data: string,
+  contentType = 'application/xml',
+  status = 200,
+  headers: Record<string, string> = {},
+): IAdtResponse {
+  return {
+    status,
+    statusText: STATUS_TEXT[status] ?? '',
+    headers: { 'content-type': contentType, ...headers },
+    data,
+  };
+}
+
+/**
+ * An HTTP error the way axios throws one — an `AxiosError` carrying the
+ * response — with the `exc:exception` body ADT sends, since the handlers read
+ * both the status and the message from there.
+ */
+export function httpError(status: number, message: string): AxiosError {
+  const response = ok(
+    `${XML_DECL}<exc:exception xmlns:exc="http://www.sap.com/abapxml/types/communicationframework">` +
+      `<namespace id="com.sap.adt"/><type id="${EXCEPTION_TYPE[status] ?? 'ExceptionResourceFailure'}"/>` +
+      `<message lang="EN">${escapeText(message)}</message></exc:exception>`,
+    'application/xml',
+    status,
+  );
+  return new AxiosError(
+    `Request failed with status code ${status}`,
+    AxiosError.ERR_BAD_REQUEST,
+    undefined,
+    undefined,
+    response as AxiosResponse,
+  );
+}
+
+export function lockResult(handle: string, transport?: string): string {
+  return (
+    `${XML_DECL}<asx:abap xmlns:asx="http://www.sap.com/abapxml" version="1.0"><asx:values><DATA>` +
+    `<LOCK_HANDLE>${escapeText(handle)}</LOCK_HANDLE>` +
+    (transport ? `<CORRNR>${escapeText(transport)}</CORRNR>` : '<CORRNR/>') +
+    '<CORRUSER/><CORRTEXT/><IS_LOCAL/><IS_LINK_UP/><MODIFICATION_SUPPORT/>' +
+    '</DATA></asx:values></asx:abap>'
+  );
+}
+
+export function validationResult(existing: string | undefined): string {
+  const data = existing
+    ? `<SEVERITY>ERROR</SEVERITY><SHORT_TEXT>${escapeText(`${existing} already exists`)}</SHORT_TEXT>`
+    : '<CHECK_RESULT>X</CHECK_RESULT>';
+  return `${XML_DECL}<asx:abap xmlns:asx="http://www.sap.com/abapxml" version="1.0"><asx:values><DATA>${data}</DATA></asx:values></asx:abap>`;
+}
+
+export interface IObjectFindings {
+  uri: string;
+  name: string;
+  messages: IFakeCheckMessage[];
+}
+
+function position(uri: string, line: number | undefined): string {
+  return line ? `${uri}/source/main#start=${line},0` : uri;
+}
+
+export function activationResult(
+  executed: boolean,
+  findings: IObjectFindings[],
+): string {
+  const messages = findings
+    .flatMap(({ uri, name, messages }) =>
+      messages.map(
+        (message) =>
+          `<msg objDescr="${escapeXmlAttr(name)}" type="${message.type}" line="${message.line ?? 0}" href="${escapeXmlAttr(position(uri, message.line))}" forceSupported="true">` +
+          `<shortText><txt>${escapeText(message.text)}</txt></shortText></msg>`,
+      ),
+    )
+    .join('');
+  return (
+    `${XML_DECL}<chkl:messages xmlns:chkl="http://www.sap.com/abapxml/checklist">` +
+    `<chkl:properties checkExecuted="true" activationExecuted="${executed}" generationExecuted="${executed}"/>` +
+    `${messages}</chkl:messages>`
+  );
+}
+
+export function activationRun(id: string): string {
+  return (
+    `${XML_DECL}<runs:run xmlns:runs="http://www.sap.com/adt/backgroundrun" ` +
+    `runs:id="${id}" runs:status="finished" runs:progressPercentage="100"/>`
+  );
+}
+
+export function checkRunReports(findings: IObjectFindings[]): string {
+  const reports = findings
+    .map(({ uri, name, messages }) => {
+      const list = messages
+        .map(
+          (message) =>
+            `<chkrun:checkMessage chkrun:uri="${escapeXmlAttr(position(uri, message.line))}" ` +
+            `chkrun:type="${message.type}" chkrun:shortText="${escapeXmlAttr(message.text)}"/>`,
+        )
+        .join('');
+      return (
+        `<chkrun:checkReport chkrun:reporter="abapCheckRun" chkrun:triggeringUri="${escapeXmlAttr(uri)}" ` +
+        `chkrun:status="processed" chkrun:statusText="Object ${escapeXmlAttr(name)} has been checked">` +
+        `<chkrun:checkMessageList>${list}</chkrun:checkMessageList></chkrun:checkReport>`
+      );
+    })
+    .join('');
+  return `${XML_DECL}<chkrun:checkRunReports xmlns:chkrun="http://www.sap.com/adt/checkrun">${reports}</chkrun:checkRunReports>`;
+}
+
+export function deletionCheckResult(
+  object: IFakeAdtObject,
+  refusal: string | undefined,
+): string {
+  const message = refusal
+    ? `<del:message del:type="E"><del:text>${escapeText(refusal)}</del:text></del:message>`
+    : '';
+  return (
+    `${XML_DECL}<del:checkResponse xmlns:del="http://www.sap.com/adt/deletion" xmlns:adtcore="http://www.sap.com/adt/core">` +
+    `<del:object adtcore:uri="${escapeXmlAttr(object.uri)}" adtcore:type="${object.type}" adtcore:name="${escapeXmlAttr(object.name)}" ` +
+    `del:isDeletable="${!refusal}" del:externalStrongReferences="0" del:externalWeakReferences="0">${message}</del:object>` +
+    '</del:checkResponse>'
+  );
+}
+
+export function inactiveObjects(objects: IFakeAdtObject[]): string {
+  const entries = objects
+    .map(
+      (object) =>
+        '<ioc:entry><ioc:object ioc:deleted="false">' +
+        `<ioc:ref adtcore:uri="${escapeXmlAttr(object.uri)}" adtcore:type="${object.type}" adtcore:name="${escapeXmlAttr(object.name)}"/>` +
+        '</ioc:object></ioc:entry>',
+    )
+    .join('');
+  return `${XML_DECL}<ioc:inactiveObjects xmlns:ioc="http://www.sap.com/abapxml/inactiveCtsObjects" xmlns:adtcore="http://www.sap.com/adt/core">${entries}</ioc:inactiveObjects>`;
+}
@@ -0,0 +1,95 @@
+/**
+ * Fake ADT server type definitions.
+ *
+ * The fake keeps the state a system would — objects, their versions, locks,
+ * transports — in memory, so these describe that state as a test sees it. As
+ * with the cassette types, they belong to this package's testing support and
+ * to nothing in @mcp-abap-adt/interfaces.
+ */
+
+/** The two stored versions of one part of an object. */
+export interface IFakeAdtVersions {
+  /** Saved and activated. */
+  active?: string;
+  /** Saved since the last activation, or never activated. */
+  inactive?: string;
+}
+
+/** A lock held on an object, and which connection holds it. */
+export interface IFakeAdtLock {
+  handle: string;
+  sessionId: string;
+}
+
+/** An object in the fake repository, as `FakeAdtServer.getObject()` returns it. */
+export interface IFakeAdtObject {
+  /** ADT type, e.g. `CLAS/OC`, `DOMA/DD`. */
+  type: string;
+  /** Upper case, as SAP stores it. */
+  name: string;
+  /** Object URI, lower case: `/sap/bc/adt/oo/classes/zcl_demo`. */
+  uri: string;
+  packageName: string;
+  description: string;
+  /** Transport request the object was last written under, if any. */
+  transport?: string;
+  lock?: IFakeAdtLock;
+  /**
+   * Stored versions by part: `''` for the object document (the XML a create
+   * or a DDIC update sends), `source/main` and `includes/<name>` for sources.
+   */
+  parts: Record<string, IFakeAdtVersions>;
+}
+
+/** An object to put in the repository before a test runs. */
+export interface IFakeAdtSeed {
+  /** ADT type: `CLAS/OC`, `INTF/OI`, `PROG/P`, `TABL/DT`, `TABL/DS`, `DOMA/DD` or `DTEL/DE`. */
+  type: string;
+  name: string;
+  /** Default `$TMP`. */
+  packageName?: string;
+  description?: string;
+  transport?: string;
+  /** Main source; the kind's skeleton when omitted. Ignored for DOMA and DTEL. */
+  source?: string;
+  /** Object document; a minimal one built from the fields above when omitted. */
+  xml?: string;
+  /** Seed as active (default) or as created and not yet activated. */
+  state?: 'active' | 'inactive';
+}
+
+/** A finding the check hook reports for a source. */
+export interface IFakeCheckMessage {
+  /** `E` fails a check run and blocks activation; `W` and `I` do neither. */
+  type: 'E' | 'W' | 'I';
+  text: string;
+  /** 1-based line the finding points at. */
+  line?: number;
+}
+
+/**
+ * Decides what a check run or an activation finds in a source. The fake does
+ * not parse ABAP, so without a hook every source is clean; a test that needs
+ * a syntax error says where it is.
+ */
+export type FakeAdtCheck = (
+  object: IFakeAdtObject,
+  source: string,
+) => IFakeCheckMessage[];
+
+export interface IFakeAdtServerOptions {
+  check?: FakeAdtCheck;
+  /** Base URL the connections report. Default `http://fake-adt.invalid`. */
+  baseUrl?: string;
+}
+
+/** One request the server answered (or refused), for assertions on the flow. */
+export interface IFakeAdtRequestLogEntry {
+  method: string;
+  /** Path without the query. */
+  path: string;
+  params: Record<string, string>;
+  sessionId: string;
+  sessionType: 'stateful' | 'stateless';
+  status: number;
+}
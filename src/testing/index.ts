@@ -0,0 +1,32 @@
+/**
+ * Testing support - connections for running AdtClient flows without a system
+ */
+
+export type {
+  ICassette,
+  ICassetteInteraction,
+  ICassetteMatchOptions,
+  ICassetteRecordOptions,
+  ICassetteRedactionOptions,
+  ICassetteReplacement,
+  ICassetteReplayOptions,
+  ICassetteRequest,
+  ICassetteResponse,
+} from './cassette';
+export {
+  CassetteRecordingConnection,
+  CassetteReplayConnection,
+  loadCassette,
+  saveCassette,
+} from './cassette';
+export type {
+  FakeAdtCheck,
+  IFakeAdtLock,
+  IFakeAdtObject,
+  IFakeAdtRequestLogEntry,
+  IFakeAdtSeed,
+  IFakeAdtServerOptions,
+  IFakeAdtVersions,
+  IFakeCheckMessage,
+} from './fakeServer';
+export { FakeAdtConnection, FakeAdtServer } from './fakeServer';
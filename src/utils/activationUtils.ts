@@ -185,6 +185,11 @@ export function buildObjectUri(
       return `/sap/bc/adt/functions/groups/${lowerName}/fmodules/${lowerName}`;
     }
 
+    case 'FUGR/I': {
+      const lowerParent = encodeSapObjectName(parentName ?? name).toLowerCase();
+      return `/sap/bc/adt/functions/groups/${lowerParent}/includes/${lowerName}`;
+    }
+
     case 'FUGR':
     case 'FUGR/F':
     case 'FUNC':
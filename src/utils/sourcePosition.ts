@@ -0,0 +1,147 @@
+/**
+ * From an ADT URI to a place in a source file.
+ *
+ * ADT points at source with a URI and a fragment:
+ * `/sap/bc/adt/oo/classes/zcl_x/source/main#start=30,0`. Tools outside ADT
+ * point with a file and a line. Two translations sit between them, and they
+ * are kept apart because only one of them is certain:
+ *
+ * - **The position** is read from the fragment. Lines are 1-based and columns
+ *   0-based, as ADT sends them; a consumer with 1-based columns adds one where
+ *   it writes them, not here.
+ * - **The file** is a naming convention, not a fact. The names produced are
+ *   the ones abapGit serializes to (`zcl_x.clas.abap`,
+ *   `zcl_x.clas.testclasses.abap`), because that is how ABAP source reaches a
+ *   repository that CI can annotate. A URI that does not name a source include
+ *   this table knows gets `undefined` — a guessed path would put an annotation
+ *   on a file that does not exist, or worse, on one that does.
+ */
+
+export interface IAdtSourcePosition {
+  /** The URI without its fragment: the include the position is in. */
+  uri: string;
+  /** 1-based line, when the fragment carries one. */
+  line?: number;
+  /** 0-based column, when the fragment carries one. */
+  column?: number;
+}
+
+/**
+ * Split an ADT URI into the include it names and the `start` position of its
+ * fragment. `#start=30` and `#start=30,0;end=31,4` both read; a fragment
+ * without `start` (`#type=CLAS/OM;name=RUN`) yields the include alone.
+ */
+export function parseAdtSourcePosition(uri: string): IAdtSourcePosition {
+  const [base, fragment = ''] = uri.split('#');
+  const start = fragment.match(/(?:^|;)start=(\d+)(?:,(\d+))?/);
+  if (!start) return { uri: base };
+  return {
+    uri: base,
+    line: Number(start[1]),
+    column: start[2] === undefined ? undefined : Number(start[2]),
+  };
+}
+
+/** abapGit's file name for an object name: lower case, `/` as `#`. */
+function fileName(name: string): string {
+  return decodeURIComponent(name).toLowerCase().replace(/\//g, '#');
+}
+
+/** `SAPL` in front of the group name, after its namespace if it has one. */
+function functionPoolName(group: string): string {
+  const decoded = decodeURIComponent(group);
+  const namespaced = decoded.match(/^(\/[^/]+\/)(.+)$/);
+  return namespaced ? `${namespaced[1]}sapl${namespaced[2]}` : `sapl${decoded}`;
+}
+
+const CLASS_INCLUDES: Record<string, string> = {
+  main: 'clas.abap',
+  definitions: 'clas.locals_def.abap',
+  implementations: 'clas.locals_imp.abap',
+  testclasses: 'clas.testclasses.abap',
+  macros: 'clas.macros.abap',
+};
+
+const SOURCE_MAIN: ReadonlyArray<[RegExp, string]> = [
+  [/^\/sap\/bc\/adt\/oo\/interfaces\/([^/]+)$/, 'intf.abap'],
+  [/^\/sap\/bc\/adt\/programs\/programs\/([^/]+)$/, 'prog.abap'],
+  [/^\/sap\/bc\/adt\/programs\/includes\/([^/]+)$/, 'prog.abap'],
+  [/^\/sap\/bc\/adt\/ddic\/ddl\/sources\/([^/]+)$/, 'ddls.asddls'],
+  [/^\/sap\/bc\/adt\/acm\/dcl\/sources\/([^/]+)$/, 'dcls.asdcls'],
+  [/^\/sap\/bc\/adt\/bo\/behaviordefinitions\/([^/]+)$/, 'bdef.asbdef'],
+  [/^\/sap\/bc\/adt\/ddic\/srvd\/sources\/([^/]+)$/, 'srvd.srvdsrv'],
+];
+
+/**
+ * The abapGit file an ADT source URI is serialized to, or `undefined`.
+ *
+ * Only the file name: which folder it sits in depends on the repository's
+ * folder logic and the object's package, neither of which a URI carries. The
+ * fragment, if any, is ignored.
+ */
+export function adtUriToSourcePath(uri: string): string | undefined {
+  const base = parseAdtSourcePosition(uri).uri.replace(/\/+$/, '');
+
+  const classInclude = base.match(
+    /^\/sap\/bc\/adt\/oo\/classes\/([^/]+)\/(?:source\/(main)|includes\/([^/]+))$/,
+  );
+  if (classInclude) {
+    const suffix = CLASS_INCLUDES[classInclude[2] ?? classInclude[3]];
+    return suffix ? `${fileName(classInclude[1])}.${suffix}` : undefined;
+  }
+
+  const functionSource = base.match(
+    /^\/sap\/bc\/adt\/functions\/groups\/([^/]+)(?:\/(?:fmodules|includes)\/([^/]+))?\/source\/main$/,
+  );
+  if (functionSource) {
+    const [, group, member] = functionSource;
+    const part = member ? fileName(member) : fileName(functionPoolName(group));
+    return `${fileName(group)}.fugr.${part}.abap`;
+  }
+
+  const main = base.match(/^(.*)\/source\/main$/);
+  if (!main) return undefined;
+  for (const [pattern, suffix] of SOURCE_MAIN) {
+    const match = main[1].match(pattern);
+    if (match) return `${fileName(match[1])}.${suffix}`;
+  }
+  return undefined;
+}
+
+export interface ISourceMappingOptions {
+  /**
+   * Folder the files sit in, relative to the repository root, with a trailing
+   * slash. Defaults to `src/`, abapGit's default starting folder.
+   */
+  sourceRoot?: string;
+  /**
+   * Maps an ADT URI (fragment removed) to a repository-relative path, for a
+   * layout {@link adtUriToSourcePath} and `sourceRoot` do not describe — a
+   * folder per package, say. Returning `undefined` leaves the entry without a
+   * file.
+   */
+  resolveSourcePath?: (adtUri: string) => string | undefined;
+}
+
+export interface IResolvedSourcePosition {
+  /** Repository-relative path, when the URI maps to one. */
+  path?: string;
+  line?: number;
+  column?: number;
+}
+
+/** Position and repository path of an ADT URI, per the mapping options. */
+export function resolveSourcePosition(
+  uri: string,
+  options: ISourceMappingOptions = {},
+): IResolvedSourcePosition {
+  const position = parseAdtSourcePosition(uri);
+  let path: string | undefined;
+  if (options.resolveSourcePath) {
+    path = options.resolveSourcePath(position.uri);
+  } else {
+    const file = adtUriToSourcePath(position.uri);
+    path = file ? `${options.sourceRoot ?? 'src/'}${file}` : undefined;
+  }
+  return { path, line: position.line, column: position.column };
+}